@@ -1,9 +1,13 @@
-import { Tabs } from 'expo-router';
+import React, { useEffect } from 'react';
+import { Slot, Tabs } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { Platform, View, StyleSheet } from 'react-native';
 import { MenuSidebar } from '../../components/MenuSidebar';
+import { SyncStatusIndicator } from '../../components/SyncStatusIndicator';
 import { useAuth } from '../../contexts/AuthContext';
+import { getTasksForContext } from '../../firebase/tasks';
+import { syncTaskReminders } from '../../services/taskReminders';
 import { MemberRole } from '../../types';
 
 // Helper to check if a role has access to a tab
@@ -37,7 +41,8 @@ const hasAccess = (
 
 export default function TabsLayout() {
   const { t } = useTranslation('common');
-  const { currentMember, userData } = useAuth();
+  const { t: tTasks } = useTranslation('tasks');
+  const { user, currentMember, userData, currentAssociation } = useAuth();
   const isWeb = Platform.OS === 'web';
   
   // Get user's role from current association membership
@@ -54,6 +59,23 @@ export default function TabsLayout() {
   const canSeeLogs = hasAccess(userRole, ['owner', 'admin', 'cultivator'], accountType, hasAssociation);
   const canSeeFriends = hasAccess(userRole, ['owner', 'admin', 'cultivator', 'patient'], accountType, hasAssociation);
 
+  // Schedule task reminders on sign-in and context switches, not only when the tasks screen is opened
+  useEffect(() => {
+    if (!userData || !canSeePlants) return;
+
+    getTasksForContext(userData.uid, currentAssociation?.id)
+      .then(tasks => syncTaskReminders(tasks, userData.uid, (task, overdue) => ({
+        title: tTasks(overdue ? 'reminders.overdueTitle' : 'reminders.dueTitle', { title: task.title }),
+        body: tTasks('reminders.body', { type: tTasks(`types.${task.taskType}`), target: task.targetName }),
+      })))
+      .catch(error => console.error('[Tasks] Error syncing reminders:', error));
+  }, [userData, currentAssociation, canSeePlants]);
+
+  // Signed-out visitors only reach this group through an invitation link
+  if (!user) {
+    return <Slot />;
+  }
+
   const tabsContent = (
     <Tabs
       screenOptions={{
@@ -177,6 +199,20 @@ export default function TabsLayout() {
           headerShown: false,
         }}
       />
+      <Tabs.Screen
+        name="tasks"
+        options={{
+          href: null,
+          headerShown: false,
+        }}
+      />
+      <Tabs.Screen
+        name="lab-analyses"
+        options={{
+          href: null,
+          headerShown: false,
+        }}
+      />
       <Tabs.Screen
         name="admin"
         options={{
@@ -191,6 +227,13 @@ export default function TabsLayout() {
           headerShown: false,
         }}
       />
+      <Tabs.Screen
+        name="sync"
+        options={{
+          href: null,
+          title: t('sync:title'),
+        }}
+      />
     </Tabs>
   );
 
@@ -201,13 +244,19 @@ export default function TabsLayout() {
         <MenuSidebar />
         <View style={styles.webContent}>
           {tabsContent}
+          <SyncStatusIndicator style={styles.webSyncIndicator} />
         </View>
       </View>
     );
   }
 
-  // On mobile, return tabs normally
-  return tabsContent;
+  // On mobile, show the sync indicator above the tab bar
+  return (
+    <View style={styles.mobileContainer}>
+      {tabsContent}
+      <SyncStatusIndicator style={styles.mobileSyncIndicator} />
+    </View>
+  );
 }
 
 const styles = StyleSheet.create({
@@ -220,4 +269,13 @@ const styles = StyleSheet.create({
     flex: 1,
     overflow: 'hidden',
   },
+  webSyncIndicator: {
+    bottom: 16,
+  },
+  mobileContainer: {
+    flex: 1,
+  },
+  mobileSyncIndicator: {
+    bottom: 64,
+  },
 });
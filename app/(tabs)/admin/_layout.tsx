@@ -1,49 +1,134 @@
-import { Stack } from 'expo-router';
+import React from 'react';
+import { Stack, useSegments } from 'expo-router';
+import { usePermissions, Permissions } from '../../../hooks/usePermissions';
+import { RouteGuard } from '../../../components/RouteGuard';
+
+// Who may open each admin section (keyed by the first segment after "admin")
+const ADMIN_ROUTE_ACCESS: Record<string, (permissions: Permissions) => boolean> = {
+  'audit-log': (p) => p.isOwnerOrAdmin,
+  documents: (p) => p.isOwnerOrAdmin,
+  sequences: (p) => p.isOwnerOrAdmin,
+  waste: (p) => p.canManageHarvests,
+  traceability: (p) => p.canViewReports,
+  reports: (p) => p.canViewReports,
+  regulatory: (p) => p.canViewReports,
+  yield: (p) => p.canViewReports,
+  recalls: (p) => p.canManageDistributions,
+};
 
 export default function AdminLayout() {
+  const segments = useSegments() as string[];
+  const permissions = usePermissions();
+
+  const section = segments[segments.indexOf('admin') + 1];
+  const checkAccess = section ? ADMIN_ROUTE_ACCESS[section] : undefined;
+  const allowed = checkAccess ? checkAccess(permissions) : permissions.isOwnerOrAdmin;
+
   return (
-    <Stack
-      screenOptions={{
-        headerStyle: {
-          backgroundColor: '#4CAF50',
-        },
-        headerTintColor: '#fff',
-        headerTitleStyle: {
-          fontWeight: 'bold',
-        },
-      }}
-    >
-      <Stack.Screen
-        name="audit-log"
-        options={{
-          title: 'Audit Log',
-        }}
-      />
-      <Stack.Screen
-        name="documents"
-        options={{
-          title: 'Documents & Protocols',
-        }}
-      />
-      <Stack.Screen
-        name="documents/new"
-        options={{
-          title: 'New Document',
-        }}
-      />
-      <Stack.Screen
-        name="documents/[id]"
-        options={{
-          title: 'Document Details',
-        }}
-      />
-      <Stack.Screen
-        name="reports"
-        options={{
-          title: 'Compliance Reports',
+    <RouteGuard allowed={allowed} loading={permissions.loading}>
+      <Stack
+        screenOptions={{
+          headerStyle: {
+            backgroundColor: '#4CAF50',
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
         }}
-      />
-    </Stack>
+      >
+        <Stack.Screen
+          name="audit-log"
+          options={{
+            title: 'Audit Log',
+          }}
+        />
+        <Stack.Screen
+          name="documents"
+          options={{
+            title: 'Documents & Protocols',
+          }}
+        />
+        <Stack.Screen
+          name="documents/new"
+          options={{
+            title: 'New Document',
+          }}
+        />
+        <Stack.Screen
+          name="documents/[id]"
+          options={{
+            title: 'Document Details',
+          }}
+        />
+        <Stack.Screen
+          name="waste"
+          options={{
+            title: 'Waste Disposal',
+          }}
+        />
+        <Stack.Screen
+          name="waste/new"
+          options={{
+            title: 'Record Disposal',
+          }}
+        />
+        <Stack.Screen
+          name="waste/[id]"
+          options={{
+            title: 'Disposal Details',
+          }}
+        />
+        <Stack.Screen
+          name="traceability"
+          options={{
+            title: 'Traceability',
+          }}
+        />
+        <Stack.Screen
+          name="sequences"
+          options={{
+            title: 'Control Numbers',
+          }}
+        />
+        <Stack.Screen
+          name="reports"
+          options={{
+            title: 'Compliance Reports',
+          }}
+        />
+        <Stack.Screen
+          name="regulatory"
+          options={{
+            title: 'Regulatory Reports',
+          }}
+        />
+        <Stack.Screen
+          name="yield"
+          options={{
+            title: 'Yield Analytics',
+          }}
+        />
+        <Stack.Screen
+          name="recalls"
+          options={{
+            title: 'Recalls',
+          }}
+        />
+        <Stack.Screen
+          name="recalls/new"
+          options={{
+            title: 'Start Recall',
+          }}
+        />
+        <Stack.Screen
+          name="recalls/[id]"
+          options={{
+            title: 'Recall Details',
+          }}
+        />
+      </Stack>
+    </RouteGuard>
   );
 }
 
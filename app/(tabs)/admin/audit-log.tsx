@@ -14,30 +14,41 @@ import { useAuth } from '../../../contexts/AuthContext';
 import { 
   searchAuditLogs, 
   getRecentAuditLogs,
-  AuditLogFilters 
+  verifyAuditChain,
+  AuditLogFilters,
+  AuditChainVerification,
 } from '../../../firebase/auditLog';
 import { AuditLog, AuditAction } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
 import { Loading } from '../../../components/Loading';
+import { showError } from '../../../utils/toast';
 import { DatePicker } from '../../../components/DatePicker';
+import { AuditHistoryModal } from '../../../components/AuditHistoryModal';
+import { isRestorableEntity } from '../../../utils/auditRestore';
 import { format } from 'date-fns';
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from 'expo-router';
 
-const ENTITY_TYPES = ['plant', 'harvest', 'patient', 'distribution', 'extract', 'environment'];
-const ACTIONS: AuditAction[] = ['create', 'update', 'delete'];
+const ENTITY_TYPES = [
+  'plant', 'stage', 'harvest', 'patient', 'order', 'distribution', 'extract', 'environment',
+  'plantLog', 'bulkPlantLog', 'environmentRecord', 'seedGenetic', 'nutrientSchedule', 'growTask',
+  'sensor', 'document', 'wasteDisposal', 'labAnalysis', 'recall', 'association', 'member', 'invitation',
+];
+const ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'override'];
 
 const ACTION_ICONS: Record<AuditAction, { name: keyof typeof Ionicons.glyphMap; color: string }> = {
   create: { name: 'add-circle', color: '#4CAF50' },
   update: { name: 'pencil', color: '#2196F3' },
   delete: { name: 'trash', color: '#F44336' },
+  override: { name: 'shield-half', color: '#FF9800' },
 };
 
 const ACTION_LABELS: Record<AuditAction, string> = {
   create: 'Created',
   update: 'Updated',
   delete: 'Deleted',
+  override: 'Override',
 };
 
 const ENTITY_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
@@ -47,6 +58,22 @@ const ENTITY_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
   distribution: 'share',
   extract: 'flask',
   environment: 'cube',
+  stage: 'git-commit',
+  order: 'cart',
+  plantLog: 'journal',
+  bulkPlantLog: 'albums',
+  environmentRecord: 'thermometer',
+  seedGenetic: 'git-branch',
+  nutrientSchedule: 'calendar',
+  growTask: 'checkbox',
+  sensor: 'radio',
+  document: 'document-text',
+  wasteDisposal: 'trash-bin',
+  labAnalysis: 'beaker',
+  recall: 'alert-circle',
+  association: 'business',
+  member: 'people',
+  invitation: 'mail',
 };
 
 const ENTITY_COLORS: Record<string, string> = {
@@ -56,6 +83,22 @@ const ENTITY_COLORS: Record<string, string> = {
   distribution: '#2196F3',
   extract: '#00BCD4',
   environment: '#795548',
+  stage: '#8BC34A',
+  order: '#3F51B5',
+  plantLog: '#009688',
+  bulkPlantLog: '#607D8B',
+  environmentRecord: '#FF7043',
+  seedGenetic: '#CDDC39',
+  nutrientSchedule: '#7CB342',
+  growTask: '#5C6BC0',
+  sensor: '#26A69A',
+  document: '#673AB7',
+  wasteDisposal: '#9E9E9E',
+  labAnalysis: '#E91E63',
+  recall: '#F44336',
+  association: '#1a237e',
+  member: '#FF5722',
+  invitation: '#03A9F4',
 };
 
 export default function AuditLogScreen() {
@@ -71,9 +114,18 @@ export default function AuditLogScreen() {
   const [startDate, setStartDate] = useState<Date | null>(null);
   const [endDate, setEndDate] = useState<Date | null>(null);
   
-  const { userData } = useAuth();
+  // Chain verification
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  // Entity whose history is open, e.g. to recover a deleted record
+  const [historyLog, setHistoryLog] = useState<AuditLog | null>(null);
+  
+  const { userData, currentAssociation } = useAuth();
 
   const loadLogs = async () => {
+    if (!userData) return;
+
     try {
       const filters: AuditLogFilters = {
         limit: 100,
@@ -99,9 +151,9 @@ export default function AuditLogScreen() {
       
       let logsData: AuditLog[];
       if (hasFilters) {
-        logsData = await searchAuditLogs(filters);
+        logsData = await searchAuditLogs(userData.uid, currentAssociation?.id, filters);
       } else {
-        logsData = await getRecentAuditLogs(100);
+        logsData = await getRecentAuditLogs(userData.uid, currentAssociation?.id, 100);
       }
       
       setLogs(logsData);
@@ -116,9 +168,23 @@ export default function AuditLogScreen() {
   useFocusEffect(
     useCallback(() => {
       loadLogs();
-    }, [selectedEntityType, selectedAction, startDate, endDate])
+    }, [selectedEntityType, selectedAction, startDate, endDate, currentAssociation?.id])
   );
 
+  const handleVerify = async () => {
+    if (!userData) return;
+
+    setVerifying(true);
+    try {
+      setVerification(await verifyAuditChain(userData.uid, currentAssociation?.id));
+    } catch (error: any) {
+      console.error('[AuditLogScreen] Error verifying chain:', error);
+      showError('Failed to verify audit trail: ' + (error.message || 'Unknown error'));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
   const handleRefresh = () => {
     setRefreshing(true);
     loadLogs();
@@ -212,6 +278,23 @@ export default function AuditLogScreen() {
             <Text style={styles.notesText}>{log.notes}</Text>
           </View>
         )}
+        
+        {log.hash ? (
+          <Text style={styles.chainText}>
+            Entry #{log.sequence} · SHA-256 {log.hash.substring(0, 12)}
+          </Text>
+        ) : (
+          <Text style={styles.chainText}>Recorded before the hash chain - not verifiable</Text>
+        )}
+
+        {isRestorableEntity(log.entityType) && (
+          <TouchableOpacity style={styles.historyButton} onPress={() => setHistoryLog(log)}>
+            <Ionicons name="time-outline" size={16} color="#2196F3" />
+            <Text style={styles.historyButtonText}>
+              {log.action === 'delete' ? 'History & recovery' : 'History & restore'}
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
     );
   };
@@ -248,6 +331,11 @@ export default function AuditLogScreen() {
         )}
         
         <Text style={styles.resultCount}>{logs.length} entries</Text>
+        
+        <TouchableOpacity style={styles.verifyButton} onPress={handleVerify} disabled={verifying}>
+          <Ionicons name="shield-checkmark" size={18} color="#2196F3" />
+          <Text style={styles.verifyButtonText}>{verifying ? 'Verifying...' : 'Verify'}</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Active Filter Pills */}
@@ -295,6 +383,40 @@ export default function AuditLogScreen() {
           <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
         }
       >
+        {verification && (
+          <Card style={{ ...styles.verificationCard, borderLeftColor: verification.valid ? '#4CAF50' : '#F44336' }}>
+            <View style={styles.verificationHeader}>
+              <Ionicons
+                name={verification.valid ? 'shield-checkmark' : 'warning'}
+                size={24}
+                color={verification.valid ? '#4CAF50' : '#F44336'}
+              />
+              <View style={styles.verificationInfo}>
+                <Text style={styles.verificationTitle}>
+                  {verification.valid ? 'Audit trail intact' : 'Audit trail has been tampered with'}
+                </Text>
+                <Text style={styles.verificationMeta}>
+                  {verification.checkedEntries} entries checked · {format(new Date(verification.verifiedAt), 'MMM dd, HH:mm')}
+                </Text>
+                {verification.unchainedEntries > 0 && (
+                  <Text style={styles.verificationMeta}>
+                    {verification.unchainedEntries} older entries predate the hash chain
+                  </Text>
+                )}
+              </View>
+              <TouchableOpacity onPress={() => setVerification(null)}>
+                <Ionicons name="close" size={20} color="#999" />
+              </TouchableOpacity>
+            </View>
+            {verification.issues.map((issue, index) => (
+              <View key={index} style={styles.issueRow}>
+                <Ionicons name="alert-circle" size={16} color="#F44336" />
+                <Text style={styles.issueText}>{issue.message}</Text>
+              </View>
+            ))}
+          </Card>
+        )}
+
         {logs.length === 0 ? (
           <Card>
             <View style={styles.emptyState}>
@@ -516,6 +638,17 @@ export default function AuditLogScreen() {
           </View>
         </View>
       </Modal>
+
+      {historyLog && (
+        <AuditHistoryModal
+          visible={!!historyLog}
+          onClose={() => setHistoryLog(null)}
+          entityType={historyLog.entityType}
+          entityId={historyLog.entityId}
+          entityDisplayName={historyLog.entityDisplayName}
+          onRestored={loadLogs}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -569,6 +702,49 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#999',
   },
+  verifyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  verifyButtonText: {
+    fontSize: 14,
+    color: '#2196F3',
+    fontWeight: '500',
+  },
+  // Chain verification
+  verificationCard: {
+    borderLeftWidth: 4,
+  },
+  verificationHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  verificationInfo: {
+    flex: 1,
+  },
+  verificationTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  verificationMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  issueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  issueText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#C62828',
+  },
   activeFilters: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -751,11 +927,29 @@ const styles = StyleSheet.create({
     marginBottom: 4,
     fontWeight: '500',
   },
+  chainText: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
   notesText: {
     fontSize: 13,
     color: '#333',
     fontStyle: 'italic',
   },
+  historyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 6,
+  },
+  historyButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2196F3',
+  },
   // Modal styles
   modalOverlay: {
     flex: 1,
@@ -18,12 +18,14 @@ import { useFocusEffect } from '@react-navigation/native';
 import { useAuth } from '../../../../contexts/AuthContext';
 import {
   getDocument,
-  updateDocument,
-  archiveDocument,
-  activateDocument,
-  deleteDocument,
   getDocumentVersions,
 } from '../../../../firebase/documents';
+import {
+  updateDocumentWithAudit,
+  archiveDocumentWithAudit,
+  activateDocumentWithAudit,
+  deleteDocumentWithAudit,
+} from '../../../../firebase/auditedFirestore';
 import { InstitutionalDocument, DocumentType, ProtocolCategory, DocumentStatus } from '../../../../types';
 import { Card } from '../../../../components/Card';
 import { Button } from '../../../../components/Button';
@@ -132,7 +134,7 @@ export default function DocumentDetailScreen() {
   };
 
   const handleSaveEdit = async () => {
-    if (!document || !id || typeof id !== 'string') return;
+    if (!document || !id || typeof id !== 'string' || !userData) return;
 
     if (!editTitle.trim()) {
       Alert.alert('Error', 'Title is required');
@@ -142,7 +144,7 @@ export default function DocumentDetailScreen() {
     setSaving(true);
 
     try {
-      await updateDocument(id, {
+      await updateDocumentWithAudit(id, {
         title: editTitle.trim(),
         version: editVersion.trim(),
         content: editContent.trim() || undefined,
@@ -150,7 +152,7 @@ export default function DocumentDetailScreen() {
         approvedBy: editApprovedBy.trim() || undefined,
         effectiveDate: editEffectiveDate?.getTime() || document.effectiveDate,
         expirationDate: editExpirationDate?.getTime(),
-      });
+      }, userData.uid, userData.email);
 
       setEditModalVisible(false);
       loadDocument();
@@ -171,9 +173,9 @@ export default function DocumentDetailScreen() {
         {
           text: 'Archive',
           onPress: async () => {
-            if (!id || typeof id !== 'string') return;
+            if (!id || typeof id !== 'string' || !userData) return;
             try {
-              await archiveDocument(id);
+              await archiveDocumentWithAudit(id, userData.uid, userData.email);
               loadDocument();
               Alert.alert('Success', 'Document archived');
             } catch (error) {
@@ -186,9 +188,9 @@ export default function DocumentDetailScreen() {
   };
 
   const handleActivate = async () => {
-    if (!id || typeof id !== 'string') return;
+    if (!id || typeof id !== 'string' || !userData) return;
     try {
-      await activateDocument(id);
+      await activateDocumentWithAudit(id, userData.uid, userData.email);
       loadDocument();
       Alert.alert('Success', 'Document activated');
     } catch (error) {
@@ -206,9 +208,9 @@ export default function DocumentDetailScreen() {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
-            if (!id || typeof id !== 'string') return;
+            if (!id || typeof id !== 'string' || !userData) return;
             try {
-              await deleteDocument(id);
+              await deleteDocumentWithAudit(id, userData.uid, userData.email);
               Alert.alert('Success', 'Document deleted', [
                 { text: 'OK', onPress: () => router.back() },
               ]);
@@ -12,7 +12,8 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useAuth } from '../../../../contexts/AuthContext';
-import { createDocument } from '../../../../firebase/documents';
+import { createDocumentWithAudit } from '../../../../firebase/auditedFirestore';
+
 import { DocumentType, ProtocolCategory, DocumentStatus } from '../../../../types';
 import { Card } from '../../../../components/Card';
 import { Button } from '../../../../components/Button';
@@ -90,7 +91,7 @@ export default function NewDocumentScreen() {
     setSaving(true);
 
     try {
-      await createDocument({
+      await createDocumentWithAudit({
         userId: userData.uid,
         documentType,
         category: documentType === 'protocol' ? category : undefined,
@@ -102,7 +103,7 @@ export default function NewDocumentScreen() {
         expirationDate: expirationDate?.getTime(),
         approvedBy: approvedBy.trim() || undefined,
         status,
-      });
+      }, userData.email);
 
       Alert.alert('Success', 'Document created successfully', [
         { text: 'OK', onPress: () => router.back() },
@@ -0,0 +1,267 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useAuth } from '../../../contexts/AuthContext';
+import { getRecallsForContext } from '../../../firebase/recalls';
+import { Recall, RecallStatus } from '../../../types';
+import { Card } from '../../../components/Card';
+import { Button } from '../../../components/Button';
+import { Loading } from '../../../components/Loading';
+import { showError } from '../../../utils/toast';
+
+type StatusFilter = RecallStatus | 'all';
+
+const STATUS_FILTERS: StatusFilter[] = ['open', 'closed', 'all'];
+
+const RECALL_STATUS_COLORS: Record<RecallStatus, string> = {
+  open: '#F44336',
+  closed: '#607D8B',
+};
+
+export default function RecallsScreen() {
+  const { t } = useTranslation(['admin', 'common']);
+  const [recalls, setRecalls] = useState<Recall[]>([]);
+  const [filter, setFilter] = useState<StatusFilter>('open');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const { userData, currentAssociation } = useAuth();
+  const router = useRouter();
+
+  const loadRecalls = async () => {
+    if (!userData) return;
+
+    try {
+      setRecalls(await getRecallsForContext(userData.uid, currentAssociation?.id));
+    } catch (error) {
+      console.error('[Recalls] Error loading recalls:', error);
+      showError(t('recalls.failedToLoad'), t('common:error'));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRecalls();
+    }, [userData, currentAssociation])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadRecalls();
+  };
+
+  const visibleRecalls = filter === 'all'
+    ? recalls
+    : recalls.filter(recall => recall.status === filter);
+
+  const renderRecall = (recall: Recall) => {
+    const color = RECALL_STATUS_COLORS[recall.status];
+    const pending = recall.patients.filter(patient => patient.contactStatus === 'pending').length;
+
+    return (
+      <TouchableOpacity
+        key={recall.id}
+        onPress={() => router.push(`/(tabs)/admin/recalls/${recall.id}`)}
+      >
+        <Card style={styles.recallCard}>
+          <View style={styles.recallHeader}>
+            <View style={[styles.iconContainer, { backgroundColor: `${color}20` }]}>
+              <Ionicons name="alert-circle" size={22} color={color} />
+            </View>
+            <View style={styles.recallInfo}>
+              <Text style={styles.controlNumber}>{recall.controlNumber}</Text>
+              <Text style={styles.recallMeta} numberOfLines={1}>
+                {format(recall.openedAt, 'MMM dd, yyyy')} · {recall.reason}
+              </Text>
+            </View>
+            <View style={[styles.statusBadge, { backgroundColor: color }]}>
+              <Text style={styles.statusBadgeText}>{t(`recalls.status.${recall.status}`)}</Text>
+            </View>
+          </View>
+
+          <View style={styles.recallFooter}>
+            <Text style={styles.footerText}>
+              {t('recalls.patientCount', { count: recall.patients.length })}
+            </Text>
+            {recall.status === 'open' && pending > 0 && (
+              <Text style={[styles.footerText, styles.pendingText]}>
+                {t('recalls.pendingCount', { count: pending })}
+              </Text>
+            )}
+          </View>
+        </Card>
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return <Loading message={t('common:loading')} />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.filterRow}>
+        {STATUS_FILTERS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.filterChip, filter === option && styles.filterChipActive]}
+            onPress={() => setFilter(option)}
+          >
+            <Text style={[styles.filterChipText, filter === option && styles.filterChipTextActive]}>
+              {option === 'all' ? t('common:all') : t(`recalls.status.${option}`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {visibleRecalls.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="shield-outline" size={64} color="#ccc" />
+          <Text style={styles.emptyText}>{t('recalls.noRecalls')}</Text>
+          <Text style={styles.emptySubtext}>{t('recalls.noRecallsHint')}</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+          }
+        >
+          {visibleRecalls.map(renderRecall)}
+        </ScrollView>
+      )}
+
+      <Button
+        title={t('recalls.startRecall')}
+        onPress={() => router.push('/(tabs)/admin/recalls/new')}
+        variant="danger"
+        style={styles.addButton}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  filterChipActive: {
+    backgroundColor: '#F44336',
+    borderColor: '#F44336',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  filterChipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  list: {
+    padding: 16,
+  },
+  recallCard: {
+    marginBottom: 12,
+  },
+  recallHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  recallInfo: {
+    flex: 1,
+  },
+  controlNumber: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  recallMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  recallFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  footerText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  pendingText: {
+    color: '#FF9800',
+    fontWeight: '600',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#999',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#bbb',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  addButton: {
+    margin: 16,
+  },
+});
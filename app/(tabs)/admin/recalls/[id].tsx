@@ -0,0 +1,555 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useAuth } from '../../../../contexts/AuthContext';
+import { useConfirm } from '../../../../contexts/ConfirmContext';
+import { getRecall } from '../../../../firebase/recalls';
+import { closeRecallWithAudit, updateRecallPatientContactWithAudit } from '../../../../firebase/auditedFirestore';
+import { exportToCSV, exportToJSON, generateRecallReport } from '../../../../utils/exportData';
+import { Recall, RecallContactStatus, RecallPatient } from '../../../../types';
+import { Card } from '../../../../components/Card';
+import { Button } from '../../../../components/Button';
+import { Input } from '../../../../components/Input';
+import { Loading } from '../../../../components/Loading';
+import { showSuccess, showError, showWarning } from '../../../../utils/toast';
+
+const CONTACT_STATUSES: RecallContactStatus[] = ['pending', 'contacted', 'unreachable', 'returned'];
+
+const CONTACT_STATUS_COLORS: Record<RecallContactStatus, string> = {
+  pending: '#FF9800',
+  contacted: '#2196F3',
+  unreachable: '#F44336',
+  returned: '#4CAF50',
+};
+
+export default function RecallDetailScreen() {
+  const { t } = useTranslation(['admin', 'common']);
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [recall, setRecall] = useState<Recall | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  // Contact editor for one patient at a time
+  const [editingPatientId, setEditingPatientId] = useState<string | null>(null);
+  const [contactStatus, setContactStatus] = useState<RecallContactStatus>('pending');
+  const [contactNotes, setContactNotes] = useState('');
+  const [closingNotes, setClosingNotes] = useState('');
+
+  const { userData } = useAuth();
+  const { confirm } = useConfirm();
+  const router = useRouter();
+
+  const loadRecall = async () => {
+    if (!id) return;
+
+    try {
+      setRecall(await getRecall(id));
+    } catch (error) {
+      console.error('[RecallDetail] Error loading recall:', error);
+      showError(t('recalls.failedToLoad'), t('common:error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRecall();
+    }, [id])
+  );
+
+  const handleEditPatient = (patient: RecallPatient) => {
+    if (recall?.status !== 'open') return;
+    setEditingPatientId(patient.patientId);
+    setContactStatus(patient.contactStatus);
+    setContactNotes(patient.contactNotes || '');
+  };
+
+  const handleSaveContact = async () => {
+    if (!recall || !editingPatientId || !userData) return;
+
+    setSaving(true);
+    try {
+      await updateRecallPatientContactWithAudit(
+        recall.id,
+        editingPatientId,
+        { contactStatus, contactNotes },
+        userData.uid,
+        userData.email
+      );
+      setEditingPatientId(null);
+      await loadRecall();
+    } catch (error: any) {
+      console.error('[RecallDetail] Error updating contact:', error);
+      showError(error.message || t('recalls.detail.failedToUpdate'), t('common:error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const submitClose = async () => {
+    if (!recall || !userData) return;
+
+    setSaving(true);
+    try {
+      await closeRecallWithAudit(recall.id, userData.uid, userData.email, closingNotes);
+      showSuccess(t('recalls.detail.closed'), t('common:success'));
+      await loadRecall();
+    } catch (error: any) {
+      console.error('[RecallDetail] Error closing recall:', error);
+      showError(error.message || t('recalls.detail.failedToClose'), t('common:error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!recall) return;
+    const pending = recall.patients.filter(patient => patient.contactStatus === 'pending').length;
+
+    confirm({
+      title: t('recalls.detail.closeTitle'),
+      message: pending > 0
+        ? t('recalls.detail.closeMessagePending', { count: pending })
+        : t('recalls.detail.closeMessage'),
+      confirmText: t('recalls.detail.close'),
+      type: 'destructive',
+      onConfirm: submitClose,
+    });
+  };
+
+  const handleExport = async (type: 'csv' | 'json') => {
+    if (!recall) return;
+
+    setExporting(true);
+    try {
+      const report = generateRecallReport(recall);
+      const filename = `recall_${recall.controlNumber}_${format(new Date(), 'yyyy-MM-dd_HHmm')}`;
+      if (type === 'csv') {
+        if (report.patients.length === 0) {
+          showWarning(t('recalls.detail.noPatientsToExport'));
+          return;
+        }
+        await exportToCSV(report.patients, filename);
+      } else {
+        await exportToJSON(report, filename);
+      }
+    } catch (error: any) {
+      console.error('[RecallDetail] Error exporting report:', error);
+      showError(error.message || t('recalls.detail.failedToExport'), t('common:error'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderPatient = (patient: RecallPatient) => {
+    const color = CONTACT_STATUS_COLORS[patient.contactStatus];
+    const isEditing = editingPatientId === patient.patientId;
+
+    return (
+      <View key={patient.patientId} style={styles.patientRow}>
+        <TouchableOpacity style={styles.patientHeader} onPress={() => handleEditPatient(patient)}>
+          <View style={styles.patientInfo}>
+            <Text style={styles.patientName}>{patient.patientName}</Text>
+            <Text style={styles.patientMeta}>
+              {[patient.phone, patient.email].filter(Boolean).join(' · ') || t('recalls.detail.noContactInfo')}
+            </Text>
+            <Text style={styles.patientMeta}>
+              {patient.quantityGrams > 0 ? `${patient.quantityGrams}g ` : ''}
+              {patient.quantityMl > 0 ? `${patient.quantityMl}ml ` : ''}
+              {patient.quantityUnits > 0 ? `${patient.quantityUnits}un ` : ''}
+              · {patient.distributionNumbers.join(', ')}
+            </Text>
+            {patient.contactNotes && !isEditing && (
+              <Text style={styles.contactNotes}>{patient.contactNotes}</Text>
+            )}
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: color }]}>
+            <Text style={styles.statusBadgeText}>{t(`recalls.contactStatus.${patient.contactStatus}`)}</Text>
+          </View>
+        </TouchableOpacity>
+
+        {isEditing && (
+          <View style={styles.contactEditor}>
+            <View style={styles.optionGrid}>
+              {CONTACT_STATUSES.map(status => {
+                const isSelected = contactStatus === status;
+                const statusColor = CONTACT_STATUS_COLORS[status];
+                return (
+                  <TouchableOpacity
+                    key={status}
+                    style={[
+                      styles.option,
+                      isSelected && { backgroundColor: statusColor, borderColor: statusColor },
+                    ]}
+                    onPress={() => setContactStatus(status)}
+                  >
+                    <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                      {t(`recalls.contactStatus.${status}`)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Input
+              label={t('common:notes')}
+              value={contactNotes}
+              onChangeText={setContactNotes}
+              placeholder={t('recalls.detail.contactNotesPlaceholder')}
+            />
+            <View style={styles.editorActions}>
+              <Button
+                title={t('common:cancel')}
+                onPress={() => setEditingPatientId(null)}
+                variant="secondary"
+                style={styles.editorButton}
+                disabled={saving}
+              />
+              <Button
+                title={saving ? t('common:saving') : t('common:save')}
+                onPress={handleSaveContact}
+                style={styles.editorButton}
+                disabled={saving}
+              />
+            </View>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return <Loading message={t('common:loading')} />;
+  }
+
+  if (!recall) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.emptyState}>
+          <Ionicons name="alert-circle-outline" size={64} color="#ccc" />
+          <Text style={styles.emptyText}>{t('recalls.detail.notFound')}</Text>
+          <Button title={t('common:goBack')} onPress={() => router.back()} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const isOpen = recall.status === 'open';
+  const contacted = recall.patients.filter(patient => patient.contactStatus !== 'pending').length;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {/* Summary */}
+        <Card style={isOpen ? { ...styles.summaryCard, ...styles.summaryCardOpen } : styles.summaryCard}>
+          <View style={styles.summaryHeader}>
+            <Ionicons name="alert-circle" size={28} color={isOpen ? '#F44336' : '#607D8B'} />
+            <View style={styles.summaryInfo}>
+              <Text style={styles.controlNumber}>{recall.controlNumber}</Text>
+              <Text style={styles.summaryMeta}>
+                {t(`recalls.sourceType.${recall.sourceType}`)} · {t(`recalls.status.${recall.status}`)}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.reason}>{recall.reason}</Text>
+          <Text style={styles.summaryMeta}>
+            {t('recalls.detail.openedAt', { date: format(recall.openedAt, 'MMM dd, yyyy HH:mm') })}
+          </Text>
+          {recall.closedAt && (
+            <Text style={styles.summaryMeta}>
+              {t('recalls.detail.closedAt', { date: format(recall.closedAt, 'MMM dd, yyyy HH:mm') })}
+            </Text>
+          )}
+          {recall.closingNotes && <Text style={styles.summaryMeta}>{recall.closingNotes}</Text>}
+
+          <View style={styles.statsRow}>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{recall.patients.length}</Text>
+              <Text style={styles.statLabel}>{t('recalls.impact.patients')}</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{contacted}/{recall.patients.length}</Text>
+              <Text style={styles.statLabel}>{t('recalls.detail.reached')}</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{recall.totalDistributedGrams}g</Text>
+              <Text style={styles.statLabel}>{t('recalls.impact.distributed')}</Text>
+            </View>
+          </View>
+        </Card>
+
+        {/* Batches */}
+        <Card>
+          <Text style={styles.sectionTitle}>{t('recalls.detail.batches')}</Text>
+          {isOpen && <Text style={styles.sectionSubtitle}>{t('recalls.detail.frozenHint')}</Text>}
+          {recall.batches.map(batch => (
+            <TouchableOpacity
+              key={batch.sourceId}
+              style={styles.batchRow}
+              onPress={() => router.push(
+                batch.sourceType === 'harvest'
+                  ? `/(tabs)/harvests/${batch.sourceId}`
+                  : `/(tabs)/extracts/${batch.sourceId}`
+              )}
+            >
+              <Ionicons name={batch.sourceType === 'harvest' ? 'basket' : 'flask'} size={18} color="#666" />
+              <Text style={styles.batchText}>{batch.controlNumber}</Text>
+              <Text style={styles.batchQuantity}>
+                {batch.frozenGrams !== undefined ? `${batch.frozenGrams}g` : ''}
+                {batch.frozenMl !== undefined ? ` ${batch.frozenMl}ml` : ''}
+              </Text>
+              <Ionicons name="chevron-forward" size={18} color="#999" />
+            </TouchableOpacity>
+          ))}
+        </Card>
+
+        {/* Patients */}
+        <Card>
+          <Text style={styles.sectionTitle}>{t('recalls.detail.patients')}</Text>
+          {isOpen && recall.patients.length > 0 && (
+            <Text style={styles.sectionSubtitle}>{t('recalls.detail.patientsHint')}</Text>
+          )}
+          {recall.patients.length === 0 ? (
+            <Text style={styles.emptyListText}>{t('recalls.detail.noPatients')}</Text>
+          ) : (
+            recall.patients.map(renderPatient)
+          )}
+        </Card>
+
+        {/* Export */}
+        <View style={styles.exportRow}>
+          <Button
+            title={t('recalls.detail.exportCsv')}
+            onPress={() => handleExport('csv')}
+            variant="outline"
+            style={styles.exportButton}
+            disabled={exporting}
+          />
+          <Button
+            title={t('recalls.detail.exportJson')}
+            onPress={() => handleExport('json')}
+            variant="outline"
+            style={styles.exportButton}
+            disabled={exporting}
+          />
+        </View>
+
+        {/* Close */}
+        {isOpen && (
+          <Card>
+            <Input
+              label={t('recalls.detail.closingNotes')}
+              value={closingNotes}
+              onChangeText={setClosingNotes}
+              placeholder={t('recalls.detail.closingNotesPlaceholder')}
+              multiline
+            />
+            <Button
+              title={saving ? t('common:saving') : t('recalls.detail.close')}
+              onPress={handleClose}
+              variant="danger"
+              disabled={saving}
+            />
+          </Card>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  summaryCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#607D8B',
+  },
+  summaryCardOpen: {
+    borderLeftColor: '#F44336',
+  },
+  summaryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  summaryInfo: {
+    flex: 1,
+  },
+  controlNumber: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  summaryMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  reason: {
+    fontSize: 15,
+    color: '#333',
+    marginVertical: 12,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  batchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  batchText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  batchQuantity: {
+    fontSize: 13,
+    color: '#666',
+  },
+  patientRow: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  patientHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  patientInfo: {
+    flex: 1,
+  },
+  patientName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  patientMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  contactNotes: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  contactEditor: {
+    marginTop: 12,
+  },
+  optionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  optionText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  optionTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  editorActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  editorButton: {
+    flex: 1,
+  },
+  emptyListText: {
+    fontSize: 13,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  exportButton: {
+    flex: 1,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#999',
+  },
+});
@@ -0,0 +1,466 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useAuth } from '../../../../contexts/AuthContext';
+import { useConfirm } from '../../../../contexts/ConfirmContext';
+import { getHarvestsForContext, getExtractsForContext } from '../../../../firebase/firestore';
+import { getRecallImpact, RecallImpact } from '../../../../firebase/recalls';
+import { openRecallWithAudit } from '../../../../firebase/auditedFirestore';
+import { Harvest, Extract, InventorySourceType } from '../../../../types';
+import { Card } from '../../../../components/Card';
+import { Button } from '../../../../components/Button';
+import { Input } from '../../../../components/Input';
+import { Loading } from '../../../../components/Loading';
+import { showSuccess, showError, showWarning } from '../../../../utils/toast';
+
+const SOURCE_ICONS: Record<InventorySourceType, keyof typeof Ionicons.glyphMap> = {
+  harvest: 'basket',
+  extract: 'flask',
+};
+
+const SOURCE_TYPES: InventorySourceType[] = ['harvest', 'extract'];
+
+interface SourceOption {
+  id: string;
+  controlNumber: string;
+  label: string;
+  underRecall: boolean;
+}
+
+export default function NewRecallScreen() {
+  const { t } = useTranslation(['admin', 'common']);
+  const params = useLocalSearchParams<{ harvestId?: string; extractId?: string }>();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [harvests, setHarvests] = useState<Harvest[]>([]);
+  const [extracts, setExtracts] = useState<Extract[]>([]);
+
+  const [sourceType, setSourceType] = useState<InventorySourceType>(params.extractId ? 'extract' : 'harvest');
+  const [sourceId, setSourceId] = useState<string | undefined>(params.extractId || params.harvestId);
+  const [reason, setReason] = useState('');
+  const [impact, setImpact] = useState<RecallImpact | null>(null);
+  const [impactLoading, setImpactLoading] = useState(false);
+
+  const { userData, currentAssociation } = useAuth();
+  const { confirm } = useConfirm();
+  const router = useRouter();
+
+  const loadSources = async () => {
+    if (!userData?.uid) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [harvestsData, extractsData] = await Promise.all([
+        getHarvestsForContext(userData.uid, currentAssociation?.id),
+        getExtractsForContext(userData.uid, currentAssociation?.id),
+      ]);
+      setHarvests(harvestsData);
+      setExtracts(extractsData);
+    } catch (error) {
+      console.error('[NewRecall] Error loading sources:', error);
+      showError(t('recalls.form.failedToLoadSources'), t('common:error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSources();
+  }, [userData, currentAssociation]);
+
+  // Trace the affected batches and patients whenever the selection changes
+  useEffect(() => {
+    if (!sourceId) {
+      setImpact(null);
+      return;
+    }
+
+    let cancelled = false;
+    setImpactLoading(true);
+    getRecallImpact(sourceType, sourceId)
+      .then(result => {
+        if (!cancelled) setImpact(result);
+      })
+      .catch(error => {
+        console.error('[NewRecall] Error tracing impact:', error);
+        if (!cancelled) setImpact(null);
+      })
+      .finally(() => {
+        if (!cancelled) setImpactLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceType, sourceId]);
+
+  const sourceOptions: SourceOption[] = sourceType === 'harvest'
+    ? harvests.map(h => ({
+        id: h.id,
+        controlNumber: h.controlNumber,
+        label: format(new Date(h.harvestDate), 'MMM dd, yyyy'),
+        underRecall: !!h.recallId,
+      }))
+    : extracts.map(e => ({
+        id: e.id,
+        controlNumber: e.controlNumber,
+        label: e.name,
+        underRecall: !!e.recallId,
+      }));
+
+  const selectedSource = sourceOptions.find(option => option.id === sourceId);
+
+  const handleSelectSourceType = (type: InventorySourceType) => {
+    setSourceType(type);
+    setSourceId(undefined);
+  };
+
+  const submitRecall = async () => {
+    if (!userData?.uid || !sourceId) return;
+
+    setSaving(true);
+    try {
+      const recallId = await openRecallWithAudit(sourceType, sourceId, reason, userData.uid, userData.email, currentAssociation?.id);
+      showSuccess(t('recalls.form.opened'), t('common:success'), () => {
+        router.replace(`/(tabs)/admin/recalls/${recallId}`);
+      });
+    } catch (error: any) {
+      console.error('[NewRecall] Error opening recall:', error);
+      showError(error.message || t('recalls.form.failedToOpen'), t('common:error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!selectedSource) {
+      showWarning(t('recalls.form.selectBatch'));
+      return;
+    }
+    if (!reason.trim()) {
+      showWarning(t('recalls.form.reasonRequired'));
+      return;
+    }
+    if (selectedSource.underRecall) {
+      showWarning(t('recalls.form.alreadyRecalled', { controlNumber: selectedSource.controlNumber }));
+      return;
+    }
+
+    confirm({
+      title: t('recalls.form.confirmTitle'),
+      message: t('recalls.form.confirmMessage', {
+        controlNumber: selectedSource.controlNumber,
+        batches: impact?.batches.length ?? 1,
+        patients: impact?.patients.length ?? 0,
+      }),
+      confirmText: t('recalls.startRecall'),
+      type: 'destructive',
+      onConfirm: submitRecall,
+    });
+  };
+
+  if (loading) {
+    return <Loading message={t('common:loading')} />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={{ flex: 1 }}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {/* Batch */}
+          <Card>
+            <Text style={styles.sectionTitle}>{t('recalls.form.batch')}</Text>
+            <Text style={styles.sectionSubtitle}>{t('recalls.form.batchHint')}</Text>
+
+            <View style={styles.optionGrid}>
+              {SOURCE_TYPES.map((type) => {
+                const isSelected = sourceType === type;
+                return (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.option, isSelected && styles.optionSelected]}
+                    onPress={() => handleSelectSourceType(type)}
+                  >
+                    <Ionicons name={SOURCE_ICONS[type]} size={16} color={isSelected ? '#fff' : '#666'} />
+                    <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                      {t(`recalls.sourceType.${type}`)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <View style={styles.sourceList}>
+              {sourceOptions.length === 0 ? (
+                <Text style={styles.emptySourceText}>{t('recalls.form.noBatches')}</Text>
+              ) : (
+                sourceOptions.map((option) => {
+                  const isSelected = sourceId === option.id;
+                  return (
+                    <TouchableOpacity
+                      key={option.id}
+                      style={[styles.sourceItem, isSelected && styles.sourceItemSelected]}
+                      onPress={() => setSourceId(option.id)}
+                    >
+                      <View style={styles.sourceItemInfo}>
+                        <Text style={styles.sourceControlNumber}>{option.controlNumber}</Text>
+                        <Text style={styles.sourceLabel}>{option.label}</Text>
+                      </View>
+                      {option.underRecall && (
+                        <Text style={styles.recalledTag}>{t('recalls.frozen')}</Text>
+                      )}
+                      {isSelected && (
+                        <Ionicons name="checkmark-circle" size={20} color="#F44336" />
+                      )}
+                    </TouchableOpacity>
+                  );
+                })
+              )}
+            </View>
+          </Card>
+
+          {/* Impact preview */}
+          {sourceId && (
+            <Card>
+              <Text style={styles.sectionTitle}>{t('recalls.impact.title')}</Text>
+              {impactLoading ? (
+                <ActivityIndicator color="#F44336" />
+              ) : impact ? (
+                <>
+                  <View style={styles.statsRow}>
+                    <View style={styles.stat}>
+                      <Text style={styles.statValue}>{impact.batches.length}</Text>
+                      <Text style={styles.statLabel}>{t('recalls.impact.batches')}</Text>
+                    </View>
+                    <View style={styles.stat}>
+                      <Text style={styles.statValue}>{impact.patients.length}</Text>
+                      <Text style={styles.statLabel}>{t('recalls.impact.patients')}</Text>
+                    </View>
+                    <View style={styles.stat}>
+                      <Text style={styles.statValue}>{impact.totalDistributedGrams}g</Text>
+                      <Text style={styles.statLabel}>{t('recalls.impact.distributed')}</Text>
+                    </View>
+                  </View>
+
+                  {impact.batches.map(batch => (
+                    <View key={batch.sourceId} style={styles.impactRow}>
+                      <Ionicons name={SOURCE_ICONS[batch.sourceType]} size={16} color="#666" />
+                      <Text style={styles.impactText}>{batch.controlNumber}</Text>
+                      <Text style={styles.impactQuantity}>
+                        {t('recalls.impact.toFreeze', {
+                          quantity: batch.frozenMl !== undefined && batch.frozenGrams === undefined
+                            ? `${batch.frozenMl}ml`
+                            : `${batch.frozenGrams ?? 0}g`,
+                        })}
+                      </Text>
+                    </View>
+                  ))}
+
+                  {impact.patients.map(patient => (
+                    <View key={patient.patientId} style={styles.impactRow}>
+                      <Ionicons name="person" size={16} color="#666" />
+                      <Text style={styles.impactText}>{patient.patientName}</Text>
+                      <Text style={styles.impactQuantity}>
+                        {patient.quantityGrams > 0 ? `${patient.quantityGrams}g` : ''}
+                        {patient.quantityMl > 0 ? ` ${patient.quantityMl}ml` : ''}
+                      </Text>
+                    </View>
+                  ))}
+                </>
+              ) : (
+                <Text style={styles.emptySourceText}>{t('recalls.impact.failed')}</Text>
+              )}
+            </Card>
+          )}
+
+          {/* Reason */}
+          <Card>
+            <Input
+              label={t('recalls.form.reason')}
+              value={reason}
+              onChangeText={setReason}
+              placeholder={t('recalls.form.reasonPlaceholder')}
+              multiline
+              numberOfLines={3}
+            />
+            <Text style={styles.freezeHint}>{t('recalls.form.freezeHint')}</Text>
+          </Card>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <Button
+              title={saving ? t('common:saving') : t('recalls.startRecall')}
+              onPress={handleSave}
+              variant="danger"
+              disabled={saving}
+            />
+            <Button
+              title={t('common:cancel')}
+              onPress={() => router.back()}
+              variant="secondary"
+              disabled={saving}
+            />
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  // Option chips
+  optionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    backgroundColor: '#F44336',
+    borderColor: '#F44336',
+  },
+  optionText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  optionTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  // Source list
+  sourceList: {
+    marginTop: 12,
+    gap: 8,
+  },
+  emptySourceText: {
+    fontSize: 13,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  sourceItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  sourceItemSelected: {
+    borderColor: '#F44336',
+    backgroundColor: '#FFEBEE',
+  },
+  sourceItemInfo: {
+    flex: 1,
+  },
+  sourceControlNumber: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sourceLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  recalledTag: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#F44336',
+  },
+  // Impact
+  statsRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#F44336',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  impactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  impactText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  impactQuantity: {
+    fontSize: 13,
+    color: '#666',
+  },
+  freezeHint: {
+    fontSize: 12,
+    color: '#999',
+  },
+  // Actions
+  actions: {
+    marginTop: 8,
+    marginBottom: 24,
+    gap: 8,
+  },
+});
@@ -0,0 +1,440 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { addMonths, addQuarters, format } from 'date-fns';
+import { useAuth } from '../../../contexts/AuthContext';
+import { usePermissions } from '../../../hooks/usePermissions';
+import {
+  REGULATORY_TEMPLATES,
+  RegulatoryReport,
+  RegulatoryTemplate,
+  getRegulatoryPeriodLabel,
+  hasBlockingIssues,
+  toRegulatoryCsvRows,
+  toRegulatoryXlsxSheets,
+} from '../../../utils/regulatoryTemplates';
+import { generateRegulatoryReport } from '../../../utils/regulatoryReports';
+import { exportRowsToCSV, exportToPDF, exportToXLSX } from '../../../utils/exportData';
+import { getPdfBranding, renderRegulatoryReportHtml } from '../../../utils/pdfReports';
+import { Card } from '../../../components/Card';
+import { Button } from '../../../components/Button';
+import { Loading } from '../../../components/Loading';
+import { showError, showSuccess } from '../../../utils/toast';
+
+type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+const EXPORT_FORMATS: { id: ExportFormat; icon: keyof typeof Ionicons.glyphMap; color: string }[] = [
+  { id: 'csv', icon: 'document-text', color: '#2196F3' },
+  { id: 'xlsx', icon: 'grid', color: '#388E3C' },
+  { id: 'pdf', icon: 'print', color: '#E91E63' },
+];
+
+export default function RegulatoryReportsScreen() {
+  const { t } = useTranslation(['admin', 'common']);
+  const { userData, currentAssociation } = useAuth();
+  const { canExportData } = usePermissions();
+  const [template, setTemplate] = useState<RegulatoryTemplate>(REGULATORY_TEMPLATES[0]);
+  // Default to the last closed period, which is the one due for submission
+  const [referenceDate, setReferenceDate] = useState<Date>(addMonths(new Date(), -1));
+  const [report, setReport] = useState<RegulatoryReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const shiftPeriod = (direction: 1 | -1) => {
+    setReferenceDate(date => template.period === 'monthly' ? addMonths(date, direction) : addQuarters(date, direction));
+    setReport(null);
+  };
+
+  const handleSelectTemplate = (next: RegulatoryTemplate) => {
+    setTemplate(next);
+    setReport(null);
+  };
+
+  const handleGenerate = async () => {
+    if (!userData) return;
+
+    setLoading(true);
+    try {
+      setReport(await generateRegulatoryReport(
+        { userId: userData.uid, associationId: currentAssociation?.id },
+        template.id,
+        referenceDate,
+        currentAssociation
+      ));
+    } catch (error) {
+      console.error('[RegulatoryReports] Error generating report:', error);
+      showError(t('regulatory.failedToGenerate'), t('common:error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    if (!report || hasBlockingIssues(report)) return;
+
+    setExporting(exportFormat);
+    try {
+      const filename = `${report.templateId}_${report.dateRange.start}_${format(new Date(), 'yyyyMMdd_HHmm')}`;
+      switch (exportFormat) {
+        case 'csv':
+          await exportRowsToCSV(toRegulatoryCsvRows(report), filename);
+          break;
+        case 'xlsx':
+          await exportToXLSX(toRegulatoryXlsxSheets(report), filename);
+          break;
+        case 'pdf': {
+          const branding = await getPdfBranding(currentAssociation);
+          await exportToPDF(renderRegulatoryReportHtml(report, branding), filename);
+          break;
+        }
+      }
+      showSuccess(t('regulatory.exported', { format: exportFormat.toUpperCase() }));
+    } catch (error) {
+      console.error('[RegulatoryReports] Error exporting report:', error);
+      showError(t('regulatory.failedToExport'), t('common:error'));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const renderIssues = (currentReport: RegulatoryReport) => {
+    if (currentReport.issues.length === 0) {
+      return (
+        <View style={styles.validRow}>
+          <Ionicons name="checkmark-circle" size={18} color="#4CAF50" />
+          <Text style={styles.validText}>{t('regulatory.valid')}</Text>
+        </View>
+      );
+    }
+
+    return currentReport.issues.map((issue, index) => {
+      const section = currentReport.sections.find(s => s.id === issue.sectionId);
+      const location = [
+        section ? section.title : t('regulatory.identification'),
+        issue.row ? t('regulatory.row', { row: issue.row }) : undefined,
+      ].filter(Boolean).join(' · ');
+      const isError = issue.severity === 'error';
+
+      return (
+        <View key={index} style={styles.issue}>
+          <Ionicons
+            name={isError ? 'close-circle' : 'warning'}
+            size={16}
+            color={isError ? '#F44336' : '#FF9800'}
+          />
+          <View style={styles.issueContent}>
+            <Text style={styles.issueLocation}>{location}</Text>
+            <Text style={styles.issueMessage}>{issue.message}</Text>
+          </View>
+        </View>
+      );
+    });
+  };
+
+  const renderReport = (currentReport: RegulatoryReport) => {
+    const errorCount = currentReport.issues.filter(issue => issue.severity === 'error').length;
+    const warningCount = currentReport.issues.length - errorCount;
+    const blocked = errorCount > 0;
+
+    return (
+      <>
+        <Card>
+          <Text style={styles.sectionTitle}>{t('regulatory.sections')}</Text>
+          {currentReport.sections.map(section => (
+            <View key={section.id} style={styles.sectionRow}>
+              <Text style={styles.sectionName}>{section.title}</Text>
+              <Text style={styles.sectionCount}>{t('regulatory.rows', { count: section.rows.length })}</Text>
+            </View>
+          ))}
+        </Card>
+
+        <Card>
+          <View style={styles.validationHeader}>
+            <Text style={styles.sectionTitle}>{t('regulatory.validation')}</Text>
+            <Text style={styles.validationCounts}>
+              {t('regulatory.issueCounts', { errors: errorCount, warnings: warningCount })}
+            </Text>
+          </View>
+          {renderIssues(currentReport)}
+        </Card>
+
+        {canExportData ? (
+          <Card>
+            <Text style={styles.sectionTitle}>{t('regulatory.export')}</Text>
+            {blocked && <Text style={styles.blockedText}>{t('regulatory.exportBlocked')}</Text>}
+            <View style={styles.exportRow}>
+              {EXPORT_FORMATS.map(option => (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[
+                    styles.exportButton,
+                    { backgroundColor: option.color },
+                    (blocked || exporting !== null) && styles.exportButtonDisabled,
+                  ]}
+                  onPress={() => handleExport(option.id)}
+                  disabled={blocked || exporting !== null}
+                >
+                  <Ionicons name={option.icon} size={18} color="#fff" />
+                  <Text style={styles.exportButtonText}>
+                    {exporting === option.id ? t('regulatory.exporting') : option.id.toUpperCase()}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </Card>
+        ) : (
+          <View style={styles.restricted}>
+            <Ionicons name="lock-closed" size={18} color="#999" />
+            <Text style={styles.restrictedText}>{t('regulatory.exportRestricted')}</Text>
+          </View>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {!currentAssociation?.anvisaAuthorization && (
+          <View style={styles.notice}>
+            <Ionicons name="information-circle" size={18} color="#1976D2" />
+            <Text style={styles.noticeText}>
+              {currentAssociation ? t('regulatory.noAuthorization') : t('regulatory.noAssociation')}
+            </Text>
+          </View>
+        )}
+
+        {/* Template */}
+        <Card>
+          <Text style={styles.sectionTitle}>{t('regulatory.template')}</Text>
+          {REGULATORY_TEMPLATES.map(option => {
+            const isSelected = option.id === template.id;
+            return (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.templateOption, isSelected && styles.templateOptionSelected]}
+                onPress={() => handleSelectTemplate(option)}
+              >
+                <Ionicons
+                  name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={isSelected ? '#388E3C' : '#999'}
+                />
+                <View style={styles.templateContent}>
+                  <Text style={styles.templateName}>
+                    {t(`regulatory.templates.${option.id}.name`, { defaultValue: option.name })}
+                  </Text>
+                  <Text style={styles.templateDescription}>
+                    {t(`regulatory.templates.${option.id}.description`, { defaultValue: option.description })}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </Card>
+
+        {/* Period */}
+        <Card>
+          <Text style={styles.sectionTitle}>{t(`regulatory.period.${template.period}`)}</Text>
+          <View style={styles.periodRow}>
+            <TouchableOpacity style={styles.periodArrow} onPress={() => shiftPeriod(-1)}>
+              <Ionicons name="chevron-back" size={22} color="#388E3C" />
+            </TouchableOpacity>
+            <Text style={styles.periodLabel}>{getRegulatoryPeriodLabel(template.period, referenceDate)}</Text>
+            <TouchableOpacity style={styles.periodArrow} onPress={() => shiftPeriod(1)}>
+              <Ionicons name="chevron-forward" size={22} color="#388E3C" />
+            </TouchableOpacity>
+          </View>
+        </Card>
+
+        <Button
+          title={loading ? t('regulatory.generating') : t('regulatory.generate')}
+          onPress={handleGenerate}
+          disabled={loading}
+          style={styles.generateButton}
+        />
+
+        {loading ? <Loading message={t('regulatory.generating')} /> : report && renderReport(report)}
+
+        <Text style={styles.hint}>{t('regulatory.identifiedHint')}</Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#E3F2FD',
+    marginBottom: 12,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#1976D2',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  templateOption: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#eee',
+    marginBottom: 8,
+  },
+  templateOptionSelected: {
+    borderColor: '#388E3C',
+    backgroundColor: '#E8F5E9',
+  },
+  templateContent: {
+    flex: 1,
+  },
+  templateName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  templateDescription: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  periodArrow: {
+    padding: 8,
+  },
+  periodLabel: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  generateButton: {
+    marginBottom: 16,
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  sectionName: {
+    fontSize: 14,
+    color: '#333',
+  },
+  sectionCount: {
+    fontSize: 13,
+    color: '#999',
+  },
+  validationHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  validationCounts: {
+    fontSize: 12,
+    color: '#999',
+  },
+  validRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  validText: {
+    fontSize: 14,
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  issue: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  issueContent: {
+    flex: 1,
+  },
+  issueLocation: {
+    fontSize: 11,
+    color: '#999',
+  },
+  issueMessage: {
+    fontSize: 13,
+    color: '#333',
+    marginTop: 1,
+  },
+  blockedText: {
+    fontSize: 13,
+    color: '#F44336',
+    marginBottom: 12,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  exportButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  exportButtonDisabled: {
+    opacity: 0.4,
+  },
+  exportButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  restricted: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 16,
+  },
+  restrictedText: {
+    fontSize: 13,
+    color: '#999',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+});
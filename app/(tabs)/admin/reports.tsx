@@ -10,9 +10,11 @@ import {
   Modal,
 } from 'react-native';
 import { useAuth } from '../../../contexts/AuthContext';
+import { usePermissions } from '../../../hooks/usePermissions';
 import {
   exportToCSV,
   exportToJSON,
+  exportToPDF,
   generatePlantReport,
   generateHarvestReport,
   generateDistributionReport,
@@ -28,6 +30,7 @@ import {
   WasteReportData,
   FullComplianceReport,
 } from '../../../utils/exportData';
+import { getPdfBranding, renderComplianceReportHtml } from '../../../utils/pdfReports';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
 import { DatePicker } from '../../../components/DatePicker';
@@ -101,7 +104,8 @@ export default function ReportsScreen() {
   const [previewModalVisible, setPreviewModalVisible] = useState(false);
   const [exporting, setExporting] = useState(false);
 
-  const { userData } = useAuth();
+  const { userData, currentAssociation } = useAuth();
+  const { canExportData } = usePermissions();
 
   const selectedReportInfo = REPORT_TYPES.find(r => r.id === selectedReportType)!;
 
@@ -126,26 +130,27 @@ export default function ReportsScreen() {
 
     try {
       const dateRange = getDateRange();
+      const context = { userId: userData.uid, associationId: currentAssociation?.id };
       let report: AnyReport;
 
       switch (selectedReportType) {
         case 'plants':
-          report = await generatePlantReport(userData.uid, dateRange);
+          report = await generatePlantReport(context, dateRange);
           break;
         case 'harvests':
-          report = await generateHarvestReport(userData.uid, dateRange);
+          report = await generateHarvestReport(context, dateRange);
           break;
         case 'distributions':
-          report = await generateDistributionReport(userData.uid, dateRange);
+          report = await generateDistributionReport(context, dateRange);
           break;
         case 'patients':
-          report = await generatePatientReport(userData.uid);
+          report = await generatePatientReport(context);
           break;
         case 'waste':
-          report = await generateWasteReport(userData.uid, dateRange);
+          report = await generateWasteReport(context, dateRange);
           break;
         case 'compliance':
-          report = await generateComplianceReport(userData.uid, dateRange);
+          report = await generateComplianceReport(context, dateRange);
           break;
         default:
           throw new Error('Invalid report type');
@@ -196,7 +201,9 @@ export default function ReportsScreen() {
             { type: 'SUMMARY', ...compliance.summary },
             ...flattenForCSV(compliance.plants.plants).map(p => ({ type: 'PLANT', ...p })),
             ...flattenForCSV(compliance.harvests.harvests).map(h => ({ type: 'HARVEST', ...h })),
+            ...flattenForCSV(compliance.extracts.extracts).map(e => ({ type: 'EXTRACT', ...e })),
             ...flattenForCSV(compliance.distributions.distributions).map(d => ({ type: 'DISTRIBUTION', ...d })),
+            ...flattenForCSV(compliance.members).map(m => ({ type: 'MEMBER', ...m })),
           ];
           break;
       }
@@ -229,6 +236,24 @@ export default function ReportsScreen() {
     }
   };
 
+  const handleExportPDF = async () => {
+    if (!reportData || selectedReportType !== 'compliance') return;
+
+    setExporting(true);
+    try {
+      const timestamp = format(new Date(), 'yyyy-MM-dd_HHmm');
+      const branding = await getPdfBranding(currentAssociation);
+      const html = renderComplianceReportHtml(reportData as FullComplianceReport, branding);
+
+      await exportToPDF(html, `compliance_report_${timestamp}`);
+    } catch (error: any) {
+      console.error('[Reports] Error exporting PDF:', error);
+      Alert.alert('Error', 'Failed to export PDF: ' + (error.message || 'Unknown error'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const setQuickDateRange = (range: 'thisMonth' | 'lastMonth' | 'last3Months' | 'thisYear' | 'allTime') => {
     const now = new Date();
     
@@ -458,7 +483,13 @@ export default function ReportsScreen() {
             <View style={styles.previewItem}>
               <Ionicons name="time" size={16} color="#607D8B" />
               <Text style={styles.previewItemText}>
-                {compliance.auditLogSummary.recentActions} recent audit entries
+                {compliance.auditLogSummary.totalActions} audit entries in the period
+              </Text>
+            </View>
+            <View style={styles.previewItem}>
+              <Ionicons name="people" size={16} color="#3F51B5" />
+              <Text style={styles.previewItemText}>
+                {compliance.members.length} members with activity breakdown
               </Text>
             </View>
           </View>
@@ -599,7 +630,7 @@ export default function ReportsScreen() {
           </View>
           <View style={styles.infoDetails}>
             <Text style={styles.infoDetailsText}>
-              • Export as CSV or JSON format{'\n'}
+              • Export as CSV or JSON format (PDF for the full compliance report){'\n'}
               • Share via email, messaging, or cloud storage{'\n'}
               • Patient data is anonymized for privacy
             </Text>
@@ -653,28 +684,50 @@ export default function ReportsScreen() {
             </ScrollView>
 
             {/* Export Actions */}
-            <View style={styles.modalActions}>
-              <TouchableOpacity
-                style={[styles.exportButton, styles.exportButtonCSV]}
-                onPress={handleExportCSV}
-                disabled={exporting}
-              >
-                <Ionicons name="document-text" size={20} color="#fff" />
-                <Text style={styles.exportButtonText}>
-                  {exporting ? 'Exporting...' : 'Export CSV'}
-                </Text>
-              </TouchableOpacity>
-              <TouchableOpacity
-                style={[styles.exportButton, styles.exportButtonJSON]}
-                onPress={handleExportJSON}
-                disabled={exporting}
-              >
-                <Ionicons name="code-slash" size={20} color="#fff" />
-                <Text style={styles.exportButtonText}>
-                  {exporting ? 'Exporting...' : 'Export JSON'}
+            {canExportData ? (
+              <View style={styles.modalActions}>
+                <TouchableOpacity
+                  style={[styles.exportButton, styles.exportButtonCSV]}
+                  onPress={handleExportCSV}
+                  disabled={exporting}
+                >
+                  <Ionicons name="document-text" size={20} color="#fff" />
+                  <Text style={styles.exportButtonText}>
+                    {exporting ? 'Exporting...' : 'Export CSV'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.exportButton, styles.exportButtonJSON]}
+                  onPress={handleExportJSON}
+                  disabled={exporting}
+                >
+                  <Ionicons name="code-slash" size={20} color="#fff" />
+                  <Text style={styles.exportButtonText}>
+                    {exporting ? 'Exporting...' : 'Export JSON'}
+                  </Text>
+                </TouchableOpacity>
+                {/* Printable version for regulators - only the full compliance report */}
+                {selectedReportType === 'compliance' && (
+                  <TouchableOpacity
+                    style={[styles.exportButton, styles.exportButtonPDF]}
+                    onPress={handleExportPDF}
+                    disabled={exporting}
+                  >
+                    <Ionicons name="print" size={20} color="#fff" />
+                    <Text style={styles.exportButtonText}>
+                      {exporting ? 'Exporting...' : 'PDF'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ) : (
+              <View style={styles.modalActions}>
+                <Ionicons name="lock-closed" size={18} color="#999" />
+                <Text style={styles.exportRestrictedText}>
+                  Your role can view reports but not export them
                 </Text>
-              </TouchableOpacity>
-            </View>
+              </View>
+            )}
           </View>
         </View>
       </Modal>
@@ -933,6 +986,11 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: '#e0e0e0',
   },
+  exportRestrictedText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#999',
+  },
   exportButton: {
     flex: 1,
     flexDirection: 'row',
@@ -948,6 +1006,9 @@ const styles = StyleSheet.create({
   exportButtonJSON: {
     backgroundColor: '#2196F3',
   },
+  exportButtonPDF: {
+    backgroundColor: '#F44336',
+  },
   exportButtonText: {
     fontSize: 15,
     fontWeight: '600',
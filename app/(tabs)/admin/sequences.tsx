@@ -0,0 +1,472 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../../contexts/AuthContext';
+import { usePermissions } from '../../../hooks/usePermissions';
+import {
+  getControlNumberFormats,
+  getSequenceCounters,
+  detectSequenceGaps,
+  SequenceScope,
+} from '../../../firebase/sequences';
+import { updateControlNumberFormatsWithAudit } from '../../../firebase/auditedFirestore';
+import { ControlNumberEntityType, SequenceCounter, SequenceGapReport } from '../../../types';
+import {
+  DEFAULT_CONTROL_NUMBER_FORMATS,
+  formatControlNumber,
+  validateControlNumberFormat,
+} from '../../../utils/controlNumber';
+import { Card } from '../../../components/Card';
+import { Input } from '../../../components/Input';
+import { Button } from '../../../components/Button';
+import { Loading } from '../../../components/Loading';
+import { Ionicons } from '@expo/vector-icons';
+import { showSuccess, showError } from '../../../utils/toast';
+
+const ENTITY_INFO: Record<ControlNumberEntityType, { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }> = {
+  plant: { label: 'Plants', icon: 'leaf', color: '#4CAF50' },
+  clone: { label: 'Clones', icon: 'git-branch', color: '#8BC34A' },
+  harvest: { label: 'Harvests', icon: 'basket', color: '#FF9800' },
+  extract: { label: 'Extracts', icon: 'flask', color: '#9C27B0' },
+  distribution: { label: 'Distributions', icon: 'medkit', color: '#2196F3' },
+  order: { label: 'Orders', icon: 'receipt', color: '#607D8B' },
+};
+
+const ENTITY_TYPES: ControlNumberEntityType[] = ['plant', 'clone', 'harvest', 'extract', 'distribution', 'order'];
+
+// Sample values used to preview a format
+const PREVIEW_TOKENS = { sequence: 1, environmentCode: 'T1' };
+
+export default function SequencesScreen() {
+  const [formats, setFormats] = useState<Record<ControlNumberEntityType, string>>(DEFAULT_CONTROL_NUMBER_FORMATS);
+  const [counters, setCounters] = useState<SequenceCounter[]>([]);
+  const [gapReports, setGapReports] = useState<Record<string, SequenceGapReport>>({});
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const { userData, currentAssociation } = useAuth();
+  const { isOwnerOrAdmin } = usePermissions();
+
+  const canEditFormats = !!currentAssociation && isOwnerOrAdmin;
+
+  const getScope = (): SequenceScope | null => {
+    if (!userData?.uid) return null;
+    return { userId: userData.uid, associationId: currentAssociation?.id };
+  };
+
+  const loadData = async () => {
+    const scope = getScope();
+    if (!scope) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [sequenceCounters, associationFormats] = await Promise.all([
+        getSequenceCounters(scope),
+        scope.associationId ? getControlNumberFormats(scope.associationId) : Promise.resolve(DEFAULT_CONTROL_NUMBER_FORMATS),
+      ]);
+      setCounters(sequenceCounters);
+      setFormats(associationFormats);
+    } catch (error) {
+      console.error('[SequencesScreen] Error loading sequences:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [userData?.uid, currentAssociation?.id])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    setGapReports({});
+    loadData();
+  };
+
+  const handleFormatChange = (type: ControlNumberEntityType, value: string) => {
+    setFormats(prev => ({ ...prev, [type]: value.toUpperCase() }));
+  };
+
+  const handleResetFormat = (type: ControlNumberEntityType) => {
+    setFormats(prev => ({ ...prev, [type]: DEFAULT_CONTROL_NUMBER_FORMATS[type] }));
+  };
+
+  const handleSaveFormats = async () => {
+    if (!currentAssociation || !userData) return;
+
+    const invalid = ENTITY_TYPES.find(type => validateControlNumberFormat(formats[type]));
+    if (invalid) {
+      showError(`${ENTITY_INFO[invalid].label}: ${validateControlNumberFormat(formats[invalid])}`, 'Invalid Format');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateControlNumberFormatsWithAudit(currentAssociation.id, formats, userData.uid, userData.email);
+      showSuccess('Control number formats saved. New records will use them.', 'Success');
+    } catch (error: any) {
+      console.error('[SequencesScreen] Error saving formats:', error);
+      showError(error.message || 'Failed to save formats', 'Error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCheckGaps = async (counter: SequenceCounter) => {
+    setCheckingId(counter.id);
+    try {
+      const report = await detectSequenceGaps(counter.id);
+      setGapReports(prev => ({ ...prev, [counter.id]: report }));
+    } catch (error: any) {
+      console.error('[SequencesScreen] Error checking gaps:', error);
+      showError(error.message || 'Failed to check sequence', 'Error');
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
+  // Collapse consecutive missing values into ranges (e.g. "3-5, 9")
+  const formatRanges = (values: number[]): string => {
+    const ranges: string[] = [];
+    let start = values[0];
+    let previous = values[0];
+
+    for (let i = 1; i <= values.length; i++) {
+      const value = values[i];
+      if (value === previous + 1) {
+        previous = value;
+        continue;
+      }
+      ranges.push(start === previous ? `${start}` : `${start}-${previous}`);
+      start = value;
+      previous = value;
+    }
+
+    return ranges.join(', ');
+  };
+
+  const renderPreview = (template: string) => {
+    const error = validateControlNumberFormat(template);
+    if (error) {
+      return <Text style={styles.formatError}>{error}</Text>;
+    }
+    return (
+      <Text style={styles.formatPreview}>
+        e.g. {formatControlNumber(template, PREVIEW_TOKENS)}
+      </Text>
+    );
+  };
+
+  const renderGapReport = (report: SequenceGapReport) => {
+    const hasGaps = report.missingSequences.length > 0 || report.orphanedAllocations.length > 0;
+
+    if (!hasGaps) {
+      return (
+        <View style={[styles.reportBox, styles.reportOk]}>
+          <Ionicons name="checkmark-circle" size={18} color="#4CAF50" />
+          <Text style={styles.reportOkText}>
+            No gaps: {report.allocatedCount} of {report.counter.lastValue} numbers assigned
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={[styles.reportBox, styles.reportWarning]}>
+        {report.missingSequences.length > 0 && (
+          <View style={styles.reportRow}>
+            <Ionicons name="alert-circle" size={18} color="#F44336" />
+            <Text style={styles.reportText}>
+              {report.missingSequences.length} unrecorded: {formatRanges(report.missingSequences)}
+            </Text>
+          </View>
+        )}
+        {report.orphanedAllocations.length > 0 && (
+          <View style={styles.reportRow}>
+            <Ionicons name="trash" size={18} color="#FF9800" />
+            <View style={styles.reportList}>
+              <Text style={styles.reportText}>
+                {report.orphanedAllocations.length} assigned to deleted records:
+              </Text>
+              {report.orphanedAllocations.map(allocation => (
+                <Text key={allocation.sequence} style={styles.reportItem}>
+                  #{allocation.sequence} · {allocation.controlNumber}
+                </Text>
+              ))}
+            </View>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return <Loading message="Loading sequences..." />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Formats */}
+        <Card>
+          <View style={styles.sectionHeader}>
+            <Ionicons name="barcode" size={24} color="#009688" />
+            <Text style={styles.sectionTitle}>Control Number Formats</Text>
+          </View>
+          <Text style={styles.helpText}>
+            Tokens: {'{SEQ}'} (or {'{SEQ:n}'} for n digits), {'{YEAR}'}, {'{MONTH}'}, {'{DAY}'}, {'{DATETIME}'}, {'{ENV}'} (plants and harvests), {'{RANDOM}'}.
+            Sequences restart every year, so include {'{YEAR}'} or {'{DATETIME}'}.
+          </Text>
+
+          {ENTITY_TYPES.map(type => (
+            <View key={type} style={styles.formatRow}>
+              <View style={styles.formatLabelRow}>
+                <Ionicons name={ENTITY_INFO[type].icon} size={16} color={ENTITY_INFO[type].color} />
+                <Text style={styles.formatLabel}>{ENTITY_INFO[type].label}</Text>
+                {canEditFormats && formats[type] !== DEFAULT_CONTROL_NUMBER_FORMATS[type] && (
+                  <TouchableOpacity onPress={() => handleResetFormat(type)}>
+                    <Text style={styles.resetText}>Reset</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              {canEditFormats ? (
+                <Input
+                  value={formats[type]}
+                  onChangeText={(value) => handleFormatChange(type, value)}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+              ) : (
+                <Text style={styles.formatValue}>{formats[type]}</Text>
+              )}
+              {renderPreview(formats[type])}
+            </View>
+          ))}
+
+          {canEditFormats ? (
+            <Button title={saving ? 'Saving...' : 'Save Formats'} onPress={handleSaveFormats} disabled={saving} />
+          ) : (
+            <Text style={styles.helpText}>
+              {currentAssociation
+                ? 'Only owners and admins can change control number formats.'
+                : 'Personal accounts use the default formats.'}
+            </Text>
+          )}
+        </Card>
+
+        {/* Sequences */}
+        <View style={styles.sectionHeader}>
+          <Ionicons name="list" size={24} color="#009688" />
+          <Text style={styles.sectionTitle}>Sequences</Text>
+        </View>
+
+        {counters.length === 0 ? (
+          <Card>
+            <Text style={styles.emptyText}>No control numbers have been allocated yet.</Text>
+          </Card>
+        ) : (
+          counters.map(counter => (
+            <Card key={counter.id}>
+              <View style={styles.counterHeader}>
+                <View style={[styles.counterIcon, { backgroundColor: ENTITY_INFO[counter.entityType].color }]}>
+                  <Ionicons name={ENTITY_INFO[counter.entityType].icon} size={20} color="#fff" />
+                </View>
+                <View style={styles.counterInfo}>
+                  <Text style={styles.counterTitle}>
+                    {ENTITY_INFO[counter.entityType].label} · {counter.year}
+                  </Text>
+                  <Text style={styles.counterSubtitle}>
+                    Last sequence: {counter.lastValue}
+                    {counter.entityType === 'plant' ? ' (shared with clones)' : ''}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  style={styles.checkButton}
+                  onPress={() => handleCheckGaps(counter)}
+                  disabled={checkingId === counter.id}
+                >
+                  {checkingId === counter.id ? (
+                    <ActivityIndicator size="small" color="#009688" />
+                  ) : (
+                    <Text style={styles.checkButtonText}>Check Gaps</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+              {gapReports[counter.id] && renderGapReport(gapReports[counter.id])}
+            </Card>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  helpText: {
+    fontSize: 13,
+    color: '#666',
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+  formatRow: {
+    marginBottom: 8,
+  },
+  formatLabelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  formatLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  resetText: {
+    fontSize: 13,
+    color: '#F44336',
+  },
+  formatValue: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    color: '#333',
+    backgroundColor: '#f0f0f0',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 4,
+  },
+  formatPreview: {
+    fontSize: 12,
+    color: '#009688',
+    fontFamily: 'monospace',
+    marginTop: -8,
+    marginBottom: 8,
+  },
+  formatError: {
+    fontSize: 12,
+    color: '#F44336',
+    marginTop: -8,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  counterHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  counterIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  counterInfo: {
+    flex: 1,
+  },
+  counterTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  counterSubtitle: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  checkButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#E0F2F1',
+    minWidth: 96,
+    alignItems: 'center',
+  },
+  checkButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#009688',
+  },
+  reportBox: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    gap: 8,
+  },
+  reportOk: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#E8F5E9',
+  },
+  reportOkText: {
+    fontSize: 13,
+    color: '#2E7D32',
+    flex: 1,
+  },
+  reportWarning: {
+    backgroundColor: '#FFF3E0',
+  },
+  reportRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  reportList: {
+    flex: 1,
+  },
+  reportText: {
+    fontSize: 13,
+    color: '#333',
+    flex: 1,
+  },
+  reportItem: {
+    fontSize: 12,
+    color: '#666',
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+});
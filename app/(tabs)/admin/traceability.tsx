@@ -0,0 +1,459 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '../../../contexts/AuthContext';
+import { getTraceabilityChain, TraceabilityChain } from '../../../firebase/traceability';
+import { Card } from '../../../components/Card';
+import { Button } from '../../../components/Button';
+import { Input } from '../../../components/Input';
+import { showError } from '../../../utils/toast';
+import { format } from 'date-fns';
+import { Ionicons } from '@expo/vector-icons';
+
+interface ChainItem {
+  id: string;
+  title: string;
+  subtitle?: string;
+  route?: string;
+  highlight?: boolean; // The record that was searched for
+}
+
+interface ChainLink {
+  key: string;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+  items: ChainItem[];
+}
+
+const formatDate = (timestamp?: number): string =>
+  timestamp ? format(new Date(timestamp), 'MMM dd, yyyy') : '';
+
+/**
+ * Orders the chain from origin to patient so it reads top-down like a seed-to-sale report
+ */
+const buildChainLinks = (chain: TraceabilityChain): ChainLink[] => {
+  const isRoot = (id: string) => id === chain.rootId;
+
+  return [
+    {
+      key: 'genetics',
+      label: 'Seed Genetics',
+      icon: 'flower',
+      color: '#8BC34A',
+      items: chain.seedGenetics.map(g => ({
+        id: g.id,
+        title: g.name,
+        subtitle: [g.breeder, g.lineage].filter(Boolean).join(' • ') || undefined,
+        route: `/(tabs)/genetics/${g.id}`,
+      })),
+    },
+    {
+      key: 'ancestors',
+      label: 'Mother Plants',
+      icon: 'git-branch',
+      color: '#009688',
+      items: chain.ancestors.map(p => ({
+        id: p.id,
+        title: p.controlNumber,
+        subtitle: `${p.strain}${p.deletedAt ? ' (deleted)' : ''}`,
+        route: `/(tabs)/plants/${p.id}`,
+      })),
+    },
+    {
+      key: 'environments',
+      label: 'Environments',
+      icon: 'home',
+      color: '#2196F3',
+      items: chain.environments.map(e => ({
+        id: e.id,
+        title: e.name,
+        subtitle: e.type,
+        route: `/(tabs)/environments/${e.id}`,
+      })),
+    },
+    {
+      key: 'plants',
+      label: 'Plants',
+      icon: 'leaf',
+      color: '#4CAF50',
+      items: chain.plants.map(p => ({
+        id: p.id,
+        title: p.controlNumber,
+        subtitle: `${p.strain} • Started ${formatDate(p.startDate)}${p.deletedAt ? ' (deleted)' : ''}`,
+        route: `/(tabs)/plants/${p.id}`,
+        highlight: isRoot(p.id),
+      })),
+    },
+    {
+      key: 'harvests',
+      label: 'Harvests',
+      icon: 'basket',
+      color: '#FF9800',
+      items: chain.harvests.map(h => ({
+        id: h.id,
+        title: h.controlNumber,
+        subtitle: `Harvested ${formatDate(h.harvestDate)} • ${h.status}`,
+        route: `/(tabs)/harvests/${h.id}`,
+        highlight: isRoot(h.id),
+      })),
+    },
+    {
+      key: 'extracts',
+      label: 'Extracts',
+      icon: 'flask',
+      color: '#FF5722',
+      items: chain.extracts.map(e => ({
+        id: e.id,
+        title: e.controlNumber,
+        subtitle: `${e.name} • Batch ${e.batchNumber}`,
+        route: `/(tabs)/extracts/${e.id}`,
+        highlight: isRoot(e.id),
+      })),
+    },
+    {
+      key: 'orders',
+      label: 'Orders',
+      icon: 'cart',
+      color: '#3F51B5',
+      items: chain.orders.map(o => ({
+        id: o.id,
+        title: o.orderNumber,
+        subtitle: o.status,
+        highlight: isRoot(o.id),
+      })),
+    },
+    {
+      key: 'distributions',
+      label: 'Distributions',
+      icon: 'gift',
+      color: '#7B1FA2',
+      items: chain.distributions.map(d => ({
+        id: d.id,
+        title: d.distributionNumber,
+        subtitle: `${formatDate(d.distributionDate)} • ${d.quantityGrams ? `${d.quantityGrams}g` : d.quantityMl ? `${d.quantityMl}ml` : `${d.quantityUnits || 0} units`}`,
+        route: `/(tabs)/distributions/${d.id}`,
+        highlight: isRoot(d.id),
+      })),
+    },
+    {
+      key: 'patients',
+      label: 'Patients',
+      icon: 'people',
+      color: '#E91E63',
+      items: chain.patients.map(p => ({
+        id: p.id,
+        title: p.name,
+        route: `/(tabs)/patients/${p.id}`,
+      })),
+    },
+  ].filter(link => link.items.length > 0) as ChainLink[];
+};
+
+export default function TraceabilityScreen() {
+  const params = useLocalSearchParams<{ controlNumber?: string }>();
+
+  const [controlNumber, setControlNumber] = useState(params.controlNumber || '');
+  const [chain, setChain] = useState<TraceabilityChain | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+
+  const { userData, currentAssociation } = useAuth();
+  const router = useRouter();
+
+  const handleTrace = async (value: string = controlNumber) => {
+    if (!userData?.uid) return;
+
+    if (!value.trim()) {
+      showError('Enter a control number to trace');
+      return;
+    }
+
+    setSearching(true);
+    setNotFound(false);
+
+    try {
+      const result = await getTraceabilityChain(value, {
+        userId: userData.uid,
+        associationId: currentAssociation?.id,
+      });
+      setChain(result);
+      setNotFound(!result);
+    } catch (error: any) {
+      console.error('[Traceability] Error tracing control number:', error);
+      showError('Failed to trace control number: ' + (error.message || 'Unknown error'));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  useEffect(() => {
+    if (params.controlNumber) {
+      handleTrace(params.controlNumber);
+    }
+  }, [params.controlNumber, userData?.uid]);
+
+  const links = chain ? buildChainLinks(chain) : [];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={{ flex: 1 }}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          {/* Search */}
+          <Card>
+            <Text style={styles.sectionTitle}>Trace a Control Number</Text>
+            <Text style={styles.sectionSubtitle}>
+              Plant, harvest, extract, distribution or order number
+            </Text>
+            <Input
+              value={controlNumber}
+              onChangeText={setControlNumber}
+              placeholder="e.g., ABCH20251202143500001"
+              autoCapitalize="characters"
+              autoCorrect={false}
+              onSubmitEditing={() => handleTrace()}
+              returnKeyType="search"
+            />
+            <Button
+              title={searching ? 'Tracing...' : 'Trace'}
+              onPress={() => handleTrace()}
+              disabled={searching}
+            />
+          </Card>
+
+          {searching && (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color="#4CAF50" />
+            </View>
+          )}
+
+          {!searching && notFound && (
+            <Card>
+              <View style={styles.emptyState}>
+                <Ionicons name="search-outline" size={64} color="#ccc" />
+                <Text style={styles.emptyText}>No record found</Text>
+                <Text style={styles.emptySubtext}>
+                  Check the control number or make sure it belongs to your current association
+                </Text>
+              </View>
+            </Card>
+          )}
+
+          {!searching && chain && (
+            <>
+              {/* Missing references */}
+              {chain.missing.length > 0 && (
+                <View style={styles.missingBanner}>
+                  <Ionicons name="warning" size={18} color="#F44336" />
+                  <View style={styles.missingContent}>
+                    <Text style={styles.missingTitle}>Broken links in the chain</Text>
+                    {chain.missing.map((item, index) => (
+                      <Text key={index} style={styles.missingText}>• {item} not found</Text>
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              {/* Chain */}
+              <Card>
+                <Text style={styles.sectionTitle}>Chain of Custody</Text>
+                {links.map((link, index) => (
+                  <View key={link.key} style={styles.linkRow}>
+                    <View style={styles.timeline}>
+                      <View style={[styles.timelineDot, { backgroundColor: link.color }]}>
+                        <Ionicons name={link.icon} size={14} color="#fff" />
+                      </View>
+                      {index < links.length - 1 && <View style={styles.timelineLine} />}
+                    </View>
+                    <View style={styles.linkContent}>
+                      <Text style={[styles.linkLabel, { color: link.color }]}>{link.label}</Text>
+                      {link.items.map(item => (
+                        <TouchableOpacity
+                          key={item.id}
+                          style={[styles.linkItem, item.highlight && { borderColor: link.color, borderWidth: 2 }]}
+                          disabled={!item.route}
+                          onPress={() => item.route && router.push(item.route as any)}
+                        >
+                          <View style={styles.linkItemInfo}>
+                            <Text style={styles.linkItemTitle}>{item.title}</Text>
+                            {item.subtitle && (
+                              <Text style={styles.linkItemSubtitle}>{item.subtitle}</Text>
+                            )}
+                          </View>
+                          {item.route && <Ionicons name="chevron-forward" size={18} color="#999" />}
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+                ))}
+              </Card>
+
+              {/* Waste */}
+              <Card>
+                <Text style={styles.sectionTitle}>Waste Disposals</Text>
+                {chain.wasteDisposals.length === 0 ? (
+                  <Text style={styles.noneText}>No material was disposed along this chain</Text>
+                ) : (
+                  chain.wasteDisposals.map(disposal => (
+                    <TouchableOpacity
+                      key={disposal.id}
+                      style={styles.linkItem}
+                      onPress={() => router.push(`/(tabs)/admin/waste/${disposal.id}`)}
+                    >
+                      <View style={styles.linkItemInfo}>
+                        <Text style={styles.linkItemTitle}>
+                          {disposal.quantityGrams}g • {disposal.description}
+                        </Text>
+                        <Text style={styles.linkItemSubtitle}>
+                          {formatDate(disposal.disposalDate)}
+                          {disposal.sourceControlNumber ? ` • from ${disposal.sourceControlNumber}` : ''}
+                        </Text>
+                      </View>
+                      <Ionicons name="chevron-forward" size={18} color="#999" />
+                    </TouchableOpacity>
+                  ))
+                )}
+              </Card>
+            </>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: -8,
+  },
+  loadingContainer: {
+    paddingVertical: 40,
+    alignItems: 'center',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#999',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#ccc',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  // Missing references
+  missingBanner: {
+    flexDirection: 'row',
+    gap: 10,
+    backgroundColor: '#FFEBEE',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  missingContent: {
+    flex: 1,
+  },
+  missingTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#F44336',
+    marginBottom: 4,
+  },
+  missingText: {
+    fontSize: 13,
+    color: '#F44336',
+  },
+  // Timeline
+  linkRow: {
+    flexDirection: 'row',
+  },
+  timeline: {
+    width: 28,
+    alignItems: 'center',
+  },
+  timelineDot: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e0e0e0',
+    marginVertical: 4,
+  },
+  linkContent: {
+    flex: 1,
+    marginLeft: 12,
+    paddingBottom: 16,
+  },
+  linkLabel: {
+    fontSize: 13,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    marginTop: 5,
+    marginBottom: 8,
+  },
+  linkItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f8f8',
+    borderWidth: 1,
+    borderColor: '#eee',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 6,
+  },
+  linkItemInfo: {
+    flex: 1,
+  },
+  linkItemTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  linkItemSubtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  noneText: {
+    fontSize: 13,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+});
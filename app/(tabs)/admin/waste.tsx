@@ -0,0 +1,565 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../../contexts/AuthContext';
+import { searchWasteDisposals, WasteFilters } from '../../../firebase/wasteDisposal';
+import { WasteDisposal, WasteMaterialType, DisposalMethod } from '../../../types';
+import { Card } from '../../../components/Card';
+import { Button } from '../../../components/Button';
+import { Loading } from '../../../components/Loading';
+import { format } from 'date-fns';
+import { Ionicons } from '@expo/vector-icons';
+
+const MATERIAL_TYPE_INFO: Record<WasteMaterialType, { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }> = {
+  plant_material: { label: 'Plant Material', icon: 'leaf', color: '#4CAF50' },
+  extraction_waste: { label: 'Extraction Waste', icon: 'flask', color: '#FF9800' },
+  contaminated: { label: 'Contaminated', icon: 'bug', color: '#F44336' },
+  expired_product: { label: 'Expired Product', icon: 'time', color: '#9C27B0' },
+  packaging: { label: 'Packaging', icon: 'cube', color: '#2196F3' },
+  other: { label: 'Other', icon: 'ellipsis-horizontal', color: '#607D8B' },
+};
+
+const METHOD_INFO: Record<DisposalMethod, { label: string; icon: keyof typeof Ionicons.glyphMap }> = {
+  incineration: { label: 'Incineration', icon: 'flame' },
+  composting: { label: 'Composting', icon: 'nutrition' },
+  licensed_disposal: { label: 'Licensed Disposal', icon: 'business' },
+  other: { label: 'Other', icon: 'ellipsis-horizontal' },
+};
+
+const MATERIAL_TYPES: WasteMaterialType[] = ['plant_material', 'extraction_waste', 'contaminated', 'expired_product', 'packaging', 'other'];
+const METHODS: DisposalMethod[] = ['incineration', 'composting', 'licensed_disposal', 'other'];
+
+export default function WasteDisposalsScreen() {
+  const [disposals, setDisposals] = useState<WasteDisposal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [filterModalVisible, setFilterModalVisible] = useState(false);
+
+  // Filter state
+  const [selectedMaterial, setSelectedMaterial] = useState<WasteMaterialType | undefined>();
+  const [selectedMethod, setSelectedMethod] = useState<DisposalMethod | undefined>();
+
+  const { userData, currentAssociation } = useAuth();
+  const router = useRouter();
+
+  const loadDisposals = async () => {
+    if (!userData?.uid) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const filters: WasteFilters = {};
+      if (selectedMaterial) filters.materialType = selectedMaterial;
+      if (selectedMethod) filters.disposalMethod = selectedMethod;
+
+      const records = await searchWasteDisposals(userData.uid, filters, currentAssociation?.id);
+      setDisposals(records);
+    } catch (error) {
+      console.error('[WasteDisposalsScreen] Error loading disposals:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadDisposals();
+    }, [userData?.uid, currentAssociation?.id, selectedMaterial, selectedMethod])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadDisposals();
+  };
+
+  const clearFilters = () => {
+    setSelectedMaterial(undefined);
+    setSelectedMethod(undefined);
+    setFilterModalVisible(false);
+  };
+
+  const applyFilters = () => {
+    setFilterModalVisible(false);
+    setLoading(true);
+    loadDisposals();
+  };
+
+  const hasActiveFilters = selectedMaterial || selectedMethod;
+  const totalWeightGrams = disposals.reduce((sum, d) => sum + (d.quantityGrams || 0), 0);
+  const missingWitnessCount = disposals.filter(d => !d.witnessName).length;
+
+  if (loading) {
+    return <Loading message="Loading disposals..." />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header Actions */}
+      <View style={styles.headerActions}>
+        <TouchableOpacity
+          style={[styles.filterButton, hasActiveFilters && styles.filterButtonActive]}
+          onPress={() => setFilterModalVisible(true)}
+        >
+          <Ionicons
+            name="filter"
+            size={20}
+            color={hasActiveFilters ? '#fff' : '#666'}
+          />
+          <Text style={[styles.filterButtonText, hasActiveFilters && styles.filterButtonTextActive]}>
+            Filters {hasActiveFilters ? '(Active)' : ''}
+          </Text>
+        </TouchableOpacity>
+
+        {hasActiveFilters && (
+          <TouchableOpacity style={styles.clearButton} onPress={clearFilters}>
+            <Ionicons name="close-circle" size={20} color="#F44336" />
+            <Text style={styles.clearButtonText}>Clear</Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={{ flex: 1 }} />
+
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => router.push('/(tabs)/admin/waste/new')}
+        >
+          <Ionicons name="add" size={24} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+      >
+        {/* Summary */}
+        <View style={styles.statsRow}>
+          <View style={styles.statCard}>
+            <Text style={styles.statValue}>{disposals.length}</Text>
+            <Text style={styles.statLabel}>Records</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Text style={styles.statValue}>{totalWeightGrams.toFixed(1)}g</Text>
+            <Text style={styles.statLabel}>Disposed</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Text style={[styles.statValue, missingWitnessCount > 0 && styles.statValueWarning]}>
+              {missingWitnessCount}
+            </Text>
+            <Text style={styles.statLabel}>No Witness</Text>
+          </View>
+        </View>
+
+        {disposals.length === 0 ? (
+          <Card>
+            <View style={styles.emptyState}>
+              <Ionicons name="trash-outline" size={64} color="#ccc" />
+              <Text style={styles.emptyText}>No disposals found</Text>
+              <Text style={styles.emptySubtext}>
+                {hasActiveFilters
+                  ? 'Try adjusting your filters'
+                  : 'Record destroyed or discarded material for compliance'}
+              </Text>
+              {!hasActiveFilters && (
+                <Button
+                  title="Record Disposal"
+                  onPress={() => router.push('/(tabs)/admin/waste/new')}
+                  style={styles.emptyButton}
+                />
+              )}
+            </View>
+          </Card>
+        ) : (
+          disposals.map((disposal) => {
+            const materialInfo = MATERIAL_TYPE_INFO[disposal.materialType] || MATERIAL_TYPE_INFO.other;
+            const methodInfo = METHOD_INFO[disposal.disposalMethod] || METHOD_INFO.other;
+
+            return (
+              <TouchableOpacity
+                key={disposal.id}
+                onPress={() => router.push(`/(tabs)/admin/waste/${disposal.id}`)}
+              >
+                <Card style={styles.disposalCard}>
+                  <View style={styles.disposalHeader}>
+                    <View style={[styles.materialIcon, { backgroundColor: materialInfo.color + '20' }]}>
+                      <Ionicons name={materialInfo.icon} size={20} color={materialInfo.color} />
+                    </View>
+                    <View style={styles.disposalHeaderInfo}>
+                      <Text style={styles.disposalTitle} numberOfLines={1}>
+                        {disposal.description}
+                      </Text>
+                      <Text style={[styles.materialLabel, { color: materialInfo.color }]}>
+                        {materialInfo.label}
+                      </Text>
+                    </View>
+                    <Text style={styles.quantityText}>{disposal.quantityGrams}g</Text>
+                  </View>
+
+                  <View style={styles.disposalMeta}>
+                    <View style={styles.metaItem}>
+                      <Ionicons name="calendar-outline" size={14} color="#666" />
+                      <Text style={styles.metaText}>
+                        {format(new Date(disposal.disposalDate), 'MMM dd, yyyy')}
+                      </Text>
+                    </View>
+                    <View style={styles.metaItem}>
+                      <Ionicons name={methodInfo.icon} size={14} color="#666" />
+                      <Text style={styles.metaText}>{methodInfo.label}</Text>
+                    </View>
+                    {disposal.sourceControlNumber && (
+                      <View style={styles.metaItem}>
+                        <Ionicons name="barcode-outline" size={14} color="#666" />
+                        <Text style={styles.metaText}>{disposal.sourceControlNumber}</Text>
+                      </View>
+                    )}
+                  </View>
+
+                  {!disposal.witnessName && (
+                    <View style={styles.warningBanner}>
+                      <Ionicons name="warning" size={14} color="#FF9800" />
+                      <Text style={styles.warningBannerText}>No witness recorded</Text>
+                    </View>
+                  )}
+                </Card>
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </ScrollView>
+
+      {/* Filter Modal */}
+      <Modal
+        visible={filterModalVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setFilterModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Filter Disposals</Text>
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              {/* Material Type Filter */}
+              <Text style={styles.filterLabel}>Material Type</Text>
+              <View style={styles.filterOptions}>
+                <TouchableOpacity
+                  style={[styles.filterOption, !selectedMaterial && styles.filterOptionSelected]}
+                  onPress={() => setSelectedMaterial(undefined)}
+                >
+                  <Text style={[styles.filterOptionText, !selectedMaterial && styles.filterOptionTextSelected]}>
+                    All
+                  </Text>
+                </TouchableOpacity>
+                {MATERIAL_TYPES.map((type) => {
+                  const info = MATERIAL_TYPE_INFO[type];
+                  return (
+                    <TouchableOpacity
+                      key={type}
+                      style={[
+                        styles.filterOption,
+                        selectedMaterial === type && styles.filterOptionSelected,
+                      ]}
+                      onPress={() => setSelectedMaterial(type)}
+                    >
+                      <Ionicons
+                        name={info.icon}
+                        size={14}
+                        color={selectedMaterial === type ? '#fff' : info.color}
+                      />
+                      <Text style={[
+                        styles.filterOptionText,
+                        selectedMaterial === type && styles.filterOptionTextSelected,
+                      ]}>
+                        {info.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              {/* Method Filter */}
+              <Text style={styles.filterLabel}>Disposal Method</Text>
+              <View style={styles.filterOptions}>
+                <TouchableOpacity
+                  style={[styles.filterOption, !selectedMethod && styles.filterOptionSelected]}
+                  onPress={() => setSelectedMethod(undefined)}
+                >
+                  <Text style={[styles.filterOptionText, !selectedMethod && styles.filterOptionTextSelected]}>
+                    All
+                  </Text>
+                </TouchableOpacity>
+                {METHODS.map((method) => {
+                  const info = METHOD_INFO[method];
+                  return (
+                    <TouchableOpacity
+                      key={method}
+                      style={[
+                        styles.filterOption,
+                        selectedMethod === method && styles.filterOptionSelected,
+                      ]}
+                      onPress={() => setSelectedMethod(method)}
+                    >
+                      <Ionicons
+                        name={info.icon}
+                        size={14}
+                        color={selectedMethod === method ? '#fff' : '#666'}
+                      />
+                      <Text style={[
+                        styles.filterOptionText,
+                        selectedMethod === method && styles.filterOptionTextSelected,
+                      ]}>
+                        {info.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </ScrollView>
+
+            <View style={styles.modalButtons}>
+              <Button title="Apply Filters" onPress={applyFilters} />
+              <Button title="Clear All" onPress={clearFilters} variant="secondary" />
+              <Button title="Cancel" onPress={() => setFilterModalVisible(false)} variant="secondary" />
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+    gap: 12,
+  },
+  filterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  filterButtonActive: {
+    backgroundColor: '#4CAF50',
+  },
+  filterButtonText: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '500',
+  },
+  filterButtonTextActive: {
+    color: '#fff',
+  },
+  clearButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  clearButtonText: {
+    fontSize: 14,
+    color: '#F44336',
+  },
+  addButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#4CAF50',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  // Summary
+  statsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  statCard: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    padding: 12,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#333',
+  },
+  statValueWarning: {
+    color: '#FF9800',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#999',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#ccc',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  emptyButton: {
+    marginTop: 24,
+  },
+  // Disposal Card
+  disposalCard: {
+    marginBottom: 8,
+  },
+  disposalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  materialIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  disposalHeaderInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  disposalTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  materialLabel: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  quantityText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#795548',
+  },
+  disposalMeta: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  metaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  warningBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#FFF3E0',
+    padding: 8,
+    borderRadius: 6,
+    marginTop: 8,
+  },
+  warningBannerText: {
+    fontSize: 12,
+    color: '#FF9800',
+    fontWeight: '500',
+  },
+  // Modal
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    maxHeight: '80%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    color: '#333',
+  },
+  filterLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 10,
+    marginTop: 16,
+  },
+  filterOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  filterOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  filterOptionSelected: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
+  filterOptionText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  filterOptionTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  modalButtons: {
+    marginTop: 20,
+    gap: 8,
+  },
+});
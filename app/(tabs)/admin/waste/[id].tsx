@@ -0,0 +1,441 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Image,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../../../contexts/AuthContext';
+import { useConfirm } from '../../../../contexts/ConfirmContext';
+import { getWasteDisposal } from '../../../../firebase/wasteDisposal';
+import { deleteWasteDisposalWithAudit } from '../../../../firebase/auditedFirestore';
+import { getReferenceMovements } from '../../../../firebase/inventory';
+import { WasteDisposal, WasteMaterialType, DisposalMethod, WasteSourceEntityType, InventoryMovement } from '../../../../types';
+import { Card } from '../../../../components/Card';
+import { Button } from '../../../../components/Button';
+import { Loading } from '../../../../components/Loading';
+import { SignatureView } from '../../../../components/SignatureView';
+import { showSuccess, showError } from '../../../../utils/toast';
+import { format } from 'date-fns';
+import { Ionicons } from '@expo/vector-icons';
+
+const MATERIAL_TYPE_INFO: Record<WasteMaterialType, { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }> = {
+  plant_material: { label: 'Plant Material', icon: 'leaf', color: '#4CAF50' },
+  extraction_waste: { label: 'Extraction Waste', icon: 'flask', color: '#FF9800' },
+  contaminated: { label: 'Contaminated', icon: 'bug', color: '#F44336' },
+  expired_product: { label: 'Expired Product', icon: 'time', color: '#9C27B0' },
+  packaging: { label: 'Packaging', icon: 'cube', color: '#2196F3' },
+  other: { label: 'Other', icon: 'ellipsis-horizontal', color: '#607D8B' },
+};
+
+const METHOD_INFO: Record<DisposalMethod, { label: string; icon: keyof typeof Ionicons.glyphMap }> = {
+  incineration: { label: 'Incineration', icon: 'flame' },
+  composting: { label: 'Composting', icon: 'nutrition' },
+  licensed_disposal: { label: 'Licensed Disposal', icon: 'business' },
+  other: { label: 'Other', icon: 'ellipsis-horizontal' },
+};
+
+const SOURCE_ROUTES: Record<WasteSourceEntityType, { label: string; route: string }> = {
+  plant: { label: 'Plant', route: '/(tabs)/plants' },
+  harvest: { label: 'Harvest', route: '/(tabs)/harvests' },
+  extract: { label: 'Extract', route: '/(tabs)/extracts' },
+};
+
+export default function WasteDisposalDetailScreen() {
+  const { id } = useLocalSearchParams();
+  const [disposal, setDisposal] = useState<WasteDisposal | null>(null);
+  const [movements, setMovements] = useState<InventoryMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const { userData } = useAuth();
+  const { confirm } = useConfirm();
+  const router = useRouter();
+
+  const loadDisposal = async () => {
+    if (!id || typeof id !== 'string') {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const disposalData = await getWasteDisposal(id);
+      setDisposal(disposalData);
+      setMovements(disposalData ? await getReferenceMovements('wasteDisposal', id, disposalData) : []);
+    } catch (error) {
+      console.error('[WasteDisposalDetail] Error loading disposal:', error);
+      showError('Failed to load disposal record');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadDisposal();
+    }, [id])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadDisposal();
+  };
+
+  const handleDelete = () => {
+    if (!disposal || !userData) return;
+
+    const restoresStock = disposal.sourceEntityType === 'harvest' && disposal.sourceControlNumber;
+
+    confirm({
+      title: 'Delete Disposal Record',
+      message: restoresStock
+        ? `This will return ${disposal.quantityGrams}g to ${disposal.sourceControlNumber}'s available inventory. This action cannot be undone.`
+        : 'Are you sure you want to permanently delete this disposal record? This action cannot be undone.',
+      confirmText: 'Delete',
+      type: 'destructive',
+      onConfirm: async () => {
+        try {
+          await deleteWasteDisposalWithAudit(disposal.id, userData.uid, userData.email);
+          showSuccess('Disposal record deleted', 'Success', () => router.back());
+        } catch (error: any) {
+          console.error('[WasteDisposalDetail] Error deleting disposal:', error);
+          showError('Failed to delete disposal: ' + (error.message || 'Unknown error'));
+        }
+      },
+    });
+  };
+
+  if (loading) {
+    return <Loading message="Loading disposal..." />;
+  }
+
+  if (!disposal) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.errorContainer}>
+          <Ionicons name="trash-outline" size={64} color="#ccc" />
+          <Text style={styles.errorText}>Disposal record not found</Text>
+          <Button title="Go Back" onPress={() => router.back()} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const materialInfo = MATERIAL_TYPE_INFO[disposal.materialType] || MATERIAL_TYPE_INFO.other;
+  const methodInfo = METHOD_INFO[disposal.disposalMethod] || METHOD_INFO.other;
+  const sourceInfo = disposal.sourceEntityType ? SOURCE_ROUTES[disposal.sourceEntityType] : null;
+  const deductedGrams = movements.reduce((sum, m) => sum + m.quantityGrams, 0);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+      >
+        {/* Header */}
+        <Card>
+          <View style={styles.header}>
+            <View style={[styles.materialIcon, { backgroundColor: materialInfo.color + '20' }]}>
+              <Ionicons name={materialInfo.icon} size={32} color={materialInfo.color} />
+            </View>
+            <View style={styles.headerInfo}>
+              <View style={[styles.materialBadge, { backgroundColor: materialInfo.color }]}>
+                <Text style={styles.materialBadgeText}>{materialInfo.label}</Text>
+              </View>
+              <Text style={styles.title}>{disposal.description}</Text>
+              <Text style={styles.quantity}>{disposal.quantityGrams}g</Text>
+            </View>
+          </View>
+        </Card>
+
+        {/* Disposal Information */}
+        <Card>
+          <Text style={styles.sectionTitle}>Disposal Information</Text>
+
+          <View style={styles.infoRow}>
+            <Ionicons name="calendar" size={18} color="#666" />
+            <View style={styles.infoContent}>
+              <Text style={styles.infoLabel}>Disposal Date</Text>
+              <Text style={styles.infoValue}>
+                {format(new Date(disposal.disposalDate), 'MMMM dd, yyyy')}
+              </Text>
+            </View>
+          </View>
+
+          <View style={styles.infoRow}>
+            <Ionicons name={methodInfo.icon} size={18} color="#666" />
+            <View style={styles.infoContent}>
+              <Text style={styles.infoLabel}>Method</Text>
+              <Text style={styles.infoValue}>{methodInfo.label}</Text>
+            </View>
+          </View>
+
+          {disposal.disposalCompany && (
+            <View style={styles.infoRow}>
+              <Ionicons name="business-outline" size={18} color="#666" />
+              <View style={styles.infoContent}>
+                <Text style={styles.infoLabel}>Disposal Company</Text>
+                <Text style={styles.infoValue}>{disposal.disposalCompany}</Text>
+              </View>
+            </View>
+          )}
+
+          {disposal.manifestNumber && (
+            <View style={styles.infoRow}>
+              <Ionicons name="document-text-outline" size={18} color="#666" />
+              <View style={styles.infoContent}>
+                <Text style={styles.infoLabel}>Manifest Number</Text>
+                <Text style={styles.infoValue}>{disposal.manifestNumber}</Text>
+              </View>
+            </View>
+          )}
+
+          <View style={styles.infoRow}>
+            <Ionicons name="time-outline" size={18} color="#666" />
+            <View style={styles.infoContent}>
+              <Text style={styles.infoLabel}>Recorded</Text>
+              <Text style={styles.infoValue}>
+                {format(new Date(disposal.createdAt), 'MMM dd, yyyy HH:mm')}
+              </Text>
+            </View>
+          </View>
+        </Card>
+
+        {/* Source */}
+        {sourceInfo && disposal.sourceEntityId && (
+          <Card>
+            <Text style={styles.sectionTitle}>Source {sourceInfo.label}</Text>
+            <TouchableOpacity
+              style={styles.sourceLink}
+              onPress={() => router.push(`${sourceInfo.route}/${disposal.sourceEntityId}` as any)}
+            >
+              <Ionicons name="barcode-outline" size={24} color="#2196F3" />
+              <Text style={styles.sourceLinkText}>
+                {disposal.sourceControlNumber || disposal.sourceEntityId}
+              </Text>
+              <Ionicons name="chevron-forward" size={20} color="#2196F3" />
+            </TouchableOpacity>
+
+            {disposal.sourceEntityType === 'harvest' && (
+              <View style={styles.inventoryNote}>
+                <Ionicons
+                  name={movements.length > 0 ? 'checkmark-circle' : 'information-circle'}
+                  size={16}
+                  color={movements.length > 0 ? '#4CAF50' : '#999'}
+                />
+                <Text style={styles.inventoryNoteText}>
+                  {movements.length > 0
+                    ? `${deductedGrams}g deducted from available inventory`
+                    : 'Recorded before inventory tracking; stock was not deducted'}
+                </Text>
+              </View>
+            )}
+          </Card>
+        )}
+
+        {/* Witness */}
+        <Card>
+          <Text style={styles.sectionTitle}>Witness</Text>
+          {disposal.witnessSignatureCapture ? (
+            <SignatureView signature={disposal.witnessSignatureCapture} />
+          ) : disposal.witnessName ? (
+            <View style={styles.infoRow}>
+              <Ionicons
+                name={disposal.witnessSignature ? 'checkmark-circle' : 'person'}
+                size={18}
+                color={disposal.witnessSignature ? '#4CAF50' : '#666'}
+              />
+              <View style={styles.infoContent}>
+                <Text style={styles.infoValue}>{disposal.witnessName}</Text>
+                <Text style={styles.infoLabel}>
+                  {disposal.witnessSignature ? 'Signature confirmed' : 'Signature not confirmed'}
+                </Text>
+              </View>
+            </View>
+          ) : (
+            <View style={styles.warningBanner}>
+              <Ionicons name="warning" size={18} color="#FF9800" />
+              <Text style={styles.warningBannerText}>No witness was recorded for this disposal</Text>
+            </View>
+          )}
+        </Card>
+
+        {/* Notes */}
+        {disposal.notes && (
+          <Card>
+            <Text style={styles.sectionTitle}>Notes</Text>
+            <Text style={styles.notesText}>{disposal.notes}</Text>
+          </Card>
+        )}
+
+        {/* Photo Evidence */}
+        {disposal.photoUrl && (
+          <Card>
+            <Text style={styles.sectionTitle}>Photo Evidence</Text>
+            <Image source={{ uri: disposal.photoUrl }} style={styles.photo} resizeMode="cover" />
+          </Card>
+        )}
+
+        {/* Actions */}
+        <View style={styles.actions}>
+          <Button
+            title="Delete Record"
+            onPress={handleDelete}
+            variant="secondary"
+          />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  errorText: {
+    fontSize: 18,
+    color: '#999',
+    marginTop: 16,
+    marginBottom: 24,
+  },
+  // Header
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  materialIcon: {
+    width: 64,
+    height: 64,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 14,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  materialBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  materialBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 4,
+  },
+  quantity: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#795548',
+  },
+  // Sections
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+    gap: 12,
+  },
+  infoContent: {
+    flex: 1,
+  },
+  infoLabel: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 2,
+  },
+  infoValue: {
+    fontSize: 15,
+    color: '#333',
+  },
+  // Source
+  sourceLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#E3F2FD',
+    padding: 14,
+    borderRadius: 10,
+  },
+  sourceLinkText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2196F3',
+  },
+  inventoryNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  inventoryNoteText: {
+    fontSize: 13,
+    color: '#666',
+    flex: 1,
+  },
+  warningBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFF3E0',
+    padding: 12,
+    borderRadius: 8,
+  },
+  warningBannerText: {
+    fontSize: 14,
+    color: '#FF9800',
+    fontWeight: '500',
+    flex: 1,
+  },
+  notesText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  photo: {
+    width: '100%',
+    height: 240,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  // Actions
+  actions: {
+    marginTop: 8,
+    marginBottom: 24,
+  },
+});
@@ -0,0 +1,615 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '../../../../contexts/AuthContext';
+import { createWasteDisposalWithAudit } from '../../../../firebase/auditedFirestore';
+
+import {
+  getPlantsForContext,
+  getHarvestsForContext,
+  getExtractsForContext,
+} from '../../../../firebase/firestore';
+import { getHarvestAvailableGrams, InsufficientInventoryError } from '../../../../firebase/inventory';
+import {
+  WasteMaterialType,
+  DisposalMethod,
+  WasteSourceEntityType,
+  Plant,
+  Harvest,
+  Extract,
+  UploadedPhoto,
+} from '../../../../types';
+import { Card } from '../../../../components/Card';
+import { Button } from '../../../../components/Button';
+import { Input } from '../../../../components/Input';
+import { DatePicker } from '../../../../components/DatePicker';
+import { Loading } from '../../../../components/Loading';
+import { PhotoPicker } from '../../../../components/PhotoPicker';
+import { SignaturePad } from '../../../../components/SignaturePad';
+import { createSignature, SignatureStrokes } from '../../../../utils/signature';
+import { showSuccess, showError, showWarning } from '../../../../utils/toast';
+import { format } from 'date-fns';
+import { Ionicons } from '@expo/vector-icons';
+
+const MATERIAL_TYPE_INFO: Record<WasteMaterialType, { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }> = {
+  plant_material: { label: 'Plant Material', icon: 'leaf', color: '#4CAF50' },
+  extraction_waste: { label: 'Extraction Waste', icon: 'flask', color: '#FF9800' },
+  contaminated: { label: 'Contaminated', icon: 'bug', color: '#F44336' },
+  expired_product: { label: 'Expired Product', icon: 'time', color: '#9C27B0' },
+  packaging: { label: 'Packaging', icon: 'cube', color: '#2196F3' },
+  other: { label: 'Other', icon: 'ellipsis-horizontal', color: '#607D8B' },
+};
+
+const METHOD_INFO: Record<DisposalMethod, { label: string; icon: keyof typeof Ionicons.glyphMap; description: string }> = {
+  incineration: { label: 'Incineration', icon: 'flame', description: 'Burned on site or at a facility' },
+  composting: { label: 'Composting', icon: 'nutrition', description: 'Rendered unusable and composted' },
+  licensed_disposal: { label: 'Licensed Disposal', icon: 'business', description: 'Collected by a licensed company' },
+  other: { label: 'Other', icon: 'ellipsis-horizontal', description: 'Describe the method in the notes' },
+};
+
+const SOURCE_INFO: Record<WasteSourceEntityType, { label: string; icon: keyof typeof Ionicons.glyphMap }> = {
+  plant: { label: 'Plant', icon: 'leaf' },
+  harvest: { label: 'Harvest', icon: 'basket' },
+  extract: { label: 'Extract', icon: 'flask' },
+};
+
+const MATERIAL_TYPES: WasteMaterialType[] = ['plant_material', 'extraction_waste', 'contaminated', 'expired_product', 'packaging', 'other'];
+const METHODS: DisposalMethod[] = ['incineration', 'composting', 'licensed_disposal', 'other'];
+const SOURCE_TYPES: WasteSourceEntityType[] = ['plant', 'harvest', 'extract'];
+
+interface SourceOption {
+  id: string;
+  controlNumber: string;
+  label: string;
+  availableGrams?: number; // Only tracked for harvests
+}
+
+export default function NewWasteDisposalScreen() {
+  const params = useLocalSearchParams<{ harvestId?: string }>();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Source data
+  const [plants, setPlants] = useState<Plant[]>([]);
+  const [harvests, setHarvests] = useState<Harvest[]>([]);
+  const [extracts, setExtracts] = useState<Extract[]>([]);
+
+  // Form state
+  const [materialType, setMaterialType] = useState<WasteMaterialType>('plant_material');
+  const [sourceType, setSourceType] = useState<WasteSourceEntityType | undefined>(params.harvestId ? 'harvest' : undefined);
+  const [sourceId, setSourceId] = useState<string | undefined>(params.harvestId);
+  const [description, setDescription] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [disposalDate, setDisposalDate] = useState<Date | null>(new Date());
+  const [disposalMethod, setDisposalMethod] = useState<DisposalMethod>('incineration');
+  const [disposalCompany, setDisposalCompany] = useState('');
+  const [manifestNumber, setManifestNumber] = useState('');
+  const [witnessName, setWitnessName] = useState('');
+  const [signatureStrokes, setSignatureStrokes] = useState<SignatureStrokes | null>(null);
+  const [drawingSignature, setDrawingSignature] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [photo, setPhoto] = useState<UploadedPhoto | null>(null);
+
+  const { userData, currentAssociation } = useAuth();
+  const router = useRouter();
+
+  const loadSources = async () => {
+    if (!userData?.uid) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [plantsData, harvestsData, extractsData] = await Promise.all([
+        getPlantsForContext(userData.uid, currentAssociation?.id),
+        getHarvestsForContext(userData.uid, currentAssociation?.id),
+        getExtractsForContext(userData.uid, currentAssociation?.id),
+      ]);
+
+      setPlants(plantsData);
+      // Only harvests with stock left can have material disposed from them
+      setHarvests(harvestsData.filter(h => getHarvestAvailableGrams(h) > 0 || h.id === params.harvestId));
+      setExtracts(extractsData);
+    } catch (error: any) {
+      console.error('[NewWasteDisposal] Error loading sources:', error);
+      showError('Failed to load source records');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSources();
+  }, [userData, currentAssociation]);
+
+  const getSourceOptions = (): SourceOption[] => {
+    switch (sourceType) {
+      case 'plant':
+        return plants
+          .filter(p => !p.deletedAt)
+          .map(p => ({ id: p.id, controlNumber: p.controlNumber, label: p.strain }));
+      case 'harvest':
+        return harvests.map(h => ({
+          id: h.id,
+          controlNumber: h.controlNumber,
+          label: `Harvested ${format(new Date(h.harvestDate), 'MMM dd, yyyy')}`,
+          availableGrams: Math.max(0, getHarvestAvailableGrams(h)),
+        }));
+      case 'extract':
+        return extracts.map(e => ({ id: e.id, controlNumber: e.controlNumber, label: e.name }));
+      default:
+        return [];
+    }
+  };
+
+  const sourceOptions = getSourceOptions();
+  const selectedSource = sourceOptions.find(o => o.id === sourceId);
+
+  const handleSelectSourceType = (type: WasteSourceEntityType | undefined) => {
+    setSourceType(type);
+    setSourceId(undefined);
+  };
+
+  const handleSave = async () => {
+    if (!userData?.uid) {
+      showError('User not authenticated');
+      return;
+    }
+
+    if (!description.trim()) {
+      showWarning('Please describe the disposed material');
+      return;
+    }
+
+    const quantityGrams = parseFloat(quantity);
+    if (!quantityGrams || quantityGrams <= 0) {
+      showWarning('Please enter a valid quantity in grams');
+      return;
+    }
+
+    if (sourceType && !selectedSource) {
+      showWarning(`Please select the source ${SOURCE_INFO[sourceType].label.toLowerCase()}`);
+      return;
+    }
+
+    if (selectedSource?.availableGrams !== undefined && quantityGrams > selectedSource.availableGrams) {
+      showWarning(`Only ${selectedSource.availableGrams}g available in ${selectedSource.controlNumber}`);
+      return;
+    }
+
+    if (!disposalDate) {
+      showWarning('Please select the disposal date');
+      return;
+    }
+
+    if (disposalMethod === 'licensed_disposal' && (!disposalCompany.trim() || !manifestNumber.trim())) {
+      showWarning('Licensed disposal requires the disposal company and manifest number');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const witnessSignatureCapture = witnessName.trim() && signatureStrokes
+        ? await createSignature(signatureStrokes, witnessName)
+        : undefined;
+
+      await createWasteDisposalWithAudit({
+        userId: userData.uid,
+        associationId: currentAssociation?.id,
+        disposalDate: disposalDate.getTime(),
+        materialType,
+        description: description.trim(),
+        sourceEntityType: sourceType,
+        sourceEntityId: selectedSource?.id,
+        sourceControlNumber: selectedSource?.controlNumber,
+        quantityGrams,
+        disposalMethod,
+        disposalCompany: disposalCompany.trim() || undefined,
+        manifestNumber: manifestNumber.trim() || undefined,
+        witnessName: witnessName.trim() || undefined,
+        witnessSignature: witnessName.trim() ? !!witnessSignatureCapture : undefined,
+        witnessSignatureCapture,
+        notes: notes.trim() || undefined,
+        photoUrl: photo?.url,
+        photoThumbnailUrl: photo?.thumbnailUrl,
+      }, userData.email);
+
+      showSuccess('Disposal recorded successfully!', 'Success', () => router.back());
+    } catch (error: any) {
+      console.error('[NewWasteDisposal] Error creating disposal:', error);
+      if (error instanceof InsufficientInventoryError) {
+        // Stock was consumed elsewhere since the screen loaded
+        showWarning(error.message);
+        loadSources();
+        return;
+      }
+      showError('Failed to record disposal: ' + (error.message || 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <Loading message="Loading..." />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={{ flex: 1 }}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} scrollEnabled={!drawingSignature}>
+          {/* Material Type */}
+          <Card>
+            <Text style={styles.sectionTitle}>Material Type</Text>
+            <View style={styles.optionGrid}>
+              {MATERIAL_TYPES.map((type) => {
+                const info = MATERIAL_TYPE_INFO[type];
+                const isSelected = materialType === type;
+                return (
+                  <TouchableOpacity
+                    key={type}
+                    style={[
+                      styles.option,
+                      isSelected && { backgroundColor: info.color + '20', borderColor: info.color },
+                    ]}
+                    onPress={() => setMaterialType(type)}
+                  >
+                    <Ionicons name={info.icon} size={16} color={isSelected ? info.color : '#666'} />
+                    <Text style={[styles.optionText, isSelected && { color: info.color, fontWeight: '600' }]}>
+                      {info.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </Card>
+
+          {/* Source */}
+          <Card>
+            <Text style={styles.sectionTitle}>Source</Text>
+            <Text style={styles.sectionSubtitle}>
+              Disposals from a harvest are deducted from its available inventory
+            </Text>
+
+            <View style={styles.optionGrid}>
+              <TouchableOpacity
+                style={[styles.option, !sourceType && styles.optionSelected]}
+                onPress={() => handleSelectSourceType(undefined)}
+              >
+                <Text style={[styles.optionText, !sourceType && styles.optionTextSelected]}>None</Text>
+              </TouchableOpacity>
+              {SOURCE_TYPES.map((type) => {
+                const info = SOURCE_INFO[type];
+                const isSelected = sourceType === type;
+                return (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.option, isSelected && styles.optionSelected]}
+                    onPress={() => handleSelectSourceType(type)}
+                  >
+                    <Ionicons name={info.icon} size={16} color={isSelected ? '#fff' : '#666'} />
+                    <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                      {info.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {sourceType && (
+              <View style={styles.sourceList}>
+                {sourceOptions.length === 0 ? (
+                  <Text style={styles.emptySourceText}>
+                    No {SOURCE_INFO[sourceType].label.toLowerCase()} records available
+                  </Text>
+                ) : (
+                  sourceOptions.map((option) => {
+                    const isSelected = sourceId === option.id;
+                    return (
+                      <TouchableOpacity
+                        key={option.id}
+                        style={[styles.sourceItem, isSelected && styles.sourceItemSelected]}
+                        onPress={() => setSourceId(option.id)}
+                      >
+                        <View style={styles.sourceItemInfo}>
+                          <Text style={styles.sourceControlNumber}>{option.controlNumber}</Text>
+                          <Text style={styles.sourceLabel}>{option.label}</Text>
+                        </View>
+                        {option.availableGrams !== undefined && (
+                          <Text style={styles.sourceAvailable}>{option.availableGrams.toFixed(1)}g</Text>
+                        )}
+                        {isSelected && (
+                          <Ionicons name="checkmark-circle" size={20} color="#4CAF50" />
+                        )}
+                      </TouchableOpacity>
+                    );
+                  })
+                )}
+              </View>
+            )}
+          </Card>
+
+          {/* Details */}
+          <Card>
+            <Text style={styles.sectionTitle}>Disposal Details</Text>
+
+            <Input
+              label="Description *"
+              value={description}
+              onChangeText={setDescription}
+              placeholder="e.g., Trim and stems from H-2025-0001"
+            />
+
+            <Input
+              label="Quantity (grams) *"
+              value={quantity}
+              onChangeText={setQuantity}
+              placeholder="0"
+              keyboardType="decimal-pad"
+            />
+
+            {selectedSource?.availableGrams !== undefined && (
+              <Text style={styles.availableHint}>
+                Available: {selectedSource.availableGrams.toFixed(1)}g from {selectedSource.controlNumber}
+              </Text>
+            )}
+
+            <DatePicker
+              label="Disposal Date *"
+              value={disposalDate}
+              onChange={setDisposalDate}
+              placeholder="Select disposal date"
+              maximumDate={new Date()}
+            />
+          </Card>
+
+          {/* Method */}
+          <Card>
+            <Text style={styles.sectionTitle}>Disposal Method</Text>
+            <View style={styles.methodList}>
+              {METHODS.map((method) => {
+                const info = METHOD_INFO[method];
+                const isSelected = disposalMethod === method;
+                return (
+                  <TouchableOpacity
+                    key={method}
+                    style={[styles.methodOption, isSelected && styles.methodOptionSelected]}
+                    onPress={() => setDisposalMethod(method)}
+                  >
+                    <Ionicons name={info.icon} size={20} color={isSelected ? '#795548' : '#666'} />
+                    <View style={styles.methodInfo}>
+                      <Text style={[styles.methodLabel, isSelected && styles.methodLabelSelected]}>
+                        {info.label}
+                      </Text>
+                      <Text style={styles.methodDescription}>{info.description}</Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </Card>
+
+          {/* Manifest & Witness */}
+          <Card>
+            <Text style={styles.sectionTitle}>Manifest & Witness</Text>
+
+            <Input
+              label={disposalMethod === 'licensed_disposal' ? 'Disposal Company *' : 'Disposal Company'}
+              value={disposalCompany}
+              onChangeText={setDisposalCompany}
+              placeholder="Company that collected the material"
+            />
+
+            <Input
+              label={disposalMethod === 'licensed_disposal' ? 'Manifest Number *' : 'Manifest Number'}
+              value={manifestNumber}
+              onChangeText={setManifestNumber}
+              placeholder="Waste transport manifest (MTR)"
+              autoCapitalize="characters"
+            />
+
+            <Input
+              label="Witness Name"
+              value={witnessName}
+              onChangeText={setWitnessName}
+              placeholder="Person who witnessed the disposal"
+            />
+
+            {witnessName.trim().length > 0 && (
+              <SignaturePad
+                label="Witness Signature"
+                placeholder="Witness signs here"
+                onChange={setSignatureStrokes}
+                onDrawingChange={setDrawingSignature}
+              />
+            )}
+
+            <Input
+              label="Notes (Optional)"
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Any additional notes..."
+              multiline
+              numberOfLines={3}
+            />
+
+            <PhotoPicker
+              folder="wasteDisposals"
+              label="Photo Evidence (Optional)"
+              value={photo}
+              onChange={setPhoto}
+              disabled={saving}
+            />
+          </Card>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <Button
+              title={saving ? 'Saving...' : 'Record Disposal'}
+              onPress={handleSave}
+              disabled={saving}
+            />
+            <Button
+              title="Cancel"
+              onPress={() => router.back()}
+              variant="secondary"
+              disabled={saving}
+            />
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  // Option chips
+  optionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
+  optionText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  optionTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  // Source list
+  sourceList: {
+    marginTop: 12,
+    gap: 8,
+  },
+  emptySourceText: {
+    fontSize: 13,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  sourceItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  sourceItemSelected: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#E8F5E9',
+  },
+  sourceItemInfo: {
+    flex: 1,
+  },
+  sourceControlNumber: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sourceLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  sourceAvailable: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4CAF50',
+  },
+  availableHint: {
+    fontSize: 12,
+    color: '#4CAF50',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  // Method
+  methodList: {
+    gap: 8,
+  },
+  methodOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  methodOptionSelected: {
+    borderColor: '#795548',
+    backgroundColor: '#EFEBE9',
+  },
+  methodInfo: {
+    flex: 1,
+  },
+  methodLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  methodLabelSelected: {
+    color: '#795548',
+  },
+  methodDescription: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  // Actions
+  actions: {
+    marginTop: 8,
+    marginBottom: 24,
+    gap: 8,
+  },
+});
@@ -0,0 +1,419 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { subMonths } from 'date-fns';
+import { useAuth } from '../../../contexts/AuthContext';
+import { getYieldDataset, YieldDataset } from '../../../firebase/yieldAnalytics';
+import { computeYieldStats, summarizeYields } from '../../../utils/yieldAnalytics';
+import { YieldExpectation, YieldGroupBy, YieldStats } from '../../../types';
+import { Card } from '../../../components/Card';
+import { Loading } from '../../../components/Loading';
+import { showError } from '../../../utils/toast';
+
+type Period = '3m' | '6m' | '12m' | 'all';
+
+const PERIOD_MONTHS: Record<Period, number | null> = {
+  '3m': 3,
+  '6m': 6,
+  '12m': 12,
+  all: null,
+};
+
+const GROUP_ICONS: Record<YieldGroupBy, keyof typeof Ionicons.glyphMap> = {
+  genetic: 'leaf',
+  environment: 'home',
+  grower: 'person',
+};
+
+const formatGrams = (grams?: number): string => {
+  if (grams === undefined) return '—';
+  return grams >= 1000 ? `${(grams / 1000).toFixed(2)} kg` : `${grams.toFixed(0)} g`;
+};
+
+const formatPercent = (ratio?: number): string => {
+  return ratio === undefined ? '—' : `${(ratio * 100).toFixed(0)}%`;
+};
+
+const getExpectationColor = (percent: number): string => {
+  if (percent >= 90) return '#4CAF50';
+  if (percent >= 70) return '#FF9800';
+  return '#F44336';
+};
+
+export default function YieldAnalyticsScreen() {
+  const { t } = useTranslation(['admin', 'common']);
+  const [dataset, setDataset] = useState<YieldDataset | null>(null);
+  const [period, setPeriod] = useState<Period>('12m');
+  const [groupBy, setGroupBy] = useState<YieldGroupBy>('genetic');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const { userData, currentAssociation } = useAuth();
+
+  const loadYields = async () => {
+    if (!userData) return;
+
+    try {
+      const months = PERIOD_MONTHS[period];
+      const since = months ? subMonths(new Date(), months).getTime() : undefined;
+      setDataset(await getYieldDataset(userData.uid, currentAssociation?.id, since));
+    } catch (error) {
+      console.error('[YieldAnalytics] Error loading yields:', error);
+      showError(t('yield.failedToLoad'), t('common:error'));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadYields();
+    }, [userData, currentAssociation, period])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadYields();
+  };
+
+  const totals = useMemo(
+    () => (dataset ? computeYieldStats('all', t('yield.overview'), dataset.plantYields) : null),
+    [dataset]
+  );
+
+  const groups = useMemo(() => {
+    if (!dataset) return [];
+
+    const getLabel = (key: string): string => {
+      if (groupBy === 'environment') {
+        return dataset.environments.find(env => env.id === key)?.name || '—';
+      }
+      if (dataset.growerNames[key]) {
+        return dataset.growerNames[key];
+      }
+      return key === userData?.uid ? t('yield.you') : t('yield.unknownGrower');
+    };
+
+    return summarizeYields(dataset.plantYields, groupBy, dataset.genetics, getLabel);
+  }, [dataset, groupBy]);
+
+  const formatExpectation = (expectation: YieldExpectation): string => {
+    const unit = expectation.per === 'plant' ? t('yield.gramsPerPlant') : t('yield.gramsPerM2');
+    const range = expectation.minGrams === expectation.maxGrams
+      ? `${expectation.minGrams.toFixed(0)}`
+      : `${expectation.minGrams.toFixed(0)}–${expectation.maxGrams.toFixed(0)}`;
+    return t('yield.expected', { range: `${range} ${unit}` });
+  };
+
+  const renderMetrics = (stats: YieldStats) => (
+    <View style={styles.metricGrid}>
+      <View style={styles.metric}>
+        <Text style={styles.metricValue}>{formatGrams(stats.gramsPerPlant)}</Text>
+        <Text style={styles.metricLabel}>{t('yield.gramsPerPlant')}</Text>
+      </View>
+      <View style={styles.metric}>
+        <Text style={styles.metricValue}>
+          {stats.gramsPerM2 !== undefined ? stats.gramsPerM2.toFixed(0) : '—'}
+        </Text>
+        <Text style={styles.metricLabel}>{t('yield.gramsPerM2')}</Text>
+      </View>
+      <View style={styles.metric}>
+        <Text style={styles.metricValue}>{formatPercent(stats.dryWetRatio)}</Text>
+        <Text style={styles.metricLabel}>{t('yield.dryWetRatio')}</Text>
+      </View>
+      <View style={styles.metric}>
+        <Text style={styles.metricValue}>{formatPercent(stats.trimRatio)}</Text>
+        <Text style={styles.metricLabel}>{t('yield.trimRatio')}</Text>
+      </View>
+      <View style={styles.metric}>
+        <Text style={styles.metricValue}>
+          {stats.avgDaysToHarvest !== undefined ? stats.avgDaysToHarvest.toFixed(0) : '—'}
+        </Text>
+        <Text style={styles.metricLabel}>{t('yield.daysToHarvest')}</Text>
+      </View>
+      <View style={styles.metric}>
+        <Text style={styles.metricValue}>{formatGrams(stats.dryGrams)}</Text>
+        <Text style={styles.metricLabel}>{t('yield.dryTotal')}</Text>
+      </View>
+    </View>
+  );
+
+  const renderExpectation = (stats: YieldStats) => {
+    if (!stats.expectation) {
+      return <Text style={styles.noExpectation}>{t('yield.noExpectation')}</Text>;
+    }
+
+    const percent = stats.expectationPercent;
+    const color = percent !== undefined ? getExpectationColor(percent) : '#999';
+    return (
+      <View style={styles.expectation}>
+        <View style={styles.expectationHeader}>
+          <Text style={styles.expectationText}>{formatExpectation(stats.expectation)}</Text>
+          {percent !== undefined && (
+            <Text style={[styles.expectationPercent, { color }]}>
+              {t('yield.ofExpected', { percent: percent.toFixed(0) })}
+            </Text>
+          )}
+        </View>
+        {percent !== undefined && (
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.min(percent, 100)}%`, backgroundColor: color }]} />
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return <Loading message={t('yield.loading')} />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+      >
+        {/* Filters */}
+        <View style={styles.chipRow}>
+          {(Object.keys(PERIOD_MONTHS) as Period[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, period === option && styles.chipActive]}
+              onPress={() => setPeriod(option)}
+            >
+              <Text style={[styles.chipText, period === option && styles.chipTextActive]}>
+                {t(`yield.period.${option}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.segmented}>
+          {(Object.keys(GROUP_ICONS) as YieldGroupBy[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.segment, groupBy === option && styles.segmentActive]}
+              onPress={() => setGroupBy(option)}
+            >
+              <Ionicons name={GROUP_ICONS[option]} size={14} color={groupBy === option ? '#fff' : '#666'} />
+              <Text style={[styles.segmentText, groupBy === option && styles.segmentTextActive]}>
+                {t(`yield.groupBy.${option}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {!totals || totals.plantCount === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="trending-up" size={64} color="#ccc" />
+            <Text style={styles.emptyText}>{t('yield.noData')}</Text>
+            <Text style={styles.emptySubtext}>{t('yield.noDataHint')}</Text>
+          </View>
+        ) : (
+          <>
+            {/* Overview */}
+            <Card>
+              <View style={styles.groupHeader}>
+                <Text style={styles.groupTitle}>{t('yield.overview')}</Text>
+                <Text style={styles.groupCounts}>
+                  {totals.plantCount} {t('yield.plants')} · {totals.harvestCount} {t('yield.harvests')}
+                </Text>
+              </View>
+              {renderMetrics(totals)}
+            </Card>
+
+            {groups.map(stats => (
+              <Card key={stats.key}>
+                <View style={styles.groupHeader}>
+                  <View style={styles.groupTitleRow}>
+                    <Ionicons name={GROUP_ICONS[groupBy]} size={18} color="#388E3C" />
+                    <Text style={styles.groupTitle} numberOfLines={1}>{stats.label}</Text>
+                  </View>
+                  <Text style={styles.groupCounts}>
+                    {stats.plantCount} {t('yield.plants')} · {stats.harvestCount} {t('yield.harvests')}
+                  </Text>
+                </View>
+                {renderMetrics(stats)}
+                {groupBy === 'genetic' && renderExpectation(stats)}
+              </Card>
+            ))}
+
+            <Text style={styles.hint}>{t('yield.areaHint')}</Text>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  chipActive: {
+    backgroundColor: '#388E3C',
+    borderColor: '#388E3C',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  segment: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+  },
+  segmentActive: {
+    backgroundColor: '#388E3C',
+  },
+  segmentText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+  },
+  segmentTextActive: {
+    color: '#fff',
+  },
+  groupHeader: {
+    marginBottom: 12,
+  },
+  groupTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  groupTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    flexShrink: 1,
+  },
+  groupCounts: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  metricGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 12,
+  },
+  metric: {
+    width: '33.33%',
+  },
+  metricValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  metricLabel: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  expectation: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  expectationHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  expectationText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  expectationPercent: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#eee',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  noExpectation: {
+    fontSize: 12,
+    color: '#bbb',
+    fontStyle: 'italic',
+    marginTop: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#999',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#bbb',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
@@ -11,11 +11,11 @@ import {
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useAuth } from '../../../contexts/AuthContext';
-import { 
-  getInvitation, 
-  acceptInvitation,
-  rejectInvitation 
+import {
+  getInvitation,
+  getInvitationByToken,
 } from '../../../firebase/associations';
+import { acceptInvitationWithAudit, rejectInvitationWithAudit } from '../../../firebase/auditedFirestore';
 import { AssociationInvitation } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
@@ -31,13 +31,20 @@ const DOCUMENT_TYPES = [
   { value: 'other', label: 'Other' },
 ] as const;
 
+// What the screen shows about an invitation, whether it was loaded directly
+// (signed in) or through the link token (signed out)
+type InvitationDetails = Pick<
+  AssociationInvitation,
+  'id' | 'associationName' | 'invitedByName' | 'invitedRole' | 'invitedEmail' | 'message'
+>;
+
 export default function AcceptInviteScreen() {
-  const { id } = useLocalSearchParams<{ id: string }>();
-  const { userData, refreshUser } = useAuth();
+  const { id, token } = useLocalSearchParams<{ id: string; token?: string }>();
+  const { userData, loading: authLoading, register, refreshUser } = useAuth();
   const router = useRouter();
   const { t } = useTranslation('association');
 
-  const [invitation, setInvitation] = useState<AssociationInvitation | null>(null);
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -48,9 +55,33 @@ export default function AcceptInviteScreen() {
   const [documentNumber, setDocumentNumber] = useState('');
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
 
+  // Password for invitees who don't have an account yet
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [accountExists, setAccountExists] = useState(false);
+
   useEffect(() => {
+    if (authLoading) return;
     loadInvitation();
-  }, [id]);
+  }, [id, token, authLoading]);
+
+  const loadInvitationFromToken = async () => {
+    const invitationToken = token ? await getInvitationByToken(token) : null;
+
+    if (!invitationToken || invitationToken.invitationId !== id) {
+      setError(t('acceptInvite.invalidLink'));
+      return;
+    }
+
+    setInvitation({
+      id: invitationToken.invitationId,
+      associationName: invitationToken.associationName,
+      invitedByName: invitationToken.invitedByName,
+      invitedRole: invitationToken.invitedRole,
+      invitedEmail: invitationToken.invitedEmail,
+      message: invitationToken.message,
+    });
+  };
 
   const loadInvitation = async () => {
     if (!id) {
@@ -60,6 +91,12 @@ export default function AcceptInviteScreen() {
     }
 
     try {
+      // Signed-out invitees can only see the invitation through its link token
+      if (!userData) {
+        await loadInvitationFromToken();
+        return;
+      }
+
       const inv = await getInvitation(id);
       
       if (!inv) {
@@ -80,7 +117,7 @@ export default function AcceptInviteScreen() {
         return;
       }
 
-      if (userData && inv.invitedEmail.toLowerCase() !== userData.email.toLowerCase()) {
+      if (inv.invitedEmail.toLowerCase() !== userData.email.toLowerCase()) {
         setError(t('acceptInvite.wrongEmail'));
         setLoading(false);
         return;
@@ -89,7 +126,7 @@ export default function AcceptInviteScreen() {
       setInvitation(inv);
       
       // Pre-fill name if user has displayName
-      if (userData?.displayName) {
+      if (userData.displayName) {
         setFullName(userData.displayName);
       }
     } catch (err: any) {
@@ -111,24 +148,36 @@ export default function AcceptInviteScreen() {
       errors.documentNumber = t('acceptInvite.errors.documentRequired');
     }
 
+    if (!userData) {
+      if (password.length < 6) {
+        errors.password = t('acceptInvite.errors.passwordTooShort');
+      } else if (password !== confirmPassword) {
+        errors.confirmPassword = t('acceptInvite.errors.passwordMismatch');
+      }
+    }
+
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
   };
 
   const handleAccept = async () => {
-    if (!validate() || !invitation || !userData) return;
+    if (!validate() || !invitation) return;
 
     setSubmitting(true);
 
     try {
-      await acceptInvitation(
+      // New invitees create their own account here, with the password they chose
+      const account = userData ?? await register(invitation.invitedEmail, password, 'personal');
+
+      await acceptInvitationWithAudit(
         invitation.id,
-        userData.uid,
-        userData.email,
+        account.uid,
+        account.email,
         fullName.trim(),
         documentType,
         documentNumber.trim(),
-        userData.displayName
+        account.displayName,
+        token
       );
 
       // Refresh user data to get updated associations
@@ -144,6 +193,10 @@ export default function AcceptInviteScreen() {
       router.replace('/(tabs)/association');
     } catch (err: any) {
       console.error('[AcceptInvite] Error accepting invitation:', err);
+      if (err.code === 'auth/email-already-in-use') {
+        setAccountExists(true);
+        return;
+      }
       const errorMessage = err.message || t('acceptInvite.acceptError');
       if (Platform.OS === 'web') {
         window.alert(errorMessage);
@@ -156,7 +209,7 @@ export default function AcceptInviteScreen() {
   };
 
   const handleDecline = async () => {
-    if (!invitation) return;
+    if (!invitation || !userData) return;
 
     const confirmDecline = () => {
       return new Promise<boolean>((resolve) => {
@@ -181,7 +234,7 @@ export default function AcceptInviteScreen() {
     setSubmitting(true);
 
     try {
-      await rejectInvitation(invitation.id);
+      await rejectInvitationWithAudit(invitation.id, userData.uid, userData.email);
 
       const successMessage = t('acceptInvite.declineSuccess');
       if (Platform.OS === 'web') {
@@ -216,8 +269,8 @@ export default function AcceptInviteScreen() {
           <Text style={styles.errorTitle}>{t('acceptInvite.errorTitle')}</Text>
           <Text style={styles.errorText}>{error}</Text>
           <Button
-            title={t('back')}
-            onPress={() => router.back()}
+            title={userData ? t('back') : t('acceptInvite.signIn')}
+            onPress={() => (userData ? router.back() : router.replace('/(auth)/login'))}
             style={styles.backButton}
           />
         </View>
@@ -303,6 +356,47 @@ export default function AcceptInviteScreen() {
             />
           </Card>
 
+          {/* Password Card - only for invitees without an account */}
+          {!userData && (
+            <Card style={styles.formCard}>
+              <Text style={styles.formTitle}>{t('acceptInvite.createPassword')}</Text>
+              <Text style={styles.formSubtitle}>
+                {t('acceptInvite.createPasswordDesc', { email: invitation.invitedEmail })}
+              </Text>
+
+              <Input
+                label={t('acceptInvite.password')}
+                value={password}
+                onChangeText={setPassword}
+                placeholder={t('acceptInvite.passwordPlaceholder')}
+                secureTextEntry
+                autoCapitalize="none"
+                error={formErrors.password}
+              />
+
+              <Input
+                label={t('acceptInvite.confirmPassword')}
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                placeholder={t('acceptInvite.confirmPasswordPlaceholder')}
+                secureTextEntry
+                autoCapitalize="none"
+                error={formErrors.confirmPassword}
+              />
+
+              {accountExists && (
+                <View style={styles.accountExists}>
+                  <Text style={styles.accountExistsText}>{t('acceptInvite.accountExists')}</Text>
+                  <Button
+                    title={t('acceptInvite.signIn')}
+                    variant="outline"
+                    onPress={() => router.replace('/(auth)/login')}
+                  />
+                </View>
+              )}
+            </Card>
+          )}
+
           {/* Action Buttons */}
           <View style={styles.actionButtons}>
             <Button
@@ -311,13 +405,15 @@ export default function AcceptInviteScreen() {
               disabled={submitting}
               style={styles.acceptButton}
             />
-            <Button
-              title={t('acceptInvite.declineButton')}
-              variant="secondary"
-              onPress={handleDecline}
-              disabled={submitting}
-              style={styles.declineButton}
-            />
+            {userData && (
+              <Button
+                title={t('acceptInvite.declineButton')}
+                variant="secondary"
+                onPress={handleDecline}
+                disabled={submitting}
+                style={styles.declineButton}
+              />
+            )}
           </View>
         </ScrollView>
       </KeyboardAvoidingView>
@@ -452,6 +548,18 @@ const styles = StyleSheet.create({
     flex: 1,
     minWidth: 70,
   },
+  accountExists: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#FFF3E0',
+    gap: 12,
+  },
+  accountExistsText: {
+    fontSize: 14,
+    color: '#E65100',
+    lineHeight: 20,
+  },
   actionButtons: {
     gap: 12,
   },
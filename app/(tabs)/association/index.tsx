@@ -13,7 +13,8 @@ import {
 import { useRouter } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 import { useAuth } from '../../../contexts/AuthContext';
-import { getUserAssociations, getPendingInvitationsForUser, rejectInvitation } from '../../../firebase/associations';
+import { getUserAssociations, getPendingInvitationsForUser } from '../../../firebase/associations';
+import { rejectInvitationWithAudit } from '../../../firebase/auditedFirestore';
 import { Association, AssociationInvitation } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
@@ -112,6 +113,8 @@ export default function AssociationsScreen() {
   };
 
   const handleDeclineInvitation = async (invitationId: string) => {
+    if (!userData) return;
+
     const confirmDecline = () => {
       return new Promise<boolean>((resolve) => {
         if (Platform.OS === 'web') {
@@ -133,7 +136,7 @@ export default function AssociationsScreen() {
     if (!confirmed) return;
 
     try {
-      await rejectInvitation(invitationId);
+      await rejectInvitationWithAudit(invitationId, userData.uid, userData.email);
       // Refresh the list
       await loadData();
       
@@ -10,11 +10,14 @@ import {
   TouchableOpacity,
   KeyboardAvoidingView,
   ActivityIndicator,
+  Share,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
+import * as Linking from 'expo-linking';
 import { useAuth } from '../../../contexts/AuthContext';
-import { createInvitation, getAssociation } from '../../../firebase/associations';
-import { checkUserExistsByEmail, createInvitedUserSimple, getPasswordFromEmail } from '../../../firebase/auth';
+import { getAssociation } from '../../../firebase/associations';
+import { createInvitationWithAudit } from '../../../firebase/auditedFirestore';
+import { checkUserExistsByEmail } from '../../../firebase/auth';
 import { MemberRole } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
@@ -61,8 +64,7 @@ export default function InviteMemberScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const [loading, setLoading] = useState(false);
   const [checkingEmail, setCheckingEmail] = useState(false);
-  const [creatingUser, setCreatingUser] = useState(false);
-  const { userData, currentAssociation, logout } = useAuth();
+  const { userData, currentAssociation } = useAuth();
   const router = useRouter();
   const { t } = useTranslation('association');
 
@@ -73,7 +75,9 @@ export default function InviteMemberScreen() {
   
   // User existence check
   const [userExists, setUserExists] = useState<boolean | null>(null);
-  const [createAccountForUser, setCreateAccountForUser] = useState(false);
+
+  // Single-use link for the invitation, shown once after sending
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
 
   // Errors
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -90,10 +94,6 @@ export default function InviteMemberScreen() {
       try {
         const result = await checkUserExistsByEmail(emailToCheck.trim());
         setUserExists(result.exists);
-        // If user exists, we don't need to create an account
-        if (result.exists) {
-          setCreateAccountForUser(false);
-        }
       } catch (error) {
         console.error('[InviteMember] Error checking email:', error);
         setUserExists(null);
@@ -135,33 +135,7 @@ export default function InviteMemberScreen() {
         throw new Error('Association not found');
       }
 
-      // If user doesn't exist and we need to create an account
-      if (userExists === false && createAccountForUser) {
-        setCreatingUser(true);
-        
-        try {
-          const { tempPassword } = await createInvitedUserSimple(email.trim());
-          
-          // Show the credentials to the inviter
-          const credentialsMessage = t('invite.userCreated', { 
-            email: email.trim(), 
-            password: tempPassword 
-          });
-          
-          if (Platform.OS === 'web') {
-            window.alert(credentialsMessage);
-          } else {
-            Alert.alert(t('invite.userCreatedTitle'), credentialsMessage);
-          }
-        } catch (createError: any) {
-          console.error('[InviteMember] Error creating user:', createError);
-          throw new Error(t('invite.createUserError') + ': ' + createError.message);
-        } finally {
-          setCreatingUser(false);
-        }
-      }
-
-      await createInvitation({
+      const { invitationId, token } = await createInvitationWithAudit({
         associationId: id,
         associationName: association.name,
         invitedEmail: email.trim().toLowerCase(),
@@ -169,31 +143,12 @@ export default function InviteMemberScreen() {
         invitedBy: userData.uid,
         invitedByName: userData.displayName || userData.email,
         message: message.trim() || undefined,
-      });
-
-      // If we created a user, we need to log out and let the inviter log back in
-      if (userExists === false && createAccountForUser) {
-        const logoutMessage = t('invite.successWithLogout', { email: email.trim() });
-        if (Platform.OS === 'web') {
-          window.alert(logoutMessage);
-        } else {
-          Alert.alert(t('success'), logoutMessage);
-        }
-        
-        // Log out and redirect to login
-        await logout();
-        router.replace('/(auth)/login');
-        return;
-      }
+      }, userData.email);
 
-      const successMessage = t('invite.success', { email: email.trim() });
-      if (Platform.OS === 'web') {
-        window.alert(successMessage);
-      } else {
-        Alert.alert(t('success'), successMessage);
-      }
-
-      router.back();
+      // The token is only available now, so the link has to be shared from here
+      setInviteLink(Linking.createURL('/association/accept-invite', {
+        queryParams: { id: invitationId, token },
+      }));
     } catch (error: any) {
       console.error('[InviteMember] Error:', error);
       const errorMessage = error.message || t('invite.error');
@@ -207,6 +162,51 @@ export default function InviteMemberScreen() {
     }
   };
 
+  const handleShareLink = async () => {
+    if (!inviteLink) return;
+
+    try {
+      await Share.share({
+        message: t('invite.shareMessage', {
+          name: currentAssociation?.name || '',
+          link: inviteLink,
+        }),
+      });
+    } catch (error) {
+      console.error('[InviteMember] Error sharing link:', error);
+    }
+  };
+
+  if (inviteLink) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <Card style={styles.card}>
+            <View style={styles.linkHeader}>
+              <Ionicons name="checkmark-circle" size={48} color="#4CAF50" />
+              <Text style={styles.linkTitle}>{t('invite.success', { email: email.trim() })}</Text>
+            </View>
+            <Text style={styles.linkDesc}>{t('invite.linkDesc')}</Text>
+            <View style={styles.linkBox}>
+              <Text style={styles.linkText} selectable>{inviteLink}</Text>
+            </View>
+            <Text style={styles.linkWarning}>{t('invite.linkWarning')}</Text>
+          </Card>
+
+          <View style={styles.submitContainer}>
+            <Button title={t('invite.shareLink')} onPress={handleShareLink} />
+            <Button
+              title={t('invite.done')}
+              onPress={() => router.back()}
+              variant="secondary"
+              style={styles.doneButton}
+            />
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <KeyboardAvoidingView
@@ -258,38 +258,9 @@ export default function InviteMemberScreen() {
             )}
 
             {!checkingEmail && userExists === false && (
-              <View style={styles.newUserContainer}>
-                <View style={styles.emailStatusWarning}>
-                  <Ionicons name="alert-circle" size={18} color="#FF9800" />
-                  <Text style={styles.emailStatusTextWarning}>{t('invite.userNotExists')}</Text>
-                </View>
-                
-                <TouchableOpacity
-                  style={[
-                    styles.createAccountOption,
-                    createAccountForUser && styles.createAccountOptionSelected,
-                  ]}
-                  onPress={() => setCreateAccountForUser(!createAccountForUser)}
-                >
-                  <Ionicons 
-                    name={createAccountForUser ? 'checkbox' : 'square-outline'} 
-                    size={24} 
-                    color={createAccountForUser ? '#4CAF50' : '#666'} 
-                  />
-                  <View style={styles.createAccountTextContainer}>
-                    <Text style={styles.createAccountText}>{t('invite.createAccount')}</Text>
-                    <Text style={styles.createAccountDesc}>
-                      {t('invite.createAccountDesc', { password: getPasswordFromEmail(email) })}
-                    </Text>
-                  </View>
-                </TouchableOpacity>
-
-                {createAccountForUser && (
-                  <View style={styles.warningCard}>
-                    <Ionicons name="warning" size={20} color="#F44336" />
-                    <Text style={styles.warningText}>{t('invite.logoutWarning')}</Text>
-                  </View>
-                )}
+              <View style={styles.emailStatusWarning}>
+                <Ionicons name="alert-circle" size={18} color="#FF9800" />
+                <Text style={styles.emailStatusTextWarning}>{t('invite.userNotExists')}</Text>
               </View>
             )}
           </Card>
@@ -567,54 +538,42 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#FF9800',
   },
-  newUserContainer: {
-    marginTop: 4,
-  },
-  createAccountOption: {
-    flexDirection: 'row',
-    alignItems: 'flex-start',
+  linkHeader: {
+    alignItems: 'center',
     gap: 12,
-    marginTop: 12,
-    padding: 12,
-    borderRadius: 8,
-    borderWidth: 1,
-    borderColor: '#e0e0e0',
-    backgroundColor: '#fafafa',
-  },
-  createAccountOptionSelected: {
-    borderColor: '#4CAF50',
-    backgroundColor: '#E8F5E9',
-  },
-  createAccountTextContainer: {
-    flex: 1,
+    marginBottom: 16,
   },
-  createAccountText: {
-    fontSize: 14,
+  linkTitle: {
+    fontSize: 18,
     fontWeight: '600',
     color: '#333',
-    marginBottom: 4,
+    textAlign: 'center',
   },
-  createAccountDesc: {
-    fontSize: 12,
+  linkDesc: {
+    fontSize: 14,
     color: '#666',
-    lineHeight: 16,
+    lineHeight: 20,
+    marginBottom: 12,
   },
-  warningCard: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 8,
-    marginTop: 12,
+  linkBox: {
     padding: 12,
     borderRadius: 8,
-    backgroundColor: '#FFEBEE',
-    borderColor: '#F44336',
+    backgroundColor: '#f5f5f5',
     borderWidth: 1,
+    borderColor: '#e0e0e0',
   },
-  warningText: {
-    flex: 1,
+  linkText: {
+    fontSize: 13,
+    color: '#1565C0',
+  },
+  linkWarning: {
     fontSize: 12,
-    color: '#C62828',
+    color: '#999',
     lineHeight: 16,
+    marginTop: 12,
+  },
+  doneButton: {
+    marginTop: 12,
   },
 });
 
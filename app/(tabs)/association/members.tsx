@@ -13,12 +13,12 @@ import {
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 import { useAuth } from '../../../contexts/AuthContext';
-import { 
+import {
   getAssociationMembers,
   getMemberByUserId,
   updateMemberRole,
-  deactivateMember,
 } from '../../../firebase/associations';
+import { deactivateMemberWithAudit } from '../../../firebase/auditedFirestore';
 import { Member, MemberRole } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
@@ -105,6 +105,8 @@ export default function MembersScreen() {
   };
 
   const handleDeactivate = async (member: Member) => {
+    if (!userData) return;
+
     const confirmMessage = t('members.confirmDeactivate', { name: member.fullName });
     
     const confirmed = Platform.OS === 'web'
@@ -123,7 +125,7 @@ export default function MembersScreen() {
     if (!confirmed) return;
 
     try {
-      await deactivateMember(member.id);
+      await deactivateMemberWithAudit(member.id, userData.uid, userData.email);
       loadData();
       
       const successMessage = t('members.deactivateSuccess');
@@ -11,7 +11,7 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useAuth } from '../../../contexts/AuthContext';
-import { createAssociation } from '../../../firebase/associations';
+import { createAssociationWithAudit } from '../../../firebase/auditedFirestore';
 import { AssociationStatus } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
@@ -93,7 +93,7 @@ export default function NewAssociationScreen() {
         createdBy: userData.uid,
       };
 
-      const { associationId } = await createAssociation(
+      const { associationId } = await createAssociationWithAudit(
         associationData,
         userData.uid,
         userData.email,
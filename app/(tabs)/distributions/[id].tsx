@@ -10,12 +10,17 @@ import {
 } from 'react-native';
 import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router';
 import { useAuth } from '../../../contexts/AuthContext';
-import { getDistribution, deleteDistribution, getPatient } from '../../../firebase/firestore';
+import { getDistribution, getPatient } from '../../../firebase/firestore';
+import { deleteDistributionWithAudit } from '../../../firebase/auditedFirestore';
 import { Distribution, ProductType, Patient } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
 import { Loading } from '../../../components/Loading';
 import { AuditHistoryModal } from '../../../components/AuditHistoryModal';
+import { SignatureView } from '../../../components/SignatureView';
+import { exportToPDF } from '../../../utils/exportData';
+import { getPdfBrandingForRecord, renderDistributionReceiptHtml } from '../../../utils/pdfReports';
+import { getDistributionSignedContent } from '../../../utils/signature';
 import { format } from 'date-fns';
 import { Ionicons } from '@expo/vector-icons';
 
@@ -34,6 +39,7 @@ export default function DistributionDetailScreen() {
   const [patient, setPatient] = useState<Patient | null>(null);
   const [loading, setLoading] = useState(true);
   const [auditHistoryVisible, setAuditHistoryVisible] = useState(false);
+  const [printing, setPrinting] = useState(false);
   const { userData } = useAuth();
   const router = useRouter();
 
@@ -75,9 +81,9 @@ export default function DistributionDetailScreen() {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
-            if (!id || typeof id !== 'string') return;
+            if (!id || typeof id !== 'string' || !userData) return;
             try {
-              await deleteDistribution(id);
+              await deleteDistributionWithAudit(id, userData.uid, userData.email);
               Alert.alert('Done', 'Distribution deleted', [
                 { text: 'OK', onPress: () => router.back() },
               ]);
@@ -90,6 +96,22 @@ export default function DistributionDetailScreen() {
     );
   };
 
+  const handlePrintReceipt = async () => {
+    if (!distribution) return;
+
+    setPrinting(true);
+    try {
+      const branding = await getPdfBrandingForRecord(distribution.associationId);
+      const html = renderDistributionReceiptHtml(distribution, patient, branding);
+      await exportToPDF(html, `receipt_${distribution.distributionNumber}`);
+    } catch (error: any) {
+      console.error('[DistributionDetail] Error printing receipt:', error);
+      Alert.alert('Error', 'Failed to generate receipt: ' + (error.message || 'Unknown error'));
+    } finally {
+      setPrinting(false);
+    }
+  };
+
   const getQuantityDisplay = (): string => {
     if (!distribution) return 'N/A';
     const parts: string[] = [];
@@ -142,8 +164,10 @@ export default function DistributionDetailScreen() {
 
           {distribution.signatureConfirmation && (
             <View style={styles.signedBadge}>
-              <Ionicons name="checkmark-circle" size={18} color="#4CAF50" />
-              <Text style={styles.signedText}>Signature confirmed</Text>
+              <Ionicons name={distribution.recipientSignature ? 'lock-closed' : 'checkmark-circle'} size={18} color="#4CAF50" />
+              <Text style={styles.signedText}>
+                {distribution.recipientSignature ? 'Signed · locked for editing' : 'Signature confirmed'}
+              </Text>
             </View>
           )}
         </Card>
@@ -248,6 +272,20 @@ export default function DistributionDetailScreen() {
           </View>
         </Card>
 
+        {/* Signature */}
+        {distribution.recipientSignature && (
+          <Card>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="create" size={20} color="#7B1FA2" />
+              <Text style={styles.sectionTitle}>Recipient Signature</Text>
+            </View>
+            <SignatureView
+              signature={distribution.recipientSignature}
+              signedContent={getDistributionSignedContent(distribution)}
+            />
+          </Card>
+        )}
+
         {/* Notes */}
         {distribution.notes && (
           <Card>
@@ -269,6 +307,25 @@ export default function DistributionDetailScreen() {
           </View>
         </Card>
 
+        {/* Receipt Button */}
+        <TouchableOpacity
+          style={styles.historyButton}
+          onPress={handlePrintReceipt}
+          disabled={printing}
+        >
+          <Ionicons name="print-outline" size={20} color="#607D8B" />
+          <Text style={styles.historyButtonText}>{printing ? 'Generating Receipt...' : 'Print Receipt (PDF)'}</Text>
+        </TouchableOpacity>
+
+        {/* Traceability Button */}
+        <TouchableOpacity
+          style={styles.historyButton}
+          onPress={() => router.push(`/(tabs)/admin/traceability?controlNumber=${distribution.distributionNumber}`)}
+        >
+          <Ionicons name="git-network-outline" size={20} color="#607D8B" />
+          <Text style={styles.historyButtonText}>Trace Seed-to-Sale</Text>
+        </TouchableOpacity>
+
         {/* View History Button */}
         <TouchableOpacity
           style={styles.historyButton}
@@ -293,6 +350,7 @@ export default function DistributionDetailScreen() {
         entityType="distribution"
         entityId={id as string}
         entityDisplayName={distribution?.distributionNumber}
+        onRestored={loadData}
       />
     </SafeAreaView>
   );
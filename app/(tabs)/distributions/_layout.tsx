@@ -1,44 +1,50 @@
 import React from 'react';
 import { Stack } from 'expo-router';
+import { usePermissions } from '../../../hooks/usePermissions';
+import { RouteGuard } from '../../../components/RouteGuard';
 
 export default function DistributionsLayout() {
+  const { canManageDistributions, loading } = usePermissions();
+
   return (
-    <Stack
-      screenOptions={{
-        headerStyle: {
-          backgroundColor: '#7B1FA2', // Purple for distributions
-        },
-        headerTintColor: '#fff',
-        headerTitleStyle: {
-          fontWeight: 'bold',
-        },
-      }}
-    >
-      <Stack.Screen
-        name="index"
-        options={{
-          title: 'Distributions',
-        }}
-      />
-      <Stack.Screen
-        name="new"
-        options={{
-          title: 'New Distribution',
-        }}
-      />
-      <Stack.Screen
-        name="order"
-        options={{
-          title: 'Create Order',
-        }}
-      />
-      <Stack.Screen
-        name="[id]"
-        options={{
-          title: 'Distribution Details',
+    <RouteGuard allowed={canManageDistributions} loading={loading}>
+      <Stack
+        screenOptions={{
+          headerStyle: {
+            backgroundColor: '#7B1FA2', // Purple for distributions
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
         }}
-      />
-    </Stack>
+      >
+        <Stack.Screen
+          name="index"
+          options={{
+            title: 'Distributions',
+          }}
+        />
+        <Stack.Screen
+          name="new"
+          options={{
+            title: 'New Distribution',
+          }}
+        />
+        <Stack.Screen
+          name="order"
+          options={{
+            title: 'Create Order',
+          }}
+        />
+        <Stack.Screen
+          name="[id]"
+          options={{
+            title: 'Distribution Details',
+          }}
+        />
+      </Stack>
+    </RouteGuard>
   );
 }
 
@@ -9,24 +9,37 @@ import {
   Modal,
   KeyboardAvoidingView,
   Platform,
-  Switch,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 import { useAuth } from '../../../contexts/AuthContext';
+import { usePermissions } from '../../../hooks/usePermissions';
+import { useConfirm } from '../../../contexts/ConfirmContext';
 import {
-  createDistribution,
   getPatientsForContext,
   getHarvest,
   getHarvestsForContext,
   getExtract,
   getExtractsForContext,
 } from '../../../firebase/firestore';
+import { createDistributionWithAudit } from '../../../firebase/auditedFirestore';
+import { getHarvestAvailableGrams, InsufficientInventoryError, InventoryFrozenError } from '../../../firebase/inventory';
+import {
+  AllowanceStatus,
+  AllowanceExceededError,
+  getPatientAllowanceStatus,
+  getAllowanceQuantity,
+  exceedsAllowance,
+} from '../../../firebase/allowances';
+import { CoaRequiredError, getBatchCoa } from '../../../firebase/labAnalyses';
+import { BatchCoa } from '../../../utils/labAnalysis';
+import { SignatureStrokes } from '../../../utils/signature';
 import { Patient, Harvest, ProductType, Extract } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
 import { Input } from '../../../components/Input';
 import { DatePicker } from '../../../components/DatePicker';
+import { SignaturePad } from '../../../components/SignaturePad';
 import { Loading } from '../../../components/Loading';
 import { format } from 'date-fns';
 import { Ionicons } from '@expo/vector-icons';
@@ -41,6 +54,14 @@ const PRODUCT_TYPES: { value: ProductType; label: string; icon: keyof typeof Ion
   { value: 'other', label: 'Other', icon: 'ellipsis-horizontal' },
 ];
 
+const COA_STATUS_LABELS: Record<BatchCoa['status'], string> = {
+  pass: 'COA passed',
+  fail: 'COA failed',
+  pending: 'COA pending',
+  expired: 'COA expired',
+  missing: 'No COA on file',
+};
+
 export default function NewDistributionScreen() {
   const { harvestId: initialHarvestId, patientId: initialPatientId, extractId: initialExtractId } = useLocalSearchParams();
   const [loading, setLoading] = useState(true);
@@ -63,7 +84,8 @@ export default function NewDistributionScreen() {
   const [productDescription, setProductDescription] = useState('');
   const [batchNumber, setBatchNumber] = useState('');
   const [receivedBy, setReceivedBy] = useState('');
-  const [signatureConfirmation, setSignatureConfirmation] = useState(false);
+  const [signatureStrokes, setSignatureStrokes] = useState<SignatureStrokes | null>(null);
+  const [drawingSignature, setDrawingSignature] = useState(false);
   const [notes, setNotes] = useState('');
 
   // Modals
@@ -71,9 +93,23 @@ export default function NewDistributionScreen() {
   const [harvestModalVisible, setHarvestModalVisible] = useState(false);
   const [extractModalVisible, setExtractModalVisible] = useState(false);
 
+  // Patient monthly allowance for the selected product type
+  const [allowanceStatus, setAllowanceStatus] = useState<AllowanceStatus | null>(null);
+  const [allowanceOverrideReason, setAllowanceOverrideReason] = useState('');
+
+  // Certificate of analysis of the selected batch
+  const [batchCoa, setBatchCoa] = useState<BatchCoa | null>(null);
+  const [coaOverrideReason, setCoaOverrideReason] = useState('');
+
   const { userData, currentAssociation } = useAuth();
+  const { isOwnerOrAdmin } = usePermissions();
+  const { confirm } = useConfirm();
   const router = useRouter();
 
+  // Only owners/admins (or personal accounts) may approve going over an allowance
+  // or releasing a batch without a passing COA
+  const canApproveOverride = !currentAssociation || isOwnerOrAdmin;
+
   const loadData = async () => {
     console.log('[NewDistribution] loadData called, userData:', userData);
     
@@ -116,6 +152,12 @@ export default function NewDistributionScreen() {
           console.log(`[NewDistribution] Harvest ${h.controlNumber} excluded - fully distributed`);
           return false;
         }
+
+        // Stock frozen by an open recall can't be distributed
+        if (h.recallId) {
+          console.log(`[NewDistribution] Harvest ${h.controlNumber} excluded - under recall`);
+          return false;
+        }
         
         // Calculate available weight - use the best available weight (only positive values)
         // Priority: finalWeightGrams > dryWeightGrams > wetWeightGrams
@@ -128,7 +170,7 @@ export default function NewDistributionScreen() {
           totalWeight = h.wetWeightGrams;
         }
         
-        const usedWeight = (h.distributedGrams || 0) + (h.extractedGrams || 0);
+        const usedWeight = (h.distributedGrams || 0) + (h.extractedGrams || 0) + (h.wastedGrams || 0) + (h.adjustedGrams || 0);
         const availableWeight = totalWeight - usedWeight;
         
         console.log(`[NewDistribution] Harvest ${h.controlNumber}: status=${h.status}, total=${totalWeight}g, used=${usedWeight}g, available=${availableWeight}g`);
@@ -143,6 +185,7 @@ export default function NewDistributionScreen() {
       // Filter to extracts that have available volume
       const availableExtracts = extractsData.filter(e => {
         // For now, we don't track distributed volume from extracts, so all are available
+        if (e.recallId) return false;
         return (e.outputVolumeMl || 0) > 0 || (e.outputWeightGrams || 0) > 0;
       });
       setExtracts(availableExtracts);
@@ -190,6 +233,58 @@ export default function NewDistributionScreen() {
     }, [userData, currentAssociation])
   );
 
+  useEffect(() => {
+    if (!selectedPatient) {
+      setAllowanceStatus(null);
+      return;
+    }
+
+    let cancelled = false;
+    getPatientAllowanceStatus(selectedPatient, productType, distributionDate?.getTime())
+      .then(status => {
+        if (!cancelled) setAllowanceStatus(status);
+      })
+      .catch(error => {
+        console.error('[NewDistribution] Error loading allowance:', error);
+        if (!cancelled) setAllowanceStatus(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPatient, productType, distributionDate]);
+
+  useEffect(() => {
+    const sourceType = selectedExtract ? 'extract' : 'harvest';
+    const sourceId = selectedExtract?.id || selectedHarvest?.id;
+    if (!userData || !sourceId) {
+      setBatchCoa(null);
+      return;
+    }
+
+    let cancelled = false;
+    getBatchCoa(sourceType, sourceId, userData.uid, currentAssociation?.id)
+      .then(coa => {
+        if (!cancelled) setBatchCoa(coa);
+      })
+      .catch(error => {
+        console.error('[NewDistribution] Error loading COA status:', error);
+        if (!cancelled) setBatchCoa(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedHarvest, selectedExtract, userData, currentAssociation]);
+
+  const getRequestedAllowanceGrams = (): number => {
+    return getAllowanceQuantity({
+      productType,
+      quantityGrams: quantityGrams ? parseFloat(quantityGrams) : undefined,
+      quantityMl: quantityMl ? parseFloat(quantityMl) : undefined,
+    }) || 0;
+  };
+
   const getHarvestTotalWeight = (harvest: Harvest): number => {
     // Use the best available weight (only positive values)
     // Priority: finalWeightGrams > dryWeightGrams > wetWeightGrams
@@ -206,8 +301,7 @@ export default function NewDistributionScreen() {
   };
 
   const getAvailableWeight = (harvest: Harvest): number => {
-    const totalWeight = getHarvestTotalWeight(harvest);
-    return totalWeight - (harvest.distributedGrams || 0) - (harvest.extractedGrams || 0);
+    return getHarvestAvailableGrams(harvest);
   };
 
   const getHarvestWeightDisplay = (harvest: Harvest): string => {
@@ -278,6 +372,62 @@ export default function NewDistributionScreen() {
       return;
     }
 
+    // The batch must have a valid passing certificate of analysis
+    const needsCoaOverride = !!batchCoa && batchCoa.status !== 'pass';
+    if (needsCoaOverride) {
+      if (!canApproveOverride) {
+        showWarning(`This batch has no passing COA (${batchCoa.status}). An owner or admin must approve the distribution.`);
+        return;
+      }
+      if (!coaOverrideReason.trim()) {
+        showWarning('Please enter a reason for releasing this batch without a passing COA');
+        return;
+      }
+    }
+
+    // Validate against the patient's monthly allowance
+    const requestedGrams = getRequestedAllowanceGrams();
+    const needsAllowanceOverride = !!allowanceStatus && exceedsAllowance(allowanceStatus, requestedGrams);
+    if (allowanceStatus && needsAllowanceOverride && !canApproveOverride) {
+      showWarning(`Exceeds monthly allowance: only ${allowanceStatus.remainingGrams}g remaining for ${allowanceStatus.category}`);
+      return;
+    }
+    if (needsAllowanceOverride && !allowanceOverrideReason.trim()) {
+      showWarning('Please enter a reason for exceeding the monthly allowance');
+      return;
+    }
+
+    if (needsCoaOverride || needsAllowanceOverride) {
+      const messages: string[] = [];
+      if (batchCoa && needsCoaOverride) {
+        messages.push(`Batch ${batchNumber.trim()} has no passing certificate of analysis (${batchCoa.status}).`);
+      }
+      if (allowanceStatus && needsAllowanceOverride) {
+        messages.push(`${selectedPatient.name} has used ${allowanceStatus.usedGrams}g of ${allowanceStatus.limitGrams}g (${allowanceStatus.category}) this month. Recording ${requestedGrams}g exceeds the allowance.`);
+      }
+
+      confirm({
+        title: needsCoaOverride ? 'Admin Override Required' : 'Exceeds Monthly Allowance',
+        message: `${messages.join('\n\n')}\n\nThis override will be recorded in the audit log. Continue?`,
+        confirmText: 'Override',
+        type: 'destructive',
+        onConfirm: () => submitDistribution(qtyGrams, qtyMl, qtyUnits, needsAllowanceOverride, needsCoaOverride),
+      });
+      return;
+    }
+
+    await submitDistribution(qtyGrams, qtyMl, qtyUnits, false, false);
+  };
+
+  const submitDistribution = async (
+    qtyGrams: number | undefined,
+    qtyMl: number | undefined,
+    qtyUnits: number | undefined,
+    overrideAllowance: boolean,
+    overrideCoa: boolean
+  ) => {
+    if (!userData || !selectedPatient || !distributionDate) return;
+
     setSubmitting(true);
 
     try {
@@ -297,7 +447,7 @@ export default function NewDistributionScreen() {
         ...(qtyUnits && { quantityUnits: qtyUnits }),
         distributionDate: distributionDate.getTime(),
         receivedBy: receivedBy.trim(),
-        signatureConfirmation,
+        signatureConfirmation: !!signatureStrokes,
         ...(notes.trim() && { notes: notes.trim() }),
         createdAt: Date.now(),
       };
@@ -307,11 +457,47 @@ export default function NewDistributionScreen() {
         distributionData.associationId = currentAssociation.id;
       }
       
-      await createDistribution(distributionData);
+      await createDistributionWithAudit(distributionData, userData.email, {
+        ...(signatureStrokes && {
+          recipientSignature: { strokes: signatureStrokes, signerName: receivedBy.trim() },
+        }),
+        ...(overrideAllowance && {
+          allowanceOverride: {
+            approvedBy: userData.uid,
+            approvedAt: Date.now(),
+            reason: allowanceOverrideReason.trim(),
+          },
+        }),
+        ...(overrideCoa && {
+          coaOverride: {
+            approvedBy: userData.uid,
+            approvedAt: Date.now(),
+            reason: coaOverrideReason.trim(),
+          },
+        }),
+      });
 
       showSuccess('Distribution recorded successfully!', 'Success', () => router.back());
     } catch (error: any) {
       console.error('[NewDistribution] Error creating distribution:', error);
+      if (error instanceof AllowanceExceededError) {
+        // Usage changed since the screen loaded (e.g. another device recorded a distribution)
+        setAllowanceStatus(error.status);
+        showWarning(`Exceeds monthly allowance: only ${error.status.remainingGrams}g remaining for ${error.status.category}`);
+        return;
+      }
+      if (error instanceof CoaRequiredError) {
+        // A lab result was recorded or expired since the screen loaded
+        setBatchCoa(error.batch);
+        showWarning(error.message);
+        return;
+      }
+      if (error instanceof InsufficientInventoryError || error instanceof InventoryFrozenError) {
+        // Stock was consumed or recalled elsewhere since the screen loaded
+        showWarning(error.message);
+        loadData();
+        return;
+      }
       showError('Failed to create distribution: ' + (error.message || 'Unknown error'));
     } finally {
       setSubmitting(false);
@@ -352,7 +538,7 @@ export default function NewDistributionScreen() {
         behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
         style={styles.keyboardView}
       >
-        <ScrollView contentContainerStyle={styles.scrollContent}>
+        <ScrollView contentContainerStyle={styles.scrollContent} scrollEnabled={!drawingSignature}>
           {/* Patient Selection */}
           <Card>
             <View style={styles.sectionHeader}>
@@ -514,6 +700,38 @@ export default function NewDistributionScreen() {
                 <Text style={styles.clearSourceText}>Clear source selection</Text>
               </TouchableOpacity>
             )}
+
+            {batchCoa && (
+              <View style={[styles.allowanceInfo, batchCoa.status === 'pass' ? styles.coaInfoPassed : styles.allowanceInfoExceeded]}>
+                <Ionicons
+                  name={batchCoa.status === 'pass' ? 'shield-checkmark' : 'warning'}
+                  size={18}
+                  color={batchCoa.status === 'pass' ? '#2E7D32' : '#C62828'}
+                />
+                <View style={styles.allowanceInfoContent}>
+                  <Text style={styles.allowanceTitle}>
+                    {COA_STATUS_LABELS[batchCoa.status]}
+                  </Text>
+                  <Text style={styles.allowanceText}>
+                    {batchCoa.analysis
+                      ? `${batchCoa.analysis.labName} • ${format(batchCoa.analysis.analysisDate, 'MMM dd, yyyy')}`
+                      : 'Record a lab analysis for this batch before distributing it'}
+                    {batchCoa.status !== 'pass' &&
+                      (canApproveOverride ? ' • admin override required' : ' • distribution blocked')}
+                  </Text>
+                </View>
+              </View>
+            )}
+
+            {batchCoa && batchCoa.status !== 'pass' && canApproveOverride && (
+              <Input
+                label="Override Reason *"
+                value={coaOverrideReason}
+                onChangeText={setCoaOverrideReason}
+                placeholder="Why is this batch released without a passing COA?"
+                multiline
+              />
+            )}
           </Card>
 
           {/* Product Details */}
@@ -582,6 +800,41 @@ export default function NewDistributionScreen() {
                 </Text>
               </View>
             )}
+
+            {allowanceStatus?.category && allowanceStatus.limitGrams > 0 && (
+              <View
+                style={[
+                  styles.allowanceInfo,
+                  exceedsAllowance(allowanceStatus, getRequestedAllowanceGrams()) && styles.allowanceInfoExceeded,
+                ]}
+              >
+                <Ionicons
+                  name={exceedsAllowance(allowanceStatus, getRequestedAllowanceGrams()) ? 'warning' : 'medkit'}
+                  size={18}
+                  color={exceedsAllowance(allowanceStatus, getRequestedAllowanceGrams()) ? '#C62828' : '#0288D1'}
+                />
+                <View style={styles.allowanceInfoContent}>
+                  <Text style={styles.allowanceTitle}>
+                    Monthly {allowanceStatus.category} allowance: {allowanceStatus.usedGrams}g of {allowanceStatus.limitGrams}g used
+                  </Text>
+                  <Text style={styles.allowanceText}>
+                    Remaining after this distribution: {Math.max(0, allowanceStatus.remainingGrams - getRequestedAllowanceGrams())}g
+                    {exceedsAllowance(allowanceStatus, getRequestedAllowanceGrams()) &&
+                      (canApproveOverride ? ' • admin override required' : ' • exceeds allowance')}
+                  </Text>
+                </View>
+              </View>
+            )}
+
+            {allowanceStatus && exceedsAllowance(allowanceStatus, getRequestedAllowanceGrams()) && canApproveOverride && (
+              <Input
+                label="Override Reason *"
+                value={allowanceOverrideReason}
+                onChangeText={setAllowanceOverrideReason}
+                placeholder="Why does this patient need more than the monthly allowance?"
+                multiline
+              />
+            )}
           </Card>
 
           {/* Distribution Details */}
@@ -606,18 +859,17 @@ export default function NewDistributionScreen() {
               placeholder="Name of person who received the product"
             />
 
-            <View style={styles.signatureRow}>
-              <View style={styles.signatureLabel}>
-                <Ionicons name="create" size={20} color="#7B1FA2" />
-                <Text style={styles.signatureLabelText}>Signature Confirmed</Text>
-              </View>
-              <Switch
-                value={signatureConfirmation}
-                onValueChange={setSignatureConfirmation}
-                trackColor={{ false: '#e0e0e0', true: '#CE93D8' }}
-                thumbColor={signatureConfirmation ? '#7B1FA2' : '#f4f3f4'}
-              />
-            </View>
+            <SignaturePad
+              label="Recipient Signature"
+              placeholder={receivedBy.trim() ? `${receivedBy.trim()} signs here` : 'Sign here'}
+              onChange={setSignatureStrokes}
+              onDrawingChange={setDrawingSignature}
+            />
+            {signatureStrokes && (
+              <Text style={styles.signatureHint}>
+                Signed distributions are locked and can no longer be edited
+              </Text>
+            )}
 
             <Input
               label="Notes (Optional)"
@@ -953,25 +1205,40 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#2E7D32',
   },
-  signatureRow: {
+  allowanceInfo: {
     flexDirection: 'row',
     alignItems: 'center',
-    justifyContent: 'space-between',
-    backgroundColor: '#f5f5f5',
-    padding: 12,
+    backgroundColor: '#E1F5FE',
+    padding: 10,
     borderRadius: 8,
-    marginTop: 12,
+    marginTop: 8,
+    gap: 8,
   },
-  signatureLabel: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 10,
+  allowanceInfoExceeded: {
+    backgroundColor: '#FFEBEE',
   },
-  signatureLabelText: {
-    fontSize: 14,
+  coaInfoPassed: {
+    backgroundColor: '#E8F5E9',
+  },
+  allowanceInfoContent: {
+    flex: 1,
+  },
+  allowanceTitle: {
+    fontSize: 13,
     fontWeight: '600',
     color: '#333',
   },
+  allowanceText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  signatureHint: {
+    fontSize: 12,
+    color: '#7B1FA2',
+    marginTop: -8,
+    marginBottom: 16,
+  },
   submitButton: {
     backgroundColor: '#7B1FA2',
     marginTop: 8,
@@ -14,11 +14,18 @@ import {
 import { useRouter } from 'expo-router';
 import { useAuth } from '../../../contexts/AuthContext';
 import {
-  createOrder,
   getPatientsForContext,
   getHarvestsForContext,
   getExtractsForContext,
 } from '../../../firebase/firestore';
+import { createOrderWithAudit } from '../../../firebase/auditedFirestore';
+import { getHarvestAvailableGrams } from '../../../firebase/inventory';
+import {
+  AllowanceStatus,
+  getPatientAllowanceStatus,
+  getAllowanceQuantity,
+  exceedsAllowance,
+} from '../../../firebase/allowances';
 import { Patient, Harvest, ProductType, Extract, OrderStatus } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
@@ -56,6 +63,9 @@ export default function NewOrderScreen() {
   const [harvestModalVisible, setHarvestModalVisible] = useState(false);
   const [extractModalVisible, setExtractModalVisible] = useState(false);
 
+  // Patient monthly allowance for the selected product type
+  const [allowanceStatus, setAllowanceStatus] = useState<AllowanceStatus | null>(null);
+
   const { userData, currentAssociation } = useAuth();
   const router = useRouter();
 
@@ -79,8 +89,7 @@ export default function NewOrderScreen() {
       // Filter to harvests in curing status with available weight
       const curingHarvests = harvestsData.filter(h => {
         if (h.status !== 'curing') return false;
-        const availableWeight = (h.finalWeightGrams || h.dryWeightGrams || h.wetWeightGrams) - (h.distributedGrams || 0) - (h.extractedGrams || 0);
-        return availableWeight > 0;
+        return getHarvestAvailableGrams(h) > 0;
       });
       setHarvests(curingHarvests);
 
@@ -101,9 +110,37 @@ export default function NewOrderScreen() {
     loadData();
   }, [userData, currentAssociation]);
 
+  useEffect(() => {
+    if (!selectedPatient) {
+      setAllowanceStatus(null);
+      return;
+    }
+
+    let cancelled = false;
+    getPatientAllowanceStatus(selectedPatient, productType)
+      .then(status => {
+        if (!cancelled) setAllowanceStatus(status);
+      })
+      .catch(error => {
+        console.error('[NewOrder] Error loading allowance:', error);
+        if (!cancelled) setAllowanceStatus(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPatient, productType]);
+
+  const getRequestedAllowanceGrams = (): number => {
+    return getAllowanceQuantity({
+      productType,
+      quantityGrams: quantityGrams ? parseFloat(quantityGrams) : undefined,
+      quantityMl: quantityMl ? parseFloat(quantityMl) : undefined,
+    });
+  };
+
   const getAvailableWeight = (harvest: Harvest): number => {
-    const totalWeight = harvest.finalWeightGrams || harvest.dryWeightGrams || harvest.wetWeightGrams;
-    return totalWeight - (harvest.distributedGrams || 0) - (harvest.extractedGrams || 0);
+    return getHarvestAvailableGrams(harvest);
   };
 
   const getPatientAllowance = (patient: Patient, type: ProductType): number => {
@@ -135,12 +172,12 @@ export default function NewOrderScreen() {
       return;
     }
 
-    // Validate against patient allowance
-    const allowance = getPatientAllowance(selectedPatient, productType);
-    if (qtyGrams && qtyGrams > allowance && allowance > 0) {
+    // Validate against what is left of the patient's monthly allowance
+    const requestedGrams = getRequestedAllowanceGrams();
+    if (allowanceStatus && exceedsAllowance(allowanceStatus, requestedGrams)) {
       Alert.alert(
         'Exceeds Allowance',
-        `Patient's monthly allowance for ${productType} is ${allowance}g. Requested: ${qtyGrams}g.`,
+        `Patient has ${allowanceStatus.remainingGrams}g of ${allowanceStatus.limitGrams}g ${productType} allowance left this month. Requested: ${requestedGrams}g. Fulfilling this order will require an admin override.`,
         [
           { text: 'Cancel', style: 'cancel' },
           { text: 'Create Anyway', onPress: () => submitOrder(qtyGrams, qtyMl) },
@@ -178,7 +215,7 @@ export default function NewOrderScreen() {
         orderData.associationId = currentAssociation.id;
       }
       
-      await createOrder(orderData);
+      await createOrderWithAudit(orderData, userData!.email);
 
       Alert.alert('Success', 'Order created successfully!', [
         { text: 'OK', onPress: () => router.back() },
@@ -241,6 +278,8 @@ export default function NewOrderScreen() {
                     <Text style={styles.selectorText}>{selectedPatient.name}</Text>
                     <Text style={styles.allowanceText}>
                       Allowance: {getPatientAllowance(selectedPatient, productType)}g ({productType})
+                      {allowanceStatus?.category && allowanceStatus.limitGrams > 0 &&
+                        ` • ${allowanceStatus.remainingGrams}g left this month`}
                     </Text>
                   </View>
                 </View>
@@ -383,10 +422,21 @@ export default function NewOrderScreen() {
               )}
             </View>
 
-            {selectedPatient && quantityGrams && (
-              <View style={styles.allowanceInfo}>
-                <Text style={styles.allowanceInfoText}>
-                  Patient allowance: {getPatientAllowance(selectedPatient, productType)}g/month
+            {selectedPatient && allowanceStatus?.category && allowanceStatus.limitGrams > 0 && (
+              <View
+                style={[
+                  styles.allowanceInfo,
+                  exceedsAllowance(allowanceStatus, getRequestedAllowanceGrams()) && styles.allowanceInfoExceeded,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.allowanceInfoText,
+                    exceedsAllowance(allowanceStatus, getRequestedAllowanceGrams()) && styles.allowanceInfoTextExceeded,
+                  ]}
+                >
+                  Patient allowance: {allowanceStatus.limitGrams}g/month • {allowanceStatus.usedGrams}g used •{' '}
+                  {Math.max(0, allowanceStatus.remainingGrams - getRequestedAllowanceGrams())}g remaining after this order
                 </Text>
               </View>
             )}
@@ -709,6 +759,12 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#2E7D32',
   },
+  allowanceInfoExceeded: {
+    backgroundColor: '#FFEBEE',
+  },
+  allowanceInfoTextExceeded: {
+    color: '#C62828',
+  },
   submitButton: {
     backgroundColor: '#7B1FA2',
     marginTop: 8,
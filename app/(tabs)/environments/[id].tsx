@@ -20,14 +20,17 @@ import {
   getEnvironment,
   getEnvironmentPlants,
   getEnvironmentRecords,
-  deleteEnvironment,
-  updateEnvironment,
 } from '../../../firebase/firestore';
-import { Environment, Plant, EnvironmentRecord, EnvironmentType } from '../../../types';
+import { updateEnvironmentWithAudit, deleteEnvironmentWithAudit } from '../../../firebase/auditedFirestore';
+import { getEnvironmentForecasts } from '../../../firebase/forecasts';
+import { Environment, Plant, EnvironmentRecord, EnvironmentType, PlantForecast } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
 import { Input } from '../../../components/Input';
 import { Loading } from '../../../components/Loading';
+import { ClimateAnalyticsCard } from '../../../components/ClimateAnalyticsCard';
+import { HarvestCalendarCard } from '../../../components/HarvestCalendarCard';
+import { calculateVpd, formatMetricValue } from '../../../utils/climateAnalytics';
 import { format } from 'date-fns';
 import { Ionicons } from '@expo/vector-icons';
 import { showSuccess, showError, showWarning } from '../../../utils/toast';
@@ -51,15 +54,18 @@ export default function EnvironmentDetailScreen() {
   const [environment, setEnvironment] = useState<Environment | null>(null);
   const [plants, setPlants] = useState<Plant[]>([]);
   const [envRecords, setEnvRecords] = useState<EnvironmentRecord[]>([]);
+  const [forecasts, setForecasts] = useState<{ plant: Plant; forecast: PlantForecast }[]>([]);
   const [loading, setLoading] = useState(true);
   const [editModalVisible, setEditModalVisible] = useState(false);
   const [editName, setEditName] = useState('');
+  const [editCode, setEditCode] = useState('');
   const [editLightSetup, setEditLightSetup] = useState('');
+  const [editPpfd, setEditPpfd] = useState('');
   const [editVentilation, setEditVentilation] = useState('');
   const [editNotes, setEditNotes] = useState('');
   const [editIsPublic, setEditIsPublic] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
-  const { userData } = useAuth();
+  const { userData, currentAssociation } = useAuth();
   const router = useRouter();
 
   const loadEnvironmentData = async () => {
@@ -107,6 +113,16 @@ export default function EnvironmentDetailScreen() {
         console.log('[EnvironmentDetail] Error loading records:', err);
         setEnvRecords([]);
       }
+
+      try {
+        if (envData && userData) {
+          const forecastsData = await getEnvironmentForecasts(id, userData.uid, currentAssociation?.id);
+          setForecasts(forecastsData);
+        }
+      } catch (err) {
+        console.log('[EnvironmentDetail] Error loading harvest forecasts:', err);
+        setForecasts([]);
+      }
     } catch (error: any) {
       console.error('[EnvironmentDetail] Error loading environment data:', error);
       showError(t('environments:detail.failedToLoad'), t('common:error'));
@@ -140,9 +156,9 @@ export default function EnvironmentDetailScreen() {
       cancelText: t('common:cancel'),
       type: 'destructive',
       onConfirm: async () => {
-        if (!id || typeof id !== 'string') return;
+        if (!id || typeof id !== 'string' || !userData) return;
         try {
-          await deleteEnvironment(id);
+          await deleteEnvironmentWithAudit(id, userData.uid, userData.email);
           showSuccess(t('environments:detail.deleted'), t('common:success'), () => router.back());
         } catch (error) {
           showError(t('environments:detail.failedToDelete'), t('common:error'));
@@ -154,7 +170,9 @@ export default function EnvironmentDetailScreen() {
   const handleEditPress = () => {
     if (environment) {
       setEditName(environment.name);
+      setEditCode(environment.code || '');
       setEditLightSetup(environment.lightSetup || '');
+      setEditPpfd(environment.ppfd?.toString() || '');
       setEditVentilation(environment.ventilation || '');
       setEditNotes(environment.notes || '');
       setEditIsPublic(environment.isPublic || false);
@@ -168,7 +186,7 @@ export default function EnvironmentDetailScreen() {
       return;
     }
 
-    if (!id || typeof id !== 'string') return;
+    if (!id || typeof id !== 'string' || !userData) return;
 
     try {
       // Build update data - only include non-empty values
@@ -179,9 +197,15 @@ export default function EnvironmentDetailScreen() {
       };
       
       // Only include optional fields if they have values
+      if (editCode.trim()) {
+        updateData.code = editCode.trim().toUpperCase();
+      }
       if (editLightSetup.trim()) {
         updateData.lightSetup = editLightSetup;
       }
+      if (editPpfd.trim() && !isNaN(parseFloat(editPpfd))) {
+        updateData.ppfd = parseFloat(editPpfd);
+      }
       if (editVentilation.trim()) {
         updateData.ventilation = editVentilation;
       }
@@ -192,7 +216,7 @@ export default function EnvironmentDetailScreen() {
       console.log('[EnvironmentDetail] Updating environment:', id);
       console.log('[EnvironmentDetail] Update data:', updateData);
       
-      await updateEnvironment(id, updateData);
+      await updateEnvironmentWithAudit(id, updateData, userData.uid, userData.email);
       setEditModalVisible(false);
       loadEnvironmentData();
       showSuccess(t('environments:detail.updated'), t('common:success'));
@@ -334,6 +358,17 @@ export default function EnvironmentDetailScreen() {
           )}
         </Card>
 
+        {/* Harvest Calendar */}
+        {plants.length > 0 && (
+          <HarvestCalendarCard
+            forecasts={forecasts}
+            onPlantPress={(plant) => router.push(`/(tabs)/plants/${plant.id}`)}
+          />
+        )}
+
+        {/* Climate Analytics */}
+        <ClimateAnalyticsCard environment={environment} records={envRecords} plants={plants} />
+
         {/* Recent Environment Logs */}
         <Card>
           <View style={styles.sectionHeader}>
@@ -351,7 +386,7 @@ export default function EnvironmentDetailScreen() {
               </View>
               <View style={styles.logContent}>
                 <Text style={styles.logTitle}>
-                  {record.temp}°C | {record.humidity}% | {record.lightHours}h light
+                  {record.temp}°C | {record.humidity}% | {record.lightHours}h light | VPD {formatMetricValue('vpd', calculateVpd(record.temp, record.humidity))}
                 </Text>
                 <Text style={styles.logDate}>
                   {format(new Date(record.date), 'MMM dd, yyyy - HH:mm')}
@@ -390,12 +425,27 @@ export default function EnvironmentDetailScreen() {
                 onChangeText={setEditName}
                 placeholder={t('environments:form.namePlaceholder')}
               />
+              <Input
+                label={t('environments:form.codeLabel')}
+                value={editCode}
+                onChangeText={(text) => setEditCode(text.replace(/[^A-Za-z0-9]/g, '').toUpperCase())}
+                placeholder={t('environments:form.codePlaceholder')}
+                autoCapitalize="characters"
+                maxLength={6}
+              />
               <Input
                 label={t('environments:form.lightSetupLabel')}
                 value={editLightSetup}
                 onChangeText={setEditLightSetup}
                 placeholder={t('environments:form.lightSetupPlaceholder')}
               />
+              <Input
+                label={t('environments:form.ppfdLabel')}
+                value={editPpfd}
+                onChangeText={setEditPpfd}
+                placeholder={t('environments:form.ppfdPlaceholder')}
+                keyboardType="decimal-pad"
+              />
               <Input
                 label={t('environments:form.ventilationLabel')}
                 value={editVentilation}
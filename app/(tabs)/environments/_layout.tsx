@@ -16,6 +16,7 @@ export default function EnvironmentsLayout() {
       <Stack.Screen name="index" options={{ title: 'Environments' }} />
       <Stack.Screen name="new" options={{ title: 'New Environment' }} />
       <Stack.Screen name="[id]" options={{ title: 'Environment Details' }} />
+      <Stack.Screen name="sensors" options={{ title: 'Sensors' }} />
     </Stack>
   );
 }
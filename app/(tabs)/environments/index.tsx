@@ -163,6 +163,12 @@ export default function EnvironmentsScreen() {
           />
         )}
 
+        <Button
+          title={t('environments:sensors.manage')}
+          onPress={() => router.push('/(tabs)/environments/sensors')}
+          variant="outline"
+          style={styles.sensorsButton}
+        />
         <Button
           title={t('environments:addEnvironment')}
           onPress={() => router.push('/(tabs)/environments/new')}
@@ -264,6 +270,9 @@ const styles = StyleSheet.create({
     color: '#ccc',
     marginTop: 8,
   },
+  sensorsButton: {
+    marginTop: 8,
+  },
   addButton: {
     marginTop: 8,
     backgroundColor: '#2E7D32',
@@ -13,7 +13,8 @@ import {
 import { useRouter } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../../../contexts/AuthContext';
-import { createEnvironment } from '../../../firebase/firestore';
+import { createEnvironmentWithAudit } from '../../../firebase/auditedFirestore';
+
 import { EnvironmentType } from '../../../types';
 import { Input } from '../../../components/Input';
 import { Button } from '../../../components/Button';
@@ -23,12 +24,14 @@ import { showError, showWarning } from '../../../utils/toast';
 export default function NewEnvironmentScreen() {
   const { t } = useTranslation(['environments', 'common']);
   const [name, setName] = useState('');
+  const [code, setCode] = useState('');
   const [selectedType, setSelectedType] = useState<EnvironmentType>('indoor');
   const [width, setWidth] = useState('');
   const [length, setLength] = useState('');
   const [height, setHeight] = useState('');
   const [unit, setUnit] = useState<'m' | 'ft'>('m');
   const [lightSetup, setLightSetup] = useState('');
+  const [ppfd, setPpfd] = useState('');
   const [ventilation, setVentilation] = useState('');
   const [notes, setNotes] = useState('');
   const [isPublic, setIsPublic] = useState(false);
@@ -87,9 +90,15 @@ export default function NewEnvironmentScreen() {
       }
 
       // Add optional fields if provided
+      if (code.trim()) {
+        environmentData.code = code.trim().toUpperCase();
+      }
       if (lightSetup.trim()) {
         environmentData.lightSetup = lightSetup.trim();
       }
+      if (ppfd.trim() && !isNaN(parseFloat(ppfd))) {
+        environmentData.ppfd = parseFloat(ppfd);
+      }
       if (ventilation.trim()) {
         environmentData.ventilation = ventilation.trim();
       }
@@ -97,7 +106,7 @@ export default function NewEnvironmentScreen() {
         environmentData.notes = notes.trim();
       }
 
-      const environmentId = await createEnvironment(environmentData);
+      const environmentId = await createEnvironmentWithAudit(environmentData, userData.email);
       console.log('[NewEnvironment] Environment created with ID:', environmentId);
 
       // Navigate directly to the newly created environment
@@ -128,6 +137,15 @@ export default function NewEnvironmentScreen() {
               placeholder={t('environments:form.namePlaceholder')}
             />
 
+            <Input
+              label={`${t('environments:form.codeLabel')} (${t('common:optional')})`}
+              value={code}
+              onChangeText={(text) => setCode(text.replace(/[^A-Za-z0-9]/g, '').toUpperCase())}
+              placeholder={t('environments:form.codePlaceholder')}
+              autoCapitalize="characters"
+              maxLength={6}
+            />
+
             <View style={styles.section}>
               <Text style={styles.label}>{t('environments:form.typeLabel')} *</Text>
               <View style={styles.typeButtons}>
@@ -212,6 +230,14 @@ export default function NewEnvironmentScreen() {
               placeholder={t('environments:form.lightSetupPlaceholder')}
             />
 
+            <Input
+              label={`${t('environments:form.ppfdLabel')} (${t('common:optional')})`}
+              value={ppfd}
+              onChangeText={setPpfd}
+              placeholder={t('environments:form.ppfdPlaceholder')}
+              keyboardType="decimal-pad"
+            />
+
             <Input
               label={`${t('environments:form.ventilationLabel')} (${t('common:optional')})`}
               value={ventilation}
@@ -0,0 +1,685 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+  Switch,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useConfirm } from '../../../contexts/ConfirmContext';
+import { usePermissions } from '../../../hooks/usePermissions';
+import { getEnvironmentsForContext } from '../../../firebase/firestore';
+import { getSensorsForContext } from '../../../firebase/sensors';
+import { createSensorWithAudit, deleteSensorWithAudit, updateSensorWithAudit } from '../../../firebase/auditedFirestore';
+import {
+  getIngestionStatus,
+  loadBridgeConfig,
+  refreshSensorMappings,
+  saveBridgeConfig,
+  startSensorIngestion,
+  stopSensorIngestion,
+  subscribeToIngestionStatus,
+  DEFAULT_BRIDGE_CONFIG,
+} from '../../../services/sensorIngestion';
+import {
+  Environment,
+  Sensor,
+  SensorBridgeConfig,
+  SensorIngestionStatus,
+  SensorReadingRejection,
+  SensorType,
+} from '../../../types';
+import { SENSOR_TYPES, SENSOR_UNITS } from '../../../utils/sensorReadings';
+import { Card } from '../../../components/Card';
+import { Button } from '../../../components/Button';
+import { Input } from '../../../components/Input';
+import { Loading } from '../../../components/Loading';
+import { showSuccess, showError, showWarning } from '../../../utils/toast';
+
+const STATE_COLORS: Record<SensorIngestionStatus['state'], string> = {
+  stopped: '#999',
+  connecting: '#FF9800',
+  running: '#4CAF50',
+  error: '#F44336',
+};
+
+const REJECTIONS: SensorReadingRejection[] = ['invalid', 'out_of_range', 'stale', 'duplicate', 'unmapped'];
+
+export default function SensorsScreen() {
+  const { t } = useTranslation(['environments', 'common']);
+  const { userData, currentAssociation } = useAuth();
+  const { canManagePlants } = usePermissions();
+  const { confirm } = useConfirm();
+
+  const [sensors, setSensors] = useState<Sensor[]>([]);
+  const [environments, setEnvironments] = useState<Environment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<SensorIngestionStatus>(getIngestionStatus());
+
+  // Bridge settings
+  const [bridgeConfig, setBridgeConfig] = useState<SensorBridgeConfig>(DEFAULT_BRIDGE_CONFIG);
+  const [pollInterval, setPollInterval] = useState(String(DEFAULT_BRIDGE_CONFIG.pollIntervalSeconds));
+  const [windowMinutes, setWindowMinutes] = useState(String(DEFAULT_BRIDGE_CONFIG.windowMinutes));
+
+  // New sensor form
+  const [modalVisible, setModalVisible] = useState(false);
+  const [name, setName] = useState('');
+  const [sensorId, setSensorId] = useState('');
+  const [type, setType] = useState<SensorType>('temp');
+  const [environmentId, setEnvironmentId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadData = async () => {
+    if (!userData) return;
+
+    try {
+      const [sensorList, environmentList] = await Promise.all([
+        getSensorsForContext(userData.uid, currentAssociation?.id),
+        getEnvironmentsForContext(userData.uid, currentAssociation?.id),
+      ]);
+      setSensors(sensorList);
+      setEnvironments(environmentList);
+    } catch (error) {
+      console.error('[Sensors] Error loading sensors:', error);
+      showError(t('environments:sensors.errors.failedToLoad'), t('common:error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [userData, currentAssociation])
+  );
+
+  useEffect(() => subscribeToIngestionStatus(setStatus), []);
+
+  useEffect(() => {
+    loadBridgeConfig().then(config => {
+      setBridgeConfig(config);
+      setPollInterval(String(config.pollIntervalSeconds));
+      setWindowMinutes(String(config.windowMinutes));
+    });
+  }, []);
+
+  const updateConfig = (changes: Partial<SensorBridgeConfig>) => {
+    setBridgeConfig(current => ({ ...current, ...changes }));
+  };
+
+  const handleStart = async () => {
+    if (!userData) return;
+
+    if (!bridgeConfig.url.trim()) {
+      showWarning(t('environments:sensors.errors.urlRequired'), t('common:error'));
+      return;
+    }
+
+    const config: SensorBridgeConfig = {
+      ...bridgeConfig,
+      url: bridgeConfig.url.trim(),
+      topic: bridgeConfig.topic.trim() || DEFAULT_BRIDGE_CONFIG.topic,
+      pollIntervalSeconds: Math.max(parseInt(pollInterval, 10) || DEFAULT_BRIDGE_CONFIG.pollIntervalSeconds, 5),
+      windowMinutes: Math.max(parseInt(windowMinutes, 10) || DEFAULT_BRIDGE_CONFIG.windowMinutes, 1),
+    };
+
+    try {
+      await saveBridgeConfig(config);
+      setBridgeConfig(config);
+      await startSensorIngestion({ userId: userData.uid, associationId: currentAssociation?.id }, config);
+    } catch (error: any) {
+      console.error('[Sensors] Error starting ingestion:', error);
+      showError(error.message || t('environments:sensors.errors.failedToStart'), t('common:error'));
+    }
+  };
+
+  const handleStop = async () => {
+    await stopSensorIngestion();
+  };
+
+  const resetForm = () => {
+    setName('');
+    setSensorId('');
+    setType('temp');
+    setEnvironmentId('');
+  };
+
+  const handleAddSensor = async () => {
+    if (!userData) return;
+
+    if (!name.trim()) {
+      showWarning(t('environments:sensors.errors.nameRequired'), t('common:error'));
+      return;
+    }
+    if (!sensorId.trim()) {
+      showWarning(t('environments:sensors.errors.sensorIdRequired'), t('common:error'));
+      return;
+    }
+    if (!environmentId) {
+      showWarning(t('environments:sensors.errors.environmentRequired'), t('common:error'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createSensorWithAudit({
+        userId: userData.uid,
+        associationId: currentAssociation?.id,
+        name: name.trim(),
+        sensorId: sensorId.trim(),
+        type,
+        environmentId,
+        isActive: true,
+      }, userData.email);
+      setModalVisible(false);
+      resetForm();
+      await loadData();
+      await refreshSensorMappings();
+      showSuccess(t('environments:sensors.created'), t('common:success'));
+    } catch (error: any) {
+      console.error('[Sensors] Error creating sensor:', error);
+      showError(error.message || t('environments:sensors.errors.failedToSave'), t('common:error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (sensor: Sensor) => {
+    if (!userData) return;
+    try {
+      await updateSensorWithAudit(sensor.id, { isActive: !sensor.isActive }, userData.uid, userData.email);
+      await loadData();
+      await refreshSensorMappings();
+    } catch (error: any) {
+      showError(error.message || t('environments:sensors.errors.failedToSave'), t('common:error'));
+    }
+  };
+
+  const handleDelete = (sensor: Sensor) => {
+    if (!userData) return;
+    confirm({
+      title: t('environments:sensors.deleteTitle'),
+      message: t('environments:sensors.deleteConfirm'),
+      confirmText: t('common:delete'),
+      cancelText: t('common:cancel'),
+      type: 'destructive',
+      onConfirm: async () => {
+        try {
+          await deleteSensorWithAudit(sensor.id, userData.uid, userData.email);
+          await loadData();
+          await refreshSensorMappings();
+          showSuccess(t('environments:sensors.deleted'), t('common:success'));
+        } catch (error: any) {
+          showError(error.message || t('environments:sensors.errors.failedToSave'), t('common:error'));
+        }
+      },
+    });
+  };
+
+  if (loading) {
+    return <Loading message={t('environments:loading')} />;
+  }
+
+  const isActive = status.state !== 'stopped';
+  const totalRejected = REJECTIONS.reduce((sum, reason) => sum + status.rejected[reason], 0);
+  const environmentName = (id: string) => environments.find(env => env.id === id)?.name || '—';
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {/* Bridge */}
+        <Card>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>{t('environments:sensors.bridgeTitle')}</Text>
+            <View style={styles.stateBadge}>
+              <View style={[styles.stateDot, { backgroundColor: STATE_COLORS[status.state] }]} />
+              <Text style={[styles.stateText, { color: STATE_COLORS[status.state] }]}>
+                {t(`environments:sensors.states.${status.state}`)}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.description}>{t('environments:sensors.bridgeDesc')}</Text>
+
+          {status.error && <Text style={styles.errorText}>{status.error}</Text>}
+
+          <Text style={styles.label}>{t('environments:sensors.transport')}</Text>
+          <View style={styles.chipRow}>
+            {(['mqtt', 'http'] as const).map(transport => (
+              <TouchableOpacity
+                key={transport}
+                style={[styles.chip, bridgeConfig.transport === transport && styles.chipSelected]}
+                onPress={() => updateConfig({ transport })}
+                disabled={isActive}
+              >
+                <Text style={[styles.chipText, bridgeConfig.transport === transport && styles.chipTextSelected]}>
+                  {t(`environments:sensors.${transport}`)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Input
+            label={bridgeConfig.transport === 'mqtt' ? t('environments:sensors.mqttUrl') : t('environments:sensors.httpUrl')}
+            value={bridgeConfig.url}
+            onChangeText={(url) => updateConfig({ url })}
+            placeholder={bridgeConfig.transport === 'mqtt' ? 'ws://192.168.0.10:9001' : 'http://192.168.0.10:8080/readings'}
+            autoCapitalize="none"
+            editable={!isActive}
+          />
+
+          {bridgeConfig.transport === 'mqtt' ? (
+            <>
+              <Input
+                label={t('environments:sensors.topic')}
+                value={bridgeConfig.topic}
+                onChangeText={(topic) => updateConfig({ topic })}
+                placeholder={DEFAULT_BRIDGE_CONFIG.topic}
+                autoCapitalize="none"
+                editable={!isActive}
+              />
+              <Text style={styles.hint}>{t('environments:sensors.topicHint')}</Text>
+              <View style={styles.row}>
+                <View style={styles.rowItem}>
+                  <Input
+                    label={`${t('environments:sensors.username')} (${t('common:optional')})`}
+                    value={bridgeConfig.username || ''}
+                    onChangeText={(username) => updateConfig({ username })}
+                    autoCapitalize="none"
+                    editable={!isActive}
+                  />
+                </View>
+                <View style={styles.rowItem}>
+                  <Input
+                    label={`${t('environments:sensors.password')} (${t('common:optional')})`}
+                    value={bridgeConfig.password || ''}
+                    onChangeText={(password) => updateConfig({ password })}
+                    autoCapitalize="none"
+                    secureTextEntry
+                    editable={!isActive}
+                  />
+                </View>
+              </View>
+            </>
+          ) : (
+            <Input
+              label={t('environments:sensors.pollInterval')}
+              value={pollInterval}
+              onChangeText={setPollInterval}
+              keyboardType="number-pad"
+              editable={!isActive}
+            />
+          )}
+
+          <Input
+            label={t('environments:sensors.windowMinutes')}
+            value={windowMinutes}
+            onChangeText={setWindowMinutes}
+            keyboardType="number-pad"
+            editable={!isActive}
+          />
+
+          {isActive ? (
+            <Button title={t('environments:sensors.stop')} onPress={handleStop} variant="danger" />
+          ) : (
+            <Button title={t('environments:sensors.start')} onPress={handleStart} />
+          )}
+
+          {/* Ingestion stats */}
+          <View style={styles.statsGrid}>
+            <View style={styles.statBox}>
+              <Text style={styles.statValue}>{status.accepted}</Text>
+              <Text style={styles.statLabel}>{t('environments:sensors.accepted')}</Text>
+            </View>
+            <View style={styles.statBox}>
+              <Text style={styles.statValue}>{status.pendingReadings}</Text>
+              <Text style={styles.statLabel}>{t('environments:sensors.pending')}</Text>
+            </View>
+            <View style={styles.statBox}>
+              <Text style={styles.statValue}>{status.recordsWritten}</Text>
+              <Text style={styles.statLabel}>{t('environments:sensors.recordsWritten')}</Text>
+            </View>
+            <View style={styles.statBox}>
+              <Text style={[styles.statValue, totalRejected > 0 && styles.statValueWarning]}>{totalRejected}</Text>
+              <Text style={styles.statLabel}>{t('environments:sensors.rejected')}</Text>
+            </View>
+          </View>
+
+          {totalRejected > 0 && (
+            <Text style={styles.hint}>
+              {REJECTIONS
+                .filter(reason => status.rejected[reason] > 0)
+                .map(reason => `${status.rejected[reason]} ${t(`environments:sensors.rejections.${reason}`)}`)
+                .join(' · ')}
+            </Text>
+          )}
+          {status.skippedWindows > 0 && (
+            <Text style={styles.hint}>
+              {t('environments:sensors.skipped')}: {status.skippedWindows} — {t('environments:sensors.skippedHint')}
+            </Text>
+          )}
+          {status.lastReadingAt && (
+            <Text style={styles.hint}>
+              {t('environments:sensors.lastReading')}: {format(new Date(status.lastReadingAt), 'MMM dd, HH:mm:ss')}
+            </Text>
+          )}
+        </Card>
+
+        {/* Sensor mappings */}
+        <Card>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>
+              {t('environments:sensors.sensorsTitle')} ({sensors.length})
+            </Text>
+          </View>
+
+          {sensors.length === 0 ? (
+            <Text style={styles.emptyText}>{t('environments:sensors.noSensors')}</Text>
+          ) : (
+            sensors.map(sensor => (
+              <View key={sensor.id} style={styles.sensorItem}>
+                <View style={styles.sensorInfo}>
+                  <Text style={styles.sensorName}>{sensor.name}</Text>
+                  <Text style={styles.sensorMeta}>
+                    {sensor.sensorId} · {t(`environments:sensors.types.${sensor.type}`)} · {environmentName(sensor.environmentId)}
+                  </Text>
+                  <Text style={styles.sensorLast}>
+                    {sensor.lastReadingAt !== undefined && sensor.lastValue !== undefined
+                      ? `${sensor.lastValue} ${SENSOR_UNITS[sensor.type]} · ${format(new Date(sensor.lastReadingAt), 'MMM dd, HH:mm')}`
+                      : t('environments:sensors.never')}
+                  </Text>
+                </View>
+                {canManagePlants && (
+                  <View style={styles.sensorActions}>
+                    <Switch
+                      value={sensor.isActive}
+                      onValueChange={() => handleToggleActive(sensor)}
+                      trackColor={{ false: '#ccc', true: '#A5D6A7' }}
+                      thumbColor={sensor.isActive ? '#4CAF50' : '#f4f3f4'}
+                    />
+                    <TouchableOpacity onPress={() => handleDelete(sensor)}>
+                      <Ionicons name="trash-outline" size={22} color="#f44336" />
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            ))
+          )}
+        </Card>
+
+        {canManagePlants && (
+          <Button
+            title={t('environments:sensors.addSensor')}
+            onPress={() => setModalVisible(true)}
+            style={styles.addButton}
+          />
+        )}
+      </ScrollView>
+
+      {/* New Sensor Modal */}
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalOverlay}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('environments:sensors.newSensor')}</Text>
+            <ScrollView>
+              <Input
+                label={t('environments:sensors.name')}
+                value={name}
+                onChangeText={setName}
+                placeholder={t('environments:sensors.namePlaceholder')}
+              />
+              <Input
+                label={t('environments:sensors.sensorId')}
+                value={sensorId}
+                onChangeText={setSensorId}
+                placeholder={t('environments:sensors.sensorIdPlaceholder')}
+                autoCapitalize="none"
+              />
+
+              <Text style={styles.label}>{t('environments:sensors.type')}</Text>
+              <View style={styles.chipRow}>
+                {SENSOR_TYPES.map(sensorType => (
+                  <TouchableOpacity
+                    key={sensorType}
+                    style={[styles.chip, type === sensorType && styles.chipSelected]}
+                    onPress={() => setType(sensorType)}
+                  >
+                    <Text style={[styles.chipText, type === sensorType && styles.chipTextSelected]}>
+                      {t(`environments:sensors.types.${sensorType}`)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.label}>{t('environments:sensors.environment')}</Text>
+              <View style={styles.chipRow}>
+                {environments.map(env => (
+                  <TouchableOpacity
+                    key={env.id}
+                    style={[styles.chip, environmentId === env.id && styles.chipSelected]}
+                    onPress={() => setEnvironmentId(env.id)}
+                  >
+                    <Text style={[styles.chipText, environmentId === env.id && styles.chipTextSelected]}>
+                      {env.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </ScrollView>
+            <View style={styles.modalButtons}>
+              <Button
+                title={saving ? t('common:saving') : t('common:save')}
+                onPress={handleAddSensor}
+                disabled={saving}
+              />
+              <Button
+                title={t('common:cancel')}
+                onPress={() => {
+                  setModalVisible(false);
+                  resetForm();
+                }}
+                variant="secondary"
+              />
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  stateBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  stateDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  stateText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  description: {
+    fontSize: 13,
+    color: '#666',
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#C62828',
+    backgroundColor: '#FFEBEE',
+    padding: 8,
+    borderRadius: 6,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    backgroundColor: '#2E7D32',
+    borderColor: '#2E7D32',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rowItem: {
+    flex: 1,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  statBox: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  statValueWarning: {
+    color: '#FF9800',
+  },
+  statLabel: {
+    fontSize: 11,
+    color: '#999',
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  sensorItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  sensorInfo: {
+    flex: 1,
+  },
+  sensorName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sensorMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  sensorLast: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  sensorActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  addButton: {
+    marginTop: 8,
+    backgroundColor: '#2E7D32',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 16,
+  },
+  modalButtons: {
+    gap: 8,
+    marginTop: 8,
+  },
+});
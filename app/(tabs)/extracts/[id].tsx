@@ -12,20 +12,24 @@ import {
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 import { useAuth } from '../../../contexts/AuthContext';
+import { usePermissions } from '../../../hooks/usePermissions';
 import {
   getExtract,
-  updateExtract,
-  deleteExtract,
   getHarvest,
   getPatientDistributions,
   getUserDistributions,
 } from '../../../firebase/firestore';
+import { updateExtractWithAudit, deleteExtractWithAudit } from '../../../firebase/auditedFirestore';
+import { getBatchCoa } from '../../../firebase/labAnalyses';
+import { BatchCoa } from '../../../utils/labAnalysis';
 import { Extract, ExtractType, ExtractionMethod, Harvest, Distribution } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
 import { Input } from '../../../components/Input';
 import { Loading } from '../../../components/Loading';
 import { AuditHistoryModal } from '../../../components/AuditHistoryModal';
+import { BatchCoaCard } from '../../../components/BatchCoaCard';
+import { RecallBanner } from '../../../components/RecallBanner';
 import { format, differenceInDays } from 'date-fns';
 import { Ionicons } from '@expo/vector-icons';
 
@@ -54,6 +58,7 @@ export default function ExtractDetailScreen() {
   const [extract, setExtract] = useState<Extract | null>(null);
   const [sourceHarvests, setSourceHarvests] = useState<Harvest[]>([]);
   const [distributions, setDistributions] = useState<Distribution[]>([]);
+  const [coa, setCoa] = useState<BatchCoa | null>(null);
   const [loading, setLoading] = useState(true);
   const [editModalVisible, setEditModalVisible] = useState(false);
   const [auditHistoryVisible, setAuditHistoryVisible] = useState(false);
@@ -64,6 +69,7 @@ export default function ExtractDetailScreen() {
   const [editNotes, setEditNotes] = useState('');
 
   const { userData } = useAuth();
+  const { canManageHarvests, canManageDistributions } = usePermissions();
   const router = useRouter();
 
   const loadData = async () => {
@@ -87,6 +93,7 @@ export default function ExtractDetailScreen() {
           const allDistributions = await getUserDistributions(userData.uid);
           const extractDistributions = allDistributions.filter(d => d.extractId === id);
           setDistributions(extractDistributions);
+          setCoa(await getBatchCoa('extract', id, userData.uid, extractData.associationId));
         }
       }
     } catch (error: any) {
@@ -113,14 +120,14 @@ export default function ExtractDetailScreen() {
   };
 
   const handleSaveEdit = async () => {
-    if (!extract) return;
+    if (!extract || !userData) return;
 
     try {
-      await updateExtract(extract.id, {
+      await updateExtractWithAudit(extract.id, {
         name: editName.trim(),
         storageLocation: editStorageLocation.trim() || undefined,
         notes: editNotes.trim() || undefined,
-      });
+      }, userData.uid, userData.email);
 
       setExtract({
         ...extract,
@@ -147,8 +154,9 @@ export default function ExtractDetailScreen() {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
+            if (!userData) return;
             try {
-              await deleteExtract(id as string);
+              await deleteExtractWithAudit(id as string, userData.uid, userData.email);
               Alert.alert('Success', 'Extract deleted successfully', [
                 { text: 'OK', onPress: () => router.back() },
               ]);
@@ -207,6 +215,10 @@ export default function ExtractDetailScreen() {
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView contentContainerStyle={styles.scrollContent}>
+        {extract.recallId && (
+          <RecallBanner onViewRecall={() => router.push(`/(tabs)/admin/recalls/${extract.recallId}`)} />
+        )}
+
         {/* Header */}
         <Card>
           <View style={styles.header}>
@@ -348,17 +360,16 @@ export default function ExtractDetailScreen() {
           ))}
         </Card>
 
-        {/* Lab Analysis Placeholder */}
-        <Card>
-          <View style={styles.sectionHeader}>
-            <Ionicons name="analytics" size={20} color="#FF5722" />
-            <Text style={styles.sectionTitle}>Lab Analysis</Text>
-          </View>
-          <View style={styles.placeholderContent}>
-            <Ionicons name="flask-outline" size={40} color="#ccc" />
-            <Text style={styles.placeholderText}>Lab analysis coming in Phase 5</Text>
-          </View>
-        </Card>
+        {/* Lab Analysis */}
+        {coa && (
+          <BatchCoaCard
+            coa={coa}
+            onViewAnalysis={(analysisId) => router.push(`/(tabs)/lab-analyses/${analysisId}`)}
+            onAddAnalysis={canManageHarvests
+              ? () => router.push(`/(tabs)/lab-analyses/new?extractId=${extract.id}`)
+              : undefined}
+          />
+        )}
 
         {/* Distribution History */}
         <Card>
@@ -427,6 +438,26 @@ export default function ExtractDetailScreen() {
           </View>
         </Card>
 
+        {/* Traceability Button */}
+        <TouchableOpacity
+          style={styles.historyButton}
+          onPress={() => router.push(`/(tabs)/admin/traceability?controlNumber=${extract.controlNumber}`)}
+        >
+          <Ionicons name="git-network-outline" size={20} color="#607D8B" />
+          <Text style={styles.historyButtonText}>Trace Seed-to-Sale</Text>
+        </TouchableOpacity>
+
+        {/* Recall Button */}
+        {canManageDistributions && !extract.recallId && (
+          <TouchableOpacity
+            style={styles.historyButton}
+            onPress={() => router.push(`/(tabs)/admin/recalls/new?extractId=${extract.id}`)}
+          >
+            <Ionicons name="alert-circle-outline" size={20} color="#F44336" />
+            <Text style={[styles.historyButtonText, { color: '#F44336' }]}>Recall Batch</Text>
+          </TouchableOpacity>
+        )}
+
         {/* View History Button */}
         <TouchableOpacity
           style={styles.historyButton}
@@ -438,11 +469,13 @@ export default function ExtractDetailScreen() {
 
         {/* Actions */}
         <View style={styles.actions}>
-          <Button
-            title="Distribute Extract"
-            onPress={handleDistribute}
-            style={styles.distributeButton}
-          />
+          {!extract.recallId && (
+            <Button
+              title="Distribute Extract"
+              onPress={handleDistribute}
+              style={styles.distributeButton}
+            />
+          )}
           <View style={styles.actionRow}>
             <Button
               title="Edit"
@@ -467,6 +500,7 @@ export default function ExtractDetailScreen() {
         entityType="extract"
         entityId={id as string}
         entityDisplayName={extract?.controlNumber || extract?.name}
+        onRestored={loadData}
       />
 
       {/* Edit Modal */}
@@ -699,16 +733,6 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
-  // Placeholder
-  placeholderContent: {
-    alignItems: 'center',
-    paddingVertical: 24,
-  },
-  placeholderText: {
-    fontSize: 14,
-    color: '#999',
-    marginTop: 8,
-  },
   // Distribution
   distributionStats: {
     flexDirection: 'row',
@@ -13,9 +13,10 @@ import {
 import { useRouter } from 'expo-router';
 import { useAuth } from '../../../contexts/AuthContext';
 import {
-  createExtract,
   getHarvestsForContext,
 } from '../../../firebase/firestore';
+import { createExtractWithAudit } from '../../../firebase/auditedFirestore';
+import { getHarvestAvailableGrams } from '../../../firebase/inventory';
 import { Harvest, ExtractType, ExtractionMethod } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
@@ -124,7 +125,7 @@ export default function NewExtractScreen() {
           totalWeight = h.wetWeightGrams;
         }
         
-        const usedWeight = (h.distributedGrams || 0) + (h.extractedGrams || 0);
+        const usedWeight = (h.distributedGrams || 0) + (h.extractedGrams || 0) + (h.wastedGrams || 0) + (h.adjustedGrams || 0);
         const availableWeight = totalWeight - usedWeight;
         
         console.log(`[NewExtract] Harvest ${h.controlNumber}: status=${h.status}, total=${totalWeight}g, used=${usedWeight}g, available=${availableWeight}g`);
@@ -163,8 +164,7 @@ export default function NewExtractScreen() {
   };
 
   const getAvailableWeight = (harvest: Harvest): number => {
-    const totalWeight = getHarvestTotalWeight(harvest);
-    return totalWeight - (harvest.distributedGrams || 0) - (harvest.extractedGrams || 0);
+    return getHarvestAvailableGrams(harvest);
   };
 
   const getHarvestWeightDisplay = (harvest: Harvest): string => {
@@ -264,7 +264,7 @@ export default function NewExtractScreen() {
         extractData.associationId = currentAssociation.id;
       }
       
-      await createExtract(extractData);
+      await createExtractWithAudit(extractData, userData.email);
 
       showSuccess('Extract created successfully!', 'Success', () => router.back());
     } catch (error: any) {
@@ -13,7 +13,8 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../../../contexts/AuthContext';
-import { getSeedGenetic, updateSeedGenetic, deleteSeedGenetic } from '../../../firebase/firestore';
+import { getSeedGenetic } from '../../../firebase/firestore';
+import { updateSeedGeneticWithAudit, deleteSeedGeneticWithAudit } from '../../../firebase/auditedFirestore';
 import { 
   SeedGenetic,
   GeneticGeneration, 
@@ -163,7 +164,7 @@ export default function GeneticDetailScreen() {
   const { confirm } = useConfirm();
 
   const handleSave = async () => {
-    if (!id || !genetic) return;
+    if (!id || !genetic || !userData) return;
 
     if (!name.trim()) {
       showWarning(t('errors.nameRequired'), t('common:error'));
@@ -173,7 +174,7 @@ export default function GeneticDetailScreen() {
     setSubmitting(true);
 
     try {
-      await updateSeedGenetic(id, {
+      await updateSeedGeneticWithAudit(id, {
         name: name.trim(),
         breeder: breeder.trim() || undefined,
         seedBank: seedBank.trim() || undefined,
@@ -193,7 +194,7 @@ export default function GeneticDetailScreen() {
         heightOutdoor: heightOutdoor.trim() || undefined,
         description: description.trim() || undefined,
         notes: notes.trim() || undefined,
-      });
+      }, userData.uid, userData.email);
 
       showSuccess(t('detail.updateSuccess'), t('common:success'));
       setEditing(false);
@@ -214,8 +215,9 @@ export default function GeneticDetailScreen() {
       cancelText: t('common:cancel'),
       type: 'destructive',
       onConfirm: async () => {
+        if (!userData) return;
         try {
-          await deleteSeedGenetic(id!);
+          await deleteSeedGeneticWithAudit(id!, userData.uid, userData.email);
           showSuccess(t('detail.deleteSuccess'), t('common:success'), () => router.back());
         } catch (error: any) {
           console.error('[GeneticDetail] Error deleting genetic:', error);
@@ -35,6 +35,24 @@ export default function GeneticsLayout() {
           title: t('detail.title'),
         }}
       />
+      <Stack.Screen
+        name="schedules/index"
+        options={{
+          title: t('schedules.title'),
+        }}
+      />
+      <Stack.Screen
+        name="schedules/new"
+        options={{
+          title: t('schedules.newSchedule'),
+        }}
+      />
+      <Stack.Screen
+        name="schedules/[id]"
+        options={{
+          title: t('schedules.detailTitle'),
+        }}
+      />
     </Stack>
   );
 }
@@ -298,12 +298,20 @@ export default function GeneticsScreen() {
         )}
       </View>
 
-      {/* Add Genetic Button */}
-      <Button
-        title={t('addGenetic')}
-        onPress={() => router.push('/(tabs)/genetics/new')}
-        style={styles.addButton}
-      />
+      {/* Feed Schedules & Add Genetic Buttons */}
+      <View style={styles.footerButtons}>
+        <Button
+          title={t('schedules.manage')}
+          onPress={() => router.push('/(tabs)/genetics/schedules')}
+          variant="outline"
+          style={styles.footerButton}
+        />
+        <Button
+          title={t('addGenetic')}
+          onPress={() => router.push('/(tabs)/genetics/new')}
+          style={styles.addButton}
+        />
+      </View>
     </SafeAreaView>
   );
 }
@@ -459,8 +467,16 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: 32,
   },
-  addButton: {
+  footerButtons: {
+    flexDirection: 'row',
+    gap: 12,
     margin: 16,
+  },
+  footerButton: {
+    flex: 1,
+  },
+  addButton: {
+    flex: 1,
     backgroundColor: '#8BC34A',
   },
   terpeneRow: {
@@ -12,7 +12,8 @@ import {
 import { useRouter } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../../../contexts/AuthContext';
-import { createSeedGenetic } from '../../../firebase/firestore';
+import { createSeedGeneticWithAudit } from '../../../firebase/auditedFirestore';
+
 import { 
   GeneticGeneration, 
   SeedType, 
@@ -145,7 +146,7 @@ export default function NewGeneticScreen() {
         geneticData.associationId = currentAssociation.id;
       }
       
-      await createSeedGenetic(geneticData);
+      await createSeedGeneticWithAudit(geneticData, userData.email);
 
       showSuccess(t('form.createSuccess'), t('common:success'), () => router.back());
     } catch (error: any) {
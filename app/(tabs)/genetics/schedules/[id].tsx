@@ -0,0 +1,424 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../../../../contexts/AuthContext';
+import { useConfirm } from '../../../../contexts/ConfirmContext';
+import { usePermissions } from '../../../../hooks/usePermissions';
+import {
+  getEnvironment,
+  getPlantsForContext,
+  getSeedGenetic,
+} from '../../../../firebase/firestore';
+import { getNutrientSchedule, getScheduleFeedLogs } from '../../../../firebase/nutrientSchedules';
+import { deleteNutrientScheduleWithAudit } from '../../../../firebase/auditedFirestore';
+import { FeedDriftEntry, NutrientSchedule, Plant, TargetRange } from '../../../../types';
+import { getFeedDrift, sortScheduleWeeks, summarizeFeedDrift } from '../../../../utils/feedSchedules';
+import { Card } from '../../../../components/Card';
+import { Button } from '../../../../components/Button';
+import { Loading } from '../../../../components/Loading';
+import { showSuccess, showError } from '../../../../utils/toast';
+
+const formatRange = (range?: TargetRange, decimals: number = 0): string => {
+  return range ? `${range.min.toFixed(decimals)}–${range.max.toFixed(decimals)}` : '—';
+};
+
+const formatDrift = (value: number | undefined, decimals: number): string => {
+  if (value === undefined) {
+    return '—';
+  }
+  return `${value > 0 ? '+' : ''}${value.toFixed(decimals)}`;
+};
+
+export default function NutrientScheduleDetailScreen() {
+  const { t } = useTranslation(['genetics', 'common']);
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { userData, currentAssociation } = useAuth();
+  const { canManagePlants } = usePermissions();
+  const { confirm } = useConfirm();
+  const router = useRouter();
+
+  const [schedule, setSchedule] = useState<NutrientSchedule | null>(null);
+  const [attachmentName, setAttachmentName] = useState<string | null>(null);
+  const [drift, setDrift] = useState<FeedDriftEntry[]>([]);
+  const [plants, setPlants] = useState<Plant[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadSchedule = async () => {
+    if (!userData || !id) return;
+
+    try {
+      const data = await getNutrientSchedule(id);
+      setSchedule(data);
+      if (!data) return;
+
+      const [attachment, feedLogs, contextPlants] = await Promise.all([
+        data.seedGeneticId
+          ? getSeedGenetic(data.seedGeneticId)
+          : data.environmentId
+            ? getEnvironment(data.environmentId)
+            : Promise.resolve(null),
+        getScheduleFeedLogs(data),
+        getPlantsForContext(userData.uid, currentAssociation?.id, true),
+      ]);
+      setAttachmentName(attachment?.name || null);
+      setDrift(getFeedDrift(feedLogs));
+      setPlants(contextPlants);
+    } catch (error) {
+      console.error('[NutrientSchedules] Error loading schedule:', error);
+      showError(t('schedules.errors.failedToLoad'), t('common:error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSchedule();
+    }, [id, userData, currentAssociation])
+  );
+
+  const handleDelete = () => {
+    if (!schedule || !userData) return;
+
+    confirm({
+      title: t('schedules.deleteTitle'),
+      message: t('schedules.deleteConfirm'),
+      confirmText: t('common:delete'),
+      cancelText: t('common:cancel'),
+      type: 'destructive',
+      onConfirm: async () => {
+        try {
+          await deleteNutrientScheduleWithAudit(schedule.id, userData.uid, userData.email);
+          showSuccess(t('schedules.deleted'), t('common:success'));
+          router.back();
+        } catch (error: any) {
+          showError(error.message || t('schedules.errors.failedToDelete'), t('common:error'));
+        }
+      },
+    });
+  };
+
+  if (loading) {
+    return <Loading message={t('common:loading')} />;
+  }
+
+  if (!schedule) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>{t('schedules.errors.failedToLoad')}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const summary = summarizeFeedDrift(drift);
+  const plantLabel = (plantId: string) => {
+    const plant = plants.find(p => p.id === plantId);
+    return plant ? `#${plant.controlNumber} ${plant.strain}` : plantId;
+  };
+  const attachmentLabel = schedule.seedGeneticId
+    ? `${t('schedules.genetic')}: ${attachmentName || '—'}`
+    : schedule.environmentId
+      ? `${t('schedules.environment')}: ${attachmentName || '—'}`
+      : t('schedules.notAttached');
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {/* Header */}
+        <Card>
+          <Text style={styles.title}>{schedule.name}</Text>
+          <View style={styles.metaRow}>
+            <Ionicons name="link" size={14} color="#666" />
+            <Text style={styles.metaText}>{attachmentLabel}</Text>
+          </View>
+          {schedule.description ? (
+            <Text style={styles.description}>{schedule.description}</Text>
+          ) : null}
+        </Card>
+
+        {/* Weeks */}
+        <Card>
+          <Text style={styles.sectionTitle}>
+            {t('schedules.form.weeks')} ({schedule.weeks.length})
+          </Text>
+          {sortScheduleWeeks(schedule.weeks).map(week => (
+            <View key={`${week.stage}-${week.week}`} style={styles.weekItem}>
+              <View style={styles.weekHeader}>
+                <Text style={styles.weekTitle}>
+                  {t(`common:stages.${week.stage.toLowerCase()}`)} · {t('schedules.weekLabel', { week: week.week })}
+                </Text>
+                <Text style={styles.weekTargets}>
+                  pH {formatRange(week.targetPh, 1)} · EC {formatRange(week.targetEcPpm)}
+                </Text>
+              </View>
+              {week.nutrients.map((nutrient, index) => (
+                <Text key={index} style={styles.nutrientText}>
+                  • {nutrient.name}
+                  {nutrient.brand ? ` (${nutrient.brand})` : ''}
+                  {nutrient.amountMl !== undefined ? ` — ${nutrient.amountMl} ml/L` : ''}
+                </Text>
+              ))}
+              {week.notes ? <Text style={styles.weekNotes}>{week.notes}</Text> : null}
+            </View>
+          ))}
+        </Card>
+
+        {/* Drift report */}
+        <Card>
+          <Text style={styles.sectionTitle}>{t('schedules.drift.title')}</Text>
+          <Text style={styles.description}>{t('schedules.drift.description')}</Text>
+
+          {drift.length === 0 ? (
+            <Text style={styles.emptyDrift}>{t('schedules.drift.noFeeds')}</Text>
+          ) : (
+            <>
+              <View style={styles.statsGrid}>
+                <View style={styles.statBox}>
+                  <Text style={styles.statValue}>{summary.feeds}</Text>
+                  <Text style={styles.statLabel}>{t('schedules.drift.feeds')}</Text>
+                </View>
+                <View style={styles.statBox}>
+                  <Text style={styles.statValue}>{formatDrift(summary.avgPhDrift, 2)}</Text>
+                  <Text style={styles.statLabel}>{t('schedules.drift.avgPhDrift')}</Text>
+                </View>
+                <View style={styles.statBox}>
+                  <Text style={styles.statValue}>{formatDrift(summary.avgEcDrift, 0)}</Text>
+                  <Text style={styles.statLabel}>{t('schedules.drift.avgEcDrift')}</Text>
+                </View>
+              </View>
+              <View style={styles.statsGrid}>
+                <View style={styles.statBox}>
+                  <Text style={styles.statValue}>
+                    {summary.phInRangePercent !== undefined ? `${summary.phInRangePercent}%` : '—'}
+                  </Text>
+                  <Text style={styles.statLabel}>{t('schedules.drift.phInRange')}</Text>
+                </View>
+                <View style={styles.statBox}>
+                  <Text style={styles.statValue}>
+                    {summary.ecInRangePercent !== undefined ? `${summary.ecInRangePercent}%` : '—'}
+                  </Text>
+                  <Text style={styles.statLabel}>{t('schedules.drift.ecInRange')}</Text>
+                </View>
+              </View>
+
+              {drift.map(entry => (
+                <View key={entry.logId} style={styles.driftItem}>
+                  <View style={styles.driftHeader}>
+                    <Text style={styles.driftPlant}>{plantLabel(entry.plantId)}</Text>
+                    <Text style={styles.driftDate}>{format(new Date(entry.date), 'MMM dd, yyyy')}</Text>
+                  </View>
+                  <Text style={styles.driftWeek}>
+                    {t(`common:stages.${entry.stage.toLowerCase()}`)} · {t('schedules.weekLabel', { week: entry.week })}
+                  </Text>
+                  <View style={styles.driftRow}>
+                    <Text style={styles.driftLabel}>pH</Text>
+                    <Text style={styles.driftPlan}>
+                      {t('schedules.drift.plan')} {formatRange(entry.targetPh, 1)}
+                    </Text>
+                    <Text style={[styles.driftActual, entry.phInRange === false && styles.driftOut]}>
+                      {t('schedules.drift.actual')} {entry.phLevel ?? '—'} ({formatDrift(entry.phDrift, 2)})
+                    </Text>
+                  </View>
+                  <View style={styles.driftRow}>
+                    <Text style={styles.driftLabel}>EC</Text>
+                    <Text style={styles.driftPlan}>
+                      {t('schedules.drift.plan')} {formatRange(entry.targetEcPpm)}
+                    </Text>
+                    <Text style={[styles.driftActual, entry.ecInRange === false && styles.driftOut]}>
+                      {t('schedules.drift.actual')} {entry.ecPpm ?? '—'} ({formatDrift(entry.ecDrift, 0)})
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </>
+          )}
+        </Card>
+
+        {canManagePlants && (
+          <>
+            <Button
+              title={t('schedules.editSchedule')}
+              onPress={() => router.push(`/(tabs)/genetics/schedules/new?id=${schedule.id}`)}
+              style={styles.editButton}
+            />
+            <Button
+              title={t('common:delete')}
+              onPress={handleDelete}
+              variant="danger"
+            />
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  metaText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  description: {
+    fontSize: 13,
+    color: '#666',
+    lineHeight: 18,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  weekItem: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  weekHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  weekTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#558B2F',
+  },
+  weekTargets: {
+    fontSize: 12,
+    color: '#666',
+  },
+  nutrientText: {
+    fontSize: 13,
+    color: '#333',
+    marginTop: 2,
+  },
+  weekNotes: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  emptyDrift: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  statBox: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  statLabel: {
+    fontSize: 11,
+    color: '#999',
+    textAlign: 'center',
+  },
+  driftItem: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    marginTop: 12,
+  },
+  driftHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  driftPlant: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  driftDate: {
+    fontSize: 12,
+    color: '#999',
+  },
+  driftWeek: {
+    fontSize: 12,
+    color: '#558B2F',
+    marginTop: 2,
+    marginBottom: 4,
+  },
+  driftRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 2,
+  },
+  driftLabel: {
+    width: 24,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  driftPlan: {
+    flex: 1,
+    fontSize: 12,
+    color: '#666',
+  },
+  driftActual: {
+    flex: 1,
+    fontSize: 12,
+    color: '#333',
+    textAlign: 'right',
+  },
+  driftOut: {
+    color: '#F44336',
+    fontWeight: '600',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+  },
+  editButton: {
+    backgroundColor: '#8BC34A',
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,219 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../../../../contexts/AuthContext';
+import { usePermissions } from '../../../../hooks/usePermissions';
+import { getEnvironmentsForContext, getSeedGeneticsForContext } from '../../../../firebase/firestore';
+import { getNutrientSchedulesForContext } from '../../../../firebase/nutrientSchedules';
+import { Environment, NutrientSchedule, SeedGenetic } from '../../../../types';
+import { Card } from '../../../../components/Card';
+import { Button } from '../../../../components/Button';
+import { Loading } from '../../../../components/Loading';
+import { showError } from '../../../../utils/toast';
+
+export default function NutrientSchedulesScreen() {
+  const { t } = useTranslation(['genetics', 'common']);
+  const [schedules, setSchedules] = useState<NutrientSchedule[]>([]);
+  const [genetics, setGenetics] = useState<SeedGenetic[]>([]);
+  const [environments, setEnvironments] = useState<Environment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const { userData, currentAssociation } = useAuth();
+  const { canManagePlants } = usePermissions();
+  const router = useRouter();
+
+  const loadSchedules = async () => {
+    if (!userData) return;
+
+    try {
+      const [scheduleList, geneticList, environmentList] = await Promise.all([
+        getNutrientSchedulesForContext(userData.uid, currentAssociation?.id),
+        getSeedGeneticsForContext(userData.uid, currentAssociation?.id),
+        getEnvironmentsForContext(userData.uid, currentAssociation?.id),
+      ]);
+      setSchedules(scheduleList);
+      setGenetics(geneticList);
+      setEnvironments(environmentList);
+    } catch (error) {
+      console.error('[NutrientSchedules] Error loading schedules:', error);
+      showError(t('schedules.errors.failedToLoad'), t('common:error'));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSchedules();
+    }, [userData, currentAssociation])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadSchedules();
+  };
+
+  const getAttachmentLabel = (schedule: NutrientSchedule): string => {
+    if (schedule.seedGeneticId) {
+      const genetic = genetics.find(g => g.id === schedule.seedGeneticId);
+      return `${t('schedules.genetic')}: ${genetic?.name || '—'}`;
+    }
+    if (schedule.environmentId) {
+      const environment = environments.find(env => env.id === schedule.environmentId);
+      return `${t('schedules.environment')}: ${environment?.name || '—'}`;
+    }
+    return t('schedules.notAttached');
+  };
+
+  const renderSchedule = ({ item }: { item: NutrientSchedule }) => (
+    <TouchableOpacity onPress={() => router.push(`/(tabs)/genetics/schedules/${item.id}`)}>
+      <Card style={styles.scheduleCard}>
+        <View style={styles.scheduleHeader}>
+          <View style={styles.iconContainer}>
+            <Ionicons name="flask" size={22} color="#8BC34A" />
+          </View>
+          <View style={styles.scheduleInfo}>
+            <Text style={styles.scheduleName}>{item.name}</Text>
+            <Text style={styles.scheduleMeta}>{getAttachmentLabel(item)}</Text>
+          </View>
+          <View style={styles.weeksBadge}>
+            <Text style={styles.weeksBadgeText}>
+              {t('schedules.weeksCount', { count: item.weeks.length })}
+            </Text>
+          </View>
+        </View>
+        {item.description ? (
+          <Text style={styles.scheduleDescription} numberOfLines={2}>{item.description}</Text>
+        ) : null}
+      </Card>
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return <Loading message={t('common:loading')} />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        {schedules.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="flask-outline" size={64} color="#ccc" />
+            <Text style={styles.emptyText}>{t('schedules.noSchedules')}</Text>
+            <Text style={styles.emptySubtext}>{t('schedules.createFirst')}</Text>
+          </View>
+        ) : (
+          <FlatList
+            data={schedules}
+            keyExtractor={(item) => item.id}
+            renderItem={renderSchedule}
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+            }
+            contentContainerStyle={styles.list}
+          />
+        )}
+      </View>
+
+      {canManagePlants && (
+        <Button
+          title={t('schedules.addSchedule')}
+          onPress={() => router.push('/(tabs)/genetics/schedules/new')}
+          style={styles.addButton}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    flex: 1,
+  },
+  list: {
+    padding: 16,
+  },
+  scheduleCard: {
+    marginBottom: 12,
+  },
+  scheduleHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#8BC34A20',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scheduleInfo: {
+    flex: 1,
+  },
+  scheduleName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  scheduleMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  scheduleDescription: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 8,
+  },
+  weeksBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#F1F8E9',
+  },
+  weeksBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#558B2F',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#999',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#bbb',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  addButton: {
+    margin: 16,
+    backgroundColor: '#8BC34A',
+  },
+});
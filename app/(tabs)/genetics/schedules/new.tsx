@@ -0,0 +1,616 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../../../../contexts/AuthContext';
+import { getEnvironmentsForContext, getSeedGeneticsForContext } from '../../../../firebase/firestore';
+import { getNutrientSchedule } from '../../../../firebase/nutrientSchedules';
+import {
+  createNutrientScheduleWithAudit,
+  updateNutrientScheduleWithAudit,
+} from '../../../../firebase/auditedFirestore';
+import {
+  Environment,
+  NutrientEntry,
+  NutrientScheduleWeek,
+  SeedGenetic,
+  StageName,
+  TargetRange,
+} from '../../../../types';
+import { SCHEDULE_STAGES, sortScheduleWeeks } from '../../../../utils/feedSchedules';
+import { Card } from '../../../../components/Card';
+import { Button } from '../../../../components/Button';
+import { Input } from '../../../../components/Input';
+import { Loading } from '../../../../components/Loading';
+import { showSuccess, showError, showWarning } from '../../../../utils/toast';
+
+type AttachmentType = 'none' | 'genetic' | 'environment';
+
+interface DraftNutrient {
+  name: string;
+  brand: string;
+  dose: string;
+}
+
+interface DraftWeek {
+  key: string;
+  stage: StageName;
+  phMin: string;
+  phMax: string;
+  ecMin: string;
+  ecMax: string;
+  notes: string;
+  nutrients: DraftNutrient[];
+}
+
+const emptyNutrient = (): DraftNutrient => ({ name: '', brand: '', dose: '' });
+
+const createDraftWeek = (stage: StageName): DraftWeek => ({
+  key: `${Date.now()}-${Math.random()}`,
+  stage,
+  phMin: '',
+  phMax: '',
+  ecMin: '',
+  ecMax: '',
+  notes: '',
+  nutrients: [emptyNutrient()],
+});
+
+const toDraftWeek = (week: NutrientScheduleWeek): DraftWeek => ({
+  key: `${week.stage}-${week.week}`,
+  stage: week.stage,
+  phMin: week.targetPh?.min.toString() || '',
+  phMax: week.targetPh?.max.toString() || '',
+  ecMin: week.targetEcPpm?.min.toString() || '',
+  ecMax: week.targetEcPpm?.max.toString() || '',
+  notes: week.notes || '',
+  nutrients: week.nutrients.map(nutrient => ({
+    name: nutrient.name,
+    brand: nutrient.brand || '',
+    dose: nutrient.amountMl?.toString() || '',
+  })),
+});
+
+const parseRange = (min: string, max: string): TargetRange | undefined | null => {
+  if (!min && !max) {
+    return undefined;
+  }
+  const range = { min: parseFloat(min || max), max: parseFloat(max || min) };
+  if (isNaN(range.min) || isNaN(range.max) || range.min > range.max) {
+    return null;
+  }
+  return range;
+};
+
+export default function NutrientScheduleFormScreen() {
+  const { t } = useTranslation(['genetics', 'common']);
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const isEditing = !!id;
+  const { userData, currentAssociation } = useAuth();
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [genetics, setGenetics] = useState<SeedGenetic[]>([]);
+  const [environments, setEnvironments] = useState<Environment[]>([]);
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [attachmentType, setAttachmentType] = useState<AttachmentType>('none');
+  const [seedGeneticId, setSeedGeneticId] = useState<string | undefined>();
+  const [environmentId, setEnvironmentId] = useState<string | undefined>();
+  const [weeks, setWeeks] = useState<DraftWeek[]>([createDraftWeek('Veg')]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!userData) return;
+
+      try {
+        const [geneticList, environmentList, schedule] = await Promise.all([
+          getSeedGeneticsForContext(userData.uid, currentAssociation?.id),
+          getEnvironmentsForContext(userData.uid, currentAssociation?.id),
+          id ? getNutrientSchedule(id) : Promise.resolve(null),
+        ]);
+        setGenetics(geneticList);
+        setEnvironments(environmentList);
+
+        if (schedule) {
+          setName(schedule.name);
+          setDescription(schedule.description || '');
+          setSeedGeneticId(schedule.seedGeneticId);
+          setEnvironmentId(schedule.environmentId);
+          setAttachmentType(schedule.seedGeneticId ? 'genetic' : schedule.environmentId ? 'environment' : 'none');
+          setWeeks(sortScheduleWeeks(schedule.weeks).map(toDraftWeek));
+        }
+      } catch (error) {
+        console.error('[NutrientSchedules] Error loading form data:', error);
+        showError(t('schedules.errors.failedToLoad'), t('common:error'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [userData, currentAssociation, id]);
+
+  const updateWeek = (key: string, changes: Partial<DraftWeek>) => {
+    setWeeks(current => current.map(week => (week.key === key ? { ...week, ...changes } : week)));
+  };
+
+  const updateNutrient = (key: string, index: number, changes: Partial<DraftNutrient>) => {
+    setWeeks(current => current.map(week => (
+      week.key === key
+        ? { ...week, nutrients: week.nutrients.map((n, i) => (i === index ? { ...n, ...changes } : n)) }
+        : week
+    )));
+  };
+
+  const addWeek = () => {
+    // New weeks continue from the stage of the last one
+    const lastStage = weeks.length > 0 ? weeks[weeks.length - 1].stage : 'Veg';
+    setWeeks([...weeks, createDraftWeek(lastStage)]);
+  };
+
+  // Week numbers are counted per stage, in the order the weeks are listed
+  const getWeekNumber = (index: number): number => {
+    return weeks.slice(0, index + 1).filter(week => week.stage === weeks[index].stage).length;
+  };
+
+  const handleSubmit = async () => {
+    if (!userData) return;
+
+    if (!name.trim()) {
+      showWarning(t('schedules.errors.nameRequired'), t('common:error'));
+      return;
+    }
+    if (weeks.length === 0) {
+      showWarning(t('schedules.errors.weeksRequired'), t('common:error'));
+      return;
+    }
+
+    const scheduleWeeks: NutrientScheduleWeek[] = [];
+    for (let index = 0; index < weeks.length; index++) {
+      const draft = weeks[index];
+      const targetPh = parseRange(draft.phMin, draft.phMax);
+      const targetEcPpm = parseRange(draft.ecMin, draft.ecMax);
+
+      if (targetPh === null || targetEcPpm === null) {
+        showWarning(t('schedules.errors.invalidRange'), t('common:error'));
+        return;
+      }
+
+      const nutrients: NutrientEntry[] = draft.nutrients
+        .filter(nutrient => nutrient.name.trim())
+        .map(nutrient => ({
+          name: nutrient.name.trim(),
+          ...(nutrient.brand.trim() && { brand: nutrient.brand.trim() }),
+          ...(nutrient.dose && !isNaN(parseFloat(nutrient.dose)) && { amountMl: parseFloat(nutrient.dose) }),
+        }));
+
+      scheduleWeeks.push({
+        stage: draft.stage,
+        week: getWeekNumber(index),
+        nutrients,
+        targetPh,
+        targetEcPpm,
+        notes: draft.notes.trim() || undefined,
+      });
+    }
+
+    const attachment = {
+      seedGeneticId: attachmentType === 'genetic' ? seedGeneticId : undefined,
+      environmentId: attachmentType === 'environment' ? environmentId : undefined,
+    };
+
+    setSubmitting(true);
+    try {
+      if (isEditing) {
+        await updateNutrientScheduleWithAudit(id!, {
+          name: name.trim(),
+          description: description.trim() || undefined,
+          ...attachment,
+          weeks: scheduleWeeks,
+        }, userData.uid, userData.email);
+        showSuccess(t('schedules.updated'), t('common:success'));
+        router.back();
+      } else {
+        const scheduleId = await createNutrientScheduleWithAudit({
+          userId: userData.uid,
+          associationId: currentAssociation?.id,
+          name: name.trim(),
+          description: description.trim() || undefined,
+          ...attachment,
+          weeks: scheduleWeeks,
+        }, userData.email);
+        showSuccess(t('schedules.created'), t('common:success'));
+        router.replace(`/(tabs)/genetics/schedules/${scheduleId}`);
+      }
+    } catch (error: any) {
+      console.error('[NutrientSchedules] Error saving schedule:', error);
+      showError(error.message || t('schedules.errors.failedToSave'), t('common:error'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <Loading message={t('common:loading')} />;
+  }
+
+  const attachmentOptions = attachmentType === 'genetic'
+    ? genetics.map(genetic => ({ id: genetic.id, name: genetic.name }))
+    : environments.map(environment => ({ id: environment.id, name: environment.name }));
+  const selectedAttachmentId = attachmentType === 'genetic' ? seedGeneticId : environmentId;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {/* Details */}
+          <Card>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="flask" size={20} color="#8BC34A" />
+              <Text style={styles.sectionTitle}>{t('schedules.form.details')}</Text>
+            </View>
+
+            <Input
+              label={t('schedules.form.nameLabel')}
+              value={name}
+              onChangeText={setName}
+              placeholder={t('schedules.form.namePlaceholder')}
+            />
+            <Input
+              label={`${t('schedules.form.descriptionLabel')} (${t('common:optional')})`}
+              value={description}
+              onChangeText={setDescription}
+              placeholder={t('schedules.form.descriptionPlaceholder')}
+              multiline
+              numberOfLines={2}
+            />
+
+            <Text style={styles.inputLabel}>{t('schedules.form.attachTo')}</Text>
+            <View style={styles.optionRow}>
+              {(['none', 'genetic', 'environment'] as AttachmentType[]).map(type => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.optionButton, attachmentType === type && styles.optionButtonActive]}
+                  onPress={() => setAttachmentType(type)}
+                >
+                  <Text style={[styles.optionText, attachmentType === type && styles.optionTextActive]}>
+                    {t(`schedules.${type}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {attachmentType !== 'none' && (
+              <View style={styles.chipGrid}>
+                {attachmentOptions.map(option => (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[styles.chip, selectedAttachmentId === option.id && styles.chipActive]}
+                    onPress={() => (attachmentType === 'genetic' ? setSeedGeneticId(option.id) : setEnvironmentId(option.id))}
+                  >
+                    <Text style={[styles.chipText, selectedAttachmentId === option.id && styles.chipTextActive]}>
+                      {option.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+            <Text style={styles.hint}>{t('schedules.form.attachHint')}</Text>
+          </Card>
+
+          {/* Weeks */}
+          <Text style={styles.weeksTitle}>{t('schedules.form.weeks')}</Text>
+
+          {weeks.map((week, index) => (
+            <Card key={week.key}>
+              <View style={styles.weekHeader}>
+                <Text style={styles.weekTitle}>
+                  {t(`common:stages.${week.stage.toLowerCase()}`)} · {t('schedules.weekLabel', { week: getWeekNumber(index) })}
+                </Text>
+                <TouchableOpacity onPress={() => setWeeks(weeks.filter(w => w.key !== week.key))}>
+                  <Ionicons name="trash-outline" size={20} color="#f44336" />
+                </TouchableOpacity>
+              </View>
+
+              <Text style={styles.inputLabel}>{t('schedules.form.stage')}</Text>
+              <View style={styles.optionRow}>
+                {SCHEDULE_STAGES.map(stage => (
+                  <TouchableOpacity
+                    key={stage}
+                    style={[styles.optionButton, week.stage === stage && styles.optionButtonActive]}
+                    onPress={() => updateWeek(week.key, { stage })}
+                  >
+                    <Text style={[styles.optionText, week.stage === stage && styles.optionTextActive]}>
+                      {t(`common:stages.${stage.toLowerCase()}`)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.inputLabel}>{t('schedules.form.targetPh')}</Text>
+              <View style={styles.rowInputs}>
+                <View style={styles.halfInput}>
+                  <Input
+                    label={t('schedules.form.min')}
+                    value={week.phMin}
+                    onChangeText={(phMin) => updateWeek(week.key, { phMin })}
+                    placeholder="5.8"
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+                <View style={styles.halfInput}>
+                  <Input
+                    label={t('schedules.form.max')}
+                    value={week.phMax}
+                    onChangeText={(phMax) => updateWeek(week.key, { phMax })}
+                    placeholder="6.2"
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              </View>
+
+              <Text style={styles.inputLabel}>{t('schedules.form.targetEc')}</Text>
+              <View style={styles.rowInputs}>
+                <View style={styles.halfInput}>
+                  <Input
+                    label={t('schedules.form.min')}
+                    value={week.ecMin}
+                    onChangeText={(ecMin) => updateWeek(week.key, { ecMin })}
+                    placeholder="800"
+                    keyboardType="numeric"
+                  />
+                </View>
+                <View style={styles.halfInput}>
+                  <Input
+                    label={t('schedules.form.max')}
+                    value={week.ecMax}
+                    onChangeText={(ecMax) => updateWeek(week.key, { ecMax })}
+                    placeholder="1000"
+                    keyboardType="numeric"
+                  />
+                </View>
+              </View>
+
+              <Text style={styles.inputLabel}>{t('schedules.form.nutrients')}</Text>
+              {week.nutrients.map((nutrient, nutrientIndex) => (
+                <View key={nutrientIndex} style={styles.nutrientRow}>
+                  <View style={styles.nutrientName}>
+                    <Input
+                      label={t('schedules.form.nutrientName')}
+                      value={nutrient.name}
+                      onChangeText={(value) => updateNutrient(week.key, nutrientIndex, { name: value })}
+                      placeholder="CalMag"
+                    />
+                  </View>
+                  <View style={styles.nutrientBrand}>
+                    <Input
+                      label={t('schedules.form.nutrientBrand')}
+                      value={nutrient.brand}
+                      onChangeText={(value) => updateNutrient(week.key, nutrientIndex, { brand: value })}
+                    />
+                  </View>
+                  <View style={styles.nutrientDose}>
+                    <Input
+                      label={t('schedules.form.nutrientDose')}
+                      value={nutrient.dose}
+                      onChangeText={(value) => updateNutrient(week.key, nutrientIndex, { dose: value })}
+                      placeholder="2"
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                  <TouchableOpacity
+                    style={styles.removeNutrient}
+                    onPress={() => updateWeek(week.key, {
+                      nutrients: week.nutrients.filter((_, i) => i !== nutrientIndex),
+                    })}
+                  >
+                    <Ionicons name="close-circle" size={22} color="#F44336" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <TouchableOpacity
+                style={styles.addNutrient}
+                onPress={() => updateWeek(week.key, { nutrients: [...week.nutrients, emptyNutrient()] })}
+              >
+                <Ionicons name="add-circle" size={20} color="#8BC34A" />
+                <Text style={styles.addNutrientText}>{t('schedules.form.nutrientName')}</Text>
+              </TouchableOpacity>
+
+              <Input
+                label={`${t('schedules.form.notes')} (${t('common:optional')})`}
+                value={week.notes}
+                onChangeText={(notes) => updateWeek(week.key, { notes })}
+              />
+            </Card>
+          ))}
+
+          <Button
+            title={t('schedules.form.addWeek')}
+            onPress={addWeek}
+            variant="outline"
+            style={styles.addWeekButton}
+          />
+
+          <Button
+            title={submitting ? t('common:saving') : t('schedules.form.save')}
+            onPress={handleSubmit}
+            disabled={submitting}
+            style={styles.submitButton}
+          />
+          <Button
+            title={t('common:cancel')}
+            onPress={() => router.back()}
+            variant="secondary"
+            disabled={submitting}
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    marginTop: 4,
+    color: '#333',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+    fontStyle: 'italic',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  optionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  optionButtonActive: {
+    backgroundColor: '#8BC34A',
+    borderColor: '#8BC34A',
+  },
+  optionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    textAlign: 'center',
+  },
+  optionTextActive: {
+    color: '#fff',
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+    backgroundColor: '#f5f5f5',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  chipActive: {
+    backgroundColor: '#8BC34A',
+    borderColor: '#8BC34A',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  weeksTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  weekHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  weekTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#558B2F',
+  },
+  rowInputs: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  halfInput: {
+    flex: 1,
+  },
+  nutrientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  nutrientName: {
+    flex: 3,
+  },
+  nutrientBrand: {
+    flex: 2,
+  },
+  nutrientDose: {
+    flex: 1.5,
+  },
+  removeNutrient: {
+    paddingTop: 8,
+  },
+  addNutrient: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 16,
+  },
+  addNutrientText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8BC34A',
+  },
+  addWeekButton: {
+    marginBottom: 16,
+  },
+  submitButton: {
+    backgroundColor: '#8BC34A',
+    marginBottom: 8,
+  },
+});
@@ -11,23 +11,29 @@ import {
   KeyboardAvoidingView,
   Platform,
   RefreshControl,
+  Image,
 } from 'react-native';
 import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router';
 import { useAuth } from '../../../contexts/AuthContext';
+import { usePermissions } from '../../../hooks/usePermissions';
 import {
   getHarvest,
   getPlant,
-  updateHarvest,
-  deleteHarvest,
   getHarvestDistributions,
   getHarvestExtracts,
 } from '../../../firebase/firestore';
+import { updateHarvestWithAudit, deleteHarvestWithAudit } from '../../../firebase/auditedFirestore';
+import { getHarvestAvailableGrams } from '../../../firebase/inventory';
+import { getBatchCoa } from '../../../firebase/labAnalyses';
+import { BatchCoa } from '../../../utils/labAnalysis';
 import { Harvest, Plant, HarvestStatus, HarvestPurpose, Distribution, Extract } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
 import { Input } from '../../../components/Input';
 import { Loading } from '../../../components/Loading';
 import { AuditHistoryModal } from '../../../components/AuditHistoryModal';
+import { BatchCoaCard } from '../../../components/BatchCoaCard';
+import { RecallBanner } from '../../../components/RecallBanner';
 import { format } from 'date-fns';
 import { Ionicons } from '@expo/vector-icons';
 
@@ -54,6 +60,7 @@ export default function HarvestDetailScreen() {
   const [plant, setPlant] = useState<Plant | null>(null);
   const [distributions, setDistributions] = useState<Distribution[]>([]);
   const [extracts, setExtracts] = useState<Extract[]>([]);
+  const [coa, setCoa] = useState<BatchCoa | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -71,6 +78,7 @@ export default function HarvestDetailScreen() {
   const [auditHistoryVisible, setAuditHistoryVisible] = useState(false);
 
   const { userData } = useAuth();
+  const { canManageHarvests, canManageDistributions } = usePermissions();
   const router = useRouter();
 
   const loadData = async () => {
@@ -89,12 +97,18 @@ export default function HarvestDetailScreen() {
       }
 
       // Load related distributions and extracts
-      const [distData, extractData] = await Promise.all([
-        getHarvestDistributions(id),
-        getHarvestExtracts(id),
-      ]);
-      setDistributions(distData);
-      setExtracts(extractData);
+      if (harvestData) {
+        const [distData, extractData] = await Promise.all([
+          getHarvestDistributions(id, harvestData),
+          getHarvestExtracts(id, harvestData),
+        ]);
+        setDistributions(distData);
+        setExtracts(extractData);
+      }
+
+      if (harvestData && userData) {
+        setCoa(await getBatchCoa('harvest', id, userData.uid, harvestData.associationId));
+      }
     } catch (error: any) {
       console.error('[HarvestDetail] Error loading data:', error);
       Alert.alert('Error', 'Failed to load harvest data');
@@ -107,7 +121,7 @@ export default function HarvestDetailScreen() {
   useFocusEffect(
     useCallback(() => {
       loadData();
-    }, [id])
+    }, [id, userData])
   );
 
   const handleRefresh = () => {
@@ -117,12 +131,11 @@ export default function HarvestDetailScreen() {
 
   const getAvailableWeight = (): number => {
     if (!harvest) return 0;
-    const totalWeight = harvest.finalWeightGrams || harvest.dryWeightGrams || harvest.wetWeightGrams;
-    return Math.max(0, totalWeight - (harvest.distributedGrams || 0) - (harvest.extractedGrams || 0));
+    return Math.max(0, getHarvestAvailableGrams(harvest));
   };
 
   const handleUpdateWeight = async () => {
-    if (!harvest || !id || typeof id !== 'string') return;
+    if (!harvest || !id || typeof id !== 'string' || !userData) return;
 
     const weightNum = parseFloat(newWeight);
     if (isNaN(weightNum) || weightNum <= 0) {
@@ -162,7 +175,7 @@ export default function HarvestDetailScreen() {
         }
       }
 
-      await updateHarvest(id, updateData);
+      await updateHarvestWithAudit(id, updateData, userData.uid, userData.email);
       setWeightModalVisible(false);
       setNewWeight('');
       setTrimWeight('');
@@ -181,10 +194,10 @@ export default function HarvestDetailScreen() {
   };
 
   const handleUpdateStatus = async (newStatus: HarvestStatus) => {
-    if (!harvest || !id || typeof id !== 'string') return;
+    if (!harvest || !id || typeof id !== 'string' || !userData) return;
 
     try {
-      await updateHarvest(id, { status: newStatus });
+      await updateHarvestWithAudit(id, { status: newStatus }, userData.uid, userData.email);
       setStatusModalVisible(false);
       loadData();
       Alert.alert('Success', `Status updated to ${HARVEST_STATUS_INFO[newStatus].label}`);
@@ -203,9 +216,9 @@ export default function HarvestDetailScreen() {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
-            if (!id || typeof id !== 'string') return;
+            if (!id || typeof id !== 'string' || !userData) return;
             try {
-              await deleteHarvest(id);
+              await deleteHarvestWithAudit(id, userData.uid, userData.email);
               Alert.alert('Done', 'Harvest deleted', [
                 { text: 'OK', onPress: () => router.back() },
               ]);
@@ -243,7 +256,7 @@ export default function HarvestDetailScreen() {
   const statusInfo = HARVEST_STATUS_INFO[harvest.status];
   const availableWeight = getAvailableWeight();
   const totalWeight = harvest.finalWeightGrams || harvest.dryWeightGrams || harvest.wetWeightGrams;
-  const usedWeight = (harvest.distributedGrams || 0) + (harvest.extractedGrams || 0);
+  const usedWeight = totalWeight - getHarvestAvailableGrams(harvest);
 
   return (
     <SafeAreaView style={styles.container}>
@@ -251,6 +264,10 @@ export default function HarvestDetailScreen() {
         contentContainerStyle={styles.scrollContent}
         refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
       >
+        {harvest.recallId && (
+          <RecallBanner onViewRecall={() => router.push(`/(tabs)/admin/recalls/${harvest.recallId}`)} />
+        )}
+
         {/* Header Card */}
         <Card>
           <View style={styles.header}>
@@ -416,29 +433,58 @@ export default function HarvestDetailScreen() {
                 <Text style={styles.inventoryLabel}>Extracted</Text>
                 <Text style={styles.inventoryValue}>{harvest.extractedGrams || 0}g</Text>
               </View>
+              {!!harvest.wastedGrams && (
+                <View style={styles.inventoryItem}>
+                  <Text style={styles.inventoryLabel}>Disposed</Text>
+                  <Text style={styles.inventoryValue}>{harvest.wastedGrams}g</Text>
+                </View>
+              )}
             </View>
 
             {availableWeight > 0 && (
               <View style={styles.actionButtons}>
+                {/* Recalled stock can only be disposed of */}
+                {!harvest.recallId && (
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.distributeButton]}
+                    onPress={() => router.push(`/(tabs)/distributions/new?harvestId=${harvest.id}`)}
+                  >
+                    <Ionicons name="gift" size={20} color="#7B1FA2" />
+                    <Text style={styles.actionButtonText}>Distribute</Text>
+                  </TouchableOpacity>
+                )}
+                {!harvest.recallId && (
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.extractButton]}
+                    onPress={() => router.push(`/(tabs)/extracts/new?harvestId=${harvest.id}`)}
+                  >
+                    <Ionicons name="flask" size={20} color="#FF5722" />
+                    <Text style={styles.actionButtonText}>Extract</Text>
+                  </TouchableOpacity>
+                )}
                 <TouchableOpacity
-                  style={[styles.actionButton, styles.distributeButton]}
-                  onPress={() => router.push(`/(tabs)/distributions/new?harvestId=${harvest.id}`)}
-                >
-                  <Ionicons name="gift" size={20} color="#7B1FA2" />
-                  <Text style={styles.actionButtonText}>Distribute</Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[styles.actionButton, styles.extractButton]}
-                  onPress={() => router.push(`/(tabs)/extracts/new?harvestId=${harvest.id}`)}
+                  style={[styles.actionButton, styles.disposeButton]}
+                  onPress={() => router.push(`/(tabs)/admin/waste/new?harvestId=${harvest.id}`)}
                 >
-                  <Ionicons name="flask" size={20} color="#FF5722" />
-                  <Text style={styles.actionButtonText}>Extract</Text>
+                  <Ionicons name="trash" size={20} color="#795548" />
+                  <Text style={styles.actionButtonText}>Dispose</Text>
                 </TouchableOpacity>
               </View>
             )}
           </Card>
         )}
 
+        {/* Lab Analysis */}
+        {coa && (
+          <BatchCoaCard
+            coa={coa}
+            onViewAnalysis={(analysisId) => router.push(`/(tabs)/lab-analyses/${analysisId}`)}
+            onAddAnalysis={canManageHarvests
+              ? () => router.push(`/(tabs)/lab-analyses/new?harvestId=${harvest.id}`)
+              : undefined}
+          />
+        )}
+
         {/* Harvest Details */}
         <Card>
           <View style={styles.sectionHeader}>
@@ -473,6 +519,13 @@ export default function HarvestDetailScreen() {
               <Text style={styles.notesText}>{harvest.notes}</Text>
             </View>
           )}
+
+          {harvest.photoUrl && (
+            <View style={styles.notesSection}>
+              <Text style={styles.detailLabel}>Photo</Text>
+              <Image source={{ uri: harvest.photoUrl }} style={styles.harvestPhoto} resizeMode="cover" />
+            </View>
+          )}
         </Card>
 
         {/* Usage History */}
@@ -523,6 +576,26 @@ export default function HarvestDetailScreen() {
           </Card>
         )}
 
+        {/* Traceability Button */}
+        <TouchableOpacity
+          style={styles.historyButton}
+          onPress={() => router.push(`/(tabs)/admin/traceability?controlNumber=${harvest.controlNumber}`)}
+        >
+          <Ionicons name="git-network-outline" size={20} color="#607D8B" />
+          <Text style={styles.historyButtonText}>Trace Seed-to-Sale</Text>
+        </TouchableOpacity>
+
+        {/* Recall Button */}
+        {canManageDistributions && !harvest.recallId && (
+          <TouchableOpacity
+            style={styles.historyButton}
+            onPress={() => router.push(`/(tabs)/admin/recalls/new?harvestId=${harvest.id}`)}
+          >
+            <Ionicons name="alert-circle-outline" size={20} color="#F44336" />
+            <Text style={[styles.historyButtonText, { color: '#F44336' }]}>Recall Batch</Text>
+          </TouchableOpacity>
+        )}
+
         {/* View History Button */}
         <TouchableOpacity
           style={styles.historyButton}
@@ -543,6 +616,7 @@ export default function HarvestDetailScreen() {
         entityType="harvest"
         entityId={id as string}
         entityDisplayName={harvest?.controlNumber}
+        onRestored={loadData}
       />
 
       {/* Weight Update Modal */}
@@ -913,6 +987,9 @@ const styles = StyleSheet.create({
   extractButton: {
     backgroundColor: '#FFF3E0',
   },
+  disposeButton: {
+    backgroundColor: '#EFEBE9',
+  },
   actionButtonText: {
     fontSize: 14,
     fontWeight: '600',
@@ -956,6 +1033,13 @@ const styles = StyleSheet.create({
     lineHeight: 22,
     marginTop: 8,
   },
+  harvestPhoto: {
+    width: '100%',
+    height: 240,
+    borderRadius: 8,
+    marginTop: 8,
+    backgroundColor: '#f0f0f0',
+  },
   // History
   historyItem: {
     flexDirection: 'row',
@@ -13,6 +13,7 @@ import { useRouter } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 import { useAuth } from '../../../contexts/AuthContext';
 import { getHarvestsForContext, getPlant } from '../../../firebase/firestore';
+import { getHarvestAvailableGrams } from '../../../firebase/inventory';
 import { Harvest, HarvestStatus, HarvestPurpose, Plant } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Loading } from '../../../components/Loading';
@@ -108,16 +109,7 @@ export default function HarvestsScreen() {
 
   // Calculate inventory stats
   const getAvailableWeight = (harvest: Harvest): number => {
-    // Use the best available weight, ensuring it's positive
-    let totalWeight = 0;
-    if (harvest.finalWeightGrams && harvest.finalWeightGrams > 0) {
-      totalWeight = harvest.finalWeightGrams;
-    } else if (harvest.dryWeightGrams && harvest.dryWeightGrams > 0) {
-      totalWeight = harvest.dryWeightGrams;
-    } else if (harvest.wetWeightGrams && harvest.wetWeightGrams > 0) {
-      totalWeight = harvest.wetWeightGrams;
-    }
-    return Math.max(0, totalWeight - (harvest.distributedGrams || 0) - (harvest.extractedGrams || 0));
+    return Math.max(0, getHarvestAvailableGrams(harvest));
   };
 
   const getDisplayWeight = (harvest: Harvest): number => {
@@ -0,0 +1,442 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Linking,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useConfirm } from '../../../contexts/ConfirmContext';
+import { usePermissions } from '../../../hooks/usePermissions';
+import { getLabAnalysis } from '../../../firebase/labAnalyses';
+import { deleteLabAnalysisWithAudit } from '../../../firebase/auditedFirestore';
+import { COA_STATUS_COLORS, SAFETY_PANELS, SafetyPanelKey, TEST_STATUS_COLORS } from '../../../utils/labAnalysis';
+import { CannabinoidPanel, LabAnalysis } from '../../../types';
+import { Card } from '../../../components/Card';
+import { Button } from '../../../components/Button';
+import { Loading } from '../../../components/Loading';
+import { showError, showSuccess } from '../../../utils/toast';
+
+const CANNABINOID_FIELDS: (keyof CannabinoidPanel)[] = [
+  'totalThcPercent',
+  'totalCbdPercent',
+  'thcPercent',
+  'thcaPercent',
+  'cbdPercent',
+  'cbdaPercent',
+  'cbgPercent',
+  'cbnPercent',
+];
+
+export default function LabAnalysisDetailScreen() {
+  const { t } = useTranslation(['labAnalyses', 'common']);
+  const { id } = useLocalSearchParams();
+  const [analysis, setAnalysis] = useState<LabAnalysis | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { canManageHarvests } = usePermissions();
+  const { userData } = useAuth();
+  const { confirm } = useConfirm();
+  const router = useRouter();
+
+  const loadAnalysis = async () => {
+    if (!id || typeof id !== 'string') {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setAnalysis(await getLabAnalysis(id));
+    } catch (error) {
+      console.error('[LabAnalyses] Error loading analysis:', error);
+      showError(t('errors.failedToLoad'), t('common:error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadAnalysis();
+    }, [id])
+  );
+
+  const handleOpenFile = () => {
+    if (!analysis?.coaFile) return;
+    Linking.openURL(analysis.coaFile.url).catch(() => {
+      showError(t('errors.failedToOpenFile'), t('common:error'));
+    });
+  };
+
+  const handleDelete = () => {
+    if (!analysis || !userData) return;
+
+    confirm({
+      title: t('deleteTitle'),
+      message: t('deleteConfirm'),
+      confirmText: t('common:delete'),
+      type: 'destructive',
+      onConfirm: async () => {
+        try {
+          await deleteLabAnalysisWithAudit(analysis.id, userData.uid, userData.email);
+          showSuccess(t('deleted'));
+          router.back();
+        } catch (error: any) {
+          console.error('[LabAnalyses] Error deleting analysis:', error);
+          showError(error.message || t('errors.failedToDelete'), t('common:error'));
+        }
+      },
+    });
+  };
+
+  if (loading) {
+    return <Loading message={t('common:loading')} />;
+  }
+
+  if (!analysis) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.emptyState}>
+          <Ionicons name="alert-circle-outline" size={64} color="#ccc" />
+          <Text style={styles.emptyText}>{t('errors.notFound')}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const expired = !!analysis.expirationDate && analysis.expirationDate < Date.now();
+  const resultColor = COA_STATUS_COLORS[analysis.result];
+  const measuredCannabinoids = CANNABINOID_FIELDS.filter(field => analysis.cannabinoids[field] !== undefined);
+
+  const renderPanel = (key: SafetyPanelKey) => {
+    const panel = analysis[key];
+
+    return (
+      <View key={key} style={styles.panel}>
+        <View style={styles.panelHeader}>
+          <Text style={styles.panelTitle}>{t(`panels.${key}`)}</Text>
+          <View style={[styles.statusBadge, { backgroundColor: TEST_STATUS_COLORS[panel.status] }]}>
+            <Text style={styles.statusBadgeText}>{t(`testStatus.${panel.status}`)}</Text>
+          </View>
+        </View>
+        {panel.results.map((result, index) => (
+          <View key={index} style={styles.analyteRow}>
+            <Ionicons
+              name={result.status === 'fail' ? 'close-circle' : result.status === 'pass' ? 'checkmark-circle' : 'remove-circle'}
+              size={14}
+              color={TEST_STATUS_COLORS[result.status]}
+            />
+            <Text style={styles.analyteName}>{result.analyte}</Text>
+            <Text style={styles.analyteValue}>
+              {result.value !== undefined ? `${result.value} ${result.unit}` : t(`testStatus.${result.status}`)}
+              {result.limit !== undefined ? ` (${t('detail.limit', { limit: result.limit })})` : ''}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Card style={{ ...styles.headerCard, borderLeftColor: resultColor }}>
+          <View style={styles.headerRow}>
+            <View style={styles.headerInfo}>
+              <Text style={styles.labName}>{analysis.labName}</Text>
+              {analysis.certificateNumber && (
+                <Text style={styles.metaText}>
+                  {t('detail.certificate')}: {analysis.certificateNumber}
+                </Text>
+              )}
+              {analysis.sampleId && (
+                <Text style={styles.metaText}>
+                  {t('detail.sample')}: {analysis.sampleId}
+                </Text>
+              )}
+            </View>
+            <View style={[styles.resultBadge, { backgroundColor: resultColor }]}>
+              <Text style={styles.resultBadgeText}>{t(`result.${analysis.result}`)}</Text>
+            </View>
+          </View>
+
+          <View style={styles.datesRow}>
+            {analysis.sampleDate && (
+              <Text style={styles.metaText}>
+                {t('detail.sampled')}: {format(analysis.sampleDate, 'MMM dd, yyyy')}
+              </Text>
+            )}
+            <Text style={styles.metaText}>
+              {t('detail.analyzed')}: {format(analysis.analysisDate, 'MMM dd, yyyy')}
+            </Text>
+            {analysis.expirationDate && (
+              <Text style={[styles.metaText, expired && { color: COA_STATUS_COLORS.expired, fontWeight: '600' }]}>
+                {expired ? t('detail.expired') : t('detail.validUntil')}: {format(analysis.expirationDate, 'MMM dd, yyyy')}
+              </Text>
+            )}
+          </View>
+        </Card>
+
+        <Card>
+          <Text style={styles.sectionTitle}>{t('detail.sources')}</Text>
+          {analysis.harvestIds.map((harvestId, index) => (
+            <TouchableOpacity
+              key={harvestId}
+              style={styles.sourceRow}
+              onPress={() => router.push(`/(tabs)/harvests/${harvestId}`)}
+            >
+              <Ionicons name="cut" size={16} color="#4CAF50" />
+              <Text style={styles.sourceText}>#{analysis.sourceControlNumbers[index] || harvestId}</Text>
+              <Ionicons name="chevron-forward" size={16} color="#ccc" />
+            </TouchableOpacity>
+          ))}
+          {analysis.extractIds.map((extractId, index) => (
+            <TouchableOpacity
+              key={extractId}
+              style={styles.sourceRow}
+              onPress={() => router.push(`/(tabs)/extracts/${extractId}`)}
+            >
+              <Ionicons name="flask" size={16} color="#FF5722" />
+              <Text style={styles.sourceText}>
+                #{analysis.sourceControlNumbers[analysis.harvestIds.length + index] || extractId}
+              </Text>
+              <Ionicons name="chevron-forward" size={16} color="#ccc" />
+            </TouchableOpacity>
+          ))}
+        </Card>
+
+        <Card>
+          <Text style={styles.sectionTitle}>{t('panels.cannabinoids')}</Text>
+          {measuredCannabinoids.length === 0 ? (
+            <Text style={styles.metaText}>{t('detail.notTested')}</Text>
+          ) : (
+            <View style={styles.cannabinoidGrid}>
+              {measuredCannabinoids.map(field => (
+                <View key={field} style={styles.cannabinoidItem}>
+                  <Text style={styles.cannabinoidLabel}>{t(`cannabinoids.${field}`)}</Text>
+                  <Text style={styles.cannabinoidValue}>{analysis.cannabinoids[field]}%</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {analysis.terpenes.length > 0 && (
+            <>
+              <Text style={[styles.sectionTitle, styles.subsectionTitle]}>{t('panels.terpenes')}</Text>
+              {[...analysis.terpenes]
+                .sort((a, b) => b.percent - a.percent)
+                .map(terpene => (
+                  <View key={terpene.name} style={styles.analyteRow}>
+                    <Text style={styles.analyteName}>{terpene.name}</Text>
+                    <Text style={styles.analyteValue}>{terpene.percent}%</Text>
+                  </View>
+                ))}
+            </>
+          )}
+        </Card>
+
+        <Card>
+          {SAFETY_PANELS.map(renderPanel)}
+        </Card>
+
+        <Card>
+          {analysis.coaFile ? (
+            <TouchableOpacity style={styles.fileRow} onPress={handleOpenFile}>
+              <Ionicons name="document-attach" size={20} color="#00897B" />
+              <Text style={styles.fileName} numberOfLines={1}>{analysis.coaFile.fileName}</Text>
+              <Text style={styles.openFileText}>{t('detail.openCoa')}</Text>
+            </TouchableOpacity>
+          ) : (
+            <Text style={styles.metaText}>{t('detail.noCoaFile')}</Text>
+          )}
+          {analysis.notes && <Text style={styles.notesText}>{analysis.notes}</Text>}
+        </Card>
+
+        {canManageHarvests && (
+          <Button
+            title={t('common:delete')}
+            onPress={handleDelete}
+            variant="secondary"
+            style={styles.deleteButton}
+          />
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  headerCard: {
+    borderLeftWidth: 4,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  labName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  metaText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  datesRow: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  resultBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  resultBadgeText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  subsectionTitle: {
+    marginTop: 16,
+  },
+  sourceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  sourceText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cannabinoidGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  cannabinoidItem: {
+    minWidth: '22%',
+    alignItems: 'center',
+    backgroundColor: '#E0F2F1',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+  },
+  cannabinoidLabel: {
+    fontSize: 11,
+    color: '#666',
+  },
+  cannabinoidValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#00695C',
+  },
+  panel: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  panelHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  panelTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  statusBadgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  analyteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  analyteName: {
+    flex: 1,
+    fontSize: 13,
+    color: '#333',
+  },
+  analyteValue: {
+    fontSize: 13,
+    color: '#666',
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  fileName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  openFileText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#00897B',
+  },
+  notesText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 12,
+  },
+  deleteButton: {
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#999',
+    marginTop: 16,
+  },
+});
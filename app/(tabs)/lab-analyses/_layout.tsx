@@ -0,0 +1,45 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { usePermissions } from '../../../hooks/usePermissions';
+import { RouteGuard } from '../../../components/RouteGuard';
+
+export default function LabAnalysesLayout() {
+  const { t } = useTranslation('labAnalyses');
+  const { canManageHarvests, canManageDistributions, loading } = usePermissions();
+
+  return (
+    <RouteGuard allowed={canManageHarvests || canManageDistributions} loading={loading}>
+      <Stack
+        screenOptions={{
+          headerStyle: {
+            backgroundColor: '#00897B',
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }}
+      >
+        <Stack.Screen
+          name="index"
+          options={{
+            title: t('title'),
+          }}
+        />
+        <Stack.Screen
+          name="new"
+          options={{
+            title: t('newAnalysis'),
+          }}
+        />
+        <Stack.Screen
+          name="[id]"
+          options={{
+            title: t('details'),
+          }}
+        />
+      </Stack>
+    </RouteGuard>
+  );
+}
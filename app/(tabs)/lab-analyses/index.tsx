@@ -0,0 +1,290 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useAuth } from '../../../contexts/AuthContext';
+import { usePermissions } from '../../../hooks/usePermissions';
+import { getLabAnalysesForContext } from '../../../firebase/labAnalyses';
+import { COA_STATUS_COLORS } from '../../../utils/labAnalysis';
+import { LabAnalysis, LabAnalysisResult } from '../../../types';
+import { Card } from '../../../components/Card';
+import { Button } from '../../../components/Button';
+import { Loading } from '../../../components/Loading';
+import { showError } from '../../../utils/toast';
+
+type ResultFilter = LabAnalysisResult | 'all';
+
+const RESULT_FILTERS: ResultFilter[] = ['all', 'pass', 'fail', 'pending'];
+
+export default function LabAnalysesScreen() {
+  const { t } = useTranslation(['labAnalyses', 'common']);
+  const [analyses, setAnalyses] = useState<LabAnalysis[]>([]);
+  const [filter, setFilter] = useState<ResultFilter>('all');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const { userData, currentAssociation } = useAuth();
+  const { canManageHarvests } = usePermissions();
+  const router = useRouter();
+
+  const loadAnalyses = async () => {
+    if (!userData) return;
+
+    try {
+      setAnalyses(await getLabAnalysesForContext(userData.uid, currentAssociation?.id));
+    } catch (error) {
+      console.error('[LabAnalyses] Error loading analyses:', error);
+      showError(t('errors.failedToLoad'), t('common:error'));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadAnalyses();
+    }, [userData, currentAssociation])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadAnalyses();
+  };
+
+  const visibleAnalyses = filter === 'all'
+    ? analyses
+    : analyses.filter(analysis => analysis.result === filter);
+
+  const renderAnalysis = (analysis: LabAnalysis) => {
+    const expired = !!analysis.expirationDate && analysis.expirationDate < Date.now();
+    const color = COA_STATUS_COLORS[analysis.result];
+
+    return (
+      <TouchableOpacity
+        key={analysis.id}
+        onPress={() => router.push(`/(tabs)/lab-analyses/${analysis.id}`)}
+      >
+        <Card style={styles.analysisCard}>
+          <View style={styles.analysisHeader}>
+            <View style={[styles.iconContainer, { backgroundColor: `${color}20` }]}>
+              <Ionicons name="shield-checkmark" size={22} color={color} />
+            </View>
+            <View style={styles.analysisInfo}>
+              <Text style={styles.labName}>{analysis.labName}</Text>
+              <Text style={styles.analysisMeta}>
+                {analysis.certificateNumber ? `${analysis.certificateNumber} · ` : ''}
+                {format(analysis.analysisDate, 'MMM dd, yyyy')}
+              </Text>
+            </View>
+            <View style={[styles.resultBadge, { backgroundColor: color }]}>
+              <Text style={styles.resultBadgeText}>{t(`result.${analysis.result}`)}</Text>
+            </View>
+          </View>
+
+          <View style={styles.analysisFooter}>
+            <Text style={styles.sourcesText} numberOfLines={1}>
+              {analysis.sourceControlNumbers.map(number => `#${number}`).join(', ')}
+            </Text>
+            <View style={styles.footerBadges}>
+              {analysis.cannabinoids.totalThcPercent !== undefined && (
+                <Text style={styles.potencyText}>
+                  THC {analysis.cannabinoids.totalThcPercent}%
+                </Text>
+              )}
+              {analysis.cannabinoids.totalCbdPercent !== undefined && (
+                <Text style={styles.potencyText}>
+                  CBD {analysis.cannabinoids.totalCbdPercent}%
+                </Text>
+              )}
+              {expired && (
+                <Text style={[styles.potencyText, { color: COA_STATUS_COLORS.expired }]}>
+                  {t('detail.expired')}
+                </Text>
+              )}
+              {analysis.coaFile && <Ionicons name="document-attach" size={16} color="#999" />}
+            </View>
+          </View>
+        </Card>
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return <Loading message={t('common:loading')} />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.filterRow}>
+        {RESULT_FILTERS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.filterChip, filter === option && styles.filterChipActive]}
+            onPress={() => setFilter(option)}
+          >
+            <Text style={[styles.filterChipText, filter === option && styles.filterChipTextActive]}>
+              {option === 'all' ? t('all') : t(`result.${option}`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {visibleAnalyses.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="shield-checkmark-outline" size={64} color="#ccc" />
+          <Text style={styles.emptyText}>{t('noAnalyses')}</Text>
+          <Text style={styles.emptySubtext}>{t('noAnalysesHint')}</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+          }
+        >
+          {visibleAnalyses.map(renderAnalysis)}
+        </ScrollView>
+      )}
+
+      {canManageHarvests && (
+        <Button
+          title={t('addAnalysis')}
+          onPress={() => router.push('/(tabs)/lab-analyses/new')}
+          style={styles.addButton}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  filterChipActive: {
+    backgroundColor: '#00897B',
+    borderColor: '#00897B',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  filterChipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  list: {
+    padding: 16,
+  },
+  analysisCard: {
+    marginBottom: 12,
+  },
+  analysisHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  analysisInfo: {
+    flex: 1,
+  },
+  labName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  analysisMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  resultBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  resultBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  analysisFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  sourcesText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+  },
+  footerBadges: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  potencyText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#00897B',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#999',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#bbb',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  addButton: {
+    margin: 16,
+    backgroundColor: '#00897B',
+  },
+});
@@ -0,0 +1,708 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { useAuth } from '../../../contexts/AuthContext';
+import { getExtractsForContext, getHarvestsForContext } from '../../../firebase/firestore';
+import { uploadCoaFile } from '../../../firebase/labAnalyses';
+import { createLabAnalysisWithAudit } from '../../../firebase/auditedFirestore';
+import {
+  buildPanel,
+  COA_STATUS_COLORS,
+  getAnalysisResult,
+  SAFETY_PANELS,
+  SafetyPanelKey,
+  TEST_STATUS_COLORS,
+} from '../../../utils/labAnalysis';
+import { CannabinoidPanel, ContaminantPanel, Extract, Harvest, LabTestStatus } from '../../../types';
+import { Card } from '../../../components/Card';
+import { Button } from '../../../components/Button';
+import { Input } from '../../../components/Input';
+import { DatePicker } from '../../../components/DatePicker';
+import { Loading } from '../../../components/Loading';
+import { showSuccess, showError, showWarning } from '../../../utils/toast';
+
+const CANNABINOID_FIELDS: (keyof CannabinoidPanel)[] = [
+  'totalThcPercent',
+  'totalCbdPercent',
+  'thcPercent',
+  'thcaPercent',
+  'cbdPercent',
+  'cbdaPercent',
+  'cbgPercent',
+  'cbnPercent',
+];
+
+const TEST_STATUSES: LabTestStatus[] = ['not_tested', 'pass', 'fail'];
+
+const DEFAULT_UNITS: Record<SafetyPanelKey, string> = {
+  microbials: 'CFU/g',
+  heavyMetals: 'ppm',
+  pesticides: 'ppm',
+  residualSolvents: 'ppm',
+};
+
+interface AnalyteRow {
+  analyte: string;
+  value: string;
+  limit: string;
+  unit: string;
+}
+
+interface PanelForm {
+  status: LabTestStatus;
+  rows: AnalyteRow[];
+}
+
+interface PickedFile {
+  uri: string;
+  name: string;
+  mimeType: string;
+}
+
+const parseNumber = (text: string): number | undefined => {
+  const value = parseFloat(text.replace(',', '.'));
+  return isNaN(value) ? undefined : value;
+};
+
+const toPanel = (form: PanelForm): ContaminantPanel => buildPanel(
+  form.rows
+    .filter(row => row.analyte.trim())
+    .map(row => ({
+      analyte: row.analyte.trim(),
+      value: parseNumber(row.value),
+      limit: parseNumber(row.limit),
+      unit: row.unit.trim(),
+      status: 'not_tested' as LabTestStatus,
+    })),
+  form.status
+);
+
+export default function NewLabAnalysisScreen() {
+  const { t } = useTranslation(['labAnalyses', 'common']);
+  const { harvestId: initialHarvestId, extractId: initialExtractId } = useLocalSearchParams();
+  const { userData, currentAssociation } = useAuth();
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [harvests, setHarvests] = useState<Harvest[]>([]);
+  const [extracts, setExtracts] = useState<Extract[]>([]);
+
+  const [labName, setLabName] = useState('');
+  const [certificateNumber, setCertificateNumber] = useState('');
+  const [sampleId, setSampleId] = useState('');
+  const [sampleDate, setSampleDate] = useState<Date | null>(null);
+  const [analysisDate, setAnalysisDate] = useState<Date | null>(new Date());
+  const [expirationDate, setExpirationDate] = useState<Date | null>(null);
+  const [harvestIds, setHarvestIds] = useState<string[]>(
+    typeof initialHarvestId === 'string' ? [initialHarvestId] : []
+  );
+  const [extractIds, setExtractIds] = useState<string[]>(
+    typeof initialExtractId === 'string' ? [initialExtractId] : []
+  );
+  const [cannabinoids, setCannabinoids] = useState<Partial<Record<keyof CannabinoidPanel, string>>>({});
+  const [terpenes, setTerpenes] = useState<{ name: string; percent: string }[]>([]);
+  const [panels, setPanels] = useState<Record<SafetyPanelKey, PanelForm>>({
+    microbials: { status: 'not_tested', rows: [] },
+    heavyMetals: { status: 'not_tested', rows: [] },
+    pesticides: { status: 'not_tested', rows: [] },
+    residualSolvents: { status: 'not_tested', rows: [] },
+  });
+  const [coaFile, setCoaFile] = useState<PickedFile | null>(null);
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!userData) return;
+
+      try {
+        const [harvestList, extractList] = await Promise.all([
+          getHarvestsForContext(userData.uid, currentAssociation?.id),
+          getExtractsForContext(userData.uid, currentAssociation?.id),
+        ]);
+        setHarvests(harvestList);
+        setExtracts(extractList);
+      } catch (error) {
+        console.error('[LabAnalyses] Error loading form data:', error);
+        showError(t('errors.failedToLoad'), t('common:error'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [userData, currentAssociation]);
+
+  const toggleId = (ids: string[], id: string): string[] =>
+    ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+
+  const updatePanel = (key: SafetyPanelKey, update: Partial<PanelForm>) => {
+    setPanels(current => ({ ...current, [key]: { ...current[key], ...update } }));
+  };
+
+  const updateAnalyte = (key: SafetyPanelKey, index: number, update: Partial<AnalyteRow>) => {
+    updatePanel(key, {
+      rows: panels[key].rows.map((row, i) => (i === index ? { ...row, ...update } : row)),
+    });
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/pdf', 'image/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const asset = result.assets[0];
+      setCoaFile({
+        uri: asset.uri,
+        name: asset.name,
+        mimeType: asset.mimeType || (asset.name.toLowerCase().endsWith('.pdf') ? 'application/pdf' : 'image/jpeg'),
+      });
+    } catch (error) {
+      console.error('[LabAnalyses] Error picking COA file:', error);
+      showError(t('errors.failedToPickFile'), t('common:error'));
+    }
+  };
+
+  const builtPanels = {
+    microbials: toPanel(panels.microbials),
+    heavyMetals: toPanel(panels.heavyMetals),
+    pesticides: toPanel(panels.pesticides),
+    residualSolvents: toPanel(panels.residualSolvents),
+  };
+  const result = getAnalysisResult(builtPanels);
+
+  const handleSubmit = async () => {
+    if (!userData) return;
+
+    if (!labName.trim()) {
+      showWarning(t('errors.labRequired'), t('common:error'));
+      return;
+    }
+    if (harvestIds.length === 0 && extractIds.length === 0) {
+      showWarning(t('errors.batchRequired'), t('common:error'));
+      return;
+    }
+
+    const cannabinoidPanel: CannabinoidPanel = {};
+    CANNABINOID_FIELDS.forEach(field => {
+      const value = parseNumber(cannabinoids[field] || '');
+      if (value !== undefined) {
+        cannabinoidPanel[field] = value;
+      }
+    });
+
+    // Same order as harvestIds followed by extractIds
+    const sourceControlNumbers = [
+      ...harvestIds.map(harvestId => harvests.find(harvest => harvest.id === harvestId)?.controlNumber || harvestId),
+      ...extractIds.map(extractId => extracts.find(extract => extract.id === extractId)?.controlNumber || extractId),
+    ];
+
+    setSubmitting(true);
+    try {
+      const uploadedFile = coaFile
+        ? await uploadCoaFile(coaFile.uri, userData.uid, coaFile.name, coaFile.mimeType)
+        : undefined;
+
+      await createLabAnalysisWithAudit({
+        userId: userData.uid,
+        associationId: currentAssociation?.id,
+        labName: labName.trim(),
+        certificateNumber: certificateNumber.trim() || undefined,
+        sampleId: sampleId.trim() || undefined,
+        sampleDate: sampleDate?.getTime(),
+        analysisDate: (analysisDate || new Date()).getTime(),
+        expirationDate: expirationDate?.getTime(),
+        harvestIds,
+        extractIds,
+        sourceControlNumbers,
+        cannabinoids: cannabinoidPanel,
+        terpenes: terpenes
+          .map(terpene => ({ name: terpene.name.trim(), percent: parseNumber(terpene.percent) }))
+          .filter((terpene): terpene is { name: string; percent: number } => !!terpene.name && terpene.percent !== undefined),
+        ...builtPanels,
+        result,
+        coaFile: uploadedFile,
+        notes: notes.trim() || undefined,
+      }, userData.email);
+      showSuccess(t('created'), t('common:success'));
+      router.back();
+    } catch (error: any) {
+      console.error('[LabAnalyses] Error creating analysis:', error);
+      showError(error.message || t('errors.failedToSave'), t('common:error'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <Loading message={t('common:loading')} />;
+  }
+
+  const renderPanel = (key: SafetyPanelKey) => {
+    const panel = panels[key];
+    const status = builtPanels[key].status;
+
+    return (
+      <Card key={key}>
+        <View style={styles.panelHeader}>
+          <Text style={styles.sectionTitle}>{t(`panels.${key}`)}</Text>
+          <Text style={[styles.panelStatus, { color: TEST_STATUS_COLORS[status] }]}>
+            {t(`testStatus.${status}`)}
+          </Text>
+        </View>
+
+        <Text style={styles.inputLabel}>{t('form.panelStatus')}</Text>
+        <View style={styles.optionRow}>
+          {TEST_STATUSES.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.optionButton,
+                panel.status === option && { backgroundColor: TEST_STATUS_COLORS[option], borderColor: TEST_STATUS_COLORS[option] },
+              ]}
+              onPress={() => updatePanel(key, { status: option })}
+            >
+              <Text style={[styles.optionText, panel.status === option && styles.optionTextActive]}>
+                {t(`testStatus.${option}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {panel.rows.map((row, index) => (
+          <View key={index} style={styles.analyteRow}>
+            <View style={styles.analyteName}>
+              <Input
+                placeholder={t('form.analyte')}
+                value={row.analyte}
+                onChangeText={text => updateAnalyte(key, index, { analyte: text })}
+              />
+            </View>
+            <View style={styles.analyteNumber}>
+              <Input
+                placeholder={t('form.value')}
+                value={row.value}
+                onChangeText={text => updateAnalyte(key, index, { value: text })}
+                keyboardType="decimal-pad"
+              />
+            </View>
+            <View style={styles.analyteNumber}>
+              <Input
+                placeholder={t('form.limit')}
+                value={row.limit}
+                onChangeText={text => updateAnalyte(key, index, { limit: text })}
+                keyboardType="decimal-pad"
+              />
+            </View>
+            <View style={styles.analyteNumber}>
+              <Input
+                placeholder={t('form.unit')}
+                value={row.unit}
+                onChangeText={text => updateAnalyte(key, index, { unit: text })}
+              />
+            </View>
+            <TouchableOpacity
+              onPress={() => updatePanel(key, { rows: panel.rows.filter((_, i) => i !== index) })}
+              style={styles.removeButton}
+            >
+              <Ionicons name="close-circle" size={20} color="#999" />
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <TouchableOpacity
+          onPress={() => updatePanel(key, {
+            rows: [...panel.rows, { analyte: '', value: '', limit: '', unit: DEFAULT_UNITS[key] }],
+          })}
+        >
+          <Text style={styles.addRowText}>{t('form.addAnalyte')}</Text>
+        </TouchableOpacity>
+      </Card>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <Card>
+            <Text style={styles.sectionTitle}>{t('form.lab')}</Text>
+            <Input
+              label={`${t('form.labName')} *`}
+              value={labName}
+              onChangeText={setLabName}
+              placeholder={t('form.labNamePlaceholder')}
+            />
+            <Input
+              label={`${t('form.certificateNumber')} (${t('common:optional')})`}
+              value={certificateNumber}
+              onChangeText={setCertificateNumber}
+            />
+            <Input
+              label={`${t('form.sampleId')} (${t('common:optional')})`}
+              value={sampleId}
+              onChangeText={setSampleId}
+            />
+            <DatePicker
+              label={`${t('form.sampleDate')} (${t('common:optional')})`}
+              value={sampleDate}
+              onChange={setSampleDate}
+              maximumDate={new Date()}
+            />
+            <DatePicker
+              label={`${t('form.analysisDate')} *`}
+              value={analysisDate}
+              onChange={setAnalysisDate}
+              maximumDate={new Date()}
+            />
+            <DatePicker
+              label={`${t('form.expirationDate')} (${t('common:optional')})`}
+              value={expirationDate}
+              onChange={setExpirationDate}
+              minimumDate={analysisDate || undefined}
+            />
+            <Text style={styles.hint}>{t('form.expirationHint')}</Text>
+          </Card>
+
+          <Card>
+            <Text style={styles.sectionTitle}>{t('form.batches')} *</Text>
+            {harvests.length === 0 && extracts.length === 0 ? (
+              <Text style={styles.hint}>{t('form.noBatches')}</Text>
+            ) : (
+              <>
+                {harvests.length > 0 && (
+                  <>
+                    <Text style={styles.inputLabel}>{t('form.harvests')}</Text>
+                    <View style={styles.chipGrid}>
+                      {harvests.map(harvest => (
+                        <TouchableOpacity
+                          key={harvest.id}
+                          style={[styles.chip, harvestIds.includes(harvest.id) && styles.chipActive]}
+                          onPress={() => setHarvestIds(ids => toggleId(ids, harvest.id))}
+                        >
+                          <Text style={[styles.chipText, harvestIds.includes(harvest.id) && styles.chipTextActive]}>
+                            #{harvest.controlNumber}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </>
+                )}
+                {extracts.length > 0 && (
+                  <>
+                    <Text style={styles.inputLabel}>{t('form.extracts')}</Text>
+                    <View style={styles.chipGrid}>
+                      {extracts.map(extract => (
+                        <TouchableOpacity
+                          key={extract.id}
+                          style={[styles.chip, extractIds.includes(extract.id) && styles.chipActive]}
+                          onPress={() => setExtractIds(ids => toggleId(ids, extract.id))}
+                        >
+                          <Text style={[styles.chipText, extractIds.includes(extract.id) && styles.chipTextActive]}>
+                            #{extract.controlNumber} · {extract.name}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </>
+                )}
+              </>
+            )}
+            <Text style={styles.hint}>{t('form.batchesHint')}</Text>
+          </Card>
+
+          <Card>
+            <Text style={styles.sectionTitle}>{t('panels.cannabinoids')}</Text>
+            <Text style={styles.hint}>{t('form.percentHint')}</Text>
+            <View style={styles.cannabinoidGrid}>
+              {CANNABINOID_FIELDS.map(field => (
+                <View key={field} style={styles.cannabinoidInput}>
+                  <Input
+                    label={`${t(`cannabinoids.${field}`)} %`}
+                    value={cannabinoids[field] || ''}
+                    onChangeText={text => setCannabinoids(current => ({ ...current, [field]: text }))}
+                    placeholder="0.0"
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              ))}
+            </View>
+          </Card>
+
+          <Card>
+            <Text style={styles.sectionTitle}>{t('panels.terpenes')}</Text>
+            {terpenes.map((terpene, index) => (
+              <View key={index} style={styles.analyteRow}>
+                <View style={styles.analyteName}>
+                  <Input
+                    placeholder={t('form.terpeneName')}
+                    value={terpene.name}
+                    onChangeText={text => setTerpenes(current =>
+                      current.map((item, i) => (i === index ? { ...item, name: text } : item))
+                    )}
+                  />
+                </View>
+                <View style={styles.analyteNumber}>
+                  <Input
+                    placeholder="%"
+                    value={terpene.percent}
+                    onChangeText={text => setTerpenes(current =>
+                      current.map((item, i) => (i === index ? { ...item, percent: text } : item))
+                    )}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+                <TouchableOpacity
+                  onPress={() => setTerpenes(current => current.filter((_, i) => i !== index))}
+                  style={styles.removeButton}
+                >
+                  <Ionicons name="close-circle" size={20} color="#999" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <TouchableOpacity onPress={() => setTerpenes(current => [...current, { name: '', percent: '' }])}>
+              <Text style={styles.addRowText}>{t('form.addTerpene')}</Text>
+            </TouchableOpacity>
+          </Card>
+
+          {SAFETY_PANELS.map(renderPanel)}
+          <Text style={styles.panelHint}>{t('form.panelHint')}</Text>
+
+          <Card>
+            <Text style={styles.sectionTitle}>{t('form.coaFile')}</Text>
+            {coaFile ? (
+              <View style={styles.fileRow}>
+                <Ionicons name="document-attach" size={20} color="#00897B" />
+                <Text style={styles.fileName} numberOfLines={1}>{coaFile.name}</Text>
+                <TouchableOpacity onPress={() => setCoaFile(null)}>
+                  <Text style={styles.removeFileText}>{t('form.removeFile')}</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <TouchableOpacity style={styles.pickFileButton} onPress={handlePickFile}>
+                <Ionicons name="cloud-upload-outline" size={20} color="#00897B" />
+                <Text style={styles.pickFileText}>{t('form.pickFile')}</Text>
+              </TouchableOpacity>
+            )}
+
+            <Input
+              label={`${t('form.notes')} (${t('common:optional')})`}
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+              numberOfLines={3}
+            />
+          </Card>
+
+          <Card style={{ ...styles.resultCard, borderLeftColor: COA_STATUS_COLORS[result] }}>
+            <View style={styles.panelHeader}>
+              <Text style={styles.sectionTitle}>{t('form.resultPreview')}</Text>
+              <Text style={[styles.panelStatus, { color: COA_STATUS_COLORS[result] }]}>
+                {t(`result.${result}`)}
+              </Text>
+            </View>
+            <Text style={styles.hint}>{t('form.resultHint')}</Text>
+          </Card>
+
+          <Button
+            title={submitting ? t('common:saving') : t('form.save')}
+            onPress={handleSubmit}
+            disabled={submitting}
+            style={styles.submitButton}
+          />
+          <Button
+            title={t('common:cancel')}
+            onPress={() => router.back()}
+            variant="secondary"
+            disabled={submitting}
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    marginTop: 8,
+    color: '#333',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+    marginBottom: 4,
+    fontStyle: 'italic',
+  },
+  panelHint: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    marginHorizontal: 4,
+    marginBottom: 12,
+  },
+  panelHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  panelStatus: {
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 4,
+  },
+  optionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  optionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    textAlign: 'center',
+  },
+  optionTextActive: {
+    color: '#fff',
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+    backgroundColor: '#f5f5f5',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  chipActive: {
+    backgroundColor: '#00897B',
+    borderColor: '#00897B',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  cannabinoidGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginHorizontal: -4,
+  },
+  cannabinoidInput: {
+    width: '50%',
+    paddingHorizontal: 4,
+  },
+  analyteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  analyteName: {
+    flex: 2,
+  },
+  analyteNumber: {
+    flex: 1,
+  },
+  removeButton: {
+    padding: 4,
+  },
+  addRowText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#00897B',
+    paddingVertical: 8,
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  fileName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  removeFileText: {
+    fontSize: 13,
+    color: '#F44336',
+  },
+  pickFileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    marginVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#00897B',
+  },
+  pickFileText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#00897B',
+  },
+  resultCard: {
+    borderLeftWidth: 4,
+  },
+  submitButton: {
+    marginTop: 8,
+    marginBottom: 12,
+    backgroundColor: '#00897B',
+  },
+});
@@ -17,19 +17,30 @@ import { useAuth } from '../../../contexts/AuthContext';
 import {
   getEnvironmentsForContext,
   getEnvironmentRecords,
-  createEnvironmentRecord,
-  updateEnvironmentRecord,
-  deleteEnvironmentRecord,
-  deleteBulkEnvironmentRecords,
   getEnvironmentPlants,
-  createBulkPlantLog,
-  updateBulkPlantLog,
   getBulkPlantLog,
-  deleteBulkPlantLog,
-  deleteBulkPlantLogsMultiple,
   getEnvironmentBulkLogs,
 } from '../../../firebase/firestore';
-import { Environment, EnvironmentRecord, Plant, BulkPlantLog, PlantLogType } from '../../../types';
+import {
+  createBulkPlantLogWithAudit,
+  deleteBulkPlantLogsMultipleWithAudit,
+  deleteBulkPlantLogWithAudit,
+  updateBulkPlantLogWithAudit,
+  createEnvironmentRecordWithAudit,
+  updateEnvironmentRecordWithAudit,
+  deleteEnvironmentRecordWithAudit,
+  deleteBulkEnvironmentRecordsWithAudit,
+} from '../../../firebase/auditedFirestore';
+import { getNutrientSchedulesForContext, getPlannedFeedForPlant } from '../../../firebase/nutrientSchedules';
+import {
+  Environment,
+  EnvironmentRecord,
+  Plant,
+  BulkPlantLog,
+  PlantLogType,
+  NutrientSchedule,
+  PlannedFeed,
+} from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
 import { Input } from '../../../components/Input';
@@ -38,6 +49,13 @@ import { PlantLogForm } from '../../../components/PlantLogForm';
 import { LogTypeBadge, getLogTypeInfo } from '../../../components/LogTypeSelector';
 import { format } from 'date-fns';
 import { Ionicons } from '@expo/vector-icons';
+import {
+  CLIMATE_TARGETS,
+  calculateVpd,
+  formatMetricValue,
+  getEnvironmentStage,
+  getMetricValue,
+} from '../../../utils/climateAnalytics';
 
 type LogMode = 'environment' | 'bulk_plant';
 
@@ -60,6 +78,8 @@ export default function EnvironmentLogsScreen() {
   const [bulkLogs, setBulkLogs] = useState<BulkPlantLog[]>([]);
   const [plants, setPlants] = useState<Plant[]>([]);
   const [selectedPlants, setSelectedPlants] = useState<string[]>([]);
+  const [schedules, setSchedules] = useState<NutrientSchedule[]>([]);
+  const [plannedFeed, setPlannedFeed] = useState<PlannedFeed | null>(null);
   const [loading, setLoading] = useState(true);
   const [modalVisible, setModalVisible] = useState(false);
   const [envSelectModal, setEnvSelectModal] = useState(false);
@@ -72,6 +92,7 @@ export default function EnvironmentLogsScreen() {
   const [temp, setTemp] = useState('');
   const [humidity, setHumidity] = useState('');
   const [lightHours, setLightHours] = useState('');
+  const [ppfd, setPpfd] = useState('');
   const [notes, setNotes] = useState('');
   
   // Bulk log state
@@ -140,8 +161,20 @@ export default function EnvironmentLogsScreen() {
     }
   };
 
+  const loadSchedules = async () => {
+    if (!userData) return;
+
+    try {
+      setSchedules(await getNutrientSchedulesForContext(userData.uid, currentAssociation?.id));
+    } catch (error: any) {
+      console.warn('[EnvironmentLogs] Failed to load nutrient schedules:', error.message);
+      setSchedules([]);
+    }
+  };
+
   useEffect(() => {
     loadEnvironments();
+    loadSchedules();
   }, [userData, currentAssociation]);
 
   useEffect(() => {
@@ -151,7 +184,24 @@ export default function EnvironmentLogsScreen() {
     }
   }, [selectedEnvironment]);
 
+  // Bulk feeds are pre-filled from the plan of the first selected plant
+  useEffect(() => {
+    const firstPlant = plants.find(plant => selectedPlants.includes(plant.id));
+    if (!firstPlant || schedules.length === 0) {
+      setPlannedFeed(null);
+      return;
+    }
+
+    getPlannedFeedForPlant(firstPlant, schedules)
+      .then(setPlannedFeed)
+      .catch(error => {
+        console.warn('[EnvironmentLogs] Failed to resolve feed plan:', error.message);
+        setPlannedFeed(null);
+      });
+  }, [plants, selectedPlants, schedules]);
+
   const handleAddEnvironmentRecord = async () => {
+    if (!userData) return;
     if (!selectedEnvironment) {
       Alert.alert('Error', 'Please select an environment');
       return;
@@ -180,18 +230,23 @@ export default function EnvironmentLogsScreen() {
         lightHours: lightHoursNum,
         notes,
       };
+
+      if (ppfd.trim() && !isNaN(parseFloat(ppfd))) {
+        envRecordData.ppfd = parseFloat(ppfd);
+      }
       
       // Only add associationId if it exists
       if (currentAssociation?.id) {
         envRecordData.associationId = currentAssociation.id;
       }
       
-      await createEnvironmentRecord(envRecordData);
+      await createEnvironmentRecordWithAudit(envRecordData, userData.uid, userData.email);
 
       setModalVisible(false);
       setTemp('');
       setHumidity('');
       setLightHours('');
+      setPpfd('');
       setNotes('');
       loadEnvRecords();
       Alert.alert('Success', 'Environment log added!');
@@ -226,7 +281,7 @@ export default function EnvironmentLogsScreen() {
         bulkLogData.associationId = currentAssociation.id;
       }
       
-      await createBulkPlantLog(bulkLogData);
+      await createBulkPlantLogWithAudit(bulkLogData, userData.email);
 
       setModalVisible(false);
       loadEnvRecords();
@@ -246,12 +301,13 @@ export default function EnvironmentLogsScreen() {
     setTemp(record.temp.toString());
     setHumidity(record.humidity.toString());
     setLightHours(record.lightHours.toString());
+    setPpfd(record.ppfd?.toString() || '');
     setNotes(record.notes || '');
     setEditModalVisible(true);
   };
 
   const handleSaveEditRecord = async () => {
-    if (!editingRecord) return;
+    if (!editingRecord || !userData) return;
 
     const tempNum = parseFloat(temp);
     const humidityNum = parseFloat(humidity);
@@ -263,17 +319,19 @@ export default function EnvironmentLogsScreen() {
     }
 
     try {
-      await updateEnvironmentRecord(editingRecord.id, {
+      await updateEnvironmentRecordWithAudit(editingRecord.id, {
         temp: tempNum,
         humidity: humidityNum,
         lightHours: lightHoursNum,
+        ppfd: ppfd.trim() && !isNaN(parseFloat(ppfd)) ? parseFloat(ppfd) : undefined,
         notes: notes || undefined,
-      });
+      }, userData.uid, userData.email, editingRecord.updatedAt ?? editingRecord.createdAt);
       setEditModalVisible(false);
       setEditingRecord(null);
       setTemp('');
       setHumidity('');
       setLightHours('');
+      setPpfd('');
       setNotes('');
       loadEnvRecords();
       Alert.alert('Success', 'Record updated!');
@@ -292,8 +350,9 @@ export default function EnvironmentLogsScreen() {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
+            if (!userData) return;
             try {
-              await deleteEnvironmentRecord(recordId);
+              await deleteEnvironmentRecordWithAudit(recordId, userData.uid, userData.email);
               loadEnvRecords();
               Alert.alert('Success', 'Record deleted');
             } catch (error) {
@@ -333,7 +392,7 @@ export default function EnvironmentLogsScreen() {
         plantCount: selectedPlants.length,
       };
       
-      await updateBulkPlantLog(editingBulkLog.id, updateData);
+      await updateBulkPlantLogWithAudit(editingBulkLog.id, updateData, userData.uid, userData.email, editingBulkLog.updatedAt ?? editingBulkLog.createdAt);
       
       // Also update individual plant logs if plantIds changed
       // For simplicity, we'll delete old individual logs and create new ones
@@ -368,8 +427,9 @@ export default function EnvironmentLogsScreen() {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
+            if (!userData) return;
             try {
-              await deleteBulkPlantLog(logId);
+              await deleteBulkPlantLogWithAudit(logId, userData.uid, userData.email);
               loadEnvRecords();
               Alert.alert('Success', 'Bulk log deleted');
             } catch (error) {
@@ -412,8 +472,9 @@ export default function EnvironmentLogsScreen() {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
+            if (!userData) return;
             try {
-              await deleteBulkEnvironmentRecords(selectedRecordIds);
+              await deleteBulkEnvironmentRecordsWithAudit(selectedRecordIds, userData.uid, userData.email);
               setSelectedRecordIds([]);
               setBulkSelectMode(false);
               loadEnvRecords();
@@ -442,8 +503,9 @@ export default function EnvironmentLogsScreen() {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
+            if (!userData) return;
             try {
-              await deleteBulkPlantLogsMultiple(selectedBulkLogIds);
+              await deleteBulkPlantLogsMultipleWithAudit(selectedBulkLogIds, userData.uid, userData.email);
               setSelectedBulkLogIds([]);
               setBulkSelectMode(false);
               loadEnvRecords();
@@ -489,8 +551,18 @@ export default function EnvironmentLogsScreen() {
     );
   }
 
+  // Target bands for the stage most plants in the selected environment are in
+  const climateTargets = CLIMATE_TARGETS[getEnvironmentStage(plants)];
+
+  const isOutOfRange = (record: EnvironmentRecord, metric: keyof typeof climateTargets) => {
+    const target = climateTargets[metric];
+    const value = getMetricValue(record, metric, selectedEnvironment);
+    return !!target && value !== undefined && (value < target.min || value > target.max);
+  };
+
   const renderEnvironmentRecord = ({ item }: { item: EnvironmentRecord }) => {
     const isSelected = selectedRecordIds.includes(item.id);
+    const dli = getMetricValue(item, 'dli', selectedEnvironment);
     
     return (
       <Card>
@@ -513,17 +585,33 @@ export default function EnvironmentLogsScreen() {
               <View style={styles.statsRow}>
                 <View style={styles.stat}>
                   <Ionicons name="thermometer-outline" size={16} color="#FF5722" />
-                  <Text style={styles.statText}>{item.temp}°C</Text>
+                  <Text style={[styles.statText, isOutOfRange(item, 'temp') && styles.statTextAlert]}>{item.temp}°C</Text>
                 </View>
                 <View style={styles.stat}>
                   <Ionicons name="water-outline" size={16} color="#2196F3" />
-                  <Text style={styles.statText}>{item.humidity}%</Text>
+                  <Text style={[styles.statText, isOutOfRange(item, 'humidity') && styles.statTextAlert]}>{item.humidity}%</Text>
                 </View>
                 <View style={styles.stat}>
                   <Ionicons name="sunny-outline" size={16} color="#FFC107" />
-                  <Text style={styles.statText}>{item.lightHours}h</Text>
+                  <Text style={[styles.statText, isOutOfRange(item, 'lightHours') && styles.statTextAlert]}>{item.lightHours}h</Text>
                 </View>
               </View>
+              <View style={styles.statsRow}>
+                <View style={styles.stat}>
+                  <Ionicons name="speedometer-outline" size={16} color="#009688" />
+                  <Text style={[styles.statText, isOutOfRange(item, 'vpd') && styles.statTextAlert]}>
+                    VPD {formatMetricValue('vpd', calculateVpd(item.temp, item.humidity))}
+                  </Text>
+                </View>
+                {dli !== undefined && (
+                  <View style={styles.stat}>
+                    <Ionicons name="flash-outline" size={16} color="#FFC107" />
+                    <Text style={[styles.statText, isOutOfRange(item, 'dli') && styles.statTextAlert]}>
+                      DLI {formatMetricValue('dli', dli)}
+                    </Text>
+                  </View>
+                )}
+              </View>
               <Text style={styles.recordDate}>
                 {format(new Date(item.date), 'MMM dd, yyyy - HH:mm')}
               </Text>
@@ -867,6 +955,13 @@ export default function EnvironmentLogsScreen() {
                 placeholder="e.g., 18"
                 keyboardType="decimal-pad"
               />
+              <Input
+                label="PPFD (µmol/m²/s, optional)"
+                value={ppfd}
+                onChangeText={setPpfd}
+                placeholder="e.g., 800 - used to calculate DLI"
+                keyboardType="decimal-pad"
+              />
               <Input
                 label="Notes (optional)"
                 value={notes}
@@ -886,6 +981,7 @@ export default function EnvironmentLogsScreen() {
                   setTemp('');
                   setHumidity('');
                   setLightHours('');
+                  setPpfd('');
                   setNotes('');
                 }}
                 variant="secondary"
@@ -1026,6 +1122,13 @@ export default function EnvironmentLogsScreen() {
                 placeholder="e.g., 18"
                 keyboardType="decimal-pad"
               />
+              <Input
+                label="PPFD (µmol/m²/s, optional)"
+                value={ppfd}
+                onChangeText={setPpfd}
+                placeholder="e.g., 800 - used to calculate DLI"
+                keyboardType="decimal-pad"
+              />
               <Input
                 label="Notes (optional)"
                 value={notes}
@@ -1110,6 +1213,7 @@ export default function EnvironmentLogsScreen() {
                 onCancel={() => setModalVisible(false)}
                 submitLabel={`Apply to ${selectedPlants.length} Plants`}
                 isLoading={submitting}
+                plannedFeed={plannedFeed}
               />
             )}
           </View>
@@ -1296,6 +1400,9 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#333',
   },
+  statTextAlert: {
+    color: '#F44336',
+  },
   recordDate: {
     fontSize: 12,
     color: '#999',
@@ -14,13 +14,16 @@ import {
 import { useAuth } from '../../../contexts/AuthContext';
 import {
   getPlantsForContext,
-  createPlantLog,
-  updatePlantLog,
-  deletePlantLog,
   getPlantLog,
   getPlantLogs,
 } from '../../../firebase/firestore';
-import { Plant, PlantLog, PlantLogType } from '../../../types';
+import {
+  createPlantLogWithAudit,
+  deletePlantLogWithAudit,
+  updatePlantLogWithAudit,
+} from '../../../firebase/auditedFirestore';
+import { getNutrientSchedulesForContext, getPlannedFeedForPlant } from '../../../firebase/nutrientSchedules';
+import { NutrientSchedule, Plant, PlannedFeed, PlantLog, PlantLogType } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
 import { Loading } from '../../../components/Loading';
@@ -39,6 +42,8 @@ export default function PlantLogScreen() {
   const [submitting, setSubmitting] = useState(false);
   const [editingLog, setEditingLog] = useState<PlantLog | null>(null);
   const [editModalVisible, setEditModalVisible] = useState(false);
+  const [schedules, setSchedules] = useState<NutrientSchedule[]>([]);
+  const [plannedFeed, setPlannedFeed] = useState<PlannedFeed | null>(null);
   const { userData, currentAssociation } = useAuth();
 
   const loadPlants = async () => {
@@ -69,10 +74,36 @@ export default function PlantLogScreen() {
     }
   };
 
+  const loadSchedules = async () => {
+    if (!userData) return;
+
+    try {
+      setSchedules(await getNutrientSchedulesForContext(userData.uid, currentAssociation?.id));
+    } catch (error: any) {
+      console.warn('[PlantLog] Failed to load nutrient schedules:', error.message);
+      setSchedules([]);
+    }
+  };
+
   useEffect(() => {
     loadPlants();
+    loadSchedules();
   }, [userData, currentAssociation]);
 
+  useEffect(() => {
+    if (!selectedPlant || schedules.length === 0) {
+      setPlannedFeed(null);
+      return;
+    }
+
+    getPlannedFeedForPlant(selectedPlant, schedules)
+      .then(setPlannedFeed)
+      .catch(error => {
+        console.warn('[PlantLog] Failed to resolve feed plan:', error.message);
+        setPlannedFeed(null);
+      });
+  }, [selectedPlant, schedules]);
+
   useEffect(() => {
     if (selectedPlant) {
       loadRecentLogs();
@@ -99,7 +130,7 @@ export default function PlantLogScreen() {
         logData.associationId = currentAssociation.id;
       }
       
-      await createPlantLog(logData);
+      await createPlantLogWithAudit(logData, userData.email);
 
       setModalVisible(false);
       loadRecentLogs();
@@ -123,11 +154,11 @@ export default function PlantLogScreen() {
   };
 
   const handleSaveEditLog = async (formData: any) => {
-    if (!editingLog) return;
+    if (!editingLog || !userData) return;
 
     setSubmitting(true);
     try {
-      await updatePlantLog(editingLog.id, formData);
+      await updatePlantLogWithAudit(editingLog.id, formData, userData.uid, userData.email, editingLog.updatedAt ?? editingLog.createdAt);
       setEditModalVisible(false);
       setEditingLog(null);
       loadRecentLogs();
@@ -149,8 +180,9 @@ export default function PlantLogScreen() {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
+            if (!userData) return;
             try {
-              await deletePlantLog(logId);
+              await deletePlantLogWithAudit(logId, userData.uid, userData.email);
               loadRecentLogs();
               Alert.alert('Success', 'Log deleted');
             } catch (error) {
@@ -437,6 +469,7 @@ export default function PlantLogScreen() {
               onCancel={() => setModalVisible(false)}
               submitLabel="Save Activity Log"
               isLoading={submitting}
+              plannedFeed={plannedFeed}
             />
           </View>
         </KeyboardAvoidingView>
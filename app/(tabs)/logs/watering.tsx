@@ -16,9 +16,8 @@ import { useAuth } from '../../../contexts/AuthContext';
 import {
   getPlantsForContext,
   getPlantLogs,
-  createPlantLog,
-  deletePlantLog,
 } from '../../../firebase/firestore';
+import { createPlantLogWithAudit, deletePlantLogWithAudit } from '../../../firebase/auditedFirestore';
 import { Plant, PlantLog } from '../../../types';
 import { getLogTypeInfo } from '../../../components/LogTypeSelector';
 import { Card } from '../../../components/Card';
@@ -109,7 +108,7 @@ export default function WateringLogsScreen() {
         logData.associationId = currentAssociation.id;
       }
       
-      await createPlantLog(logData);
+      await createPlantLogWithAudit(logData, userData.email);
 
       setModalVisible(false);
       setIngredients('');
@@ -131,8 +130,9 @@ export default function WateringLogsScreen() {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
+            if (!userData) return;
             try {
-              await deletePlantLog(logId);
+              await deletePlantLogWithAudit(logId, userData.uid, userData.email);
               loadWaterLogs();
               Alert.alert('Success', 'Log deleted');
             } catch (error: any) {
@@ -16,11 +16,13 @@ import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router';
 import { useAuth } from '../../../contexts/AuthContext';
 import {
   getPatient,
-  updatePatient,
-  deactivatePatient,
-  deletePatient,
   getPatientDistributions,
 } from '../../../firebase/firestore';
+import {
+  updatePatientWithAudit,
+  deactivatePatientWithAudit,
+  deletePatientWithAudit,
+} from '../../../firebase/auditedFirestore';
 import { Patient, PatientStatus, PatientDocumentType, Distribution, ProductType } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
@@ -28,6 +30,8 @@ import { Input } from '../../../components/Input';
 import { DatePicker } from '../../../components/DatePicker';
 import { Loading } from '../../../components/Loading';
 import { AuditHistoryModal } from '../../../components/AuditHistoryModal';
+import { exportToPDF } from '../../../utils/exportData';
+import { getPdfBrandingForRecord, renderPatientHistoryHtml } from '../../../utils/pdfReports';
 import { format } from 'date-fns';
 import { Ionicons } from '@expo/vector-icons';
 
@@ -98,6 +102,7 @@ export default function PatientDetailScreen() {
   const [editModalVisible, setEditModalVisible] = useState(false);
   const [statusModalVisible, setStatusModalVisible] = useState(false);
   const [auditHistoryVisible, setAuditHistoryVisible] = useState(false);
+  const [printing, setPrinting] = useState(false);
 
   // Edit form state
   const [editName, setEditName] = useState('');
@@ -132,12 +137,9 @@ export default function PatientDetailScreen() {
     }
 
     try {
-      const [patientData, distributionsData] = await Promise.all([
-        getPatient(id),
-        getPatientDistributions(id),
-      ]);
+      const patientData = await getPatient(id);
       setPatient(patientData);
-      setDistributions(distributionsData);
+      setDistributions(patientData ? await getPatientDistributions(id, patientData) : []);
     } catch (error: any) {
       console.error('[PatientDetail] Error loading patient:', error);
       Alert.alert('Error', 'Failed to load patient data');
@@ -180,7 +182,7 @@ export default function PatientDetailScreen() {
   };
 
   const handleEditSave = async () => {
-    if (!patient || !id || typeof id !== 'string') return;
+    if (!patient || !id || typeof id !== 'string' || !userData) return;
 
     if (!editName.trim() || !editDocumentNumber.trim()) {
       Alert.alert('Error', 'Name and document number are required');
@@ -188,7 +190,7 @@ export default function PatientDetailScreen() {
     }
 
     try {
-      await updatePatient(id, {
+      await updatePatientWithAudit(id, {
         name: editName.trim(),
         documentType: editDocumentType,
         documentNumber: editDocumentNumber.trim(),
@@ -210,7 +212,7 @@ export default function PatientDetailScreen() {
         allowanceExtractGrams: editAllowanceExtractGrams ? parseFloat(editAllowanceExtractGrams) : undefined,
         allowanceFlowerThcGrams: editAllowanceFlowerThcGrams ? parseFloat(editAllowanceFlowerThcGrams) : undefined,
         allowanceFlowerCbdGrams: editAllowanceFlowerCbdGrams ? parseFloat(editAllowanceFlowerCbdGrams) : undefined,
-      });
+      }, userData.uid, userData.email);
 
       setEditModalVisible(false);
       loadPatient();
@@ -221,10 +223,10 @@ export default function PatientDetailScreen() {
   };
 
   const handleStatusChange = async (newStatus: PatientStatus) => {
-    if (!patient || !id || typeof id !== 'string') return;
+    if (!patient || !id || typeof id !== 'string' || !userData) return;
 
     try {
-      await updatePatient(id, { status: newStatus });
+      await updatePatientWithAudit(id, { status: newStatus }, userData.uid, userData.email);
       setStatusModalVisible(false);
       loadPatient();
       Alert.alert('Success', `Patient status changed to ${STATUS_LABELS[newStatus]}`);
@@ -243,9 +245,9 @@ export default function PatientDetailScreen() {
           text: 'Deactivate',
           style: 'destructive',
           onPress: async () => {
-            if (!id || typeof id !== 'string') return;
+            if (!id || typeof id !== 'string' || !userData) return;
             try {
-              await deactivatePatient(id);
+              await deactivatePatientWithAudit(id, userData.uid, userData.email);
               loadPatient();
               Alert.alert('Done', 'Patient deactivated');
             } catch (error) {
@@ -267,9 +269,9 @@ export default function PatientDetailScreen() {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
-            if (!id || typeof id !== 'string') return;
+            if (!id || typeof id !== 'string' || !userData) return;
             try {
-              await deletePatient(id);
+              await deletePatientWithAudit(id, userData.uid, userData.email);
               Alert.alert('Done', 'Patient deleted', [
                 { text: 'OK', onPress: () => router.back() },
               ]);
@@ -282,6 +284,22 @@ export default function PatientDetailScreen() {
     );
   };
 
+  const handleExportHistory = async () => {
+    if (!patient) return;
+
+    setPrinting(true);
+    try {
+      const branding = await getPdfBrandingForRecord(patient.associationId);
+      const html = renderPatientHistoryHtml(patient, distributions, branding);
+      await exportToPDF(html, `dispensation_history_${patient.name.replace(/\s+/g, '_')}`);
+    } catch (error: any) {
+      console.error('[PatientDetail] Error exporting history:', error);
+      Alert.alert('Error', 'Failed to export dispensation history: ' + (error.message || 'Unknown error'));
+    } finally {
+      setPrinting(false);
+    }
+  };
+
   const openUrl = (url: string) => {
     Linking.openURL(url).catch(() => {
       Alert.alert('Error', 'Could not open URL');
@@ -625,6 +643,20 @@ export default function PatientDetailScreen() {
           </View>
         </Card>
 
+        {/* Dispensation History PDF */}
+        {distributions.length > 0 && (
+          <TouchableOpacity
+            style={styles.historyButton}
+            onPress={handleExportHistory}
+            disabled={printing}
+          >
+            <Ionicons name="print-outline" size={20} color="#607D8B" />
+            <Text style={styles.historyButtonText}>
+              {printing ? 'Generating PDF...' : 'Dispensation History (PDF)'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* View History Button */}
         <TouchableOpacity
           style={styles.historyButton}
@@ -657,6 +689,7 @@ export default function PatientDetailScreen() {
         entityType="patient"
         entityId={id as string}
         entityDisplayName={patient?.name}
+        onRestored={loadPatient}
       />
 
       {/* Edit Modal */}
@@ -1,38 +1,44 @@
 import React from 'react';
 import { Stack } from 'expo-router';
+import { usePermissions } from '../../../hooks/usePermissions';
+import { RouteGuard } from '../../../components/RouteGuard';
 
 export default function PatientsLayout() {
+  const { canManagePatients, loading } = usePermissions();
+
   return (
-    <Stack
-      screenOptions={{
-        headerStyle: {
-          backgroundColor: '#0288D1', // Medical blue
-        },
-        headerTintColor: '#fff',
-        headerTitleStyle: {
-          fontWeight: 'bold',
-        },
-      }}
-    >
-      <Stack.Screen
-        name="index"
-        options={{
-          title: 'Patients',
-        }}
-      />
-      <Stack.Screen
-        name="new"
-        options={{
-          title: 'Register Patient',
-        }}
-      />
-      <Stack.Screen
-        name="[id]"
-        options={{
-          title: 'Patient Details',
+    <RouteGuard allowed={canManagePatients} loading={loading}>
+      <Stack
+        screenOptions={{
+          headerStyle: {
+            backgroundColor: '#0288D1', // Medical blue
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
         }}
-      />
-    </Stack>
+      >
+        <Stack.Screen
+          name="index"
+          options={{
+            title: 'Patients',
+          }}
+        />
+        <Stack.Screen
+          name="new"
+          options={{
+            title: 'Register Patient',
+          }}
+        />
+        <Stack.Screen
+          name="[id]"
+          options={{
+            title: 'Patient Details',
+          }}
+        />
+      </Stack>
+    </RouteGuard>
   );
 }
 
@@ -11,7 +11,8 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useAuth } from '../../../contexts/AuthContext';
-import { createPatient } from '../../../firebase/firestore';
+import { createPatientWithAudit } from '../../../firebase/auditedFirestore';
+
 import { PatientStatus, PatientDocumentType } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
@@ -120,7 +121,7 @@ export default function NewPatientScreen() {
         patientData.associationId = currentAssociation.id;
       }
       
-      await createPatient(patientData);
+      await createPatientWithAudit(patientData, userData.email);
 
       showSuccess('Patient registered successfully!', 'Success', () => router.back());
     } catch (error: any) {
@@ -13,6 +13,7 @@ import {
   Switch,
   Linking,
   RefreshControl,
+  Image,
 } from 'react-native';
 import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router';
 import { useTranslation } from 'react-i18next';
@@ -21,21 +22,25 @@ import {
   getPlant,
   getPlantStages,
   getEnvironment,
-  deletePlant,
-  createStage,
-  updatePlant,
-  updateStage,
-  deleteStage,
   getUserEnvironments,
   getUserPlants,
-  clonePlants,
   getPlantHarvests,
-  updateHarvest,
   getPlantLogs,
   getAllLogsForPlant,
   getSeedGenetic,
 } from '../../../firebase/firestore';
-import { Plant, Stage, StageName, Environment, PlantSourceType, GeneticInfo, Chemotype, Harvest, HarvestStatus, HarvestPurpose, PlantLog, BulkPlantLog, SeedGenetic, SeedType, PlantDominance } from '../../../types';
+import {
+  deletePlantWithAudit,
+  updatePlantWithAudit,
+  clonePlantsWithAudit,
+  createStageWithAudit,
+  updateStageWithAudit,
+  deleteStageWithAudit,
+  updateHarvestWithAudit,
+} from '../../../firebase/auditedFirestore';
+import { getPlantPhotoTimeline } from '../../../firebase/photos';
+import { getPlantForecast } from '../../../firebase/forecasts';
+import { Plant, Stage, StageName, Environment, PlantSourceType, GeneticInfo, Chemotype, Harvest, HarvestStatus, HarvestPurpose, PlantLog, BulkPlantLog, SeedGenetic, SeedType, PlantDominance, PlantPhotoEntry, PlantForecast, StageHistory } from '../../../types';
 import { getLogTypeInfo } from '../../../components/LogTypeSelector';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
@@ -43,6 +48,7 @@ import { Input } from '../../../components/Input';
 import { DatePicker } from '../../../components/DatePicker';
 import { Loading } from '../../../components/Loading';
 import { AuditHistoryModal } from '../../../components/AuditHistoryModal';
+import { StageForecastCard } from '../../../components/StageForecastCard';
 import { format } from 'date-fns';
 import { Ionicons } from '@expo/vector-icons';
 
@@ -150,6 +156,9 @@ export default function PlantDetailScreen() {
   const [plantLogs, setPlantLogs] = useState<PlantLog[]>([]);
   const [allLogs, setAllLogs] = useState<{ type: 'individual' | 'bulk'; log: PlantLog | BulkPlantLog }[]>([]);
   const [harvests, setHarvests] = useState<Harvest[]>([]);
+  const [photos, setPhotos] = useState<PlantPhotoEntry[]>([]);
+  const [selectedPhoto, setSelectedPhoto] = useState<PlantPhotoEntry | null>(null);
+  const [forecast, setForecast] = useState<{ forecast: PlantForecast; history: StageHistory } | null>(null);
   const [loading, setLoading] = useState(true);
   
   // Edit modal state
@@ -197,7 +206,7 @@ export default function PlantDetailScreen() {
   const [editStageDate, setEditStageDate] = useState<Date | null>(null);
   const [updatingStage, setUpdatingStage] = useState(false);
   
-  const { userData } = useAuth();
+  const { userData, currentAssociation } = useAuth();
   const router = useRouter();
 
   const loadPlantData = async () => {
@@ -224,7 +233,7 @@ export default function PlantDetailScreen() {
 
       const [stagesData, harvestsData] = await Promise.all([
         getPlantStages(id),
-        getPlantHarvests(id),
+        getPlantHarvests(id, plantData),
       ]);
       
       // Load all logs (individual + bulk) - may fail if index is still building
@@ -247,6 +256,14 @@ export default function PlantDetailScreen() {
         }
       }
 
+      // Photo timeline is supplementary - don't fail the screen if it can't load
+      let photosData: PlantPhotoEntry[] = [];
+      try {
+        photosData = await getPlantPhotoTimeline(plantData);
+      } catch (photoError: any) {
+        console.warn('[PlantDetail] Failed to load photo timeline:', photoError.message);
+      }
+
       console.log('[PlantDetail] Plant data loaded:', plantData);
       setPlant(plantData);
       setEnvironment(envData);
@@ -254,6 +271,7 @@ export default function PlantDetailScreen() {
       setPlantLogs(plantLogsData);
       setAllLogs(allLogsData);
       setHarvests(harvestsData);
+      setPhotos(photosData);
 
       // Load parent plant if this is a clone
       if (plantData.genetics?.parentPlantId || plantData.motherPlantId) {
@@ -265,16 +283,27 @@ export default function PlantDetailScreen() {
       }
 
       // Load seed genetic library entry if linked
+      let geneticData: SeedGenetic | null = null;
       if (plantData.genetics?.seedGeneticId) {
         try {
-          const genetic = await getSeedGenetic(plantData.genetics.seedGeneticId);
-          setSeedGenetic(genetic);
+          geneticData = await getSeedGenetic(plantData.genetics.seedGeneticId);
+          setSeedGenetic(geneticData);
         } catch (error) {
           console.warn('[PlantDetail] Failed to load seed genetic:', error);
         }
       } else {
         setSeedGenetic(null);
       }
+
+      // Forecast is supplementary too - it reads past plants of the same strain
+      if (userData) {
+        try {
+          setForecast(await getPlantForecast(plantData, stagesData, geneticData, userData.uid, currentAssociation?.id));
+        } catch (forecastError: any) {
+          console.warn('[PlantDetail] Failed to load stage forecast:', forecastError.message);
+          setForecast(null);
+        }
+      }
     } catch (error: any) {
       console.error('[PlantDetail] Error loading plant data:', error);
       Alert.alert('Error', 'Failed to load plant data: ' + (error.message || 'Unknown error'));
@@ -338,9 +367,9 @@ export default function PlantDetailScreen() {
           text: 'Archive',
           style: 'destructive',
           onPress: async () => {
-            if (!id || typeof id !== 'string') return;
+            if (!id || typeof id !== 'string' || !userData) return;
             try {
-              await deletePlant(id);
+              await deletePlantWithAudit(id, userData.uid, userData.email);
               Alert.alert('Success', 'Plant archived successfully', [
                 { text: 'OK', onPress: () => router.back() },
               ]);
@@ -382,20 +411,20 @@ export default function PlantDetailScreen() {
           {
             text: 'Update',
             onPress: async () => {
-              if (!id || typeof id !== 'string') return;
+              if (!id || typeof id !== 'string' || !userData) return;
               try {
                 const now = Date.now();
-                await createStage({
+                await createStageWithAudit({
                   plantId: id,
                   name: 'Drying',
                   startDate: now,
-                });
-                await updatePlant(id, { currentStage: 'Drying' });
+                }, userData.uid, userData.email);
+                await updatePlantWithAudit(id, { currentStage: 'Drying' }, userData.uid, userData.email);
                 
                 // Update the latest harvest status to 'drying'
                 const latestHarvest = harvests[0]; // harvests are ordered by date desc
                 if (latestHarvest && latestHarvest.status === 'fresh') {
-                  await updateHarvest(latestHarvest.id, { status: 'drying' });
+                  await updateHarvestWithAudit(latestHarvest.id, { status: 'drying' }, userData.uid, userData.email);
                 }
                 
                 loadPlantData();
@@ -438,15 +467,15 @@ export default function PlantDetailScreen() {
               {
                 text: 'Update',
                 onPress: async () => {
-                  if (!id || typeof id !== 'string') return;
+                  if (!id || typeof id !== 'string' || !userData) return;
                   try {
                     const now = Date.now();
-                    await createStage({
+                    await createStageWithAudit({
                       plantId: id,
                       name: 'Curing',
                       startDate: now,
-                    });
-                    await updatePlant(id, { currentStage: 'Curing' });
+                    }, userData.uid, userData.email);
+                    await updatePlantWithAudit(id, { currentStage: 'Curing' }, userData.uid, userData.email);
                     loadPlantData();
                     Alert.alert('Success', 'Stage updated!');
                   } catch (error) {
@@ -486,15 +515,15 @@ export default function PlantDetailScreen() {
         {
           text: 'Update',
           onPress: async () => {
-            if (!id || typeof id !== 'string') return;
+            if (!id || typeof id !== 'string' || !userData) return;
             try {
               const now = Date.now();
-              await createStage({
+              await createStageWithAudit({
                 plantId: id,
                 name: newStage,
                 startDate: now,
-              });
-              await updatePlant(id, { currentStage: newStage });
+              }, userData.uid, userData.email);
+              await updatePlantWithAudit(id, { currentStage: newStage }, userData.uid, userData.email);
               loadPlantData();
               Alert.alert('Success', 'Stage updated!');
             } catch (error) {
@@ -508,7 +537,7 @@ export default function PlantDetailScreen() {
   
   // Handle curing transition with dry weight data
   const handleCuringSubmit = async () => {
-    if (!selectedHarvestForCuring || !id || typeof id !== 'string') return;
+    if (!selectedHarvestForCuring || !id || typeof id !== 'string' || !userData) return;
     
     // Validate dry weight
     const dryWeightNum = parseFloat(curingDryWeight);
@@ -535,12 +564,12 @@ export default function PlantDetailScreen() {
       const now = Date.now();
       
       // Update plant stage to Curing
-      await createStage({
+      await createStageWithAudit({
         plantId: id,
         name: 'Curing',
         startDate: now,
-      });
-      await updatePlant(id, { currentStage: 'Curing' });
+      }, userData.uid, userData.email);
+      await updatePlantWithAudit(id, { currentStage: 'Curing' }, userData.uid, userData.email);
       
       // Update harvest with dry weight and status
       const harvestUpdate: Partial<Harvest> = {
@@ -565,7 +594,7 @@ export default function PlantDetailScreen() {
           : `[Curing] ${curingWasteNotes.trim()}`;
       }
       
-      await updateHarvest(selectedHarvestForCuring.id, harvestUpdate);
+      await updateHarvestWithAudit(selectedHarvestForCuring.id, harvestUpdate, userData.uid, userData.email);
       
       // Calculate drying loss percentage
       const dryingLoss = ((selectedHarvestForCuring.wetWeightGrams - dryWeightNum) / selectedHarvestForCuring.wetWeightGrams * 100).toFixed(1);
@@ -621,7 +650,7 @@ export default function PlantDetailScreen() {
       return;
     }
 
-    if (!id || typeof id !== 'string' || !plant) return;
+    if (!id || typeof id !== 'string' || !plant || !userData) return;
 
     try {
       // Build updated genetics - only include fields that have values
@@ -683,7 +712,7 @@ export default function PlantDetailScreen() {
       // Handle isMotherPlant - explicitly set true or false
       updateData.isMotherPlant = editIsMotherPlant;
 
-      await updatePlant(id, updateData);
+      await updatePlantWithAudit(id, updateData, userData.uid, userData.email);
       setEditModalVisible(false);
       loadPlantData();
       Alert.alert('Success', 'Plant updated!');
@@ -714,13 +743,13 @@ export default function PlantDetailScreen() {
 
     setCloning(true);
     try {
-      await clonePlants({
+      await clonePlantsWithAudit({
         sourcePlant: plant,
         targetEnvironmentId: cloneEnvironment.id,
         numberOfClones: count,
         stage: cloneStage,
         userId: userData.uid,
-      });
+      }, userData.email);
 
       setCloneModalVisible(false);
       Alert.alert('Success', `Created ${count} clone(s) successfully!`, [
@@ -811,13 +840,13 @@ export default function PlantDetailScreen() {
   };
 
   const handleStageEditSave = async () => {
-    if (!selectedStage || !editStageDate) return;
+    if (!selectedStage || !editStageDate || !userData) return;
     
     setUpdatingStage(true);
     try {
-      await updateStage(selectedStage.id, {
+      await updateStageWithAudit(selectedStage.id, {
         startDate: editStageDate.getTime(),
-      });
+      }, userData.uid, userData.email);
       setStageEditModalVisible(false);
       loadPlantData();
       Alert.alert('Success', 'Stage date updated!');
@@ -830,7 +859,7 @@ export default function PlantDetailScreen() {
   };
 
   const handleStageDelete = () => {
-    if (!selectedStage) return;
+    if (!selectedStage || !userData) return;
     
     Alert.alert(
       'Delete Stage',
@@ -842,7 +871,7 @@ export default function PlantDetailScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await deleteStage(selectedStage.id);
+              await deleteStageWithAudit(selectedStage.id, userData.uid, userData.email);
               setStageEditModalVisible(false);
               loadPlantData();
               Alert.alert('Success', 'Stage record deleted!');
@@ -1242,6 +1271,11 @@ export default function PlantDetailScreen() {
           </View>
         </Card>
 
+        {/* Projected Timeline */}
+        {forecast && !plant.deletedAt && (
+          <StageForecastCard forecast={forecast.forecast} history={forecast.history} />
+        )}
+
         {/* Stage History */}
         <Card>
           <View style={styles.sectionHeader}>
@@ -1458,6 +1492,37 @@ export default function PlantDetailScreen() {
           )}
         </Card>
 
+        {/* Photo Timeline */}
+        {photos.length > 0 && (
+          <Card>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Photos ({photos.length})</Text>
+            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {photos.map((photo) => (
+                <TouchableOpacity
+                  key={photo.id}
+                  style={styles.photoItem}
+                  onPress={() => setSelectedPhoto(photo)}
+                >
+                  <Image
+                    source={{ uri: photo.thumbnailUrl || photo.photoUrl }}
+                    style={styles.photoThumbnail}
+                  />
+                  <Text style={styles.photoDate}>
+                    {format(new Date(photo.date), 'MMM dd, yyyy')}
+                  </Text>
+                  <Text style={styles.photoLabel} numberOfLines={1}>
+                    {photo.source === 'harvest'
+                      ? 'Harvest'
+                      : photo.logType ? getLogTypeInfo(photo.logType).label : 'Log'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </Card>
+        )}
+
         {/* Harvests Section */}
         <Card>
           <View style={styles.sectionHeader}>
@@ -1952,6 +2017,33 @@ export default function PlantDetailScreen() {
         </View>
       </Modal>
 
+      {/* Photo Viewer Modal */}
+      <Modal
+        visible={!!selectedPhoto}
+        animationType="fade"
+        transparent
+        onRequestClose={() => setSelectedPhoto(null)}
+      >
+        <View style={styles.photoViewerOverlay}>
+          <TouchableOpacity style={styles.photoViewerClose} onPress={() => setSelectedPhoto(null)}>
+            <Ionicons name="close" size={28} color="#fff" />
+          </TouchableOpacity>
+          {selectedPhoto && (
+            <>
+              <Image
+                source={{ uri: selectedPhoto.photoUrl }}
+                style={styles.photoViewerImage}
+                resizeMode="contain"
+              />
+              <Text style={styles.photoViewerCaption}>
+                {format(new Date(selectedPhoto.date), 'MMM dd, yyyy HH:mm')}
+                {selectedPhoto.caption ? ` · ${selectedPhoto.caption}` : ''}
+              </Text>
+            </>
+          )}
+        </View>
+      </Modal>
+
       {/* Audit History Modal */}
       <AuditHistoryModal
         visible={auditHistoryVisible}
@@ -1959,6 +2051,7 @@ export default function PlantDetailScreen() {
         entityType="plant"
         entityId={id as string}
         entityDisplayName={plant ? `${plant.strain} #${plant.controlNumber}` : undefined}
+        onRestored={loadPlantData}
       />
 
       {/* Curing Transition Modal - Collect Dry Weight */}
@@ -3365,4 +3458,49 @@ const styles = StyleSheet.create({
     color: '#F44336',
     fontWeight: '500',
   },
+  // Photo timeline
+  photoItem: {
+    width: 110,
+    marginRight: 12,
+  },
+  photoThumbnail: {
+    width: 110,
+    height: 110,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  photoDate: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 6,
+  },
+  photoLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#333',
+  },
+  photoViewerOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  photoViewerClose: {
+    position: 'absolute',
+    top: 48,
+    right: 20,
+    zIndex: 1,
+    padding: 8,
+  },
+  photoViewerImage: {
+    width: '100%',
+    height: '75%',
+  },
+  photoViewerCaption: {
+    color: '#fff',
+    fontSize: 14,
+    marginTop: 16,
+    textAlign: 'center',
+  },
 });
@@ -16,17 +16,20 @@ import { useAuth } from '../../../contexts/AuthContext';
 import {
   getPlant,
   getEnvironment,
-  createHarvest,
-  createStage,
-  updatePlant,
   updateHarvest,
 } from '../../../firebase/firestore';
-import { Plant, Environment, StageName, HarvestPurpose, HarvestStatus } from '../../../types';
+import {
+  createHarvestWithAudit,
+  createStageWithAudit,
+  updatePlantWithAudit,
+} from '../../../firebase/auditedFirestore';
+import { Plant, Environment, StageName, HarvestPurpose, HarvestStatus, UploadedPhoto } from '../../../types';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
 import { Input } from '../../../components/Input';
 import { DatePicker } from '../../../components/DatePicker';
 import { Loading } from '../../../components/Loading';
+import { PhotoPicker } from '../../../components/PhotoPicker';
 import { format } from 'date-fns';
 import { Ionicons } from '@expo/vector-icons';
 import { showSuccess, showError, showWarning } from '../../../utils/toast';
@@ -62,6 +65,7 @@ export default function HarvestScreen() {
   const [qualityGrade, setQualityGrade] = useState<'A' | 'B' | 'C' | null>(null);
   const [storageLocation, setStorageLocation] = useState('');
   const [notes, setNotes] = useState('');
+  const [photo, setPhoto] = useState<UploadedPhoto | null>(null);
   const [updateStageToDrying, setUpdateStageToDrying] = useState(true); // Default to true for better workflow
 
   // Modals
@@ -145,6 +149,7 @@ export default function HarvestScreen() {
         ...(qualityGrade && { qualityGrade }),
         ...(storageLocation.trim() && { storageLocation: storageLocation.trim() }),
         ...(notes.trim() && { notes: notes.trim() }),
+        ...(photo && { photoUrl: photo.url, photoThumbnailUrl: photo.thumbnailUrl }),
         createdAt: Date.now(),
       };
       
@@ -153,17 +158,17 @@ export default function HarvestScreen() {
         harvestData.associationId = currentAssociation.id;
       }
       
-      const harvestId = await createHarvest(harvestData);
+      const harvestId = await createHarvestWithAudit(harvestData, userData.email);
 
       // Update plant stage to Drying if selected
       if (willUpdateToDrying) {
         const now = Date.now();
-        await createStage({
+        await createStageWithAudit({
           plantId: plant.id,
           name: 'Drying',
           startDate: now,
-        });
-        await updatePlant(plant.id, { currentStage: 'Drying' });
+        }, userData.uid, userData.email);
+        await updatePlantWithAudit(plant.id, { currentStage: 'Drying' }, userData.uid, userData.email);
       }
 
       // Get the harvest to show control number
@@ -327,6 +332,15 @@ export default function HarvestScreen() {
               numberOfLines={3}
               style={styles.notesInput}
             />
+
+            {/* Photo */}
+            <PhotoPicker
+              folder="harvests"
+              label="Photo (optional)"
+              value={photo}
+              onChange={setPhoto}
+              disabled={submitting}
+            />
           </Card>
 
           {/* Update Stage Option */}
@@ -14,7 +14,10 @@ import {
 import { useRouter } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../../../contexts/AuthContext';
-import { createPlant, createStage, getEnvironmentsForContext, getPlantsForContext, generateControlNumber, getSeedGeneticsForContext } from '../../../firebase/firestore';
+import { getEnvironmentsForContext, getPlantsForContext, getSeedGeneticsForContext } from '../../../firebase/firestore';
+import { createPlantWithAudit, createStageWithAudit } from '../../../firebase/auditedFirestore';
+import { previewNextControlNumber } from '../../../firebase/sequences';
+import { getEnvironmentCode } from '../../../utils/controlNumber';
 import { StageName, Environment, Plant, PlantSourceType, GeneticInfo, Chemotype, SeedGenetic, SeedType } from '../../../types';
 import { Input } from '../../../components/Input';
 import { DatePicker } from '../../../components/DatePicker';
@@ -61,6 +64,7 @@ export default function NewPlantScreen() {
   const [environments, setEnvironments] = useState<Environment[]>([]);
   const [selectedEnvironment, setSelectedEnvironment] = useState<Environment | null>(null);
   const [envModalVisible, setEnvModalVisible] = useState(false);
+  const [controlNumberPreview, setControlNumberPreview] = useState('---');
   
   // Genetics Library Integration
   const [seedGenetics, setSeedGenetics] = useState<SeedGenetic[]>([]);
@@ -101,6 +105,32 @@ export default function NewPlantScreen() {
     loadSeedGenetics();
   }, [userData, currentAssociation]);
 
+  // Preview the next control number for the selected environment
+  useEffect(() => {
+    if (!selectedEnvironment || !userData) {
+      setControlNumberPreview('---');
+      return;
+    }
+
+    let cancelled = false;
+    previewNextControlNumber(
+      { userId: userData.uid, associationId: currentAssociation?.id },
+      'plant',
+      getEnvironmentCode(selectedEnvironment)
+    )
+      .then(preview => {
+        if (!cancelled) setControlNumberPreview(preview);
+      })
+      .catch(error => {
+        console.error('[NewPlant] Error previewing control number:', error);
+        if (!cancelled) setControlNumberPreview('---');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedEnvironment, userData, currentAssociation]);
+
   // Auto-fill genetic lineage when parent plant is selected
   useEffect(() => {
     if (selectedParentPlant) {
@@ -182,13 +212,6 @@ export default function NewPlantScreen() {
     return { plants: allPlants, hasMotherPlants: false };
   };
 
-  // Preview the next control number
-  const getNextControlNumberPreview = (): string => {
-    if (!selectedEnvironment) return '---';
-    const nextSequence = (selectedEnvironment.plantCounter || 0) + 1;
-    return generateControlNumber(nextSequence);
-  };
-
   const handleSubmit = async () => {
     if (!strain) {
       showWarning(t('plants:form.strainRequired'), t('common:error'));
@@ -264,16 +287,16 @@ export default function NewPlantScreen() {
         plantData.associationId = currentAssociation.id;
       }
       
-      const plantId = await createPlant(plantData);
+      const plantId = await createPlantWithAudit(plantData, userData.email);
       console.log('[NewPlant] Plant created with ID:', plantId);
 
       // Create initial stage
       console.log('[NewPlant] Creating initial stage');
-      await createStage({
+      await createStageWithAudit({
         plantId,
         name: selectedStage,
         startDate: now,
-      });
+      }, userData.uid, userData.email);
       console.log('[NewPlant] Stage created successfully');
 
       showSuccess(t('plants:form.createPlant') + '!', t('common:success'), () => router.replace(`/(tabs)/plants/${plantId}`));
@@ -362,7 +385,7 @@ export default function NewPlantScreen() {
                   <Text style={styles.autoBadgeText}>{t('plants:form.autoGenerated')}</Text>
                 </View>
               </View>
-              <Text style={styles.controlNumberValue}>{getNextControlNumberPreview()}</Text>
+              <Text style={styles.controlNumberValue}>{controlNumberPreview}</Text>
               <Text style={styles.controlNumberHint}>
                 {t('plants:form.controlNumberHint')}
               </Text>
@@ -0,0 +1,414 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTranslation } from 'react-i18next';
+import { useSync } from '../../contexts/SyncContext';
+import { useConfirm } from '../../contexts/ConfirmContext';
+import { getQueuedWrites, retryQueuedWrite, discardQueuedWrite } from '../../firebase/offlineQueue';
+import { QueuedWrite, QueuedWriteStatus } from '../../types';
+import { Card } from '../../components/Card';
+import { Button } from '../../components/Button';
+import { Loading } from '../../components/Loading';
+import { format } from 'date-fns';
+import { Ionicons } from '@expo/vector-icons';
+import { showSuccess, showError, showWarning } from '../../utils/toast';
+
+const STATUS_INFO: Record<QueuedWriteStatus, { icon: keyof typeof Ionicons.glyphMap; color: string }> = {
+  pending: { icon: 'cloud-upload', color: '#FF9800' },
+  failed: { icon: 'close-circle', color: '#F44336' },
+  conflict: { icon: 'git-compare', color: '#9C27B0' },
+};
+
+// Bookkeeping fields that always differ and are not worth showing in a conflict
+const IGNORED_CONFLICT_FIELDS = ['updatedAt', 'createdAt'];
+
+const formatValue = (value: any): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') {
+    const json = JSON.stringify(value);
+    return json.length > 60 ? `${json.substring(0, 57)}...` : json;
+  }
+  return String(value);
+};
+
+/**
+ * Fields where the queued edit and the server copy disagree
+ */
+const getConflictingFields = (write: QueuedWrite): { field: string; local: any; server: any }[] => {
+  const update = write.writes.find(w => w.type === 'update');
+  if (!update || !write.serverData) return [];
+
+  return Object.keys(update.data)
+    .filter(field => !IGNORED_CONFLICT_FIELDS.includes(field))
+    .filter(field => JSON.stringify(update.data[field]) !== JSON.stringify(write.serverData![field]))
+    .map(field => ({ field, local: update.data[field], server: write.serverData![field] }));
+};
+
+export default function SyncScreen() {
+  const { t } = useTranslation(['sync', 'common']);
+  const { status, syncNow } = useSync();
+  const { confirm } = useConfirm();
+  const [writes, setWrites] = useState<QueuedWrite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadWrites = async () => {
+    try {
+      setWrites(await getQueuedWrites());
+    } catch (error) {
+      console.error('[SyncScreen] Error loading queued writes:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadWrites();
+    }, [])
+  );
+
+  // Keep the list in step with background syncing
+  useEffect(() => {
+    loadWrites();
+  }, [status]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await syncNow();
+    loadWrites();
+  };
+
+  const handleRetry = async (write: QueuedWrite, force = false) => {
+    setBusyId(write.id);
+    try {
+      const result = await retryQueuedWrite(write.id, force);
+      if (!result) {
+        showSuccess(t('sync:messages.synced'), t('common:success'));
+      } else if (result.status === 'pending') {
+        showWarning(t('sync:messages.stillOffline'));
+      } else {
+        showError(t('sync:messages.stillFailing', { error: result.lastError }), t('common:error'));
+      }
+    } catch (error: any) {
+      showError(error.message, t('common:error'));
+    } finally {
+      setBusyId(null);
+      loadWrites();
+    }
+  };
+
+  const handleKeepMine = (write: QueuedWrite) => {
+    confirm({
+      title: t('sync:confirm.keepMineTitle'),
+      message: t('sync:confirm.keepMineMessage'),
+      confirmText: t('sync:actions.keepMine'),
+      cancelText: t('common:cancel'),
+      onConfirm: () => handleRetry(write, true),
+    });
+  };
+
+  const handleDiscard = (write: QueuedWrite) => {
+    confirm({
+      title: t('sync:confirm.discardTitle'),
+      message: t('sync:confirm.discardMessage'),
+      confirmText: t('sync:actions.discard'),
+      cancelText: t('common:cancel'),
+      type: 'destructive',
+      onConfirm: async () => {
+        await discardQueuedWrite(write.id);
+        showSuccess(t('sync:messages.discarded'), t('common:success'));
+        loadWrites();
+      },
+    });
+  };
+
+  const renderConflict = (write: QueuedWrite) => {
+    const fields = getConflictingFields(write);
+
+    return (
+      <View style={styles.conflictBox}>
+        <Text style={styles.conflictHint}>{t('sync:item.conflictHint')}</Text>
+        {fields.length > 0 && (
+          <View style={styles.diffTable}>
+            <View style={styles.diffRow}>
+              <Text style={[styles.diffCell, styles.diffHeader]}>{t('sync:item.field')}</Text>
+              <Text style={[styles.diffCell, styles.diffHeader]}>{t('sync:item.yours')}</Text>
+              <Text style={[styles.diffCell, styles.diffHeader]}>{t('sync:item.server')}</Text>
+            </View>
+            {fields.map(({ field, local, server }) => (
+              <View key={field} style={styles.diffRow}>
+                <Text style={[styles.diffCell, styles.diffField]}>{field}</Text>
+                <Text style={styles.diffCell}>{formatValue(local)}</Text>
+                <Text style={styles.diffCell}>{formatValue(server)}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderActions = (write: QueuedWrite) => {
+    if (busyId === write.id) {
+      return <ActivityIndicator style={styles.actionsLoading} color="#4CAF50" />;
+    }
+
+    if (write.status === 'conflict') {
+      return (
+        <View style={styles.actions}>
+          <TouchableOpacity style={[styles.actionButton, styles.primaryAction]} onPress={() => handleKeepMine(write)}>
+            <Text style={styles.primaryActionText}>{t('sync:actions.keepMine')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleDiscard(write)}>
+            <Text style={styles.actionText}>{t('sync:actions.keepServer')}</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.actions}>
+        <TouchableOpacity style={[styles.actionButton, styles.primaryAction]} onPress={() => handleRetry(write)}>
+          <Text style={styles.primaryActionText}>{t('sync:actions.retry')}</Text>
+        </TouchableOpacity>
+        {write.status === 'failed' && (
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleDiscard(write)}>
+            <Text style={[styles.actionText, styles.destructiveText]}>{t('sync:actions.discard')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return <Loading message={t('common:loading')} />;
+  }
+
+  const needsReview = writes.filter(w => w.status !== 'pending');
+  const pending = writes.filter(w => w.status === 'pending');
+
+  const renderWrite = (write: QueuedWrite) => {
+    const info = STATUS_INFO[write.status];
+
+    return (
+      <Card key={write.id}>
+        <View style={styles.itemHeader}>
+          <Ionicons name={info.icon} size={22} color={info.color} />
+          <View style={styles.itemInfo}>
+            <Text style={styles.itemTitle}>{write.description}</Text>
+            <Text style={styles.itemMeta}>
+              {t('sync:item.queuedAt', { time: format(write.queuedAt, 'MMM dd, HH:mm') })}
+              {' · '}
+              {t('sync:item.attempts', { count: write.attempts })}
+            </Text>
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: info.color }]}>
+            <Text style={styles.statusBadgeText}>{t(`sync:status.${write.status}`)}</Text>
+          </View>
+        </View>
+        {write.lastError && write.status === 'failed' && (
+          <Text style={styles.errorText}>{write.lastError}</Text>
+        )}
+        {write.status === 'conflict' && renderConflict(write)}
+        {renderActions(write)}
+      </Card>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <Card>
+          <View style={styles.summaryHeader}>
+            <Ionicons
+              name={writes.length === 0 ? 'cloud-done' : 'cloud-offline'}
+              size={32}
+              color={writes.length === 0 ? '#4CAF50' : '#FF9800'}
+            />
+            <View style={styles.itemInfo}>
+              <Text style={styles.summaryTitle}>
+                {writes.length === 0
+                  ? t('sync:summary.allSynced')
+                  : t('sync:indicator.pending', { count: writes.length })}
+              </Text>
+              {status.lastSyncedAt && (
+                <Text style={styles.itemMeta}>
+                  {t('sync:summary.lastSynced', { time: format(status.lastSyncedAt, 'MMM dd, HH:mm') })}
+                </Text>
+              )}
+            </View>
+          </View>
+          <Text style={styles.hint}>{t('sync:summary.offlineHint')}</Text>
+          {pending.length > 0 && (
+            <Button
+              title={status.state === 'syncing' ? t('sync:indicator.syncing') : t('sync:actions.syncNow')}
+              onPress={onRefresh}
+              disabled={status.state === 'syncing'}
+            />
+          )}
+        </Card>
+
+        {needsReview.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>{t('sync:summary.needsReview')}</Text>
+            {needsReview.map(renderWrite)}
+          </>
+        )}
+
+        {pending.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>{t('sync:summary.pending')}</Text>
+            {pending.map(renderWrite)}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  summaryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  summaryTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  statusBadgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#F44336',
+    marginTop: 8,
+  },
+  conflictBox: {
+    marginTop: 10,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F3E5F5',
+  },
+  conflictHint: {
+    fontSize: 13,
+    color: '#6A1B9A',
+    marginBottom: 8,
+  },
+  diffTable: {
+    borderTopWidth: 1,
+    borderTopColor: '#E1BEE7',
+  },
+  diffRow: {
+    flexDirection: 'row',
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1BEE7',
+  },
+  diffCell: {
+    flex: 1,
+    fontSize: 12,
+    color: '#333',
+    paddingRight: 6,
+  },
+  diffHeader: {
+    fontWeight: '600',
+    color: '#6A1B9A',
+  },
+  diffField: {
+    fontWeight: '500',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionsLoading: {
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: '#f0f0f0',
+  },
+  primaryAction: {
+    backgroundColor: '#4CAF50',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  primaryActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  destructiveText: {
+    color: '#F44336',
+  },
+});
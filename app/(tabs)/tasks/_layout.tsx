@@ -0,0 +1,39 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { usePermissions } from '../../../hooks/usePermissions';
+import { RouteGuard } from '../../../components/RouteGuard';
+
+export default function TasksLayout() {
+  const { t } = useTranslation('tasks');
+  const { canManagePlants, loading } = usePermissions();
+
+  return (
+    <RouteGuard allowed={canManagePlants} loading={loading}>
+      <Stack
+        screenOptions={{
+          headerStyle: {
+            backgroundColor: '#FF9800',
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }}
+      >
+        <Stack.Screen
+          name="index"
+          options={{
+            title: t('title'),
+          }}
+        />
+        <Stack.Screen
+          name="new"
+          options={{
+            title: t('newTask'),
+          }}
+        />
+      </Stack>
+    </RouteGuard>
+  );
+}
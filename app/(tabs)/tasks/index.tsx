@@ -0,0 +1,384 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useConfirm } from '../../../contexts/ConfirmContext';
+import { usePermissions } from '../../../hooks/usePermissions';
+import { getTasksForContext } from '../../../firebase/tasks';
+import { completeTaskWithAudit, deleteTaskWithAudit } from '../../../firebase/auditedFirestore';
+import { syncTaskReminders } from '../../../services/taskReminders';
+import { GROW_TASK_PRESETS, groupTasksByDue } from '../../../utils/growTasks';
+import { GrowTask } from '../../../types';
+import { Card } from '../../../components/Card';
+import { Button } from '../../../components/Button';
+import { Loading } from '../../../components/Loading';
+import { showError, showSuccess } from '../../../utils/toast';
+
+type TaskFilter = 'mine' | 'all';
+
+export default function TasksScreen() {
+  const { t } = useTranslation(['tasks', 'logs', 'common']);
+  const [tasks, setTasks] = useState<GrowTask[]>([]);
+  const [filter, setFilter] = useState<TaskFilter>('mine');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [completingId, setCompletingId] = useState<string | null>(null);
+  const { userData, currentAssociation } = useAuth();
+  const { canManagePlants } = usePermissions();
+  const { confirm } = useConfirm();
+  const router = useRouter();
+
+  const loadTasks = async () => {
+    if (!userData) return;
+
+    try {
+      const taskList = await getTasksForContext(userData.uid, currentAssociation?.id);
+      setTasks(taskList);
+
+      syncTaskReminders(taskList, userData.uid, (task, overdue) => ({
+        title: t(overdue ? 'reminders.overdueTitle' : 'reminders.dueTitle', { title: task.title }),
+        body: t('reminders.body', { type: t(`types.${task.taskType}`), target: task.targetName }),
+      }));
+    } catch (error) {
+      console.error('[Tasks] Error loading tasks:', error);
+      showError(t('errors.failedToLoad'), t('common:error'));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTasks();
+    }, [userData, currentAssociation])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadTasks();
+  };
+
+  const handleComplete = (task: GrowTask) => {
+    if (!userData) return;
+
+    confirm({
+      title: t('completeTitle'),
+      message: task.taskType === 'flip_to_flower'
+        ? t('completeFlipMessage', { target: task.targetName })
+        : t('completeMessage', { logType: t(`logs:logTypes.${task.logType}`), target: task.targetName }),
+      confirmText: t('complete'),
+      onConfirm: async () => {
+        setCompletingId(task.id);
+        try {
+          await completeTaskWithAudit(task, userData.uid, userData.email);
+          showSuccess(t('completed'));
+          await loadTasks();
+        } catch (error: any) {
+          console.error('[Tasks] Error completing task:', error);
+          showError(error.message || t('errors.failedToComplete'), t('common:error'));
+        } finally {
+          setCompletingId(null);
+        }
+      },
+    });
+  };
+
+  const handleDelete = (task: GrowTask) => {
+    if (!userData) return;
+    confirm({
+      title: t('deleteTitle'),
+      message: t('deleteConfirm'),
+      confirmText: t('common:delete'),
+      type: 'destructive',
+      onConfirm: async () => {
+        try {
+          await deleteTaskWithAudit(task.id, userData.uid, userData.email);
+          showSuccess(t('deleted'));
+          await loadTasks();
+        } catch (error: any) {
+          console.error('[Tasks] Error deleting task:', error);
+          showError(error.message || t('errors.failedToDelete'), t('common:error'));
+        }
+      },
+    });
+  };
+
+  const visibleTasks = filter === 'mine' && userData
+    ? tasks.filter(task => !task.assignedTo || task.assignedTo === userData.uid)
+    : tasks;
+  const groups = groupTasksByDue(visibleTasks);
+
+  const renderTask = (task: GrowTask, overdue: boolean) => {
+    const preset = GROW_TASK_PRESETS[task.taskType];
+    const dueDate = format(task.dueDate, 'MMM dd, HH:mm');
+
+    return (
+      <Card key={task.id} style={overdue ? { ...styles.taskCard, ...styles.taskCardOverdue } : styles.taskCard}>
+        <View style={styles.taskHeader}>
+          <View style={[styles.iconContainer, { backgroundColor: `${preset.color}20` }]}>
+            <Ionicons name={preset.icon as any} size={22} color={preset.color} />
+          </View>
+          <View style={styles.taskInfo}>
+            <Text style={styles.taskTitle}>{task.title}</Text>
+            <Text style={styles.taskMeta}>
+              {t(`types.${task.taskType}`)} · {task.targetName}
+            </Text>
+            {task.assignedToName ? (
+              <View style={styles.assigneeRow}>
+                <Ionicons name="person" size={12} color="#999" />
+                <Text style={styles.assigneeText}>{task.assignedToName}</Text>
+              </View>
+            ) : null}
+          </View>
+          {canManagePlants && (
+            <TouchableOpacity onPress={() => handleDelete(task)} style={styles.deleteButton}>
+              <Ionicons name="trash-outline" size={18} color="#999" />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.taskFooter}>
+          <View style={styles.dueInfo}>
+            <Text style={[styles.dueText, overdue && styles.dueTextOverdue]}>
+              {overdue ? t('due.overdueSince', { date: dueDate }) : t('due.dueAt', { date: dueDate })}
+            </Text>
+            <Text style={styles.repeatText}>
+              {task.intervalDays ? t('due.every', { count: task.intervalDays }) : t('due.once')}
+            </Text>
+          </View>
+          {canManagePlants && (
+            <Button
+              title={completingId === task.id ? t('common:loading') : t('complete')}
+              onPress={() => handleComplete(task)}
+              disabled={completingId !== null}
+              style={styles.completeButton}
+            />
+          )}
+        </View>
+      </Card>
+    );
+  };
+
+  const renderSection = (title: string, sectionTasks: GrowTask[], overdue: boolean = false) => {
+    if (sectionTasks.length === 0) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, overdue && styles.sectionTitleOverdue]}>
+          {title} ({sectionTasks.length})
+        </Text>
+        {sectionTasks.map(task => renderTask(task, overdue))}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return <Loading message={t('common:loading')} />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {currentAssociation && (
+        <View style={styles.filterRow}>
+          {(['mine', 'all'] as TaskFilter[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.filterChip, filter === option && styles.filterChipActive]}
+              onPress={() => setFilter(option)}
+            >
+              <Text style={[styles.filterChipText, filter === option && styles.filterChipTextActive]}>
+                {t(option)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {visibleTasks.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="checkbox-outline" size={64} color="#ccc" />
+          <Text style={styles.emptyText}>{t('noTasks')}</Text>
+          <Text style={styles.emptySubtext}>{t('noTasksHint')}</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+          }
+        >
+          {renderSection(t('overdue'), groups.overdue, true)}
+          {renderSection(t('today'), groups.today)}
+          {renderSection(t('upcoming'), groups.upcoming)}
+        </ScrollView>
+      )}
+
+      {canManagePlants && (
+        <Button
+          title={t('addTask')}
+          onPress={() => router.push('/(tabs)/tasks/new')}
+          style={styles.addButton}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  filterChipActive: {
+    backgroundColor: '#FF9800',
+    borderColor: '#FF9800',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  filterChipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  list: {
+    padding: 16,
+  },
+  section: {
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  sectionTitleOverdue: {
+    color: '#F44336',
+  },
+  taskCard: {
+    marginBottom: 12,
+  },
+  taskCardOverdue: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#F44336',
+  },
+  taskHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  taskInfo: {
+    flex: 1,
+  },
+  taskTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  taskMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  assigneeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  assigneeText: {
+    fontSize: 12,
+    color: '#999',
+  },
+  deleteButton: {
+    padding: 4,
+  },
+  taskFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  dueInfo: {
+    flex: 1,
+  },
+  dueText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+  },
+  dueTextOverdue: {
+    color: '#F44336',
+  },
+  repeatText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  completeButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#4CAF50',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#999',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#bbb',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  addButton: {
+    margin: 16,
+    backgroundColor: '#FF9800',
+  },
+});
@@ -0,0 +1,386 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { addDays, setHours, setMinutes, startOfDay } from 'date-fns';
+import { useAuth } from '../../../contexts/AuthContext';
+import { getEnvironmentsForContext, getPlantsForContext } from '../../../firebase/firestore';
+import { getMembersByRole } from '../../../firebase/associations';
+import { createTaskWithAudit } from '../../../firebase/auditedFirestore';
+import { GROW_TASK_PRESETS, GROW_TASK_TYPES } from '../../../utils/growTasks';
+import { Environment, GrowTaskTarget, GrowTaskType, Member, Plant } from '../../../types';
+import { Card } from '../../../components/Card';
+import { Button } from '../../../components/Button';
+import { Input } from '../../../components/Input';
+import { DatePicker } from '../../../components/DatePicker';
+import { Loading } from '../../../components/Loading';
+import { showSuccess, showError, showWarning } from '../../../utils/toast';
+
+// New tasks default to tomorrow morning
+const getDefaultDueDate = (): Date => setMinutes(setHours(addDays(startOfDay(new Date()), 1), 9), 0);
+
+export default function NewTaskScreen() {
+  const { t } = useTranslation(['tasks', 'logs', 'common']);
+  const { userData, currentAssociation } = useAuth();
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [plants, setPlants] = useState<Plant[]>([]);
+  const [environments, setEnvironments] = useState<Environment[]>([]);
+  const [cultivators, setCultivators] = useState<Member[]>([]);
+
+  const [taskType, setTaskType] = useState<GrowTaskType>('watering');
+  const [title, setTitle] = useState(t('types.watering'));
+  const [targetType, setTargetType] = useState<GrowTaskTarget>('environment');
+  const [plantId, setPlantId] = useState<string | undefined>();
+  const [environmentId, setEnvironmentId] = useState<string | undefined>();
+  const [assignedTo, setAssignedTo] = useState<string | undefined>();
+  const [dueDate, setDueDate] = useState<Date>(getDefaultDueDate());
+  const [intervalDays, setIntervalDays] = useState(GROW_TASK_PRESETS.watering.intervalDays?.toString() || '');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!userData) return;
+
+      try {
+        const [plantList, environmentList, memberList] = await Promise.all([
+          getPlantsForContext(userData.uid, currentAssociation?.id),
+          getEnvironmentsForContext(userData.uid, currentAssociation?.id),
+          currentAssociation ? getMembersByRole(currentAssociation.id, 'cultivator') : Promise.resolve([]),
+        ]);
+        setPlants(plantList);
+        setEnvironments(environmentList);
+        setCultivators(memberList);
+      } catch (error) {
+        console.error('[Tasks] Error loading form data:', error);
+        showError(t('errors.failedToLoad'), t('common:error'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [userData, currentAssociation]);
+
+  const handleTypeChange = (type: GrowTaskType) => {
+    // Keep a custom title, but follow the type while it's still the default one
+    if (!title.trim() || title === t(`types.${taskType}`)) {
+      setTitle(t(`types.${type}`));
+    }
+    setTaskType(type);
+    setIntervalDays(GROW_TASK_PRESETS[type].intervalDays?.toString() || '');
+  };
+
+  const handleSubmit = async () => {
+    if (!userData) return;
+
+    if (!title.trim()) {
+      showWarning(t('errors.titleRequired'), t('common:error'));
+      return;
+    }
+
+    const plant = targetType === 'plant' ? plants.find(p => p.id === plantId) : undefined;
+    const environment = environments.find(env => env.id === (plant ? plant.environmentId : environmentId));
+    if ((targetType === 'plant' && !plant) || (targetType === 'environment' && !environment)) {
+      showWarning(t('errors.targetRequired'), t('common:error'));
+      return;
+    }
+
+    const interval = parseInt(intervalDays, 10);
+    const assignee = cultivators.find(member => member.userId === assignedTo);
+
+    setSubmitting(true);
+    try {
+      await createTaskWithAudit({
+        userId: userData.uid,
+        associationId: currentAssociation?.id,
+        title: title.trim(),
+        taskType,
+        logType: GROW_TASK_PRESETS[taskType].logType,
+        notes: notes.trim() || undefined,
+        targetType,
+        plantId: plant?.id,
+        environmentId: plant ? plant.environmentId : environmentId!,
+        targetName: plant ? `#${plant.controlNumber}` : environment!.name,
+        assignedTo: assignee?.userId,
+        assignedToName: assignee ? assignee.fullName || assignee.displayName : undefined,
+        dueDate: dueDate.getTime(),
+        intervalDays: !isNaN(interval) && interval > 0 ? interval : undefined,
+      }, userData.email);
+      showSuccess(t('created'), t('common:success'));
+      router.back();
+    } catch (error: any) {
+      console.error('[Tasks] Error creating task:', error);
+      showError(error.message || t('errors.failedToSave'), t('common:error'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <Loading message={t('common:loading')} />;
+  }
+
+  const targetOptions = targetType === 'plant'
+    ? plants.map(plant => ({ id: plant.id, name: `#${plant.controlNumber}` }))
+    : environments.map(environment => ({ id: environment.id, name: environment.name }));
+  const selectedTargetId = targetType === 'plant' ? plantId : environmentId;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <Card>
+            <Text style={styles.inputLabel}>{t('form.type')}</Text>
+            <View style={styles.chipGrid}>
+              {GROW_TASK_TYPES.map(type => {
+                const preset = GROW_TASK_PRESETS[type];
+                const active = taskType === type;
+                return (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.typeChip, active && { backgroundColor: preset.color, borderColor: preset.color }]}
+                    onPress={() => handleTypeChange(type)}
+                  >
+                    <Ionicons name={preset.icon as any} size={16} color={active ? '#fff' : preset.color} />
+                    <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                      {t(`types.${type}`)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.hint}>
+              {t('form.logType')}: {t(`logs:logTypes.${GROW_TASK_PRESETS[taskType].logType}`)}
+            </Text>
+
+            <Input
+              label={t('form.titleLabel')}
+              value={title}
+              onChangeText={setTitle}
+              placeholder={t('form.titlePlaceholder')}
+              style={styles.titleInput}
+            />
+          </Card>
+
+          <Card>
+            <Text style={styles.inputLabel}>{t('form.target')}</Text>
+            <View style={styles.optionRow}>
+              {(['environment', 'plant'] as GrowTaskTarget[]).map(type => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.optionButton, targetType === type && styles.optionButtonActive]}
+                  onPress={() => setTargetType(type)}
+                >
+                  <Text style={[styles.optionText, targetType === type && styles.optionTextActive]}>
+                    {t(`form.${type}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {targetOptions.length === 0 ? (
+              <Text style={styles.hint}>
+                {targetType === 'plant' ? t('form.selectPlant') : t('form.selectEnvironment')}
+              </Text>
+            ) : (
+              <View style={styles.chipGrid}>
+                {targetOptions.map(option => (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[styles.chip, selectedTargetId === option.id && styles.chipActive]}
+                    onPress={() => (targetType === 'plant' ? setPlantId(option.id) : setEnvironmentId(option.id))}
+                  >
+                    <Text style={[styles.chipText, selectedTargetId === option.id && styles.chipTextActive]}>
+                      {option.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </Card>
+
+          {currentAssociation && (
+            <Card>
+              <Text style={styles.inputLabel}>{t('form.assignee')}</Text>
+              <View style={styles.chipGrid}>
+                <TouchableOpacity
+                  style={[styles.chip, !assignedTo && styles.chipActive]}
+                  onPress={() => setAssignedTo(undefined)}
+                >
+                  <Text style={[styles.chipText, !assignedTo && styles.chipTextActive]}>
+                    {t('form.unassigned')}
+                  </Text>
+                </TouchableOpacity>
+                {cultivators.map(member => (
+                  <TouchableOpacity
+                    key={member.id}
+                    style={[styles.chip, assignedTo === member.userId && styles.chipActive]}
+                    onPress={() => setAssignedTo(member.userId)}
+                  >
+                    <Text style={[styles.chipText, assignedTo === member.userId && styles.chipTextActive]}>
+                      {member.fullName || member.displayName}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.hint}>{t('form.assigneeHint')}</Text>
+            </Card>
+          )}
+
+          <Card>
+            <DatePicker
+              label={t('form.dueDate')}
+              value={dueDate}
+              onChange={(date) => date && setDueDate(setMinutes(setHours(date, 9), 0))}
+              minimumDate={startOfDay(new Date())}
+            />
+            <Input
+              label={t('form.repeat')}
+              value={intervalDays}
+              onChangeText={setIntervalDays}
+              placeholder="7"
+              keyboardType="numeric"
+            />
+            <Text style={styles.hint}>{t('form.repeatHint')}</Text>
+
+            <Input
+              label={`${t('form.notes')} (${t('common:optional')})`}
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+              numberOfLines={3}
+            />
+          </Card>
+
+          <Button
+            title={submitting ? t('common:saving') : t('form.save')}
+            onPress={handleSubmit}
+            disabled={submitting}
+            style={styles.submitButton}
+          />
+          <Button
+            title={t('common:cancel')}
+            onPress={() => router.back()}
+            variant="secondary"
+            disabled={submitting}
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    marginTop: 4,
+    color: '#333',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+    marginBottom: 8,
+    fontStyle: 'italic',
+  },
+  titleInput: {
+    marginTop: 0,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  optionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  optionButtonActive: {
+    backgroundColor: '#FF9800',
+    borderColor: '#FF9800',
+  },
+  optionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    textAlign: 'center',
+  },
+  optionTextActive: {
+    color: '#fff',
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  typeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+    backgroundColor: '#f5f5f5',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+    backgroundColor: '#f5f5f5',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  chipActive: {
+    backgroundColor: '#FF9800',
+    borderColor: '#FF9800',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  submitButton: {
+    marginTop: 8,
+    marginBottom: 12,
+    backgroundColor: '#FF9800',
+  },
+});
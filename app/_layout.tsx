@@ -1,9 +1,10 @@
 import { Stack, useRouter, useSegments } from 'expo-router';
-import { useEffect, useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, ActivityIndicator } from 'react-native';
 import { AuthProvider, useAuth } from '../contexts/AuthContext';
 import { LanguageProvider } from '../contexts/LanguageContext';
 import { ConfirmProvider } from '../contexts/ConfirmContext';
+import { SyncProvider } from '../contexts/SyncContext';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { initI18n } from '../locales';
 import Toast from 'react-native-toast-message';
@@ -18,8 +19,10 @@ function RootLayoutNav() {
     if (loading) return;
 
     const inAuthGroup = segments[0] === '(auth)';
+    // Invitation links must open while signed out so new members can set a password
+    const inAcceptInvite = (segments as string[]).join('/') === '(tabs)/association/accept-invite';
 
-    if (!user && !inAuthGroup) {
+    if (!user && !inAuthGroup && !inAcceptInvite) {
       // Redirect to login if not authenticated
       router.replace('/(auth)/login');
     } else if (user && inAuthGroup) {
@@ -59,10 +62,12 @@ export default function RootLayout() {
     <GestureHandlerRootView style={{ flex: 1 }}>
       <LanguageProvider>
         <AuthProvider>
-          <ConfirmProvider>
-            <RootLayoutNav />
-            <Toast config={toastConfig} />
-          </ConfirmProvider>
+          <SyncProvider>
+            <ConfirmProvider>
+              <RootLayoutNav />
+              <Toast config={toastConfig} />
+            </ConfirmProvider>
+          </SyncProvider>
         </AuthProvider>
       </LanguageProvider>
     </GestureHandlerRootView>
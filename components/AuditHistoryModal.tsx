@@ -7,8 +7,14 @@ import {
   ScrollView,
   TouchableOpacity,
   Platform,
+  TextInput,
+  ActivityIndicator,
 } from 'react-native';
 import { getEntityAuditLogs } from '../firebase/auditLog';
+import { previewRestoreVersion, restoreVersionWithAudit, RestorePreview } from '../firebase/auditedFirestore';
+import { useAuth } from '../contexts/AuthContext';
+import { isRestorableEntity } from '../utils/auditRestore';
+import { showError, showSuccess } from '../utils/toast';
 import { AuditLog, AuditAction } from '../types';
 import { Button } from './Button';
 import { Loading } from './Loading';
@@ -21,18 +27,21 @@ interface AuditHistoryModalProps {
   entityType: string;
   entityId: string;
   entityDisplayName?: string;
+  onRestored?: () => void; // Called after a version was restored, so the screen can reload
 }
 
 const ACTION_ICONS: Record<AuditAction, { name: keyof typeof Ionicons.glyphMap; color: string }> = {
   create: { name: 'add-circle', color: '#4CAF50' },
   update: { name: 'pencil', color: '#2196F3' },
   delete: { name: 'trash', color: '#F44336' },
+  override: { name: 'shield-half', color: '#FF9800' },
 };
 
 const ACTION_LABELS: Record<AuditAction, string> = {
   create: 'Created',
   update: 'Updated',
   delete: 'Deleted',
+  override: 'Override',
 };
 
 export const AuditHistoryModal: React.FC<AuditHistoryModalProps> = ({
@@ -41,21 +50,34 @@ export const AuditHistoryModal: React.FC<AuditHistoryModalProps> = ({
   entityType,
   entityId,
   entityDisplayName,
+  onRestored,
 }) => {
+  const { userData, currentAssociation } = useAuth();
   const [logs, setLogs] = useState<AuditLog[]>([]);
   const [loading, setLoading] = useState(true);
   const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+  const [restoreLogId, setRestoreLogId] = useState<string | null>(null);
+  const [restorePreview, setRestorePreview] = useState<RestorePreview | null>(null);
+  const [restoreReason, setRestoreReason] = useState('');
+  const [restoreLoading, setRestoreLoading] = useState(false);
+
+  const canRestore = isRestorableEntity(entityType);
 
   useEffect(() => {
     if (visible && entityId) {
+      resetRestore();
       loadLogs();
     }
-  }, [visible, entityId, entityType]);
+  }, [visible, entityId, entityType, currentAssociation?.id]);
 
   const loadLogs = async () => {
+    if (!userData) return;
     setLoading(true);
     try {
-      const logsData = await getEntityAuditLogs(entityType, entityId);
+      const logsData = await getEntityAuditLogs(entityType, entityId, {
+        userId: userData.uid,
+        associationId: currentAssociation?.id,
+      });
       setLogs(logsData);
     } catch (error) {
       console.error('[AuditHistoryModal] Error loading logs:', error);
@@ -68,6 +90,67 @@ export const AuditHistoryModal: React.FC<AuditHistoryModalProps> = ({
     setExpandedLogId(expandedLogId === logId ? null : logId);
   };
 
+  const resetRestore = () => {
+    setRestoreLogId(null);
+    setRestorePreview(null);
+    setRestoreReason('');
+  };
+
+  // The newest entry is the current state, unless the record was deleted
+  const isRestorable = (log: AuditLog, index: number) =>
+    canRestore && log.action !== 'override' && (index > 0 || log.action === 'delete');
+
+  const handleStartRestore = async (log: AuditLog) => {
+    if (!userData) return;
+    setRestoreLogId(log.id);
+    setRestorePreview(null);
+    setRestoreReason('');
+    setRestoreLoading(true);
+    try {
+      setRestorePreview(await previewRestoreVersion(entityType, entityId, log.id, {
+        userId: userData.uid,
+        associationId: currentAssociation?.id,
+      }));
+    } catch (error: any) {
+      console.error('[AuditHistoryModal] Error rebuilding version:', error);
+      showError(error.message || 'Could not rebuild this version');
+      resetRestore();
+    } finally {
+      setRestoreLoading(false);
+    }
+  };
+
+  const handleConfirmRestore = async () => {
+    if (!userData || !restoreLogId) return;
+    if (!restoreReason.trim()) {
+      showError('Please enter a reason for the restore');
+      return;
+    }
+
+    setRestoreLoading(true);
+    try {
+      await restoreVersionWithAudit(
+        entityType,
+        entityId,
+        restoreLogId,
+        restoreReason,
+        userData.uid,
+        userData.email,
+        currentAssociation?.id
+      );
+      showSuccess(restorePreview?.recreates ? 'Record recovered' : 'Version restored');
+      resetRestore();
+      setExpandedLogId(null);
+      await loadLogs();
+      onRestored?.();
+    } catch (error: any) {
+      console.error('[AuditHistoryModal] Error restoring version:', error);
+      showError(error.message || 'Failed to restore this version');
+    } finally {
+      setRestoreLoading(false);
+    }
+  };
+
   const parseJsonSafe = (str: string | undefined): any => {
     if (!str) return null;
     try {
@@ -135,7 +218,72 @@ export const AuditHistoryModal: React.FC<AuditHistoryModalProps> = ({
     );
   };
 
-  const renderExpandedContent = (log: AuditLog) => {
+  const renderRestorePanel = (log: AuditLog) => {
+    if (restoreLogId !== log.id) {
+      return (
+        <TouchableOpacity style={styles.restoreButton} onPress={() => handleStartRestore(log)}>
+          <Ionicons name="arrow-undo" size={16} color="#2196F3" />
+          <Text style={styles.restoreButtonText}>
+            {log.action === 'delete' ? 'Recover deleted record' : 'Restore this version'}
+          </Text>
+        </TouchableOpacity>
+      );
+    }
+
+    if (!restorePreview) {
+      return (
+        <View style={styles.restorePanel}>
+          <ActivityIndicator size="small" color="#2196F3" />
+        </View>
+      );
+    }
+
+    const { changedFields, droppedFields, errors, recreates } = restorePreview;
+
+    return (
+      <View style={styles.restorePanel}>
+        <Text style={styles.restoreTitle}>
+          {recreates ? 'The record no longer exists and will be re-created' : 'Restoring will change:'}
+        </Text>
+        {!recreates && (
+          <Text style={styles.restoreText}>
+            {changedFields.length > 0 ? changedFields.join(', ') : 'Nothing - the record already matches this version'}
+          </Text>
+        )}
+        {droppedFields.length > 0 && (
+          <Text style={styles.restoreWarning}>
+            Not in the current schema, will be left out: {droppedFields.join(', ')}
+          </Text>
+        )}
+        {errors.map((error, index) => (
+          <Text key={index} style={styles.restoreError}>{error}</Text>
+        ))}
+        {errors.length === 0 && (
+          <TextInput
+            style={styles.restoreInput}
+            placeholder="Reason for restoring (required)"
+            placeholderTextColor="#999"
+            value={restoreReason}
+            onChangeText={setRestoreReason}
+            multiline
+          />
+        )}
+        <View style={styles.restoreActions}>
+          <Button title="Cancel" onPress={resetRestore} variant="outline" style={styles.restoreAction} />
+          {errors.length === 0 && (recreates || changedFields.length > 0) && (
+            <Button
+              title={restoreLoading ? 'Restoring...' : recreates ? 'Recover' : 'Restore'}
+              onPress={handleConfirmRestore}
+              disabled={restoreLoading || !restoreReason.trim()}
+              style={styles.restoreAction}
+            />
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderExpandedContent = (log: AuditLog, index: number) => {
     const previousValue = parseJsonSafe(log.previousValue);
     const newValue = parseJsonSafe(log.newValue);
     
@@ -175,6 +323,8 @@ export const AuditHistoryModal: React.FC<AuditHistoryModalProps> = ({
             <Text style={styles.notesText}>{log.notes}</Text>
           </View>
         )}
+
+        {isRestorable(log, index) && renderRestorePanel(log)}
       </View>
     );
   };
@@ -282,7 +432,7 @@ export const AuditHistoryModal: React.FC<AuditHistoryModalProps> = ({
                         </View>
                       )}
                       
-                      {expandedLogId === log.id && renderExpandedContent(log)}
+                      {expandedLogId === log.id && renderExpandedContent(log, index)}
                     </View>
                   </View>
                 </TouchableOpacity>
@@ -548,6 +698,63 @@ const styles = StyleSheet.create({
     color: '#333',
     fontStyle: 'italic',
   },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 8,
+  },
+  restoreButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2196F3',
+  },
+  restorePanel: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#e3f2fd',
+  },
+  restoreTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+  },
+  restoreText: {
+    fontSize: 12,
+    color: '#555',
+    marginTop: 4,
+  },
+  restoreWarning: {
+    fontSize: 12,
+    color: '#F57C00',
+    marginTop: 8,
+  },
+  restoreError: {
+    fontSize: 12,
+    color: '#F44336',
+    marginTop: 8,
+  },
+  restoreInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    backgroundColor: '#fff',
+    marginTop: 10,
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  restoreActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  restoreAction: {
+    flex: 1,
+  },
   footer: {
     padding: 20,
     paddingTop: 12,
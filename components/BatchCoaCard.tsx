@@ -0,0 +1,105 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { Card } from './Card';
+import { BatchCoa, COA_STATUS_COLORS } from '../utils/labAnalysis';
+
+interface BatchCoaCardProps {
+  coa: BatchCoa;
+  onViewAnalysis: (analysisId: string) => void;
+  onAddAnalysis?: () => void; // Hidden when the user can't record analyses
+}
+
+/**
+ * Certificate of analysis status of a harvest or extract batch.
+ * Batches without a valid passing COA can't be distributed without an admin override.
+ */
+export const BatchCoaCard: React.FC<BatchCoaCardProps> = ({ coa, onViewAnalysis, onAddAnalysis }) => {
+  const { t } = useTranslation(['labAnalyses', 'common']);
+  const color = COA_STATUS_COLORS[coa.status];
+  const { analysis } = coa;
+
+  return (
+    <Card>
+      <View style={styles.header}>
+        <Ionicons name="shield-checkmark" size={20} color="#00897B" />
+        <Text style={styles.title}>{t('coaCard.title')}</Text>
+        <View style={[styles.badge, { backgroundColor: color }]}>
+          <Text style={styles.badgeText}>{t(`batchStatus.${coa.status}`)}</Text>
+        </View>
+      </View>
+
+      {analysis ? (
+        <Text style={styles.meta}>
+          {t('coaCard.analyzedBy', { lab: analysis.labName, date: format(analysis.analysisDate, 'MMM dd, yyyy') })}
+          {analysis.cannabinoids.totalThcPercent !== undefined && ` · THC ${analysis.cannabinoids.totalThcPercent}%`}
+          {analysis.cannabinoids.totalCbdPercent !== undefined && ` · CBD ${analysis.cannabinoids.totalCbdPercent}%`}
+        </Text>
+      ) : null}
+      {coa.status !== 'pass' && <Text style={styles.hint}>{t('coaCard.missingHint')}</Text>}
+
+      <View style={styles.actions}>
+        {analysis && (
+          <TouchableOpacity style={styles.action} onPress={() => onViewAnalysis(analysis.id)}>
+            <Text style={styles.actionText}>{t('coaCard.view')}</Text>
+          </TouchableOpacity>
+        )}
+        {onAddAnalysis && (
+          <TouchableOpacity style={styles.action} onPress={onAddAnalysis}>
+            <Text style={styles.actionText}>{t('coaCard.add')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  badge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 12,
+  },
+  action: {
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#00897B',
+  },
+});
@@ -0,0 +1,320 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { format, subDays } from 'date-fns';
+import { Card } from './Card';
+import { ClimateChart } from './ClimateChart';
+import { ClimateMetric, Environment, EnvironmentRecord, Plant } from '../types';
+import {
+  CLIMATE_TARGETS,
+  formatMetricValue,
+  getClimateAlerts,
+  getDailyClimateStats,
+  getEnvironmentStage,
+  getMetricValue,
+} from '../utils/climateAnalytics';
+
+interface ClimateAnalyticsCardProps {
+  environment: Environment;
+  records: EnvironmentRecord[];
+  plants: Plant[];
+}
+
+const PERIOD_DAYS = 30;
+const DAILY_ROWS = 7;
+const MAX_ALERTS = 5;
+
+const METRICS: { key: ClimateMetric; icon: keyof typeof Ionicons.glyphMap; color: string }[] = [
+  { key: 'temp', icon: 'thermometer-outline', color: '#FF5722' },
+  { key: 'humidity', icon: 'water-outline', color: '#2196F3' },
+  { key: 'vpd', icon: 'speedometer-outline', color: '#009688' },
+  { key: 'dli', icon: 'sunny-outline', color: '#FFC107' },
+  { key: 'lightHours', icon: 'time-outline', color: '#FF9800' },
+];
+
+/**
+ * Climate overview for one environment: trend chart per metric against the target
+ * band for the plants' current stage, daily min/max/avg and out-of-range alerts.
+ */
+export const ClimateAnalyticsCard: React.FC<ClimateAnalyticsCardProps> = ({
+  environment,
+  records,
+  plants,
+}) => {
+  const { t } = useTranslation(['environments', 'common']);
+  const [metric, setMetric] = useState<ClimateMetric>('vpd');
+
+  const stage = useMemo(() => getEnvironmentStage(plants), [plants]);
+
+  const periodRecords = useMemo(() => {
+    const since = subDays(new Date(), PERIOD_DAYS).getTime();
+    return records.filter(record => record.date >= since);
+  }, [records]);
+
+  const dailyStats = useMemo(
+    () => getDailyClimateStats(periodRecords, environment),
+    [periodRecords, environment]
+  );
+
+  const alerts = useMemo(
+    () => getClimateAlerts(periodRecords, stage, environment),
+    [periodRecords, stage, environment]
+  );
+
+  const points = useMemo(
+    () => periodRecords
+      .map(record => ({ x: record.date, y: getMetricValue(record, metric, environment) }))
+      .filter((point): point is { x: number; y: number } => point.y !== undefined),
+    [periodRecords, metric, environment]
+  );
+
+  const target = CLIMATE_TARGETS[stage][metric];
+  const metricInfo = METRICS.find(item => item.key === metric)!;
+  const formatValue = (value: number) => formatMetricValue(metric, value);
+
+  if (records.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t('environments:climate.title')}</Text>
+        <View style={styles.stageBadge}>
+          <Text style={styles.stageBadgeText}>
+            {t('environments:climate.targetsFor', { stage: t(`common:stages.${stage.toLowerCase()}`) })}
+          </Text>
+        </View>
+      </View>
+
+      {/* Metric selector */}
+      <View style={styles.metricRow}>
+        {METRICS.map(item => (
+          <TouchableOpacity
+            key={item.key}
+            style={[
+              styles.metricChip,
+              metric === item.key && { backgroundColor: item.color, borderColor: item.color },
+            ]}
+            onPress={() => setMetric(item.key)}
+          >
+            <Ionicons name={item.icon} size={14} color={metric === item.key ? '#fff' : item.color} />
+            <Text style={[styles.metricChipText, metric === item.key && styles.metricChipTextActive]}>
+              {t(`environments:climate.metrics.${item.key}`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {points.length > 0 ? (
+        <ClimateChart
+          points={points}
+          target={target}
+          color={metricInfo.color}
+          formatValue={formatValue}
+        />
+      ) : (
+        <Text style={styles.emptyText}>
+          {metric === 'dli' ? t('environments:climate.noPpfd') : t('environments:climate.noReadings')}
+        </Text>
+      )}
+
+      <Text style={styles.caption}>
+        {target
+          ? t('environments:climate.targetRange', { min: formatValue(target.min), max: formatValue(target.max) })
+          : t('environments:climate.noTarget')}
+        {' · '}
+        {t('environments:climate.lastDays', { count: PERIOD_DAYS })}
+      </Text>
+
+      {/* Daily min / max / avg */}
+      {dailyStats.length > 0 && (
+        <View style={styles.table}>
+          <View style={styles.tableRow}>
+            <Text style={[styles.tableCell, styles.tableHeader, styles.dayCell]}>{t('environments:climate.day')}</Text>
+            <Text style={[styles.tableCell, styles.tableHeader]}>{t('environments:climate.min')}</Text>
+            <Text style={[styles.tableCell, styles.tableHeader]}>{t('environments:climate.avg')}</Text>
+            <Text style={[styles.tableCell, styles.tableHeader]}>{t('environments:climate.max')}</Text>
+          </View>
+          {dailyStats.slice(-DAILY_ROWS).reverse().map(day => {
+            const stats = day[metric];
+            return (
+              <View key={day.day} style={styles.tableRow}>
+                <Text style={[styles.tableCell, styles.dayCell]}>{format(new Date(day.day), 'MMM dd')}</Text>
+                {stats ? (
+                  <>
+                    <Text style={styles.tableCell}>{formatValue(stats.min)}</Text>
+                    <Text style={styles.tableCell}>{formatValue(stats.avg)}</Text>
+                    <Text style={styles.tableCell}>{formatValue(stats.max)}</Text>
+                  </>
+                ) : (
+                  <Text style={[styles.tableCell, styles.tableEmpty]}>—</Text>
+                )}
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      {/* Out-of-range alerts */}
+      <View style={styles.alertsHeader}>
+        <Ionicons
+          name={alerts.length > 0 ? 'warning' : 'checkmark-circle'}
+          size={18}
+          color={alerts.length > 0 ? '#F44336' : '#4CAF50'}
+        />
+        <Text style={styles.alertsTitle}>
+          {alerts.length > 0
+            ? t('environments:climate.alertsCount', { count: alerts.length })
+            : t('environments:climate.noAlerts')}
+        </Text>
+      </View>
+      {alerts.slice(0, MAX_ALERTS).map((alert, index) => (
+        <View key={`${alert.recordId}-${alert.metric}-${index}`} style={styles.alertItem}>
+          <Ionicons
+            name={alert.direction === 'high' ? 'arrow-up' : 'arrow-down'}
+            size={16}
+            color="#F44336"
+          />
+          <View style={styles.alertContent}>
+            <Text style={styles.alertText}>
+              {t(`environments:climate.${alert.direction}`, {
+                metric: t(`environments:climate.metrics.${alert.metric}`),
+                value: formatMetricValue(alert.metric, alert.value),
+              })}
+            </Text>
+            <Text style={styles.alertDate}>
+              {format(new Date(alert.date), 'MMM dd, yyyy - HH:mm')} · {t('environments:climate.targetRange', {
+                min: formatMetricValue(alert.metric, alert.target.min),
+                max: formatMetricValue(alert.metric, alert.target.max),
+              })}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  stageBadge: {
+    backgroundColor: '#E8F5E9',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  stageBadgeText: {
+    fontSize: 12,
+    color: '#2E7D32',
+    fontWeight: '600',
+  },
+  metricRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 12,
+  },
+  metricChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  metricChipText: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '500',
+  },
+  metricChipTextActive: {
+    color: '#fff',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  caption: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 6,
+  },
+  table: {
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f5f5f5',
+  },
+  tableCell: {
+    flex: 1,
+    fontSize: 12,
+    color: '#333',
+    textAlign: 'right',
+  },
+  tableHeader: {
+    color: '#999',
+    fontWeight: '600',
+  },
+  dayCell: {
+    textAlign: 'left',
+  },
+  tableEmpty: {
+    flex: 3,
+    color: '#ccc',
+  },
+  alertsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  alertsTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  alertItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f5f5f5',
+  },
+  alertContent: {
+    flex: 1,
+  },
+  alertText: {
+    fontSize: 13,
+    color: '#C62828',
+    fontWeight: '500',
+  },
+  alertDate: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+});
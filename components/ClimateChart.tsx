@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Line, Polyline, Rect } from 'react-native-svg';
+import { format } from 'date-fns';
+import { TargetRange } from '../types';
+
+export interface ClimateChartPoint {
+  x: number; // Timestamp
+  y: number;
+}
+
+interface ClimateChartProps {
+  points: ClimateChartPoint[];
+  target?: TargetRange;
+  color?: string;
+  height?: number;
+  formatValue?: (value: number) => string;
+}
+
+const PADDING = { top: 8, right: 8, bottom: 20, left: 44 };
+const OUT_OF_RANGE_COLOR = '#F44336';
+
+/**
+ * Line chart of a climate metric over time, with the target band shaded behind it.
+ * Points outside the band are drawn in red.
+ */
+export const ClimateChart: React.FC<ClimateChartProps> = ({
+  points,
+  target,
+  color = '#4CAF50',
+  height = 160,
+  formatValue = (value) => value.toFixed(1),
+}) => {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  if (points.length === 0) {
+    return (
+      <View style={[styles.empty, { height }]}>
+        <Text style={styles.emptyText}>No readings in this period</Text>
+      </View>
+    );
+  }
+
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+  const values = sorted.map(point => point.y);
+
+  // Keep the target band in view even when every reading is on one side of it
+  const rawMin = Math.min(...values, ...(target ? [target.min] : []));
+  const rawMax = Math.max(...values, ...(target ? [target.max] : []));
+  const margin = (rawMax - rawMin) * 0.1 || 1;
+  const yMin = rawMin - margin;
+  const yMax = rawMax + margin;
+
+  const xMin = sorted[0].x;
+  const xMax = sorted[sorted.length - 1].x;
+
+  const plotWidth = Math.max(width - PADDING.left - PADDING.right, 0);
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const toX = (x: number) =>
+    PADDING.left + (xMax === xMin ? plotWidth / 2 : ((x - xMin) / (xMax - xMin)) * plotWidth);
+  const toY = (y: number) => PADDING.top + (1 - (y - yMin) / (yMax - yMin)) * plotHeight;
+
+  const isOutOfRange = (y: number) => !!target && (y < target.min || y > target.max);
+
+  return (
+    <View onLayout={handleLayout} style={{ height }}>
+      {width > 0 && (
+        <>
+          <Svg width={width} height={height}>
+            {target && (
+              <Rect
+                x={PADDING.left}
+                y={toY(target.max)}
+                width={plotWidth}
+                height={toY(target.min) - toY(target.max)}
+                fill={color}
+                opacity={0.12}
+              />
+            )}
+            <Line
+              x1={PADDING.left}
+              y1={PADDING.top + plotHeight}
+              x2={PADDING.left + plotWidth}
+              y2={PADDING.top + plotHeight}
+              stroke="#e0e0e0"
+            />
+            {sorted.length > 1 && (
+              <Polyline
+                points={sorted.map(point => `${toX(point.x)},${toY(point.y)}`).join(' ')}
+                fill="none"
+                stroke={color}
+                strokeWidth={2}
+              />
+            )}
+            {sorted.map((point, index) => (
+              <Circle
+                key={`${point.x}-${index}`}
+                cx={toX(point.x)}
+                cy={toY(point.y)}
+                r={isOutOfRange(point.y) ? 4 : 3}
+                fill={isOutOfRange(point.y) ? OUT_OF_RANGE_COLOR : color}
+              />
+            ))}
+          </Svg>
+
+          {/* Axis labels */}
+          <Text style={[styles.axisLabel, styles.yLabel, { top: PADDING.top - 6 }]}>
+            {formatValue(yMax)}
+          </Text>
+          <Text style={[styles.axisLabel, styles.yLabel, { top: PADDING.top + plotHeight - 8 }]}>
+            {formatValue(yMin)}
+          </Text>
+          <Text style={[styles.axisLabel, { left: PADDING.left, bottom: 2 }]}>
+            {format(new Date(xMin), 'MMM dd')}
+          </Text>
+          {xMax !== xMin && (
+            <Text style={[styles.axisLabel, { right: PADDING.right, bottom: 2 }]}>
+              {format(new Date(xMax), 'MMM dd')}
+            </Text>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  empty: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#fafafa',
+    borderRadius: 8,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#999',
+  },
+  axisLabel: {
+    position: 'absolute',
+    fontSize: 10,
+    color: '#999',
+  },
+  yLabel: {
+    left: 0,
+    width: PADDING.left - 4,
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,145 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { format, startOfWeek } from 'date-fns';
+import { Card } from './Card';
+import { Plant, PlantForecast } from '../types';
+
+interface HarvestCalendarCardProps {
+  forecasts: { plant: Plant; forecast: PlantForecast }[];
+  onPlantPress?: (plant: Plant) => void;
+}
+
+interface CalendarEvent {
+  type: 'flip' | 'harvest';
+  date: number;
+  plant: Plant;
+  forecast: PlantForecast;
+}
+
+/**
+ * Upcoming flips and harvests of an environment's plants, grouped by week
+ */
+export const HarvestCalendarCard: React.FC<HarvestCalendarCardProps> = ({ forecasts, onPlantPress }) => {
+  const { t } = useTranslation(['plants', 'common']);
+
+  const weeks = useMemo(() => {
+    const now = Date.now();
+    const events: CalendarEvent[] = [];
+    forecasts.forEach(({ plant, forecast }) => {
+      // Only flips that haven't happened yet belong on the calendar
+      const flipEntry = forecast.entries.find(entry => entry.stage === 'Flower');
+      if (forecast.flipDate !== undefined && flipEntry?.projected) {
+        events.push({ type: 'flip', date: forecast.flipDate, plant, forecast });
+      }
+      events.push({ type: 'harvest', date: Math.max(forecast.harvestDate, now), plant, forecast });
+    });
+    events.sort((a, b) => a.date - b.date);
+
+    const grouped = new Map<number, CalendarEvent[]>();
+    events.forEach(event => {
+      const week = startOfWeek(event.date, { weekStartsOn: 1 }).getTime();
+      grouped.set(week, [...(grouped.get(week) || []), event]);
+    });
+    return Array.from(grouped.entries());
+  }, [forecasts]);
+
+  return (
+    <Card>
+      <View style={styles.header}>
+        <Ionicons name="calendar" size={20} color="#FF9800" />
+        <Text style={styles.title}>{t('forecast.calendarTitle')}</Text>
+      </View>
+
+      {weeks.length === 0 ? (
+        <Text style={styles.emptyText}>{t('forecast.noGrowing')}</Text>
+      ) : (
+        weeks.map(([week, events]) => (
+          <View key={week} style={styles.week}>
+            <Text style={styles.weekTitle}>
+              {t('forecast.weekOf', { date: format(week, 'MMM dd, yyyy') })}
+            </Text>
+            {events.map(event => {
+              const isHarvest = event.type === 'harvest';
+              const label = isHarvest
+                ? t('forecast.harvest')
+                : event.forecast.isAutoflower ? t('forecast.flowerOnset') : t('forecast.flip');
+              return (
+                <TouchableOpacity
+                  key={`${event.type}-${event.plant.id}`}
+                  style={styles.eventRow}
+                  onPress={() => onPlantPress?.(event.plant)}
+                  disabled={!onPlantPress}
+                >
+                  <Ionicons
+                    name={isHarvest ? 'cut-outline' : 'flower-outline'}
+                    size={16}
+                    color={isHarvest ? '#FF9800' : '#E91E63'}
+                  />
+                  <Text style={styles.eventDate}>{format(event.date, 'EEE dd')}</Text>
+                  <Text style={styles.eventPlant} numberOfLines={1}>
+                    #{event.plant.controlNumber} {event.plant.strain}
+                  </Text>
+                  <Text style={[styles.eventType, { color: isHarvest ? '#FF9800' : '#E91E63' }]}>{label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        ))
+      )}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  week: {
+    marginBottom: 12,
+  },
+  weekTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 6,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  eventDate: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+    width: 52,
+  },
+  eventPlant: {
+    flex: 1,
+    fontSize: 13,
+    color: '#333',
+  },
+  eventType: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -64,6 +64,13 @@ const MENU_ITEMS: MenuItem[] = [
     route: '/(tabs)/association',
     allowedRoles: ['owner', 'admin', 'cultivator', 'patient'], // Not for volunteer
   },
+  {
+    id: 'tasks',
+    icon: 'checkbox',
+    color: '#FF9800',
+    route: '/(tabs)/tasks',
+    allowedRoles: ['owner', 'admin', 'cultivator'], // Not for patient, volunteer
+  },
   {
     id: 'genetics',
     icon: 'leaf',
@@ -85,6 +92,13 @@ const MENU_ITEMS: MenuItem[] = [
     route: '/(tabs)/extracts',
     allowedRoles: ['owner', 'admin', 'cultivator'], // Not for patient, volunteer
   },
+  {
+    id: 'labAnalyses',
+    icon: 'shield-checkmark',
+    color: '#00897B',
+    route: '/(tabs)/lab-analyses',
+    allowedRoles: ['owner', 'admin', 'cultivator'], // Not for patient, volunteer
+  },
   {
     id: 'patients',
     icon: 'medkit',
@@ -106,6 +120,34 @@ const MENU_ITEMS: MenuItem[] = [
     route: '/(tabs)/admin/documents',
     allowedRoles: ['owner', 'admin'], // Only owner and admin
   },
+  {
+    id: 'waste',
+    icon: 'trash',
+    color: '#795548',
+    route: '/(tabs)/admin/waste',
+    allowedRoles: ['owner', 'admin', 'cultivator'], // Not for patient, volunteer
+  },
+  {
+    id: 'traceability',
+    icon: 'git-network',
+    color: '#3F51B5',
+    route: '/(tabs)/admin/traceability',
+    allowedRoles: ['owner', 'admin', 'cultivator'], // Not for patient, volunteer
+  },
+  {
+    id: 'recalls',
+    icon: 'alert-circle',
+    color: '#F44336',
+    route: '/(tabs)/admin/recalls',
+    allowedRoles: ['owner', 'admin'], // Only owner and admin
+  },
+  {
+    id: 'sequences',
+    icon: 'barcode',
+    color: '#009688',
+    route: '/(tabs)/admin/sequences',
+    allowedRoles: ['owner', 'admin'], // Only owner and admin
+  },
   {
     id: 'reports',
     icon: 'bar-chart',
@@ -113,6 +155,20 @@ const MENU_ITEMS: MenuItem[] = [
     route: '/(tabs)/admin/reports',
     allowedRoles: ['owner', 'admin', 'cultivator'], // Not for patient, volunteer
   },
+  {
+    id: 'regulatory',
+    icon: 'document-text',
+    color: '#00796B',
+    route: '/(tabs)/admin/regulatory',
+    allowedRoles: ['owner', 'admin'], // Only owner and admin
+  },
+  {
+    id: 'yield',
+    icon: 'trending-up',
+    color: '#388E3C',
+    route: '/(tabs)/admin/yield',
+    allowedRoles: ['owner', 'admin', 'cultivator'], // Not for patient, volunteer
+  },
   {
     id: 'auditLog',
     icon: 'time',
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../contexts/AuthContext';
+import { uploadPhoto } from '../firebase/photos';
+import { PhotoFolder, UploadedPhoto } from '../types';
+import { showError, showWarning } from '../utils/toast';
+
+interface PhotoPickerProps {
+  folder: PhotoFolder;
+  value?: { url: string; thumbnailUrl?: string } | null;
+  onChange: (photo: UploadedPhoto | null) => void;
+  label?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Takes or picks a photo, resizes it, uploads it with a thumbnail and reports the URLs.
+ * The upload happens as soon as a photo is chosen, so forms only need to save the URLs.
+ */
+export const PhotoPicker: React.FC<PhotoPickerProps> = ({
+  folder,
+  value,
+  onChange,
+  label = 'Photo',
+  disabled = false,
+}) => {
+  const { userData } = useAuth();
+  const [uploading, setUploading] = useState(false);
+
+  const handleResult = async (result: ImagePicker.ImagePickerResult) => {
+    if (result.canceled || !result.assets?.length || !userData) {
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const photo = await uploadPhoto(result.assets[0].uri, userData.uid, folder);
+      onChange(photo);
+    } catch (error: any) {
+      console.error('[PhotoPicker] Upload failed:', error);
+      showError(error.message || 'Failed to upload photo', 'Error');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const takePhoto = async () => {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      showWarning('Camera access is needed to take photos', 'Permission Required');
+      return;
+    }
+
+    await handleResult(await ImagePicker.launchCameraAsync({
+      mediaTypes: ['images'],
+      quality: 1,
+    }));
+  };
+
+  const pickFromGallery = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      showWarning('Photo library access is needed to choose photos', 'Permission Required');
+      return;
+    }
+
+    await handleResult(await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      quality: 1,
+    }));
+  };
+
+  return (
+    <View style={styles.container}>
+      {label ? <Text style={styles.label}>{label}</Text> : null}
+
+      {uploading ? (
+        <View style={[styles.preview, styles.placeholder]}>
+          <ActivityIndicator color="#4CAF50" />
+          <Text style={styles.placeholderText}>Uploading...</Text>
+        </View>
+      ) : value?.url ? (
+        <View>
+          <Image source={{ uri: value.thumbnailUrl || value.url }} style={styles.preview} />
+          {!disabled && (
+            <TouchableOpacity style={styles.removeButton} onPress={() => onChange(null)}>
+              <Ionicons name="close" size={18} color="#fff" />
+            </TouchableOpacity>
+          )}
+        </View>
+      ) : (
+        <View style={styles.buttonRow}>
+          <TouchableOpacity style={styles.sourceButton} onPress={takePhoto} disabled={disabled}>
+            <Ionicons name="camera" size={22} color="#4CAF50" />
+            <Text style={styles.sourceButtonText}>Camera</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.sourceButton} onPress={pickFromGallery} disabled={disabled}>
+            <Ionicons name="images" size={22} color="#4CAF50" />
+            <Text style={styles.sourceButtonText}>Gallery</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  sourceButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    borderWidth: 1,
+    borderColor: '#C8E6C9',
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    backgroundColor: '#F1F8E9',
+    gap: 4,
+  },
+  sourceButtonText: {
+    fontSize: 13,
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  preview: {
+    width: '100%',
+    height: 200,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  placeholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+  },
+  placeholderText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  removeButton: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
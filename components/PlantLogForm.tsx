@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -8,10 +8,12 @@ import {
   Switch,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { PlantLogType, NutrientEntry, MediumType } from '../types';
+import { PlantLogType, NutrientEntry, MediumType, FeedPlanReference, PlannedFeed } from '../types';
 import { Input } from './Input';
 import { Button } from './Button';
 import { LogTypeSelector, LogTypeBadge, getLogTypeInfo } from './LogTypeSelector';
+import { PhotoPicker } from './PhotoPicker';
+import { getRangeMidpoint, scaleScheduleNutrients } from '../utils/feedSchedules';
 
 interface PlantLogFormData {
   logType: PlantLogType;
@@ -21,6 +23,7 @@ interface PlantLogFormData {
   runoffPh?: number;
   runoffEc?: number;
   nutrients?: NutrientEntry[];
+  feedPlan?: FeedPlanReference;
   mediumType?: MediumType;
   mediumBrand?: string;
   mediumAmount?: string;
@@ -42,6 +45,8 @@ interface PlantLogFormData {
   foliarProduct?: string;
   foliarDilution?: string;
   notes?: string;
+  photoUrl?: string;
+  photoThumbnailUrl?: string;
 }
 
 interface PlantLogFormProps {
@@ -51,6 +56,8 @@ interface PlantLogFormProps {
   onCancel: () => void;
   submitLabel?: string;
   isLoading?: boolean;
+  // Schedule week used to pre-fill new nutrient_feed logs
+  plannedFeed?: PlannedFeed | null;
 }
 
 const MEDIUM_TYPES: { value: MediumType; label: string }[] = [
@@ -81,6 +88,7 @@ export const PlantLogForm: React.FC<PlantLogFormProps> = ({
   onCancel,
   submitLabel = 'Save Log',
   isLoading = false,
+  plannedFeed,
 }) => {
   // Initialize from initialData if provided, otherwise use defaults
   const getInitialValue = (field: string, defaultValue: any) => {
@@ -116,6 +124,7 @@ export const PlantLogForm: React.FC<PlantLogFormProps> = ({
   const [newNutrientName, setNewNutrientName] = useState('');
   const [newNutrientAmount, setNewNutrientAmount] = useState('');
   const [newNutrientBrand, setNewNutrientBrand] = useState('');
+  const [appliedPlan, setAppliedPlan] = useState<FeedPlanReference | undefined>();
 
   // Medium fields
   const [mediumType, setMediumType] = useState<MediumType | undefined>(
@@ -157,6 +166,10 @@ export const PlantLogForm: React.FC<PlantLogFormProps> = ({
 
   // Common fields
   const [notes, setNotes] = useState(getInitialValue('notes', ''));
+  const [photoUrl, setPhotoUrl] = useState<string | undefined>(initialData?.photoUrl);
+  const [photoThumbnailUrl, setPhotoThumbnailUrl] = useState<string | undefined>(
+    initialData?.photoThumbnailUrl
+  );
 
   const addNutrient = () => {
     if (!newNutrientName.trim()) return;
@@ -177,10 +190,37 @@ export const PlantLogForm: React.FC<PlantLogFormProps> = ({
     setNutrients(nutrients.filter((_, i) => i !== index));
   };
 
+  const applyPlannedFeed = () => {
+    if (!plannedFeed) return;
+
+    const { week, reference } = plannedFeed;
+    setNutrients(scaleScheduleNutrients(week.nutrients, waterAmountMl ? parseFloat(waterAmountMl) : undefined));
+    if (week.targetPh) setPhLevel(getRangeMidpoint(week.targetPh).toFixed(1));
+    if (week.targetEcPpm) setEcPpm(Math.round(getRangeMidpoint(week.targetEcPpm)).toString());
+    setAppliedPlan(reference);
+  };
+
+  // Pre-fill a new nutrient feed from the plan, unless the user already entered something
+  useEffect(() => {
+    if (
+      logType === 'nutrient_feed' &&
+      plannedFeed &&
+      !initialData &&
+      !appliedPlan &&
+      nutrients.length === 0 &&
+      !phLevel &&
+      !ecPpm
+    ) {
+      applyPlannedFeed();
+    }
+  }, [logType, plannedFeed]);
+
   const handleSubmit = () => {
     const data: PlantLogFormData = {
       logType,
       notes: notes.trim() || undefined,
+      photoUrl,
+      photoThumbnailUrl,
     };
 
     // Add feeding fields
@@ -191,6 +231,7 @@ export const PlantLogForm: React.FC<PlantLogFormProps> = ({
       if (runoffPh) data.runoffPh = parseFloat(runoffPh);
       if (runoffEc) data.runoffEc = parseFloat(runoffEc);
       if (nutrients.length > 0) data.nutrients = nutrients;
+      if (logType === 'nutrient_feed' && appliedPlan) data.feedPlan = appliedPlan;
     }
 
     // Add medium fields
@@ -323,6 +364,31 @@ export const PlantLogForm: React.FC<PlantLogFormProps> = ({
             </View>
           </View>
 
+          {/* Feed plan from the plant's nutrient schedule */}
+          {logType === 'nutrient_feed' && plannedFeed && (
+            <View style={styles.feedPlanBanner}>
+              <View style={styles.feedPlanInfo}>
+                <Text style={styles.feedPlanTitle}>
+                  Feed plan: {plannedFeed.schedule.name}
+                </Text>
+                <Text style={styles.feedPlanDetail}>
+                  {plannedFeed.week.stage} · week {plannedFeed.week.week}
+                  {plannedFeed.week.targetPh && ` · pH ${plannedFeed.week.targetPh.min}–${plannedFeed.week.targetPh.max}`}
+                  {plannedFeed.week.targetEcPpm && ` · EC ${plannedFeed.week.targetEcPpm.min}–${plannedFeed.week.targetEcPpm.max} ppm`}
+                </Text>
+                <Text style={styles.feedPlanHint}>
+                  {appliedPlan
+                    ? 'Pre-filled from the plan. Doses are scaled to the water amount.'
+                    : 'Doses are ml per liter; enter the water amount first to scale them.'}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.feedPlanButton} onPress={applyPlannedFeed}>
+                <Ionicons name="refresh" size={16} color="#fff" />
+                <Text style={styles.feedPlanButtonText}>{appliedPlan ? 'Re-apply' : 'Apply'}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
           {/* Nutrients - only for nutrient_feed */}
           {logType === 'nutrient_feed' && (
             <View style={styles.nutrientsSection}>
@@ -659,6 +725,25 @@ export const PlantLogForm: React.FC<PlantLogFormProps> = ({
         </View>
       )}
 
+      {/* Photo Section - Always Visible */}
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Ionicons name="camera" size={18} color="#666" />
+          <Text style={styles.sectionTitle}>Photo</Text>
+        </View>
+
+        <PhotoPicker
+          folder="plantLogs"
+          label=""
+          value={photoUrl ? { url: photoUrl, thumbnailUrl: photoThumbnailUrl } : null}
+          onChange={(photo) => {
+            setPhotoUrl(photo?.url);
+            setPhotoThumbnailUrl(photo?.thumbnailUrl);
+          }}
+          disabled={isLoading}
+        />
+      </View>
+
       {/* Notes Section - Always Visible */}
       <View style={styles.section}>
         <View style={styles.sectionHeader}>
@@ -748,6 +833,51 @@ const styles = StyleSheet.create({
   halfInput: {
     flex: 1,
   },
+  // Feed plan
+  feedPlanBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 16,
+    padding: 12,
+    backgroundColor: '#E8F5E9',
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#4CAF50',
+  },
+  feedPlanInfo: {
+    flex: 1,
+  },
+  feedPlanTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2E7D32',
+  },
+  feedPlanDetail: {
+    fontSize: 12,
+    color: '#333',
+    marginTop: 2,
+  },
+  feedPlanHint: {
+    fontSize: 11,
+    color: '#666',
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  feedPlanButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#4CAF50',
+  },
+  feedPlanButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#fff',
+  },
   // Nutrients
   nutrientsSection: {
     marginTop: 16,
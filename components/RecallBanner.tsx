@@ -0,0 +1,54 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+
+interface RecallBannerProps {
+  onViewRecall: () => void;
+}
+
+/**
+ * Warns that a harvest or extract is under an open recall.
+ * Its remaining stock is frozen: it can be disposed of, but not distributed or extracted.
+ */
+export const RecallBanner: React.FC<RecallBannerProps> = ({ onViewRecall }) => {
+  const { t } = useTranslation(['admin']);
+
+  return (
+    <TouchableOpacity style={styles.banner} onPress={onViewRecall}>
+      <Ionicons name="alert-circle" size={24} color="#F44336" />
+      <View style={styles.info}>
+        <Text style={styles.title}>{t('recalls.banner.title')}</Text>
+        <Text style={styles.message}>{t('recalls.banner.message')}</Text>
+      </View>
+      <Ionicons name="chevron-forward" size={18} color="#F44336" />
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFEBEE',
+    borderWidth: 1,
+    borderColor: '#F44336',
+    borderRadius: 8,
+    padding: 12,
+    marginVertical: 8,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#C62828',
+  },
+  message: {
+    fontSize: 13,
+    color: '#C62828',
+    marginTop: 2,
+  },
+});
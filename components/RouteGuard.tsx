@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from './Button';
+import { Loading } from './Loading';
+
+interface RouteGuardProps {
+  allowed: boolean;
+  loading?: boolean;
+  children: React.ReactNode;
+}
+
+/**
+ * Renders its children only when the user is allowed to see them.
+ * Used by stack layouts to keep members out of sections their role can't access.
+ */
+export const RouteGuard: React.FC<RouteGuardProps> = ({ allowed, loading = false, children }) => {
+  const router = useRouter();
+
+  if (loading) {
+    return <Loading message="Checking permissions..." />;
+  }
+
+  if (allowed) {
+    return <>{children}</>;
+  }
+
+  const handleGoBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/profile');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name="lock-closed" size={64} color="#ccc" />
+      <Text style={styles.title}>Access Restricted</Text>
+      <Text style={styles.message}>
+        Your role in this association doesn't allow access to this section.
+        Ask an association admin if you need it.
+      </Text>
+      <Button title="Go Back" onPress={handleGoBack} variant="secondary" style={styles.button} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: '#f5f5f5',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+  },
+  message: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginTop: 8,
+  },
+  button: {
+    marginTop: 24,
+    minWidth: 160,
+  },
+});
@@ -0,0 +1,186 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  PanResponder,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+} from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import { Ionicons } from '@expo/vector-icons';
+import { SignatureStrokes } from '../utils/signature';
+
+interface SignaturePadProps {
+  label?: string;
+  placeholder?: string;
+  height?: number;
+  onChange: (strokes: SignatureStrokes | null) => void; // null once cleared
+  onDrawingChange?: (drawing: boolean) => void; // Lets the parent lock scrolling while drawing
+}
+
+const STROKE_COLOR = '#1a237e';
+
+const toPoint = (event: GestureResponderEvent): string => {
+  const { locationX, locationY } = event.nativeEvent;
+  return `${locationX.toFixed(1)} ${locationY.toFixed(1)}`;
+};
+
+/**
+ * Pad for capturing a handwritten signature as vector strokes
+ */
+export const SignaturePad: React.FC<SignaturePadProps> = ({
+  label,
+  placeholder = 'Sign here',
+  height = 180,
+  onChange,
+  onDrawingChange,
+}) => {
+  const [paths, setPaths] = useState<string[]>([]);
+  const [currentPath, setCurrentPath] = useState('');
+  const [width, setWidth] = useState(0);
+
+  // Refs so the responder callbacks (created once) always see the latest values
+  const pathsRef = useRef<string[]>([]);
+  const currentPathRef = useRef('');
+  const widthRef = useRef(0);
+  const onChangeRef = useRef(onChange);
+  const onDrawingChangeRef = useRef(onDrawingChange);
+  onChangeRef.current = onChange;
+  onDrawingChangeRef.current = onDrawingChange;
+
+  const finishStroke = () => {
+    if (currentPathRef.current) {
+      // A tap without movement still leaves a dot
+      const stroke = currentPathRef.current.includes('L')
+        ? currentPathRef.current
+        : `${currentPathRef.current} l 0.1 0.1`;
+      pathsRef.current = [...pathsRef.current, stroke];
+      setPaths(pathsRef.current);
+      onChangeRef.current({ paths: pathsRef.current, width: widthRef.current, height });
+    }
+    currentPathRef.current = '';
+    setCurrentPath('');
+    onDrawingChangeRef.current?.(false);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => {
+        onDrawingChangeRef.current?.(true);
+        currentPathRef.current = `M ${toPoint(event)}`;
+        setCurrentPath(currentPathRef.current);
+      },
+      onPanResponderMove: (event) => {
+        currentPathRef.current = `${currentPathRef.current} L ${toPoint(event)}`;
+        setCurrentPath(currentPathRef.current);
+      },
+      onPanResponderRelease: finishStroke,
+      onPanResponderTerminate: finishStroke,
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    widthRef.current = event.nativeEvent.layout.width;
+    setWidth(widthRef.current);
+  };
+
+  const handleClear = () => {
+    pathsRef.current = [];
+    currentPathRef.current = '';
+    setPaths([]);
+    setCurrentPath('');
+    onChangeRef.current(null);
+  };
+
+  const isEmpty = paths.length === 0 && !currentPath;
+
+  return (
+    <View style={styles.container}>
+      {label && <Text style={styles.label}>{label}</Text>}
+      <View style={[styles.pad, { height }]} onLayout={handleLayout} {...panResponder.panHandlers}>
+        {width > 0 && (
+          <Svg width={width} height={height}>
+            {[...paths, currentPath].filter(Boolean).map((path, index) => (
+              <Path
+                key={index}
+                d={path}
+                fill="none"
+                stroke={STROKE_COLOR}
+                strokeWidth={2.5}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            ))}
+          </Svg>
+        )}
+        {isEmpty && (
+          <View style={styles.placeholder} pointerEvents="none">
+            <Ionicons name="create-outline" size={20} color="#bbb" />
+            <Text style={styles.placeholderText}>{placeholder}</Text>
+          </View>
+        )}
+        <View style={styles.baseline} pointerEvents="none" />
+      </View>
+      {!isEmpty && (
+        <TouchableOpacity style={styles.clearButton} onPress={handleClear}>
+          <Ionicons name="refresh" size={16} color="#666" />
+          <Text style={styles.clearText}>Clear</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  pad: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    backgroundColor: '#fff',
+    overflow: 'hidden',
+  },
+  placeholder: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 6,
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: '#bbb',
+  },
+  baseline: {
+    position: 'absolute',
+    left: 24,
+    right: 24,
+    bottom: 36,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  clearButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: 4,
+    paddingVertical: 6,
+  },
+  clearText: {
+    fontSize: 13,
+    color: '#666',
+  },
+});
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { CapturedSignature } from '../types';
+import { getShortHash, SignedContent, verifySignature } from '../utils/signature';
+
+interface SignatureViewProps {
+  signature: CapturedSignature;
+  signedContent?: SignedContent; // Fields of the record the signature was sealed with
+  height?: number;
+}
+
+/**
+ * Displays a captured signature with its signer, timestamp and hash check
+ */
+export const SignatureView: React.FC<SignatureViewProps> = ({ signature, signedContent, height = 120 }) => {
+  const [verified, setVerified] = useState<boolean | null>(null);
+  // Compared by value, so callers can pass a fresh object on every render
+  const contentKey = JSON.stringify(signedContent || {});
+
+  useEffect(() => {
+    let cancelled = false;
+    verifySignature(signature, signedContent)
+      .then(result => {
+        if (!cancelled) setVerified(result);
+      })
+      .catch(() => {
+        if (!cancelled) setVerified(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [signature, contentKey]);
+
+  return (
+    <View>
+      <View style={[styles.canvas, { height }]}>
+        <Svg width="100%" height="100%" viewBox={`0 0 ${signature.width} ${signature.height}`}>
+          {signature.paths.map((path, index) => (
+            <Path
+              key={index}
+              d={path}
+              fill="none"
+              stroke="#1a237e"
+              strokeWidth={2.5}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          ))}
+        </Svg>
+      </View>
+      <Text style={styles.signer}>{signature.signerName}</Text>
+      <Text style={styles.meta}>
+        {format(new Date(signature.signedAt), 'MMM dd, yyyy HH:mm:ss')} · SHA-256 {getShortHash(signature)}
+      </Text>
+      {verified !== null && (
+        <View style={styles.verification}>
+          <Ionicons
+            name={verified ? 'shield-checkmark' : 'warning'}
+            size={14}
+            color={verified ? '#4CAF50' : '#F44336'}
+          />
+          <Text style={[styles.verificationText, { color: verified ? '#4CAF50' : '#F44336' }]}>
+            {verified ? 'Signature intact' : 'Signature does not match its hash'}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  canvas: {
+    borderWidth: 1,
+    borderColor: '#eee',
+    borderRadius: 8,
+    backgroundColor: '#fafafa',
+  },
+  signer: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 8,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  verification: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  verificationText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
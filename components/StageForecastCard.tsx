@@ -0,0 +1,223 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { Card } from './Card';
+import { ForecastBasis, PlantForecast, StageHistory } from '../types';
+
+interface StageForecastCardProps {
+  forecast: PlantForecast;
+  history: StageHistory;
+}
+
+const STAGE_COLORS: Record<string, string> = {
+  Seedling: '#8BC34A',
+  Veg: '#4CAF50',
+  Flower: '#E91E63',
+};
+
+/**
+ * Projected stage timeline of a plant with its flip and harvest dates.
+ * Each stage shows whether its dates were recorded or estimated, and from what.
+ */
+export const StageForecastCard: React.FC<StageForecastCardProps> = ({ forecast, history }) => {
+  const { t } = useTranslation(['plants', 'common']);
+
+  const formatRelative = (date: number): string => {
+    const days = differenceInCalendarDays(date, Date.now());
+    if (days === 0) return t('forecast.today');
+    return days > 0 ? t('forecast.inDays', { count: days }) : t('forecast.daysAgo', { count: -days });
+  };
+
+  const getBasisLabel = (basis: ForecastBasis, stage: string): string => {
+    if (basis === 'history') {
+      const sampleSize = history[stage as keyof StageHistory]?.sampleSize || 0;
+      return t('forecast.basis.history', { count: sampleSize });
+    }
+    return t(`forecast.basis.${basis}`);
+  };
+
+  const flipEntry = forecast.entries.find(entry => entry.stage === 'Flower');
+  const lastEntry = forecast.entries[forecast.entries.length - 1];
+
+  return (
+    <Card>
+      <View style={styles.header}>
+        <Ionicons name="calendar-outline" size={20} color="#4CAF50" />
+        <Text style={styles.title}>{t('forecast.title')}</Text>
+      </View>
+
+      {/* Key dates */}
+      <View style={styles.milestones}>
+        {forecast.flipDate !== undefined && (
+          <View style={[styles.milestone, { borderColor: STAGE_COLORS.Flower }]}>
+            <Text style={styles.milestoneLabel}>
+              {forecast.isAutoflower ? t('forecast.flowerOnset') : t('forecast.flip')}
+            </Text>
+            <Text style={styles.milestoneDate}>{format(forecast.flipDate, 'MMM dd, yyyy')}</Text>
+            <Text style={styles.milestoneRelative}>{formatRelative(forecast.flipDate)}</Text>
+            {forecast.flipBasis && flipEntry && (
+              <Text style={styles.milestoneBasis}>{getBasisLabel(forecast.flipBasis, flipEntry.projected ? 'Veg' : 'Flower')}</Text>
+            )}
+          </View>
+        )}
+        <View style={[styles.milestone, { borderColor: '#FF9800' }]}>
+          <Text style={styles.milestoneLabel}>
+            {forecast.harvested ? t('forecast.harvested') : t('forecast.harvest')}
+          </Text>
+          <Text style={styles.milestoneDate}>{format(forecast.harvestDate, 'MMM dd, yyyy')}</Text>
+          <Text style={styles.milestoneRelative}>{formatRelative(forecast.harvestDate)}</Text>
+          <Text style={styles.milestoneBasis}>{getBasisLabel(forecast.harvestBasis, lastEntry.stage)}</Text>
+        </View>
+      </View>
+
+      {!forecast.harvested && forecast.harvestWindow.earliest !== forecast.harvestWindow.latest && (
+        <Text style={styles.window}>
+          {t('forecast.window', {
+            earliest: format(forecast.harvestWindow.earliest, 'MMM dd'),
+            latest: format(forecast.harvestWindow.latest, 'MMM dd'),
+          })}
+        </Text>
+      )}
+
+      {/* Stage bars */}
+      <View style={styles.timeline}>
+        {forecast.entries.map((entry, index) => {
+          const color = STAGE_COLORS[entry.stage] || '#4CAF50';
+          const days = differenceInCalendarDays(entry.endDate, entry.startDate);
+          return (
+            <View key={`${entry.stage}-${index}`} style={styles.entryRow}>
+              <View
+                style={[
+                  styles.entryDot,
+                  entry.projected ? { borderColor: color, borderWidth: 2 } : { backgroundColor: color },
+                ]}
+              />
+              <View style={styles.entryInfo}>
+                <View style={styles.entryTitleRow}>
+                  <Text style={[styles.entryStage, { color }]}>
+                    {t(`common:stages.${entry.stage.toLowerCase()}`)}
+                  </Text>
+                  {entry.projected && (
+                    <Text style={styles.projectedBadge}>{t('forecast.projected')}</Text>
+                  )}
+                </View>
+                <Text style={styles.entryDates}>
+                  {format(entry.startDate, 'MMM dd')} – {format(entry.endDate, 'MMM dd')} · {days}d
+                </Text>
+                <Text style={styles.entryBasis}>{getBasisLabel(entry.basis, entry.stage)}</Text>
+              </View>
+            </View>
+          );
+        })}
+      </View>
+
+      {!forecast.harvested && <Text style={styles.hint}>{t('forecast.basisHint')}</Text>}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  milestones: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  milestone: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    backgroundColor: '#fafafa',
+  },
+  milestoneLabel: {
+    fontSize: 12,
+    color: '#666',
+    textTransform: 'uppercase',
+  },
+  milestoneDate: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 4,
+  },
+  milestoneRelative: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  milestoneBasis: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+  },
+  window: {
+    fontSize: 13,
+    color: '#FF9800',
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  timeline: {
+    marginTop: 16,
+    gap: 12,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  entryDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 4,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  entryStage: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  projectedBadge: {
+    fontSize: 10,
+    color: '#999',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+  },
+  entryDates: {
+    fontSize: 13,
+    color: '#333',
+    marginTop: 2,
+  },
+  entryBasis: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 12,
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,76 @@
+import React from 'react';
+import { TouchableOpacity, Text, StyleSheet, ActivityIndicator, ViewStyle } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { useSync } from '../contexts/SyncContext';
+
+interface SyncStatusIndicatorProps {
+  style?: ViewStyle;
+}
+
+/**
+ * Floating pill showing offline writes that are waiting to sync or need review.
+ * Hidden when everything is synced; tapping it opens the sync screen.
+ */
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ style }) => {
+  const { t } = useTranslation('sync');
+  const { status } = useSync();
+  const router = useRouter();
+
+  if (status.state === 'synced') {
+    return null;
+  }
+
+  const isError = status.state === 'error';
+
+  const label = status.state === 'syncing'
+    ? t('indicator.syncing')
+    : isError
+      ? t('indicator.needsReview', { count: status.failedCount })
+      : t('indicator.pending', { count: status.pendingCount });
+
+  return (
+    <TouchableOpacity
+      style={[styles.pill, isError ? styles.pillError : styles.pillPending, style]}
+      onPress={() => router.push('/(tabs)/sync')}
+      activeOpacity={0.8}
+    >
+      {status.state === 'syncing' ? (
+        <ActivityIndicator size="small" color="#fff" />
+      ) : (
+        <Ionicons name={isError ? 'alert-circle' : 'cloud-offline'} size={16} color="#fff" />
+      )}
+      <Text style={styles.text}>{label}</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  pill: {
+    position: 'absolute',
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  pillPending: {
+    backgroundColor: '#FF9800',
+  },
+  pillError: {
+    backgroundColor: '#F44336',
+  },
+  text: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
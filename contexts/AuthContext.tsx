@@ -29,7 +29,7 @@ interface AuthContextType {
   
   // Auth functions
   login: (email: string, password: string) => Promise<void>;
-  register: (email: string, password: string, accountType: AccountType) => Promise<void>;
+  register: (email: string, password: string, accountType: AccountType) => Promise<User>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
   
@@ -178,6 +178,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({
     // For association accounts, we don't create the association here
     // Instead, redirect to association creation screen (handled in register.tsx)
     // The association will be created when they complete the form
+    return data;
   };
 
   const logout = async () => {
@@ -0,0 +1,71 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { AppState } from 'react-native';
+import { useAuth } from './AuthContext';
+import { processQueue, subscribeToSyncStatus } from '../firebase/offlineQueue';
+import { SyncStatus } from '../types';
+
+// How often pending writes are retried while the app is open
+const SYNC_INTERVAL_MS = 30000;
+
+interface SyncContextType {
+  status: SyncStatus;
+  syncNow: () => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export const useSync = () => {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+};
+
+interface SyncProviderProps {
+  children: React.ReactNode;
+}
+
+export const SyncProvider: React.FC<SyncProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<SyncStatus>({
+    state: 'synced',
+    pendingCount: 0,
+    failedCount: 0,
+  });
+
+  const syncNow = useCallback(async () => {
+    try {
+      await processQueue();
+    } catch (error) {
+      console.error('[SyncContext] Error processing write queue:', error);
+    }
+  }, []);
+
+  useEffect(() => subscribeToSyncStatus(setStatus), []);
+
+  // Replay queued writes on sign-in, when the app returns to the foreground and periodically
+  useEffect(() => {
+    if (!user) return;
+
+    syncNow();
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        syncNow();
+      }
+    });
+    const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+
+    return () => {
+      subscription.remove();
+      clearInterval(interval);
+    };
+  }, [user, syncNow]);
+
+  return (
+    <SyncContext.Provider value={{ status, syncNow }}>
+      {children}
+    </SyncContext.Provider>
+  );
+};
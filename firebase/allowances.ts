@@ -0,0 +1,259 @@
+// Patient monthly allowance tracking and enforcement
+import firebase from 'firebase/compat/app';
+import { startOfMonth, endOfMonth, format } from 'date-fns';
+import { auth, db } from './firebaseConfig';
+import { getPatient, getPatientDistributions } from './firestore';
+import { isOwnerOrAdmin } from './associations';
+import { Patient, Distribution, ProductType, AllowanceOverride } from '../types';
+import { removeUndefinedValues } from '../utils/firestoreData';
+
+// One document per patient and month, rewritten by every distribution in that month
+const ALLOWANCE_PERIODS_COLLECTION = 'allowancePeriods';
+
+type Transaction = firebase.firestore.Transaction;
+
+// Allowance buckets prescribed on the patient record
+export type AllowanceCategory = 'flower' | 'extract' | 'oil';
+
+export interface AllowanceStatus {
+  category: AllowanceCategory | null; // null when the product type has no prescribed limit
+  limitGrams: number; // 0 means no allowance configured
+  usedGrams: number; // Distributed so far in the month
+  remainingGrams: number;
+  periodStart: number;
+  periodEnd: number;
+}
+
+/**
+ * Thrown when a distribution would exceed the patient's monthly allowance
+ * and no admin override was supplied.
+ */
+export class AllowanceExceededError extends Error {
+  code = 'allowance-exceeded';
+  status: AllowanceStatus;
+  requestedGrams: number;
+
+  constructor(status: AllowanceStatus, requestedGrams: number) {
+    super(
+      `Monthly ${status.category} allowance exceeded: ${status.usedGrams}g used of ${status.limitGrams}g, ${requestedGrams}g requested`
+    );
+    this.name = 'AllowanceExceededError';
+    this.status = status;
+    this.requestedGrams = requestedGrams;
+  }
+}
+
+/**
+ * Maps a product type to the patient allowance bucket it counts against.
+ * Edibles, topicals and other products have no prescribed allowance.
+ */
+export const getAllowanceCategory = (productType: ProductType): AllowanceCategory | null => {
+  switch (productType) {
+    case 'flower':
+      return 'flower';
+    case 'extract':
+      return 'extract';
+    case 'oil':
+      return 'oil';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Gets the monthly allowance in grams for a category (flower combines THC and CBD)
+ */
+export const getPatientAllowanceGrams = (patient: Patient, category: AllowanceCategory): number => {
+  switch (category) {
+    case 'flower':
+      return (patient.allowanceFlowerThcGrams || 0) + (patient.allowanceFlowerCbdGrams || 0);
+    case 'extract':
+      return patient.allowanceExtractGrams || 0;
+    case 'oil':
+      return patient.allowanceOilGrams || 0;
+  }
+};
+
+/**
+ * Gets the quantity of a distribution that counts against the allowance.
+ * Oil and extract distributions recorded only in ml are counted 1:1 as grams.
+ */
+export const getAllowanceQuantity = (
+  distribution: Pick<Distribution, 'productType' | 'quantityGrams' | 'quantityMl'>
+): number => {
+  if (distribution.quantityGrams) {
+    return distribution.quantityGrams;
+  }
+  if (distribution.productType === 'oil' || distribution.productType === 'extract') {
+    return distribution.quantityMl || 0;
+  }
+  return 0;
+};
+
+/**
+ * Sums the grams distributed per allowance category within the month of referenceDate
+ */
+export const calculateMonthlyUsage = (
+  distributions: Distribution[],
+  referenceDate: number = Date.now(),
+  excludeDistributionId?: string
+): Record<AllowanceCategory, number> => {
+  const periodStart = startOfMonth(referenceDate).getTime();
+  const periodEnd = endOfMonth(referenceDate).getTime();
+  const usage: Record<AllowanceCategory, number> = { flower: 0, extract: 0, oil: 0 };
+
+  for (const distribution of distributions) {
+    if (distribution.id === excludeDistributionId) continue;
+    if (distribution.distributionDate < periodStart || distribution.distributionDate > periodEnd) continue;
+
+    const category = getAllowanceCategory(distribution.productType);
+    if (category) {
+      usage[category] += getAllowanceQuantity(distribution);
+    }
+  }
+
+  return usage;
+};
+
+/**
+ * Builds the allowance status for a category from the month's usage
+ */
+const getAllowanceStatus = (
+  patient: Patient,
+  category: AllowanceCategory,
+  usage: Record<AllowanceCategory, number>,
+  referenceDate: number
+): AllowanceStatus => {
+  const limitGrams = getPatientAllowanceGrams(patient, category);
+  const usedGrams = usage[category];
+
+  return {
+    category,
+    limitGrams,
+    usedGrams,
+    remainingGrams: Math.max(0, limitGrams - usedGrams),
+    periodStart: startOfMonth(referenceDate).getTime(),
+    periodEnd: endOfMonth(referenceDate).getTime(),
+  };
+};
+
+/**
+ * Gets the patient's allowance status for a product type in the month of referenceDate
+ */
+export const getPatientAllowanceStatus = async (
+  patient: Patient,
+  productType: ProductType,
+  referenceDate: number = Date.now(),
+  excludeDistributionId?: string
+): Promise<AllowanceStatus> => {
+  const category = getAllowanceCategory(productType);
+  const periodStart = startOfMonth(referenceDate).getTime();
+  const periodEnd = endOfMonth(referenceDate).getTime();
+
+  if (!category) {
+    return { category, limitGrams: 0, usedGrams: 0, remainingGrams: 0, periodStart, periodEnd };
+  }
+
+  const distributions = await getPatientDistributions(patient.id, patient);
+  const usage = calculateMonthlyUsage(distributions, referenceDate, excludeDistributionId);
+  return getAllowanceStatus(patient, category, usage, referenceDate);
+};
+
+/**
+ * Checks whether a quantity would exceed the allowance.
+ * Patients without a configured allowance for the category are not limited.
+ */
+export const exceedsAllowance = (status: AllowanceStatus, requestedGrams: number): boolean => {
+  if (!status.category || status.limitGrams <= 0) {
+    return false;
+  }
+  return status.usedGrams + requestedGrams > status.limitGrams;
+};
+
+const getAllowancePeriodId = (patientId: string, referenceDate: number): string =>
+  `${patientId}_${format(referenceDate, 'yyyy-MM')}`;
+
+export interface AllowanceReservation {
+  /** The override to store on the distribution, if one was needed */
+  allowanceOverride?: AllowanceOverride;
+  /**
+   * Writes the patient's period totals including the new distribution.
+   * Must be called after every other read in the transaction.
+   */
+  commit: () => void;
+}
+
+/**
+ * Validates a new distribution against the patient's monthly allowance inside a transaction.
+ * The patient and their period document are read through the transaction and the period is
+ * rewritten on commit, so two distributions for the same patient and month can't both pass
+ * against the same totals: the later one retries and sees the other.
+ * Throws AllowanceExceededError unless an owner/admin override with a reason is provided.
+ * The override must be approved by the signed-in user.
+ */
+export const reserveAllowance = async (
+  transaction: Transaction,
+  distributionData: Pick<Distribution, 'userId' | 'associationId' | 'patientId' | 'productType' | 'quantityGrams' | 'quantityMl' | 'distributionDate'>,
+  override?: Omit<AllowanceOverride, 'limitGrams' | 'usedGrams'>
+): Promise<AllowanceReservation> => {
+  const requestedGrams = getAllowanceQuantity(distributionData);
+  const category = getAllowanceCategory(distributionData.productType);
+  if (!requestedGrams || !category) {
+    return { commit: () => {} };
+  }
+
+  const patientDoc = await transaction.get(db.collection('patients').doc(distributionData.patientId));
+  if (!patientDoc.exists) {
+    throw new Error('Patient not found');
+  }
+  const patient = { id: patientDoc.id, ...patientDoc.data() } as Patient;
+
+  const periodRef = db.collection(ALLOWANCE_PERIODS_COLLECTION)
+    .doc(getAllowancePeriodId(patient.id, distributionData.distributionDate));
+  await transaction.get(periodRef);
+
+  // Totals come from the distributions themselves, so deletes and edits never leave them stale
+  const distributions = await getPatientDistributions(patient.id, patient);
+  const usage = calculateMonthlyUsage(distributions, distributionData.distributionDate);
+  const status = getAllowanceStatus(patient, category, usage, distributionData.distributionDate);
+
+  const commit = () => {
+    transaction.set(periodRef, removeUndefinedValues({
+      patientId: patient.id,
+      associationId: distributionData.associationId,
+      userId: distributionData.userId,
+      period: format(distributionData.distributionDate, 'yyyy-MM'),
+      usedGrams: { ...usage, [category]: usage[category] + requestedGrams },
+      updatedAt: Date.now(),
+    }));
+  };
+
+  if (!exceedsAllowance(status, requestedGrams)) {
+    return { commit };
+  }
+
+  if (!override) {
+    throw new AllowanceExceededError(status, requestedGrams);
+  }
+  if (!override.reason?.trim()) {
+    throw new Error('A reason is required to override the monthly allowance');
+  }
+  if (override.approvedBy !== auth.currentUser?.uid) {
+    throw new Error('Allowance overrides must be approved by the signed-in user');
+  }
+  if (distributionData.associationId && !(await isOwnerOrAdmin(override.approvedBy, distributionData.associationId))) {
+    throw new Error('Only owners and admins can override the monthly allowance');
+  }
+
+  console.log('[Allowances] Allowance override approved by', override.approvedBy, 'for patient', patient.id);
+
+  return {
+    allowanceOverride: {
+      ...override,
+      reason: override.reason.trim(),
+      limitGrams: status.limitGrams,
+      usedGrams: status.usedGrams,
+    },
+    commit,
+  };
+};
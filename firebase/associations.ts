@@ -1,31 +1,36 @@
 // Firebase CRUD operations for Associations and Members
-import { db } from './firebaseConfig';
+import { auth, db } from './firebaseConfig';
 import firebase from 'firebase/compat/app';
+import * as Crypto from 'expo-crypto';
 import { 
   Association, 
   AssociationStatus, 
   Member, 
   MemberRole, 
+  MemberPermission,
   AssociationInvitation,
-  InvitationStatus 
+  InvitationStatus,
+  InvitationToken,
 } from '../types';
+import { removeUndefinedValues } from '../utils/firestoreData';
 
 // Collection names
 const ASSOCIATIONS_COLLECTION = 'associations';
 const MEMBERS_COLLECTION = 'members';
 const INVITATIONS_COLLECTION = 'associationInvitations';
+const INVITATION_TOKENS_COLLECTION = 'invitationTokens';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const INVITATION_TOKEN_BYTES = 32;
 
 // ==================== UTILITIES ====================
 
 /**
- * Removes undefined values from an object.
- * Firebase doesn't accept undefined values in update operations.
+ * Member documents are keyed by association and user so security rules can
+ * look up a caller's membership directly.
  */
-const removeUndefinedValues = <T extends Record<string, any>>(obj: T): Partial<T> => {
-  return Object.fromEntries(
-    Object.entries(obj).filter(([_, value]) => value !== undefined)
-  ) as Partial<T>;
-};
+export const getMemberDocId = (associationId: string, userId: string): string =>
+  `${associationId}_${userId}`;
 
 // ==================== ASSOCIATIONS ====================
 
@@ -89,7 +94,8 @@ export const createAssociation = async (
     updatedAt: now,
   };
 
-  const memberRef = await db.collection(MEMBERS_COLLECTION).add(removeUndefinedValues(memberData));
+  const memberRef = db.collection(MEMBERS_COLLECTION).doc(getMemberDocId(associationId, creatorUserId));
+  await memberRef.set(removeUndefinedValues(memberData));
   
   console.log('[Associations] Created owner member with ID:', memberRef.id);
 
@@ -137,33 +143,21 @@ export const getUserAssociations = async (userId: string): Promise<Association[]
     }
 
     const userData = userDoc.data();
-    let associationIds: string[] = userData?.associationIds || [];
-    const currentAssociationId = userData?.currentAssociationId;
+    const profileIds: string[] = userData?.associationIds || [];
+
+    // Memberships are the source of truth. Managers can only add ids to someone
+    // else's profile, so ids of deactivated memberships are pruned here by the user.
+    const membersSnapshot = await db
+      .collection(MEMBERS_COLLECTION)
+      .where('userId', '==', userId)
+      .where('isActive', '==', true)
+      .get();
+    const associationIds = [...new Set(membersSnapshot.docs.map(doc => doc.data().associationId as string))];
 
-    // If no associationIds but has currentAssociationId, use that
-    if (associationIds.length === 0 && currentAssociationId) {
-      associationIds = [currentAssociationId];
-    }
-
-    // If still no associations, check members collection as fallback
-    if (associationIds.length === 0) {
-      const membersSnapshot = await db
-        .collection(MEMBERS_COLLECTION)
-        .where('userId', '==', userId)
-        .where('isActive', '==', true)
-        .get();
-      
-      if (!membersSnapshot.empty) {
-        const memberAssociationIds = membersSnapshot.docs.map(doc => doc.data().associationId);
-        
-        // Update user document with missing association IDs
-        if (memberAssociationIds.length > 0) {
-          await db.collection('users').doc(userId).update({
-            associationIds: firebase.firestore.FieldValue.arrayUnion(...memberAssociationIds),
-          });
-          associationIds = memberAssociationIds;
-        }
-      }
+    const inSync = associationIds.length === profileIds.length
+      && associationIds.every(id => profileIds.includes(id));
+    if (!inSync) {
+      await db.collection('users').doc(userId).update({ associationIds });
     }
 
     if (associationIds.length === 0) {
@@ -315,6 +309,13 @@ export const getMemberByUserId = async (
   userId: string, 
   associationId: string
 ): Promise<Member | null> => {
+  const docSnap = await db.collection(MEMBERS_COLLECTION).doc(getMemberDocId(associationId, userId)).get();
+  
+  if (docSnap.exists) {
+    return { id: docSnap.id, ...docSnap.data() } as Member;
+  }
+  
+  // Members created before ids were keyed by association and user
   const querySnapshot = await db
     .collection(MEMBERS_COLLECTION)
     .where('userId', '==', userId)
@@ -398,7 +399,8 @@ export const addMember = async (
   }
 
   const now = Date.now();
-  const docRef = await db.collection(MEMBERS_COLLECTION).add({
+  const docRef = db.collection(MEMBERS_COLLECTION).doc(getMemberDocId(memberData.associationId, memberData.userId));
+  await docRef.set({
     ...removeUndefinedValues(memberData),
     isActive: true,
     createdAt: now,
@@ -471,10 +473,7 @@ export const deactivateMember = async (
     updatedAt: Date.now(),
   });
 
-  // Remove association from user's list
-  await db.collection('users').doc(member.userId).update({
-    associationIds: firebase.firestore.FieldValue.arrayRemove(member.associationId),
-  });
+  // The id stays in the user's profile until their own client prunes it (see getUserAssociations)
 
   console.log('[Associations] Deactivated member:', memberId);
 };
@@ -496,10 +495,13 @@ export const reactivateMember = async (memberId: string): Promise<void> => {
     updatedAt: Date.now(),
   });
 
-  // Add association back to user's list
-  await db.collection('users').doc(member.userId).update({
-    associationIds: firebase.firestore.FieldValue.arrayUnion(member.associationId),
-  });
+  // Add association back to user's list, unless it was never pruned
+  const userDoc = await db.collection('users').doc(member.userId).get();
+  if (!(userDoc.data()?.associationIds || []).includes(member.associationId)) {
+    await db.collection('users').doc(member.userId).update({
+      associationIds: firebase.firestore.FieldValue.arrayUnion(member.associationId),
+    });
+  }
 
   console.log('[Associations] Reactivated member:', memberId);
 };
@@ -576,11 +578,30 @@ export const getDefaultPermissionsForRole = (role: MemberRole): Partial<Member>
 // ==================== INVITATIONS ====================
 
 /**
- * Creates an invitation to join an association
+ * Generates a random invitation link token (hex encoded)
+ */
+const generateInvitationToken = (): string => {
+  return Array.from(Crypto.getRandomBytes(INVITATION_TOKEN_BYTES))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Hashes an invitation token. Only the hash is stored, so reading the
+ * database never reveals a usable link.
+ */
+export const hashInvitationToken = async (token: string): Promise<string> => {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, token.trim());
+};
+
+/**
+ * Creates an invitation to join an association.
+ * Returns the invitation id and the single-use token for the invitation link;
+ * the token is not stored and can't be recovered later.
  */
 export const createInvitation = async (
-  invitationData: Omit<AssociationInvitation, 'id' | 'status' | 'createdAt' | 'expiresAt'>
-): Promise<string> => {
+  invitationData: Omit<AssociationInvitation, 'id' | 'status' | 'createdAt' | 'expiresAt' | 'tokenHash'>
+): Promise<{ invitationId: string; token: string }> => {
   if (!invitationData.associationId) {
     throw new Error('associationId is required');
   }
@@ -602,21 +623,79 @@ export const createInvitation = async (
   }
 
   const now = Date.now();
-  const expiresAt = now + (7 * 24 * 60 * 60 * 1000); // 7 days from now
+  const expiresAt = now + INVITATION_TTL_MS;
+  const token = generateInvitationToken();
+  const tokenHash = await hashInvitationToken(token);
+
+  const invitationRef = db.collection(INVITATIONS_COLLECTION).doc();
+  const invitedEmail = invitationData.invitedEmail.toLowerCase();
 
   // Remove undefined values before saving (Firestore doesn't accept undefined)
   const cleanInvitationData = removeUndefinedValues({
     ...invitationData,
-    invitedEmail: invitationData.invitedEmail.toLowerCase(),
+    invitedEmail,
     status: 'pending' as InvitationStatus,
+    tokenHash,
     expiresAt,
     createdAt: now,
   });
 
-  const docRef = await db.collection(INVITATIONS_COLLECTION).add(cleanInvitationData);
+  const tokenData: Omit<InvitationToken, 'id'> = {
+    invitationId: invitationRef.id,
+    associationId: invitationData.associationId,
+    associationName: invitationData.associationName,
+    invitedEmail,
+    invitedRole: invitationData.invitedRole,
+    invitedByName: invitationData.invitedByName,
+    message: invitationData.message,
+    expiresAt,
+    createdAt: now,
+  };
+
+  const batch = db.batch();
+  batch.set(invitationRef, cleanInvitationData);
+  batch.set(db.collection(INVITATION_TOKENS_COLLECTION).doc(tokenHash), removeUndefinedValues(tokenData));
+  await batch.commit();
 
-  console.log('[Associations] Created invitation:', docRef.id);
-  return docRef.id;
+  console.log('[Associations] Created invitation:', invitationRef.id);
+  return { invitationId: invitationRef.id, token };
+};
+
+/**
+ * Looks up an invitation from its link token. Works before the invitee has
+ * signed in. Returns null for unknown, used or expired tokens.
+ */
+export const getInvitationByToken = async (token: string): Promise<InvitationToken | null> => {
+  if (!token) {
+    return null;
+  }
+
+  const tokenHash = await hashInvitationToken(token);
+  const docSnap = await db.collection(INVITATION_TOKENS_COLLECTION).doc(tokenHash).get();
+  
+  if (!docSnap.exists) {
+    return null;
+  }
+
+  const invitationToken = { id: docSnap.id, ...docSnap.data() } as InvitationToken;
+  if (invitationToken.usedAt || invitationToken.expiresAt < Date.now()) {
+    return null;
+  }
+  return invitationToken;
+};
+
+/**
+ * Marks an invitation's token as used so its link stops working
+ */
+const markInvitationTokenUsed = (
+  batch: firebase.firestore.WriteBatch,
+  invitation: AssociationInvitation
+): void => {
+  if (invitation.tokenHash) {
+    batch.update(db.collection(INVITATION_TOKENS_COLLECTION).doc(invitation.tokenHash), {
+      usedAt: Date.now(),
+    });
+  }
 };
 
 /**
@@ -719,7 +798,8 @@ export const acceptInvitation = async (
   fullName: string,
   documentType: 'cpf' | 'rg' | 'passport' | 'other',
   documentNumber: string,
-  displayName?: string
+  displayName?: string,
+  token?: string
 ): Promise<string> => {
   const invitation = await getInvitation(invitationId);
   
@@ -743,6 +823,11 @@ export const acceptInvitation = async (
     throw new Error('This invitation was sent to a different email address');
   }
 
+  // A link token, when given, must belong to this invitation
+  if (token && (await hashInvitationToken(token)) !== invitation.tokenHash) {
+    throw new Error('This invitation link is not valid');
+  }
+
   // Create the member
   const memberData: Omit<Member, 'id' | 'createdAt' | 'updatedAt'> = {
     associationId: invitation.associationId,
@@ -755,17 +840,21 @@ export const acceptInvitation = async (
     documentNumber,
     joinDate: Date.now(),
     invitedBy: invitation.invitedBy,
+    invitationId,
     isActive: true,
     ...getDefaultPermissionsForRole(invitation.invitedRole),
   };
 
   const memberId = await addMember(memberData);
 
-  // Update invitation status
-  await db.collection(INVITATIONS_COLLECTION).doc(invitationId).update({
+  // Update invitation status and retire its link
+  const batch = db.batch();
+  batch.update(db.collection(INVITATIONS_COLLECTION).doc(invitationId), {
     status: 'accepted',
     acceptedAt: Date.now(),
   });
+  markInvitationTokenUsed(batch, invitation);
+  await batch.commit();
 
   console.log('[Associations] Invitation accepted, member created:', memberId);
   return memberId;
@@ -785,10 +874,13 @@ export const rejectInvitation = async (invitationId: string): Promise<void> => {
     throw new Error('Invitation is no longer valid');
   }
 
-  await db.collection(INVITATIONS_COLLECTION).doc(invitationId).update({
+  const batch = db.batch();
+  batch.update(db.collection(INVITATIONS_COLLECTION).doc(invitationId), {
     status: 'rejected',
     rejectedAt: Date.now(),
   });
+  markInvitationTokenUsed(batch, invitation);
+  await batch.commit();
 
   console.log('[Associations] Invitation rejected:', invitationId);
 };
@@ -797,7 +889,13 @@ export const rejectInvitation = async (invitationId: string): Promise<void> => {
  * Cancels an invitation (by the sender)
  */
 export const cancelInvitation = async (invitationId: string): Promise<void> => {
-  await db.collection(INVITATIONS_COLLECTION).doc(invitationId).delete();
+  const invitation = await getInvitation(invitationId);
+  const batch = db.batch();
+  batch.delete(db.collection(INVITATIONS_COLLECTION).doc(invitationId));
+  if (invitation?.tokenHash) {
+    batch.delete(db.collection(INVITATION_TOKENS_COLLECTION).doc(invitation.tokenHash));
+  }
+  await batch.commit();
   console.log('[Associations] Invitation cancelled:', invitationId);
 };
 
@@ -809,15 +907,69 @@ export const cancelInvitation = async (invitationId: string): Promise<void> => {
 export const hasPermission = async (
   userId: string,
   associationId: string,
-  permission: keyof Pick<Member, 'canManagePatients' | 'canManagePlants' | 'canManageHarvests' | 'canManageDistributions' | 'canManageMembers' | 'canViewReports' | 'canExportData'>
+  permission: MemberPermission
 ): Promise<boolean> => {
   const member = await getMemberByUserId(userId, associationId);
-  
+  return memberHasPermission(member, permission);
+};
+
+/**
+ * Checks a loaded member's permission. Members created before a flag existed
+ * fall back to their role's default, and owners always have every permission.
+ */
+export const memberHasPermission = (
+  member: Member | null | undefined,
+  permission: MemberPermission
+): boolean => {
   if (!member || !member.isActive) {
     return false;
   }
   
-  return member[permission] === true;
+  if (member.role === 'owner') {
+    return true;
+  }
+  
+  const flag = member[permission];
+  return flag !== undefined ? flag === true : getDefaultPermissionsForRole(member.role)[permission] === true;
+};
+
+/**
+ * Thrown when the signed-in user lacks the permission an operation requires
+ */
+export class PermissionDeniedError extends Error {
+  code = 'permission-denied';
+  permission: MemberPermission;
+
+  constructor(permission: MemberPermission) {
+    super(`You don't have permission to perform this action (${permission})`);
+    this.name = 'PermissionDeniedError';
+    this.permission = permission;
+  }
+}
+
+/**
+ * Verifies the signed-in user holds a permission in the association that owns a record.
+ * Personal records (no associationId) are only guarded by ownership, so they pass.
+ * @throws PermissionDeniedError when the member lacks the permission
+ */
+export const assertPermission = async (
+  associationId: string | undefined,
+  permission: MemberPermission
+): Promise<void> => {
+  if (!associationId) {
+    return;
+  }
+  
+  const userId = auth.currentUser?.uid;
+  if (!userId) {
+    throw new Error('You must be signed in to perform this action');
+  }
+  
+  const member = await getMemberByUserId(userId, associationId);
+  if (!memberHasPermission(member, permission)) {
+    console.warn('[Associations] Permission denied:', permission, 'for user', userId);
+    throw new PermissionDeniedError(permission);
+  }
 };
 
 /**
@@ -1,9 +1,20 @@
 // Audit Logging System for tracking all data changes
+import * as Crypto from 'expo-crypto';
 import { db } from './firebaseConfig';
-import { AuditLog, AuditAction } from '../types';
+import { AuditLog, AuditAction, AuditEntryInput } from '../types';
+import { RecordScope, removeUndefinedValues, whereInScope } from '../utils/firestoreData';
 
 // Collection name for audit logs
 const AUDIT_LOG_COLLECTION = 'auditLogs';
+// One head document per chain, holding the sequence and hash of its last entry
+const AUDIT_CHAIN_COLLECTION = 'auditChains';
+
+interface AuditChainHead {
+  sequence: number;
+  lastHash: string;
+  lastLogId: string;
+  updatedAt: number;
+}
 
 /**
  * Compares two objects and returns the list of changed field names
@@ -43,6 +54,168 @@ const safeStringify = (data: any): string | undefined => {
   }
 };
 
+// ==================== HASH CHAIN ====================
+
+/**
+ * Each association has its own chain; personal entries are chained per user
+ */
+const getChainId = (userId: string, associationId?: string): string => {
+  return associationId || `user_${userId}`;
+};
+
+/**
+ * Hashes an entry's content together with the hash of the previous entry.
+ * Fields are listed explicitly so the digest doesn't depend on key order.
+ */
+const hashAuditEntry = (entry: AuditEntryInput, sequence: number, previousHash: string): Promise<string> => {
+  const content = [
+    sequence,
+    previousHash,
+    entry.userId,
+    entry.userEmail,
+    entry.associationId ?? null,
+    entry.action,
+    entry.entityType,
+    entry.entityId,
+    entry.entityDisplayName ?? null,
+    entry.previousValue ?? null,
+    entry.newValue ?? null,
+    entry.changedFields ?? null,
+    entry.timestamp,
+    entry.notes ?? null,
+  ];
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, JSON.stringify(content));
+};
+
+/**
+ * Appends an entry to its chain. The chain head is advanced in the same
+ * transaction, so concurrent writers can't fork the chain.
+ */
+const appendAuditEntry = async (entry: AuditEntryInput): Promise<void> => {
+  const headRef = db.collection(AUDIT_CHAIN_COLLECTION).doc(getChainId(entry.userId, entry.associationId));
+  const logRef = db.collection(AUDIT_LOG_COLLECTION).doc();
+
+  await db.runTransaction(async (transaction) => {
+    const headDoc = await transaction.get(headRef);
+    const head = headDoc.exists ? (headDoc.data() as AuditChainHead) : null;
+
+    const sequence = (head?.sequence || 0) + 1;
+    const previousHash = head?.lastHash || '';
+    const hash = await hashAuditEntry(entry, sequence, previousHash);
+
+    transaction.set(logRef, removeUndefinedValues({ ...entry, sequence, previousHash, hash }));
+    transaction.set(headRef, {
+      sequence,
+      lastHash: hash,
+      lastLogId: logRef.id,
+      updatedAt: Date.now(),
+    } as AuditChainHead);
+  });
+};
+
+/**
+ * Appends entries built ahead of time, e.g. for a write that was queued offline.
+ * Entries are appended in order; a failure is logged and doesn't stop the rest.
+ */
+export const appendAuditEntries = async (entries: AuditEntryInput[]): Promise<void> => {
+  for (const entry of entries) {
+    try {
+      await appendAuditEntry(entry);
+      console.log(`[AuditLog] Appended ${entry.action}: ${entry.entityType}/${entry.entityId}`);
+    } catch (error) {
+      console.error('[AuditLog] Error appending entry:', error);
+      // Don't throw - audit logging should not break the main operation
+    }
+  }
+};
+
+// ==================== ENTRY BUILDERS ====================
+
+/**
+ * Builds the entry for a create action
+ */
+export const buildCreateEntry = (
+  userId: string,
+  userEmail: string,
+  associationId: string | undefined,
+  entityType: string,
+  entityId: string,
+  entityDisplayName: string | undefined,
+  data: any,
+  notes?: string
+): AuditEntryInput => ({
+  userId,
+  userEmail,
+  associationId,
+  action: 'create',
+  entityType,
+  entityId,
+  entityDisplayName,
+  newValue: safeStringify(data),
+  timestamp: Date.now(),
+  notes,
+});
+
+/**
+ * Builds the entry for an update action, or null when nothing actually changed
+ */
+export const buildUpdateEntry = (
+  userId: string,
+  userEmail: string,
+  associationId: string | undefined,
+  entityType: string,
+  entityId: string,
+  entityDisplayName: string | undefined,
+  previousData: any,
+  newData: any,
+  notes?: string
+): AuditEntryInput | null => {
+  const changedFields = getChangedFields(previousData, newData);
+  if (changedFields.length === 0) {
+    return null;
+  }
+
+  return {
+    userId,
+    userEmail,
+    associationId,
+    action: 'update',
+    entityType,
+    entityId,
+    entityDisplayName,
+    previousValue: safeStringify(previousData),
+    newValue: safeStringify(newData),
+    changedFields,
+    timestamp: Date.now(),
+    notes,
+  };
+};
+
+/**
+ * Builds the entry for a delete action
+ */
+export const buildDeleteEntry = (
+  userId: string,
+  userEmail: string,
+  associationId: string | undefined,
+  entityType: string,
+  entityId: string,
+  entityDisplayName: string | undefined,
+  deletedData: any,
+  notes?: string
+): AuditEntryInput => ({
+  userId,
+  userEmail,
+  associationId,
+  action: 'delete',
+  entityType,
+  entityId,
+  entityDisplayName,
+  previousValue: safeStringify(deletedData),
+  timestamp: Date.now(),
+  notes,
+});
+
 // ==================== LOGGING FUNCTIONS ====================
 
 /**
@@ -51,6 +224,7 @@ const safeStringify = (data: any): string | undefined => {
 export const logCreate = async (
   userId: string,
   userEmail: string,
+  associationId: string | undefined,
   entityType: string,
   entityId: string,
   entityDisplayName: string | undefined,
@@ -58,19 +232,9 @@ export const logCreate = async (
   notes?: string
 ): Promise<void> => {
   try {
-    const auditData: Omit<AuditLog, 'id'> = {
-      userId,
-      userEmail,
-      action: 'create',
-      entityType,
-      entityId,
-      entityDisplayName,
-      newValue: safeStringify(data),
-      timestamp: Date.now(),
-      notes,
-    };
-    
-    await db.collection(AUDIT_LOG_COLLECTION).add(auditData);
+    await appendAuditEntry(
+      buildCreateEntry(userId, userEmail, associationId, entityType, entityId, entityDisplayName, data, notes)
+    );
     console.log(`[AuditLog] Created: ${entityType}/${entityId}`);
   } catch (error) {
     console.error('[AuditLog] Error logging create:', error);
@@ -84,6 +248,7 @@ export const logCreate = async (
 export const logUpdate = async (
   userId: string,
   userEmail: string,
+  associationId: string | undefined,
   entityType: string,
   entityId: string,
   entityDisplayName: string | undefined,
@@ -92,30 +257,18 @@ export const logUpdate = async (
   notes?: string
 ): Promise<void> => {
   try {
-    const changedFields = getChangedFields(previousData, newData);
+    const entry = buildUpdateEntry(
+      userId, userEmail, associationId, entityType, entityId, entityDisplayName, previousData, newData, notes
+    );
     
     // Don't log if nothing actually changed
-    if (changedFields.length === 0) {
+    if (!entry) {
       console.log(`[AuditLog] Skipped update (no changes): ${entityType}/${entityId}`);
       return;
     }
     
-    const auditData: Omit<AuditLog, 'id'> = {
-      userId,
-      userEmail,
-      action: 'update',
-      entityType,
-      entityId,
-      entityDisplayName,
-      previousValue: safeStringify(previousData),
-      newValue: safeStringify(newData),
-      changedFields,
-      timestamp: Date.now(),
-      notes,
-    };
-    
-    await db.collection(AUDIT_LOG_COLLECTION).add(auditData);
-    console.log(`[AuditLog] Updated: ${entityType}/${entityId}, fields: ${changedFields.join(', ')}`);
+    await appendAuditEntry(entry);
+    console.log(`[AuditLog] Updated: ${entityType}/${entityId}, fields: ${entry.changedFields!.join(', ')}`);
   } catch (error) {
     console.error('[AuditLog] Error logging update:', error);
     // Don't throw - audit logging should not break the main operation
@@ -128,6 +281,7 @@ export const logUpdate = async (
 export const logDelete = async (
   userId: string,
   userEmail: string,
+  associationId: string | undefined,
   entityType: string,
   entityId: string,
   entityDisplayName: string | undefined,
@@ -135,22 +289,45 @@ export const logDelete = async (
   notes?: string
 ): Promise<void> => {
   try {
-    const auditData: Omit<AuditLog, 'id'> = {
+    await appendAuditEntry(
+      buildDeleteEntry(userId, userEmail, associationId, entityType, entityId, entityDisplayName, deletedData, notes)
+    );
+    console.log(`[AuditLog] Deleted: ${entityType}/${entityId}`);
+  } catch (error) {
+    console.error('[AuditLog] Error logging delete:', error);
+    // Don't throw - audit logging should not break the main operation
+  }
+};
+
+/**
+ * Log an override of a compliance check (e.g. distributing a batch without a passing COA)
+ */
+export const logOverride = async (
+  userId: string,
+  userEmail: string,
+  associationId: string | undefined,
+  entityType: string,
+  entityId: string,
+  entityDisplayName: string | undefined,
+  overrideData: any,
+  notes?: string
+): Promise<void> => {
+  try {
+    await appendAuditEntry({
       userId,
       userEmail,
-      action: 'delete',
+      associationId,
+      action: 'override',
       entityType,
       entityId,
       entityDisplayName,
-      previousValue: safeStringify(deletedData),
+      newValue: safeStringify(overrideData),
       timestamp: Date.now(),
       notes,
-    };
-    
-    await db.collection(AUDIT_LOG_COLLECTION).add(auditData);
-    console.log(`[AuditLog] Deleted: ${entityType}/${entityId}`);
+    });
+    console.log(`[AuditLog] Override: ${entityType}/${entityId}`);
   } catch (error) {
-    console.error('[AuditLog] Error logging delete:', error);
+    console.error('[AuditLog] Error logging override:', error);
     // Don't throw - audit logging should not break the main operation
   }
 };
@@ -158,18 +335,41 @@ export const logDelete = async (
 // ==================== QUERY FUNCTIONS ====================
 
 /**
- * Get audit logs for a specific entity
+ * Get audit logs for a specific entity.
+ * Pass the scope the entity belongs to; the rules only allow queries limited to it.
  */
 export const getEntityAuditLogs = async (
   entityType: string,
-  entityId: string
+  entityId: string,
+  scope: RecordScope
+): Promise<AuditLog[]> => {
+  const querySnapshot = await whereInScope(db.collection(AUDIT_LOG_COLLECTION), scope)
+    .where('entityType', '==', entityType)
+    .where('entityId', '==', entityId)
+    .get();
+  
+  const logs = querySnapshot.docs.map(doc => ({
+    id: doc.id,
+    ...doc.data()
+  } as AuditLog));
+  
+  // Sort in memory to avoid index requirements
+  return logs.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Get audit logs for a specific user
+ */
+export const getUserAuditLogs = async (
+  userId: string,
+  limit: number = 50
 ): Promise<AuditLog[]> => {
   try {
     const querySnapshot = await db
       .collection(AUDIT_LOG_COLLECTION)
-      .where('entityType', '==', entityType)
-      .where('entityId', '==', entityId)
+      .where('userId', '==', userId)
       .orderBy('timestamp', 'desc')
+      .limit(limit)
       .get();
     
     return querySnapshot.docs.map(doc => ({
@@ -177,13 +377,12 @@ export const getEntityAuditLogs = async (
       ...doc.data()
     } as AuditLog));
   } catch (error: any) {
-    console.error('[AuditLog] Error getting entity logs:', error);
+    console.error('[AuditLog] Error getting user logs:', error);
     // If index not ready, fall back to unordered query
     if (error.code === 'failed-precondition' && error.message?.includes('index')) {
       const querySnapshot = await db
         .collection(AUDIT_LOG_COLLECTION)
-        .where('entityType', '==', entityType)
-        .where('entityId', '==', entityId)
+        .where('userId', '==', userId)
         .get();
       
       const logs = querySnapshot.docs.map(doc => ({
@@ -191,68 +390,109 @@ export const getEntityAuditLogs = async (
         ...doc.data()
       } as AuditLog));
       
-      return logs.sort((a, b) => b.timestamp - a.timestamp);
+      return logs.sort((a, b) => b.timestamp - a.timestamp).slice(0, limit);
     }
     throw error;
   }
 };
 
 /**
- * Get audit logs for a specific user
+ * Base query for the audit logs of a context: the association's entries,
+ * or the user's own entries when no association is active
  */
-export const getUserAuditLogs = async (
+const getContextQuery = (userId: string, associationId?: string) => {
+  return associationId
+    ? db.collection(AUDIT_LOG_COLLECTION).where('associationId', '==', associationId)
+    : db.collection(AUDIT_LOG_COLLECTION).where('userId', '==', userId);
+};
+
+/**
+ * Personal context only includes entries that don't belong to an association
+ */
+const filterToContext = (logs: AuditLog[], associationId?: string): AuditLog[] => {
+  return associationId ? logs : logs.filter(log => !log.associationId);
+};
+
+/**
+ * Get recent audit logs for the current context (association or personal)
+ */
+export const getRecentAuditLogs = async (
   userId: string,
+  associationId?: string,
   limit: number = 50
 ): Promise<AuditLog[]> => {
   try {
-    const querySnapshot = await db
-      .collection(AUDIT_LOG_COLLECTION)
-      .where('userId', '==', userId)
+    const querySnapshot = await getContextQuery(userId, associationId)
       .orderBy('timestamp', 'desc')
       .limit(limit)
       .get();
     
-    return querySnapshot.docs.map(doc => ({
+    return filterToContext(querySnapshot.docs.map(doc => ({
       id: doc.id,
       ...doc.data()
-    } as AuditLog));
+    } as AuditLog)), associationId);
   } catch (error: any) {
-    console.error('[AuditLog] Error getting user logs:', error);
+    console.error('[AuditLog] Error getting recent logs:', error);
     // If index not ready, fall back to unordered query
     if (error.code === 'failed-precondition' && error.message?.includes('index')) {
-      const querySnapshot = await db
-        .collection(AUDIT_LOG_COLLECTION)
-        .where('userId', '==', userId)
-        .get();
+      const querySnapshot = await getContextQuery(userId, associationId).get();
       
       const logs = querySnapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data()
       } as AuditLog));
       
-      return logs.sort((a, b) => b.timestamp - a.timestamp).slice(0, limit);
+      return filterToContext(logs, associationId)
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, limit);
     }
     throw error;
   }
 };
 
 /**
- * Get recent audit logs (across all users)
+ * Get every audit log of the current context within a date range (no limit),
+ * for reports that must account for the whole period
  */
-export const getRecentAuditLogs = async (limit: number = 50): Promise<AuditLog[]> => {
+export const getAuditLogsInRange = async (
+  userId: string,
+  associationId?: string,
+  startDate?: number,
+  endDate?: number
+): Promise<AuditLog[]> => {
+  const inRange = (log: AuditLog) =>
+    (!startDate || log.timestamp >= startDate) && (!endDate || log.timestamp <= endDate);
+
   try {
-    const querySnapshot = await db
-      .collection(AUDIT_LOG_COLLECTION)
-      .orderBy('timestamp', 'desc')
-      .limit(limit)
-      .get();
-    
-    return querySnapshot.docs.map(doc => ({
+    let query: any = getContextQuery(userId, associationId);
+    if (startDate) {
+      query = query.where('timestamp', '>=', startDate);
+    }
+    if (endDate) {
+      query = query.where('timestamp', '<=', endDate);
+    }
+
+    const querySnapshot = await query.orderBy('timestamp', 'desc').get();
+
+    return filterToContext(querySnapshot.docs.map((doc: any) => ({
       id: doc.id,
       ...doc.data()
-    } as AuditLog));
-  } catch (error) {
-    console.error('[AuditLog] Error getting recent logs:', error);
+    } as AuditLog)), associationId);
+  } catch (error: any) {
+    console.error('[AuditLog] Error getting logs in range:', error);
+    // If index not ready, filter the whole context in memory
+    if (error.code === 'failed-precondition' && error.message?.includes('index')) {
+      const querySnapshot = await getContextQuery(userId, associationId).get();
+
+      const logs = querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      } as AuditLog));
+
+      return filterToContext(logs, associationId)
+        .filter(inRange)
+        .sort((a, b) => b.timestamp - a.timestamp);
+    }
     throw error;
   }
 };
@@ -269,12 +509,31 @@ export interface AuditLogFilters {
   limit?: number;
 }
 
-export const searchAuditLogs = async (filters: AuditLogFilters): Promise<AuditLog[]> => {
+/**
+ * Applies the filters that weren't part of the Firestore query
+ */
+const applyFilters = (logs: AuditLog[], filters: AuditLogFilters): AuditLog[] => {
+  return logs.filter(log =>
+    (!filters.userId || log.userId === filters.userId) &&
+    (!filters.entityType || log.entityType === filters.entityType) &&
+    (!filters.action || log.action === filters.action) &&
+    (!filters.startDate || log.timestamp >= filters.startDate) &&
+    (!filters.endDate || log.timestamp <= filters.endDate)
+  );
+};
+
+export const searchAuditLogs = async (
+  userId: string,
+  associationId: string | undefined,
+  filters: AuditLogFilters
+): Promise<AuditLog[]> => {
+  const limit = filters.limit || 100; // Default limit
+
   try {
-    let query: any = db.collection(AUDIT_LOG_COLLECTION);
+    let query: any = getContextQuery(userId, associationId);
     
     // Apply filters (Firestore allows only one inequality filter per query)
-    if (filters.userId) {
+    if (filters.userId && associationId) {
       query = query.where('userId', '==', filters.userId);
     }
     if (filters.entityType) {
@@ -285,79 +544,34 @@ export const searchAuditLogs = async (filters: AuditLogFilters): Promise<AuditLo
     }
     
     // Add ordering and limit
-    query = query.orderBy('timestamp', 'desc');
-    
-    if (filters.limit) {
-      query = query.limit(filters.limit);
-    } else {
-      query = query.limit(100); // Default limit
-    }
+    query = query.orderBy('timestamp', 'desc').limit(limit);
     
     const querySnapshot = await query.get();
     
-    let logs = querySnapshot.docs.map((doc: any) => ({
+    const logs = querySnapshot.docs.map((doc: any) => ({
       id: doc.id,
       ...doc.data()
     } as AuditLog));
     
     // Apply date filters in memory (to avoid needing a composite index)
-    if (filters.startDate) {
-      logs = logs.filter(log => log.timestamp >= filters.startDate!);
-    }
-    if (filters.endDate) {
-      logs = logs.filter(log => log.timestamp <= filters.endDate!);
-    }
-    
-    return logs;
+    return applyFilters(filterToContext(logs, associationId), filters);
   } catch (error: any) {
     console.error('[AuditLog] Error searching logs:', error);
     
-    // If index not ready, try simpler query
+    // If index not ready, filter the whole context in memory
     if (error.code === 'failed-precondition' && error.message?.includes('index')) {
       console.log('[AuditLog] Index not ready, using simpler query');
       
-      let query: any = db.collection(AUDIT_LOG_COLLECTION);
+      const querySnapshot = await getContextQuery(userId, associationId).get();
       
-      // Use just one filter if possible
-      if (filters.userId) {
-        query = query.where('userId', '==', filters.userId);
-      } else if (filters.entityType) {
-        query = query.where('entityType', '==', filters.entityType);
-      } else if (filters.action) {
-        query = query.where('action', '==', filters.action);
-      }
-      
-      const querySnapshot = await query.get();
-      
-      let logs = querySnapshot.docs.map((doc: any) => ({
+      const logs = querySnapshot.docs.map((doc: any) => ({
         id: doc.id,
         ...doc.data()
       } as AuditLog));
       
-      // Apply remaining filters in memory
-      if (filters.userId && query !== db.collection(AUDIT_LOG_COLLECTION).where('userId', '==', filters.userId)) {
-        logs = logs.filter(log => log.userId === filters.userId);
-      }
-      if (filters.entityType) {
-        logs = logs.filter(log => log.entityType === filters.entityType);
-      }
-      if (filters.action) {
-        logs = logs.filter(log => log.action === filters.action);
-      }
-      if (filters.startDate) {
-        logs = logs.filter(log => log.timestamp >= filters.startDate!);
-      }
-      if (filters.endDate) {
-        logs = logs.filter(log => log.timestamp <= filters.endDate!);
-      }
-      
-      // Sort and limit
-      logs = logs.sort((a, b) => b.timestamp - a.timestamp);
-      if (filters.limit) {
-        logs = logs.slice(0, filters.limit);
-      }
-      
-      return logs;
+      return applyFilters(filterToContext(logs, associationId), filters)
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, limit);
     }
     
     throw error;
@@ -409,3 +623,128 @@ export const getAuditLogsByEntityTypes = async (
 
 
 
+
+
+// ==================== CHAIN VERIFICATION ====================
+
+export type AuditChainIssueType =
+  | 'edited' // The entry no longer matches its hash
+  | 'broken_link' // previousHash doesn't match the entry before it
+  | 'missing' // Sequence numbers were skipped - entries were deleted
+  | 'duplicate' // Two entries claim the same position
+  | 'head_mismatch'; // The newest entries were deleted (or the head was tampered with)
+
+export interface AuditChainIssue {
+  type: AuditChainIssueType;
+  sequence: number;
+  logId?: string;
+  message: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checkedEntries: number;
+  unchainedEntries: number; // Written before chaining existed; they can't be verified
+  lastSequence: number;
+  issues: AuditChainIssue[];
+  verifiedAt: number;
+}
+
+/**
+ * Walks the whole audit chain of a context and checks every entry's hash and
+ * link to the previous entry, detecting edited and deleted records.
+ */
+export const verifyAuditChain = async (
+  userId: string,
+  associationId?: string
+): Promise<AuditChainVerification> => {
+  const [querySnapshot, headDoc] = await Promise.all([
+    getContextQuery(userId, associationId).get(),
+    db.collection(AUDIT_CHAIN_COLLECTION).doc(getChainId(userId, associationId)).get(),
+  ]);
+
+  const logs = filterToContext(querySnapshot.docs.map(doc => ({
+    id: doc.id,
+    ...doc.data()
+  } as AuditLog)), associationId);
+
+  const chained = logs
+    .filter(log => log.sequence !== undefined && log.hash !== undefined)
+    .sort((a, b) => a.sequence! - b.sequence!);
+
+  const issues: AuditChainIssue[] = [];
+  let previous: AuditLog | null = null;
+
+  for (const log of chained) {
+    const sequence = log.sequence!;
+    const previousHash = log.previousHash || '';
+
+    const expectedHash = await hashAuditEntry(log, sequence, previousHash);
+    if (expectedHash !== log.hash) {
+      issues.push({
+        type: 'edited',
+        sequence,
+        logId: log.id,
+        message: `Entry #${sequence} was modified after it was written`,
+      });
+    }
+
+    const expectedSequence = (previous?.sequence || 0) + 1;
+    if (previous && sequence === previous.sequence) {
+      issues.push({
+        type: 'duplicate',
+        sequence,
+        logId: log.id,
+        message: `More than one entry claims position #${sequence}`,
+      });
+    } else if (sequence !== expectedSequence) {
+      issues.push({
+        type: 'missing',
+        sequence: expectedSequence,
+        message: sequence - expectedSequence === 1
+          ? `Entry #${expectedSequence} is missing`
+          : `Entries #${expectedSequence} to #${sequence - 1} are missing`,
+      });
+    } else if (previousHash !== (previous?.hash || '')) {
+      issues.push({
+        type: 'broken_link',
+        sequence,
+        logId: log.id,
+        message: `Entry #${sequence} doesn't link to entry #${expectedSequence - 1}`,
+      });
+    }
+
+    previous = log;
+  }
+
+  const head = headDoc.exists ? (headDoc.data() as AuditChainHead) : null;
+  const lastSequence = previous?.sequence || 0;
+
+  if (head && head.sequence > lastSequence) {
+    issues.push({
+      type: 'head_mismatch',
+      sequence: lastSequence + 1,
+      message: head.sequence - lastSequence === 1
+        ? `The latest entry (#${head.sequence}) is missing`
+        : `The latest entries (#${lastSequence + 1} to #${head.sequence}) are missing`,
+    });
+  } else if ((head?.lastHash || '') !== (previous?.hash || '') || (head?.sequence || 0) < lastSequence) {
+    issues.push({
+      type: 'head_mismatch',
+      sequence: lastSequence,
+      logId: previous?.id,
+      message: 'The chain head doesn\'t match the latest entry',
+    });
+  }
+
+  console.log(`[AuditLog] Verified chain ${getChainId(userId, associationId)}: ${chained.length} entries, ${issues.length} issue(s)`);
+
+  return {
+    valid: issues.length === 0,
+    checkedEntries: chained.length,
+    unchainedEntries: logs.length - chained.length,
+    lastSequence,
+    issues,
+    verifiedAt: Date.now(),
+  };
+};
@@ -2,15 +2,25 @@
  * Audited Firestore Operations
  * 
  * This module wraps the standard Firestore CRUD operations with automatic audit logging.
- * Use these functions instead of the direct firestore.ts functions when you need audit trails.
+ * Screens should use these functions instead of the direct module functions, so every
+ * change to association data shows up in the audit trail.
  */
 
+import { format } from 'date-fns';
+
 import {
   // Plant operations
   createPlant as _createPlant,
   getPlant,
   updatePlant as _updatePlant,
   deletePlant as _deletePlant,
+  clonePlants as _clonePlants,
+  ClonePlantParams,
+  // Stage operations
+  createStage as _createStage,
+  getStage,
+  updateStage as _updateStage,
+  deleteStage as _deleteStage,
   // Harvest operations
   createHarvest as _createHarvest,
   getHarvest,
@@ -20,6 +30,7 @@ import {
   createPatient as _createPatient,
   getPatient,
   updatePatient as _updatePatient,
+  deactivatePatient as _deactivatePatient,
   deletePatient as _deletePatient,
   // Distribution operations
   createDistribution as _createDistribution,
@@ -36,19 +47,163 @@ import {
   getEnvironment,
   updateEnvironment as _updateEnvironment,
   deleteEnvironment as _deleteEnvironment,
+  // Environment record operations
+  createEnvironmentRecord as _createEnvironmentRecord,
+  getEnvironmentRecord,
+  updateEnvironmentRecord as _updateEnvironmentRecord,
+  deleteEnvironmentRecord as _deleteEnvironmentRecord,
+  // Order operations
+  createOrder as _createOrder,
+  getOrder,
+  approveOrder as _approveOrder,
+  rejectOrder as _rejectOrder,
+  fulfillOrder as _fulfillOrder,
+  cancelOrder as _cancelOrder,
+  deleteOrder as _deleteOrder,
+  // Plant log operations
+  createPlantLog as _createPlantLog,
+  getPlantLog,
+  updatePlantLog as _updatePlantLog,
+  deletePlantLog as _deletePlantLog,
+  createBulkPlantLog as _createBulkPlantLog,
+  getBulkPlantLog,
+  updateBulkPlantLog as _updateBulkPlantLog,
+  deleteBulkPlantLog as _deleteBulkPlantLog,
+  // Seed genetic operations
+  createSeedGenetic as _createSeedGenetic,
+  getSeedGenetic,
+  updateSeedGenetic as _updateSeedGenetic,
+  deleteSeedGenetic as _deleteSeedGenetic,
+  DistributionOptions,
+  // Restore from the audit trail
+  restoreRecord as _restoreRecord,
 } from './firestore';
 
-import { logCreate, logUpdate, logDelete } from './auditLog';
+import {
+  createDocument as _createDocument,
+  getDocument,
+  updateDocument as _updateDocument,
+  archiveDocument as _archiveDocument,
+  activateDocument as _activateDocument,
+  deleteDocument as _deleteDocument,
+} from './documents';
+
+import {
+  createWasteDisposal as _createWasteDisposal,
+  getWasteDisposal,
+  updateWasteDisposal as _updateWasteDisposal,
+  deleteWasteDisposal as _deleteWasteDisposal,
+} from './wasteDisposal';
+
+import {
+  createLabAnalysis as _createLabAnalysis,
+  getLabAnalysis,
+  updateLabAnalysis as _updateLabAnalysis,
+  deleteLabAnalysis as _deleteLabAnalysis,
+} from './labAnalyses';
+
+import {
+  createTask as _createTask,
+  getTask,
+  updateTask as _updateTask,
+  deleteTask as _deleteTask,
+  completeTask as _completeTask,
+} from './tasks';
+
+import {
+  createNutrientSchedule as _createNutrientSchedule,
+  getNutrientSchedule,
+  updateNutrientSchedule as _updateNutrientSchedule,
+  deleteNutrientSchedule as _deleteNutrientSchedule,
+} from './nutrientSchedules';
+
+import {
+  createSensor as _createSensor,
+  getSensor,
+  updateSensor as _updateSensor,
+  deleteSensor as _deleteSensor,
+} from './sensors';
+
+import {
+  openRecall as _openRecall,
+  getRecall,
+  updateRecallPatientContact as _updateRecallPatientContact,
+  closeRecall as _closeRecall,
+} from './recalls';
+
+import {
+  createAssociation as _createAssociation,
+  getAssociation,
+  updateAssociation as _updateAssociation,
+  getMember,
+  updateMember as _updateMember,
+  updateMemberRole as _updateMemberRole,
+  deactivateMember as _deactivateMember,
+  reactivateMember as _reactivateMember,
+  createInvitation as _createInvitation,
+  getInvitation,
+  acceptInvitation as _acceptInvitation,
+  rejectInvitation as _rejectInvitation,
+  cancelInvitation as _cancelInvitation,
+} from './associations';
+
+import { updateControlNumberFormats as _updateControlNumberFormats } from './sequences';
+
+import { logCreate, logUpdate, logDelete, buildCreateEntry, buildUpdateEntry, getEntityAuditLogs } from './auditLog';
+
+import {
+  RestorableEntityType,
+  isRestorableEntity,
+  rebuildEntityVersion,
+  validateRestoredEntity,
+  applyPreservedFields,
+  getRestoreChanges,
+} from '../utils/auditRestore';
+
+import { RecordScope } from '../utils/firestoreData';
 
 import {
   Plant,
+  Stage,
   Harvest,
   Patient,
   Distribution,
   Extract,
   Environment,
+  EnvironmentRecord,
+  Order,
+  PlantLog,
+  BulkPlantLog,
+  SeedGenetic,
+  GrowTask,
+  NutrientSchedule,
+  Sensor,
+  InstitutionalDocument,
+  WasteDisposal,
+  LabAnalysis,
+  RecallContactStatus,
+  InventorySourceType,
+  Association,
+  Member,
+  MemberRole,
+  AssociationInvitation,
+  ControlNumberFormats,
+  AuditLog,
 } from '../types';
 
+/**
+ * Plant logs are written offline-first, so the snapshots around them are best effort:
+ * a failed read must not block a log that would otherwise be queued.
+ */
+const getForAudit = async <T>(getter: () => Promise<T | null>): Promise<T | null> => {
+  try {
+    return await getter();
+  } catch (error) {
+    console.warn('[AuditedFirestore] Could not read the audit snapshot:', error);
+    return null;
+  }
+};
+
 // ==================== PLANT OPERATIONS WITH AUDIT ====================
 
 export const createPlantWithAudit = async (
@@ -63,6 +218,7 @@ export const createPlantWithAudit = async (
   await logCreate(
     plantData.userId,
     userEmail,
+    plantData.associationId,
     'plant',
     id,
     createdPlant?.name || plantData.name,
@@ -90,6 +246,7 @@ export const updatePlantWithAudit = async (
   await logUpdate(
     userId,
     userEmail,
+    previousPlant?.associationId,
     'plant',
     plantId,
     updatedPlant?.name || previousPlant?.name,
@@ -112,6 +269,7 @@ export const deletePlantWithAudit = async (
   await logDelete(
     userId,
     userEmail,
+    plant?.associationId,
     'plant',
     plantId,
     plant?.name,
@@ -119,6 +277,105 @@ export const deletePlantWithAudit = async (
   );
 };
 
+export const clonePlantsWithAudit = async (
+  params: ClonePlantParams,
+  userEmail: string
+): Promise<string[]> => {
+  const cloneIds = await _clonePlants(params);
+  
+  for (const cloneId of cloneIds) {
+    const clone = await getPlant(cloneId);
+    
+    await logCreate(
+      params.userId,
+      userEmail,
+      clone?.associationId,
+      'plant',
+      cloneId,
+      clone?.name,
+      clone,
+      `Cloned from ${params.sourcePlant.controlNumber || params.sourcePlant.name}`
+    );
+  }
+  
+  return cloneIds;
+};
+
+// ==================== STAGE OPERATIONS WITH AUDIT ====================
+
+/**
+ * Stages have no owner fields of their own; they belong to the plant's association
+ */
+const getStageAssociationId = async (plantId?: string): Promise<string | undefined> => {
+  if (!plantId) return undefined;
+  const plant = await getPlant(plantId);
+  return plant?.associationId;
+};
+
+export const createStageWithAudit = async (
+  stageData: Omit<Stage, 'id'>,
+  userId: string,
+  userEmail: string
+): Promise<string> => {
+  const id = await _createStage(stageData);
+  
+  await logCreate(
+    userId,
+    userEmail,
+    await getStageAssociationId(stageData.plantId),
+    'stage',
+    id,
+    stageData.name,
+    { ...stageData, id }
+  );
+  
+  return id;
+};
+
+export const updateStageWithAudit = async (
+  stageId: string,
+  data: Partial<Omit<Stage, 'id'>>,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const previousStage = await getStage(stageId);
+  
+  await _updateStage(stageId, data);
+  
+  const updatedStage = await getStage(stageId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    await getStageAssociationId(previousStage?.plantId),
+    'stage',
+    stageId,
+    updatedStage?.name || previousStage?.name,
+    previousStage,
+    updatedStage
+  );
+};
+
+export const deleteStageWithAudit = async (
+  stageId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const stage = await getStage(stageId);
+  
+  await _deleteStage(stageId);
+  
+  await logDelete(
+    userId,
+    userEmail,
+    await getStageAssociationId(stage?.plantId),
+    'stage',
+    stageId,
+    stage?.name,
+    stage
+  );
+};
+
 // ==================== HARVEST OPERATIONS WITH AUDIT ====================
 
 export const createHarvestWithAudit = async (
@@ -133,6 +390,7 @@ export const createHarvestWithAudit = async (
   await logCreate(
     harvestData.userId,
     userEmail,
+    harvestData.associationId,
     'harvest',
     id,
     createdHarvest?.controlNumber,
@@ -157,6 +415,7 @@ export const updateHarvestWithAudit = async (
   await logUpdate(
     userId,
     userEmail,
+    previousHarvest?.associationId,
     'harvest',
     harvestId,
     updatedHarvest?.controlNumber || previousHarvest?.controlNumber,
@@ -177,6 +436,7 @@ export const deleteHarvestWithAudit = async (
   await logDelete(
     userId,
     userEmail,
+    harvest?.associationId,
     'harvest',
     harvestId,
     harvest?.controlNumber,
@@ -195,6 +455,7 @@ export const createPatientWithAudit = async (
   await logCreate(
     patientData.userId,
     userEmail,
+    patientData.associationId,
     'patient',
     id,
     patientData.name,
@@ -219,6 +480,7 @@ export const updatePatientWithAudit = async (
   await logUpdate(
     userId,
     userEmail,
+    previousPatient?.associationId,
     'patient',
     patientId,
     updatedPatient?.name || previousPatient?.name,
@@ -227,6 +489,30 @@ export const updatePatientWithAudit = async (
   );
 };
 
+export const deactivatePatientWithAudit = async (
+  patientId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const previousPatient = await getPatient(patientId);
+  
+  await _deactivatePatient(patientId);
+  
+  const updatedPatient = await getPatient(patientId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    previousPatient?.associationId,
+    'patient',
+    patientId,
+    previousPatient?.name,
+    previousPatient,
+    updatedPatient,
+    'Patient deactivated'
+  );
+};
+
 export const deletePatientWithAudit = async (
   patientId: string,
   userId: string,
@@ -239,6 +525,7 @@ export const deletePatientWithAudit = async (
   await logDelete(
     userId,
     userEmail,
+    patient?.associationId,
     'patient',
     patientId,
     patient?.name,
@@ -250,19 +537,21 @@ export const deletePatientWithAudit = async (
 
 export const createDistributionWithAudit = async (
   distributionData: Omit<Distribution, 'id' | 'distributionNumber'>,
-  userEmail: string
+  userEmail: string,
+  options: DistributionOptions = {}
 ): Promise<string> => {
-  const id = await _createDistribution(distributionData);
+  const id = await _createDistribution(distributionData, options);
   
   const createdDistribution = await getDistribution(id);
   
   await logCreate(
     distributionData.userId,
     userEmail,
+    distributionData.associationId,
     'distribution',
     id,
     createdDistribution?.distributionNumber,
-    { ...distributionData, id, distributionNumber: createdDistribution?.distributionNumber }
+    { ...distributionData, ...createdDistribution, id }
   );
   
   return id;
@@ -283,6 +572,7 @@ export const updateDistributionWithAudit = async (
   await logUpdate(
     userId,
     userEmail,
+    previousDistribution?.associationId,
     'distribution',
     distributionId,
     updatedDistribution?.distributionNumber || previousDistribution?.distributionNumber,
@@ -303,6 +593,7 @@ export const deleteDistributionWithAudit = async (
   await logDelete(
     userId,
     userEmail,
+    distribution?.associationId,
     'distribution',
     distributionId,
     distribution?.distributionNumber,
@@ -323,6 +614,7 @@ export const createExtractWithAudit = async (
   await logCreate(
     extractData.userId,
     userEmail,
+    extractData.associationId,
     'extract',
     id,
     createdExtract?.controlNumber || createdExtract?.name,
@@ -347,6 +639,7 @@ export const updateExtractWithAudit = async (
   await logUpdate(
     userId,
     userEmail,
+    previousExtract?.associationId,
     'extract',
     extractId,
     updatedExtract?.controlNumber || updatedExtract?.name || previousExtract?.name,
@@ -367,6 +660,7 @@ export const deleteExtractWithAudit = async (
   await logDelete(
     userId,
     userEmail,
+    extract?.associationId,
     'extract',
     extractId,
     extract?.controlNumber || extract?.name,
@@ -385,6 +679,7 @@ export const createEnvironmentWithAudit = async (
   await logCreate(
     envData.userId,
     userEmail,
+    envData.associationId,
     'environment',
     id,
     envData.name,
@@ -409,6 +704,7 @@ export const updateEnvironmentWithAudit = async (
   await logUpdate(
     userId,
     userEmail,
+    previousEnv?.associationId,
     'environment',
     environmentId,
     updatedEnv?.name || previousEnv?.name,
@@ -429,6 +725,7 @@ export const deleteEnvironmentWithAudit = async (
   await logDelete(
     userId,
     userEmail,
+    env?.associationId,
     'environment',
     environmentId,
     env?.name,
@@ -436,9 +733,1321 @@ export const deleteEnvironmentWithAudit = async (
   );
 };
 
+// ==================== ENVIRONMENT RECORD OPERATIONS WITH AUDIT ====================
+
+/**
+ * Environment readings have no owner field; the acting user is passed in
+ */
+const getEnvironmentRecordName = (record?: Pick<EnvironmentRecord, 'date'> | null): string | undefined => {
+  return record ? format(record.date, 'yyyy-MM-dd HH:mm') : undefined;
+};
+
+export const createEnvironmentRecordWithAudit = async (
+  recordData: Omit<EnvironmentRecord, 'id'>,
+  userId: string,
+  userEmail: string
+): Promise<string> => {
+  // Queued with the reading, so offline entries reach the audit chain on replay
+  return _createEnvironmentRecord(recordData, id => [buildCreateEntry(
+    userId,
+    userEmail,
+    recordData.associationId,
+    'environmentRecord',
+    id,
+    getEnvironmentRecordName(recordData),
+    { ...recordData, id }
+  )]);
+};
+
+export const updateEnvironmentRecordWithAudit = async (
+  recordId: string,
+  data: Partial<EnvironmentRecord>,
+  userId: string,
+  userEmail: string,
+  baseUpdatedAt?: number
+): Promise<void> => {
+  const previousRecord = await getForAudit(() => getEnvironmentRecord(recordId));
+  
+  const entry = buildUpdateEntry(
+    userId,
+    userEmail,
+    previousRecord?.associationId,
+    'environmentRecord',
+    recordId,
+    getEnvironmentRecordName(previousRecord),
+    previousRecord,
+    { ...previousRecord, ...data }
+  );
+  
+  await _updateEnvironmentRecord(recordId, data, baseUpdatedAt, entry ? [entry] : []);
+};
+
+export const deleteEnvironmentRecordWithAudit = async (
+  recordId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const record = await getForAudit(() => getEnvironmentRecord(recordId));
+  
+  await _deleteEnvironmentRecord(recordId);
+  
+  await logDelete(
+    userId,
+    userEmail,
+    record?.associationId,
+    'environmentRecord',
+    recordId,
+    getEnvironmentRecordName(record),
+    record
+  );
+};
+
+export const deleteBulkEnvironmentRecordsWithAudit = async (
+  recordIds: string[],
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  // One entry per record, so each deletion can be traced on its own
+  for (const recordId of recordIds) {
+    await deleteEnvironmentRecordWithAudit(recordId, userId, userEmail);
+  }
+};
+
+// ==================== ORDER OPERATIONS WITH AUDIT ====================
+
+export const createOrderWithAudit = async (
+  orderData: Omit<Order, 'id' | 'orderNumber'>,
+  userEmail: string
+): Promise<string> => {
+  const id = await _createOrder(orderData);
+  
+  const createdOrder = await getOrder(id);
+  
+  await logCreate(
+    orderData.userId,
+    userEmail,
+    orderData.associationId,
+    'order',
+    id,
+    createdOrder?.orderNumber,
+    { ...orderData, id, orderNumber: createdOrder?.orderNumber }
+  );
+  
+  return id;
+};
+
+/**
+ * Runs an order status change and logs the order before and after it
+ */
+const changeOrderWithAudit = async <T>(
+  orderId: string,
+  userId: string,
+  userEmail: string,
+  change: () => Promise<T>,
+  notes: string
+): Promise<T> => {
+  const previousOrder = await getOrder(orderId);
+  
+  const result = await change();
+  
+  const updatedOrder = await getOrder(orderId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    previousOrder?.associationId,
+    'order',
+    orderId,
+    previousOrder?.orderNumber,
+    previousOrder,
+    updatedOrder,
+    notes
+  );
+  
+  return result;
+};
+
+export const approveOrderWithAudit = async (
+  orderId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  await changeOrderWithAudit(orderId, userId, userEmail, () => _approveOrder(orderId), 'Order approved');
+};
+
+export const rejectOrderWithAudit = async (
+  orderId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  await changeOrderWithAudit(orderId, userId, userEmail, () => _rejectOrder(orderId), 'Order rejected');
+};
+
+export const cancelOrderWithAudit = async (
+  orderId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  await changeOrderWithAudit(orderId, userId, userEmail, () => _cancelOrder(orderId), 'Order cancelled');
+};
+
+export const fulfillOrderWithAudit = async (
+  orderId: string,
+  distributionData: Omit<Distribution, 'id' | 'distributionNumber'>,
+  userEmail: string,
+  options: DistributionOptions = {}
+): Promise<string> => {
+  const distributionId = await changeOrderWithAudit(
+    orderId,
+    distributionData.userId,
+    userEmail,
+    () => _fulfillOrder(orderId, distributionData, options),
+    'Order fulfilled'
+  );
+  
+  // The distribution is created by the fulfillment, so it gets its own entry
+  const createdDistribution = await getDistribution(distributionId);
+  
+  await logCreate(
+    distributionData.userId,
+    userEmail,
+    distributionData.associationId,
+    'distribution',
+    distributionId,
+    createdDistribution?.distributionNumber,
+    { ...distributionData, id: distributionId, distributionNumber: createdDistribution?.distributionNumber }
+  );
+  
+  return distributionId;
+};
+
+export const deleteOrderWithAudit = async (
+  orderId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const order = await getOrder(orderId);
+  
+  await _deleteOrder(orderId);
+  
+  await logDelete(
+    userId,
+    userEmail,
+    order?.associationId,
+    'order',
+    orderId,
+    order?.orderNumber,
+    order
+  );
+};
+
+// ==================== PLANT LOG OPERATIONS WITH AUDIT ====================
+
+export const createPlantLogWithAudit = async (
+  logData: Omit<PlantLog, 'id'>,
+  userEmail: string
+): Promise<string> => {
+  return _createPlantLog(logData, id => [buildCreateEntry(
+    logData.userId,
+    userEmail,
+    logData.associationId,
+    'plantLog',
+    id,
+    logData.logType,
+    { ...logData, id }
+  )]);
+};
+
+export const updatePlantLogWithAudit = async (
+  logId: string,
+  data: Partial<PlantLog>,
+  userId: string,
+  userEmail: string,
+  baseUpdatedAt?: number
+): Promise<void> => {
+  const previousLog = await getForAudit(() => getPlantLog(logId));
+  
+  const entry = buildUpdateEntry(
+    userId,
+    userEmail,
+    previousLog?.associationId,
+    'plantLog',
+    logId,
+    previousLog?.logType,
+    previousLog,
+    { ...previousLog, ...data }
+  );
+  
+  await _updatePlantLog(logId, data, baseUpdatedAt, entry ? [entry] : []);
+};
+
+export const deletePlantLogWithAudit = async (
+  logId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const log = await getForAudit(() => getPlantLog(logId));
+  
+  await _deletePlantLog(logId);
+  
+  await logDelete(
+    userId,
+    userEmail,
+    log?.associationId,
+    'plantLog',
+    logId,
+    log?.logType,
+    log
+  );
+};
+
+// ==================== BULK LOG OPERATIONS WITH AUDIT ====================
 
+export const createBulkPlantLogWithAudit = async (
+  logData: Omit<BulkPlantLog, 'id'>,
+  userEmail: string
+): Promise<string> => {
+  return _createBulkPlantLog(logData, id => [buildCreateEntry(
+    logData.userId,
+    userEmail,
+    logData.associationId,
+    'bulkPlantLog',
+    id,
+    `${logData.logType} (${logData.plantIds.length} plants)`,
+    { ...logData, id }
+  )]);
+};
 
+export const updateBulkPlantLogWithAudit = async (
+  logId: string,
+  data: Partial<BulkPlantLog>,
+  userId: string,
+  userEmail: string,
+  baseUpdatedAt?: number
+): Promise<void> => {
+  const previousLog = await getForAudit(() => getBulkPlantLog(logId));
+  
+  const entry = buildUpdateEntry(
+    userId,
+    userEmail,
+    previousLog?.associationId,
+    'bulkPlantLog',
+    logId,
+    previousLog?.logType,
+    previousLog,
+    { ...previousLog, ...data }
+  );
+  
+  await _updateBulkPlantLog(logId, data, baseUpdatedAt, entry ? [entry] : []);
+};
 
+export const deleteBulkPlantLogWithAudit = async (
+  logId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const log = await getForAudit(() => getBulkPlantLog(logId));
+  
+  await _deleteBulkPlantLog(logId);
+  
+  await logDelete(
+    userId,
+    userEmail,
+    log?.associationId,
+    'bulkPlantLog',
+    logId,
+    log ? `${log.logType} (${log.plantIds.length} plants)` : undefined,
+    log
+  );
+};
 
+export const deleteBulkPlantLogsMultipleWithAudit = async (
+  logIds: string[],
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  // One entry per bulk log, so each deletion can be traced on its own
+  for (const logId of logIds) {
+    await deleteBulkPlantLogWithAudit(logId, userId, userEmail);
+  }
+};
 
+// ==================== SEED GENETIC OPERATIONS WITH AUDIT ====================
 
+export const createSeedGeneticWithAudit = async (
+  geneticData: Omit<SeedGenetic, 'id'>,
+  userEmail: string
+): Promise<string> => {
+  const id = await _createSeedGenetic(geneticData);
+  
+  await logCreate(
+    geneticData.userId,
+    userEmail,
+    geneticData.associationId,
+    'seedGenetic',
+    id,
+    geneticData.name,
+    { ...geneticData, id }
+  );
+  
+  return id;
+};
+
+export const updateSeedGeneticWithAudit = async (
+  geneticId: string,
+  data: Partial<SeedGenetic>,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const previousGenetic = await getSeedGenetic(geneticId);
+  
+  await _updateSeedGenetic(geneticId, data);
+  
+  const updatedGenetic = await getSeedGenetic(geneticId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    previousGenetic?.associationId,
+    'seedGenetic',
+    geneticId,
+    updatedGenetic?.name || previousGenetic?.name,
+    previousGenetic,
+    updatedGenetic
+  );
+};
+
+export const deleteSeedGeneticWithAudit = async (
+  geneticId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const genetic = await getSeedGenetic(geneticId);
+  
+  await _deleteSeedGenetic(geneticId);
+  
+  await logDelete(
+    userId,
+    userEmail,
+    genetic?.associationId,
+    'seedGenetic',
+    geneticId,
+    genetic?.name,
+    genetic
+  );
+};
+
+// ==================== GROW TASK OPERATIONS WITH AUDIT ====================
+
+export const createTaskWithAudit = async (
+  taskData: Omit<GrowTask, 'id' | 'status' | 'completionCount' | 'createdAt' | 'updatedAt'>,
+  userEmail: string
+): Promise<string> => {
+  const id = await _createTask(taskData);
+  
+  const createdTask = await getTask(id);
+  
+  await logCreate(
+    taskData.userId,
+    userEmail,
+    taskData.associationId,
+    'growTask',
+    id,
+    createdTask?.title || taskData.title,
+    createdTask || { ...taskData, id }
+  );
+  
+  return id;
+};
+
+export const updateTaskWithAudit = async (
+  taskId: string,
+  data: Partial<Omit<GrowTask, 'id' | 'userId' | 'associationId' | 'createdAt'>>,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const previousTask = await getTask(taskId);
+  
+  await _updateTask(taskId, data);
+  
+  const updatedTask = await getTask(taskId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    previousTask?.associationId,
+    'growTask',
+    taskId,
+    updatedTask?.title || previousTask?.title,
+    previousTask,
+    updatedTask
+  );
+};
+
+export const deleteTaskWithAudit = async (
+  taskId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const task = await getTask(taskId);
+  
+  await _deleteTask(taskId);
+  
+  await logDelete(
+    userId,
+    userEmail,
+    task?.associationId,
+    'growTask',
+    taskId,
+    task?.title,
+    task
+  );
+};
+
+/**
+ * Completes a task and records everything it wrote: the log, the Flower stages and
+ * plant updates of a flip task, and the task's own rescheduling
+ */
+export const completeTaskWithAudit = async (
+  task: GrowTask,
+  completedBy: string,
+  userEmail: string,
+  notes?: string
+): Promise<string> => {
+  const completion = await _completeTask(task, completedBy, notes);
+  const note = `Completed task: ${task.title}`;
+  
+  if (task.targetType === 'plant') {
+    const log = completion.log as Omit<PlantLog, 'id'>;
+    await logCreate(
+      completedBy,
+      userEmail,
+      task.associationId,
+      'plantLog',
+      completion.logId,
+      log.logType,
+      { ...log, id: completion.logId },
+      note
+    );
+  } else {
+    const log = completion.log as Omit<BulkPlantLog, 'id'>;
+    await logCreate(
+      completedBy,
+      userEmail,
+      task.associationId,
+      'bulkPlantLog',
+      completion.logId,
+      `${log.logType} (${log.plantIds.length} plants)`,
+      { ...log, id: completion.logId },
+      note
+    );
+  }
+  
+  for (let i = 0; i < completion.flippedPlants.length; i++) {
+    const plant = completion.flippedPlants[i];
+    const stageId = completion.flowerStageIds[i];
+    const stage = await getStage(stageId);
+    await logCreate(completedBy, userEmail, plant.associationId, 'stage', stageId, stage?.name, stage, note);
+    
+    const updatedPlant = await getPlant(plant.id);
+    await logUpdate(completedBy, userEmail, plant.associationId, 'plant', plant.id, plant.name, plant, updatedPlant, note);
+  }
+  
+  const updatedTask = await getTask(task.id);
+  
+  await logUpdate(
+    completedBy,
+    userEmail,
+    task.associationId,
+    'growTask',
+    task.id,
+    task.title,
+    task,
+    updatedTask,
+    note
+  );
+  
+  return completion.logId;
+};
+
+// ==================== NUTRIENT SCHEDULE OPERATIONS WITH AUDIT ====================
+
+export const createNutrientScheduleWithAudit = async (
+  scheduleData: Omit<NutrientSchedule, 'id' | 'createdAt' | 'updatedAt'>,
+  userEmail: string
+): Promise<string> => {
+  const id = await _createNutrientSchedule(scheduleData);
+  
+  const createdSchedule = await getNutrientSchedule(id);
+  
+  await logCreate(
+    scheduleData.userId,
+    userEmail,
+    scheduleData.associationId,
+    'nutrientSchedule',
+    id,
+    createdSchedule?.name || scheduleData.name,
+    createdSchedule || { ...scheduleData, id }
+  );
+  
+  return id;
+};
+
+export const updateNutrientScheduleWithAudit = async (
+  scheduleId: string,
+  data: Partial<Omit<NutrientSchedule, 'id' | 'userId' | 'associationId' | 'createdAt'>>,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const previousSchedule = await getNutrientSchedule(scheduleId);
+  
+  await _updateNutrientSchedule(scheduleId, data);
+  
+  const updatedSchedule = await getNutrientSchedule(scheduleId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    previousSchedule?.associationId,
+    'nutrientSchedule',
+    scheduleId,
+    updatedSchedule?.name || previousSchedule?.name,
+    previousSchedule,
+    updatedSchedule
+  );
+};
+
+export const deleteNutrientScheduleWithAudit = async (
+  scheduleId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const schedule = await getNutrientSchedule(scheduleId);
+  
+  await _deleteNutrientSchedule(scheduleId);
+  
+  await logDelete(
+    userId,
+    userEmail,
+    schedule?.associationId,
+    'nutrientSchedule',
+    scheduleId,
+    schedule?.name,
+    schedule
+  );
+};
+
+// ==================== SENSOR OPERATIONS WITH AUDIT ====================
+
+export const createSensorWithAudit = async (
+  sensorData: Omit<Sensor, 'id' | 'createdAt' | 'updatedAt' | 'lastReadingAt' | 'lastValue'>,
+  userEmail: string
+): Promise<string> => {
+  const id = await _createSensor(sensorData);
+  
+  const createdSensor = await getSensor(id);
+  
+  await logCreate(
+    sensorData.userId,
+    userEmail,
+    sensorData.associationId,
+    'sensor',
+    id,
+    createdSensor?.name || sensorData.name,
+    createdSensor || { ...sensorData, id }
+  );
+  
+  return id;
+};
+
+export const updateSensorWithAudit = async (
+  sensorDocId: string,
+  data: Partial<Omit<Sensor, 'id' | 'userId' | 'associationId' | 'createdAt'>>,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const previousSensor = await getSensor(sensorDocId);
+  
+  await _updateSensor(sensorDocId, data);
+  
+  const updatedSensor = await getSensor(sensorDocId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    previousSensor?.associationId,
+    'sensor',
+    sensorDocId,
+    updatedSensor?.name || previousSensor?.name,
+    previousSensor,
+    updatedSensor
+  );
+};
+
+export const deleteSensorWithAudit = async (
+  sensorDocId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const sensor = await getSensor(sensorDocId);
+  
+  await _deleteSensor(sensorDocId);
+  
+  await logDelete(
+    userId,
+    userEmail,
+    sensor?.associationId,
+    'sensor',
+    sensorDocId,
+    sensor?.name,
+    sensor
+  );
+};
+
+// ==================== DOCUMENT OPERATIONS WITH AUDIT ====================
+
+export const createDocumentWithAudit = async (
+  documentData: Omit<InstitutionalDocument, 'id' | 'createdAt' | 'updatedAt'>,
+  userEmail: string
+): Promise<string> => {
+  const id = await _createDocument(documentData);
+  
+  await logCreate(
+    documentData.userId,
+    userEmail,
+    documentData.associationId,
+    'document',
+    id,
+    documentData.title,
+    { ...documentData, id }
+  );
+  
+  return id;
+};
+
+/**
+ * Runs a document change and logs the document before and after it
+ */
+const changeDocumentWithAudit = async (
+  documentId: string,
+  userId: string,
+  userEmail: string,
+  change: () => Promise<void>,
+  notes?: string
+): Promise<void> => {
+  const previousDocument = await getDocument(documentId);
+  
+  await change();
+  
+  const updatedDocument = await getDocument(documentId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    previousDocument?.associationId,
+    'document',
+    documentId,
+    updatedDocument?.title || previousDocument?.title,
+    previousDocument,
+    updatedDocument,
+    notes
+  );
+};
+
+export const updateDocumentWithAudit = async (
+  documentId: string,
+  data: Partial<InstitutionalDocument>,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  await changeDocumentWithAudit(documentId, userId, userEmail, () => _updateDocument(documentId, data));
+};
+
+export const archiveDocumentWithAudit = async (
+  documentId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  await changeDocumentWithAudit(documentId, userId, userEmail, () => _archiveDocument(documentId), 'Document archived');
+};
+
+export const activateDocumentWithAudit = async (
+  documentId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  await changeDocumentWithAudit(documentId, userId, userEmail, () => _activateDocument(documentId), 'Document activated');
+};
+
+export const deleteDocumentWithAudit = async (
+  documentId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const document = await getDocument(documentId);
+  
+  await _deleteDocument(documentId);
+  
+  await logDelete(
+    userId,
+    userEmail,
+    document?.associationId,
+    'document',
+    documentId,
+    document?.title,
+    document
+  );
+};
+
+// ==================== WASTE DISPOSAL OPERATIONS WITH AUDIT ====================
+
+export const createWasteDisposalWithAudit = async (
+  disposalData: Omit<WasteDisposal, 'id' | 'createdAt'>,
+  userEmail: string
+): Promise<string> => {
+  const id = await _createWasteDisposal(disposalData);
+  
+  await logCreate(
+    disposalData.userId,
+    userEmail,
+    disposalData.associationId,
+    'wasteDisposal',
+    id,
+    disposalData.sourceControlNumber || disposalData.description,
+    { ...disposalData, id }
+  );
+  
+  return id;
+};
+
+export const updateWasteDisposalWithAudit = async (
+  disposalId: string,
+  data: Partial<WasteDisposal>,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const previousDisposal = await getWasteDisposal(disposalId);
+  
+  await _updateWasteDisposal(disposalId, data);
+  
+  const updatedDisposal = await getWasteDisposal(disposalId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    previousDisposal?.associationId,
+    'wasteDisposal',
+    disposalId,
+    previousDisposal?.sourceControlNumber || previousDisposal?.description,
+    previousDisposal,
+    updatedDisposal
+  );
+};
+
+export const deleteWasteDisposalWithAudit = async (
+  disposalId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const disposal = await getWasteDisposal(disposalId);
+  
+  await _deleteWasteDisposal(disposalId);
+  
+  await logDelete(
+    userId,
+    userEmail,
+    disposal?.associationId,
+    'wasteDisposal',
+    disposalId,
+    disposal?.sourceControlNumber || disposal?.description,
+    disposal
+  );
+};
+
+// ==================== LAB ANALYSIS OPERATIONS WITH AUDIT ====================
+
+export const createLabAnalysisWithAudit = async (
+  analysisData: Omit<LabAnalysis, 'id' | 'createdAt' | 'updatedAt'>,
+  userEmail: string
+): Promise<string> => {
+  const id = await _createLabAnalysis(analysisData);
+  
+  await logCreate(
+    analysisData.userId,
+    userEmail,
+    analysisData.associationId,
+    'labAnalysis',
+    id,
+    analysisData.certificateNumber || analysisData.sourceControlNumbers.join(', '),
+    { ...analysisData, id }
+  );
+  
+  return id;
+};
+
+export const updateLabAnalysisWithAudit = async (
+  analysisId: string,
+  data: Partial<Omit<LabAnalysis, 'id' | 'userId' | 'associationId' | 'createdAt'>>,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const previousAnalysis = await getLabAnalysis(analysisId);
+  
+  await _updateLabAnalysis(analysisId, data);
+  
+  const updatedAnalysis = await getLabAnalysis(analysisId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    previousAnalysis?.associationId,
+    'labAnalysis',
+    analysisId,
+    previousAnalysis?.certificateNumber || previousAnalysis?.sourceControlNumbers.join(', '),
+    previousAnalysis,
+    updatedAnalysis
+  );
+};
+
+export const deleteLabAnalysisWithAudit = async (
+  analysisId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const analysis = await getLabAnalysis(analysisId);
+  
+  await _deleteLabAnalysis(analysisId);
+  
+  await logDelete(
+    userId,
+    userEmail,
+    analysis?.associationId,
+    'labAnalysis',
+    analysisId,
+    analysis?.certificateNumber || analysis?.sourceControlNumbers.join(', '),
+    analysis
+  );
+};
+
+// ==================== RECALL OPERATIONS WITH AUDIT ====================
+
+export const openRecallWithAudit = async (
+  sourceType: InventorySourceType,
+  sourceId: string,
+  reason: string,
+  userId: string,
+  userEmail: string,
+  associationId?: string
+): Promise<string> => {
+  const id = await _openRecall(sourceType, sourceId, reason, userId, associationId);
+  
+  const recall = await getRecall(id);
+  
+  await logCreate(
+    userId,
+    userEmail,
+    associationId,
+    'recall',
+    id,
+    recall?.controlNumber,
+    recall
+  );
+  
+  return id;
+};
+
+export const updateRecallPatientContactWithAudit = async (
+  recallId: string,
+  patientId: string,
+  contact: { contactStatus: RecallContactStatus; contactNotes?: string },
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const previousRecall = await getRecall(recallId);
+  
+  await _updateRecallPatientContact(recallId, patientId, contact, userId);
+  
+  const updatedRecall = await getRecall(recallId);
+  const patient = updatedRecall?.patients.find(p => p.patientId === patientId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    previousRecall?.associationId,
+    'recall',
+    recallId,
+    previousRecall?.controlNumber,
+    previousRecall,
+    updatedRecall,
+    `Patient ${patient?.patientName || patientId} marked ${contact.contactStatus}`
+  );
+};
+
+export const closeRecallWithAudit = async (
+  recallId: string,
+  userId: string,
+  userEmail: string,
+  closingNotes?: string
+): Promise<void> => {
+  const previousRecall = await getRecall(recallId);
+  
+  await _closeRecall(recallId, userId, closingNotes);
+  
+  const updatedRecall = await getRecall(recallId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    previousRecall?.associationId,
+    'recall',
+    recallId,
+    previousRecall?.controlNumber,
+    previousRecall,
+    updatedRecall,
+    'Recall closed'
+  );
+};
+
+// ==================== ASSOCIATION OPERATIONS WITH AUDIT ====================
+
+export const createAssociationWithAudit = async (
+  associationData: Parameters<typeof _createAssociation>[0],
+  creatorUserId: string,
+  creatorEmail: string,
+  creatorDisplayName?: string
+): Promise<{ associationId: string; memberId: string }> => {
+  const result = await _createAssociation(associationData, creatorUserId, creatorEmail, creatorDisplayName);
+  
+  await logCreate(
+    creatorUserId,
+    creatorEmail,
+    result.associationId,
+    'association',
+    result.associationId,
+    associationData.name,
+    { ...associationData, id: result.associationId }
+  );
+  
+  return result;
+};
+
+/**
+ * Runs an association settings change and logs the association before and after it
+ */
+const changeAssociationWithAudit = async (
+  associationId: string,
+  userId: string,
+  userEmail: string,
+  change: () => Promise<void>,
+  notes?: string
+): Promise<void> => {
+  const previousAssociation = await getAssociation(associationId);
+  
+  await change();
+  
+  const updatedAssociation = await getAssociation(associationId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    associationId,
+    'association',
+    associationId,
+    updatedAssociation?.name || previousAssociation?.name,
+    previousAssociation,
+    updatedAssociation,
+    notes
+  );
+};
+
+export const updateAssociationWithAudit = async (
+  associationId: string,
+  data: Partial<Association>,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  await changeAssociationWithAudit(associationId, userId, userEmail, () => _updateAssociation(associationId, data));
+};
+
+export const updateControlNumberFormatsWithAudit = async (
+  associationId: string,
+  formats: ControlNumberFormats,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  await changeAssociationWithAudit(
+    associationId,
+    userId,
+    userEmail,
+    () => _updateControlNumberFormats(associationId, formats),
+    'Control number formats changed'
+  );
+};
+
+// ==================== MEMBER OPERATIONS WITH AUDIT ====================
+
+/**
+ * Runs a member change and logs the member before and after it
+ */
+const changeMemberWithAudit = async (
+  memberId: string,
+  userId: string,
+  userEmail: string,
+  change: () => Promise<void>,
+  notes?: string
+): Promise<void> => {
+  const previousMember = await getMember(memberId);
+  
+  await change();
+  
+  const updatedMember = await getMember(memberId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    previousMember?.associationId,
+    'member',
+    memberId,
+    previousMember?.fullName,
+    previousMember,
+    updatedMember,
+    notes
+  );
+};
+
+export const updateMemberWithAudit = async (
+  memberId: string,
+  data: Partial<Member>,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  await changeMemberWithAudit(memberId, userId, userEmail, () => _updateMember(memberId, data));
+};
+
+export const updateMemberRoleWithAudit = async (
+  memberId: string,
+  newRole: MemberRole,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  await changeMemberWithAudit(memberId, userId, userEmail, () => _updateMemberRole(memberId, newRole), `Role changed to ${newRole}`);
+};
+
+export const deactivateMemberWithAudit = async (
+  memberId: string,
+  userId: string,
+  userEmail: string,
+  reason?: string
+): Promise<void> => {
+  await changeMemberWithAudit(
+    memberId,
+    userId,
+    userEmail,
+    () => _deactivateMember(memberId, reason),
+    reason ? `Member deactivated: ${reason}` : 'Member deactivated'
+  );
+};
+
+export const reactivateMemberWithAudit = async (
+  memberId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  await changeMemberWithAudit(memberId, userId, userEmail, () => _reactivateMember(memberId), 'Member reactivated');
+};
+
+// ==================== INVITATION OPERATIONS WITH AUDIT ====================
+
+export const createInvitationWithAudit = async (
+  invitationData: Omit<AssociationInvitation, 'id' | 'status' | 'createdAt' | 'expiresAt' | 'tokenHash'>,
+  userEmail: string
+): Promise<{ invitationId: string; token: string }> => {
+  const result = await _createInvitation(invitationData);
+  
+  // The token is a secret - only its hash is kept on the invitation
+  await logCreate(
+    invitationData.invitedBy,
+    userEmail,
+    invitationData.associationId,
+    'invitation',
+    result.invitationId,
+    invitationData.invitedEmail,
+    { ...invitationData, id: result.invitationId }
+  );
+  
+  return result;
+};
+
+export const acceptInvitationWithAudit = async (
+  ...args: Parameters<typeof _acceptInvitation>
+): Promise<string> => {
+  const [invitationId, userId, userEmail] = args;
+  const previousInvitation = await getInvitation(invitationId);
+  
+  const memberId = await _acceptInvitation(...args);
+  
+  const updatedInvitation = await getInvitation(invitationId);
+  
+  // Logged after joining: only members can write to the association's audit trail
+  await logUpdate(
+    userId,
+    userEmail,
+    previousInvitation?.associationId,
+    'invitation',
+    invitationId,
+    previousInvitation?.invitedEmail,
+    previousInvitation,
+    updatedInvitation,
+    `Invitation accepted, member ${memberId} joined as ${previousInvitation?.invitedRole}`
+  );
+  
+  return memberId;
+};
+
+export const rejectInvitationWithAudit = async (
+  invitationId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const previousInvitation = await getInvitation(invitationId);
+  
+  await _rejectInvitation(invitationId);
+  
+  const updatedInvitation = await getInvitation(invitationId);
+  
+  // The invitee isn't a member, so this goes to their personal audit trail
+  await logUpdate(
+    userId,
+    userEmail,
+    undefined,
+    'invitation',
+    invitationId,
+    previousInvitation?.invitedEmail,
+    previousInvitation,
+    updatedInvitation,
+    `Invitation to association ${previousInvitation?.associationId} rejected`
+  );
+};
+
+export const cancelInvitationWithAudit = async (
+  invitationId: string,
+  userId: string,
+  userEmail: string
+): Promise<void> => {
+  const invitation = await getInvitation(invitationId);
+  
+  await _cancelInvitation(invitationId);
+  
+  await logDelete(
+    userId,
+    userEmail,
+    invitation?.associationId,
+    'invitation',
+    invitationId,
+    invitation?.invitedEmail,
+    invitation,
+    'Invitation cancelled'
+  );
+};
+
+// ==================== RESTORE FROM AUDIT TRAIL ====================
+
+const RESTORE_GETTERS: Record<RestorableEntityType, (id: string) => Promise<any>> = {
+  plant: getPlant,
+  harvest: getHarvest,
+  patient: getPatient,
+  distribution: getDistribution,
+  extract: getExtract,
+  environment: getEnvironment,
+  seedGenetic: getSeedGenetic,
+  document: getDocument,
+};
+
+export interface RestorePreview {
+  sourceLog: AuditLog; // The audit entry whose version is restored
+  version: Record<string, any>; // What will be written back
+  changedFields: string[]; // Compared with the current record
+  droppedFields: string[]; // Fields the current schema no longer has
+  errors: string[]; // Non-empty when the version can't be restored
+  recreates: boolean; // The record was hard-deleted and will be re-created
+}
+
+/**
+ * Rebuilds a record as it was at one of its audit entries and checks it
+ * against the current schema, without writing anything
+ */
+export const previewRestoreVersion = async (
+  entityType: string,
+  entityId: string,
+  logId: string,
+  scope: RecordScope
+): Promise<RestorePreview> => {
+  if (!isRestorableEntity(entityType)) {
+    throw new Error(`${entityType} records can't be restored from the audit trail`);
+  }
+  
+  const logs = await getEntityAuditLogs(entityType, entityId, scope);
+  const sourceLog = logs.find(log => log.id === logId);
+  const rebuilt = rebuildEntityVersion(logs, logId);
+  if (!sourceLog || !rebuilt) {
+    throw new Error('This version could not be rebuilt from the audit trail');
+  }
+  
+  const current = await RESTORE_GETTERS[entityType](entityId);
+  const { data, errors, droppedFields } = validateRestoredEntity(entityType, rebuilt);
+  const version = applyPreservedFields(entityType, data, current);
+  
+  return {
+    sourceLog,
+    version,
+    changedFields: getRestoreChanges(current, version),
+    droppedFields,
+    errors,
+    recreates: !current,
+  };
+};
+
+/**
+ * Restores a record (soft- or hard-deleted ones included) to the version at an
+ * audit entry. The restore is itself logged as an update carrying the reason.
+ */
+export const restoreVersionWithAudit = async (
+  entityType: string,
+  entityId: string,
+  logId: string,
+  reason: string,
+  userId: string,
+  userEmail: string,
+  associationId?: string
+): Promise<void> => {
+  if (!reason.trim()) {
+    throw new Error('A reason is required to restore a record');
+  }
+  
+  const preview = await previewRestoreVersion(entityType, entityId, logId, { userId, associationId });
+  if (preview.errors.length > 0) {
+    throw new Error(`This version no longer fits the current schema: ${preview.errors.join('; ')}`);
+  }
+  if (!preview.recreates && preview.changedFields.length === 0) {
+    throw new Error('The record already matches this version');
+  }
+  
+  const type = entityType as RestorableEntityType;
+  const previousRecord = await RESTORE_GETTERS[type](entityId);
+  
+  await _restoreRecord(type, entityId, preview.version, logId);
+  
+  const restoredRecord = await RESTORE_GETTERS[type](entityId);
+  
+  await logUpdate(
+    userId,
+    userEmail,
+    restoredRecord?.associationId ?? preview.version.associationId,
+    entityType,
+    entityId,
+    preview.sourceLog.entityDisplayName,
+    previousRecord,
+    restoredRecord,
+    `Restored to the version of ${new Date(preview.sourceLog.timestamp).toISOString()} (audit entry ${logId}). Reason: ${reason.trim()}`
+  );
+};
@@ -26,87 +26,6 @@ export const checkUserExistsByEmail = async (email: string): Promise<{ exists: b
   return { exists: true, userId: querySnapshot.docs[0].id };
 };
 
-/**
- * Extracts the username from an email address (part before @)
- */
-export const getPasswordFromEmail = (email: string): string => {
-  const username = email.split('@')[0];
-  return username || 'temppass123';
-};
-
-/**
- * Creates a new user account for an invited member
- * WARNING: This will sign out the current user! The inviter needs to re-login.
- * Returns the created user's data
- */
-export const createInvitedUser = async (
-  email: string,
-  inviterEmail: string,
-  inviterPassword: string
-): Promise<{ user: User; tempPassword: string }> => {
-  const normalizedEmail = email.toLowerCase().trim();
-  const tempPassword = getPasswordFromEmail(email);
-  
-  // Create the new user (this signs us in as the new user)
-  const userCredential = await auth.createUserWithEmailAndPassword(normalizedEmail, tempPassword);
-  const newFirebaseUser = userCredential.user;
-
-  if (!newFirebaseUser) {
-    throw new Error('User creation failed');
-  }
-
-  const newUserData: User = {
-    uid: newFirebaseUser.uid,
-    email: newFirebaseUser.email!,
-    accountType: 'personal', // Invited users are personal accounts
-    createdAt: Date.now(),
-  };
-
-  // Save user data to Firestore
-  await db.collection('users').doc(newFirebaseUser.uid).set(newUserData);
-
-  // Sign out the new user
-  await auth.signOut();
-
-  // Re-authenticate as the inviter
-  await auth.signInWithEmailAndPassword(inviterEmail, inviterPassword);
-
-  return { user: newUserData, tempPassword };
-};
-
-/**
- * Creates a new user account for an invited member (simple version)
- * This version doesn't require re-authentication - the inviter stays logged out
- * Use when you want to handle re-login separately
- */
-export const createInvitedUserSimple = async (email: string): Promise<{ userId: string; tempPassword: string }> => {
-  const normalizedEmail = email.toLowerCase().trim();
-  const tempPassword = getPasswordFromEmail(email);
-  
-  // Create the new user (this signs us in as the new user)
-  const userCredential = await auth.createUserWithEmailAndPassword(normalizedEmail, tempPassword);
-  const newFirebaseUser = userCredential.user;
-
-  if (!newFirebaseUser) {
-    throw new Error('User creation failed');
-  }
-
-  const newUserData: User = {
-    uid: newFirebaseUser.uid,
-    email: newFirebaseUser.email!,
-    accountType: 'personal', // Invited users are personal accounts
-    createdAt: Date.now(),
-  };
-
-  // Save user data to Firestore
-  await db.collection('users').doc(newFirebaseUser.uid).set(newUserData);
-
-  // Sign out the new user so the inviter can log back in
-  await auth.signOut();
-
-  return { userId: newFirebaseUser.uid, tempPassword };
-};
-
 export const registerUser = async (email: string, password: string, accountType: AccountType): Promise<User> => {
   const userCredential = await auth.createUserWithEmailAndPassword(email, password);
   const firebaseUser = userCredential.user;
@@ -2,6 +2,7 @@
 import firebase from 'firebase/compat/app';
 import 'firebase/compat/auth';
 import 'firebase/compat/firestore';
+import 'firebase/compat/storage';
 
 // Auto-configured with Firebase CLI
 // Project: grow-85028
@@ -18,9 +19,17 @@ const firebaseConfig = {
 // Initialize Firebase app (only if not already initialized)
 const app = !firebase.apps.length ? firebase.initializeApp(firebaseConfig) : firebase.app();
 
-// Initialize Auth and Firestore using compat SDK
+// Initialize Auth, Firestore and Storage using compat SDK
 export const auth = app.auth();
 export const db = app.firestore();
+export const storage = app.storage();
+
+// Point Storage at the local emulator when configured (e.g. "localhost:9199")
+const storageEmulatorHost = process.env.EXPO_PUBLIC_FIREBASE_STORAGE_EMULATOR_HOST;
+if (storageEmulatorHost) {
+  const [host, port] = storageEmulatorHost.split(':');
+  storage.useEmulator(host, Number(port) || 9199);
+}
 
 // For compatibility with code expecting getAuthInstance()
 export const getAuthInstance = () => auth;
@@ -1,15 +1,16 @@
 // Using Firebase Compat SDK for React Native compatibility
-import { db } from './firebaseConfig';
+import { auth, db } from './firebaseConfig';
 import firebase from 'firebase/compat/app';
-import { Plant, Stage, WaterRecord, EnvironmentRecord, Environment, StageName, User, FriendRequest, Friendship, FriendRequestStatus, GeneticInfo, Harvest, Patient, Distribution, Extract, Order, OrderStatus, PlantLog, BulkPlantLog, PlantLogType, SeedGenetic } from '../types';
-import { 
-  generateControlNumber, 
-  generateCloneControlNumber, 
-  generateHarvestControlNumber, 
-  generateExtractControlNumber,
-  generateDistributionNumber,
-  generateOrderNumber 
-} from '../utils/controlNumber';
+import { Plant, Stage, WaterRecord, EnvironmentRecord, Environment, StageName, User, FriendRequest, Friendship, FriendRequestStatus, GeneticInfo, Harvest, Patient, Distribution, Extract, Order, OrderStatus, PlantLog, BulkPlantLog, PlantLogType, SeedGenetic, AllowanceOverride, CoaOverride, AuditEntryInput } from '../types';
+import { getEnvironmentCode } from '../utils/controlNumber';
+import { RESTORE_SCHEMAS, RestorableEntityType, RestoreSchema } from '../utils/auditRestore';
+import { createSignature, getDistributionSignedContent, SignatureStrokes } from '../utils/signature';
+import { applyInventoryMovements, InventoryMovementInput } from './inventory';
+import { reserveControlNumber, reserveControlNumbers } from './sequences';
+import { writeOrQueue } from './offlineQueue';
+import { assertPermission, isOwnerOrAdmin } from './associations';
+import { logOverride } from './auditLog';
+import { RecordScope, removeUndefinedValues, whereInScope } from '../utils/firestoreData';
 
 // Re-export control number functions for backward compatibility
 export { 
@@ -21,18 +22,6 @@ export {
   generateOrderNumber 
 } from '../utils/controlNumber';
 
-// ==================== UTILITIES ====================
-
-/**
- * Removes undefined values from an object.
- * Firebase doesn't accept undefined values in update operations.
- */
-const removeUndefinedValues = <T extends Record<string, any>>(obj: T): Partial<T> => {
-  return Object.fromEntries(
-    Object.entries(obj).filter(([_, value]) => value !== undefined)
-  ) as Partial<T>;
-};
-
 // ==================== ENVIRONMENTS ====================
 
 export const createEnvironment = async (envData: Omit<Environment, 'id'>): Promise<string> => {
@@ -128,34 +117,39 @@ export const createPlant = async (plantData: Omit<Plant, 'id' | 'controlNumber'
     throw new Error('userId is required to create a plant');
   }
   
-  // Get the environment to get its name and current counter
+  // Get the environment for its control number code
   const environment = await getEnvironment(plantData.environmentId);
   
   if (!environment) {
     throw new Error('Environment not found');
   }
   
-  // Get the next sequence number (increment counter)
-  const nextSequence = (environment.plantCounter || 0) + 1;
-  
-  // Generate control number
-  const controlNumber = generateControlNumber(nextSequence);
-  
   console.log('[Firestore] createPlant called with associationId:', plantData.associationId);
   
-  // Create the plant with generated control number
-  const docRef = await db.collection('plants').add({
-    ...plantData,
-    controlNumber,
+  const docRef = db.collection('plants').doc();
+  
+  // Allocate the control number and create the plant atomically
+  const controlNumber = await db.runTransaction(async (transaction) => {
+    const reservation = await reserveControlNumber(
+      transaction,
+      { userId: plantData.userId, associationId: plantData.associationId },
+      { entityType: 'plant', environmentCode: getEnvironmentCode(environment) }
+    );
+    
+    transaction.set(docRef, {
+      ...plantData,
+      controlNumber: reservation.controlNumber,
+    });
+    transaction.update(db.collection('environments').doc(plantData.environmentId), {
+      plantCounter: firebase.firestore.FieldValue.increment(1),
+    });
+    reservation.commit(docRef.id);
+    
+    return reservation.controlNumber;
   });
   
   console.log('[Firestore] Created plant with ID:', docRef.id, 'controlNumber:', controlNumber, 'associationId:', plantData.associationId);
   
-  // Increment the environment's plant counter
-  await db.collection('environments').doc(plantData.environmentId).update({
-    plantCounter: firebase.firestore.FieldValue.increment(1),
-  });
-  
   return docRef.id;
 };
 
@@ -267,9 +261,7 @@ export const clonePlants = async (params: ClonePlantParams): Promise<string[]> =
     throw new Error('Target environment not found');
   }
   
-  const createdPlantIds: string[] = [];
   const now = Date.now();
-  const currentCounter = environment.plantCounter || 0;
   
   console.log('[Firestore] Cloning plant:', sourcePlant.controlNumber, 'to environment:', environment.name);
   console.log('[Firestore] Creating', numberOfClones, 'clones');
@@ -291,47 +283,57 @@ export const clonePlants = async (params: ClonePlantParams): Promise<string[]> =
   // Prefer source plant's associationId, but fallback to environment's
   const associationId = sourcePlant.associationId || environment.associationId;
   
-  for (let i = 0; i < numberOfClones; i++) {
-    // Get next sequence number
-    const nextSequence = currentCounter + 1 + i;
-    
-    // Generate clone control number (CL prefix instead of A)
-    const controlNumber = generateCloneControlNumber(nextSequence);
+  const cloneRefs = Array.from({ length: numberOfClones }, () => db.collection('plants').doc());
+  
+  // Allocate all clone control numbers and create the clones atomically
+  const controlNumbers = await db.runTransaction(async (transaction) => {
+    const reservation = await reserveControlNumbers(
+      transaction,
+      { userId, associationId },
+      { entityType: 'clone', count: numberOfClones, environmentCode: getEnvironmentCode(environment) }
+    );
     
-    // Create clone with genetic info
-    const docRef = await db.collection('plants').add({
-      userId,
-      environmentId: targetEnvironmentId,
-      controlNumber,
-      strain: sourcePlant.strain,
-      startDate: now,
-      currentStage: stage,
-      // Genetic tracking
-      genetics: cloneGeneticInfo,
-      motherPlantId: sourcePlant.id,
-      // Inherit chemotype if source has it (clones should have same genetics)
-      ...(sourcePlant.chemotype && { chemotype: sourcePlant.chemotype }),
-      // Include associationId if available (critical for association context queries)
-      ...(associationId && { associationId }),
+    cloneRefs.forEach((docRef, i) => {
+      // Create clone with genetic info
+      transaction.set(docRef, {
+        userId,
+        environmentId: targetEnvironmentId,
+        controlNumber: reservation.controlNumbers[i],
+        strain: sourcePlant.strain,
+        startDate: now,
+        currentStage: stage,
+        // Genetic tracking
+        genetics: removeUndefinedValues(cloneGeneticInfo),
+        motherPlantId: sourcePlant.id,
+        // Inherit chemotype if source has it (clones should have same genetics)
+        ...(sourcePlant.chemotype && { chemotype: sourcePlant.chemotype }),
+        // Include associationId if available (critical for association context queries)
+        ...(associationId && { associationId }),
+      });
+      
+      // Create initial stage for clone
+      transaction.set(db.collection('stages').doc(), {
+        plantId: docRef.id,
+        name: stage,
+        startDate: now,
+      });
     });
     
-    createdPlantIds.push(docRef.id);
-    
-    // Create initial stage for clone
-    await db.collection('stages').add({
-      plantId: docRef.id,
-      name: stage,
-      startDate: now,
+    // Update environment plant counter
+    transaction.update(db.collection('environments').doc(targetEnvironmentId), {
+      plantCounter: firebase.firestore.FieldValue.increment(numberOfClones),
     });
+    reservation.commit(cloneRefs.map(docRef => docRef.id));
     
-    console.log('[Firestore] Created clone with control number:', controlNumber);
-  }
+    return reservation.controlNumbers;
+  });
   
-  // Update environment plant counter
-  await db.collection('environments').doc(targetEnvironmentId).update({
-    plantCounter: firebase.firestore.FieldValue.increment(numberOfClones),
+  controlNumbers.forEach(controlNumber => {
+    console.log('[Firestore] Created clone with control number:', controlNumber);
   });
   
+  const createdPlantIds = cloneRefs.map(docRef => docRef.id);
+  
   console.log('[Firestore] Successfully created', createdPlantIds.length, 'clones with genetic tracking');
   
   return createdPlantIds;
@@ -344,6 +346,15 @@ export const createStage = async (stageData: Omit<Stage, 'id'>): Promise<string>
   return docRef.id;
 };
 
+export const getStage = async (stageId: string): Promise<Stage | null> => {
+  const docSnap = await db.collection('stages').doc(stageId).get();
+  
+  if (docSnap.exists) {
+    return { id: docSnap.id, ...docSnap.data() } as Stage;
+  }
+  return null;
+};
+
 export const getPlantStages = async (plantId: string): Promise<Stage[]> => {
   const querySnapshot = await db
     .collection('stages')
@@ -391,11 +402,36 @@ export const deleteWaterRecord = async (recordId: string): Promise<void> => {
 
 // ==================== ENVIRONMENT LOGS ====================
 
-export const createEnvironmentRecord = async (envData: Omit<EnvironmentRecord, 'id'>): Promise<string> => {
-  const docRef = await db.collection('environmentLogs').add(envData);
+/**
+ * Creates an environment reading. Queued locally when the device is offline.
+ * auditEntriesFor builds the audit entries for the new id; they are queued with the write.
+ */
+export const createEnvironmentRecord = async (
+  envData: Omit<EnvironmentRecord, 'id'>,
+  auditEntriesFor?: (recordId: string) => AuditEntryInput[]
+): Promise<string> => {
+  const now = Date.now();
+  const docRef = db.collection('environmentLogs').doc();
+  
+  await writeOrQueue('Environment log', [{
+    type: 'set',
+    collection: 'environmentLogs',
+    docId: docRef.id,
+    data: removeUndefinedValues({ ...envData, createdAt: now, updatedAt: now }),
+  }], auditEntriesFor?.(docRef.id));
+  
   return docRef.id;
 };
 
+export const getEnvironmentRecord = async (recordId: string): Promise<EnvironmentRecord | null> => {
+  const docSnap = await db.collection('environmentLogs').doc(recordId).get();
+  
+  if (docSnap.exists) {
+    return { id: docSnap.id, ...docSnap.data() } as EnvironmentRecord;
+  }
+  return null;
+};
+
 export const getEnvironmentRecords = async (environmentId: string): Promise<EnvironmentRecord[]> => {
   const querySnapshot = await db
     .collection('environmentLogs')
@@ -409,8 +445,42 @@ export const getEnvironmentRecords = async (environmentId: string): Promise<Envi
   } as EnvironmentRecord));
 };
 
-export const updateEnvironmentRecord = async (recordId: string, data: Partial<EnvironmentRecord>): Promise<void> => {
-  await db.collection('environmentLogs').doc(recordId).update(removeUndefinedValues(data));
+/**
+ * Gets the most recent reading of an environment, or null when it has none
+ */
+export const getLatestEnvironmentRecord = async (environmentId: string): Promise<EnvironmentRecord | null> => {
+  const querySnapshot = await db
+    .collection('environmentLogs')
+    .where('environmentId', '==', environmentId)
+    .orderBy('date', 'desc')
+    .limit(1)
+    .get();
+
+  if (querySnapshot.empty) {
+    return null;
+  }
+
+  const doc = querySnapshot.docs[0];
+  return { id: doc.id, ...doc.data() } as EnvironmentRecord;
+};
+
+/**
+ * Updates an environment reading. Queued locally when the device is offline.
+ * baseUpdatedAt is the record's updatedAt when editing started, used to detect conflicts.
+ */
+export const updateEnvironmentRecord = async (
+  recordId: string,
+  data: Partial<EnvironmentRecord>,
+  baseUpdatedAt?: number,
+  auditEntries: AuditEntryInput[] = []
+): Promise<void> => {
+  await writeOrQueue('Environment log update', [{
+    type: 'update',
+    collection: 'environmentLogs',
+    docId: recordId,
+    data: removeUndefinedValues({ ...data, updatedAt: Date.now() }),
+    baseUpdatedAt,
+  }], auditEntries);
 };
 
 export const deleteEnvironmentRecord = async (recordId: string): Promise<void> => {
@@ -644,7 +714,8 @@ export const acceptFriendRequest = async (requestId: string, currentUser: User):
     ].sort();
   }
 
-  await db.collection('friendships').add(friendshipData);
+  // Keyed by the sorted user ids so security rules can check a friendship directly
+  await db.collection('friendships').doc(friendshipData.users.join('_')).set(friendshipData);
 };
 
 export const rejectFriendRequest = async (requestId: string, userId: string): Promise<void> => {
@@ -965,28 +1036,33 @@ export const createHarvest = async (harvestData: Omit<Harvest, 'id' | 'controlNu
     throw new Error('Plant not found');
   }
   
-  // Get the environment to get its name and current harvest counter
+  // Get the environment for its control number code
   const environment = await getEnvironment(plant.environmentId);
   
   if (!environment) {
     throw new Error('Environment not found');
   }
   
-  // Get the next sequence number (increment harvest counter)
-  const nextSequence = (environment.harvestCounter || 0) + 1;
-  
-  // Generate harvest control number
-  const controlNumber = generateHarvestControlNumber(nextSequence);
+  const docRef = db.collection('harvests').doc();
   
-  // Create the harvest with generated control number
-  const docRef = await db.collection('harvests').add({
-    ...harvestData,
-    controlNumber,
-  });
-  
-  // Increment the environment's harvest counter
-  await db.collection('environments').doc(plant.environmentId).update({
-    harvestCounter: firebase.firestore.FieldValue.increment(1),
+  // Allocate the control number and create the harvest atomically
+  const controlNumber = await db.runTransaction(async (transaction) => {
+    const reservation = await reserveControlNumber(
+      transaction,
+      { userId: harvestData.userId, associationId: harvestData.associationId },
+      { entityType: 'harvest', environmentCode: getEnvironmentCode(environment) }
+    );
+    
+    transaction.set(docRef, {
+      ...harvestData,
+      controlNumber: reservation.controlNumber,
+    });
+    transaction.update(db.collection('environments').doc(plant.environmentId), {
+      harvestCounter: firebase.firestore.FieldValue.increment(1),
+    });
+    reservation.commit(docRef.id);
+    
+    return reservation.controlNumber;
   });
   
   console.log('[Firestore] Created harvest with control number:', controlNumber);
@@ -1007,9 +1083,8 @@ export const getHarvest = async (harvestId: string): Promise<Harvest | null> =>
   return null;
 };
 
-export const getPlantHarvests = async (plantId: string): Promise<Harvest[]> => {
-  const querySnapshot = await db
-    .collection('harvests')
+export const getPlantHarvests = async (plantId: string, scope: RecordScope): Promise<Harvest[]> => {
+  const querySnapshot = await whereInScope(db.collection('harvests'), scope)
     .where('plantId', '==', plantId)
     .get();
   
@@ -1061,26 +1136,28 @@ export const createPatient = async (patientData: Omit<Patient, 'id'>): Promise<s
     throw new Error('userId is required to create a patient');
   }
   
+  await assertPermission(patientData.associationId, 'canManagePatients');
+  
   const now = Date.now();
-  const docRef = await db.collection('patients').add({
+  const docRef = db.collection('patients').doc();
+  const batch = db.batch();
+  batch.set(docRef, {
     ...patientData,
     createdAt: now,
     updatedAt: now,
   });
-  console.log('[Firestore] Created patient with ID:', docRef.id);
   
-  // Increment association patient counter if patient belongs to an association
+  // Increment association patient counter in the same write if patient belongs to an association
   if (patientData.associationId) {
-    try {
-      const { incrementAssociationCounter } = await import('./associations');
-      await incrementAssociationCounter(patientData.associationId, 'patientCounter');
-      console.log('[Firestore] Incremented patientCounter for association:', patientData.associationId);
-    } catch (error) {
-      console.error('[Firestore] Error incrementing patientCounter:', error);
-      // Don't throw - patient was created successfully, counter increment is non-critical
-    }
+    batch.update(db.collection('associations').doc(patientData.associationId), {
+      patientCounter: firebase.firestore.FieldValue.increment(1),
+      updatedAt: now,
+    });
   }
   
+  await batch.commit();
+  console.log('[Firestore] Created patient with ID:', docRef.id);
+  
   return docRef.id;
 };
 
@@ -1152,7 +1229,16 @@ export const searchPatients = async (userId: string, query: string): Promise<Pat
   );
 };
 
+/**
+ * Checks the signed-in user may manage patients in the patient's association
+ */
+const assertCanManagePatient = async (patientId: string): Promise<void> => {
+  const patient = await getPatient(patientId);
+  await assertPermission(patient?.associationId, 'canManagePatients');
+};
+
 export const updatePatient = async (patientId: string, data: Partial<Patient>): Promise<void> => {
+  await assertCanManagePatient(patientId);
   await db.collection('patients').doc(patientId).update({
     ...removeUndefinedValues(data),
     updatedAt: Date.now(),
@@ -1160,6 +1246,7 @@ export const updatePatient = async (patientId: string, data: Partial<Patient>):
 };
 
 export const deactivatePatient = async (patientId: string): Promise<void> => {
+  await assertCanManagePatient(patientId);
   await db.collection('patients').doc(patientId).update({
     status: 'inactive',
     updatedAt: Date.now(),
@@ -1167,53 +1254,139 @@ export const deactivatePatient = async (patientId: string): Promise<void> => {
 };
 
 export const deletePatient = async (patientId: string): Promise<void> => {
+  await assertCanManagePatient(patientId);
   await db.collection('patients').doc(patientId).delete();
 };
 
 // ==================== DISTRIBUTIONS ====================
 
-// Counter for distribution numbers (stored in a separate document)
-const getNextDistributionNumber = async (userId: string): Promise<number> => {
-  const counterRef = db.collection('counters').doc(`distributions_${userId}`);
+export interface DistributionOptions {
+  // Admin approval to exceed the patient's monthly allowance
+  allowanceOverride?: Omit<AllowanceOverride, 'limitGrams' | 'usedGrams'>;
+  // Admin approval to distribute a batch without a valid passing COA
+  coaOverride?: Omit<CoaOverride, 'batchStatus'>;
+  // Strokes drawn by whoever picked up, sealed once the distribution number is allocated
+  recipientSignature?: { strokes: SignatureStrokes; signerName: string };
+}
+
+/**
+ * Builds the ledger movement for a distribution's source stock.
+ * direction is 1 when distributing and -1 when reversing a deleted distribution.
+ */
+const getDistributionMovements = (
+  distributionId: string,
+  distribution: Omit<Distribution, 'id' | 'distributionNumber'>,
+  direction: 1 | -1
+): InventoryMovementInput[] => {
+  const base = {
+    movementType: 'distribution' as const,
+    quantityGrams: direction * (distribution.quantityGrams || 0),
+    userId: distribution.userId,
+    associationId: distribution.associationId,
+    referenceType: 'distribution' as const,
+    referenceId: distributionId,
+    reason: direction < 0 ? 'Distribution deleted' : undefined,
+  };
   
-  return db.runTransaction(async (transaction) => {
-    const counterDoc = await transaction.get(counterRef);
-    
-    let nextNumber = 1;
-    if (counterDoc.exists) {
-      nextNumber = (counterDoc.data()?.count || 0) + 1;
-    }
-    
-    transaction.set(counterRef, { count: nextNumber }, { merge: true });
-    return nextNumber;
-  });
+  if (distribution.extractId && (distribution.quantityGrams || distribution.quantityMl)) {
+    return [{
+      ...base,
+      sourceType: 'extract',
+      sourceId: distribution.extractId,
+      quantityMl: distribution.quantityMl ? direction * distribution.quantityMl : undefined,
+    }];
+  }
+  
+  if (distribution.harvestId && distribution.quantityGrams) {
+    return [{ ...base, sourceType: 'harvest', sourceId: distribution.harvestId }];
+  }
+  
+  return [];
 };
 
-export const createDistribution = async (distributionData: Omit<Distribution, 'id' | 'distributionNumber'>): Promise<string> => {
+export const createDistribution = async (
+  distributionData: Omit<Distribution, 'id' | 'distributionNumber'>,
+  options: DistributionOptions = {}
+): Promise<string> => {
   if (!distributionData.userId) {
     throw new Error('userId is required to create a distribution');
   }
   
-  // Get next distribution number
-  const sequence = await getNextDistributionNumber(distributionData.userId);
-  const distributionNumber = generateDistributionNumber(sequence);
+  await assertPermission(distributionData.associationId, 'canManageDistributions');
   
-  // Create the distribution
-  const docRef = await db.collection('distributions').add({
-    ...distributionData,
-    distributionNumber,
-    createdAt: Date.now(),
-  });
+  const { reserveAllowance } = await import('./allowances');
   
-  // If distributing from a harvest, update the harvest's distributed amount
-  if (distributionData.harvestId && distributionData.quantityGrams) {
-    await db.collection('harvests').doc(distributionData.harvestId).update({
-      distributedGrams: firebase.firestore.FieldValue.increment(distributionData.quantityGrams),
-    });
-  }
+  // Require a passing certificate of analysis for the batch (throws unless an override is given)
+  const { assertPassingCoa } = await import('./labAnalyses');
+  const coaOverride = await assertPassingCoa(distributionData, options.coaOverride);
+  
+  // Allocate the distribution number, create the distribution and consume its source
+  // stock atomically, so a concurrent distribution can never overdraw the same
+  // harvest or extract or receive the same number
+  const docRef = db.collection('distributions').doc();
+  const { distributionNumber, allowanceOverride } = await db.runTransaction(async (transaction) => {
+    // Enforce the patient's monthly allowance against totals read in this transaction
+    // (throws unless an override is given)
+    const allowance = await reserveAllowance(transaction, distributionData, options.allowanceOverride);
+    const allowanceOverride = allowance.allowanceOverride;
+    
+    const reservation = await reserveControlNumber(
+      transaction,
+      { userId: distributionData.userId, associationId: distributionData.associationId },
+      { entityType: 'distribution' }
+    );
+    
+    await applyInventoryMovements(transaction, getDistributionMovements(docRef.id, distributionData, 1));
+    
+    // The signature covers the number, patient, batch and quantities handed over
+    const recipientSignature = options.recipientSignature && await createSignature(
+      options.recipientSignature.strokes,
+      options.recipientSignature.signerName,
+      getDistributionSignedContent({ ...distributionData, distributionNumber: reservation.controlNumber })
+    );
+    
+    transaction.set(docRef, removeUndefinedValues({
+      ...distributionData,
+      ...(allowanceOverride && { allowanceOverride: removeUndefinedValues(allowanceOverride) }),
+      ...(coaOverride && { coaOverride }),
+      ...(recipientSignature && { recipientSignature, signatureConfirmation: true }),
+      distributionNumber: reservation.controlNumber,
+      createdAt: Date.now(),
+    }));
+    reservation.commit(docRef.id);
+    allowance.commit();
+    
+    return { distributionNumber: reservation.controlNumber, allowanceOverride };
+  });
   
   console.log('[Firestore] Created distribution with number:', distributionNumber);
   
+  if (allowanceOverride) {
+    await logOverride(
+      allowanceOverride.approvedBy,
+      auth.currentUser?.email || '',
+      distributionData.associationId,
+      'distribution',
+      docRef.id,
+      distributionNumber,
+      { allowanceOverride, patientId: distributionData.patientId },
+      `Monthly allowance overridden (${allowanceOverride.usedGrams}g of ${allowanceOverride.limitGrams}g used): ${allowanceOverride.reason}`
+    );
+  }
+  
+  if (coaOverride) {
+    await logOverride(
+      coaOverride.approvedBy,
+      auth.currentUser?.email || '',
+      distributionData.associationId,
+      'distribution',
+      docRef.id,
+      distributionNumber,
+      { coaOverride, harvestId: distributionData.harvestId, extractId: distributionData.extractId },
+      `COA requirement overridden (batch COA: ${coaOverride.batchStatus}): ${coaOverride.reason}`
+    );
+  }
+  
   return docRef.id;
 };
 
@@ -1248,67 +1421,111 @@ export const getUserDistributions = async (userId: string): Promise<Distribution
   } as Distribution));
 };
 
-export const getPatientDistributions = async (patientId: string): Promise<Distribution[]> => {
-  const querySnapshot = await db
-    .collection('distributions')
+export const getPatientDistributions = async (patientId: string, scope: RecordScope): Promise<Distribution[]> => {
+  const querySnapshot = await whereInScope(db.collection('distributions'), scope)
     .where('patientId', '==', patientId)
-    .orderBy('distributionDate', 'desc')
     .get();
   
-  return querySnapshot.docs.map(doc => ({
+  const distributions = querySnapshot.docs.map(doc => ({
     id: doc.id,
     ...doc.data()
   } as Distribution));
+  
+  // Sort in memory to avoid index requirements
+  return distributions.sort((a, b) => b.distributionDate - a.distributionDate);
 };
 
-export const getHarvestDistributions = async (harvestId: string): Promise<Distribution[]> => {
-  const querySnapshot = await db
-    .collection('distributions')
+export const getHarvestDistributions = async (harvestId: string, scope: RecordScope): Promise<Distribution[]> => {
+  const querySnapshot = await whereInScope(db.collection('distributions'), scope)
     .where('harvestId', '==', harvestId)
-    .orderBy('distributionDate', 'desc')
     .get();
   
-  return querySnapshot.docs.map(doc => ({
+  const distributions = querySnapshot.docs.map(doc => ({
     id: doc.id,
     ...doc.data()
   } as Distribution));
+  
+  // Sort in memory to avoid index requirements
+  return distributions.sort((a, b) => b.distributionDate - a.distributionDate);
+};
+
+export const getExtractDistributions = async (extractId: string, scope: RecordScope): Promise<Distribution[]> => {
+  const querySnapshot = await whereInScope(db.collection('distributions'), scope)
+    .where('extractId', '==', extractId)
+    .get();
+  
+  const distributions = querySnapshot.docs.map(doc => ({
+    id: doc.id,
+    ...doc.data()
+  } as Distribution));
+  
+  // Sort in memory to avoid index requirements
+  return distributions.sort((a, b) => b.distributionDate - a.distributionDate);
 };
 
 export const updateDistribution = async (distributionId: string, data: Partial<Distribution>): Promise<void> => {
+  const distribution = await getDistribution(distributionId);
+  await assertPermission(distribution?.associationId, 'canManageDistributions');
+  if (distribution?.recipientSignature) {
+    // The signature covers the record as it was handed over
+    throw new Error('Signed distributions cannot be edited');
+  }
   await db.collection('distributions').doc(distributionId).update(removeUndefinedValues(data));
 };
 
 export const deleteDistribution = async (distributionId: string): Promise<void> => {
-  // Get the distribution first to update harvest if needed
+  // Get the distribution first to return its stock to the source
   const distribution = await getDistribution(distributionId);
+  const docRef = db.collection('distributions').doc(distributionId);
+  await assertPermission(distribution?.associationId, 'canManageDistributions');
   
-  if (distribution && distribution.harvestId && distribution.quantityGrams) {
-    // Decrement the distributed amount from the harvest
-    await db.collection('harvests').doc(distribution.harvestId).update({
-      distributedGrams: firebase.firestore.FieldValue.increment(-distribution.quantityGrams),
-    });
+  if (!distribution) {
+    await docRef.delete();
+    return;
   }
   
-  await db.collection('distributions').doc(distributionId).delete();
+  if (distribution.recipientSignature && distribution.associationId) {
+    // Deleting a signed hand-over erases the recipient's confirmation, so only owners and admins may
+    const userId = auth.currentUser?.uid;
+    if (!userId || !(await isOwnerOrAdmin(userId, distribution.associationId))) {
+      throw new Error('Only owners and admins can delete signed distributions');
+    }
+  }
+  
+  await db.runTransaction(async (transaction) => {
+    await applyInventoryMovements(transaction, getDistributionMovements(distributionId, distribution, -1));
+    transaction.delete(docRef);
+  });
 };
 
 // ==================== EXTRACTS ====================
 
-// Counter for extract numbers (stored in a separate document)
-const getNextExtractNumber = async (userId: string): Promise<number> => {
-  const counterRef = db.collection('counters').doc(`extracts_${userId}`);
+/**
+ * Builds the ledger movements for an extract's input material.
+ * For simplicity, the input weight is divided equally across multiple harvests.
+ */
+const getExtractMovements = (
+  extractId: string,
+  extract: Omit<Extract, 'id' | 'controlNumber'>,
+  direction: 1 | -1
+): InventoryMovementInput[] => {
+  if (!extract.harvestIds.length || !extract.inputWeightGrams) {
+    return [];
+  }
   
-  return db.runTransaction(async (transaction) => {
-    const counterDoc = await transaction.get(counterRef);
-    
-    let nextNumber = 1;
-    if (counterDoc.exists) {
-      nextNumber = (counterDoc.data()?.count || 0) + 1;
-    }
-    
-    transaction.set(counterRef, { count: nextNumber }, { merge: true });
-    return nextNumber;
-  });
+  const weightPerHarvest = extract.inputWeightGrams / extract.harvestIds.length;
+  
+  return extract.harvestIds.map(harvestId => ({
+    movementType: 'extraction' as const,
+    sourceType: 'harvest' as const,
+    sourceId: harvestId,
+    quantityGrams: direction * weightPerHarvest,
+    userId: extract.userId,
+    associationId: extract.associationId,
+    referenceType: 'extract' as const,
+    referenceId: extractId,
+    reason: direction < 0 ? 'Extract deleted' : undefined,
+  }));
 };
 
 export const createExtract = async (extractData: Omit<Extract, 'id' | 'controlNumber'>): Promise<string> => {
@@ -1316,28 +1533,33 @@ export const createExtract = async (extractData: Omit<Extract, 'id' | 'controlNu
     throw new Error('userId is required to create an extract');
   }
   
-  // Get next extract number
-  const sequence = await getNextExtractNumber(extractData.userId);
-  const controlNumber = generateExtractControlNumber(sequence);
-  
-  // Create the extract
-  const docRef = await db.collection('extracts').add({
-    ...extractData,
-    controlNumber,
-    createdAt: Date.now(),
-  });
-  
-  // Update each source harvest to track extraction
-  for (const harvestId of extractData.harvestIds) {
-    // Calculate how much weight was used from each harvest
-    // For simplicity, we divide equally if multiple harvests
-    const weightPerHarvest = extractData.inputWeightGrams / extractData.harvestIds.length;
+  // Allocate the control number, create the extract and consume the input
+  // material from each source harvest atomically
+  const docRef = db.collection('extracts').doc();
+  const controlNumber = await db.runTransaction(async (transaction) => {
+    const reservation = await reserveControlNumber(
+      transaction,
+      { userId: extractData.userId, associationId: extractData.associationId },
+      { entityType: 'extract' }
+    );
     
-    await db.collection('harvests').doc(harvestId).update({
-      extractedGrams: firebase.firestore.FieldValue.increment(weightPerHarvest),
-      extractedForIds: firebase.firestore.FieldValue.arrayUnion(docRef.id),
-    });
-  }
+    await applyInventoryMovements(transaction, getExtractMovements(docRef.id, extractData, 1));
+    
+    for (const harvestId of extractData.harvestIds) {
+      transaction.update(db.collection('harvests').doc(harvestId), {
+        extractedForIds: firebase.firestore.FieldValue.arrayUnion(docRef.id),
+      });
+    }
+    
+    transaction.set(docRef, removeUndefinedValues({
+      ...extractData,
+      controlNumber: reservation.controlNumber,
+      createdAt: Date.now(),
+    }));
+    reservation.commit(docRef.id);
+    
+    return reservation.controlNumber;
+  });
   
   console.log('[Firestore] Created extract with control number:', controlNumber);
   
@@ -1375,17 +1597,18 @@ export const getUserExtracts = async (userId: string): Promise<Extract[]> => {
   } as Extract));
 };
 
-export const getHarvestExtracts = async (harvestId: string): Promise<Extract[]> => {
-  const querySnapshot = await db
-    .collection('extracts')
+export const getHarvestExtracts = async (harvestId: string, scope: RecordScope): Promise<Extract[]> => {
+  const querySnapshot = await whereInScope(db.collection('extracts'), scope)
     .where('harvestIds', 'array-contains', harvestId)
-    .orderBy('extractionDate', 'desc')
     .get();
   
-  return querySnapshot.docs.map(doc => ({
+  const extracts = querySnapshot.docs.map(doc => ({
     id: doc.id,
     ...doc.data()
   } as Extract));
+  
+  // Sort in memory to avoid index requirements
+  return extracts.sort((a, b) => b.extractionDate - a.extractionDate);
 };
 
 export const updateExtract = async (extractId: string, data: Partial<Extract>): Promise<void> => {
@@ -1393,57 +1616,52 @@ export const updateExtract = async (extractId: string, data: Partial<Extract>):
 };
 
 export const deleteExtract = async (extractId: string): Promise<void> => {
-  // Get the extract first to update harvests
+  // Get the extract first to return the input material to its harvests
   const extract = await getExtract(extractId);
+  const docRef = db.collection('extracts').doc(extractId);
   
-  if (extract) {
-    // Remove extraction tracking from each source harvest
-    const weightPerHarvest = extract.inputWeightGrams / extract.harvestIds.length;
+  if (!extract) {
+    await docRef.delete();
+    return;
+  }
+  
+  await db.runTransaction(async (transaction) => {
+    await applyInventoryMovements(transaction, getExtractMovements(extractId, extract, -1));
     
     for (const harvestId of extract.harvestIds) {
-      await db.collection('harvests').doc(harvestId).update({
-        extractedGrams: firebase.firestore.FieldValue.increment(-weightPerHarvest),
+      transaction.update(db.collection('harvests').doc(harvestId), {
         extractedForIds: firebase.firestore.FieldValue.arrayRemove(extractId),
       });
     }
-  }
-  
-  await db.collection('extracts').doc(extractId).delete();
-};
-
-// ==================== ORDERS ====================
-
-// Counter for order numbers (stored in a separate document)
-const getNextOrderNumber = async (userId: string): Promise<number> => {
-  const counterRef = db.collection('counters').doc(`orders_${userId}`);
-  
-  return db.runTransaction(async (transaction) => {
-    const counterDoc = await transaction.get(counterRef);
-    
-    let nextNumber = 1;
-    if (counterDoc.exists) {
-      nextNumber = (counterDoc.data()?.count || 0) + 1;
-    }
     
-    transaction.set(counterRef, { count: nextNumber }, { merge: true });
-    return nextNumber;
+    transaction.delete(docRef);
   });
 };
 
+// ==================== ORDERS ====================
+
 export const createOrder = async (orderData: Omit<Order, 'id' | 'orderNumber'>): Promise<string> => {
   if (!orderData.userId) {
     throw new Error('userId is required to create an order');
   }
   
-  // Get next order number
-  const sequence = await getNextOrderNumber(orderData.userId);
-  const orderNumber = generateOrderNumber(sequence);
-  
-  // Create the order
-  const docRef = await db.collection('orders').add({
-    ...orderData,
-    orderNumber,
-    createdAt: Date.now(),
+  // Allocate the order number and create the order atomically
+  const docRef = db.collection('orders').doc();
+  const orderNumber = await db.runTransaction(async (transaction) => {
+    const reservation = await reserveControlNumber(
+      transaction,
+      { userId: orderData.userId, associationId: orderData.associationId },
+      { entityType: 'order' }
+    );
+    
+    transaction.set(docRef, {
+      ...orderData,
+      orderNumber: reservation.controlNumber,
+      createdAt: Date.now(),
+    });
+    reservation.commit(docRef.id);
+    
+    return reservation.controlNumber;
   });
   
   console.log('[Firestore] Created order with number:', orderNumber);
@@ -1518,7 +1736,16 @@ export const updateOrder = async (orderId: string, data: Partial<Order>): Promis
   await db.collection('orders').doc(orderId).update(removeUndefinedValues(data));
 };
 
+/**
+ * Checks the signed-in user may process orders in the order's association
+ */
+const assertCanProcessOrder = async (orderId: string): Promise<void> => {
+  const order = await getOrder(orderId);
+  await assertPermission(order?.associationId, 'canManageDistributions');
+};
+
 export const approveOrder = async (orderId: string): Promise<void> => {
+  await assertCanProcessOrder(orderId);
   await db.collection('orders').doc(orderId).update({
     status: 'approved' as OrderStatus,
     processedAt: Date.now(),
@@ -1526,6 +1753,7 @@ export const approveOrder = async (orderId: string): Promise<void> => {
 };
 
 export const rejectOrder = async (orderId: string): Promise<void> => {
+  await assertCanProcessOrder(orderId);
   await db.collection('orders').doc(orderId).update({
     status: 'rejected' as OrderStatus,
     processedAt: Date.now(),
@@ -1534,10 +1762,11 @@ export const rejectOrder = async (orderId: string): Promise<void> => {
 
 export const fulfillOrder = async (
   orderId: string,
-  distributionData: Omit<Distribution, 'id' | 'distributionNumber'>
+  distributionData: Omit<Distribution, 'id' | 'distributionNumber'>,
+  options: DistributionOptions = {}
 ): Promise<string> => {
-  // Create the distribution
-  const distributionId = await createDistribution(distributionData);
+  // Create the distribution (enforces the patient's monthly allowance)
+  const distributionId = await createDistribution(distributionData, options);
   
   // Update the order
   await db.collection('orders').doc(orderId).update({
@@ -1585,9 +1814,13 @@ const removeUndefinedFields = <T extends Record<string, any>>(obj: T): Partial<T
 };
 
 /**
- * Creates a detailed plant log entry
+ * Creates a detailed plant log entry. Queued locally when the device is offline.
+ * auditEntriesFor builds the audit entries for the new id; they are queued with the write.
  */
-export const createPlantLog = async (logData: Omit<PlantLog, 'id'>): Promise<string> => {
+export const createPlantLog = async (
+  logData: Omit<PlantLog, 'id'>,
+  auditEntriesFor?: (logId: string) => AuditEntryInput[]
+): Promise<string> => {
   if (!logData.userId) {
     throw new Error('userId is required to create a plant log');
   }
@@ -1595,15 +1828,24 @@ export const createPlantLog = async (logData: Omit<PlantLog, 'id'>): Promise<str
     throw new Error('plantId is required to create a plant log');
   }
   
+  const now = Date.now();
+  
   // Remove undefined values - Firestore doesn't accept them
   const cleanedData = removeUndefinedFields({
     ...logData,
-    createdAt: Date.now(),
+    createdAt: now,
+    updatedAt: now,
   });
   
-  const docRef = await db.collection('plantLogs').add(cleanedData);
+  const docRef = db.collection('plantLogs').doc();
+  const result = await writeOrQueue(`Plant log (${logData.logType})`, [{
+    type: 'set',
+    collection: 'plantLogs',
+    docId: docRef.id,
+    data: cleanedData,
+  }], auditEntriesFor?.(docRef.id));
   
-  console.log('[Firestore] Created plant log with ID:', docRef.id);
+  console.log('[Firestore] Created plant log with ID:', docRef.id, result === 'queued' ? '(queued offline)' : '');
   return docRef.id;
 };
 
@@ -1681,10 +1923,22 @@ export const getUserPlantLogs = async (
 };
 
 /**
- * Updates a plant log
+ * Updates a plant log. Queued locally when the device is offline.
+ * baseUpdatedAt is the log's updatedAt when editing started, used to detect conflicts.
  */
-export const updatePlantLog = async (logId: string, data: Partial<PlantLog>): Promise<void> => {
-  await db.collection('plantLogs').doc(logId).update(removeUndefinedValues(data));
+export const updatePlantLog = async (
+  logId: string,
+  data: Partial<PlantLog>,
+  baseUpdatedAt?: number,
+  auditEntries: AuditEntryInput[] = []
+): Promise<void> => {
+  await writeOrQueue('Plant log update', [{
+    type: 'update',
+    collection: 'plantLogs',
+    docId: logId,
+    data: removeUndefinedValues({ ...data, updatedAt: Date.now() }),
+    baseUpdatedAt,
+  }], auditEntries);
 };
 
 /**
@@ -1714,8 +1968,13 @@ export const deleteBulkPlantLogs = async (logIds: string[]): Promise<void> => {
 /**
  * Creates a bulk plant log that applies to multiple plants.
  * Also creates individual PlantLog entries for each plant for full traceability.
+ * All entries are written together, or queued together when the device is offline.
+ * auditEntriesFor builds the audit entries for the new id; they are queued with the write.
  */
-export const createBulkPlantLog = async (logData: Omit<BulkPlantLog, 'id'>): Promise<string> => {
+export const createBulkPlantLog = async (
+  logData: Omit<BulkPlantLog, 'id'>,
+  auditEntriesFor?: (logId: string) => AuditEntryInput[]
+): Promise<string> => {
   if (!logData.userId) {
     throw new Error('userId is required to create a bulk plant log');
   }
@@ -1733,39 +1992,38 @@ export const createBulkPlantLog = async (logData: Omit<BulkPlantLog, 'id'>): Pro
     ...logData,
     plantCount: logData.plantIds.length,
     createdAt: now,
+    updatedAt: now,
   });
   
-  // Create the bulk log entry (for environment-level tracking)
-  const docRef = await db.collection('bulkPlantLogs').add(cleanedBulkData);
-  const bulkLogId = docRef.id;
-  
-  console.log('[Firestore] Created bulk plant log with ID:', bulkLogId, 'for', logData.plantIds.length, 'plants');
+  // The bulk log entry (for environment-level tracking)
+  const bulkLogId = db.collection('bulkPlantLogs').doc().id;
   
-  // Create individual PlantLog entries for each plant
+  // Individual PlantLog entries for each plant
   // This ensures each plant's history shows all activities applied to it
   const { plantIds, environmentId, plantCount, ...logDataWithoutBulkFields } = logData;
   
-  const individualLogPromises = plantIds.map(async (plantId) => {
-    const individualLogData = removeUndefinedFields({
+  const individualLogWrites = plantIds.map(plantId => ({
+    type: 'set' as const,
+    collection: 'plantLogs',
+    docId: db.collection('plantLogs').doc().id,
+    data: removeUndefinedFields({
       ...logDataWithoutBulkFields,
       plantId,
       userId: logData.userId,
       date: logData.date,
       createdAt: now,
+      updatedAt: now,
       bulkLogId, // Reference to the parent bulk log
       fromBulkUpdate: true, // Flag to indicate this came from a bulk update
-    });
-    
-    return db.collection('plantLogs').add(individualLogData);
-  });
+    }),
+  }));
   
-  try {
-    await Promise.all(individualLogPromises);
-    console.log('[Firestore] Created', plantIds.length, 'individual plant logs from bulk update');
-  } catch (error) {
-    console.error('[Firestore] Error creating individual plant logs:', error);
-    // Don't throw - the bulk log was created successfully
-  }
+  const result = await writeOrQueue(`Bulk log (${logData.logType}, ${plantIds.length} plants)`, [
+    { type: 'set', collection: 'bulkPlantLogs', docId: bulkLogId, data: cleanedBulkData },
+    ...individualLogWrites,
+  ], auditEntriesFor?.(bulkLogId));
+  
+  console.log('[Firestore] Created bulk plant log with ID:', bulkLogId, 'for', plantIds.length, 'plants', result === 'queued' ? '(queued offline)' : '');
   
   return bulkLogId;
 };
@@ -1867,10 +2125,22 @@ export const getUserBulkPlantLogs = async (
 };
 
 /**
- * Updates a bulk plant log
+ * Updates a bulk plant log. Queued locally when the device is offline.
+ * baseUpdatedAt is the log's updatedAt when editing started, used to detect conflicts.
  */
-export const updateBulkPlantLog = async (logId: string, data: Partial<BulkPlantLog>): Promise<void> => {
-  await db.collection('bulkPlantLogs').doc(logId).update(removeUndefinedValues(data));
+export const updateBulkPlantLog = async (
+  logId: string,
+  data: Partial<BulkPlantLog>,
+  baseUpdatedAt?: number,
+  auditEntries: AuditEntryInput[] = []
+): Promise<void> => {
+  await writeOrQueue('Bulk log update', [{
+    type: 'update',
+    collection: 'bulkPlantLogs',
+    docId: logId,
+    data: removeUndefinedValues({ ...data, updatedAt: Date.now() }),
+    baseUpdatedAt,
+  }], auditEntries);
 };
 
 /**
@@ -2466,3 +2736,66 @@ export const getSeedGeneticsForContext = async (
   return getUserSeedGenetics(userId);
 };
 
+// ==================== RESTORE ====================
+
+/**
+ * Writes a version rebuilt from the audit trail back to its record.
+ * Existing records (including soft-deleted plants) are replaced as a whole, so
+ * fields added after that version are cleared. Hard-deleted records are
+ * re-created under their original author and id; distributions and extracts
+ * consume their source stock again, exactly as when they were first created.
+ */
+export const restoreRecord = async (
+  entityType: RestorableEntityType,
+  entityId: string,
+  data: Record<string, any>,
+  restoredFromLogId: string
+): Promise<void> => {
+  const schema: RestoreSchema = RESTORE_SCHEMAS[entityType];
+  if (schema.permission) {
+    await assertPermission(data.associationId, schema.permission);
+  }
+  
+  const docRef = db.collection(schema.collection).doc(entityId);
+  const existing = await docRef.get();
+  
+  if (existing.exists) {
+    if (entityType === 'distribution' && existing.data()?.recipientSignature) {
+      throw new Error('Signed distributions cannot be edited');
+    }
+    
+    await docRef.set(removeUndefinedValues({
+      ...data,
+      ...('updatedAt' in schema.fields && { updatedAt: Date.now() }),
+    }));
+    console.log('[Firestore] Restored', entityType, entityId, 'from audit entry', restoredFromLogId);
+    return;
+  }
+  
+  // Re-creating someone else's record is limited to owners and admins (see canCreateOrRestoreRecord)
+  const userId = auth.currentUser?.uid;
+  if (data.userId !== userId) {
+    if (!data.associationId || !userId || !(await isOwnerOrAdmin(userId, data.associationId))) {
+      throw new Error('Only owners and admins can restore records created by other members');
+    }
+  }
+  
+  const record = removeUndefinedValues({ ...data, restoredFromLogId });
+  await db.runTransaction(async (transaction) => {
+    if (entityType === 'distribution') {
+      await applyInventoryMovements(transaction, getDistributionMovements(entityId, record as Distribution, 1));
+    } else if (entityType === 'extract') {
+      const extract = record as Extract;
+      await applyInventoryMovements(transaction, getExtractMovements(entityId, extract, 1));
+      for (const harvestId of extract.harvestIds) {
+        transaction.update(db.collection('harvests').doc(harvestId), {
+          extractedForIds: firebase.firestore.FieldValue.arrayUnion(entityId),
+        });
+      }
+    }
+    
+    transaction.set(docRef, record);
+  });
+  
+  console.log('[Firestore] Re-created', entityType, entityId, 'from audit entry', restoredFromLogId);
+};
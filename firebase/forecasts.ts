@@ -0,0 +1,124 @@
+// Firebase reads for stage and harvest forecasts
+import {
+  getHarvestsForContext,
+  getPlantStages,
+  getPlantsForContext,
+  getSeedGeneticsForContext,
+} from './firestore';
+import { Harvest, Plant, PlantForecast, SeedGenetic, Stage, StageHistory, StageName } from '../types';
+import { forecastPlant, getStageDurations, isSameStrain, summarizeStageHistory } from '../utils/stageForecast';
+
+// Most recent past plants of a strain used for its history
+const MAX_HISTORY_PLANTS = 20;
+
+const HARVESTED_STAGES: StageName[] = ['Drying', 'Curing'];
+
+/**
+ * First harvest date of each plant
+ */
+const getFirstHarvestDates = (harvests: Harvest[]): Map<string, number> => {
+  const dates = new Map<string, number>();
+  harvests.forEach(harvest => {
+    const current = dates.get(harvest.plantId);
+    if (current === undefined || harvest.harvestDate < current) {
+      dates.set(harvest.plantId, harvest.harvestDate);
+    }
+  });
+  return dates;
+};
+
+/**
+ * Stage durations of past plants of the same strain. Only plants that were
+ * harvested (or reached Drying) count, so their Flower stage is complete.
+ */
+const getStrainHistory = async (
+  plant: Plant,
+  contextPlants: Plant[],
+  harvestDates: Map<string, number>
+): Promise<StageHistory> => {
+  const pastPlants = contextPlants
+    .filter(other => other.id !== plant.id && isSameStrain(plant, other))
+    .filter(other => harvestDates.has(other.id) || (other.currentStage && HARVESTED_STAGES.includes(other.currentStage)))
+    .sort((a, b) => b.startDate - a.startDate)
+    .slice(0, MAX_HISTORY_PLANTS);
+
+  if (pastPlants.length === 0) {
+    return {};
+  }
+
+  const durations = await Promise.all(pastPlants.map(async other => {
+    const stages = await getPlantStages(other.id);
+    return getStageDurations(stages, harvestDates.get(other.id));
+  }));
+
+  return summarizeStageHistory(durations);
+};
+
+/**
+ * Forecast for a single plant, using the stages and genetic the caller already loaded.
+ * Archived plants are included in the strain history.
+ */
+export const getPlantForecast = async (
+  plant: Plant,
+  stages: Stage[],
+  genetic: SeedGenetic | null,
+  userId: string,
+  associationId?: string
+): Promise<{ forecast: PlantForecast; history: StageHistory }> => {
+  const [contextPlants, harvests] = await Promise.all([
+    getPlantsForContext(userId, associationId, true),
+    getHarvestsForContext(userId, associationId),
+  ]);
+  const harvestDates = getFirstHarvestDates(harvests);
+  const history = await getStrainHistory(plant, contextPlants, harvestDates);
+
+  const forecast = forecastPlant(plant, stages, {
+    genetic,
+    history,
+    harvestDate: harvestDates.get(plant.id),
+  });
+
+  return { forecast, history };
+};
+
+/**
+ * Forecasts for the plants of an environment that haven't been harvested yet,
+ * sorted by projected harvest date
+ */
+export const getEnvironmentForecasts = async (
+  environmentId: string,
+  userId: string,
+  associationId?: string
+): Promise<{ plant: Plant; forecast: PlantForecast }[]> => {
+  const [contextPlants, harvests, genetics] = await Promise.all([
+    getPlantsForContext(userId, associationId, true),
+    getHarvestsForContext(userId, associationId),
+    getSeedGeneticsForContext(userId, associationId),
+  ]);
+  const harvestDates = getFirstHarvestDates(harvests);
+
+  const growing = contextPlants.filter(plant =>
+    plant.environmentId === environmentId &&
+    !plant.deletedAt &&
+    !harvestDates.has(plant.id) &&
+    !(plant.currentStage && HARVESTED_STAGES.includes(plant.currentStage))
+  );
+
+  // Plants of the same strain share one history lookup
+  const historyByStrain = new Map<string, Promise<StageHistory>>();
+  const getHistory = (plant: Plant) => {
+    const key = plant.genetics?.seedGeneticId || plant.strain.trim().toLowerCase();
+    if (!historyByStrain.has(key)) {
+      historyByStrain.set(key, getStrainHistory(plant, contextPlants, harvestDates));
+    }
+    return historyByStrain.get(key)!;
+  };
+
+  const forecasts = await Promise.all(growing.map(async plant => {
+    const [stages, history] = await Promise.all([getPlantStages(plant.id), getHistory(plant)]);
+    const genetic = genetics.find(g => g.id === plant.genetics?.seedGeneticId) || null;
+    return { plant, forecast: forecastPlant(plant, stages, { genetic, history }) };
+  }));
+
+  return forecasts.sort((a, b) => a.forecast.harvestDate - b.forecast.harvestDate);
+};
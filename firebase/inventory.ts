@@ -0,0 +1,300 @@
+// Inventory movement ledger for harvest and extract balances
+import firebase from 'firebase/compat/app';
+import { db } from './firebaseConfig';
+import {
+  Harvest,
+  Extract,
+  InventoryMovement,
+  InventoryMovementType,
+  InventorySourceType,
+} from '../types';
+import { RecordScope, removeUndefinedValues, whereInScope } from '../utils/firestoreData';
+import {
+  HARVEST_BALANCE_FIELDS,
+  InventoryLedgerTotals,
+  getExtractAvailable,
+  getHarvestAvailableGrams,
+  getHarvestTotalWeight,
+  summarizeMovements,
+} from '../utils/inventoryBalances';
+
+// Collection name
+const MOVEMENTS_COLLECTION = 'inventoryMovements';
+
+type Transaction = firebase.firestore.Transaction;
+
+// Balances are computed in utils/inventoryBalances.ts, re-exported for existing callers
+export { getHarvestTotalWeight, getHarvestAvailableGrams, getExtractAvailable, summarizeMovements };
+export type { InventoryLedgerTotals };
+
+/**
+ * Thrown when a movement would consume more than the source has available
+ */
+export class InsufficientInventoryError extends Error {
+  code = 'insufficient-inventory';
+  sourceId: string;
+  availableAmount: number;
+  requestedAmount: number;
+
+  constructor(sourceLabel: string, sourceId: string, available: number, requested: number, unit: 'g' | 'ml' = 'g') {
+    super(`Only ${Math.max(0, available)}${unit} available from ${sourceLabel}, ${requested}${unit} requested`);
+    this.name = 'InsufficientInventoryError';
+    this.sourceId = sourceId;
+    this.availableAmount = available;
+    this.requestedAmount = requested;
+  }
+}
+
+/**
+ * Thrown when a movement would consume stock frozen by an open recall
+ */
+export class InventoryFrozenError extends Error {
+  code = 'inventory-frozen';
+  sourceId: string;
+  recallId: string;
+
+  constructor(sourceLabel: string, sourceId: string, recallId: string) {
+    super(`${sourceLabel} is frozen by an open recall`);
+    this.name = 'InventoryFrozenError';
+    this.sourceId = sourceId;
+    this.recallId = recallId;
+  }
+}
+
+// ==================== TRANSACTIONAL MOVEMENTS ====================
+
+export interface InventoryMovementInput {
+  movementType: InventoryMovementType;
+  sourceType: InventorySourceType;
+  sourceId: string;
+  quantityGrams: number; // Negative values return stock (e.g. when a distribution is deleted)
+  quantityMl?: number;
+  userId: string;
+  associationId?: string;
+  referenceType?: InventoryMovement['referenceType'];
+  referenceId?: string;
+  reason?: string;
+}
+
+/**
+ * Applies inventory movements inside an existing Firestore transaction.
+ *
+ * Reads every source document first (Firestore requires all reads before writes),
+ * validates that consuming movements do not exceed the available balance and
+ * do not touch stock frozen by a recall (disposal is still allowed), then
+ * updates the balance fields and writes one ledger entry per movement.
+ * Callers may add their own writes to the same transaction afterwards.
+ */
+export const applyInventoryMovements = async (
+  transaction: Transaction,
+  movements: InventoryMovementInput[]
+): Promise<void> => {
+  if (movements.length === 0) {
+    return;
+  }
+
+  // Read phase
+  const sources = new Map<string, Harvest | Extract>();
+  for (const movement of movements) {
+    const key = `${movement.sourceType}/${movement.sourceId}`;
+    if (sources.has(key)) continue;
+
+    const collection = movement.sourceType === 'harvest' ? 'harvests' : 'extracts';
+    const snap = await transaction.get(db.collection(collection).doc(movement.sourceId));
+    if (!snap.exists) {
+      throw new Error(`${movement.sourceType === 'harvest' ? 'Harvest' : 'Extract'} not found`);
+    }
+    sources.set(key, { id: snap.id, ...snap.data() } as Harvest | Extract);
+  }
+
+  // Validate and write phase - balances are tracked locally so several
+  // movements against the same source are validated cumulatively
+  const now = Date.now();
+  for (const movement of movements) {
+    const key = `${movement.sourceType}/${movement.sourceId}`;
+    const source = sources.get(key)!;
+    const consumes = movement.quantityGrams > 0 || (movement.quantityMl || 0) > 0;
+    if (source.recallId && consumes && movement.movementType !== 'waste') {
+      throw new InventoryFrozenError(source.controlNumber, source.id, source.recallId);
+    }
+
+    let balanceAfterGrams: number | undefined;
+    let sourceControlNumber: string;
+
+    if (movement.sourceType === 'harvest') {
+      const harvest = sources.get(key) as Harvest;
+      const available = getHarvestAvailableGrams(harvest);
+      if (movement.quantityGrams > 0 && movement.quantityGrams > available) {
+        throw new InsufficientInventoryError(harvest.controlNumber, harvest.id, available, movement.quantityGrams);
+      }
+
+      const field = HARVEST_BALANCE_FIELDS[movement.movementType];
+      transaction.update(db.collection('harvests').doc(movement.sourceId), {
+        [field]: firebase.firestore.FieldValue.increment(movement.quantityGrams),
+      });
+
+      const updated: Harvest = { ...harvest, [field]: (harvest[field] || 0) + movement.quantityGrams };
+      sources.set(key, updated);
+      balanceAfterGrams = getHarvestAvailableGrams(updated);
+      sourceControlNumber = harvest.controlNumber;
+    } else {
+      const extract = sources.get(key) as Extract;
+      const available = getExtractAvailable(extract);
+      if (movement.quantityGrams > 0 && available.grams !== undefined && movement.quantityGrams > available.grams) {
+        throw new InsufficientInventoryError(extract.controlNumber, extract.id, available.grams, movement.quantityGrams);
+      }
+      if (movement.quantityMl && movement.quantityMl > 0 && available.ml !== undefined && movement.quantityMl > available.ml) {
+        throw new InsufficientInventoryError(extract.controlNumber, extract.id, available.ml, movement.quantityMl, 'ml');
+      }
+
+      transaction.update(db.collection('extracts').doc(movement.sourceId), {
+        distributedGrams: firebase.firestore.FieldValue.increment(movement.quantityGrams),
+        distributedMl: firebase.firestore.FieldValue.increment(movement.quantityMl || 0),
+      });
+
+      const updated: Extract = {
+        ...extract,
+        distributedGrams: (extract.distributedGrams || 0) + movement.quantityGrams,
+        distributedMl: (extract.distributedMl || 0) + (movement.quantityMl || 0),
+      };
+      sources.set(key, updated);
+      balanceAfterGrams = getExtractAvailable(updated).grams;
+      sourceControlNumber = extract.controlNumber;
+    }
+
+    const movementData: Omit<InventoryMovement, 'id'> = {
+      ...movement,
+      sourceControlNumber,
+      balanceAfterGrams,
+      createdAt: now,
+    };
+    transaction.set(db.collection(MOVEMENTS_COLLECTION).doc(), removeUndefinedValues(movementData));
+  }
+};
+
+/**
+ * Records a manual inventory correction on a harvest (e.g. after a stock count).
+ * Positive deltas remove stock, negative deltas add it back.
+ */
+export const adjustHarvestInventory = async (
+  harvestId: string,
+  deltaGrams: number,
+  reason: string,
+  userId: string,
+  associationId?: string
+): Promise<void> => {
+  if (!reason.trim()) {
+    throw new Error('A reason is required for inventory adjustments');
+  }
+
+  await db.runTransaction(async (transaction) => {
+    await applyInventoryMovements(transaction, [{
+      movementType: 'adjustment',
+      sourceType: 'harvest',
+      sourceId: harvestId,
+      quantityGrams: deltaGrams,
+      userId,
+      associationId,
+      reason: reason.trim(),
+    }]);
+  });
+
+  console.log('[Inventory] Adjusted harvest', harvestId, 'by', deltaGrams, 'g');
+};
+
+// ==================== LEDGER QUERIES ====================
+
+/**
+ * Gets all ledger entries for a harvest or extract, oldest first
+ */
+export const getSourceMovements = async (
+  sourceType: InventorySourceType,
+  sourceId: string,
+  scope: RecordScope
+): Promise<InventoryMovement[]> => {
+  const querySnapshot = await whereInScope(db.collection(MOVEMENTS_COLLECTION), scope)
+    .where('sourceType', '==', sourceType)
+    .where('sourceId', '==', sourceId)
+    .get();
+
+  const movements = querySnapshot.docs.map(doc => ({
+    id: doc.id,
+    ...doc.data()
+  } as InventoryMovement));
+
+  // Sort in memory to avoid index requirements
+  return movements.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Gets all ledger entries created by a distribution, extract or waste disposal.
+ * Pass that record as the scope, its movements are stored alongside it.
+ */
+export const getReferenceMovements = async (
+  referenceType: NonNullable<InventoryMovement['referenceType']>,
+  referenceId: string,
+  scope: RecordScope
+): Promise<InventoryMovement[]> => {
+  const querySnapshot = await whereInScope(db.collection(MOVEMENTS_COLLECTION), scope)
+    .where('referenceType', '==', referenceType)
+    .where('referenceId', '==', referenceId)
+    .get();
+
+  return querySnapshot.docs.map(doc => ({
+    id: doc.id,
+    ...doc.data()
+  } as InventoryMovement));
+};
+
+/**
+ * Rebuilds a harvest's balance from its ledger and compares it with the stored counters.
+ * Harvests created before the ledger existed have no entries, so inSync is false for
+ * them whenever they already had consumption recorded.
+ */
+export const rebuildHarvestInventory = async (harvestId: string): Promise<{
+  totals: InventoryLedgerTotals;
+  totalWeightGrams: number;
+  availableGrams: number;
+  inSync: boolean;
+} | null> => {
+  const snap = await db.collection('harvests').doc(harvestId).get();
+  if (!snap.exists) {
+    return null;
+  }
+
+  const harvest = { id: snap.id, ...snap.data() } as Harvest;
+  const totals = summarizeMovements(await getSourceMovements('harvest', harvestId, harvest));
+  const totalWeightGrams = getHarvestTotalWeight(harvest);
+  const availableGrams =
+    totalWeightGrams - totals.distributedGrams - totals.extractedGrams - totals.wastedGrams - totals.adjustedGrams;
+
+  return {
+    totals,
+    totalWeightGrams,
+    availableGrams,
+    inSync: Math.abs(availableGrams - getHarvestAvailableGrams(harvest)) < 0.001,
+  };
+};
+
+/**
+ * Rebuilds an extract's remaining output from its ledger
+ */
+export const rebuildExtractInventory = async (extractId: string): Promise<{
+  totals: InventoryLedgerTotals;
+  availableGrams?: number;
+  availableMl?: number;
+} | null> => {
+  const snap = await db.collection('extracts').doc(extractId).get();
+  if (!snap.exists) {
+    return null;
+  }
+
+  const extract = { id: snap.id, ...snap.data() } as Extract;
+  const totals = summarizeMovements(await getSourceMovements('extract', extractId, extract));
+
+  return {
+    totals,
+    availableGrams: extract.outputWeightGrams ? extract.outputWeightGrams - totals.distributedGrams : undefined,
+    availableMl: extract.outputVolumeMl ? extract.outputVolumeMl - totals.distributedMl : undefined,
+  };
+};
@@ -0,0 +1,287 @@
+// Firebase CRUD operations for lab analyses (certificates of analysis) and COA distribution gating
+import firebase from 'firebase/compat/app';
+import { auth, db, storage } from './firebaseConfig';
+import { assertPermission, isOwnerOrAdmin } from './associations';
+import { CoaFile, CoaOverride, Distribution, LabAnalysis } from '../types';
+import { BatchCoa, getBatchCoaStatus, SAFETY_PANELS, SafetyPanelKey } from '../utils/labAnalysis';
+import { removeUndefinedValues } from '../utils/firestoreData';
+
+// Collection name
+const LAB_ANALYSES_COLLECTION = 'labAnalyses';
+
+// COA files are stored under labReports/{userId}/
+const LAB_REPORTS_ROOT = 'labReports';
+
+/**
+ * Drops unmeasured values from panel results, which Firestore would reject
+ */
+const cleanPanels = <T extends Partial<Pick<LabAnalysis, SafetyPanelKey>>>(data: T): T => {
+  const cleaned = { ...data };
+  SAFETY_PANELS.forEach(key => {
+    const panel = data[key];
+    if (panel) {
+      cleaned[key] = { ...panel, results: panel.results.map(result => removeUndefinedValues(result)) } as T[typeof key];
+    }
+  });
+  return cleaned;
+};
+
+/**
+ * Thrown when a distribution's batch has no valid passing COA
+ * and no admin override was supplied.
+ */
+export class CoaRequiredError extends Error {
+  code = 'coa-required';
+  batch: BatchCoa;
+  sourceType: 'harvest' | 'extract';
+
+  constructor(batch: BatchCoa, sourceType: 'harvest' | 'extract') {
+    super(`This ${sourceType} has no valid passing certificate of analysis (status: ${batch.status})`);
+    this.name = 'CoaRequiredError';
+    this.batch = batch;
+    this.sourceType = sourceType;
+  }
+}
+
+// ==================== LAB ANALYSES ====================
+
+/**
+ * Gets the lab analyses of an association, or of a personal account when no association is given
+ */
+export const getLabAnalysesForContext = async (
+  userId: string,
+  associationId?: string
+): Promise<LabAnalysis[]> => {
+  const query = associationId
+    ? db.collection(LAB_ANALYSES_COLLECTION).where('associationId', '==', associationId)
+    : db.collection(LAB_ANALYSES_COLLECTION).where('userId', '==', userId);
+
+  const snapshot = await query.get();
+
+  return snapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() } as LabAnalysis))
+    // Personal context only shows analyses not tied to an association
+    .filter(analysis => associationId || !analysis.associationId)
+    .sort((a, b) => b.analysisDate - a.analysisDate);
+};
+
+/**
+ * Gets the analyses linked to a harvest or extract, most recent first
+ */
+export const getBatchLabAnalyses = async (
+  sourceType: 'harvest' | 'extract',
+  sourceId: string,
+  userId: string,
+  associationId?: string
+): Promise<LabAnalysis[]> => {
+  const analyses = await getLabAnalysesForContext(userId, associationId);
+  return analyses.filter(analysis =>
+    (sourceType === 'harvest' ? analysis.harvestIds : analysis.extractIds).includes(sourceId)
+  );
+};
+
+/**
+ * Gets the COA status of a harvest or extract batch
+ */
+export const getBatchCoa = async (
+  sourceType: 'harvest' | 'extract',
+  sourceId: string,
+  userId: string,
+  associationId?: string
+): Promise<BatchCoa> => {
+  const analyses = await getBatchLabAnalyses(sourceType, sourceId, userId, associationId);
+  return getBatchCoaStatus(analyses);
+};
+
+/**
+ * Gets a lab analysis by ID
+ */
+export const getLabAnalysis = async (analysisId: string): Promise<LabAnalysis | null> => {
+  const docSnap = await db.collection(LAB_ANALYSES_COLLECTION).doc(analysisId).get();
+
+  if (docSnap.exists) {
+    return { id: docSnap.id, ...docSnap.data() } as LabAnalysis;
+  }
+  return null;
+};
+
+/**
+ * Points the tested extracts at their latest analysis and clears
+ * the reference on extracts that were unlinked from it
+ */
+const syncExtractLinks = async (
+  analysisId: string,
+  extractIds: string[],
+  previousExtractIds: string[] = []
+): Promise<void> => {
+  const batch = db.batch();
+
+  extractIds.forEach(extractId => {
+    batch.update(db.collection('extracts').doc(extractId), { labAnalysisId: analysisId });
+  });
+
+  const removedIds = previousExtractIds.filter(extractId => !extractIds.includes(extractId));
+  const removed = await Promise.all(removedIds.map(extractId => db.collection('extracts').doc(extractId).get()));
+  removed
+    .filter(docSnap => docSnap.exists && docSnap.data()?.labAnalysisId === analysisId)
+    .forEach(docSnap => {
+      batch.update(docSnap.ref, { labAnalysisId: firebase.firestore.FieldValue.delete() });
+    });
+
+  await batch.commit();
+};
+
+/**
+ * Creates a lab analysis and links it to its extracts
+ */
+export const createLabAnalysis = async (
+  analysisData: Omit<LabAnalysis, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<string> => {
+  if (!analysisData.userId) {
+    throw new Error('userId is required to create a lab analysis');
+  }
+  await assertPermission(analysisData.associationId, 'canManageHarvests');
+
+  if (!analysisData.labName.trim()) {
+    throw new Error('Lab name is required');
+  }
+  if (analysisData.harvestIds.length === 0 && analysisData.extractIds.length === 0) {
+    throw new Error('Link the analysis to at least one harvest or extract');
+  }
+
+  const now = Date.now();
+  const docRef = await db.collection(LAB_ANALYSES_COLLECTION).add(removeUndefinedValues({
+    ...cleanPanels(analysisData),
+    labName: analysisData.labName.trim(),
+    createdAt: now,
+    updatedAt: now,
+  }));
+
+  await syncExtractLinks(docRef.id, analysisData.extractIds);
+
+  console.log('[LabAnalyses] Created lab analysis:', docRef.id, analysisData.result);
+  return docRef.id;
+};
+
+/**
+ * Updates a lab analysis
+ */
+export const updateLabAnalysis = async (
+  analysisId: string,
+  data: Partial<Omit<LabAnalysis, 'id' | 'userId' | 'associationId' | 'createdAt'>>
+): Promise<void> => {
+  const analysis = await getLabAnalysis(analysisId);
+  if (!analysis) {
+    throw new Error('Lab analysis not found');
+  }
+  await assertPermission(analysis.associationId, 'canManageHarvests');
+
+  await db.collection(LAB_ANALYSES_COLLECTION).doc(analysisId).update(removeUndefinedValues({
+    ...cleanPanels(data),
+    updatedAt: Date.now(),
+  }));
+
+  if (data.extractIds) {
+    await syncExtractLinks(analysisId, data.extractIds, analysis.extractIds);
+  }
+};
+
+/**
+ * Deletes a lab analysis, its COA file and the references from its extracts
+ */
+export const deleteLabAnalysis = async (analysisId: string): Promise<void> => {
+  const analysis = await getLabAnalysis(analysisId);
+  if (!analysis) {
+    return;
+  }
+  await assertPermission(analysis.associationId, 'canManageHarvests');
+
+  await syncExtractLinks(analysisId, [], analysis.extractIds);
+  await db.collection(LAB_ANALYSES_COLLECTION).doc(analysisId).delete();
+
+  if (analysis.coaFile) {
+    try {
+      await storage.ref(analysis.coaFile.storagePath).delete();
+    } catch (error: any) {
+      if (error.code !== 'storage/object-not-found') {
+        console.error('[LabAnalyses] Error deleting COA file:', error);
+      }
+    }
+  }
+};
+
+// ==================== COA FILES ====================
+
+/**
+ * Uploads a picked COA (PDF or image) to storage
+ * @param localUri - Local URI from the document picker
+ * @param userId - Owner of the file (used in the storage path)
+ */
+export const uploadCoaFile = async (
+  localUri: string,
+  userId: string,
+  fileName: string,
+  contentType: string
+): Promise<CoaFile> => {
+  if (!userId) {
+    throw new Error('userId is required to upload a COA');
+  }
+
+  const response = await fetch(localUri);
+  const blob = await response.blob();
+
+  const safeName = fileName.replace(/[^\w.-]+/g, '_');
+  const storagePath = `${LAB_REPORTS_ROOT}/${userId}/${Date.now()}_${safeName}`;
+  const ref = storage.ref(storagePath);
+  await ref.put(blob, { contentType });
+  const url = await ref.getDownloadURL();
+
+  console.log('[LabAnalyses] Uploaded COA:', storagePath);
+
+  return { url, storagePath, fileName, contentType };
+};
+
+// ==================== DISTRIBUTION GATING ====================
+
+/**
+ * Validates that the batch of a new distribution has a valid passing COA.
+ * Throws CoaRequiredError unless an owner/admin override with a reason is provided.
+ * The override must be approved by the signed-in user.
+ * Returns the override (if one was needed) so it can be stored on the distribution.
+ */
+export const assertPassingCoa = async (
+  distributionData: Pick<Distribution, 'userId' | 'associationId' | 'harvestId' | 'extractId'>,
+  override?: Omit<CoaOverride, 'batchStatus'>
+): Promise<CoaOverride | undefined> => {
+  const sourceType = distributionData.extractId ? 'extract' : 'harvest';
+  const sourceId = distributionData.extractId || distributionData.harvestId;
+  if (!sourceId) {
+    return undefined;
+  }
+
+  const batch = await getBatchCoa(sourceType, sourceId, distributionData.userId, distributionData.associationId);
+  if (batch.status === 'pass') {
+    return undefined;
+  }
+
+  if (!override) {
+    throw new CoaRequiredError(batch, sourceType);
+  }
+  if (!override.reason.trim()) {
+    throw new Error('A reason is required to override the COA requirement');
+  }
+  if (override.approvedBy !== auth.currentUser?.uid) {
+    throw new Error('COA overrides must be approved by the signed-in user');
+  }
+  if (distributionData.associationId && !(await isOwnerOrAdmin(override.approvedBy, distributionData.associationId))) {
+    throw new Error('Only owners and admins can override the COA requirement');
+  }
+
+  console.log('[LabAnalyses] COA override approved by', override.approvedBy, 'for', sourceType, sourceId);
+
+  return {
+    ...override,
+    reason: override.reason.trim(),
+    batchStatus: batch.status,
+  };
+};
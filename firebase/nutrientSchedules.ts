@@ -0,0 +1,165 @@
+// Firebase CRUD operations for nutrient feed schedules
+import { db } from './firebaseConfig';
+import firebase from 'firebase/compat/app';
+import { assertPermission } from './associations';
+import { getPlantStages } from './firestore';
+import { NutrientSchedule, Plant, PlannedFeed, PlantLog } from '../types';
+import {
+  buildFeedPlanReference,
+  getScheduleWeek,
+  getStageWeek,
+  selectScheduleForPlant,
+  sortScheduleWeeks,
+} from '../utils/feedSchedules';
+import { removeUndefinedValues } from '../utils/firestoreData';
+
+// Collection name
+const NUTRIENT_SCHEDULES_COLLECTION = 'nutrientSchedules';
+
+// ==================== SCHEDULES ====================
+
+/**
+ * Gets the schedules of an association, or of a personal account when no association is given
+ */
+export const getNutrientSchedulesForContext = async (
+  userId: string,
+  associationId?: string
+): Promise<NutrientSchedule[]> => {
+  const query = associationId
+    ? db.collection(NUTRIENT_SCHEDULES_COLLECTION).where('associationId', '==', associationId)
+    : db.collection(NUTRIENT_SCHEDULES_COLLECTION).where('userId', '==', userId);
+
+  const snapshot = await query.get();
+
+  return snapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() } as NutrientSchedule))
+    // Personal context only shows schedules not tied to an association
+    .filter(schedule => associationId || !schedule.associationId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Gets a schedule by ID
+ */
+export const getNutrientSchedule = async (scheduleId: string): Promise<NutrientSchedule | null> => {
+  const docSnap = await db.collection(NUTRIENT_SCHEDULES_COLLECTION).doc(scheduleId).get();
+
+  if (docSnap.exists) {
+    return { id: docSnap.id, ...docSnap.data() } as NutrientSchedule;
+  }
+  return null;
+};
+
+/**
+ * Creates a schedule. Weeks are stored sorted by stage and week number.
+ */
+export const createNutrientSchedule = async (
+  scheduleData: Omit<NutrientSchedule, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<string> => {
+  await assertPermission(scheduleData.associationId, 'canManagePlants');
+
+  if (!scheduleData.name.trim()) {
+    throw new Error('Schedule name is required');
+  }
+
+  const now = Date.now();
+  const docRef = await db.collection(NUTRIENT_SCHEDULES_COLLECTION).add(removeUndefinedValues({
+    ...scheduleData,
+    name: scheduleData.name.trim(),
+    weeks: sortScheduleWeeks(scheduleData.weeks).map(week => removeUndefinedValues(week)),
+    createdAt: now,
+    updatedAt: now,
+  }));
+
+  console.log('[NutrientSchedules] Created schedule:', docRef.id);
+  return docRef.id;
+};
+
+/**
+ * Updates a schedule. Logs already pre-filled from it keep the plan they were created with.
+ * Passing seedGeneticId or environmentId as undefined detaches the schedule from it.
+ */
+export const updateNutrientSchedule = async (
+  scheduleId: string,
+  data: Partial<Omit<NutrientSchedule, 'id' | 'userId' | 'associationId' | 'createdAt'>>
+): Promise<void> => {
+  const schedule = await getNutrientSchedule(scheduleId);
+  if (!schedule) {
+    throw new Error('Schedule not found');
+  }
+  await assertPermission(schedule.associationId, 'canManagePlants');
+
+  const detached = (['seedGeneticId', 'environmentId'] as const)
+    .filter(key => key in data && data[key] === undefined);
+
+  await db.collection(NUTRIENT_SCHEDULES_COLLECTION).doc(scheduleId).update({
+    ...removeUndefinedValues({
+      ...data,
+      ...(data.weeks && {
+        weeks: sortScheduleWeeks(data.weeks).map(week => removeUndefinedValues(week)),
+      }),
+      updatedAt: Date.now(),
+    }),
+    ...Object.fromEntries(detached.map(key => [key, firebase.firestore.FieldValue.delete()])),
+  });
+};
+
+/**
+ * Deletes a schedule. Feed logs keep their plan snapshot.
+ */
+export const deleteNutrientSchedule = async (scheduleId: string): Promise<void> => {
+  const schedule = await getNutrientSchedule(scheduleId);
+  if (!schedule) {
+    return;
+  }
+  await assertPermission(schedule.associationId, 'canManagePlants');
+
+  await db.collection(NUTRIENT_SCHEDULES_COLLECTION).doc(scheduleId).delete();
+};
+
+// ==================== FEED PLANS ====================
+
+/**
+ * Planned feed for a plant today, from the schedule attached to its genetic or environment
+ * and the week of its current stage. Returns null when no schedule covers the plant's stage.
+ */
+export const getPlannedFeedForPlant = async (
+  plant: Plant,
+  schedules: NutrientSchedule[],
+  date: number = Date.now()
+): Promise<PlannedFeed | null> => {
+  const schedule = selectScheduleForPlant(schedules, plant);
+  if (!schedule) {
+    return null;
+  }
+
+  // Stages are returned newest first
+  const [currentStage] = await getPlantStages(plant.id);
+  const stage = currentStage?.name || plant.currentStage;
+  if (!stage) {
+    return null;
+  }
+
+  const stageWeek = getStageWeek(currentStage?.startDate ?? plant.startDate, date);
+  const week = getScheduleWeek(schedule, stage, stageWeek);
+  if (!week) {
+    return null;
+  }
+
+  return { schedule, week, reference: buildFeedPlanReference(schedule, week) };
+};
+
+/**
+ * Nutrient feed logs that were pre-filled from a schedule, for the drift report
+ */
+export const getScheduleFeedLogs = async (schedule: NutrientSchedule): Promise<PlantLog[]> => {
+  const query = schedule.associationId
+    ? db.collection('plantLogs').where('associationId', '==', schedule.associationId)
+    : db.collection('plantLogs').where('userId', '==', schedule.userId);
+
+  const snapshot = await query.where('logType', '==', 'nutrient_feed').get();
+
+  return snapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() } as PlantLog))
+    .filter(log => log.feedPlan?.scheduleId === schedule.id);
+};
@@ -0,0 +1,336 @@
+// Offline write queue: writes that cannot reach Firestore are persisted in
+// AsyncStorage and replayed when connectivity returns
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { auth, db } from './firebaseConfig';
+import { appendAuditEntries } from './auditLog';
+import { AuditEntryInput, QueuedDocumentWrite, QueuedWrite, SyncStatus } from '../types';
+
+const QUEUE_STORAGE_KEY = '@grow_manager_write_queue';
+
+// The web SDK holds offline writes in memory until the server answers, so an
+// unacknowledged write is treated as offline after this long
+const WRITE_TIMEOUT_MS = 8000;
+
+// Firestore error codes that mean "could not reach the server"
+const OFFLINE_ERROR_CODES = ['unavailable', 'deadline-exceeded'];
+
+/**
+ * Thrown when a queued update targets a document that changed on the server
+ * after the local edit was made.
+ */
+export class WriteConflictError extends Error {
+  code = 'write-conflict';
+  docPath: string;
+  serverData: Record<string, any>;
+
+  constructor(docPath: string, serverData: Record<string, any>) {
+    super(`${docPath} was changed on the server after this edit was made`);
+    this.name = 'WriteConflictError';
+    this.docPath = docPath;
+    this.serverData = serverData;
+  }
+}
+
+class WriteTimeoutError extends Error {
+  code = 'deadline-exceeded';
+
+  constructor() {
+    super('Write was not acknowledged by the server in time');
+    this.name = 'WriteTimeoutError';
+  }
+}
+
+export const isOfflineError = (error: any): boolean => {
+  if (!error) return false;
+  if (OFFLINE_ERROR_CODES.includes(error.code)) return true;
+  return /offline|network|failed to get document/i.test(error.message || '');
+};
+
+// ==================== STORAGE ====================
+
+let queueCache: QueuedWrite[] | null = null;
+let queueLock: Promise<unknown> = Promise.resolve();
+let syncing = false;
+let lastSyncedAt: number | undefined;
+
+const listeners = new Set<(status: SyncStatus) => void>();
+
+const loadQueue = async (): Promise<QueuedWrite[]> => {
+  if (queueCache) return queueCache;
+
+  try {
+    const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+    queueCache = stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('[OfflineQueue] Error reading queue:', error);
+    queueCache = [];
+  }
+  return queueCache!;
+};
+
+const saveQueue = async (queue: QueuedWrite[]): Promise<void> => {
+  queueCache = queue;
+  await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  notifyListeners();
+};
+
+/**
+ * Serializes queue mutations so concurrent writers never lose each other's entries.
+ */
+const withQueue = <T>(fn: (queue: QueuedWrite[]) => Promise<T>): Promise<T> => {
+  const run = queueLock.then(async () => fn(await loadQueue()));
+  queueLock = run.catch(() => undefined);
+  return run;
+};
+
+const getStatus = (queue: QueuedWrite[]): SyncStatus => {
+  const pendingCount = queue.filter(w => w.status === 'pending').length;
+  const failedCount = queue.length - pendingCount;
+
+  return {
+    state: syncing ? 'syncing' : failedCount > 0 ? 'error' : pendingCount > 0 ? 'pending' : 'synced',
+    pendingCount,
+    failedCount,
+    lastSyncedAt,
+  };
+};
+
+const notifyListeners = () => {
+  const status = getStatus(queueCache || []);
+  listeners.forEach(listener => listener(status));
+};
+
+/**
+ * Subscribes to sync status changes. The listener is called immediately with the current status.
+ */
+export const subscribeToSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+  listeners.add(listener);
+  loadQueue().then(queue => listener(getStatus(queue)));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getQueuedWrites = async (): Promise<QueuedWrite[]> => {
+  const queue = await loadQueue();
+  return [...queue].sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+// ==================== WRITING ====================
+
+/**
+ * Applies a group of document writes in one transaction.
+ * - A create ('set') whose document already exists is skipped: it already reached the server.
+ * - An update whose `updatedAt` already matches the server was already applied.
+ * - Otherwise, an update is a conflict when the server copy changed after `since`
+ *   (the document's updatedAt when the edit started, or the time it was queued).
+ */
+const applyWrites = async (
+  writes: QueuedDocumentWrite[],
+  since: number,
+  force = false
+): Promise<void> => {
+  await db.runTransaction(async (transaction) => {
+    const refs = writes.map(w => db.collection(w.collection).doc(w.docId));
+    const snapshots = await Promise.all(refs.map(ref => transaction.get(ref)));
+
+    const pending: { ref: typeof refs[number]; write: QueuedDocumentWrite }[] = [];
+
+    snapshots.forEach((snapshot, i) => {
+      const write = writes[i];
+      const docPath = `${write.collection}/${write.docId}`;
+
+      if (write.type === 'set') {
+        if (!snapshot.exists) {
+          pending.push({ ref: refs[i], write });
+        }
+        return;
+      }
+
+      if (!snapshot.exists) {
+        throw new Error(`${docPath} no longer exists`);
+      }
+
+      const serverData = snapshot.data() || {};
+      const serverUpdatedAt: number | undefined = serverData.updatedAt;
+
+      if (serverUpdatedAt !== undefined && serverUpdatedAt === write.data.updatedAt) {
+        return;
+      }
+      if (!force && serverUpdatedAt !== undefined && serverUpdatedAt > (write.baseUpdatedAt ?? since)) {
+        throw new WriteConflictError(docPath, serverData);
+      }
+      pending.push({ ref: refs[i], write });
+    });
+
+    pending.forEach(({ ref, write }) => {
+      if (write.type === 'set') {
+        transaction.set(ref, write.data);
+      } else {
+        transaction.update(ref, write.data);
+      }
+    });
+  });
+};
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new WriteTimeoutError()), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+const enqueueWrite = async (
+  description: string,
+  writes: QueuedDocumentWrite[],
+  auditEntries: AuditEntryInput[],
+  error: any
+): Promise<void> => {
+  const now = Date.now();
+
+  await withQueue(async (queue) => {
+    await saveQueue([
+      ...queue,
+      {
+        id: `${now}_${Math.random().toString(36).substring(2, 10)}`,
+        userId: auth.currentUser?.uid || '',
+        description,
+        writes,
+        ...(auditEntries.length > 0 && { auditEntries }),
+        status: 'pending',
+        attempts: 1,
+        lastError: error?.message,
+        queuedAt: now,
+        lastAttemptAt: now,
+      },
+    ]);
+  });
+
+  console.log('[OfflineQueue] Queued write:', description);
+};
+
+/**
+ * Writes to Firestore, or queues the write locally if the device is offline.
+ * Documents must have pre-allocated ids so a replay never creates duplicates.
+ * Non-network errors (e.g. permission denied, conflicts) are thrown as usual.
+ * Audit entries are appended once the write reaches the server, so a queued
+ * write carries its entries and never waits on the audit chain while offline.
+ * @returns 'written' if the server acknowledged the write, 'queued' otherwise
+ */
+export const writeOrQueue = async (
+  description: string,
+  writes: QueuedDocumentWrite[],
+  auditEntries: AuditEntryInput[] = []
+): Promise<'written' | 'queued'> => {
+  try {
+    await withTimeout(applyWrites(writes, Date.now()), WRITE_TIMEOUT_MS);
+  } catch (error: any) {
+    if (!isOfflineError(error)) {
+      throw error;
+    }
+    await enqueueWrite(description, writes, auditEntries, error);
+    return 'queued';
+  }
+
+  await appendAuditEntries(auditEntries);
+  return 'written';
+};
+
+// ==================== REPLAY ====================
+
+const replayWrite = async (write: QueuedWrite, force = false): Promise<QueuedWrite | null> => {
+  const attemptedAt = Date.now();
+
+  try {
+    await withTimeout(applyWrites(write.writes, write.queuedAt, force), WRITE_TIMEOUT_MS);
+    console.log('[OfflineQueue] Synced:', write.description);
+  } catch (error: any) {
+    const base = { ...write, attempts: write.attempts + 1, lastAttemptAt: attemptedAt, lastError: error?.message };
+
+    if (isOfflineError(error)) {
+      return { ...base, status: 'pending' };
+    }
+    if (error instanceof WriteConflictError) {
+      console.warn('[OfflineQueue] Conflict:', write.description, error.docPath);
+      return { ...base, status: 'conflict', serverData: error.serverData };
+    }
+    console.error('[OfflineQueue] Failed:', write.description, error);
+    return { ...base, status: 'failed' };
+  }
+
+  await appendAuditEntries(write.auditEntries || []);
+  return null;
+};
+
+/**
+ * Replays pending writes in the order they were queued.
+ * Stops at the first network failure (still offline); failed and
+ * conflicting writes are left for the user to resolve.
+ */
+export const processQueue = async (): Promise<void> => {
+  if (syncing) return;
+
+  const queue = await loadQueue();
+  if (!queue.some(w => w.status === 'pending')) return;
+
+  syncing = true;
+  notifyListeners();
+
+  try {
+    for (const write of await getQueuedWrites()) {
+      if (write.status !== 'pending') continue;
+
+      const result = await replayWrite(write);
+
+      await withQueue(async (current) => {
+        await saveQueue(result
+          ? current.map(w => (w.id === write.id ? result : w))
+          : current.filter(w => w.id !== write.id));
+      });
+
+      if (result?.status === 'pending') {
+        break;
+      }
+    }
+
+    const remaining = await loadQueue();
+    if (!remaining.some(w => w.status === 'pending')) {
+      lastSyncedAt = Date.now();
+    }
+  } finally {
+    syncing = false;
+    notifyListeners();
+  }
+};
+
+/**
+ * Retries a failed or conflicting write. With `force`, a conflict is resolved
+ * by overwriting the server copy with the local edit.
+ */
+export const retryQueuedWrite = async (writeId: string, force = false): Promise<QueuedWrite | null> => {
+  const write = (await loadQueue()).find(w => w.id === writeId);
+  if (!write) {
+    throw new Error('Queued write not found');
+  }
+
+  const result = await replayWrite(write, force);
+
+  await withQueue(async (current) => {
+    await saveQueue(result
+      ? current.map(w => (w.id === writeId ? result : w))
+      : current.filter(w => w.id !== writeId));
+  });
+
+  return result;
+};
+
+/**
+ * Drops a queued write without applying it (e.g. keeping the server version of a conflict).
+ */
+export const discardQueuedWrite = async (writeId: string): Promise<void> => {
+  await withQueue(async (queue) => {
+    await saveQueue(queue.filter(w => w.id !== writeId));
+  });
+  console.log('[OfflineQueue] Discarded write:', writeId);
+};
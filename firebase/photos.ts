@@ -0,0 +1,107 @@
+// Photo uploads to Firebase Storage (resized image plus thumbnail) and plant photo timelines
+import { storage } from './firebaseConfig';
+import { getPlantLogs, getPlantHarvests } from './firestore';
+import { processImage } from '../utils/imageProcessing';
+import { Plant, PhotoFolder, PlantPhotoEntry, UploadedPhoto } from '../types';
+
+// Root folder; photos are stored under photos/{userId}/{folder}/
+const PHOTOS_ROOT = 'photos';
+
+const uploadFile = async (localUri: string, storagePath: string): Promise<string> => {
+  const response = await fetch(localUri);
+  const blob = await response.blob();
+
+  const ref = storage.ref(storagePath);
+  await ref.put(blob, { contentType: 'image/jpeg' });
+  return ref.getDownloadURL();
+};
+
+/**
+ * Resizes a picked photo, generates its thumbnail and uploads both.
+ * @param localUri - Local URI from the camera or gallery
+ * @param userId - Owner of the photo (used in the storage path)
+ * @param folder - Which kind of record the photo belongs to
+ */
+export const uploadPhoto = async (
+  localUri: string,
+  userId: string,
+  folder: PhotoFolder
+): Promise<UploadedPhoto> => {
+  if (!userId) {
+    throw new Error('userId is required to upload a photo');
+  }
+
+  const processed = await processImage(localUri);
+
+  const fileId = `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  const storagePath = `${PHOTOS_ROOT}/${userId}/${folder}/${fileId}.jpg`;
+  const thumbnailStoragePath = `${PHOTOS_ROOT}/${userId}/${folder}/${fileId}_thumb.jpg`;
+
+  const [url, thumbnailUrl] = await Promise.all([
+    uploadFile(processed.imageUri, storagePath),
+    uploadFile(processed.thumbnailUri, thumbnailStoragePath),
+  ]);
+
+  console.log('[Photos] Uploaded photo:', storagePath);
+
+  return {
+    url,
+    thumbnailUrl,
+    storagePath,
+    thumbnailStoragePath,
+    width: processed.width,
+    height: processed.height,
+  };
+};
+
+/**
+ * Deletes an uploaded photo by its download URL. Missing files are ignored.
+ */
+export const deletePhoto = async (photoUrl: string): Promise<void> => {
+  try {
+    await storage.refFromURL(photoUrl).delete();
+    console.log('[Photos] Deleted photo:', photoUrl);
+  } catch (error: any) {
+    if (error?.code !== 'storage/object-not-found') {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Builds a plant's photo timeline from its log and harvest photos, newest first.
+ */
+export const getPlantPhotoTimeline = async (plant: Plant): Promise<PlantPhotoEntry[]> => {
+  const [logs, harvests] = await Promise.all([
+    getPlantLogs(plant.id),
+    getPlantHarvests(plant.id, plant),
+  ]);
+
+  const entries: PlantPhotoEntry[] = [
+    ...logs
+      .filter(log => log.photoUrl)
+      .map(log => ({
+        id: `log_${log.id}`,
+        source: 'log' as const,
+        sourceId: log.id,
+        date: log.date,
+        photoUrl: log.photoUrl!,
+        thumbnailUrl: log.photoThumbnailUrl,
+        logType: log.logType,
+        caption: log.notes,
+      })),
+    ...harvests
+      .filter(harvest => harvest.photoUrl)
+      .map(harvest => ({
+        id: `harvest_${harvest.id}`,
+        source: 'harvest' as const,
+        sourceId: harvest.id,
+        date: harvest.harvestDate,
+        photoUrl: harvest.photoUrl!,
+        thumbnailUrl: harvest.photoThumbnailUrl,
+        caption: harvest.controlNumber,
+      })),
+  ];
+
+  return entries.sort((a, b) => b.date - a.date);
+};
@@ -0,0 +1,316 @@
+// Firebase operations for batch recalls: impact tracing, inventory freeze and patient contact tracking
+import firebase from 'firebase/compat/app';
+import { db } from './firebaseConfig';
+import { assertPermission } from './associations';
+import {
+  getExtract,
+  getExtractDistributions,
+  getHarvest,
+  getHarvestDistributions,
+  getHarvestExtracts,
+  getPatient,
+} from './firestore';
+import { getExtractAvailable, getHarvestAvailableGrams } from './inventory';
+import {
+  Distribution,
+  Extract,
+  Harvest,
+  InventorySourceType,
+  Recall,
+  RecallBatch,
+  RecallContactStatus,
+  RecallPatient,
+} from '../types';
+import { removeUndefinedValues } from '../utils/firestoreData';
+
+// Collection name
+const RECALLS_COLLECTION = 'recalls';
+
+/**
+ * Batches and patients affected by a recall of a harvest or extract
+ */
+export interface RecallImpact {
+  batches: RecallBatch[];
+  patients: RecallPatient[];
+  totalDistributedGrams: number;
+  totalDistributedMl: number;
+}
+
+const getSourceCollection = (sourceType: InventorySourceType) =>
+  sourceType === 'harvest' ? 'harvests' : 'extracts';
+
+const toRecallBatch = (sourceType: InventorySourceType, source: Harvest | Extract): RecallBatch => {
+  if (sourceType === 'harvest') {
+    return {
+      sourceType,
+      sourceId: source.id,
+      controlNumber: source.controlNumber,
+      frozenGrams: Math.max(0, getHarvestAvailableGrams(source as Harvest)),
+    };
+  }
+  const available = getExtractAvailable(source as Extract);
+  return removeUndefinedValues({
+    sourceType,
+    sourceId: source.id,
+    controlNumber: source.controlNumber,
+    frozenGrams: available.grams !== undefined ? Math.max(0, available.grams) : undefined,
+    frozenMl: available.ml !== undefined ? Math.max(0, available.ml) : undefined,
+  }) as RecallBatch;
+};
+
+/**
+ * Groups distributions by patient, summing the quantities each patient received
+ */
+const groupByPatient = async (distributions: Distribution[]): Promise<RecallPatient[]> => {
+  const byPatient = new Map<string, Distribution[]>();
+  distributions.forEach(distribution => {
+    byPatient.set(distribution.patientId, [...(byPatient.get(distribution.patientId) || []), distribution]);
+  });
+
+  const patients = await Promise.all(
+    Array.from(byPatient.entries()).map(async ([patientId, patientDistributions]) => {
+      const patient = await getPatient(patientId);
+      const sorted = [...patientDistributions].sort((a, b) => b.distributionDate - a.distributionDate);
+
+      return removeUndefinedValues({
+        patientId,
+        patientName: patient?.name || sorted[0].patientName,
+        phone: patient?.phone,
+        email: patient?.email,
+        distributionIds: sorted.map(d => d.id),
+        distributionNumbers: sorted.map(d => d.distributionNumber),
+        quantityGrams: sorted.reduce((sum, d) => sum + (d.quantityGrams || 0), 0),
+        quantityMl: sorted.reduce((sum, d) => sum + (d.quantityMl || 0), 0),
+        quantityUnits: sorted.reduce((sum, d) => sum + (d.quantityUnits || 0), 0),
+        lastDistributionDate: sorted[0].distributionDate,
+        contactStatus: 'pending' as RecallContactStatus,
+      }) as RecallPatient;
+    })
+  );
+
+  return patients.sort((a, b) => a.patientName.localeCompare(b.patientName));
+};
+
+// ==================== IMPACT ====================
+
+/**
+ * Traces every batch and patient reached by a harvest or extract.
+ * A recalled harvest also covers the extracts made from it and their distributions.
+ */
+export const getRecallImpact = async (
+  sourceType: InventorySourceType,
+  sourceId: string
+): Promise<RecallImpact> => {
+  const batches: RecallBatch[] = [];
+  let distributions: Distribution[];
+
+  if (sourceType === 'harvest') {
+    const harvest = await getHarvest(sourceId);
+    if (!harvest) {
+      throw new Error('Harvest not found');
+    }
+    const extracts = await getHarvestExtracts(sourceId, harvest);
+    const extractDistributions = await Promise.all(extracts.map(extract => getExtractDistributions(extract.id, extract)));
+
+    batches.push(toRecallBatch('harvest', harvest), ...extracts.map(extract => toRecallBatch('extract', extract)));
+    distributions = [...(await getHarvestDistributions(sourceId, harvest)), ...extractDistributions.flat()];
+  } else {
+    const extract = await getExtract(sourceId);
+    if (!extract) {
+      throw new Error('Extract not found');
+    }
+    batches.push(toRecallBatch('extract', extract));
+    distributions = await getExtractDistributions(sourceId, extract);
+  }
+
+  return {
+    batches,
+    patients: await groupByPatient(distributions),
+    totalDistributedGrams: distributions.reduce((sum, d) => sum + (d.quantityGrams || 0), 0),
+    totalDistributedMl: distributions.reduce((sum, d) => sum + (d.quantityMl || 0), 0),
+  };
+};
+
+// ==================== RECALLS ====================
+
+/**
+ * Gets the recalls of an association, or of a personal account when no association is given
+ */
+export const getRecallsForContext = async (
+  userId: string,
+  associationId?: string
+): Promise<Recall[]> => {
+  const query = associationId
+    ? db.collection(RECALLS_COLLECTION).where('associationId', '==', associationId)
+    : db.collection(RECALLS_COLLECTION).where('userId', '==', userId);
+
+  const snapshot = await query.get();
+
+  return snapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() } as Recall))
+    // Personal context only shows recalls not tied to an association
+    .filter(recall => associationId || !recall.associationId)
+    .sort((a, b) => b.openedAt - a.openedAt);
+};
+
+/**
+ * Gets a recall by ID
+ */
+export const getRecall = async (recallId: string): Promise<Recall | null> => {
+  const docSnap = await db.collection(RECALLS_COLLECTION).doc(recallId).get();
+
+  if (docSnap.exists) {
+    return { id: docSnap.id, ...docSnap.data() } as Recall;
+  }
+  return null;
+};
+
+/**
+ * Opens a recall on a harvest or extract.
+ * Traces the affected patients and freezes the remaining stock of every batch
+ * involved, so it can no longer be distributed or extracted (only disposed of).
+ */
+export const openRecall = async (
+  sourceType: InventorySourceType,
+  sourceId: string,
+  reason: string,
+  userId: string,
+  associationId?: string
+): Promise<string> => {
+  if (!userId) {
+    throw new Error('userId is required to open a recall');
+  }
+  await assertPermission(associationId, 'canManageDistributions');
+
+  if (!reason.trim()) {
+    throw new Error('A reason is required to open a recall');
+  }
+
+  const impact = await getRecallImpact(sourceType, sourceId);
+  const recalled = impact.batches[0];
+  const docRef = db.collection(RECALLS_COLLECTION).doc();
+
+  await db.runTransaction(async (transaction) => {
+    const refs = impact.batches.map(batch =>
+      db.collection(getSourceCollection(batch.sourceType)).doc(batch.sourceId)
+    );
+    const snaps = await Promise.all(refs.map(ref => transaction.get(ref)));
+
+    snaps.forEach((snap, index) => {
+      if (!snap.exists) {
+        throw new Error(`Batch ${impact.batches[index].controlNumber} not found`);
+      }
+      if (snap.data()?.recallId) {
+        throw new Error(`Batch ${impact.batches[index].controlNumber} is already under an open recall`);
+      }
+    });
+
+    const now = Date.now();
+    const recallData: Omit<Recall, 'id'> = {
+      userId,
+      associationId,
+      sourceType,
+      sourceId,
+      controlNumber: recalled.controlNumber,
+      reason: reason.trim(),
+      status: 'open',
+      ...impact,
+      openedAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    transaction.set(docRef, removeUndefinedValues(recallData));
+    refs.forEach(ref => transaction.update(ref, { recallId: docRef.id }));
+  });
+
+  console.log('[Recalls] Opened recall:', docRef.id, recalled.controlNumber, `${impact.patients.length} patients`);
+  return docRef.id;
+};
+
+/**
+ * Records the outcome of contacting a patient about a recall
+ */
+export const updateRecallPatientContact = async (
+  recallId: string,
+  patientId: string,
+  contact: { contactStatus: RecallContactStatus; contactNotes?: string },
+  userId: string
+): Promise<void> => {
+  const recall = await getRecall(recallId);
+  if (!recall) {
+    throw new Error('Recall not found');
+  }
+  await assertPermission(recall.associationId, 'canManageDistributions');
+
+  const ref = db.collection(RECALLS_COLLECTION).doc(recallId);
+
+  // Read-modify-write so concurrent updates to other patients are not lost
+  await db.runTransaction(async (transaction) => {
+    const snap = await transaction.get(ref);
+    const current = { id: snap.id, ...snap.data() } as Recall;
+    if (current.status !== 'open') {
+      throw new Error('This recall is closed');
+    }
+    if (!current.patients.some(patient => patient.patientId === patientId)) {
+      throw new Error('Patient is not part of this recall');
+    }
+
+    const now = Date.now();
+    const patients = current.patients.map(patient => {
+      if (patient.patientId !== patientId) return patient;
+      return removeUndefinedValues({
+        ...patient,
+        contactStatus: contact.contactStatus,
+        contactedAt: contact.contactStatus === 'pending' ? undefined : now,
+        contactedBy: contact.contactStatus === 'pending' ? undefined : userId,
+        contactNotes: contact.contactNotes?.trim() || undefined,
+      }) as RecallPatient;
+    });
+
+    transaction.update(ref, { patients, updatedAt: now });
+  });
+};
+
+/**
+ * Closes a recall and releases the inventory freeze on its batches.
+ * Batches frozen by a later recall keep that freeze.
+ */
+export const closeRecall = async (
+  recallId: string,
+  userId: string,
+  closingNotes?: string
+): Promise<void> => {
+  const recall = await getRecall(recallId);
+  if (!recall) {
+    throw new Error('Recall not found');
+  }
+  await assertPermission(recall.associationId, 'canManageDistributions');
+
+  if (recall.status === 'closed') {
+    return;
+  }
+
+  await db.runTransaction(async (transaction) => {
+    const refs = recall.batches.map(batch =>
+      db.collection(getSourceCollection(batch.sourceType)).doc(batch.sourceId)
+    );
+    const snaps = await Promise.all(refs.map(ref => transaction.get(ref)));
+
+    snaps
+      .filter(snap => snap.exists && snap.data()?.recallId === recallId)
+      .forEach(snap => {
+        transaction.update(snap.ref, { recallId: firebase.firestore.FieldValue.delete() });
+      });
+
+    const now = Date.now();
+    transaction.update(db.collection(RECALLS_COLLECTION).doc(recallId), removeUndefinedValues({
+      status: 'closed',
+      closedAt: now,
+      closedBy: userId,
+      closingNotes: closingNotes?.trim() || undefined,
+      updatedAt: now,
+    }));
+  });
+
+  console.log('[Recalls] Closed recall:', recallId);
+};
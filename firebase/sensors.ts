@@ -0,0 +1,120 @@
+// Firebase CRUD operations for sensor-to-environment mappings
+import { db } from './firebaseConfig';
+import { assertPermission } from './associations';
+import { Sensor } from '../types';
+import { removeUndefinedValues } from '../utils/firestoreData';
+
+// Collection name
+const SENSORS_COLLECTION = 'sensors';
+
+/**
+ * Gets the sensors of an association, or of a personal account when no association is given
+ */
+export const getSensorsForContext = async (
+  userId: string,
+  associationId?: string
+): Promise<Sensor[]> => {
+  const query = associationId
+    ? db.collection(SENSORS_COLLECTION).where('associationId', '==', associationId)
+    : db.collection(SENSORS_COLLECTION).where('userId', '==', userId);
+
+  const snapshot = await query.get();
+
+  return snapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() } as Sensor))
+    // Personal context only shows sensors not tied to an association
+    .filter(sensor => associationId || !sensor.associationId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Gets a sensor mapping by ID
+ */
+export const getSensor = async (sensorDocId: string): Promise<Sensor | null> => {
+  const docSnap = await db.collection(SENSORS_COLLECTION).doc(sensorDocId).get();
+
+  if (docSnap.exists) {
+    return { id: docSnap.id, ...docSnap.data() } as Sensor;
+  }
+  return null;
+};
+
+/**
+ * Maps a bridge sensor id to an environment.
+ * A sensor id can only be mapped once per account or association.
+ */
+export const createSensor = async (
+  sensorData: Omit<Sensor, 'id' | 'createdAt' | 'updatedAt' | 'lastReadingAt' | 'lastValue'>
+): Promise<string> => {
+  await assertPermission(sensorData.associationId, 'canManagePlants');
+
+  const sensorId = sensorData.sensorId.trim();
+  if (!sensorId) {
+    throw new Error('Sensor ID is required');
+  }
+
+  const existing = await getSensorsForContext(sensorData.userId, sensorData.associationId);
+  if (existing.some(sensor => sensor.sensorId === sensorId)) {
+    throw new Error(`Sensor "${sensorId}" is already mapped`);
+  }
+
+  const now = Date.now();
+  const docRef = await db.collection(SENSORS_COLLECTION).add(removeUndefinedValues({
+    ...sensorData,
+    sensorId,
+    createdAt: now,
+    updatedAt: now,
+  }));
+
+  console.log('[Sensors] Created sensor mapping:', docRef.id, sensorId);
+  return docRef.id;
+};
+
+/**
+ * Updates a sensor mapping
+ */
+export const updateSensor = async (
+  sensorDocId: string,
+  data: Partial<Omit<Sensor, 'id' | 'userId' | 'associationId' | 'createdAt'>>
+): Promise<void> => {
+  const sensor = await getSensor(sensorDocId);
+  if (!sensor) {
+    throw new Error('Sensor not found');
+  }
+  await assertPermission(sensor.associationId, 'canManagePlants');
+
+  await db.collection(SENSORS_COLLECTION).doc(sensorDocId).update(removeUndefinedValues({
+    ...data,
+    updatedAt: Date.now(),
+  }));
+};
+
+/**
+ * Deletes a sensor mapping. Records already ingested from it are kept.
+ */
+export const deleteSensor = async (sensorDocId: string): Promise<void> => {
+  const sensor = await getSensor(sensorDocId);
+  if (!sensor) {
+    return;
+  }
+  await assertPermission(sensor.associationId, 'canManagePlants');
+
+  await db.collection(SENSORS_COLLECTION).doc(sensorDocId).delete();
+};
+
+/**
+ * Stores the latest value seen from each sensor, in one batch
+ */
+export const recordSensorLastReadings = async (
+  updates: { id: string; lastReadingAt: number; lastValue: number }[]
+): Promise<void> => {
+  if (updates.length === 0) {
+    return;
+  }
+
+  const batch = db.batch();
+  updates.forEach(({ id, lastReadingAt, lastValue }) => {
+    batch.update(db.collection(SENSORS_COLLECTION).doc(id), { lastReadingAt, lastValue });
+  });
+  await batch.commit();
+};
@@ -0,0 +1,330 @@
+// Transactional control number sequences per association (or personal account), entity type and year
+import firebase from 'firebase/compat/app';
+import { db } from './firebaseConfig';
+import {
+  Association,
+  ControlNumberEntityType,
+  ControlNumberFormats,
+  SequenceAllocation,
+  SequenceCounter,
+  SequenceGapReport,
+} from '../types';
+import {
+  DEFAULT_CONTROL_NUMBER_FORMATS,
+  findSequenceGaps,
+  formatControlNumber,
+  getCurrentYear,
+  validateControlNumberFormat,
+} from '../utils/controlNumber';
+import { removeUndefinedValues, whereInScope } from '../utils/firestoreData';
+
+// Collection names
+const SEQUENCES_COLLECTION = 'sequences';
+const ALLOCATIONS_SUBCOLLECTION = 'allocations';
+const ASSOCIATIONS_COLLECTION = 'associations';
+
+type Transaction = firebase.firestore.Transaction;
+
+// Clones are numbered from the plant sequence so plant numbers never collide
+const SEQUENCE_KEYS: Record<ControlNumberEntityType, ControlNumberEntityType> = {
+  plant: 'plant',
+  clone: 'plant',
+  harvest: 'harvest',
+  extract: 'extract',
+  distribution: 'distribution',
+  order: 'order',
+};
+
+// Association total counter kept in step with each allocation
+const ASSOCIATION_COUNTER_FIELDS: Record<ControlNumberEntityType, keyof Association> = {
+  plant: 'plantCounter',
+  clone: 'plantCounter',
+  harvest: 'harvestCounter',
+  extract: 'extractCounter',
+  distribution: 'distributionCounter',
+  order: 'orderCounter',
+};
+
+// Collection holding the numbered entities (used for gap detection)
+const ENTITY_COLLECTIONS: Record<ControlNumberEntityType, string> = {
+  plant: 'plants',
+  clone: 'plants',
+  harvest: 'harvests',
+  extract: 'extracts',
+  distribution: 'distributions',
+  order: 'orders',
+};
+
+// ==================== UTILITIES ====================
+
+export interface SequenceScope {
+  userId: string;
+  associationId?: string;
+}
+
+/**
+ * Association records share one sequence; personal records get one per user.
+ */
+export const getSequenceScopeKey = (scope: SequenceScope): string => {
+  return scope.associationId ? `assoc_${scope.associationId}` : `user_${scope.userId}`;
+};
+
+export const getSequenceId = (
+  scope: SequenceScope,
+  entityType: ControlNumberEntityType,
+  year: number
+): string => {
+  return `${getSequenceScopeKey(scope)}_${SEQUENCE_KEYS[entityType]}_${year}`;
+};
+
+// Allocation doc ids are zero-padded so they sort by sequence
+const getAllocationId = (sequence: number): string => String(sequence).padStart(8, '0');
+
+const getFormatForEntity = (
+  formats: ControlNumberFormats | undefined,
+  entityType: ControlNumberEntityType
+): string => {
+  const custom = formats?.[entityType];
+  if (custom && !validateControlNumberFormat(custom)) {
+    return custom;
+  }
+  return DEFAULT_CONTROL_NUMBER_FORMATS[entityType];
+};
+
+// ==================== ALLOCATION ====================
+
+export interface ControlNumberRequest {
+  entityType: ControlNumberEntityType;
+  count?: number; // Defaults to 1
+  environmentCode?: string; // Value for the {ENV} token
+}
+
+export interface SequenceReservation {
+  controlNumbers: string[];
+  sequences: number[];
+  /**
+   * Writes the counter, allocation records and association total.
+   * Must be called after every other read in the transaction.
+   */
+  commit: (entityIds: string[]) => void;
+}
+
+/**
+ * Reserves the next control number(s) inside a transaction.
+ * Only reads; nothing is written until `commit` is called with the ids of
+ * the entities being created in the same transaction, so a failed create
+ * never consumes a sequence value.
+ */
+export const reserveControlNumbers = async (
+  transaction: Transaction,
+  scope: SequenceScope,
+  request: ControlNumberRequest
+): Promise<SequenceReservation> => {
+  const count = request.count ?? 1;
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error('Control number count must be a positive integer');
+  }
+
+  const now = new Date();
+  const year = now.getFullYear();
+  const counterRef = db.collection(SEQUENCES_COLLECTION).doc(getSequenceId(scope, request.entityType, year));
+  const associationRef = scope.associationId
+    ? db.collection(ASSOCIATIONS_COLLECTION).doc(scope.associationId)
+    : null;
+
+  const counterDoc = await transaction.get(counterRef);
+  const associationDoc = associationRef ? await transaction.get(associationRef) : null;
+
+  if (associationDoc && !associationDoc.exists) {
+    throw new Error('Association not found');
+  }
+
+  const format = getFormatForEntity(
+    (associationDoc?.data() as Association | undefined)?.controlNumberFormats,
+    request.entityType
+  );
+  const lastValue: number = counterDoc.exists ? counterDoc.data()?.lastValue || 0 : 0;
+
+  const sequences = Array.from({ length: count }, (_, i) => lastValue + 1 + i);
+  const controlNumbers = sequences.map(sequence =>
+    formatControlNumber(format, { sequence, date: now, environmentCode: request.environmentCode })
+  );
+
+  const commit = (entityIds: string[]) => {
+    if (entityIds.length !== count) {
+      throw new Error(`Expected ${count} entity ids, got ${entityIds.length}`);
+    }
+
+    const timestamp = now.getTime();
+
+    transaction.set(counterRef, removeUndefinedValues({
+      scopeKey: getSequenceScopeKey(scope),
+      associationId: scope.associationId,
+      userId: scope.associationId ? undefined : scope.userId,
+      entityType: SEQUENCE_KEYS[request.entityType],
+      year,
+      lastValue: lastValue + count,
+      updatedAt: timestamp,
+    }), { merge: true });
+
+    sequences.forEach((sequence, i) => {
+      const allocation: SequenceAllocation = {
+        sequence,
+        controlNumber: controlNumbers[i],
+        entityType: request.entityType,
+        entityId: entityIds[i],
+        allocatedBy: scope.userId,
+        allocatedAt: timestamp,
+      };
+      transaction.set(counterRef.collection(ALLOCATIONS_SUBCOLLECTION).doc(getAllocationId(sequence)), allocation);
+    });
+
+    if (associationRef) {
+      transaction.update(associationRef, {
+        [ASSOCIATION_COUNTER_FIELDS[request.entityType]]: firebase.firestore.FieldValue.increment(count),
+        updatedAt: timestamp,
+      });
+    }
+  };
+
+  return { controlNumbers, sequences, commit };
+};
+
+/**
+ * Reserves a single control number inside a transaction.
+ */
+export const reserveControlNumber = async (
+  transaction: Transaction,
+  scope: SequenceScope,
+  request: Omit<ControlNumberRequest, 'count'>
+): Promise<{ controlNumber: string; sequence: number; commit: (entityId: string) => void }> => {
+  const reservation = await reserveControlNumbers(transaction, scope, { ...request, count: 1 });
+  return {
+    controlNumber: reservation.controlNumbers[0],
+    sequence: reservation.sequences[0],
+    commit: (entityId: string) => reservation.commit([entityId]),
+  };
+};
+
+/**
+ * Shows what the next control number would look like, without reserving it.
+ * The real number may differ if another device allocates first.
+ */
+export const previewNextControlNumber = async (
+  scope: SequenceScope,
+  entityType: ControlNumberEntityType,
+  environmentCode?: string
+): Promise<string> => {
+  const [counterDoc, formats] = await Promise.all([
+    db.collection(SEQUENCES_COLLECTION).doc(getSequenceId(scope, entityType, getCurrentYear())).get(),
+    scope.associationId ? getControlNumberFormats(scope.associationId) : Promise.resolve(DEFAULT_CONTROL_NUMBER_FORMATS),
+  ]);
+
+  const lastValue: number = counterDoc.exists ? counterDoc.data()?.lastValue || 0 : 0;
+  return formatControlNumber(formats[entityType], { sequence: lastValue + 1, environmentCode });
+};
+
+// ==================== FORMATS ====================
+
+/**
+ * Gets the effective control number formats for an association (defaults merged with overrides).
+ */
+export const getControlNumberFormats = async (
+  associationId: string
+): Promise<Record<ControlNumberEntityType, string>> => {
+  const docSnap = await db.collection(ASSOCIATIONS_COLLECTION).doc(associationId).get();
+  const overrides = (docSnap.data() as Association | undefined)?.controlNumberFormats;
+
+  return (Object.keys(DEFAULT_CONTROL_NUMBER_FORMATS) as ControlNumberEntityType[]).reduce((formats, type) => {
+    formats[type] = getFormatForEntity(overrides, type);
+    return formats;
+  }, {} as Record<ControlNumberEntityType, string>);
+};
+
+/**
+ * Saves control number format overrides for an association.
+ * Formats equal to the default (or empty) are stored as "no override".
+ */
+export const updateControlNumberFormats = async (
+  associationId: string,
+  formats: ControlNumberFormats
+): Promise<void> => {
+  const overrides: ControlNumberFormats = {};
+
+  for (const [type, value] of Object.entries(formats) as [ControlNumberEntityType, string | undefined][]) {
+    const template = value?.trim().toUpperCase();
+    if (!template || template === DEFAULT_CONTROL_NUMBER_FORMATS[type]) {
+      continue;
+    }
+
+    const error = validateControlNumberFormat(template);
+    if (error) {
+      throw new Error(`Invalid ${type} format: ${error}`);
+    }
+    overrides[type] = template;
+  }
+
+  await db.collection(ASSOCIATIONS_COLLECTION).doc(associationId).update({
+    controlNumberFormats: overrides,
+    updatedAt: Date.now(),
+  });
+
+  console.log('[Sequences] Updated control number formats for association:', associationId);
+};
+
+// ==================== GAP DETECTION ====================
+
+/**
+ * Lists sequence counters for a scope, newest year first.
+ * Filters on the association or owner too, since the rules can't check access from scopeKey.
+ */
+export const getSequenceCounters = async (scope: SequenceScope): Promise<SequenceCounter[]> => {
+  const querySnapshot = await whereInScope(db.collection(SEQUENCES_COLLECTION), scope)
+    .where('scopeKey', '==', getSequenceScopeKey(scope))
+    .get();
+
+  const counters = querySnapshot.docs.map(doc => ({
+    id: doc.id,
+    ...doc.data(),
+  } as SequenceCounter));
+
+  // Sort in memory to avoid requiring a composite index
+  return counters.sort((a, b) => b.year - a.year || a.entityType.localeCompare(b.entityType));
+};
+
+/**
+ * Checks a sequence for gaps: values that were counted but never recorded,
+ * and allocations whose entity has since been deleted.
+ */
+export const detectSequenceGaps = async (counterId: string): Promise<SequenceGapReport> => {
+  const counterRef = db.collection(SEQUENCES_COLLECTION).doc(counterId);
+  const counterDoc = await counterRef.get();
+
+  if (!counterDoc.exists) {
+    throw new Error('Sequence not found');
+  }
+
+  const counter = { id: counterDoc.id, ...counterDoc.data() } as SequenceCounter;
+
+  const [allocationsSnapshot, entitiesSnapshot] = await Promise.all([
+    counterRef.collection(ALLOCATIONS_SUBCOLLECTION).get(),
+    counter.associationId
+      ? db.collection(ENTITY_COLLECTIONS[counter.entityType]).where('associationId', '==', counter.associationId).get()
+      : db.collection(ENTITY_COLLECTIONS[counter.entityType]).where('userId', '==', counter.userId).get(),
+  ]);
+
+  const report = findSequenceGaps(
+    counter,
+    allocationsSnapshot.docs.map(doc => doc.data() as SequenceAllocation),
+    new Set(entitiesSnapshot.docs.map(doc => doc.id))
+  );
+
+  if (report.missingSequences.length > 0 || report.orphanedAllocations.length > 0) {
+    console.warn('[Sequences] Gaps in', counterId, {
+      missing: report.missingSequences.length,
+      orphaned: report.orphanedAllocations.length,
+    });
+  }
+
+  return report;
+};
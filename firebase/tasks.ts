@@ -0,0 +1,216 @@
+// Firebase CRUD operations for grow tasks
+import { db } from './firebaseConfig';
+import { assertPermission } from './associations';
+import {
+  createBulkPlantLog,
+  createPlantLog,
+  createStage,
+  getPlant,
+  getPlantsForContext,
+  updatePlant,
+} from './firestore';
+import { BulkPlantLog, GrowTask, Plant, PlantLog } from '../types';
+import { getNextDueDate } from '../utils/growTasks';
+import { removeUndefinedValues } from '../utils/firestoreData';
+
+// Collection name
+const TASKS_COLLECTION = 'growTasks';
+
+// ==================== TASKS ====================
+
+/**
+ * Gets the tasks of an association, or of a personal account when no association is given.
+ * Completed one-off tasks are left out unless includeDone is set.
+ */
+export const getTasksForContext = async (
+  userId: string,
+  associationId?: string,
+  includeDone: boolean = false
+): Promise<GrowTask[]> => {
+  const query = associationId
+    ? db.collection(TASKS_COLLECTION).where('associationId', '==', associationId)
+    : db.collection(TASKS_COLLECTION).where('userId', '==', userId);
+
+  const snapshot = await query.get();
+
+  return snapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() } as GrowTask))
+    // Personal context only shows tasks not tied to an association
+    .filter(task => associationId || !task.associationId)
+    .filter(task => includeDone || task.status === 'open')
+    .sort((a, b) => a.dueDate - b.dueDate);
+};
+
+/**
+ * Gets a task by ID
+ */
+export const getTask = async (taskId: string): Promise<GrowTask | null> => {
+  const docSnap = await db.collection(TASKS_COLLECTION).doc(taskId).get();
+
+  if (docSnap.exists) {
+    return { id: docSnap.id, ...docSnap.data() } as GrowTask;
+  }
+  return null;
+};
+
+/**
+ * Creates a task
+ */
+export const createTask = async (
+  taskData: Omit<GrowTask, 'id' | 'status' | 'completionCount' | 'createdAt' | 'updatedAt'>
+): Promise<string> => {
+  await assertPermission(taskData.associationId, 'canManagePlants');
+
+  if (!taskData.title.trim()) {
+    throw new Error('Task title is required');
+  }
+  if (taskData.targetType === 'plant' && !taskData.plantId) {
+    throw new Error('A plant is required for plant tasks');
+  }
+
+  const now = Date.now();
+  const docRef = await db.collection(TASKS_COLLECTION).add(removeUndefinedValues({
+    ...taskData,
+    title: taskData.title.trim(),
+    status: 'open',
+    completionCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  }));
+
+  console.log('[Tasks] Created task:', docRef.id, taskData.taskType);
+  return docRef.id;
+};
+
+/**
+ * Updates a task
+ */
+export const updateTask = async (
+  taskId: string,
+  data: Partial<Omit<GrowTask, 'id' | 'userId' | 'associationId' | 'createdAt'>>
+): Promise<void> => {
+  const task = await getTask(taskId);
+  if (!task) {
+    throw new Error('Task not found');
+  }
+  await assertPermission(task.associationId, 'canManagePlants');
+
+  await db.collection(TASKS_COLLECTION).doc(taskId).update(removeUndefinedValues({
+    ...data,
+    updatedAt: Date.now(),
+  }));
+};
+
+/**
+ * Deletes a task. Logs created by its completions are kept.
+ */
+export const deleteTask = async (taskId: string): Promise<void> => {
+  const task = await getTask(taskId);
+  if (!task) {
+    return;
+  }
+  await assertPermission(task.associationId, 'canManagePlants');
+
+  await db.collection(TASKS_COLLECTION).doc(taskId).delete();
+};
+
+// ==================== COMPLETION ====================
+
+/**
+ * Everything a completion wrote, so completeTaskWithAudit can record each change
+ */
+export interface TaskCompletion {
+  logId: string;
+  log: Omit<PlantLog, 'id'> | Omit<BulkPlantLog, 'id'>; // PlantLog for plant tasks, BulkPlantLog for environment tasks
+  flowerStageIds: string[]; // One per flipped plant, in the same order
+  flippedPlants: Plant[]; // As they were before moving to Flower
+}
+
+/**
+ * Plants a task applies to: its plant, or the active plants of its environment
+ */
+const getTaskPlants = async (task: GrowTask): Promise<Plant[]> => {
+  if (task.targetType === 'plant') {
+    const plant = task.plantId ? await getPlant(task.plantId) : null;
+    return plant && !plant.deletedAt ? [plant] : [];
+  }
+
+  const plants = await getPlantsForContext(task.userId, task.associationId);
+  return plants.filter(plant => plant.environmentId === task.environmentId);
+};
+
+/**
+ * Completes a task: writes the matching PlantLog (plant tasks) or BulkPlantLog
+ * (environment tasks), moves plants to Flower for flip tasks, then schedules the
+ * next occurrence or closes a one-off task.
+ */
+export const completeTask = async (
+  task: GrowTask,
+  completedBy: string,
+  notes?: string
+): Promise<TaskCompletion> => {
+  await assertPermission(task.associationId, 'canManagePlants');
+
+  const plants = await getTaskPlants(task);
+  if (plants.length === 0) {
+    throw new Error('This task has no active plants to log');
+  }
+
+  const now = Date.now();
+  const logNotes = [`Task: ${task.title}`, notes?.trim()].filter(Boolean).join('\n');
+
+  // createPlantLog/createBulkPlantLog drop undefined fields and queue offline
+  let log: TaskCompletion['log'];
+  let logId: string;
+  if (task.targetType === 'plant') {
+    const plantLog: Omit<PlantLog, 'id'> = {
+      plantId: plants[0].id,
+      userId: completedBy,
+      associationId: task.associationId,
+      logType: task.logType,
+      date: now,
+      notes: logNotes,
+      createdAt: now,
+    };
+    log = plantLog;
+    logId = await createPlantLog(plantLog);
+  } else {
+    const bulkLog: Omit<BulkPlantLog, 'id'> = {
+      environmentId: task.environmentId,
+      userId: completedBy,
+      associationId: task.associationId,
+      plantIds: plants.map(plant => plant.id),
+      plantCount: plants.length,
+      logType: task.logType,
+      date: now,
+      notes: logNotes,
+      createdAt: now,
+    };
+    log = bulkLog;
+    logId = await createBulkPlantLog(bulkLog);
+  }
+
+  // Plants already flowering (or past it) keep their stage
+  const flippedPlants = task.taskType === 'flip_to_flower'
+    ? plants.filter(plant => !plant.currentStage || ['Seedling', 'Veg'].includes(plant.currentStage))
+    : [];
+  const flowerStageIds = await Promise.all(flippedPlants.map(async plant => {
+    const stageId = await createStage({ plantId: plant.id, name: 'Flower', startDate: now });
+    await updatePlant(plant.id, { currentStage: 'Flower' });
+    return stageId;
+  }));
+
+  const nextDueDate = getNextDueDate(task, now);
+  await db.collection(TASKS_COLLECTION).doc(task.id).update(removeUndefinedValues({
+    status: nextDueDate ? 'open' : 'done',
+    dueDate: nextDueDate ?? task.dueDate,
+    completionCount: (task.completionCount || 0) + 1,
+    lastCompletedAt: now,
+    lastCompletedBy: completedBy,
+    lastLogId: logId,
+    updatedAt: now,
+  }));
+
+  console.log('[Tasks] Completed task:', task.id, nextDueDate ? `next due ${new Date(nextDueDate).toISOString()}` : '(closed)');
+  return { logId, log, flowerStageIds, flippedPlants };
+};
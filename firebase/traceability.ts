@@ -0,0 +1,347 @@
+// Seed-to-sale traceability: resolves the full lineage of any control number
+import { db } from './firebaseConfig';
+import {
+  getPlant,
+  getHarvest,
+  getExtract,
+  getDistribution,
+  getOrder,
+  getPatient,
+  getEnvironment,
+  getSeedGenetic,
+  getPlantHarvests,
+  getHarvestExtracts,
+  getHarvestDistributions,
+  getExtractDistributions,
+} from './firestore';
+import { getSourceWasteDisposals } from './wasteDisposal';
+import { parseControlNumber } from '../utils/controlNumber';
+import { RecordScope, whereInScope } from '../utils/firestoreData';
+import {
+  Plant,
+  Harvest,
+  Extract,
+  Distribution,
+  Order,
+  Patient,
+  Environment,
+  SeedGenetic,
+  WasteDisposal,
+} from '../types';
+
+export type TraceableEntityType = 'plant' | 'harvest' | 'extract' | 'distribution' | 'order';
+
+// Where each entity type stores its control number
+const CONTROL_NUMBER_LOOKUPS: Record<TraceableEntityType, { collection: string; field: string }> = {
+  plant: { collection: 'plants', field: 'controlNumber' },
+  harvest: { collection: 'harvests', field: 'controlNumber' },
+  extract: { collection: 'extracts', field: 'controlNumber' },
+  distribution: { collection: 'distributions', field: 'distributionNumber' },
+  order: { collection: 'orders', field: 'orderNumber' },
+};
+
+// Lookup order when the control number format is not recognised (e.g. legacy numbers)
+const LOOKUP_ORDER: TraceableEntityType[] = ['distribution', 'extract', 'harvest', 'plant', 'order'];
+
+// Guards against cycles or corrupt parent references in mother plant lineage
+const MAX_LINEAGE_DEPTH = 20;
+
+export interface TraceabilityChain {
+  rootType: TraceableEntityType;
+  rootId: string;
+  controlNumber: string;
+  orders: Order[];
+  patients: Patient[];
+  distributions: Distribution[];
+  extracts: Extract[];
+  harvests: Harvest[];
+  plants: Plant[]; // Plants that produced the traced material
+  ancestors: Plant[]; // Mother plants, nearest generation first
+  seedGenetics: SeedGenetic[];
+  environments: Environment[];
+  wasteDisposals: WasteDisposal[];
+  missing: string[]; // References to records that no longer exist
+}
+
+export interface TraceabilityContext {
+  userId: string;
+  associationId?: string;
+}
+
+/**
+ * Finds the entity a control number belongs to.
+ * Only records owned by the user or belonging to the current association are returned.
+ */
+export const findByControlNumber = async (
+  controlNumber: string,
+  context: TraceabilityContext
+): Promise<{ type: TraceableEntityType; id: string } | null> => {
+  const normalized = controlNumber.trim().toUpperCase();
+  if (!normalized) {
+    return null;
+  }
+
+  const parsed = parseControlNumber(normalized);
+  const candidates: TraceableEntityType[] = parsed
+    ? [parsed.type === 'clone' ? 'plant' : parsed.type]
+    : LOOKUP_ORDER;
+
+  // The association's records first, then the user's own records
+  const scopes: RecordScope[] = context.associationId
+    ? [context, { userId: context.userId }]
+    : [context];
+
+  for (const type of candidates) {
+    const { collection, field } = CONTROL_NUMBER_LOOKUPS[type];
+    for (const scope of scopes) {
+      const querySnapshot = await whereInScope(db.collection(collection), scope)
+        .where(field, '==', normalized)
+        .limit(1)
+        .get();
+
+      if (!querySnapshot.empty) {
+        return { type, id: querySnapshot.docs[0].id };
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Builds the full seed-to-sale chain around a control number, both upstream
+ * (patient ← distribution ← extract ← harvest ← plant ← mother plant/seed ← environment)
+ * and downstream (where the material went), plus waste disposals along the way.
+ */
+export const getTraceabilityChain = async (
+  controlNumber: string,
+  context: TraceabilityContext
+): Promise<TraceabilityChain | null> => {
+  const root = await findByControlNumber(controlNumber, context);
+  if (!root) {
+    return null;
+  }
+
+  console.log('[Traceability] Tracing', root.type, root.id);
+
+  const orders = new Map<string, Order>();
+  const patients = new Map<string, Patient>();
+  const distributions = new Map<string, Distribution>();
+  const extracts = new Map<string, Extract>();
+  const harvests = new Map<string, Harvest>();
+  const plants = new Map<string, Plant>();
+  const ancestors = new Map<string, Plant>();
+  const seedGenetics = new Map<string, SeedGenetic>();
+  const environments = new Map<string, Environment>();
+  const missing: string[] = [];
+
+  // ---------- Upstream ----------
+
+  const addSeedGenetic = async (plant: Plant) => {
+    const geneticId = plant.genetics?.seedGeneticId;
+    if (!geneticId || seedGenetics.has(geneticId)) return;
+    const genetic = await getSeedGenetic(geneticId);
+    if (genetic) {
+      seedGenetics.set(genetic.id, genetic);
+    }
+  };
+
+  const addEnvironment = async (environmentId?: string) => {
+    if (!environmentId || environments.has(environmentId)) return;
+    const environment = await getEnvironment(environmentId);
+    if (environment) {
+      environments.set(environment.id, environment);
+    } else {
+      missing.push(`Environment ${environmentId}`);
+    }
+  };
+
+  const addLineage = async (plant: Plant) => {
+    let parentId = plant.genetics?.parentPlantId || plant.motherPlantId;
+    let depth = 0;
+
+    while (parentId && depth < MAX_LINEAGE_DEPTH && !ancestors.has(parentId) && !plants.has(parentId)) {
+      const parent = await getPlant(parentId);
+      if (!parent) {
+        missing.push(`Mother plant ${plant.genetics?.parentControlNumber || parentId}`);
+        return;
+      }
+      ancestors.set(parent.id, parent);
+      await addSeedGenetic(parent);
+      await addEnvironment(parent.environmentId);
+      parentId = parent.genetics?.parentPlantId || parent.motherPlantId;
+      depth++;
+    }
+  };
+
+  const tracePlantUp = async (plantId: string) => {
+    if (plants.has(plantId)) return;
+    const plant = await getPlant(plantId);
+    if (!plant) {
+      missing.push(`Plant ${plantId}`);
+      return;
+    }
+    plants.set(plant.id, plant);
+    await addEnvironment(plant.environmentId);
+    await addSeedGenetic(plant);
+    await addLineage(plant);
+  };
+
+  const traceHarvestUp = async (harvestId: string) => {
+    if (harvests.has(harvestId)) return;
+    const harvest = await getHarvest(harvestId);
+    if (!harvest) {
+      missing.push(`Harvest ${harvestId}`);
+      return;
+    }
+    harvests.set(harvest.id, harvest);
+    await tracePlantUp(harvest.plantId);
+  };
+
+  const traceExtractUp = async (extractId: string) => {
+    if (extracts.has(extractId)) return;
+    const extract = await getExtract(extractId);
+    if (!extract) {
+      missing.push(`Extract ${extractId}`);
+      return;
+    }
+    extracts.set(extract.id, extract);
+    for (const harvestId of extract.harvestIds) {
+      await traceHarvestUp(harvestId);
+    }
+  };
+
+  const addPatient = async (patientId: string) => {
+    if (patients.has(patientId)) return;
+    const patient = await getPatient(patientId);
+    if (patient) {
+      patients.set(patient.id, patient);
+    } else {
+      missing.push(`Patient ${patientId}`);
+    }
+  };
+
+  const addDistribution = async (distribution: Distribution) => {
+    if (distributions.has(distribution.id)) return;
+    distributions.set(distribution.id, distribution);
+    await addPatient(distribution.patientId);
+  };
+
+  const traceDistributionUp = async (distributionId: string) => {
+    const distribution = await getDistribution(distributionId);
+    if (!distribution) {
+      missing.push(`Distribution ${distributionId}`);
+      return;
+    }
+    await addDistribution(distribution);
+    if (distribution.extractId) {
+      await traceExtractUp(distribution.extractId);
+    }
+    if (distribution.harvestId) {
+      await traceHarvestUp(distribution.harvestId);
+    }
+  };
+
+  // ---------- Downstream ----------
+
+  const traceExtractDown = async (extract: Extract) => {
+    const extractDistributions = await getExtractDistributions(extract.id, extract);
+    for (const distribution of extractDistributions) {
+      await addDistribution(distribution);
+    }
+  };
+
+  const traceHarvestDown = async (harvest: Harvest) => {
+    const [harvestExtracts, harvestDistributions] = await Promise.all([
+      getHarvestExtracts(harvest.id, harvest),
+      getHarvestDistributions(harvest.id, harvest),
+    ]);
+
+    for (const extract of harvestExtracts) {
+      if (!extracts.has(extract.id)) {
+        extracts.set(extract.id, extract);
+        await traceExtractDown(extract);
+      }
+    }
+    for (const distribution of harvestDistributions) {
+      await addDistribution(distribution);
+    }
+  };
+
+  // ---------- Root ----------
+
+  switch (root.type) {
+    case 'order': {
+      const order = await getOrder(root.id);
+      if (order) {
+        orders.set(order.id, order);
+        await addPatient(order.patientId);
+        if (order.distributionId) {
+          await traceDistributionUp(order.distributionId);
+        } else if (order.extractId) {
+          await traceExtractUp(order.extractId);
+        } else if (order.harvestId) {
+          await traceHarvestUp(order.harvestId);
+        }
+      }
+      break;
+    }
+    case 'distribution':
+      await traceDistributionUp(root.id);
+      break;
+    case 'extract': {
+      await traceExtractUp(root.id);
+      const extract = extracts.get(root.id);
+      if (extract) {
+        await traceExtractDown(extract);
+      }
+      break;
+    }
+    case 'harvest': {
+      await traceHarvestUp(root.id);
+      const harvest = harvests.get(root.id);
+      if (harvest) {
+        await traceHarvestDown(harvest);
+      }
+      break;
+    }
+    case 'plant': {
+      await tracePlantUp(root.id);
+      const plant = plants.get(root.id);
+      const plantHarvests = plant ? await getPlantHarvests(plant.id, plant) : [];
+      for (const harvest of plantHarvests) {
+        harvests.set(harvest.id, harvest);
+        await traceHarvestDown(harvest);
+      }
+      break;
+    }
+  }
+
+  // ---------- Waste along the chain ----------
+
+  const wasteLookups: Promise<WasteDisposal[]>[] = [
+    ...Array.from(plants.values()).map(plant => getSourceWasteDisposals('plant', plant.id, plant)),
+    ...Array.from(harvests.values()).map(harvest => getSourceWasteDisposals('harvest', harvest.id, harvest)),
+    ...Array.from(extracts.values()).map(extract => getSourceWasteDisposals('extract', extract.id, extract)),
+  ];
+  const wasteDisposals = (await Promise.all(wasteLookups))
+    .flat()
+    .sort((a, b) => b.disposalDate - a.disposalDate);
+
+  return {
+    rootType: root.type,
+    rootId: root.id,
+    controlNumber: controlNumber.trim().toUpperCase(),
+    orders: Array.from(orders.values()),
+    patients: Array.from(patients.values()),
+    distributions: Array.from(distributions.values()).sort((a, b) => b.distributionDate - a.distributionDate),
+    extracts: Array.from(extracts.values()),
+    harvests: Array.from(harvests.values()),
+    plants: Array.from(plants.values()),
+    ancestors: Array.from(ancestors.values()),
+    seedGenetics: Array.from(seedGenetics.values()),
+    environments: Array.from(environments.values()),
+    wasteDisposals,
+    missing,
+  };
+};
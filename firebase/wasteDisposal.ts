@@ -1,10 +1,39 @@
 // Firebase CRUD operations for Waste Disposal Tracking
 import { db } from './firebaseConfig';
+import { applyInventoryMovements, InventoryMovementInput } from './inventory';
 import { WasteDisposal, WasteMaterialType, DisposalMethod } from '../types';
+import { RecordScope, removeUndefinedValues, whereInScope } from '../utils/firestoreData';
 
 // Collection name
 const WASTE_COLLECTION = 'wasteDisposals';
 
+/**
+ * Builds the ledger movement for a disposal.
+ * Only harvest sources hold tracked inventory; plant and extract disposals are record-only.
+ * direction is 1 when disposing and -1 when reversing a deleted record.
+ */
+const getDisposalMovements = (
+  disposalId: string,
+  disposal: Omit<WasteDisposal, 'id' | 'createdAt'>,
+  direction: 1 | -1
+): InventoryMovementInput[] => {
+  if (disposal.sourceEntityType !== 'harvest' || !disposal.sourceEntityId || !disposal.quantityGrams) {
+    return [];
+  }
+
+  return [{
+    movementType: 'waste',
+    sourceType: 'harvest',
+    sourceId: disposal.sourceEntityId,
+    quantityGrams: direction * disposal.quantityGrams,
+    userId: disposal.userId,
+    associationId: disposal.associationId,
+    referenceType: 'wasteDisposal',
+    referenceId: disposalId,
+    reason: direction < 0 ? 'Waste disposal record deleted' : disposal.description,
+  }];
+};
+
 // ==================== CREATE ====================
 
 export const createWasteDisposal = async (
@@ -14,9 +43,19 @@ export const createWasteDisposal = async (
     throw new Error('userId is required to create a waste disposal record');
   }
 
-  const docRef = await db.collection(WASTE_COLLECTION).add({
-    ...disposalData,
-    createdAt: Date.now(),
+  if (!disposalData.quantityGrams || disposalData.quantityGrams <= 0) {
+    throw new Error('quantityGrams must be greater than zero');
+  }
+
+  // Record the disposal and deduct it from the source harvest atomically
+  const docRef = db.collection(WASTE_COLLECTION).doc();
+  await db.runTransaction(async (transaction) => {
+    await applyInventoryMovements(transaction, getDisposalMovements(docRef.id, disposalData, 1));
+
+    transaction.set(docRef, removeUndefinedValues({
+      ...disposalData,
+      createdAt: Date.now(),
+    }));
   });
 
   console.log('[WasteDisposal] Created record with ID:', docRef.id);
@@ -75,6 +114,36 @@ export const getUserWasteDisposals = async (userId: string): Promise<WasteDispos
   }
 };
 
+export const getAssociationWasteDisposals = async (associationId: string): Promise<WasteDisposal[]> => {
+  if (!associationId) {
+    console.warn('[WasteDisposal] getAssociationWasteDisposals called with undefined/null associationId');
+    return [];
+  }
+
+  const querySnapshot = await db
+    .collection(WASTE_COLLECTION)
+    .where('associationId', '==', associationId)
+    .get();
+
+  const docs = querySnapshot.docs.map(doc => ({
+    id: doc.id,
+    ...doc.data()
+  } as WasteDisposal));
+
+  // Sort in memory to avoid index requirements
+  return docs.sort((a, b) => b.disposalDate - a.disposalDate);
+};
+
+export const getWasteDisposalsForContext = async (
+  userId: string,
+  associationId?: string
+): Promise<WasteDisposal[]> => {
+  if (associationId) {
+    return getAssociationWasteDisposals(associationId);
+  }
+  return getUserWasteDisposals(userId);
+};
+
 export const getWasteDisposalsByMaterialType = async (
   userId: string,
   materialType: WasteMaterialType
@@ -200,6 +269,32 @@ export const getWasteDisposalsBySource = async (
   }
 };
 
+/**
+ * Gets every disposal recorded against a plant, harvest or extract within the source's scope, regardless of who recorded it
+ */
+export const getSourceWasteDisposals = async (
+  sourceEntityType: 'plant' | 'harvest' | 'extract',
+  sourceEntityId: string,
+  scope: RecordScope
+): Promise<WasteDisposal[]> => {
+  if (!sourceEntityId) {
+    return [];
+  }
+
+  const querySnapshot = await whereInScope(db.collection(WASTE_COLLECTION), scope)
+    .where('sourceEntityType', '==', sourceEntityType)
+    .where('sourceEntityId', '==', sourceEntityId)
+    .get();
+
+  const docs = querySnapshot.docs.map(doc => ({
+    id: doc.id,
+    ...doc.data()
+  } as WasteDisposal));
+
+  // Sort in memory to avoid index requirements
+  return docs.sort((a, b) => b.disposalDate - a.disposalDate);
+};
+
 export interface WasteFilters {
   materialType?: WasteMaterialType;
   disposalMethod?: DisposalMethod;
@@ -209,15 +304,16 @@ export interface WasteFilters {
 
 export const searchWasteDisposals = async (
   userId: string,
-  filters: WasteFilters
+  filters: WasteFilters,
+  associationId?: string
 ): Promise<WasteDisposal[]> => {
   if (!userId) {
     console.warn('[WasteDisposal] searchWasteDisposals called with undefined/null userId');
     return [];
   }
 
-  // Get all user disposals and filter in memory for flexibility
-  const allDisposals = await getUserWasteDisposals(userId);
+  // Get all disposals in context and filter in memory for flexibility
+  const allDisposals = await getWasteDisposalsForContext(userId, associationId);
 
   return allDisposals.filter(disposal => {
     if (filters.materialType && disposal.materialType !== filters.materialType) return false;
@@ -282,14 +378,24 @@ export const updateWasteDisposal = async (
   disposalId: string,
   data: Partial<WasteDisposal>
 ): Promise<void> => {
-  await db.collection(WASTE_COLLECTION).doc(disposalId).update(data);
+  await db.collection(WASTE_COLLECTION).doc(disposalId).update(removeUndefinedValues(data));
   console.log('[WasteDisposal] Updated record:', disposalId);
 };
 
 // ==================== DELETE ====================
 
 export const deleteWasteDisposal = async (disposalId: string): Promise<void> => {
-  await db.collection(WASTE_COLLECTION).doc(disposalId).delete();
+  const disposal = await getWasteDisposal(disposalId);
+  const docRef = db.collection(WASTE_COLLECTION).doc(disposalId);
+
+  // Return the disposed grams to the source harvest
+  await db.runTransaction(async (transaction) => {
+    if (disposal) {
+      await applyInventoryMovements(transaction, getDisposalMovements(disposalId, disposal, -1));
+    }
+    transaction.delete(docRef);
+  });
+
   console.log('[WasteDisposal] Deleted record:', disposalId);
 };
 
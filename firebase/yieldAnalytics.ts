@@ -0,0 +1,46 @@
+// Firebase reads for yield analytics
+import {
+  getEnvironmentsForContext,
+  getHarvestsForContext,
+  getPlantsForContext,
+  getSeedGeneticsForContext,
+} from './firestore';
+import { getAssociationMembers } from './associations';
+import { Environment, PlantYield, SeedGenetic } from '../types';
+import { buildPlantYields } from '../utils/yieldAnalytics';
+
+export interface YieldDataset {
+  plantYields: PlantYield[];
+  genetics: SeedGenetic[];
+  environments: Environment[];
+  growerNames: Record<string, string>; // userId -> member name
+}
+
+/**
+ * Loads the harvested plants of a context with their yields.
+ * Archived plants are included since most harvested plants end up archived.
+ * @param since - Only plants first harvested on or after this date
+ */
+export const getYieldDataset = async (
+  userId: string,
+  associationId?: string,
+  since?: number
+): Promise<YieldDataset> => {
+  const [plants, harvests, environments, genetics, members] = await Promise.all([
+    getPlantsForContext(userId, associationId, true),
+    getHarvestsForContext(userId, associationId),
+    getEnvironmentsForContext(userId, associationId),
+    getSeedGeneticsForContext(userId, associationId),
+    associationId ? getAssociationMembers(associationId, false) : Promise.resolve([]),
+  ]);
+
+  const plantYields = buildPlantYields(plants, harvests, environments)
+    .filter(plantYield => !since || plantYield.firstHarvestDate >= since);
+
+  const growerNames: Record<string, string> = {};
+  members.forEach(member => {
+    growerNames[member.userId] = member.fullName || member.displayName || member.userEmail;
+  });
+
+  return { plantYields, genetics, environments, growerNames };
+};
@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { getDefaultPermissionsForRole, memberHasPermission } from '../firebase/associations';
+import { MemberPermission, MemberRole } from '../types';
+
+export interface Permissions {
+  role: MemberRole | undefined;
+  // True while the user or association membership is still loading
+  loading: boolean;
+  isOwnerOrAdmin: boolean;
+  can: (permission: MemberPermission) => boolean;
+  canManagePatients: boolean;
+  canManagePlants: boolean;
+  canManageHarvests: boolean;
+  canManageDistributions: boolean;
+  canManageMembers: boolean;
+  canViewReports: boolean;
+  canExportData: boolean;
+}
+
+/**
+ * Resolves the signed-in user's permissions from their current association membership.
+ * Mirrors the menu rules: personal accounts without an association act as cultivators,
+ * and legacy accounts without an account type keep full access.
+ */
+export const usePermissions = (): Permissions => {
+  const { userData, loading, currentAssociation, currentMember, associationLoading } = useAuth();
+
+  return useMemo(() => {
+    let can: (permission: MemberPermission) => boolean;
+    let isOwnerOrAdmin: boolean;
+
+    if (currentAssociation) {
+      can = (permission) => memberHasPermission(currentMember, permission);
+      isOwnerOrAdmin = !!currentMember?.isActive &&
+        (currentMember.role === 'owner' || currentMember.role === 'admin');
+    } else if (userData?.accountType === 'personal') {
+      const cultivatorPermissions = getDefaultPermissionsForRole('cultivator');
+      can = (permission) => cultivatorPermissions[permission] === true;
+      isOwnerOrAdmin = false;
+    } else {
+      can = () => !!userData;
+      isOwnerOrAdmin = !!userData;
+    }
+
+    return {
+      role: currentMember?.role,
+      loading: loading || associationLoading,
+      isOwnerOrAdmin,
+      can,
+      canManagePatients: can('canManagePatients'),
+      canManagePlants: can('canManagePlants'),
+      canManageHarvests: can('canManageHarvests'),
+      canManageDistributions: can('canManageDistributions'),
+      canManageMembers: can('canManageMembers'),
+      canViewReports: can('canViewReports'),
+      canExportData: can('canExportData'),
+    };
+  }, [userData, loading, currentAssociation, currentMember, associationLoading]);
+};
@@ -19,6 +19,9 @@ import enHarvests from './en/harvests.json';
 import enAdmin from './en/admin.json';
 import enGenetics from './en/genetics.json';
 import enAssociation from './en/association.json';
+import enSync from './en/sync.json';
+import enTasks from './en/tasks.json';
+import enLabAnalyses from './en/labAnalyses.json';
 
 // Portuguese translations
 import ptCommon from './pt/common.json';
@@ -36,6 +39,9 @@ import ptHarvests from './pt/harvests.json';
 import ptAdmin from './pt/admin.json';
 import ptGenetics from './pt/genetics.json';
 import ptAssociation from './pt/association.json';
+import ptSync from './pt/sync.json';
+import ptTasks from './pt/tasks.json';
+import ptLabAnalyses from './pt/labAnalyses.json';
 
 export const LANGUAGE_STORAGE_KEY = '@grow_manager_language';
 
@@ -56,6 +62,9 @@ export const resources = {
     admin: enAdmin,
     genetics: enGenetics,
     association: enAssociation,
+    sync: enSync,
+    tasks: enTasks,
+    labAnalyses: enLabAnalyses,
   },
   pt: {
     common: ptCommon,
@@ -73,6 +82,9 @@ export const resources = {
     admin: ptAdmin,
     genetics: ptGenetics,
     association: ptAssociation,
+    sync: ptSync,
+    tasks: ptTasks,
+    labAnalyses: ptLabAnalyses,
   },
 };
 
@@ -124,6 +136,9 @@ export const initI18n = async () => {
         'admin',
         'genetics',
         'association',
+        'sync',
+        'tasks',
+        'labAnalyses',
       ],
       defaultNS: 'common',
       interpolation: {
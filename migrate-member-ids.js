@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+
+/**
+ * GrowControl - Migração de IDs de membros
+ *
+ * As regras do Firestore procuram o membro em members/{associationId}_{userId}.
+ * Membros criados antes disso têm IDs aleatórios e perdem o acesso à associação.
+ * Este script move cada um desses documentos para o ID esperado (uma única vez).
+ *
+ * Usa o Admin SDK, que ignora as regras de segurança:
+ *   GOOGLE_APPLICATION_CREDENTIALS=service-account.json node migrate-member-ids.js [--dry-run]
+ * Com FIRESTORE_EMULATOR_HOST definido, roda contra o emulador.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { initializeApp, applicationDefault } = require('firebase-admin/app');
+const { getFirestore } = require('firebase-admin/firestore');
+
+const MEMBERS_COLLECTION = 'members';
+const BATCH_SIZE = 200; // Two writes per member, below the 500-write batch limit
+
+const dryRun = process.argv.includes('--dry-run');
+
+// Same key as getMemberDocId in firebase/associations.ts
+const getMemberDocId = (associationId, userId) => `${associationId}_${userId}`;
+
+const getProjectId = () => {
+  const explicit = process.argv.find(arg => arg.startsWith('--project='));
+  if (explicit) {
+    return explicit.split('=')[1];
+  }
+
+  const firebaserc = path.join(__dirname, '.firebaserc');
+  if (fs.existsSync(firebaserc)) {
+    const config = JSON.parse(fs.readFileSync(firebaserc, 'utf-8'));
+    return config.projects?.default;
+  }
+
+  return process.env.GCLOUD_PROJECT;
+};
+
+async function migrateMemberIds() {
+  console.log('🌱 GrowControl - Migração de IDs de membros\n');
+
+  const projectId = getProjectId();
+  if (!projectId) {
+    console.error('❌ Não foi possível detectar o projeto Firebase');
+    console.error('Execute: node migrate-member-ids.js --project=<project-id>\n');
+    process.exit(1);
+  }
+
+  console.log(`📦 Projeto: ${projectId}${dryRun ? ' (simulação, nada será gravado)' : ''}\n`);
+
+  const app = process.env.FIRESTORE_EMULATOR_HOST
+    ? initializeApp({ projectId })
+    : initializeApp({ projectId, credential: applicationDefault() });
+  const db = getFirestore(app);
+
+  const snapshot = await db.collection(MEMBERS_COLLECTION).get();
+  const legacy = snapshot.docs.filter(doc => {
+    const { associationId, userId } = doc.data();
+    return associationId && userId && doc.id !== getMemberDocId(associationId, userId);
+  });
+
+  console.log(`🔍 ${snapshot.size} membros, ${legacy.length} com ID antigo\n`);
+
+  let migrated = 0;
+  const conflicts = [];
+
+  for (let i = 0; i < legacy.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    let writes = 0;
+
+    for (const doc of legacy.slice(i, i + BATCH_SIZE)) {
+      const { associationId, userId } = doc.data();
+      const keyedRef = db.collection(MEMBERS_COLLECTION).doc(getMemberDocId(associationId, userId));
+
+      // Never overwrite a membership already stored under the keyed id
+      const keyed = await keyedRef.get();
+      if (keyed.exists) {
+        conflicts.push(doc.id);
+        continue;
+      }
+
+      console.log(`   ${doc.id} → ${keyedRef.id}`);
+      batch.set(keyedRef, doc.data());
+      batch.delete(doc.ref);
+      writes++;
+    }
+
+    if (writes > 0 && !dryRun) {
+      await batch.commit();
+    }
+    migrated += writes;
+  }
+
+  console.log('');
+  console.log(`✅ ${migrated} membros ${dryRun ? 'seriam migrados' : 'migrados'}`);
+
+  if (conflicts.length > 0) {
+    console.log(`⚠️  ${conflicts.length} já tinham um documento com o ID esperado e foram mantidos:`);
+    conflicts.forEach(id => console.log(`   ${id}`));
+    console.log('   Revise-os e remova o duplicado manualmente.');
+  }
+  console.log('');
+}
+
+migrateMemberIds().catch(error => {
+  console.error('❌ Erro na migração:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,460 @@
+// Sensor ingestion: receives readings from a local MQTT broker or HTTP bridge,
+// validates and dedupes them, and downsamples each environment's readings into
+// one EnvironmentRecord per time window
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { connect, MqttClient } from 'mqtt';
+import { createEnvironmentRecord, getLatestEnvironmentRecord } from '../firebase/firestore';
+import { getSensorsForContext, recordSensorLastReadings } from '../firebase/sensors';
+import {
+  Sensor,
+  SensorBridgeConfig,
+  SensorIngestionStatus,
+  SensorReading,
+  SensorReadingRejection,
+} from '../types';
+import {
+  LIGHTS_ON_PPFD,
+  buildSensorEnvironmentRecord,
+  createReadingDeduper,
+  estimateLightHours,
+  getWindowStart,
+  parseSensorPayload,
+  validateSensorReading,
+} from '../utils/sensorReadings';
+
+const CONFIG_STORAGE_KEY = '@grow_manager_sensor_bridge';
+
+// How often closed windows are checked for flushing
+const FLUSH_INTERVAL_MS = 30000;
+// Extra time after a window ends for late readings before it is written
+const WINDOW_GRACE_MS = 60000;
+// Photoperiod is estimated from the last 24 hours of windows
+const LIGHT_HISTORY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_BRIDGE_CONFIG: SensorBridgeConfig = {
+  transport: 'mqtt',
+  url: 'ws://192.168.0.10:9001',
+  topic: 'growcontrol/sensors/+',
+  pollIntervalSeconds: 30,
+  windowMinutes: 15,
+};
+
+interface IngestionContext {
+  userId: string;
+  associationId?: string;
+}
+
+type WindowEntry = { sensor: Sensor; reading: SensorReading };
+
+const emptyRejections = (): Record<SensorReadingRejection, number> => ({
+  invalid: 0,
+  out_of_range: 0,
+  stale: 0,
+  duplicate: 0,
+  unmapped: 0,
+});
+
+let status: SensorIngestionStatus = {
+  state: 'stopped',
+  accepted: 0,
+  rejected: emptyRejections(),
+  recordsWritten: 0,
+  skippedWindows: 0,
+  pendingReadings: 0,
+};
+
+let context: IngestionContext | null = null;
+let config: SensorBridgeConfig = DEFAULT_BRIDGE_CONFIG;
+let sensorsById = new Map<string, Sensor>();
+let mqttClient: MqttClient | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let flushTimer: ReturnType<typeof setInterval> | null = null;
+let pollCursor: number | undefined;
+let flushing: Promise<void> = Promise.resolve();
+
+const deduper = createReadingDeduper();
+// environmentId -> windowStart -> readings
+const windows = new Map<string, Map<number, WindowEntry[]>>();
+// environmentId -> end of the last window written; older readings arrive too late
+const flushedUntil = new Map<string, number>();
+// environmentId -> whether lights were on in each recent window
+const lightHistory = new Map<string, { windowStart: number; lightsOn: boolean }[]>();
+// environmentId -> photoperiod from the last manual record, used without a PPFD sensor
+const fallbackLightHours = new Map<string, number>();
+
+const listeners = new Set<(status: SensorIngestionStatus) => void>();
+
+const notifyListeners = () => {
+  let pendingReadings = 0;
+  windows.forEach(envWindows => envWindows.forEach(entries => {
+    pendingReadings += entries.length;
+  }));
+  status = { ...status, pendingReadings };
+  listeners.forEach(listener => listener(status));
+};
+
+const setState = (state: SensorIngestionStatus['state'], error?: string) => {
+  status = { ...status, state, error };
+  notifyListeners();
+};
+
+/**
+ * Subscribes to ingestion status changes. Returns an unsubscribe function.
+ */
+export const subscribeToIngestionStatus = (
+  listener: (status: SensorIngestionStatus) => void
+): (() => void) => {
+  listeners.add(listener);
+  listener(status);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getIngestionStatus = (): SensorIngestionStatus => status;
+
+// ==================== CONFIGURATION ====================
+
+/**
+ * Loads the bridge settings saved on this device
+ */
+export const loadBridgeConfig = async (): Promise<SensorBridgeConfig> => {
+  try {
+    const stored = await AsyncStorage.getItem(CONFIG_STORAGE_KEY);
+    return stored ? { ...DEFAULT_BRIDGE_CONFIG, ...JSON.parse(stored) } : DEFAULT_BRIDGE_CONFIG;
+  } catch (error) {
+    console.error('[SensorIngestion] Failed to load bridge config:', error);
+    return DEFAULT_BRIDGE_CONFIG;
+  }
+};
+
+/**
+ * Saves the bridge settings on this device. Bridges are local, so settings are per device.
+ */
+export const saveBridgeConfig = async (newConfig: SensorBridgeConfig): Promise<void> => {
+  await AsyncStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(newConfig));
+};
+
+/**
+ * Reloads the sensor mappings, e.g. after adding or editing a sensor while running
+ */
+export const refreshSensorMappings = async (): Promise<void> => {
+  if (!context) {
+    return;
+  }
+  const sensors = await getSensorsForContext(context.userId, context.associationId);
+  sensorsById = new Map(sensors.filter(sensor => sensor.isActive).map(sensor => [sensor.sensorId, sensor]));
+  console.log('[SensorIngestion] Loaded', sensorsById.size, 'active sensor mapping(s)');
+};
+
+// ==================== INGESTION ====================
+
+const reject = (reason: SensorReadingRejection, count: number = 1) => {
+  if (count > 0) {
+    status = { ...status, rejected: { ...status.rejected, [reason]: status.rejected[reason] + count } };
+  }
+};
+
+/**
+ * Ingests a bridge payload: the HTTP webhook handler and the MQTT message handler both
+ * end up here. Returns how many readings were accepted.
+ * @param payload - Decoded JSON body (object, array or number)
+ * @param fallbackSensorId - Sensor id for entries without one (the MQTT topic suffix)
+ */
+export const ingestSensorPayload = (payload: unknown, fallbackSensorId?: string): number => {
+  if (!context) {
+    console.warn('[SensorIngestion] Ignoring payload, ingestion is not running');
+    return 0;
+  }
+
+  const now = Date.now();
+  const { readings, invalid } = parseSensorPayload(payload, fallbackSensorId, now);
+  reject('invalid', invalid);
+
+  let accepted = 0;
+  readings.forEach(reading => {
+    const sensor = sensorsById.get(reading.sensorId);
+    if (!sensor) {
+      reject('unmapped');
+      return;
+    }
+
+    const rejection = validateSensorReading(reading, sensor.type, now);
+    if (rejection) {
+      reject(rejection);
+      return;
+    }
+
+    // The window this reading belongs to has already been written
+    const windowStart = getWindowStart(reading.timestamp, config.windowMinutes);
+    if (windowStart < (flushedUntil.get(sensor.environmentId) ?? 0)) {
+      reject('stale');
+      return;
+    }
+
+    if (deduper.isDuplicate(reading)) {
+      reject('duplicate');
+      return;
+    }
+
+    const envWindows = windows.get(sensor.environmentId) ?? new Map<number, WindowEntry[]>();
+    envWindows.set(windowStart, [...(envWindows.get(windowStart) ?? []), { sensor, reading }]);
+    windows.set(sensor.environmentId, envWindows);
+    accepted++;
+  });
+
+  if (accepted > 0) {
+    status = {
+      ...status,
+      accepted: status.accepted + accepted,
+      lastReadingAt: now,
+    };
+  }
+  notifyListeners();
+  return accepted;
+};
+
+const getLightHours = async (environmentId: string, entries: WindowEntry[], windowStart: number): Promise<number> => {
+  const ppfdValues = entries.filter(({ sensor }) => sensor.type === 'ppfd').map(({ reading }) => reading.value);
+
+  if (ppfdValues.length > 0) {
+    const average = ppfdValues.reduce((sum, value) => sum + value, 0) / ppfdValues.length;
+    const history = (lightHistory.get(environmentId) ?? [])
+      .filter(item => item.windowStart > windowStart - LIGHT_HISTORY_MS);
+    history.push({ windowStart, lightsOn: average > LIGHTS_ON_PPFD });
+    lightHistory.set(environmentId, history);
+  }
+
+  const history = lightHistory.get(environmentId);
+  if (history && history.length > 0) {
+    return estimateLightHours(history.map(item => item.lightsOn));
+  }
+
+  // No light sensor: keep the photoperiod from the latest manual reading
+  if (!fallbackLightHours.has(environmentId)) {
+    try {
+      const latest = await getLatestEnvironmentRecord(environmentId);
+      fallbackLightHours.set(environmentId, latest?.lightHours ?? 0);
+    } catch (error) {
+      console.warn('[SensorIngestion] Could not load latest record for light hours:', error);
+      return 0;
+    }
+  }
+  return fallbackLightHours.get(environmentId) ?? 0;
+};
+
+const flushWindow = async (environmentId: string, windowStart: number, entries: WindowEntry[]) => {
+  const sensor = entries[0].sensor;
+  const lightHours = await getLightHours(environmentId, entries, windowStart);
+  const record = buildSensorEnvironmentRecord(
+    environmentId,
+    entries,
+    windowStart,
+    config.windowMinutes,
+    lightHours,
+    sensor.associationId
+  );
+
+  if (!record) {
+    console.log('[SensorIngestion] Skipped window without temperature/humidity for', environmentId);
+    status = { ...status, skippedWindows: status.skippedWindows + 1 };
+    return;
+  }
+
+  // Queued offline like manual readings, so a dropped connection doesn't lose data
+  await createEnvironmentRecord(record);
+  status = { ...status, recordsWritten: status.recordsWritten + 1, lastRecordAt: Date.now() };
+
+  // Latest value per sensor, for the sensors screen
+  const latestBySensor = new Map<string, WindowEntry>();
+  entries.forEach(entry => {
+    const current = latestBySensor.get(entry.sensor.id);
+    if (!current || entry.reading.timestamp > current.reading.timestamp) {
+      latestBySensor.set(entry.sensor.id, entry);
+    }
+  });
+  try {
+    await recordSensorLastReadings(Array.from(latestBySensor.values()).map(({ sensor: s, reading }) => ({
+      id: s.id,
+      lastReadingAt: reading.timestamp,
+      lastValue: reading.value,
+    })));
+  } catch (error) {
+    console.warn('[SensorIngestion] Failed to update sensor last readings:', error);
+  }
+};
+
+/**
+ * Writes every window that has closed. With force, open windows are written too (on stop).
+ */
+const flushWindows = (force: boolean = false): Promise<void> => {
+  flushing = flushing.then(async () => {
+    const windowMs = config.windowMinutes * 60 * 1000;
+    const now = Date.now();
+
+    for (const [environmentId, envWindows] of Array.from(windows.entries())) {
+      const ready = Array.from(envWindows.keys())
+        .filter(windowStart => force || windowStart + windowMs + WINDOW_GRACE_MS <= now)
+        .sort((a, b) => a - b);
+
+      for (const windowStart of ready) {
+        const entries = envWindows.get(windowStart)!;
+        envWindows.delete(windowStart);
+        flushedUntil.set(environmentId, Math.max(flushedUntil.get(environmentId) ?? 0, windowStart + windowMs));
+
+        try {
+          await flushWindow(environmentId, windowStart, entries);
+        } catch (error) {
+          console.error('[SensorIngestion] Failed to write window for', environmentId, error);
+        }
+      }
+
+      if (envWindows.size === 0) {
+        windows.delete(environmentId);
+      }
+    }
+
+    notifyListeners();
+  });
+  return flushing;
+};
+
+// ==================== TRANSPORTS ====================
+
+const startMqtt = () => {
+  mqttClient = connect(config.url, {
+    username: config.username || undefined,
+    password: config.password || undefined,
+    clientId: `growcontrol_${Math.random().toString(16).slice(2, 10)}`,
+    reconnectPeriod: 5000,
+    connectTimeout: 10000,
+  });
+
+  mqttClient.on('connect', () => {
+    console.log('[SensorIngestion] Connected to MQTT broker:', config.url);
+    mqttClient?.subscribe(config.topic, { qos: 1 }, (error) => {
+      if (error) {
+        setState('error', `Subscribe failed: ${error.message}`);
+      } else {
+        setState('running');
+      }
+    });
+  });
+
+  mqttClient.on('message', (topic, message) => {
+    const sensorIdFromTopic = topic.split('/').pop();
+    const text = message.toString();
+    let payload: unknown;
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      payload = text;
+    }
+    ingestSensorPayload(payload, sensorIdFromTopic);
+  });
+
+  mqttClient.on('reconnect', () => setState('connecting'));
+  mqttClient.on('error', (error) => {
+    console.error('[SensorIngestion] MQTT error:', error);
+    setState('error', error.message);
+  });
+};
+
+const pollHttp = async () => {
+  try {
+    const url = pollCursor !== undefined
+      ? `${config.url}${config.url.includes('?') ? '&' : '?'}since=${pollCursor}`
+      : config.url;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Bridge responded with ${response.status}`);
+    }
+
+    // Either an array of readings or { readings, cursor }
+    const body = await response.json();
+    const payload = Array.isArray(body) ? body : body.readings ?? [];
+    ingestSensorPayload(payload);
+
+    if (!Array.isArray(body) && body.cursor !== undefined) {
+      pollCursor = body.cursor;
+    } else if (Array.isArray(payload) && payload.length > 0) {
+      pollCursor = Date.now();
+    }
+
+    if (status.state !== 'running') {
+      setState('running');
+    }
+  } catch (error: any) {
+    console.error('[SensorIngestion] HTTP poll failed:', error);
+    setState('error', error.message);
+  }
+};
+
+const startHttp = () => {
+  pollHttp();
+  pollTimer = setInterval(pollHttp, config.pollIntervalSeconds * 1000);
+};
+
+/**
+ * Starts ingesting for an account or association. Restarts if already running.
+ */
+export const startSensorIngestion = async (
+  ingestionContext: IngestionContext,
+  bridgeConfig?: SensorBridgeConfig
+): Promise<void> => {
+  if (context) {
+    await stopSensorIngestion();
+  }
+
+  config = bridgeConfig ?? await loadBridgeConfig();
+  context = ingestionContext;
+  pollCursor = undefined;
+  fallbackLightHours.clear();
+  status = {
+    state: 'connecting',
+    accepted: 0,
+    rejected: emptyRejections(),
+    recordsWritten: 0,
+    skippedWindows: 0,
+    pendingReadings: 0,
+  };
+  notifyListeners();
+
+  try {
+    await refreshSensorMappings();
+  } catch (error: any) {
+    context = null;
+    setState('error', error.message || 'Failed to load sensors');
+    throw error;
+  }
+
+  if (config.transport === 'mqtt') {
+    startMqtt();
+  } else {
+    startHttp();
+  }
+  flushTimer = setInterval(() => flushWindows(), FLUSH_INTERVAL_MS);
+};
+
+/**
+ * Disconnects from the bridge and writes any readings still buffered
+ */
+export const stopSensorIngestion = async (): Promise<void> => {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  if (flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+  }
+  if (mqttClient) {
+    const client = mqttClient;
+    mqttClient = null;
+    await new Promise<void>(resolve => client.end(false, {}, () => resolve()));
+  }
+
+  await flushWindows(true);
+  context = null;
+  setState('stopped');
+};
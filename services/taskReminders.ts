@@ -0,0 +1,132 @@
+/**
+ * Task Reminders
+ *
+ * Local notifications for grow tasks: a reminder is scheduled for the due time of
+ * every open task assigned to the current user (or unassigned), and tasks that are
+ * already overdue notify right away, at most once a day each.
+ *
+ * Notifications aren't available on web, where syncing is a no-op.
+ */
+
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { format } from 'date-fns';
+import { GrowTask } from '../types';
+
+const NOTIFIED_STORAGE_KEY = '@grow_manager_task_reminders';
+const IDENTIFIER_PREFIX = 'grow-task-';
+
+export interface TaskReminderContent {
+  title: string;
+  body: string;
+}
+
+let handlerConfigured = false;
+
+const configureHandler = () => {
+  if (handlerConfigured) return;
+  handlerConfigured = true;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+};
+
+const ensurePermission = async (): Promise<boolean> => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) {
+    return true;
+  }
+  if (!current.canAskAgain) {
+    return false;
+  }
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+// Day each overdue task was last notified, so reopening the app doesn't repeat it
+const loadNotifiedDays = async (): Promise<Record<string, string>> => {
+  try {
+    const stored = await AsyncStorage.getItem(NOTIFIED_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('[TaskReminders] Error loading notified tasks:', error);
+    return {};
+  }
+};
+
+/**
+ * Replaces the scheduled task reminders with ones for the given tasks
+ * @param tasks - Open tasks of the current context
+ * @param userId - Current user; tasks assigned to other members are skipped
+ * @param getContent - Builds the (translated) notification for a task
+ */
+export const syncTaskReminders = async (
+  tasks: GrowTask[],
+  userId: string,
+  getContent: (task: GrowTask, overdue: boolean) => TaskReminderContent
+): Promise<void> => {
+  if (Platform.OS === 'web') {
+    return;
+  }
+
+  try {
+    configureHandler();
+    if (!(await ensurePermission())) {
+      console.log('[TaskReminders] Notification permission not granted');
+      return;
+    }
+
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter(request => request.identifier.startsWith(IDENTIFIER_PREFIX))
+        .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+    );
+
+    const now = Date.now();
+    const today = format(now, 'yyyy-MM-dd');
+    const notifiedDays = await loadNotifiedDays();
+    const myTasks = tasks.filter(task =>
+      task.status === 'open' && (!task.assignedTo || task.assignedTo === userId)
+    );
+
+    for (const task of myTasks) {
+      const overdue = task.dueDate <= now;
+
+      if (overdue && notifiedDays[task.id] === today) {
+        continue;
+      }
+
+      await Notifications.scheduleNotificationAsync({
+        identifier: `${IDENTIFIER_PREFIX}${task.id}`,
+        content: {
+          ...getContent(task, overdue),
+          data: { taskId: task.id },
+        },
+        trigger: overdue
+          ? null
+          : { type: Notifications.SchedulableTriggerInputTypes.DATE, date: new Date(task.dueDate) },
+      });
+
+      if (overdue) {
+        notifiedDays[task.id] = today;
+      }
+    }
+
+    // Forget tasks that were completed or deleted
+    const openIds = new Set(myTasks.map(task => task.id));
+    const remaining = Object.fromEntries(
+      Object.entries(notifiedDays).filter(([taskId]) => openIds.has(taskId))
+    );
+    await AsyncStorage.setItem(NOTIFIED_STORAGE_KEY, JSON.stringify(remaining));
+  } catch (error) {
+    console.error('[TaskReminders] Error syncing reminders:', error);
+  }
+};
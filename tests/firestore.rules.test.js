@@ -0,0 +1,664 @@
+// Firestore security rules tests
+// Run against the local emulator with: npm run test:rules
+const fs = require('fs');
+const path = require('path');
+const { describe, test, before, after } = require('node:test');
+const {
+  initializeTestEnvironment,
+  assertSucceeds,
+  assertFails,
+} = require('@firebase/rules-unit-testing');
+
+const ASSOCIATION_ID = 'assoc1';
+const ROLES = ['owner', 'admin', 'cultivator', 'patient', 'volunteer'];
+
+// Mirrors getDefaultPermissionsForRole in firebase/associations.ts
+const ROLE_PERMISSIONS = {
+  owner: { canManagePatients: true, canManagePlants: true, canManageHarvests: true, canManageDistributions: true, canManageMembers: true, canViewReports: true, canExportData: true },
+  admin: { canManagePatients: true, canManagePlants: true, canManageHarvests: true, canManageDistributions: true, canManageMembers: true, canViewReports: true, canExportData: true },
+  cultivator: { canManagePatients: false, canManagePlants: true, canManageHarvests: true, canManageDistributions: false, canManageMembers: false, canViewReports: true, canExportData: false },
+  patient: { canManagePatients: false, canManagePlants: false, canManageHarvests: false, canManageDistributions: false, canManageMembers: false, canViewReports: false, canExportData: false },
+  volunteer: { canManagePatients: true, canManagePlants: false, canManageHarvests: false, canManageDistributions: false, canManageMembers: false, canViewReports: false, canExportData: false },
+};
+
+// Which roles may read the seeded association record and create a new one, per collection
+const ACCESS_MATRIX = {
+  plants: { read: ['owner', 'admin', 'cultivator'], create: ['owner', 'admin', 'cultivator'] },
+  harvests: { read: ['owner', 'admin', 'cultivator'], create: ['owner', 'admin', 'cultivator'] },
+  extracts: { read: ['owner', 'admin', 'cultivator'], create: ['owner', 'admin', 'cultivator'] },
+  labAnalyses: { read: ['owner', 'admin', 'cultivator'], create: ['owner', 'admin', 'cultivator'] },
+  recalls: { read: ['owner', 'admin', 'volunteer'], create: ['owner', 'admin'] },
+  wasteDisposals: { read: ['owner', 'admin', 'cultivator'], create: ['owner', 'admin', 'cultivator'] },
+  nutrientSchedules: { read: ['owner', 'admin', 'cultivator'], create: ['owner', 'admin', 'cultivator'] },
+  growTasks: { read: ['owner', 'admin', 'cultivator'], create: ['owner', 'admin', 'cultivator'] },
+  patients: { read: ['owner', 'admin', 'volunteer'], create: ['owner', 'admin', 'volunteer'] },
+  distributions: { read: ['owner', 'admin', 'cultivator'], create: ['owner', 'admin'] },
+  orders: { read: ['owner', 'admin'], create: ['owner', 'admin'] },
+  // Entries can only be appended together with the chain head, see 'audit chain' below
+  auditLogs: { read: ['owner', 'admin', 'cultivator'], create: [] },
+  institutionalDocuments: { read: ROLES, create: ['owner', 'admin'] },
+};
+
+const uidFor = (role) => `${role}-user`;
+
+let testEnv;
+
+const dbFor = (userId, email) =>
+  testEnv.authenticatedContext(userId, email ? { email } : undefined).firestore();
+
+const seed = async (writer) => {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await writer(context.firestore());
+  });
+};
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-growcontrol',
+    firestore: {
+      rules: fs.readFileSync(path.join(__dirname, '..', 'firestore.rules'), 'utf8'),
+    },
+  });
+
+  await seed(async (db) => {
+    const now = Date.now();
+    const owner = uidFor('owner');
+
+    await db.collection('associations').doc(ASSOCIATION_ID).set({
+      name: 'Test Association',
+      createdBy: owner,
+      plantCounter: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    for (const role of ROLES) {
+      await db.collection('members').doc(`${ASSOCIATION_ID}_${uidFor(role)}`).set({
+        associationId: ASSOCIATION_ID,
+        userId: uidFor(role),
+        role,
+        isActive: true,
+        ...ROLE_PERMISSIONS[role],
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    await db.collection('members').doc(`${ASSOCIATION_ID}_inactive-user`).set({
+      associationId: ASSOCIATION_ID,
+      userId: 'inactive-user',
+      role: 'admin',
+      isActive: false,
+      ...ROLE_PERMISSIONS.admin,
+    });
+
+    for (const collection of Object.keys(ACCESS_MATRIX)) {
+      await db.collection(collection).doc('seeded').set({
+        userId: owner,
+        associationId: ASSOCIATION_ID,
+        createdAt: now,
+      });
+    }
+
+    await db.collection('plants').doc('personal-plant').set({ userId: 'grower', strain: 'Personal' });
+    await db.collection('stages').doc('personal-stage').set({ plantId: 'personal-plant', name: 'Veg' });
+    await db.collection('friendships').doc(['friend', 'grower'].sort().join('_')).set({
+      users: ['friend', 'grower'].sort(),
+      userEmails: [],
+      createdAt: now,
+    });
+
+    await db.collection('inventoryMovements').doc('movement').set({
+      userId: owner,
+      associationId: ASSOCIATION_ID,
+      quantityGrams: 10,
+    });
+
+    await db.collection('associationInvitations').doc('invite1').set({
+      associationId: ASSOCIATION_ID,
+      invitedEmail: 'invitee@example.com',
+      invitedRole: 'cultivator',
+      invitedBy: owner,
+      status: 'pending',
+      expiresAt: now + 24 * 60 * 60 * 1000,
+    });
+
+    await db.collection('invitationTokens').doc('token-hash').set({
+      invitationId: 'invite1',
+      associationId: ASSOCIATION_ID,
+      invitedEmail: 'invitee@example.com',
+      invitedRole: 'cultivator',
+      expiresAt: now + 24 * 60 * 60 * 1000,
+    });
+  });
+});
+
+after(async () => {
+  await testEnv.cleanup();
+});
+
+describe('association records by role', () => {
+  for (const [collection, access] of Object.entries(ACCESS_MATRIX)) {
+    for (const role of ROLES) {
+      const canRead = access.read.includes(role);
+      const canCreate = access.create.includes(role);
+
+      test(`${role} ${canRead ? 'can' : 'cannot'} read ${collection}`, async () => {
+        const read = dbFor(uidFor(role)).collection(collection).doc('seeded').get();
+        await (canRead ? assertSucceeds(read) : assertFails(read));
+      });
+
+      test(`${role} ${canCreate ? 'can' : 'cannot'} create ${collection}`, async () => {
+        const create = dbFor(uidFor(role)).collection(collection).doc(`${role}-new`).set({
+          userId: uidFor(role),
+          associationId: ASSOCIATION_ID,
+          createdAt: Date.now(),
+        });
+        await (canCreate ? assertSucceeds(create) : assertFails(create));
+      });
+    }
+  }
+});
+
+describe('foreign-key queries', () => {
+  // [collection, field, operator] for the queries that find a record's children
+  const FOREIGN_KEY_QUERIES = [
+    ['distributions', 'patientId', '=='],
+    ['distributions', 'harvestId', '=='],
+    ['distributions', 'extractId', '=='],
+    ['extracts', 'harvestIds', 'array-contains'],
+    ['harvests', 'plantId', '=='],
+    ['wasteDisposals', 'sourceEntityId', '=='],
+    ['inventoryMovements', 'sourceId', '=='],
+  ];
+  const readers = { ...ACCESS_MATRIX, inventoryMovements: { read: ['owner', 'admin', 'cultivator'] } };
+
+  for (const [collection, field, operator] of FOREIGN_KEY_QUERIES) {
+    for (const role of ROLES) {
+      const canRead = readers[collection].read.includes(role);
+
+      test(`${role} ${canRead ? 'can' : 'cannot'} query ${collection} by ${field} in the association`, async () => {
+        const query = dbFor(uidFor(role)).collection(collection)
+          .where('associationId', '==', ASSOCIATION_ID)
+          .where(field, operator, 'seeded')
+          .get();
+        await (canRead ? assertSucceeds(query) : assertFails(query));
+      });
+    }
+
+    test(`${collection} cannot be queried by ${field} alone`, async () => {
+      await assertFails(dbFor(uidFor('owner')).collection(collection).where(field, operator, 'seeded').get());
+    });
+  }
+
+  test('personal records can be queried by their owner only', async () => {
+    const query = (userId) => dbFor(userId).collection('harvests')
+      .where('userId', '==', 'grower')
+      .where('plantId', '==', 'personal-plant')
+      .get();
+    await assertSucceeds(query('grower'));
+    await assertFails(query('stranger'));
+  });
+});
+
+// The queries the app sends, as built by the firebase/ modules
+describe('feature queries', () => {
+  // getEntityAuditLogs (audit history and restore)
+  for (const role of ROLES) {
+    const canRead = ACCESS_MATRIX.auditLogs.read.includes(role);
+
+    test(`${role} ${canRead ? 'can' : 'cannot'} load an entity's audit history`, async () => {
+      const query = dbFor(uidFor(role)).collection('auditLogs')
+        .where('associationId', '==', ASSOCIATION_ID)
+        .where('entityType', '==', 'plant')
+        .where('entityId', '==', 'seeded')
+        .get();
+      await (canRead ? assertSucceeds(query) : assertFails(query));
+    });
+  }
+
+  test('personal audit history is limited to its owner', async () => {
+    const query = (userId) => dbFor(userId).collection('auditLogs')
+      .where('userId', '==', 'grower')
+      .where('entityType', '==', 'plant')
+      .where('entityId', '==', 'personal-plant')
+      .get();
+    await assertSucceeds(query('grower'));
+    await assertFails(query('stranger'));
+  });
+
+  test('an entity\'s audit history cannot be queried without a scope', async () => {
+    await assertFails(dbFor(uidFor('owner')).collection('auditLogs')
+      .where('entityType', '==', 'plant')
+      .where('entityId', '==', 'seeded')
+      .get());
+  });
+
+  // getReferenceMovements (waste disposal ledger)
+  for (const role of ROLES) {
+    const canRead = ['owner', 'admin', 'cultivator'].includes(role);
+
+    test(`${role} ${canRead ? 'can' : 'cannot'} load a waste disposal's ledger entries`, async () => {
+      const query = dbFor(uidFor(role)).collection('inventoryMovements')
+        .where('associationId', '==', ASSOCIATION_ID)
+        .where('referenceType', '==', 'wasteDisposal')
+        .where('referenceId', '==', 'seeded')
+        .get();
+      await (canRead ? assertSucceeds(query) : assertFails(query));
+    });
+  }
+
+  test('ledger entries cannot be queried by reference alone', async () => {
+    await assertFails(dbFor(uidFor('owner')).collection('inventoryMovements')
+      .where('referenceType', '==', 'wasteDisposal')
+      .where('referenceId', '==', 'seeded')
+      .get());
+  });
+
+
+  test('members list their association\'s sequence counters', async () => {
+    await seed((db) => db.collection('sequences').doc(`assoc_${ASSOCIATION_ID}_plant_2025`).set({
+      scopeKey: `assoc_${ASSOCIATION_ID}`,
+      associationId: ASSOCIATION_ID,
+      entityType: 'plant',
+      year: 2025,
+      lastValue: 3,
+    }));
+
+    const query = (userId) => dbFor(userId).collection('sequences')
+      .where('associationId', '==', ASSOCIATION_ID)
+      .where('scopeKey', '==', `assoc_${ASSOCIATION_ID}`)
+      .get();
+    await assertSucceeds(query(uidFor('volunteer')));
+    await assertFails(query('outsider'));
+    await assertFails(dbFor(uidFor('owner')).collection('sequences')
+      .where('scopeKey', '==', `assoc_${ASSOCIATION_ID}`)
+      .get());
+  });
+
+  test('personal sequence counters are listed by their owner only', async () => {
+    const query = (userId) => dbFor(userId).collection('sequences')
+      .where('userId', '==', 'grower')
+      .where('scopeKey', '==', 'user_grower')
+      .get();
+    await assertSucceeds(query('grower'));
+    await assertFails(query('stranger'));
+  });
+});
+
+describe('missing documents', () => {
+  test('a scope\'s first counter can be read before it exists', async () => {
+    const associationCounter = `assoc_${ASSOCIATION_ID}_plant_2026`;
+    await assertSucceeds(dbFor(uidFor('cultivator')).collection('sequences').doc(associationCounter).get());
+    await assertSucceeds(dbFor('grower').collection('sequences').doc('user_grower_plant_2026').get());
+    await assertFails(dbFor('outsider').collection('sequences').doc(associationCounter).get());
+    await assertFails(dbFor('stranger').collection('sequences').doc('user_grower_plant_2026').get());
+  });
+
+  test('queued log creates can check whether they already landed', async () => {
+    const db = dbFor(uidFor('cultivator'));
+    const logRef = db.collection('plantLogs').doc('queued-log');
+    await assertSucceeds(db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(logRef);
+      if (!snapshot.exists) {
+        transaction.set(logRef, {
+          userId: uidFor('cultivator'),
+          associationId: ASSOCIATION_ID,
+          plantId: 'seeded',
+          logType: 'note',
+          date: Date.now(),
+        });
+      }
+    }));
+    await assertSucceeds(db.collection('environmentLogs').doc('queued-reading').get());
+    await assertFails(testEnv.unauthenticatedContext().firestore().collection('plantLogs').doc('queued-log-2').get());
+  });
+});
+
+describe('non-members', () => {
+  test('outsiders cannot read association records', async () => {
+    await assertFails(dbFor('outsider').collection('plants').doc('seeded').get());
+    await assertFails(dbFor('outsider').collection('patients').doc('seeded').get());
+  });
+
+  test('inactive members lose access', async () => {
+    await assertFails(dbFor('inactive-user').collection('harvests').doc('seeded').get());
+  });
+
+  test('unauthenticated users are denied', async () => {
+    const db = testEnv.unauthenticatedContext().firestore();
+    await assertFails(db.collection('plants').doc('seeded').get());
+  });
+
+  test('records cannot be created for another user', async () => {
+    await assertFails(dbFor(uidFor('admin')).collection('plants').doc('forged').set({
+      userId: uidFor('owner'),
+      associationId: ASSOCIATION_ID,
+    }));
+  });
+
+  test('owners and admins can re-create a deleted record from its audit entry', async () => {
+    await seed(async (db) => {
+      await db.collection('auditLogs').doc('plant-restored').set({
+        associationId: ASSOCIATION_ID,
+        entityType: 'plant',
+        entityId: 'restored',
+      });
+      await db.collection('auditLogs').doc('plant-other').set({
+        associationId: ASSOCIATION_ID,
+        entityType: 'plant',
+        entityId: 'another-plant',
+      });
+      await db.collection('auditLogs').doc('patient-restored').set({
+        associationId: ASSOCIATION_ID,
+        entityType: 'patient',
+        entityId: 'restored',
+      });
+    });
+
+    const restored = (restoredFromLogId) => ({
+      userId: uidFor('cultivator'),
+      associationId: ASSOCIATION_ID,
+      strain: 'Restored',
+      restoredFromLogId,
+    });
+    const adminPlants = dbFor(uidFor('admin')).collection('plants');
+
+    // The audit entry must belong to this record, by id and type
+    await assertFails(adminPlants.doc('restored').set(restored('plant-other')));
+    await assertFails(adminPlants.doc('restored').set(restored('patient-restored')));
+    await assertFails(adminPlants.doc('restored').set(restored('seeded')));
+    await assertSucceeds(adminPlants.doc('restored').set(restored('plant-restored')));
+    // Other roles can't, and the audit entry must exist
+    await assertFails(dbFor(uidFor('cultivator')).collection('plants').doc('restored-2').set({
+      ...restored('plant-restored'),
+      userId: uidFor('owner'),
+    }));
+    await assertFails(adminPlants.doc('restored-3').set(restored('missing-log')));
+  });
+});
+
+describe('permission flags', () => {
+  test('a patient cannot create distributions', async () => {
+    await assertFails(dbFor(uidFor('patient')).collection('distributions').doc('patient-dist').set({
+      userId: uidFor('patient'),
+      associationId: ASSOCIATION_ID,
+      quantityGrams: 5,
+    }));
+  });
+
+  test('an explicit flag overrides the role default', async () => {
+    await seed((db) => db.collection('members').doc(`${ASSOCIATION_ID}_trusted-cultivator`).set({
+      associationId: ASSOCIATION_ID,
+      userId: 'trusted-cultivator',
+      role: 'cultivator',
+      isActive: true,
+      ...ROLE_PERMISSIONS.cultivator,
+      canManageDistributions: true,
+    }));
+
+    await assertSucceeds(dbFor('trusted-cultivator').collection('distributions').doc('trusted-dist').set({
+      userId: 'trusted-cultivator',
+      associationId: ASSOCIATION_ID,
+    }));
+  });
+
+  test('allowance overrides are approved by the caller as owner or admin', async () => {
+    const create = (userId, docId, override) => dbFor(userId).collection('distributions').doc(docId).set({
+      userId,
+      associationId: ASSOCIATION_ID,
+      quantityGrams: 50,
+      allowanceOverride: { approvedAt: Date.now(), limitGrams: 30, usedGrams: 0, ...override },
+    });
+
+    await assertSucceeds(create(uidFor('admin'), 'override-ok', { approvedBy: uidFor('admin'), reason: 'Dose adjustment' }));
+    await assertFails(create(uidFor('admin'), 'override-forged', { approvedBy: uidFor('owner'), reason: 'Dose adjustment' }));
+    await assertFails(create(uidFor('admin'), 'override-no-reason', { approvedBy: uidFor('admin') }));
+    // trusted-cultivator may manage distributions but isn't an owner or admin
+    await assertFails(create('trusted-cultivator', 'override-cultivator', { approvedBy: 'trusted-cultivator', reason: 'Dose adjustment' }));
+  });
+
+  test('distribution managers share each patient\'s allowance period', async () => {
+    const periodAs = (userId) => dbFor(userId).collection('allowancePeriods').doc('patient1_2025-06');
+    const period = (userId) => ({
+      patientId: 'patient1',
+      associationId: ASSOCIATION_ID,
+      userId,
+      period: '2025-06',
+      usedGrams: { flower: 10, extract: 0, oil: 0 },
+      updatedAt: Date.now(),
+    });
+
+    // Read before it exists by the first distribution of the month
+    await assertSucceeds(periodAs(uidFor('admin')).get());
+    await assertSucceeds(periodAs(uidFor('admin')).set(period(uidFor('admin'))));
+    await assertSucceeds(periodAs(uidFor('owner')).set(period(uidFor('owner'))));
+    await assertFails(periodAs(uidFor('cultivator')).set(period(uidFor('cultivator'))));
+    await assertFails(periodAs('outsider').get());
+    await assertFails(periodAs(uidFor('owner')).delete());
+  });
+
+  test('COA overrides are approved by the caller as owner or admin', async () => {
+    const create = (docId, override) => dbFor(uidFor('admin')).collection('distributions').doc(docId).set({
+      userId: uidFor('admin'),
+      associationId: ASSOCIATION_ID,
+      harvestId: 'seeded',
+      coaOverride: { approvedAt: Date.now(), batchStatus: 'missing', ...override },
+    });
+
+    await assertSucceeds(create('coa-override-ok', { approvedBy: uidFor('admin'), reason: 'Lab delayed' }));
+    await assertFails(create('coa-override-forged', { approvedBy: uidFor('owner'), reason: 'Lab delayed' }));
+    await assertFails(create('coa-override-no-reason', { approvedBy: uidFor('admin'), reason: '' }));
+  });
+
+  test('signed distributions cannot be edited', async () => {
+    await seed((db) => db.collection('distributions').doc('signed-dist').set({
+      userId: 'trusted-cultivator',
+      associationId: ASSOCIATION_ID,
+      quantityGrams: 5,
+      recipientSignature: { paths: ['M 0 0 L 10 10'], signerName: 'Patient', signedAt: Date.now(), hash: 'abc' },
+    }));
+
+    await assertFails(dbFor(uidFor('owner')).collection('distributions').doc('signed-dist').update({ quantityGrams: 50 }));
+    // Only owners and admins may delete them, not every distribution manager
+    await assertFails(dbFor('trusted-cultivator').collection('distributions').doc('signed-dist').delete());
+    await assertSucceeds(dbFor(uidFor('owner')).collection('distributions').doc('signed-dist').delete());
+  });
+
+  test('members cannot raise their own role', async () => {
+    const memberRef = dbFor(uidFor('cultivator')).collection('members').doc(`${ASSOCIATION_ID}_${uidFor('cultivator')}`);
+    await assertFails(memberRef.update({ role: 'admin' }));
+    await assertFails(memberRef.update({ canManageDistributions: true }));
+    await assertSucceeds(memberRef.update({ phone: '555-0100', updatedAt: Date.now() }));
+  });
+
+  test('admins can change members but not the owner', async () => {
+    const db = dbFor(uidFor('admin'));
+    await assertSucceeds(db.collection('members').doc(`${ASSOCIATION_ID}_${uidFor('volunteer')}`).update({ canViewReports: true }));
+    await assertFails(db.collection('members').doc(`${ASSOCIATION_ID}_${uidFor('owner')}`).update({ isActive: false }));
+  });
+
+  test('managers can only add their own association to another profile', async () => {
+    await seed(db => db.collection('users').doc('new-member').set({ associationIds: ['other-assoc'] }));
+    const profileAs = (userId) => dbFor(userId).collection('users').doc('new-member');
+
+    await assertFails(profileAs(uidFor('cultivator')).update({ associationIds: ['other-assoc', ASSOCIATION_ID] }));
+    await assertFails(profileAs(uidFor('owner')).update({ associationIds: ['other-assoc', 'assoc2'] }));
+    await assertFails(profileAs(uidFor('owner')).update({ associationIds: [ASSOCIATION_ID] }));
+    await assertFails(profileAs(uidFor('owner')).update({ associationIds: ['other-assoc', ASSOCIATION_ID, 'assoc2'] }));
+    await assertSucceeds(profileAs(uidFor('admin')).update({ associationIds: ['other-assoc', ASSOCIATION_ID] }));
+    // Removals are left to the profile's own user
+    await assertFails(profileAs(uidFor('owner')).update({ associationIds: ['other-assoc'] }));
+    await assertSucceeds(profileAs('new-member').update({ associationIds: [ASSOCIATION_ID] }));
+  });
+
+  test('invitees can join with the invited role only', async () => {
+    const db = dbFor('invitee', 'invitee@example.com');
+    const memberRef = db.collection('members').doc(`${ASSOCIATION_ID}_invitee`);
+    const member = {
+      associationId: ASSOCIATION_ID,
+      userId: 'invitee',
+      invitationId: 'invite1',
+      isActive: true,
+    };
+
+    await assertFails(memberRef.set({ ...member, role: 'admin' }));
+    await assertSucceeds(memberRef.set({ ...member, role: 'cultivator' }));
+  });
+
+  test('invitation tokens open by hash but cannot be listed', async () => {
+    const db = testEnv.unauthenticatedContext().firestore();
+    await assertSucceeds(db.collection('invitationTokens').doc('token-hash').get());
+    await assertFails(db.collection('invitationTokens').get());
+    await assertFails(dbFor('outsider').collection('invitationTokens').doc('forged').set({
+      invitationId: 'forged',
+      associationId: ASSOCIATION_ID,
+    }));
+  });
+
+  test('invitees can only mark their token used', async () => {
+    const tokenRef = dbFor('invitee', 'invitee@example.com').collection('invitationTokens').doc('token-hash');
+    await assertFails(tokenRef.update({ expiresAt: Date.now() + 365 * 24 * 60 * 60 * 1000 }));
+    await assertSucceeds(tokenRef.update({ usedAt: Date.now() }));
+  });
+
+  test('audit logs and the inventory ledger are immutable', async () => {
+    const db = dbFor(uidFor('owner'));
+    await assertFails(db.collection('auditLogs').doc('seeded').update({ action: 'delete' }));
+    await assertFails(db.collection('auditLogs').doc('seeded').delete());
+    await assertFails(db.collection('inventoryMovements').doc('movement').update({ quantityGrams: 0 }));
+  });
+
+  test('audit entries must advance the audit chain', async () => {
+    const db = dbFor(uidFor('volunteer'));
+    const append = (logId, sequence, previousHash, hash) => {
+      const batch = db.batch();
+      batch.set(db.collection('auditLogs').doc(logId), {
+        userId: uidFor('volunteer'),
+        associationId: ASSOCIATION_ID,
+        action: 'create',
+        sequence,
+        previousHash,
+        hash,
+        timestamp: Date.now(),
+      });
+      batch.set(db.collection('auditChains').doc(ASSOCIATION_ID), {
+        sequence,
+        lastHash: hash,
+        lastLogId: logId,
+        updatedAt: Date.now(),
+      });
+      return batch.commit();
+    };
+
+    await assertSucceeds(append('chain-1', 1, '', 'hash-1'));
+    await assertSucceeds(append('chain-2', 2, 'hash-1', 'hash-2'));
+    // Reusing a position, skipping one or linking to the wrong entry is rejected
+    await assertFails(append('chain-2b', 2, 'hash-1', 'hash-2b'));
+    await assertFails(append('chain-4', 4, 'hash-2', 'hash-4'));
+    await assertFails(append('chain-3', 3, 'hash-1', 'hash-3'));
+    // So is writing an entry without the head
+    await assertFails(db.collection('auditLogs').doc('unchained').set({
+      userId: uidFor('volunteer'),
+      associationId: ASSOCIATION_ID,
+      sequence: 3,
+    }));
+    // Outsiders can't read the association's chain, and heads can't be removed
+    await assertFails(dbFor('outsider').collection('auditChains').doc(ASSOCIATION_ID).get());
+    await assertFails(dbFor(uidFor('owner')).collection('auditChains').doc(ASSOCIATION_ID).delete());
+  });
+
+  test('members without report access can append through a transaction', async () => {
+    for (const role of ['volunteer', 'patient']) {
+      const db = dbFor(uidFor(role));
+      const headRef = db.collection('auditChains').doc(ASSOCIATION_ID);
+      const logRef = db.collection('auditLogs').doc(`${role}-transaction-entry`);
+
+      // Same steps as appendAuditEntry
+      await assertSucceeds(db.runTransaction(async (transaction) => {
+        const head = (await transaction.get(headRef)).data();
+        const sequence = head.sequence + 1;
+        const hash = `hash-${role}-${sequence}`;
+        transaction.set(logRef, {
+          userId: uidFor(role),
+          associationId: ASSOCIATION_ID,
+          action: 'update',
+          sequence,
+          previousHash: head.lastHash,
+          hash,
+          timestamp: Date.now(),
+        });
+        transaction.set(headRef, { sequence, lastHash: hash, lastLogId: logRef.id, updatedAt: Date.now() });
+      }));
+    }
+  });
+
+  test('sequence counters advance only by the allocations written with them', async () => {
+    const counterId = `assoc_${ASSOCIATION_ID}_clone_2025`;
+    // Same writes as reserveControlNumbers: the counter plus one allocation per number
+    const allocate = (userId, sequences, lastValue) => {
+      const db = dbFor(userId);
+      const counterRef = db.collection('sequences').doc(counterId);
+      const batch = db.batch();
+      batch.set(counterRef, {
+        scopeKey: `assoc_${ASSOCIATION_ID}`,
+        associationId: ASSOCIATION_ID,
+        entityType: 'clone',
+        year: 2025,
+        lastValue,
+        updatedAt: Date.now(),
+      }, { merge: true });
+      for (const sequence of sequences) {
+        batch.set(counterRef.collection('allocations').doc(String(sequence).padStart(8, '0')), {
+          sequence,
+          controlNumber: `CL-${sequence}`,
+          entityType: 'clone',
+          entityId: `clone-${sequence}`,
+          allocatedBy: userId,
+          allocatedAt: Date.now(),
+        });
+      }
+      return batch.commit();
+    };
+    const cultivator = uidFor('cultivator');
+
+    await assertSucceeds(allocate(cultivator, [1, 2], 2));
+    await assertSucceeds(allocate(cultivator, [3, 4], 4));
+    // No rollback, no skipping ahead of the allocations, no reusing a number
+    await assertFails(allocate(cultivator, [], 1));
+    await assertFails(allocate(cultivator, [5], 7));
+    await assertFails(allocate(cultivator, [7], 7));
+    await assertFails(allocate(cultivator, [4, 5], 5));
+    // Allocations can't be written without advancing the counter over them
+    await assertFails(dbFor(cultivator).collection('sequences').doc(counterId)
+      .collection('allocations').doc('00000005').set({ sequence: 5 }));
+    await assertFails(dbFor(cultivator).collection('sequences').doc(counterId).update({ associationId: 'assoc2' }));
+    await assertFails(allocate('outsider', [5], 5));
+  });
+
+  test('only owners and admins can change association settings', async () => {
+    await assertSucceeds(dbFor(uidFor('admin')).collection('associations').doc(ASSOCIATION_ID).update({ controlNumberFormats: {} }));
+    await assertFails(dbFor(uidFor('cultivator')).collection('associations').doc(ASSOCIATION_ID).update({ name: 'Renamed' }));
+    await assertSucceeds(dbFor(uidFor('volunteer')).collection('associations').doc(ASSOCIATION_ID).update({ patientCounter: 1, updatedAt: Date.now() }));
+  });
+});
+
+describe('personal records', () => {
+  test('owners read and write their own records', async () => {
+    const db = dbFor('grower');
+    await assertSucceeds(db.collection('plants').doc('personal-plant').get());
+    await assertSucceeds(db.collection('plants').doc('personal-plant').update({ strain: 'Renamed' }));
+  });
+
+  test('friends can view plants and stages but not change them', async () => {
+    const db = dbFor('friend');
+    await assertSucceeds(db.collection('plants').doc('personal-plant').get());
+    await assertSucceeds(db.collection('stages').doc('personal-stage').get());
+    await assertFails(db.collection('plants').doc('personal-plant').update({ strain: 'Mine' }));
+  });
+
+  test('strangers cannot view personal plants', async () => {
+    await assertFails(dbFor('stranger').collection('plants').doc('personal-plant').get());
+    await assertFails(dbFor('stranger').collection('stages').doc('personal-stage').get());
+  });
+});
@@ -0,0 +1,133 @@
+// Climate analytics unit tests
+// Run with: npm test
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  calculateVpd,
+  calculateDli,
+  getDailyClimateStats,
+  getClimateAlerts,
+  getEnvironmentStage,
+} = require('../../utils/climateAnalytics');
+
+const reading = (id, date, values) => ({
+  id,
+  environmentId: 'env1',
+  date: new Date(date).getTime(),
+  temp: 24,
+  humidity: 60,
+  lightHours: 18,
+  ...values,
+});
+
+const assertClose = (actual, expected, tolerance = 0.005) => {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${actual} to be within ${tolerance} of ${expected}`);
+};
+
+describe('calculateVpd', () => {
+  test('matches the Tetens equation', () => {
+    assertClose(calculateVpd(25, 50), 1.584);
+    assertClose(calculateVpd(20, 70), 0.701);
+  });
+
+  test('is zero at saturation and the full pressure in dry air', () => {
+    assert.equal(calculateVpd(25, 100), 0);
+    assertClose(calculateVpd(25, 0), 3.168);
+  });
+
+  test('clamps humidity outside 0-100%', () => {
+    assert.equal(calculateVpd(25, 120), 0);
+    assert.equal(calculateVpd(25, -10), calculateVpd(25, 0));
+  });
+});
+
+describe('calculateDli', () => {
+  test('integrates PPFD over the photoperiod', () => {
+    assertClose(calculateDli(600, 18), 38.88);
+    assert.equal(calculateDli(0, 18), 0);
+  });
+});
+
+describe('getDailyClimateStats', () => {
+  test('groups readings by day, oldest first', () => {
+    const stats = getDailyClimateStats([
+      reading('b', '2025-03-02T10:00:00', { temp: 26 }),
+      reading('a1', '2025-03-01T08:00:00', { temp: 20, humidity: 70 }),
+      reading('a2', '2025-03-01T20:00:00', { temp: 24, humidity: 50 }),
+    ]);
+
+    assert.equal(stats.length, 2);
+    assert.ok(stats[0].day < stats[1].day);
+    assert.equal(stats[0].readings, 2);
+    assert.deepEqual(stats[0].temp, { min: 20, max: 24, avg: 22 });
+    assert.deepEqual(stats[0].humidity, { min: 50, max: 70, avg: 60 });
+    assert.equal(stats[1].readings, 1);
+    assert.deepEqual(stats[1].temp, { min: 26, max: 26, avg: 26 });
+  });
+
+  test('derives VPD per reading before summarizing', () => {
+    const [day] = getDailyClimateStats([
+      reading('a', '2025-03-01T08:00:00', { temp: 25, humidity: 50 }),
+      reading('b', '2025-03-01T09:00:00', { temp: 20, humidity: 70 }),
+    ]);
+
+    assertClose(day.vpd.max, calculateVpd(25, 50));
+    assertClose(day.vpd.min, calculateVpd(20, 70));
+  });
+
+  test('reports DLI only when a PPFD is known', () => {
+    const records = [reading('a', '2025-03-01T08:00:00', { lightHours: 12 })];
+
+    assert.equal(getDailyClimateStats(records)[0].dli, undefined);
+    assertClose(getDailyClimateStats(records, { id: 'env1', ppfd: 500 })[0].dli.avg, 21.6);
+    // A measured PPFD wins over the environment's typical value
+    const measured = [reading('b', '2025-03-01T08:00:00', { lightHours: 12, ppfd: 1000 })];
+    assertClose(getDailyClimateStats(measured, { id: 'env1', ppfd: 500 })[0].dli.avg, 43.2);
+  });
+
+  test('returns nothing without readings', () => {
+    assert.deepEqual(getDailyClimateStats([]), []);
+  });
+});
+
+describe('getClimateAlerts', () => {
+  test('flags values outside the stage targets, newest first', () => {
+    const alerts = getClimateAlerts([
+      reading('hot', '2025-03-01T12:00:00', { temp: 30, humidity: 60, lightHours: 18 }),
+      reading('dry', '2025-03-02T12:00:00', { temp: 24, humidity: 40, lightHours: 18 }),
+    ], 'Veg');
+
+    assert.deepEqual(alerts.map(alert => `${alert.recordId}:${alert.metric}:${alert.direction}`), [
+      'dry:humidity:low',
+      'dry:vpd:high',
+      'hot:temp:high',
+      'hot:vpd:high',
+    ]);
+    assert.deepEqual(alerts.find(alert => alert.metric === 'temp').target, { min: 22, max: 28 });
+  });
+
+  test('uses the bands of the given stage', () => {
+    const record = reading('a', '2025-03-01T12:00:00', { temp: 24, humidity: 50, lightHours: 12 });
+
+    assert.ok(getClimateAlerts([record], 'Veg').some(alert => alert.metric === 'lightHours'));
+    assert.ok(!getClimateAlerts([record], 'Flower').some(alert => alert.metric === 'lightHours'));
+  });
+
+  test('skips DLI when it cannot be derived', () => {
+    const record = reading('a', '2025-03-01T12:00:00', { temp: 24, humidity: 62, lightHours: 18 });
+
+    assert.ok(!getClimateAlerts([record], 'Veg').some(alert => alert.metric === 'dli'));
+    assert.ok(getClimateAlerts([record], 'Veg', { id: 'env1', ppfd: 100 }).some(alert => alert.metric === 'dli'));
+  });
+});
+
+describe('getEnvironmentStage', () => {
+  test('picks the most common current stage', () => {
+    const plants = [{ currentStage: 'Flower' }, { currentStage: 'Veg' }, { currentStage: 'Flower' }, {}];
+    assert.equal(getEnvironmentStage(plants), 'Flower');
+  });
+
+  test('falls back to Veg without staged plants', () => {
+    assert.equal(getEnvironmentStage([{}]), 'Veg');
+  });
+});
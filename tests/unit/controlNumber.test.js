@@ -0,0 +1,133 @@
+// Control number and sequence unit tests
+// Run with: npm test
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  DEFAULT_CONTROL_NUMBER_FORMATS,
+  findSequenceGaps,
+  formatControlNumber,
+  generateControlNumber,
+  generateDistributionNumber,
+  getEnvironmentCode,
+  parseControlNumber,
+  validateControlNumberFormat,
+} = require('../../utils/controlNumber');
+
+const date = new Date(2025, 2, 7, 9, 5); // 2025-03-07 09:05, local time
+
+describe('formatControlNumber', () => {
+  test('fills the default templates', () => {
+    assert.equal(
+      formatControlNumber(DEFAULT_CONTROL_NUMBER_FORMATS.plant, { sequence: 1, date, environmentCode: 'T1' }),
+      'A-T1-2025-00001'
+    );
+    assert.equal(formatControlNumber(DEFAULT_CONTROL_NUMBER_FORMATS.distribution, { sequence: 42, date }), 'D-2025-00042');
+  });
+
+  test('supports date parts, sequence widths and a fallback environment', () => {
+    assert.equal(formatControlNumber('h-{YEAR}{MONTH}{DAY}-{SEQ:3}', { sequence: 7, date }), 'H-20250307-007');
+    assert.equal(formatControlNumber('{ENV}/{DATETIME}/{SEQ:2}', { sequence: 123, date }), 'ENV/202503070905/123');
+  });
+
+  test('adds three random letters for {RANDOM}', () => {
+    assert.match(formatControlNumber('{RANDOM}-{YEAR}-{SEQ}', { sequence: 1, date }), /^[A-Z]{3}-2025-00001$/);
+  });
+});
+
+describe('validateControlNumberFormat', () => {
+  test('accepts the defaults', () => {
+    Object.values(DEFAULT_CONTROL_NUMBER_FORMATS).forEach(template => {
+      assert.equal(validateControlNumberFormat(template), null);
+    });
+    assert.equal(validateControlNumberFormat('H-{DATETIME}-{SEQ:6}'), null);
+  });
+
+  test('rejects templates that cannot stay unique', () => {
+    assert.equal(validateControlNumberFormat('  '), 'Format cannot be empty');
+    assert.equal(validateControlNumberFormat('A-{YEAR}'), 'Format must include {SEQ}');
+    assert.equal(validateControlNumberFormat('A-{MONTH}-{SEQ}'), 'Format must include {YEAR} or {DATETIME}');
+  });
+
+  test('rejects unknown tokens', () => {
+    assert.equal(validateControlNumberFormat('A-{YEAR}-{SEQ}-{LOT}'), 'Unknown token: {LOT}');
+  });
+});
+
+describe('parseControlNumber', () => {
+  test('reads legacy numbers of every type', () => {
+    assert.deepEqual(parseControlNumber('XYZA20251202143500001'), {
+      type: 'plant',
+      randomLetter: 'XYZ',
+      datetime: '202512021435',
+      year: 2025,
+      month: 12,
+      day: 2,
+      hours: 14,
+      minutes: 35,
+      sequence: 1,
+    });
+    assert.equal(parseControlNumber('XCL20251202143500002').type, 'clone');
+    assert.equal(parseControlNumber('XH20251202143500003').type, 'harvest');
+    assert.equal(parseControlNumber('XEX20251202143500004').type, 'extract');
+    assert.equal(parseControlNumber('XO20251202143500006').type, 'order');
+  });
+
+  test('round-trips generated numbers', () => {
+    const parsed = parseControlNumber(generateDistributionNumber(12));
+    assert.equal(parsed.type, 'distribution');
+    assert.equal(parsed.sequence, 12);
+    assert.equal(parseControlNumber(generateControlNumber(3)).type, 'plant');
+  });
+
+  test('returns null for template-based and malformed numbers', () => {
+    assert.equal(parseControlNumber('A-T1-2025-00001'), null);
+    assert.equal(parseControlNumber('XA2025120214350001'), null);
+    assert.equal(parseControlNumber(''), null);
+  });
+});
+
+describe('getEnvironmentCode', () => {
+  test('prefers the configured code', () => {
+    assert.equal(getEnvironmentCode({ code: ' t1 ', name: 'Tent 1' }), 'T1');
+  });
+
+  test('derives a code from the name', () => {
+    assert.equal(getEnvironmentCode({ name: 'Estúdio 2' }), 'ESTU');
+    assert.equal(getEnvironmentCode({ name: '' }), 'ENV');
+    assert.equal(getEnvironmentCode(null), 'ENV');
+  });
+});
+
+describe('findSequenceGaps', () => {
+  const counter = { id: 'assoc_a1_plant_2025', entityType: 'plant', year: 2025, lastValue: 5 };
+  const allocation = (sequence, entityId) => ({ sequence, entityId, controlNumber: `A-${sequence}`, entityType: 'plant' });
+
+  test('lists counted values without an allocation', () => {
+    const report = findSequenceGaps(
+      counter,
+      [allocation(1, 'p1'), allocation(2, 'p2'), allocation(4, 'p4')],
+      new Set(['p1', 'p2', 'p4'])
+    );
+
+    assert.deepEqual(report.missingSequences, [3, 5]);
+    assert.equal(report.allocatedCount, 3);
+    assert.deepEqual(report.orphanedAllocations, []);
+    assert.equal(report.counter, counter);
+  });
+
+  test('lists allocations whose entity was deleted, in sequence order', () => {
+    const report = findSequenceGaps(
+      counter,
+      [allocation(5, 'p5'), allocation(1, 'p1'), allocation(2, 'p2'), allocation(3, 'p3'), allocation(4, 'p4')],
+      new Set(['p1', 'p3'])
+    );
+
+    assert.deepEqual(report.missingSequences, []);
+    assert.deepEqual(report.orphanedAllocations.map(a => a.sequence), [2, 4, 5]);
+  });
+
+  test('reports nothing for an unused counter', () => {
+    const report = findSequenceGaps({ ...counter, lastValue: 0 }, [], new Set());
+    assert.deepEqual(report, { counter: { ...counter, lastValue: 0 }, allocatedCount: 0, missingSequences: [], orphanedAllocations: [] });
+  });
+});
@@ -0,0 +1,105 @@
+// Feed schedule unit tests
+// Run with: npm test
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  getStageWeek,
+  getScheduleWeek,
+  selectScheduleForPlant,
+  scaleScheduleNutrients,
+  getFeedDrift,
+  summarizeFeedDrift,
+} = require('../../utils/feedSchedules');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const schedule = {
+  id: 'schedule1',
+  name: 'Standard',
+  weeks: [
+    { stage: 'Flower', week: 3, nutrients: [] },
+    { stage: 'Veg', week: 2, nutrients: [] },
+    { stage: 'Flower', week: 1, nutrients: [] },
+    { stage: 'Veg', week: 1, nutrients: [] },
+  ],
+};
+
+describe('getStageWeek', () => {
+  test('counts weeks from the stage start, starting at 1', () => {
+    const start = Date.UTC(2025, 0, 1);
+    assert.equal(getStageWeek(start, start), 1);
+    assert.equal(getStageWeek(start, start + 6 * DAY_MS), 1);
+    assert.equal(getStageWeek(start, start + 7 * DAY_MS), 2);
+    assert.equal(getStageWeek(start, start - DAY_MS), 1);
+  });
+});
+
+describe('getScheduleWeek', () => {
+  test('uses the latest planned week reached in the stage', () => {
+    assert.equal(getScheduleWeek(schedule, 'Flower', 2).week, 1);
+    assert.equal(getScheduleWeek(schedule, 'Flower', 3).week, 3);
+    assert.equal(getScheduleWeek(schedule, 'Flower', 9).week, 3);
+  });
+
+  test('falls back to the first week, or null without weeks for the stage', () => {
+    assert.equal(getScheduleWeek({ ...schedule, weeks: [{ stage: 'Veg', week: 2, nutrients: [] }] }, 'Veg', 1).week, 2);
+    assert.equal(getScheduleWeek(schedule, 'Seedling', 1), null);
+  });
+});
+
+describe('selectScheduleForPlant', () => {
+  const byGenetic = { id: 'g', seedGeneticId: 'gen1', weeks: [] };
+  const byEnvironment = { id: 'e', environmentId: 'env1', weeks: [] };
+
+  test('prefers the genetic schedule over the environment one', () => {
+    const plant = { environmentId: 'env1', genetics: { seedGeneticId: 'gen1' } };
+    assert.equal(selectScheduleForPlant([byEnvironment, byGenetic], plant).id, 'g');
+    assert.equal(selectScheduleForPlant([byEnvironment, byGenetic], { environmentId: 'env1' }).id, 'e');
+    assert.equal(selectScheduleForPlant([byGenetic], { environmentId: 'env2' }), null);
+  });
+});
+
+describe('scaleScheduleNutrients', () => {
+  test('scales ml per liter doses to the water amount', () => {
+    const nutrients = [{ name: 'Grow', amountMl: 2 }, { name: 'CalMag' }];
+    assert.deepEqual(scaleScheduleNutrients(nutrients, 3500), [{ name: 'Grow', amountMl: 7 }, { name: 'CalMag' }]);
+    assert.deepEqual(scaleScheduleNutrients(nutrients), nutrients);
+  });
+});
+
+describe('feed drift', () => {
+  const plan = { scheduleId: 'schedule1', scheduleName: 'Standard', stage: 'Veg', week: 1, targetPh: { min: 5.8, max: 6.2 }, targetEcPpm: { min: 800, max: 1000 } };
+  const logs = [
+    { id: 'l1', plantId: 'p1', date: 1, phLevel: 6.0, ecPpm: 1100, feedPlan: plan },
+    { id: 'l2', plantId: 'p1', date: 2, phLevel: 6.5, feedPlan: plan },
+    { id: 'l3', plantId: 'p1', date: 3, phLevel: 6.0 },
+  ];
+
+  test('compares pre-filled feeds with their plan, newest first', () => {
+    const entries = getFeedDrift(logs);
+
+    assert.deepEqual(entries.map(entry => entry.logId), ['l2', 'l1']);
+    assert.ok(Math.abs(entries[0].phDrift - 0.5) < 1e-9);
+    assert.equal(entries[0].phInRange, false);
+    assert.equal(entries[0].ecDrift, undefined);
+    assert.equal(entries[1].ecDrift, 200);
+    assert.equal(entries[1].ecInRange, false);
+  });
+
+  test('summarizes drift over the feeds that recorded each value', () => {
+    const summary = summarizeFeedDrift(getFeedDrift(logs));
+
+    assert.equal(summary.feeds, 2);
+    assert.ok(Math.abs(summary.avgPhDrift - 0.25) < 1e-9);
+    assert.equal(summary.avgEcDrift, 200);
+    assert.equal(summary.phInRangePercent, 50);
+    assert.equal(summary.ecInRangePercent, 0);
+    assert.deepEqual(summarizeFeedDrift([]), {
+      feeds: 0,
+      avgPhDrift: undefined,
+      avgEcDrift: undefined,
+      phInRangePercent: undefined,
+      ecInRangePercent: undefined,
+    });
+  });
+});
@@ -0,0 +1,85 @@
+// Inventory balance unit tests
+// Run with: npm test
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  getHarvestTotalWeight,
+  getHarvestAvailableGrams,
+  getExtractAvailable,
+  summarizeMovements,
+} = require('../../utils/inventoryBalances');
+const { removeUndefinedValues, whereInScope } = require('../../utils/firestoreData');
+
+describe('harvest balances', () => {
+  test('use the most processed weight recorded', () => {
+    assert.equal(getHarvestTotalWeight({ wetWeightGrams: 500, dryWeightGrams: 120, finalWeightGrams: 100 }), 100);
+    assert.equal(getHarvestTotalWeight({ wetWeightGrams: 500, dryWeightGrams: 120 }), 120);
+    assert.equal(getHarvestTotalWeight({ wetWeightGrams: 500, dryWeightGrams: 0 }), 500);
+    assert.equal(getHarvestTotalWeight({}), 0);
+  });
+
+  test('subtract every kind of consumption', () => {
+    const harvest = {
+      dryWeightGrams: 120,
+      distributedGrams: 30,
+      extractedGrams: 40,
+      wastedGrams: 5,
+      adjustedGrams: -5,
+    };
+    assert.equal(getHarvestAvailableGrams(harvest), 50);
+    assert.equal(getHarvestAvailableGrams({ dryWeightGrams: 120 }), 120);
+  });
+});
+
+describe('extract balances', () => {
+  test('track grams and ml separately', () => {
+    assert.deepEqual(
+      getExtractAvailable({ outputWeightGrams: 20, outputVolumeMl: 100, distributedGrams: 5, distributedMl: 30 }),
+      { grams: 15, ml: 70 }
+    );
+  });
+
+  test('leave unrecorded units undefined', () => {
+    assert.deepEqual(getExtractAvailable({ outputVolumeMl: 100 }), { grams: undefined, ml: 100 });
+  });
+});
+
+describe('summarizeMovements', () => {
+  test('sums ledger entries per movement type', () => {
+    const totals = summarizeMovements([
+      { movementType: 'distribution', quantityGrams: 10, quantityMl: 5 },
+      { movementType: 'distribution', quantityGrams: -4 },
+      { movementType: 'extraction', quantityGrams: 40 },
+      { movementType: 'waste', quantityGrams: 3 },
+      { movementType: 'adjustment', quantityGrams: -2 },
+    ]);
+
+    assert.deepEqual(totals, {
+      distributedGrams: 6,
+      extractedGrams: 40,
+      wastedGrams: 3,
+      adjustedGrams: -2,
+      distributedMl: 5,
+      movementCount: 5,
+    });
+  });
+});
+
+describe('firestore data helpers', () => {
+  test('removeUndefinedValues keeps falsy values', () => {
+    assert.deepEqual(
+      removeUndefinedValues({ a: undefined, b: null, c: 0, d: '', e: false }),
+      { b: null, c: 0, d: '', e: false }
+    );
+  });
+
+  test('whereInScope filters on the association, otherwise the owner', () => {
+    const filters = [];
+    const query = { where: (...filter) => { filters.push(filter); return query; } };
+
+    whereInScope(query, { userId: 'u1', associationId: 'a1' });
+    whereInScope(query, { userId: 'u1' });
+
+    assert.deepEqual(filters, [['associationId', '==', 'a1'], ['userId', '==', 'u1']]);
+  });
+});
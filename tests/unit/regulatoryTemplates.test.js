@@ -0,0 +1,170 @@
+// Regulatory report unit tests
+// Run with: npm test
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  buildRegulatoryReport,
+  getRegulatoryPeriodLabel,
+  getRegulatoryPeriodRange,
+  getRegulatoryTemplate,
+  hasBlockingIssues,
+  toRegulatoryCsvRows,
+  validateRegulatoryReport,
+} = require('../../utils/regulatoryTemplates');
+
+const header = {
+  associationName: 'Green Cross',
+  legalName: 'Associação Green Cross',
+  cnpj: '12.345.678/0001-90',
+  anvisaAuthorization: 'AUT-123',
+  responsiblePerson: 'Ana Souza',
+  periodStart: '2025-01-01',
+  periodEnd: '2025-03-31',
+};
+
+const patient = {
+  id: 'pt1',
+  name: 'Maria',
+  documentType: 'cpf',
+  documentNumber: '123.456.789-00',
+  prescribingDoctor: 'Dr. Lima',
+  doctorCrm: 'CRM/SP 123456',
+  prescriptionDate: new Date(2024, 11, 1).getTime(),
+  prescriptionExpirationDate: new Date(2025, 1, 15).getTime(),
+};
+
+const distribution = (date, values) => ({
+  patientId: 'pt1',
+  patientName: 'Maria',
+  date,
+  batchNumber: 'B1',
+  ...values,
+});
+
+const source = {
+  compliance: {
+    dateRange: { start: '2025-01-01', end: '2025-03-31' },
+    harvests: {
+      harvests: [
+        { controlNumber: 'H-1', sourcePlantControlNumber: 'A-1', harvestDate: '2025-01-10', wetWeightGrams: 500, dryWeightGrams: 120, purpose: 'extraction' },
+        { controlNumber: 'H-2', sourcePlantControlNumber: 'A-2', harvestDate: '2025-03-02', wetWeightGrams: 100, dryWeightGrams: 150, purpose: 'flower' },
+      ],
+    },
+    extracts: {
+      extracts: [
+        { controlNumber: 'EX-1', batchNumber: 'B1', extractionDate: '2025-01-20', extractType: 'oil', extractionMethod: 'ethanol', sourceControlNumbers: 'H-1', inputWeightGrams: 100, outputVolumeMl: 250 },
+      ],
+    },
+    distributions: {
+      distributions: [
+        distribution('2025-02-20', { quantityMl: 30, sourceControlNumber: 'EX-1' }),
+        distribution('2025-01-05', { quantityGrams: 10 }),
+      ],
+    },
+    waste: {
+      disposals: [
+        { disposalDate: '2025-03-10', materialType: 'plant', quantityGrams: 40, disposalMethod: 'composting', witnessName: 'João' },
+      ],
+    },
+  },
+  patients: new Map([['pt1', patient]]),
+  plants: [{ currentStage: 'Veg' }, { currentStage: 'Flower' }, { currentStage: 'Veg' }],
+  months: ['2025-01', '2025-02', '2025-03'],
+};
+
+const quarterly = getRegulatoryTemplate('anvisa_quarterly');
+const report = buildRegulatoryReport(quarterly, source, header, new Date(2025, 1, 10));
+const rowsOf = (sectionId) => report.sections.find(section => section.id === sectionId).rows;
+
+describe('regulatory periods', () => {
+  test('cover the month or quarter of the reference date', () => {
+    const date = new Date(2025, 4, 20);
+    assert.deepEqual(getRegulatoryPeriodRange('monthly', date), {
+      startDate: new Date(2025, 4, 1).getTime(),
+      endDate: new Date(2025, 4, 31, 23, 59, 59, 999).getTime(),
+    });
+    assert.deepEqual(getRegulatoryPeriodRange('quarterly', date), {
+      startDate: new Date(2025, 3, 1).getTime(),
+      endDate: new Date(2025, 5, 30, 23, 59, 59, 999).getTime(),
+    });
+    assert.equal(getRegulatoryPeriodLabel('monthly', date), 'May 2025');
+    assert.equal(getRegulatoryPeriodLabel('quarterly', date), 'Q2 2025');
+  });
+});
+
+describe('buildRegulatoryReport', () => {
+  test('counts the plants held in each stage', () => {
+    assert.deepEqual(rowsOf('cultivation'), [{ stage: 'Flower', plants: 1 }, { stage: 'Veg', plants: 2 }]);
+  });
+
+  test('totals each month of the quarter', () => {
+    assert.deepEqual(rowsOf('monthlyTotals'), [
+      { month: '2025-01', harvestedGrams: 120, extractedMl: 250, dispensedGrams: 10, dispensedMl: 0, destroyedGrams: 0 },
+      { month: '2025-02', harvestedGrams: 0, extractedMl: 0, dispensedGrams: 0, dispensedMl: 30, destroyedGrams: 0 },
+      { month: '2025-03', harvestedGrams: 150, extractedMl: 0, dispensedGrams: 0, dispensedMl: 0, destroyedGrams: 40 },
+    ]);
+  });
+
+  test('groups dispensation per patient with their prescription', () => {
+    const [row] = rowsOf('dispensation');
+    assert.equal(row.patientName, 'Maria');
+    assert.equal(row.documentType, 'CPF');
+    assert.equal(row.prescriptionExpiry, '2025-02-15');
+    assert.equal(row.dispensations, 2);
+    assert.equal(row.firstDispensation, '2025-01-05');
+    assert.equal(row.lastDispensation, '2025-02-20');
+    assert.equal(row.quantityGrams, 10);
+    assert.equal(row.quantityMl, 30);
+    assert.equal(row.batches, 'EX-1; B1');
+  });
+
+  test('flags rows that cannot be submitted', () => {
+    const errors = report.issues.filter(issue => issue.severity === 'error');
+    assert.deepEqual(errors.map(({ sectionId, row, column }) => [sectionId, row, column]), [
+      ['harvests', 2, 'dryWeightGrams'],
+      ['dispensation', 1, 'lastDispensation'],
+    ]);
+    assert.ok(hasBlockingIssues(report));
+  });
+});
+
+describe('validateRegulatoryReport', () => {
+  const monthly = getRegulatoryTemplate('anvisa_monthly');
+
+  test('checks the identification block', () => {
+    const issues = validateRegulatoryReport(monthly, { ...header, cnpj: '1234', responsiblePerson: '' }, []);
+    assert.deepEqual(issues, [
+      { severity: 'error', sectionId: 'header', column: 'cnpj', message: 'CNPJ must have 14 digits (00.000.000/0000-00)' },
+      { severity: 'error', sectionId: 'header', column: 'responsiblePerson', message: 'Responsible person is required' },
+    ]);
+    assert.deepEqual(validateRegulatoryReport(monthly, { ...header, cnpj: '12345678000190' }, []), []);
+  });
+
+  test('checks column types and required values', () => {
+    const sections = [{
+      id: 'destruction',
+      rows: [{ disposalDate: '10/03/2025', materialType: 'plant', quantityGrams: -1, witnessName: 'João' }],
+    }];
+    assert.deepEqual(validateRegulatoryReport(monthly, header, sections).map(issue => issue.message), [
+      'Date must be a date (yyyy-MM-dd)',
+      'Mass (g) must be a non-negative number',
+      'Method is required',
+    ]);
+  });
+});
+
+describe('toRegulatoryCsvRows', () => {
+  test('prints the identification block, then one table per section', () => {
+    const rows = toRegulatoryCsvRows(report);
+    assert.deepEqual(rows.slice(0, 3), [
+      ['Report', 'Quarterly consolidated report'],
+      ['Period', 'Q1 2025'],
+      ['Association', 'Green Cross'],
+    ]);
+
+    const start = rows.findIndex(row => row[0] === 'Monthly totals');
+    assert.deepEqual(rows[start - 1], []);
+    assert.deepEqual(rows[start + 1], ['Month', 'Harvested (g)', 'Extracted (ml)', 'Dispensed (g)', 'Dispensed (ml)', 'Destroyed (g)']);
+    assert.deepEqual(rows[start + 2], ['2025-01', 120, 250, 10, 0, 0]);
+  });
+});
@@ -0,0 +1,121 @@
+// Stage forecast unit tests
+// Run with: npm test
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  parseFloweringTime,
+  getStageDurations,
+  summarizeStageHistory,
+  isSameStrain,
+  forecastPlant,
+} = require('../../utils/stageForecast');
+
+// Local midnight of the n-th day after 2025-01-01, as the app stores dates
+const day = (n) => new Date(2025, 0, 1 + n).getTime();
+
+const plant = { id: 'p1', strain: 'Blue Dream', startDate: day(0), currentStage: 'Veg' };
+const stage = (name, startDay) => ({ id: `${name}-${startDay}`, plantId: 'p1', name, startDate: day(startDay) });
+
+describe('parseFloweringTime', () => {
+  test('reads weeks unless the text mentions days', () => {
+    assert.deepEqual(parseFloweringTime('8-10 weeks'), { minDays: 56, maxDays: 70 });
+    assert.deepEqual(parseFloweringTime('60 days'), { minDays: 60, maxDays: 60 });
+    assert.deepEqual(parseFloweringTime('55 a 65 dias'), { minDays: 55, maxDays: 65 });
+    assert.deepEqual(parseFloweringTime('9,5 semanas'), { minDays: 67, maxDays: 67 });
+  });
+
+  test('returns null without a duration', () => {
+    assert.equal(parseFloweringTime(undefined), null);
+    assert.equal(parseFloweringTime('fast'), null);
+  });
+});
+
+describe('stage history', () => {
+  const stages = [stage('Flower', 49), stage('Seedling', 0), stage('Drying', 110), stage('Veg', 14)];
+
+  test('measures completed growth stages', () => {
+    assert.deepEqual(getStageDurations(stages), { Seedling: 14, Veg: 35, Flower: 61 });
+    // Flower ends at the harvest when one is known
+    assert.deepEqual(getStageDurations(stages, day(105)), { Seedling: 14, Veg: 35, Flower: 56 });
+    // The current stage has no duration yet
+    assert.deepEqual(getStageDurations([stage('Seedling', 0), stage('Veg', 14)]), { Seedling: 14 });
+  });
+
+  test('summarizes past plants per stage', () => {
+    assert.deepEqual(summarizeStageHistory([{ Veg: 30, Flower: 60 }, { Veg: 40, Flower: 64 }, { Flower: 70 }]), {
+      Veg: { medianDays: 35, minDays: 30, maxDays: 40, sampleSize: 2 },
+      Flower: { medianDays: 64, minDays: 60, maxDays: 70, sampleSize: 3 },
+    });
+  });
+
+  test('matches strains by genetic, otherwise by name', () => {
+    assert.ok(isSameStrain(plant, { ...plant, strain: ' blue dream ' }));
+    assert.ok(!isSameStrain(
+      { ...plant, genetics: { seedGeneticId: 'g1' } },
+      { ...plant, genetics: { seedGeneticId: 'g2' } }
+    ));
+  });
+});
+
+describe('forecastPlant', () => {
+  test('projects the remaining stages from defaults', () => {
+    const forecast = forecastPlant(plant, [stage('Seedling', 0), stage('Veg', 14)], { now: day(20) });
+
+    assert.deepEqual(forecast.entries.map(({ stage, startDate, endDate, basis, projected }) => [stage, startDate, endDate, basis, projected]), [
+      ['Seedling', day(0), day(14), 'actual', false],
+      ['Veg', day(14), day(49), 'default', false],
+      ['Flower', day(49), day(112), 'default', true],
+    ]);
+    assert.equal(forecast.flipDate, day(49));
+    assert.equal(forecast.flipBasis, 'default');
+    assert.equal(forecast.harvestDate, day(112));
+    assert.equal(forecast.harvestBasis, 'default');
+    assert.deepEqual(forecast.harvestWindow, { earliest: day(105), latest: day(119) });
+    assert.equal(forecast.harvested, false);
+  });
+
+  test('uses the genetic flowering time, then the strain history', () => {
+    const stages = [stage('Veg', 0), stage('Flower', 30)];
+    const genetic = { id: 'g1', floweringTime: '8-10 weeks' };
+
+    const fromGenetic = forecastPlant(plant, stages, { genetic, now: day(40) });
+    assert.equal(fromGenetic.flipDate, day(30));
+    assert.equal(fromGenetic.flipBasis, 'actual');
+    assert.equal(fromGenetic.harvestDate, day(93));
+    assert.equal(fromGenetic.harvestBasis, 'genetic');
+    assert.deepEqual(fromGenetic.harvestWindow, { earliest: day(86), latest: day(100) });
+
+    const history = { Flower: { medianDays: 60, minDays: 55, maxDays: 65, sampleSize: 3 } };
+    const fromHistory = forecastPlant(plant, stages, { genetic, history, now: day(40) });
+    assert.equal(fromHistory.harvestDate, day(90));
+    assert.equal(fromHistory.harvestBasis, 'history');
+  });
+
+  test('never ends the current stage before now', () => {
+    const forecast = forecastPlant(plant, [stage('Veg', 0)], { now: day(60) });
+    assert.equal(forecast.entries[0].endDate, day(60));
+    assert.equal(forecast.flipDate, day(60));
+  });
+
+  test('uses shorter defaults for autoflowers', () => {
+    const forecast = forecastPlant(plant, [stage('Seedling', 0)], { genetic: { id: 'g1', floweringType: 'autoflower' }, now: day(0) });
+    assert.equal(forecast.isAutoflower, true);
+    assert.equal(forecast.harvestDate, day(84));
+  });
+
+  test('reports harvested plants as they happened', () => {
+    const forecast = forecastPlant(plant, [stage('Veg', 0), stage('Flower', 30), stage('Drying', 90)], { now: day(120) });
+
+    assert.equal(forecast.harvested, true);
+    assert.equal(forecast.harvestDate, day(90));
+    assert.equal(forecast.harvestBasis, 'actual');
+    assert.deepEqual(forecast.harvestWindow, { earliest: day(90), latest: day(90) });
+    assert.ok(forecast.entries.every(entry => !entry.projected));
+  });
+
+  test('falls back to the current stage for plants without stage records', () => {
+    const forecast = forecastPlant({ ...plant, currentStage: 'Flower' }, [], { now: day(10) });
+    assert.deepEqual(forecast.entries.map(entry => entry.stage), ['Flower']);
+    assert.equal(forecast.flipDate, undefined);
+  });
+});
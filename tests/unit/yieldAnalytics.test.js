@@ -0,0 +1,119 @@
+// Yield analytics unit tests
+// Run with: npm test
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  getEnvironmentAreaM2,
+  parseYieldExpectation,
+  buildPlantYields,
+  computeYieldStats,
+  summarizeYields,
+} = require('../../utils/yieldAnalytics');
+
+const day = (n) => new Date(2025, 0, 1 + n).getTime();
+
+const assertClose = (actual, expected) => {
+  assert.ok(Math.abs(actual - expected) < 1e-6, `expected ${actual} to equal ${expected}`);
+};
+
+const plant = (id, values) => ({ id, strain: 'Blue Dream', environmentId: 'e1', userId: 'grower1', startDate: day(0), ...values });
+const harvest = (plantId, harvestDay, values) => ({ id: `${plantId}-${harvestDay}`, plantId, harvestDate: day(harvestDay), ...values });
+
+const environments = [{ id: 'e1', dimensions: { width: 1, length: 2, unit: 'm' } }];
+const plants = [
+  plant('p1', { genetics: { seedGeneticId: 'g1' } }),
+  plant('p2', { userId: 'grower2' }),
+  plant('p3', { strain: 'Haze' }),
+  plant('p4'),
+];
+const harvests = [
+  harvest('p1', 100, { wetWeightGrams: 400, dryWeightGrams: 100, trimWeightGrams: 10 }),
+  harvest('p1', 105, { wetWeightGrams: 100 }),
+  harvest('p2', 110, { wetWeightGrams: 300, dryWeightGrams: 90, finalWeightGrams: 80 }),
+  harvest('p3', 200, { wetWeightGrams: 200, dryWeightGrams: 50 }),
+];
+
+describe('getEnvironmentAreaM2', () => {
+  test('measures the floor in m², converting feet', () => {
+    assert.equal(getEnvironmentAreaM2(environments[0]), 2);
+    assertClose(getEnvironmentAreaM2({ dimensions: { width: 4, length: 4, unit: 'ft' } }), 1.48644864);
+    assert.equal(getEnvironmentAreaM2({ dimensions: { width: 0, length: 4, unit: 'm' } }), undefined);
+    assert.equal(getEnvironmentAreaM2(null), undefined);
+  });
+});
+
+describe('parseYieldExpectation', () => {
+  test('reads ranges, units and the per-plant or per-m² basis', () => {
+    assert.deepEqual(parseYieldExpectation('400-500g/m²'), { minGrams: 400, maxGrams: 500, per: 'm2' });
+    assert.deepEqual(parseYieldExpectation('1.2 kg/m2'), { minGrams: 1200, maxGrams: 1200, per: 'm2' });
+    const perPlant = parseYieldExpectation('14 oz/plant');
+    assert.equal(perPlant.per, 'plant');
+    assertClose(perPlant.minGrams, 396.893);
+  });
+
+  test('returns null without an amount', () => {
+    assert.equal(parseYieldExpectation('high'), null);
+    assert.equal(parseYieldExpectation(undefined), null);
+  });
+});
+
+describe('buildPlantYields', () => {
+  const yields = buildPlantYields(plants, harvests, environments);
+  const byPlant = (id) => yields.find(item => item.plant.id === id);
+
+  test('totals the harvests of harvested plants only', () => {
+    assert.deepEqual(yields.map(item => item.plant.id), ['p1', 'p2', 'p3']);
+    const p1 = byPlant('p1');
+    assert.equal(p1.harvestCount, 2);
+    assert.equal(p1.firstHarvestDate, day(100));
+    assert.equal(p1.wetGrams, 500);
+    // Only the dried harvest counts towards dry weight and its ratio
+    assert.equal(p1.dryGrams, 100);
+    assert.equal(p1.dryWetGrams, 400);
+    assert.equal(p1.trimGrams, 10);
+    assert.equal(p1.daysToHarvest, 100);
+    assert.equal(byPlant('p2').dryGrams, 80);
+  });
+
+  test('splits the floor between plants harvested in the same run', () => {
+    assert.equal(byPlant('p1').footprintM2, 1);
+    assert.equal(byPlant('p2').footprintM2, 1);
+    assert.equal(byPlant('p3').footprintM2, 2);
+  });
+});
+
+describe('yield stats', () => {
+  const yields = buildPlantYields(plants, harvests, environments);
+
+  test('computes per plant, per m² and ratio figures', () => {
+    const stats = computeYieldStats('e1', 'Tent', yields.slice(0, 2), { minGrams: 80, maxGrams: 100, per: 'plant' });
+
+    assert.equal(stats.plantCount, 2);
+    assert.equal(stats.harvestCount, 3);
+    assert.equal(stats.wetGrams, 800);
+    assert.equal(stats.dryGrams, 180);
+    assert.equal(stats.gramsPerPlant, 90);
+    assert.equal(stats.gramsPerM2, 90);
+    assertClose(stats.dryWetRatio, 180 / 700);
+    assertClose(stats.trimRatio, 10 / 180);
+    assert.equal(stats.avgDaysToHarvest, 105);
+    assert.equal(stats.expectationPercent, 100);
+  });
+
+  test('groups by genetic against its yield claim, best first', () => {
+    const genetics = [{ id: 'g1', name: 'Blue Dream S1', yieldIndoor: '100-200 g/plant' }];
+    const stats = summarizeYields(yields, 'genetic', genetics, key => key);
+
+    assert.deepEqual(stats.map(item => [item.key, item.label, item.gramsPerPlant]), [
+      ['g1', 'Blue Dream S1', 100],
+      ['strain:blue dream', 'Blue Dream', 80],
+      ['strain:haze', 'Haze', 50],
+    ]);
+    assertClose(stats[0].expectationPercent, 100 / 150 * 100);
+  });
+
+  test('groups by grower with the given labels', () => {
+    const stats = summarizeYields(yields, 'grower', [], key => key.toUpperCase());
+    assert.deepEqual(stats.map(item => [item.label, item.plantCount]), [['GROWER2', 1], ['GROWER1', 2]]);
+  });
+});
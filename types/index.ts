@@ -43,18 +43,53 @@ export interface Association {
   description?: string;
   logoUrl?: string;
   status: AssociationStatus;
-  // Counters for control numbers
+  // Counters for control numbers (totals; sequences live in the `sequences` collection)
   plantCounter: number;
   harvestCounter: number;
   extractCounter: number;
   distributionCounter: number;
   orderCounter: number;
   patientCounter: number;
+  controlNumberFormats?: ControlNumberFormats; // Overrides for the default control number templates
   createdAt: number;
   updatedAt: number;
   createdBy: string; // userId who created the association
 }
 
+// Control Number Sequence Types
+export type ControlNumberEntityType = 'plant' | 'clone' | 'harvest' | 'extract' | 'distribution' | 'order';
+
+export type ControlNumberFormats = Partial<Record<ControlNumberEntityType, string>>;
+
+// Counter document for one scope (association or personal account), entity type and year
+export interface SequenceCounter {
+  id: string;
+  scopeKey: string; // "assoc_{associationId}" or "user_{userId}"
+  associationId?: string;
+  userId?: string; // Set for personal (non-association) sequences
+  entityType: ControlNumberEntityType; // Clones share the plant sequence
+  year: number;
+  lastValue: number;
+  updatedAt: number;
+}
+
+// Record of a sequence value handed out to an entity
+export interface SequenceAllocation {
+  sequence: number;
+  controlNumber: string;
+  entityType: ControlNumberEntityType;
+  entityId: string;
+  allocatedBy: string;
+  allocatedAt: number;
+}
+
+export interface SequenceGapReport {
+  counter: SequenceCounter;
+  allocatedCount: number;
+  missingSequences: number[]; // Values below lastValue with no allocation record
+  orphanedAllocations: SequenceAllocation[]; // Allocated, but the entity no longer exists
+}
+
 // Member of an association
 export interface Member {
   id: string;
@@ -72,6 +107,7 @@ export interface Member {
   // Membership info
   joinDate: number;
   invitedBy?: string; // userId who invited this member
+  invitationId?: string; // Invitation accepted to join (checked by security rules)
   consentFormSignedDate?: number;
   consentFormUrl?: string;
   // Status
@@ -90,6 +126,16 @@ export interface Member {
   updatedAt: number;
 }
 
+// Permission flags a member can hold
+export type MemberPermission =
+  | 'canManagePatients'
+  | 'canManagePlants'
+  | 'canManageHarvests'
+  | 'canManageDistributions'
+  | 'canManageMembers'
+  | 'canViewReports'
+  | 'canExportData';
+
 // Association invitation (for inviting new members)
 export type InvitationStatus = 'pending' | 'accepted' | 'rejected' | 'expired';
 
@@ -106,11 +152,28 @@ export interface AssociationInvitation {
   expiresAt: number;
   acceptedAt?: number;
   rejectedAt?: number;
+  tokenHash?: string; // SHA-256 of the single-use invitation link token
+  createdAt: number;
+}
+
+// Public summary of an invitation, keyed by its token hash so the invitee can
+// open the invitation link before they have an account
+export interface InvitationToken {
+  id: string; // SHA-256 of the token
+  invitationId: string;
+  associationId: string;
+  associationName: string;
+  invitedEmail: string;
+  invitedRole: MemberRole;
+  invitedByName: string;
+  message?: string;
+  expiresAt: number;
+  usedAt?: number;
   createdAt: number;
 }
 
 // Audit Log Types
-export type AuditAction = 'create' | 'update' | 'delete';
+export type AuditAction = 'create' | 'update' | 'delete' | 'override';
 
 export interface AuditLog {
   id: string;
@@ -126,8 +189,15 @@ export interface AuditLog {
   changedFields?: string[];
   timestamp: number;
   notes?: string;
+  // Hash chain (entries written before chaining have none of these)
+  sequence?: number; // Position in the association's (or personal) chain, starting at 1
+  previousHash?: string; // Hash of the entry at sequence - 1 ('' for the first entry)
+  hash?: string; // SHA-256 of this entry's content and previousHash
 }
 
+// An entry before it is chained (the chain fields are set when it is appended)
+export type AuditEntryInput = Omit<AuditLog, 'id' | 'sequence' | 'previousHash' | 'hash'>;
+
 // Friend System Types
 export type FriendRequestStatus = 'pending' | 'accepted' | 'rejected';
 
@@ -172,9 +242,11 @@ export interface Environment {
   ventilation?: string;
   notes?: string;
   isPublic: boolean; // If true, friends can view this environment and its plants
+  code?: string; // Short code for the {ENV} control number token
+  ppfd?: number; // Typical canopy PPFD (µmol/m²/s), used for DLI when a reading has none
   createdAt: number;
-  plantCounter: number; // Counter for generating sequential control numbers
-  harvestCounter: number; // Counter for generating sequential harvest control numbers
+  plantCounter: number; // Total plants created in this environment
+  harvestCounter: number; // Total harvests created in this environment
 }
 
 // Plant Types
@@ -279,6 +351,41 @@ export interface Stage {
   startDate: number;
 }
 
+// Stage Forecast Types
+// Where a stage duration came from, from most to least reliable
+export type ForecastBasis = 'actual' | 'history' | 'genetic' | 'default';
+
+// Durations of one stage across past plants of the same strain
+export interface StageDurationStats {
+  medianDays: number;
+  minDays: number;
+  maxDays: number;
+  sampleSize: number;
+}
+
+export type StageHistory = Partial<Record<StageName, StageDurationStats>>;
+
+// One stage of a plant's timeline, recorded or projected
+export interface StageForecastEntry {
+  stage: StageName;
+  startDate: number;
+  endDate: number;
+  basis: ForecastBasis;
+  projected: boolean; // The stage hasn't started yet
+}
+
+export interface PlantForecast {
+  plantId: string;
+  isAutoflower: boolean;
+  entries: StageForecastEntry[];
+  flipDate?: number; // Start of Flower; undefined when the plant started in Flower or later
+  flipBasis?: ForecastBasis;
+  harvestDate: number;
+  harvestBasis: ForecastBasis;
+  harvestWindow: { earliest: number; latest: number };
+  harvested: boolean;
+}
+
 // Log Types (Legacy - kept for backward compatibility)
 export interface WaterRecord {
   id: string;
@@ -291,11 +398,157 @@ export interface WaterRecord {
 export interface EnvironmentRecord {
   id: string;
   environmentId: string;
+  associationId?: string;
   date: number;
   temp: number;
   humidity: number;
   lightHours: number;
+  ppfd?: number; // Measured canopy PPFD (µmol/m²/s)
+  co2?: number; // ppm
+  substrateMoisture?: number; // Volumetric water content (%)
+  reservoirPh?: number;
+  reservoirEc?: number; // mS/cm
   notes: string;
+  source?: EnvironmentRecordSource; // Missing on older records, which were all manual
+  sampleCount?: number; // Sensor readings averaged into this record
+  sensorIds?: string[];
+  windowStart?: number; // Downsampling window covered by a sensor record
+  windowEnd?: number;
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+export type EnvironmentRecordSource = 'manual' | 'sensor';
+
+// Sensor Ingestion Types
+export type SensorType =
+  | 'temp'
+  | 'humidity'
+  | 'co2'
+  | 'ppfd'
+  | 'substrateMoisture'
+  | 'reservoirPh'
+  | 'reservoirEc';
+
+// Maps a physical sensor (as identified by the bridge) to an environment
+export interface Sensor {
+  id: string;
+  userId: string;
+  associationId?: string;
+  sensorId: string; // Identifier sent by the bridge, e.g. the MQTT topic suffix
+  name: string;
+  type: SensorType;
+  environmentId: string;
+  isActive: boolean;
+  lastReadingAt?: number;
+  lastValue?: number;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// A single raw measurement as received from the bridge
+export interface SensorReading {
+  sensorId: string;
+  type?: SensorType; // Optional; the mapped sensor type wins
+  value: number;
+  timestamp: number;
+}
+
+export type SensorReadingRejection = 'invalid' | 'out_of_range' | 'stale' | 'duplicate' | 'unmapped';
+
+export type SensorTransport = 'mqtt' | 'http';
+
+export interface SensorBridgeConfig {
+  transport: SensorTransport;
+  url: string; // ws://host:port for MQTT over WebSockets, http://host:port/readings for HTTP
+  topic: string; // MQTT topic filter; the last level is the sensor id
+  username?: string;
+  password?: string;
+  pollIntervalSeconds: number; // HTTP only
+  windowMinutes: number; // Downsampling window per EnvironmentRecord
+}
+
+export type SensorIngestionState = 'stopped' | 'connecting' | 'running' | 'error';
+
+export interface SensorIngestionStatus {
+  state: SensorIngestionState;
+  error?: string;
+  accepted: number;
+  rejected: Record<SensorReadingRejection, number>;
+  recordsWritten: number;
+  skippedWindows: number; // Windows without temperature and humidity
+  pendingReadings: number;
+  lastReadingAt?: number;
+  lastRecordAt?: number;
+}
+
+// Climate Analytics Types
+export type ClimateMetric = 'temp' | 'humidity' | 'vpd' | 'dli' | 'lightHours';
+
+export interface TargetRange {
+  min: number;
+  max: number;
+}
+
+export interface MetricStats {
+  min: number;
+  max: number;
+  avg: number;
+}
+
+// Readings of one environment aggregated per calendar day
+export interface DailyClimateStats {
+  day: number; // Start of day timestamp
+  readings: number;
+  temp: MetricStats;
+  humidity: MetricStats;
+  vpd: MetricStats;
+  lightHours: MetricStats;
+  dli?: MetricStats; // Only when PPFD is known
+}
+
+export interface ClimateAlert {
+  recordId: string;
+  date: number;
+  metric: ClimateMetric;
+  value: number;
+  target: TargetRange;
+  direction: 'low' | 'high';
+}
+
+// Offline Write Queue Types
+export type QueuedWriteStatus = 'pending' | 'failed' | 'conflict';
+
+// A single document write, stored as plain JSON so it survives app restarts
+export interface QueuedDocumentWrite {
+  type: 'set' | 'update';
+  collection: string;
+  docId: string;
+  data: Record<string, any>;
+  baseUpdatedAt?: number; // Server updatedAt the local edit was based on (conflict detection)
+}
+
+export interface QueuedWrite {
+  id: string;
+  userId: string;
+  description: string; // Human-readable summary, e.g. "Plant log (watering)"
+  writes: QueuedDocumentWrite[]; // Applied together in one transaction
+  auditEntries?: AuditEntryInput[]; // Appended to the audit chain once the writes reach the server
+  status: QueuedWriteStatus;
+  attempts: number;
+  lastError?: string;
+  serverData?: Record<string, any>; // Server copy when a conflict was detected
+  queuedAt: number;
+  lastAttemptAt?: number;
+}
+
+export type SyncState = 'synced' | 'pending' | 'syncing' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pendingCount: number;
+  failedCount: number; // Failed and conflicting writes awaiting review
+  lastSyncedAt?: number;
 }
 
 // ==================== ENHANCED PLANT LOG TYPES ====================
@@ -330,6 +583,74 @@ export interface NutrientEntry {
   npkRatio?: string;    // e.g., "3-1-2"
 }
 
+// ==================== NUTRIENT SCHEDULES ====================
+
+// One week of a feed schedule. Weeks are numbered from the start of their stage.
+export interface NutrientScheduleWeek {
+  stage: StageName;
+  week: number;               // 1-based week within the stage
+  nutrients: NutrientEntry[]; // amountMl is per liter of solution
+  targetPh?: TargetRange;
+  targetEcPpm?: TargetRange;
+  notes?: string;
+}
+
+// Reusable week-by-week feed plan, attached to a genetic or an environment
+export interface NutrientSchedule {
+  id: string;
+  userId: string;
+  associationId?: string;
+  name: string;
+  description?: string;
+  seedGeneticId?: string;
+  environmentId?: string;
+  weeks: NutrientScheduleWeek[];
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// Snapshot of the planned feed a log was pre-filled from, kept for drift reports
+export interface FeedPlanReference {
+  scheduleId: string;
+  scheduleName: string;
+  stage: StageName;
+  week: number;
+  targetPh?: TargetRange;
+  targetEcPpm?: TargetRange;
+}
+
+// The schedule week that applies to a plant right now
+export interface PlannedFeed {
+  schedule: NutrientSchedule;
+  week: NutrientScheduleWeek;
+  reference: FeedPlanReference;
+}
+
+// Planned vs actual pH/EC of one nutrient feed log
+export interface FeedDriftEntry {
+  logId: string;
+  plantId: string;
+  date: number;
+  stage: StageName;
+  week: number;
+  phLevel?: number;
+  targetPh?: TargetRange;
+  phDrift?: number;    // Signed distance from the target midpoint
+  phInRange?: boolean;
+  ecPpm?: number;
+  targetEcPpm?: TargetRange;
+  ecDrift?: number;
+  ecInRange?: boolean;
+}
+
+export interface FeedDriftSummary {
+  feeds: number;
+  avgPhDrift?: number;
+  avgEcDrift?: number;
+  phInRangePercent?: number;
+  ecInRangePercent?: number;
+}
+
 // Medium types for soil/transplant logs
 export type MediumType = 'soil' | 'coco' | 'perlite' | 'vermiculite' | 'rockwool' | 'clay_pebbles' | 'dwc' | 'nft' | 'other';
 
@@ -349,6 +670,7 @@ export interface PlantLog {
   runoffPh?: number;
   runoffEc?: number;
   nutrients?: NutrientEntry[];
+  feedPlan?: FeedPlanReference; // Set when the log was pre-filled from a nutrient schedule
   
   // Soil/Medium additions
   mediumType?: MediumType;
@@ -385,7 +707,9 @@ export interface PlantLog {
   // Common fields
   notes?: string;
   photoUrl?: string;
+  photoThumbnailUrl?: string;
   createdAt: number;
+  updatedAt?: number;
   
   // Bulk update tracking (set when log was created from a bulk update)
   bulkLogId?: string;          // Reference to parent BulkPlantLog
@@ -410,6 +734,7 @@ export interface BulkPlantLog {
   runoffPh?: number;
   runoffEc?: number;
   nutrients?: NutrientEntry[];
+  feedPlan?: FeedPlanReference;
   
   mediumType?: MediumType;
   mediumBrand?: string;
@@ -434,7 +759,10 @@ export interface BulkPlantLog {
   foliarDilution?: string;
   
   notes?: string;
+  photoUrl?: string;
+  photoThumbnailUrl?: string;
   createdAt: number;
+  updatedAt?: number;
 }
 
 // Log type display info for UI
@@ -447,6 +775,42 @@ export interface PlantLogTypeInfo {
   description: string;
 }
 
+// ==================== GROW TASKS ====================
+
+// Task templates; each one completes into a matching plant log
+export type GrowTaskType = 'watering' | 'runoff_check' | 'flip_to_flower' | 'ipm_spray' | 'custom';
+
+export type GrowTaskTarget = 'plant' | 'environment';
+
+export type GrowTaskStatus = 'open' | 'done';
+
+export interface GrowTask {
+  id: string;
+  userId: string;
+  associationId?: string;
+  title: string;
+  taskType: GrowTaskType;
+  logType: PlantLogType;       // Log created when the task is completed
+  notes?: string;
+  // Target: a single plant (PlantLog) or every plant of an environment (BulkPlantLog)
+  targetType: GrowTaskTarget;
+  plantId?: string;
+  environmentId: string;       // The plant's environment for plant tasks
+  targetName: string;          // Control number or environment name, for lists and reminders
+  // Assignee (association member with the cultivator role)
+  assignedTo?: string;
+  assignedToName?: string;
+  dueDate: number;
+  intervalDays?: number;       // Repeats N days after each completion; one-off when unset
+  status: GrowTaskStatus;
+  completionCount: number;
+  lastCompletedAt?: number;
+  lastCompletedBy?: string;
+  lastLogId?: string;          // PlantLog or BulkPlantLog created by the last completion
+  createdAt: number;
+  updatedAt?: number;
+}
+
 // Harvest Types
 export type HarvestPurpose = 'patient' | 'research' | 'extract' | 'personal' | 'donation' | 'other';
 
@@ -457,7 +821,7 @@ export interface Harvest {
   plantId: string;
   userId: string;
   associationId?: string; // Association this harvest belongs to
-  controlNumber: string; // Format: H-{ENV}-{YEAR}-{SEQUENCE}
+  controlNumber: string; // Format configurable per association, e.g. H-{ENV}-{YEAR}-{SEQ}
   harvestDate: number;
   wetWeightGrams: number;
   dryWeightGrams?: number;
@@ -465,16 +829,61 @@ export interface Harvest {
   finalWeightGrams?: number;
   distributedGrams?: number; // Track how much has been distributed
   extractedGrams?: number; // Track how much has been used for extraction
+  wastedGrams?: number; // Track how much has been disposed as waste
+  adjustedGrams?: number; // Net manual inventory corrections (positive removes stock)
   extractedForIds?: string[]; // Track which extracts used this harvest
+  recallId?: string; // Set while an open recall freezes the remaining stock
   status: HarvestStatus;
   purpose: HarvestPurpose;
   destinationPatientId?: string;
   qualityGrade?: 'A' | 'B' | 'C';
   storageLocation?: string;
   notes?: string;
+  photoUrl?: string;
+  photoThumbnailUrl?: string;
   createdAt: number;
 }
 
+// Yield Analytics Types
+export type YieldGroupBy = 'genetic' | 'environment' | 'grower';
+
+// Breeder yield claim, e.g. "400-500g/m²" or "500-600g/plant"
+export interface YieldExpectation {
+  minGrams: number;
+  maxGrams: number;
+  per: 'm2' | 'plant';
+}
+
+// All harvests of one plant, with the canopy area it took up
+export interface PlantYield {
+  plant: Plant;
+  environmentId: string;
+  harvestCount: number;
+  firstHarvestDate: number;
+  wetGrams: number;
+  dryGrams?: number; // Final weight when known, else dry weight; undefined while still drying
+  dryWetGrams?: number; // Wet weight of the harvests that have a dry weight
+  trimGrams: number;
+  footprintM2?: number; // Share of the environment's floor area
+  daysToHarvest: number;
+}
+
+export interface YieldStats {
+  key: string;
+  label: string;
+  plantCount: number;
+  harvestCount: number;
+  wetGrams: number;
+  dryGrams: number;
+  gramsPerPlant?: number;
+  gramsPerM2?: number;
+  dryWetRatio?: number;
+  trimRatio?: number;
+  avgDaysToHarvest?: number;
+  expectation?: YieldExpectation;
+  expectationPercent?: number; // Actual vs the middle of the expected range
+}
+
 // Patient Types
 export type PatientStatus = 'active' | 'inactive' | 'pending';
 
@@ -538,6 +947,101 @@ export interface Extract {
   storageLocation?: string;
   notes?: string;
   labAnalysisId?: string;
+  recallId?: string; // Set while an open recall freezes the remaining stock
+  distributedGrams?: number; // Track how much has been distributed (by weight)
+  distributedMl?: number; // Track how much has been distributed (by volume)
+  createdAt: number;
+}
+
+// Lab Analysis (Certificate of Analysis) Types
+export type LabAnalysisResult = 'pass' | 'fail' | 'pending';
+
+export type LabTestStatus = 'pass' | 'fail' | 'not_tested';
+
+// Potency as percent of dry weight
+export interface CannabinoidPanel {
+  thcPercent?: number;
+  thcaPercent?: number;
+  cbdPercent?: number;
+  cbdaPercent?: number;
+  cbgPercent?: number;
+  cbnPercent?: number;
+  totalThcPercent?: number;
+  totalCbdPercent?: number;
+}
+
+export interface TerpeneResult {
+  name: string;
+  percent: number;
+}
+
+export interface ContaminantResult {
+  analyte: string; // e.g., "E. coli", "Lead", "Myclobutanil", "Ethanol"
+  value?: number;
+  limit?: number; // Action limit from the lab or regulation
+  unit: string; // e.g., "CFU/g", "ppm", "ppb"
+  status: LabTestStatus;
+}
+
+// Safety panel: microbials, heavy metals, pesticides or residual solvents
+export interface ContaminantPanel {
+  status: LabTestStatus;
+  results: ContaminantResult[];
+}
+
+export interface CoaFile {
+  url: string;
+  storagePath: string;
+  fileName: string;
+  contentType: string;
+}
+
+export interface LabAnalysis {
+  id: string;
+  userId: string;
+  associationId?: string; // Association this analysis belongs to
+  labName: string;
+  certificateNumber?: string; // COA number issued by the lab
+  sampleId?: string;
+  sampleDate?: number;
+  analysisDate: number;
+  expirationDate?: number; // COA no longer valid for distribution after this date
+  harvestIds: string[]; // Tested harvests
+  extractIds: string[]; // Tested extracts
+  sourceControlNumbers: string[]; // For display
+  cannabinoids: CannabinoidPanel;
+  terpenes: TerpeneResult[];
+  microbials: ContaminantPanel;
+  heavyMetals: ContaminantPanel;
+  pesticides: ContaminantPanel;
+  residualSolvents: ContaminantPanel;
+  result: LabAnalysisResult;
+  coaFile?: CoaFile;
+  notes?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Inventory Ledger Types
+export type InventoryMovementType = 'distribution' | 'extraction' | 'waste' | 'adjustment';
+
+export type InventorySourceType = 'harvest' | 'extract';
+
+// Immutable ledger entry written in the same transaction as the balance change
+export interface InventoryMovement {
+  id: string;
+  userId: string;
+  associationId?: string;
+  movementType: InventoryMovementType;
+  sourceType: InventorySourceType;
+  sourceId: string;
+  sourceControlNumber?: string; // Denormalized for display
+  quantityGrams: number; // Positive consumes stock, negative returns it (reversals)
+  quantityMl?: number;
+  balanceAfterGrams?: number; // Available grams after this movement
+  referenceType?: 'distribution' | 'extract' | 'wasteDisposal';
+  referenceId?: string;
+  reason?: string;
   createdAt: number;
 }
 
@@ -564,10 +1068,95 @@ export interface Distribution {
   distributionDate: number;
   receivedBy: string; // Who picked up
   signatureConfirmation?: boolean;
+  recipientSignature?: CapturedSignature; // Handwritten signature of whoever picked up - locks the distribution
+  allowanceOverride?: AllowanceOverride; // Set when an admin approved exceeding the monthly allowance
+  coaOverride?: CoaOverride; // Set when an admin released a batch without a passing COA
   notes?: string;
   createdAt: number;
 }
 
+// Handwritten signature drawn on the device's signature pad
+export interface CapturedSignature {
+  paths: string[]; // SVG path data, one entry per stroke
+  width: number; // Size of the pad the strokes were drawn on
+  height: number;
+  signerName: string;
+  signedAt: number;
+  hash: string; // SHA-256 of the strokes, signer, timestamp and signed record fields
+}
+
+// Admin approval for a distribution that exceeds the patient's monthly allowance
+export interface AllowanceOverride {
+  approvedBy: string; // userId of the approving owner/admin
+  approvedAt: number;
+  reason?: string;
+  limitGrams: number; // Allowance in effect when approved
+  usedGrams: number; // Month usage before this distribution
+}
+
+// Admin approval for distributing a batch without a valid passing COA
+export interface CoaOverride {
+  approvedBy: string; // userId of the approving owner/admin
+  approvedAt: number;
+  reason: string;
+  batchStatus: BatchCoaStatus; // COA status of the batch when approved
+}
+
+export type BatchCoaStatus = 'pass' | 'fail' | 'pending' | 'expired' | 'missing';
+
+// Recall Types
+export type RecallStatus = 'open' | 'closed';
+
+export type RecallContactStatus = 'pending' | 'contacted' | 'unreachable' | 'returned';
+
+// A batch covered by a recall: the recalled batch itself or an extract made from it
+export interface RecallBatch {
+  sourceType: InventorySourceType;
+  sourceId: string;
+  controlNumber: string;
+  frozenGrams?: number; // Stock left when the recall froze the batch
+  frozenMl?: number;
+}
+
+// A patient who received recalled material, with the outreach status
+export interface RecallPatient {
+  patientId: string;
+  patientName: string; // Denormalized for display
+  phone?: string;
+  email?: string;
+  distributionIds: string[];
+  distributionNumbers: string[];
+  quantityGrams: number;
+  quantityMl: number;
+  quantityUnits: number;
+  lastDistributionDate: number;
+  contactStatus: RecallContactStatus;
+  contactedAt?: number;
+  contactedBy?: string; // userId of the member who recorded the contact
+  contactNotes?: string;
+}
+
+export interface Recall {
+  id: string;
+  userId: string; // Who opened the recall
+  associationId?: string; // Association this recall belongs to
+  sourceType: InventorySourceType;
+  sourceId: string;
+  controlNumber: string; // Control number of the recalled batch
+  reason: string;
+  status: RecallStatus;
+  batches: RecallBatch[];
+  patients: RecallPatient[];
+  totalDistributedGrams: number;
+  totalDistributedMl: number;
+  openedAt: number;
+  closedAt?: number;
+  closedBy?: string;
+  closingNotes?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 // Order Types
 export type OrderStatus = 'pending' | 'approved' | 'rejected' | 'fulfilled' | 'cancelled';
 
@@ -642,7 +1231,34 @@ export interface WasteDisposal {
   manifestNumber?: string; // For licensed disposal
   witnessName?: string;
   witnessSignature?: boolean;
+  witnessSignatureCapture?: CapturedSignature; // Handwritten signature of the witness
   photoUrl?: string;
+  photoThumbnailUrl?: string;
   notes?: string;
   createdAt: number;
 }
+
+// Photo Types
+export type PhotoFolder = 'plantLogs' | 'harvests' | 'wasteDisposals';
+
+// A photo uploaded to storage, with its thumbnail
+export interface UploadedPhoto {
+  url: string;
+  thumbnailUrl: string;
+  storagePath: string;
+  thumbnailStoragePath: string;
+  width: number;
+  height: number;
+}
+
+// One photo in a plant's timeline, taken from its logs or harvests
+export interface PlantPhotoEntry {
+  id: string;
+  source: 'log' | 'harvest';
+  sourceId: string;
+  date: number;
+  photoUrl: string;
+  thumbnailUrl?: string;
+  logType?: PlantLogType;
+  caption?: string;
+}
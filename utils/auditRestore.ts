@@ -0,0 +1,458 @@
+// Rebuilding earlier versions of a record from its audit trail
+import {
+  AuditLog,
+  MemberPermission,
+  StageName,
+  HarvestStatus,
+  HarvestPurpose,
+  PatientStatus,
+  PatientDocumentType,
+  EnvironmentType,
+  ExtractType,
+  ExtractionMethod,
+  ProductType,
+  GeneticGeneration,
+  SeedType,
+  FloweringType,
+  PlantDominance,
+  DocumentType,
+  DocumentStatus,
+  ProtocolCategory,
+} from '../types';
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+/**
+ * Runtime copy of an entity's shape in types/index.ts, used to check that a
+ * rebuilt version still fits the current schema before it is written back
+ */
+export interface RestoreSchema {
+  collection: string;
+  permission?: MemberPermission; // Checked before writing; documents are guarded by the owner/admin rule alone
+  fields: Record<string, FieldKind>;
+  required: string[];
+  enums?: Record<string, readonly string[]>;
+  preserve?: string[]; // Kept by other workflows (stock ledger, recalls, stages) - existing records keep their current values
+}
+
+// Typed so a value removed from one of the unions fails to compile here
+const values = <T extends string>(...items: T[]): readonly T[] => items;
+
+export const RESTORE_SCHEMAS = {
+  plant: {
+    collection: 'plants',
+    permission: 'canManagePlants',
+    fields: {
+      userId: 'string',
+      associationId: 'string',
+      environmentId: 'string',
+      controlNumber: 'string',
+      strain: 'string',
+      name: 'string',
+      startDate: 'number',
+      stageId: 'string',
+      currentStage: 'string',
+      genetics: 'object',
+      chemotype: 'object',
+      isMotherPlant: 'boolean',
+      motherPlantId: 'string',
+      deletedAt: 'number',
+    },
+    required: ['userId', 'environmentId', 'controlNumber', 'strain', 'startDate'],
+    enums: {
+      currentStage: values<StageName>('Seedling', 'Veg', 'Flower', 'Drying', 'Curing'),
+    },
+    preserve: ['stageId', 'currentStage'],
+  },
+  harvest: {
+    collection: 'harvests',
+    permission: 'canManageHarvests',
+    fields: {
+      plantId: 'string',
+      userId: 'string',
+      associationId: 'string',
+      controlNumber: 'string',
+      harvestDate: 'number',
+      wetWeightGrams: 'number',
+      dryWeightGrams: 'number',
+      trimWeightGrams: 'number',
+      finalWeightGrams: 'number',
+      distributedGrams: 'number',
+      extractedGrams: 'number',
+      wastedGrams: 'number',
+      adjustedGrams: 'number',
+      extractedForIds: 'array',
+      recallId: 'string',
+      status: 'string',
+      purpose: 'string',
+      destinationPatientId: 'string',
+      qualityGrade: 'string',
+      storageLocation: 'string',
+      notes: 'string',
+      photoUrl: 'string',
+      photoThumbnailUrl: 'string',
+      createdAt: 'number',
+    },
+    required: ['plantId', 'userId', 'controlNumber', 'harvestDate', 'wetWeightGrams', 'status', 'purpose', 'createdAt'],
+    enums: {
+      status: values<HarvestStatus>('fresh', 'drying', 'curing', 'processed', 'distributed'),
+      purpose: values<HarvestPurpose>('patient', 'research', 'extract', 'personal', 'donation', 'other'),
+      qualityGrade: ['A', 'B', 'C'],
+    },
+    preserve: ['distributedGrams', 'extractedGrams', 'wastedGrams', 'adjustedGrams', 'extractedForIds', 'recallId'],
+  },
+  patient: {
+    collection: 'patients',
+    permission: 'canManagePatients',
+    fields: {
+      associationId: 'string',
+      userId: 'string',
+      name: 'string',
+      documentType: 'string',
+      documentNumber: 'string',
+      email: 'string',
+      phone: 'string',
+      address: 'string',
+      joinDate: 'number',
+      status: 'string',
+      medicalCondition: 'string',
+      prescribingDoctor: 'string',
+      doctorCrm: 'string',
+      prescriptionDate: 'number',
+      prescriptionExpirationDate: 'number',
+      prescriptionFileUrl: 'string',
+      consentSignedDate: 'number',
+      consentFileUrl: 'string',
+      notes: 'string',
+      createdAt: 'number',
+      updatedAt: 'number',
+      allowanceOilGrams: 'number',
+      allowanceExtractGrams: 'number',
+      allowanceFlowerThcGrams: 'number',
+      allowanceFlowerCbdGrams: 'number',
+    },
+    required: ['userId', 'name', 'documentType', 'documentNumber', 'joinDate', 'status', 'createdAt'],
+    enums: {
+      documentType: values<PatientDocumentType>('cpf', 'rg', 'passport', 'other'),
+      status: values<PatientStatus>('active', 'inactive', 'pending'),
+    },
+  },
+  distribution: {
+    collection: 'distributions',
+    permission: 'canManageDistributions',
+    fields: {
+      distributionNumber: 'string',
+      userId: 'string',
+      associationId: 'string',
+      patientId: 'string',
+      patientName: 'string',
+      productType: 'string',
+      harvestId: 'string',
+      harvestControlNumber: 'string',
+      extractId: 'string',
+      extractControlNumber: 'string',
+      batchNumber: 'string',
+      productDescription: 'string',
+      quantityGrams: 'number',
+      quantityMl: 'number',
+      quantityUnits: 'number',
+      distributionDate: 'number',
+      receivedBy: 'string',
+      signatureConfirmation: 'boolean',
+      recipientSignature: 'object',
+      allowanceOverride: 'object',
+      coaOverride: 'object',
+      notes: 'string',
+      createdAt: 'number',
+    },
+    required: [
+      'distributionNumber', 'userId', 'patientId', 'patientName', 'productType',
+      'batchNumber', 'productDescription', 'distributionDate', 'receivedBy', 'createdAt',
+    ],
+    enums: {
+      productType: values<ProductType>('flower', 'extract', 'oil', 'edible', 'topical', 'other'),
+    },
+    // Quantities and sources are fixed by the stock already moved for this distribution
+    preserve: ['harvestId', 'extractId', 'quantityGrams', 'quantityMl'],
+  },
+  extract: {
+    collection: 'extracts',
+    permission: 'canManageHarvests',
+    fields: {
+      userId: 'string',
+      associationId: 'string',
+      controlNumber: 'string',
+      name: 'string',
+      extractType: 'string',
+      harvestIds: 'array',
+      sourceControlNumbers: 'array',
+      extractionDate: 'number',
+      extractionMethod: 'string',
+      inputWeightGrams: 'number',
+      outputVolumeMl: 'number',
+      outputWeightGrams: 'number',
+      thcMgPerMl: 'number',
+      cbdMgPerMl: 'number',
+      concentration: 'string',
+      carrier: 'string',
+      batchNumber: 'string',
+      expirationDate: 'number',
+      storageLocation: 'string',
+      notes: 'string',
+      labAnalysisId: 'string',
+      recallId: 'string',
+      distributedGrams: 'number',
+      distributedMl: 'number',
+      createdAt: 'number',
+    },
+    required: [
+      'userId', 'controlNumber', 'name', 'extractType', 'harvestIds', 'sourceControlNumbers',
+      'extractionDate', 'extractionMethod', 'inputWeightGrams', 'batchNumber', 'createdAt',
+    ],
+    enums: {
+      extractType: values<ExtractType>('oil', 'tincture', 'concentrate', 'isolate', 'full_spectrum', 'broad_spectrum', 'other'),
+      extractionMethod: values<ExtractionMethod>('co2', 'ethanol', 'butane', 'rosin', 'ice_water', 'olive_oil', 'other'),
+    },
+    preserve: ['harvestIds', 'inputWeightGrams', 'labAnalysisId', 'recallId', 'distributedGrams', 'distributedMl'],
+  },
+  environment: {
+    collection: 'environments',
+    permission: 'canManagePlants',
+    fields: {
+      userId: 'string',
+      associationId: 'string',
+      name: 'string',
+      type: 'string',
+      dimensions: 'object',
+      lightSetup: 'string',
+      ventilation: 'string',
+      notes: 'string',
+      isPublic: 'boolean',
+      code: 'string',
+      ppfd: 'number',
+      createdAt: 'number',
+      plantCounter: 'number',
+      harvestCounter: 'number',
+    },
+    required: ['userId', 'name', 'type', 'isPublic', 'plantCounter', 'harvestCounter'],
+    enums: {
+      type: values<EnvironmentType>('indoor', 'outdoor', 'greenhouse'),
+    },
+    preserve: ['plantCounter', 'harvestCounter'],
+  },
+  seedGenetic: {
+    collection: 'seedGenetics',
+    permission: 'canManagePlants',
+    fields: {
+      userId: 'string',
+      associationId: 'string',
+      name: 'string',
+      breeder: 'string',
+      seedBank: 'string',
+      geneticGeneration: 'string',
+      seedType: 'string',
+      floweringType: 'string',
+      dominance: 'string',
+      lineage: 'string',
+      floweringTime: 'string',
+      expectedThcPercent: 'number',
+      expectedCbdPercent: 'number',
+      terpenes: 'array',
+      description: 'string',
+      aromas: 'array',
+      effects: 'array',
+      growDifficulty: 'string',
+      yieldIndoor: 'string',
+      yieldOutdoor: 'string',
+      heightIndoor: 'string',
+      heightOutdoor: 'string',
+      notes: 'string',
+      createdAt: 'number',
+      updatedAt: 'number',
+    },
+    required: ['userId', 'name', 'createdAt'],
+    enums: {
+      geneticGeneration: values<GeneticGeneration>('S1', 'F1', 'F2', 'F3', 'F4', 'F5', 'IBL', 'BX1', 'BX2', 'BX3', 'polyhybrid', 'unknown'),
+      seedType: values<SeedType>('regular', 'feminized', 'autoflower', 'fast_version', 'cbd', 'cbg'),
+      floweringType: values<FloweringType>('photoperiod', 'autoflower'),
+      dominance: values<PlantDominance>('indica', 'sativa', 'hybrid', 'indica_dominant', 'sativa_dominant', 'balanced'),
+      growDifficulty: ['beginner', 'intermediate', 'advanced'],
+    },
+  },
+  document: {
+    collection: 'institutionalDocuments',
+    fields: {
+      userId: 'string',
+      associationId: 'string',
+      documentType: 'string',
+      category: 'string',
+      title: 'string',
+      version: 'string',
+      content: 'string',
+      fileUrl: 'string',
+      effectiveDate: 'number',
+      expirationDate: 'number',
+      approvedBy: 'string',
+      status: 'string',
+      createdAt: 'number',
+      updatedAt: 'number',
+    },
+    required: ['userId', 'documentType', 'title', 'version', 'effectiveDate', 'status', 'createdAt'],
+    enums: {
+      documentType: values<DocumentType>('protocol', 'statute', 'regulation', 'consent_template', 'meeting_minutes', 'other'),
+      category: values<ProtocolCategory>('cultivation', 'security', 'hygiene', 'extraction', 'distribution', 'disposal', 'emergency', 'other'),
+      status: values<DocumentStatus>('draft', 'active', 'archived'),
+    },
+  },
+} satisfies Record<string, RestoreSchema>;
+
+export type RestorableEntityType = keyof typeof RESTORE_SCHEMAS;
+
+// Bookkeeping fields that are never part of a restored version
+const IGNORED_FIELDS = ['id', 'restoredFromLogId'];
+
+export const isRestorableEntity = (entityType: string): entityType is RestorableEntityType => {
+  return entityType in RESTORE_SCHEMAS;
+};
+
+const parseSnapshot = (value: string | undefined): Record<string, any> | null => {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Replays an entity's audit trail up to (and including) the given entry and
+ * returns the record as it was at that point. For a delete entry this is the
+ * record just before it was deleted. Returns null if the entry isn't in the trail.
+ */
+export const rebuildEntityVersion = (logs: AuditLog[], logId: string): Record<string, any> | null => {
+  const ordered = [...logs].sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0) || a.timestamp - b.timestamp);
+  let state: Record<string, any> | null = null;
+
+  for (const log of ordered) {
+    if (log.action === 'create') {
+      state = parseSnapshot(log.newValue) ?? state;
+    } else if (log.action === 'update') {
+      const next = parseSnapshot(log.newValue);
+      if (next) {
+        // Records created before auditing start from the first known snapshot
+        state = state ?? parseSnapshot(log.previousValue) ?? {};
+        for (const field of log.changedFields ?? Object.keys(next)) {
+          if (field in next) {
+            state[field] = next[field];
+          } else {
+            delete state[field];
+          }
+        }
+      }
+    } else if (log.action === 'delete') {
+      // Delete entries hold the full record as it was just before deletion
+      state = parseSnapshot(log.previousValue) ?? state;
+    }
+
+    if (log.id === logId) {
+      if (!state) return null;
+      const version = { ...state };
+      IGNORED_FIELDS.forEach(field => delete version[field]);
+      return version;
+    }
+  }
+
+  return null;
+};
+
+export interface RestoreValidation {
+  data: Record<string, any>; // The fields that fit the current schema
+  errors: string[];
+  droppedFields: string[]; // Fields the current schema no longer has
+}
+
+const matchesKind = (value: any, kind: FieldKind): boolean => {
+  if (kind === 'array') return Array.isArray(value);
+  if (kind === 'object') return typeof value === 'object' && !Array.isArray(value);
+  return typeof value === kind;
+};
+
+/**
+ * Checks a rebuilt version against the entity's current schema.
+ * Unknown fields are dropped; wrong types, stale enum values and missing
+ * required fields are reported as errors.
+ */
+export const validateRestoredEntity = (
+  entityType: RestorableEntityType,
+  version: Record<string, any>
+): RestoreValidation => {
+  const schema: RestoreSchema = RESTORE_SCHEMAS[entityType];
+  const data: Record<string, any> = {};
+  const errors: string[] = [];
+  const droppedFields: string[] = [];
+
+  for (const [field, value] of Object.entries(version)) {
+    if (IGNORED_FIELDS.includes(field) || value === null || value === undefined) continue;
+
+    const kind = schema.fields[field];
+    if (!kind) {
+      droppedFields.push(field);
+      continue;
+    }
+    if (!matchesKind(value, kind)) {
+      errors.push(`${field} should be a ${kind}`);
+      continue;
+    }
+    const allowed = schema.enums?.[field];
+    if (allowed && !allowed.includes(value)) {
+      errors.push(`${field} "${value}" is no longer a valid value`);
+      continue;
+    }
+    data[field] = value;
+  }
+
+  for (const field of schema.required) {
+    if (!(field in data) && !errors.some(error => error.startsWith(`${field} `))) {
+      errors.push(`${field} is required`);
+    }
+  }
+
+  return { data, errors, droppedFields };
+};
+
+/**
+ * Keeps the current values of the fields other workflows maintain, so a restore
+ * can't desync stock counters, recall freezes or the plant's stage pointer.
+ * Re-created records keep the values from the restored version.
+ */
+export const applyPreservedFields = (
+  entityType: RestorableEntityType,
+  data: Record<string, any>,
+  current: Record<string, any> | null
+): Record<string, any> => {
+  const schema: RestoreSchema = RESTORE_SCHEMAS[entityType];
+  if (!current || !schema.preserve) return data;
+
+  const result = { ...data };
+  for (const field of schema.preserve) {
+    if (current[field] === undefined || current[field] === null) {
+      delete result[field];
+    } else {
+      result[field] = current[field];
+    }
+  }
+  return result;
+};
+
+/**
+ * Lists the fields a restore would change on the current record
+ */
+export const getRestoreChanges = (current: Record<string, any> | null, restored: Record<string, any>): string[] => {
+  const fields = new Set([...Object.keys(current || {}), ...Object.keys(restored)]);
+  return [...fields].filter(field =>
+    !IGNORED_FIELDS.includes(field)
+    && field !== 'updatedAt'
+    && JSON.stringify(current?.[field]) !== JSON.stringify(restored[field])
+  );
+};
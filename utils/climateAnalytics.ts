@@ -0,0 +1,237 @@
+/**
+ * Climate Analytics Utilities
+ *
+ * Derives grow-room climate indicators from environment readings:
+ * - VPD (vapour pressure deficit, kPa) from air temperature and relative humidity
+ * - DLI (daily light integral, mol/m²/day) from PPFD and photoperiod
+ * - Min/max/avg per calendar day
+ * - Out-of-range alerts against stage-appropriate target bands
+ */
+
+import { startOfDay } from 'date-fns';
+import {
+  ClimateAlert,
+  ClimateMetric,
+  DailyClimateStats,
+  Environment,
+  EnvironmentRecord,
+  MetricStats,
+  Plant,
+  StageName,
+  TargetRange,
+} from '../types';
+
+/**
+ * Target bands per growth stage. Metrics without a band are not checked for that stage.
+ */
+export const CLIMATE_TARGETS: Record<StageName, Partial<Record<ClimateMetric, TargetRange>>> = {
+  Seedling: {
+    temp: { min: 20, max: 25 },
+    humidity: { min: 65, max: 75 },
+    vpd: { min: 0.4, max: 0.8 },
+    dli: { min: 10, max: 20 },
+    lightHours: { min: 16, max: 20 },
+  },
+  Veg: {
+    temp: { min: 22, max: 28 },
+    humidity: { min: 55, max: 70 },
+    vpd: { min: 0.8, max: 1.2 },
+    dli: { min: 20, max: 40 },
+    lightHours: { min: 16, max: 20 },
+  },
+  Flower: {
+    temp: { min: 20, max: 26 },
+    humidity: { min: 40, max: 55 },
+    vpd: { min: 1.2, max: 1.6 },
+    dli: { min: 35, max: 50 },
+    lightHours: { min: 11, max: 13 },
+  },
+  Drying: {
+    temp: { min: 15, max: 21 },
+    humidity: { min: 55, max: 65 },
+  },
+  Curing: {
+    temp: { min: 15, max: 21 },
+    humidity: { min: 58, max: 65 },
+  },
+};
+
+export const DEFAULT_CLIMATE_STAGE: StageName = 'Veg';
+
+/**
+ * Saturation vapour pressure in kPa (Tetens equation)
+ * @param temp - Temperature in °C
+ */
+export const saturationVaporPressure = (temp: number): number => {
+  return 0.61078 * Math.exp((17.27 * temp) / (temp + 237.3));
+};
+
+/**
+ * Air vapour pressure deficit in kPa
+ * @param temp - Air temperature in °C
+ * @param humidity - Relative humidity in %
+ */
+export const calculateVpd = (temp: number, humidity: number): number => {
+  const clampedHumidity = Math.min(Math.max(humidity, 0), 100);
+  return saturationVaporPressure(temp) * (1 - clampedHumidity / 100);
+};
+
+/**
+ * Daily light integral in mol/m²/day
+ * @param ppfd - Photosynthetic photon flux density in µmol/m²/s
+ * @param lightHours - Photoperiod in hours
+ */
+export const calculateDli = (ppfd: number, lightHours: number): number => {
+  return (ppfd * lightHours * 3600) / 1_000_000;
+};
+
+/**
+ * PPFD for a reading: the measured value, otherwise the environment's typical PPFD
+ */
+export const getRecordPpfd = (record: EnvironmentRecord, environment?: Environment | null): number | undefined => {
+  return record.ppfd ?? environment?.ppfd;
+};
+
+/**
+ * Value of a metric for a single reading. Returns undefined when it can't be derived
+ * (DLI without a known PPFD).
+ */
+export const getMetricValue = (
+  record: EnvironmentRecord,
+  metric: ClimateMetric,
+  environment?: Environment | null
+): number | undefined => {
+  switch (metric) {
+    case 'temp':
+      return record.temp;
+    case 'humidity':
+      return record.humidity;
+    case 'lightHours':
+      return record.lightHours;
+    case 'vpd':
+      return calculateVpd(record.temp, record.humidity);
+    case 'dli': {
+      const ppfd = getRecordPpfd(record, environment);
+      return ppfd !== undefined ? calculateDli(ppfd, record.lightHours) : undefined;
+    }
+  }
+};
+
+const summarize = (values: number[]): MetricStats => ({
+  min: Math.min(...values),
+  max: Math.max(...values),
+  avg: values.reduce((sum, value) => sum + value, 0) / values.length,
+});
+
+/**
+ * Groups readings by calendar day and computes min/max/avg for each metric.
+ * Returned oldest day first.
+ */
+export const getDailyClimateStats = (
+  records: EnvironmentRecord[],
+  environment?: Environment | null
+): DailyClimateStats[] => {
+  const byDay = new Map<number, EnvironmentRecord[]>();
+
+  records.forEach(record => {
+    const day = startOfDay(new Date(record.date)).getTime();
+    byDay.set(day, [...(byDay.get(day) || []), record]);
+  });
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([day, dayRecords]) => {
+      const dliValues = dayRecords
+        .map(record => getMetricValue(record, 'dli', environment))
+        .filter((value): value is number => value !== undefined);
+
+      return {
+        day,
+        readings: dayRecords.length,
+        temp: summarize(dayRecords.map(record => record.temp)),
+        humidity: summarize(dayRecords.map(record => record.humidity)),
+        vpd: summarize(dayRecords.map(record => calculateVpd(record.temp, record.humidity))),
+        lightHours: summarize(dayRecords.map(record => record.lightHours)),
+        ...(dliValues.length > 0 && { dli: summarize(dliValues) }),
+      };
+    });
+};
+
+/**
+ * Most common current stage among the plants of an environment.
+ * Falls back to DEFAULT_CLIMATE_STAGE when no plant has a stage.
+ */
+export const getEnvironmentStage = (plants: Plant[]): StageName => {
+  const counts = new Map<StageName, number>();
+
+  plants
+    .filter(plant => plant.currentStage)
+    .forEach(plant => {
+      counts.set(plant.currentStage!, (counts.get(plant.currentStage!) || 0) + 1);
+    });
+
+  let stage: StageName = DEFAULT_CLIMATE_STAGE;
+  let maxCount = 0;
+  counts.forEach((count, candidate) => {
+    if (count > maxCount) {
+      stage = candidate;
+      maxCount = count;
+    }
+  });
+
+  return stage;
+};
+
+/**
+ * Readings outside the stage's target bands, newest first
+ */
+export const getClimateAlerts = (
+  records: EnvironmentRecord[],
+  stage: StageName,
+  environment?: Environment | null
+): ClimateAlert[] => {
+  const targets = CLIMATE_TARGETS[stage];
+  const alerts: ClimateAlert[] = [];
+
+  records.forEach(record => {
+    (Object.keys(targets) as ClimateMetric[]).forEach(metric => {
+      const target = targets[metric]!;
+      const value = getMetricValue(record, metric, environment);
+
+      if (value === undefined) {
+        return;
+      }
+
+      if (value < target.min || value > target.max) {
+        alerts.push({
+          recordId: record.id,
+          date: record.date,
+          metric,
+          value,
+          target,
+          direction: value < target.min ? 'low' : 'high',
+        });
+      }
+    });
+  });
+
+  return alerts.sort((a, b) => b.date - a.date);
+};
+
+/**
+ * Formats a metric value with its unit
+ */
+export const formatMetricValue = (metric: ClimateMetric, value: number): string => {
+  switch (metric) {
+    case 'temp':
+      return `${value.toFixed(1)}°C`;
+    case 'humidity':
+      return `${Math.round(value)}%`;
+    case 'vpd':
+      return `${value.toFixed(2)} kPa`;
+    case 'dli':
+      return `${value.toFixed(1)} mol/m²`;
+    case 'lightHours':
+      return `${value.toFixed(1)}h`;
+  }
+};
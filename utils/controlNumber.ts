@@ -4,18 +4,24 @@
  * This module contains all the logic for generating control numbers
  * for different entity types in the application.
  * 
- * Control Number Formats (with random prefix letter and datetime):
- * - Plants: {RANDOM_LETTERS}A{YYYYMMDDHHMM}{SEQUENCE} (e.g., XA20251202143500001)
- * - Clones: {RANDOM_LETTERS}CL{YYYYMMDDHHMM}{SEQUENCE} (e.g., RCL20251202143500001)
- * - Harvests: {RANDOM_LETTERS}H{YYYYMMDDHHMM}{SEQUENCE} (e.g., BH20251202143500001)
- * - Extracts: {RANDOM_LETTERS}EX{YYYYMMDDHHMM}{SEQUENCE} (e.g., MEX20251202143500001)
- * - Distributions: {RANDOM_LETTERS}D{YYYYMMDDHHMM}{SEQUENCE} (e.g., KD20251202143500001)
- * - Orders: {RANDOM_LETTERS}O{YYYYMMDDHHMM}{SEQUENCE} (e.g., FO20251202143500001)
+ * Default control number formats (yearly sequences, see DEFAULT_CONTROL_NUMBER_FORMATS):
+ * - Plants: A-{ENV}-{YEAR}-{SEQ} (e.g., A-T1-2025-00001)
+ * - Clones: CL-{ENV}-{YEAR}-{SEQ} (e.g., CL-T1-2025-00002)
+ * - Harvests: H-{ENV}-{YEAR}-{SEQ} (e.g., H-T1-2025-00001)
+ * - Extracts: EX-{YEAR}-{SEQ} (e.g., EX-2025-00001)
+ * - Distributions: D-{YEAR}-{SEQ} (e.g., D-2025-00001)
+ * - Orders: O-{YEAR}-{SEQ} (e.g., O-2025-00001)
+ *
+ * Associations can override these with their own templates (see formatControlNumber).
+ * The generate* functions below build the legacy random-prefix, datetime numbers
+ * (e.g., XA20251202143500001) that older records still carry.
  */
 
+import { ControlNumberEntityType, SequenceAllocation, SequenceCounter, SequenceGapReport } from '../types';
+
 /**
- * Generates a random uppercase letter (A-Z)
- * @returns A single random uppercase letter
+ * Generates three random uppercase letters (A-Z)
+ * @returns A string of three random uppercase letters
  */
 export const getRandomLetters = (): string => {
   const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
@@ -181,6 +187,7 @@ export const CONTROL_NUMBER_PREFIXES = {
 
 /**
  * Parses a control number and extracts its components
+ * Accepts both the current three-letter random prefix and the older single-letter one.
  * @param controlNumber - The control number to parse
  * @returns The parsed components or null if invalid format
  */
@@ -196,7 +203,7 @@ export const parseControlNumber = (controlNumber: string): {
   sequence: number;
 } | null => {
   // Distribution format: {RANDOM}D{YYYYMMDDHHMM}{SEQUENCE}
-  const distributionMatch = controlNumber.match(/^([A-Z])D(\d{12})(\d{5})$/);
+  const distributionMatch = controlNumber.match(/^([A-Z]{1,3})D(\d{12})(\d{5})$/);
   if (distributionMatch) {
     const datetime = distributionMatch[2];
     return {
@@ -213,7 +220,7 @@ export const parseControlNumber = (controlNumber: string): {
   }
 
   // Order format: {RANDOM}O{YYYYMMDDHHMM}{SEQUENCE}
-  const orderMatch = controlNumber.match(/^([A-Z])O(\d{12})(\d{5})$/);
+  const orderMatch = controlNumber.match(/^([A-Z]{1,3})O(\d{12})(\d{5})$/);
   if (orderMatch) {
     const datetime = orderMatch[2];
     return {
@@ -230,7 +237,7 @@ export const parseControlNumber = (controlNumber: string): {
   }
 
   // Extract format: {RANDOM}EX{YYYYMMDDHHMM}{SEQUENCE}
-  const extractMatch = controlNumber.match(/^([A-Z])EX(\d{12})(\d{5})$/);
+  const extractMatch = controlNumber.match(/^([A-Z]{1,3})EX(\d{12})(\d{5})$/);
   if (extractMatch) {
     const datetime = extractMatch[2];
     return {
@@ -247,7 +254,7 @@ export const parseControlNumber = (controlNumber: string): {
   }
 
   // Clone format: {RANDOM}CL{YYYYMMDDHHMM}{SEQUENCE}
-  const cloneMatch = controlNumber.match(/^([A-Z])CL(\d{12})(\d{5})$/);
+  const cloneMatch = controlNumber.match(/^([A-Z]{1,3})CL(\d{12})(\d{5})$/);
   if (cloneMatch) {
     const datetime = cloneMatch[2];
     return {
@@ -264,7 +271,7 @@ export const parseControlNumber = (controlNumber: string): {
   }
 
   // Plant format: {RANDOM}A{YYYYMMDDHHMM}{SEQUENCE}
-  const plantMatch = controlNumber.match(/^([A-Z])A(\d{12})(\d{5})$/);
+  const plantMatch = controlNumber.match(/^([A-Z]{1,3})A(\d{12})(\d{5})$/);
   if (plantMatch) {
     const datetime = plantMatch[2];
     return {
@@ -281,7 +288,7 @@ export const parseControlNumber = (controlNumber: string): {
   }
 
   // Harvest format: {RANDOM}H{YYYYMMDDHHMM}{SEQUENCE}
-  const harvestMatch = controlNumber.match(/^([A-Z])H(\d{12})(\d{5})$/);
+  const harvestMatch = controlNumber.match(/^([A-Z]{1,3})H(\d{12})(\d{5})$/);
   if (harvestMatch) {
     const datetime = harvestMatch[2];
     return {
@@ -299,3 +306,148 @@ export const parseControlNumber = (controlNumber: string): {
 
   return null;
 };
+
+// ==================== CONFIGURABLE FORMATS ====================
+
+/**
+ * Default control number templates, numbered from the yearly sequence.
+ * Associations may override them, e.g. 'H-{ENV}-{DATETIME}-{SEQ}'.
+ *
+ * Supported tokens:
+ * - {SEQ} / {SEQ:n}: sequence number padded to 5 (or n) digits (required)
+ * - {YEAR}, {MONTH}, {DAY}: allocation date parts
+ * - {DATETIME}: allocation date as YYYYMMDDHHMM
+ * - {ENV}: environment code (plants and harvests only)
+ * - {RANDOM}: three random uppercase letters
+ */
+export const DEFAULT_CONTROL_NUMBER_FORMATS: Record<ControlNumberEntityType, string> = {
+  plant: 'A-{ENV}-{YEAR}-{SEQ}',
+  clone: 'CL-{ENV}-{YEAR}-{SEQ}',
+  harvest: 'H-{ENV}-{YEAR}-{SEQ}',
+  extract: 'EX-{YEAR}-{SEQ}',
+  distribution: 'D-{YEAR}-{SEQ}',
+  order: 'O-{YEAR}-{SEQ}',
+};
+
+const FORMAT_TOKEN_PATTERN = /\{(SEQ|YEAR|MONTH|DAY|DATETIME|ENV|RANDOM)(?::(\d+))?\}/g;
+
+export interface ControlNumberTokens {
+  sequence: number;
+  date?: Date;
+  environmentCode?: string;
+}
+
+/**
+ * Builds a control number from a template
+ * @param template - The format template (see DEFAULT_CONTROL_NUMBER_FORMATS)
+ * @param tokens - Values for the template tokens
+ * @returns The formatted control number (uppercase)
+ */
+export const formatControlNumber = (template: string, tokens: ControlNumberTokens): string => {
+  const date = tokens.date || new Date();
+  const pad = (value: number, length: number) => String(value).padStart(length, '0');
+
+  return template.replace(FORMAT_TOKEN_PATTERN, (_match, token: string, width?: string) => {
+    switch (token) {
+      case 'SEQ':
+        return pad(tokens.sequence, width ? parseInt(width, 10) : 5);
+      case 'YEAR':
+        return String(date.getFullYear());
+      case 'MONTH':
+        return pad(date.getMonth() + 1, 2);
+      case 'DAY':
+        return pad(date.getDate(), 2);
+      case 'DATETIME':
+        return `${date.getFullYear()}${pad(date.getMonth() + 1, 2)}${pad(date.getDate(), 2)}${pad(date.getHours(), 2)}${pad(date.getMinutes(), 2)}`;
+      case 'ENV':
+        return tokens.environmentCode || 'ENV';
+      case 'RANDOM':
+        return getRandomLetters();
+      default:
+        return '';
+    }
+  }).toUpperCase();
+};
+
+/**
+ * Validates a control number template
+ * Sequences restart every year, so a template must contain {SEQ} and
+ * either {YEAR} or {DATETIME} to stay unique.
+ * @param template - The format template
+ * @returns An error message, or null if the template is valid
+ */
+export const validateControlNumberFormat = (template: string): string | null => {
+  const trimmed = template.trim();
+  if (!trimmed) {
+    return 'Format cannot be empty';
+  }
+
+  const unknownTokens = (trimmed.match(/\{[^}]*\}/g) || [])
+    .filter(token => !token.match(new RegExp(`^${FORMAT_TOKEN_PATTERN.source}$`)));
+  if (unknownTokens.length > 0) {
+    return `Unknown token: ${unknownTokens[0]}`;
+  }
+
+  if (!trimmed.match(/\{SEQ(?::\d+)?\}/)) {
+    return 'Format must include {SEQ}';
+  }
+
+  if (!trimmed.includes('{YEAR}') && !trimmed.includes('{DATETIME}')) {
+    return 'Format must include {YEAR} or {DATETIME}';
+  }
+
+  return null;
+};
+
+/**
+ * Gets the short code used for the {ENV} token
+ * Falls back to the first letters of the environment name.
+ * @param environment - The environment (code and name)
+ * @returns The uppercase environment code
+ */
+export const getEnvironmentCode = (environment?: { name?: string; code?: string } | null): string => {
+  if (environment?.code?.trim()) {
+    return environment.code.trim().toUpperCase();
+  }
+
+  const fromName = (environment?.name || '')
+    .normalize('NFD')
+    .replace(/[^A-Za-z0-9]/g, '')
+    .toUpperCase()
+    .substring(0, 4);
+
+  return fromName || 'ENV';
+};
+
+/**
+ * Compares a sequence counter with its allocation records
+ * @param counter - The sequence counter
+ * @param allocations - Every allocation recorded under the counter
+ * @param existingEntityIds - Ids of the entities of the counter's type that still exist
+ * @returns Values counted but never recorded, and allocations whose entity was deleted
+ */
+export const findSequenceGaps = (
+  counter: SequenceCounter,
+  allocations: SequenceAllocation[],
+  existingEntityIds: Set<string>
+): SequenceGapReport => {
+  const allocatedSequences = new Set(allocations.map(a => a.sequence));
+
+  const missingSequences: number[] = [];
+  for (let sequence = 1; sequence <= counter.lastValue; sequence++) {
+    if (!allocatedSequences.has(sequence)) {
+      missingSequences.push(sequence);
+    }
+  }
+
+  const orphanedAllocations = allocations
+    .filter(a => !existingEntityIds.has(a.entityId))
+    .sort((a, b) => a.sequence - b.sequence);
+
+  return {
+    counter,
+    allocatedCount: allocations.length,
+    missingSequences,
+    orphanedAllocations,
+  };
+};
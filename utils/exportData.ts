@@ -1,18 +1,22 @@
 // Export utilities for compliance reporting
 import * as FileSystem from 'expo-file-system';
+import { File, Paths } from 'expo-file-system';
+import * as Print from 'expo-print';
 import * as Sharing from 'expo-sharing';
 import { format } from 'date-fns';
 import {
-  getUserPlants,
-  getUserHarvests,
-  getUserDistributions,
+  getPlantsForContext,
+  getHarvestsForContext,
+  getDistributionsForContext,
+  getExtractsForContext,
+  getEnvironmentsForContext,
   getUserPatients,
-  getUserExtracts,
-  getUserEnvironments,
-  getPlant,
+  getAssociationPatients,
 } from '../firebase/firestore';
-import { getUserWasteDisposals, getWasteDisposalStats } from '../firebase/wasteDisposal';
-import { getRecentAuditLogs } from '../firebase/auditLog';
+import { getWasteDisposalsForContext } from '../firebase/wasteDisposal';
+import { getAuditLogsInRange } from '../firebase/auditLog';
+import { getAssociationMembers } from '../firebase/associations';
+import { buildXlsx, XlsxSheet } from './xlsx';
 import {
   Plant,
   Harvest,
@@ -21,7 +25,9 @@ import {
   Extract,
   Environment,
   WasteDisposal,
-  AuditLog,
+  Member,
+  MemberRole,
+  Recall,
 } from '../types';
 
 // ==================== REPORT DATA TYPES ====================
@@ -31,12 +37,22 @@ export interface DateRange {
   endDate: number;
 }
 
+/**
+ * Scope a report is generated for: the whole association when associationId
+ * is set, otherwise the user's personal records
+ */
+export interface ReportContext {
+  userId: string;
+  associationId?: string;
+}
+
 export interface PlantReportData {
   generatedAt: string;
   dateRange: { start: string; end: string };
   totalPlants: number;
   byStage: Record<string, number>;
   byStrain: Record<string, number>;
+  byMember: Record<string, number>;
   plants: PlantReportItem[];
 }
 
@@ -54,6 +70,7 @@ export interface PlantReportItem {
     geneticLineage?: string;
   };
   hasHarvest: boolean;
+  recordedBy: string;
 }
 
 export interface HarvestReportData {
@@ -65,6 +82,7 @@ export interface HarvestReportData {
   totalDistributed: number;
   byPurpose: Record<string, { count: number; weight: number }>;
   byStatus: Record<string, number>;
+  byMember: Record<string, number>;
   harvests: HarvestReportItem[];
 }
 
@@ -83,6 +101,7 @@ export interface HarvestReportItem {
   purpose: string;
   qualityGrade?: string;
   storageLocation?: string;
+  recordedBy: string;
 }
 
 export interface DistributionReportData {
@@ -92,6 +111,7 @@ export interface DistributionReportData {
   totalQuantityGrams: number;
   totalQuantityMl: number;
   byProductType: Record<string, { count: number; grams: number; ml: number }>;
+  byMember: Record<string, number>;
   distributions: DistributionReportItem[];
 }
 
@@ -100,20 +120,52 @@ export interface DistributionReportItem {
   date: string;
   patientId: string; // Anonymized - just ID, not name
   patientInitials?: string; // Optional anonymized display
+  patientName?: string; // Only set when not anonymized
   productType: string;
   productDescription: string;
   quantityGrams?: number;
   quantityMl?: number;
+  quantityUnits?: number;
   batchNumber: string;
   sourceControlNumber?: string;
   receivedBy: string;
   signatureConfirmed: boolean;
+  distributedBy: string;
+}
+
+export interface ExtractReportData {
+  generatedAt: string;
+  dateRange: { start: string; end: string };
+  totalExtracts: number;
+  totalInputGrams: number;
+  totalOutputMl: number;
+  totalOutputGrams: number;
+  byType: Record<string, number>;
+  byMember: Record<string, number>;
+  extracts: ExtractReportItem[];
+}
+
+export interface ExtractReportItem {
+  controlNumber: string;
+  name: string;
+  batchNumber: string;
+  extractType: string;
+  extractionMethod: string;
+  extractionDate: string;
+  sourceControlNumbers: string;
+  inputWeightGrams: number;
+  outputVolumeMl?: number;
+  outputWeightGrams?: number;
+  distributedGrams: number;
+  distributedMl: number;
+  recordedBy: string;
 }
 
 export interface PatientReportData {
   generatedAt: string;
   totalPatients: number;
   byStatus: Record<string, number>;
+  byMember: Record<string, number>;
   patients: PatientReportItem[];
 }
 
@@ -126,6 +178,7 @@ export interface PatientReportItem {
   hasValidPrescription: boolean;
   prescriptionExpiry?: string;
   medicalCondition?: string;
+  registeredBy: string;
 }
 
 export interface WasteReportData {
@@ -135,6 +188,7 @@ export interface WasteReportData {
   totalWeightGrams: number;
   byMaterialType: Record<string, { count: number; weightGrams: number }>;
   byMethod: Record<string, { count: number; weightGrams: number }>;
+  byMember: Record<string, number>;
   disposals: WasteReportItem[];
 }
 
@@ -149,11 +203,63 @@ export interface WasteReportItem {
   witnessName?: string;
   hasWitnessSignature: boolean;
   sourceControlNumber?: string;
+  recordedBy: string;
+}
+
+export interface RecallReportData {
+  generatedAt: string;
+  controlNumber: string;
+  sourceType: string;
+  reason: string;
+  status: string;
+  openedAt: string;
+  closedAt?: string;
+  affectedBatches: string[];
+  frozenGrams: number;
+  frozenMl: number;
+  totalPatients: number;
+  totalDistributedGrams: number;
+  totalDistributedMl: number;
+  byContactStatus: Record<string, number>;
+  patients: RecallReportItem[];
+}
+
+export interface RecallReportItem {
+  patientId: string;
+  patientName: string; // Not anonymized - the report is used to reach every patient
+  phone?: string;
+  email?: string;
+  distributionNumbers: string;
+  lastDistributionDate: string;
+  quantityGrams: number;
+  quantityMl: number;
+  quantityUnits: number;
+  contactStatus: string;
+  contactedAt?: string;
+  contactNotes?: string;
+}
+
+export interface MemberReportItem {
+  userId: string;
+  name: string;
+  role?: MemberRole; // Unset for authors who are no longer members
+  isActive?: boolean;
+  plants: number;
+  harvests: number;
+  harvestedGrams: number;
+  extracts: number;
+  distributions: number;
+  distributedGrams: number;
+  distributedMl: number;
+  wasteDisposals: number;
+  wasteWeightGrams: number;
+  auditEntries: number;
 }
 
 export interface FullComplianceReport {
   generatedAt: string;
   dateRange: { start: string; end: string };
+  scope: 'association' | 'personal';
   summary: {
     totalPlants: number;
     totalHarvests: number;
@@ -164,16 +270,20 @@ export interface FullComplianceReport {
     totalWasteWeightGrams: number;
     totalDistributedGrams: number;
     totalExtractedGrams: number;
+    totalMembers: number;
   };
   plants: PlantReportData;
   harvests: HarvestReportData;
+  extracts: ExtractReportData;
   distributions: DistributionReportData;
   patients: PatientReportData;
   waste: WasteReportData;
+  members: MemberReportItem[];
   auditLogSummary: {
-    recentActions: number;
+    totalActions: number; // Every entry in the date range
     byAction: Record<string, number>;
     byEntityType: Record<string, number>;
+    byMember: Record<string, number>;
   };
 }
 
@@ -250,19 +360,148 @@ export const exportToJSON = async (data: any, filename: string): Promise<void> =
   return;
 };
 
+/**
+ * Writes rows of cells as CSV and triggers download/share. Unlike exportToCSV
+ * the rows need not share headers, so several tables can go in one file.
+ */
+export const exportRowsToCSV = async (rows: unknown[][], filename: string): Promise<void> => {
+  const csvContent = rows
+    .map(row => row.map(value => {
+      if (value === null || value === undefined) return '';
+      const stringValue = String(value);
+      if (stringValue.includes(',') || stringValue.includes('\n') || stringValue.includes('"')) {
+        return `"${stringValue.replace(/"/g, '""')}"`;
+      }
+      return stringValue;
+    }).join(','))
+    .join('\n');
+
+  const csvFile = new File(Paths.cache, `${filename}.csv`);
+  if (csvFile.exists) {
+    csvFile.delete();
+  }
+  csvFile.create();
+  csvFile.write(csvContent);
+
+  // Check if sharing is available and share
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(csvFile.uri, {
+      mimeType: 'text/csv',
+      dialogTitle: `Export ${filename}`,
+    });
+  }
+
+  return;
+};
+
+/**
+ * Writes one worksheet per sheet to an XLSX workbook and triggers download/share
+ */
+export const exportToXLSX = async (sheets: XlsxSheet[], filename: string): Promise<void> => {
+  if (sheets.length === 0) {
+    throw new Error('No data to export');
+  }
+
+  const xlsxFile = new File(Paths.cache, `${filename}.xlsx`);
+  if (xlsxFile.exists) {
+    xlsxFile.delete();
+  }
+  xlsxFile.create();
+  xlsxFile.write(buildXlsx(sheets));
+
+  // Check if sharing is available and share
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(xlsxFile.uri, {
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      UTI: 'org.openxmlformats.spreadsheetml.sheet',
+      dialogTitle: `Export ${filename}`,
+    });
+  }
+
+  return;
+};
+
+/**
+ * Renders HTML to a PDF file and triggers download/share
+ * @param html - Full HTML document (see utils/pdfReports.ts)
+ */
+export const exportToPDF = async (html: string, filename: string): Promise<void> => {
+  const { uri } = await Print.printToFileAsync({ html });
+
+  // Rename the printed file so the shared document has a meaningful name
+  const pdfFile = new File(Paths.cache, `${filename}.pdf`);
+  if (pdfFile.exists) {
+    pdfFile.delete();
+  }
+  new File(uri).move(pdfFile);
+
+  // Check if sharing is available and share
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(pdfFile.uri, {
+      mimeType: 'application/pdf',
+      UTI: 'com.adobe.pdf',
+      dialogTitle: `Export ${filename}`,
+    });
+  }
+
+  return;
+};
+
 // ==================== REPORT GENERATORS ====================
 
 /**
- * Generate a comprehensive plant report
+ * Formats the date range shown on every report
  */
-export const generatePlantReport = async (
-  userId: string,
+const formatDateRange = (dateRange?: DateRange): { start: string; end: string } =>
+  dateRange ? {
+    start: format(new Date(dateRange.startDate), 'yyyy-MM-dd'),
+    end: format(new Date(dateRange.endDate), 'yyyy-MM-dd'),
+  } : { start: 'All time', end: 'All time' };
+
+const isInRange = (timestamp: number, dateRange?: DateRange): boolean =>
+  !dateRange || (timestamp >= dateRange.startDate && timestamp <= dateRange.endDate);
+
+/**
+ * Resolves the name shown for the member who recorded each entry.
+ * Inactive members are included so historical records keep their author.
+ */
+const getMembersById = async (context: ReportContext): Promise<Map<string, Member>> => {
+  if (!context.associationId) {
+    return new Map();
+  }
+  const members = await getAssociationMembers(context.associationId, false);
+  return new Map(members.map(m => [m.userId, m]));
+};
+
+const getMemberName = (members: Map<string, Member>, userId: string, fallback?: string): string => {
+  const member = members.get(userId);
+  return member?.fullName || member?.displayName || member?.userEmail || fallback || `U-${userId.substring(0, 6)}`;
+};
+
+const countByMember = (
+  records: { userId: string }[],
+  members: Map<string, Member>
+): Record<string, number> => {
+  const byMember: Record<string, number> = {};
+  records.forEach(record => {
+    const name = getMemberName(members, record.userId);
+    byMember[name] = (byMember[name] || 0) + 1;
+  });
+  return byMember;
+};
+
+const getContextPatients = (context: ReportContext): Promise<Patient[]> =>
+  context.associationId
+    ? getAssociationPatients(context.associationId)
+    : getUserPatients(context.userId);
+
+const buildPlantReport = (
+  plants: Plant[],
+  harvests: Harvest[],
+  environments: Environment[],
+  members: Map<string, Member>,
   dateRange?: DateRange
-): Promise<PlantReportData> => {
-  const plants = await getUserPlants(userId);
-  const harvests = await getUserHarvests(userId);
-  const environments = await getUserEnvironments(userId);
-  
+): PlantReportData => {
   // Create environment lookup map
   const envMap = new Map(environments.map(e => [e.id, e.name]));
   
@@ -270,12 +509,7 @@ export const generatePlantReport = async (
   const harvestedPlantIds = new Set(harvests.map(h => h.plantId));
   
   // Filter by date range if provided
-  let filteredPlants = plants;
-  if (dateRange) {
-    filteredPlants = plants.filter(
-      p => p.startDate >= dateRange.startDate && p.startDate <= dateRange.endDate
-    );
-  }
+  const filteredPlants = plants.filter(p => isInRange(p.startDate, dateRange));
 
   // Aggregate statistics
   const byStage: Record<string, number> = {};
@@ -291,6 +525,7 @@ export const generatePlantReport = async (
     
     return {
       controlNumber: plant.controlNumber,
+      name: plant.name || plant.controlNumber,
       strain: plant.strain,
       startDate: format(new Date(plant.startDate), 'yyyy-MM-dd'),
       currentStage: stage,
@@ -302,42 +537,32 @@ export const generatePlantReport = async (
         geneticLineage: plant.genetics.geneticLineage,
       } : undefined,
       hasHarvest: harvestedPlantIds.has(plant.id),
+      recordedBy: getMemberName(members, plant.userId),
     };
   });
 
   return {
     generatedAt: format(new Date(), 'yyyy-MM-dd HH:mm:ss'),
-    dateRange: dateRange ? {
-      start: format(new Date(dateRange.startDate), 'yyyy-MM-dd'),
-      end: format(new Date(dateRange.endDate), 'yyyy-MM-dd'),
-    } : { start: 'All time', end: 'All time' },
+    dateRange: formatDateRange(dateRange),
     totalPlants: filteredPlants.length,
     byStage,
     byStrain,
+    byMember: countByMember(filteredPlants, members),
     plants: plantItems,
   };
 };
 
-/**
- * Generate a comprehensive harvest report
- */
-export const generateHarvestReport = async (
-  userId: string,
+const buildHarvestReport = (
+  harvests: Harvest[],
+  plants: Plant[],
+  members: Map<string, Member>,
   dateRange?: DateRange
-): Promise<HarvestReportData> => {
-  const harvests = await getUserHarvests(userId);
-  const plants = await getUserPlants(userId);
-  
+): HarvestReportData => {
   // Create plant lookup map
   const plantMap = new Map(plants.map(p => [p.id, p]));
   
   // Filter by date range if provided
-  let filteredHarvests = harvests;
-  if (dateRange) {
-    filteredHarvests = harvests.filter(
-      h => h.harvestDate >= dateRange.startDate && h.harvestDate <= dateRange.endDate
-    );
-  }
+  const filteredHarvests = harvests.filter(h => isInRange(h.harvestDate, dateRange));
 
   // Aggregate statistics
   let totalWetWeight = 0;
@@ -383,46 +608,85 @@ export const generateHarvestReport = async (
       purpose: harvest.purpose,
       qualityGrade: harvest.qualityGrade,
       storageLocation: harvest.storageLocation,
+      recordedBy: getMemberName(members, harvest.userId),
     };
   });
 
   return {
     generatedAt: format(new Date(), 'yyyy-MM-dd HH:mm:ss'),
-    dateRange: dateRange ? {
-      start: format(new Date(dateRange.startDate), 'yyyy-MM-dd'),
-      end: format(new Date(dateRange.endDate), 'yyyy-MM-dd'),
-    } : { start: 'All time', end: 'All time' },
+    dateRange: formatDateRange(dateRange),
     totalHarvests: filteredHarvests.length,
     totalWetWeight,
     totalDryWeight,
     totalDistributed,
     byPurpose,
     byStatus,
+    byMember: countByMember(filteredHarvests, members),
     harvests: harvestItems,
   };
 };
 
-/**
- * Generate a distribution report with optional anonymization
- */
-export const generateDistributionReport = async (
-  userId: string,
+const buildExtractReport = (
+  extracts: Extract[],
+  members: Map<string, Member>,
+  dateRange?: DateRange
+): ExtractReportData => {
+  // Filter by date range if provided
+  const filteredExtracts = extracts.filter(e => isInRange(e.extractionDate, dateRange));
+
+  let totalInputGrams = 0;
+  let totalOutputMl = 0;
+  let totalOutputGrams = 0;
+  const byType: Record<string, number> = {};
+
+  const extractItems: ExtractReportItem[] = filteredExtracts.map(extract => {
+    totalInputGrams += extract.inputWeightGrams;
+    totalOutputMl += extract.outputVolumeMl || 0;
+    totalOutputGrams += extract.outputWeightGrams || 0;
+    byType[extract.extractType] = (byType[extract.extractType] || 0) + 1;
+
+    return {
+      controlNumber: extract.controlNumber,
+      name: extract.name,
+      batchNumber: extract.batchNumber,
+      extractType: extract.extractType,
+      extractionMethod: extract.extractionMethod,
+      extractionDate: format(new Date(extract.extractionDate), 'yyyy-MM-dd'),
+      sourceControlNumbers: (extract.sourceControlNumbers || []).join('; '),
+      inputWeightGrams: extract.inputWeightGrams,
+      outputVolumeMl: extract.outputVolumeMl,
+      outputWeightGrams: extract.outputWeightGrams,
+      distributedGrams: extract.distributedGrams || 0,
+      distributedMl: extract.distributedMl || 0,
+      recordedBy: getMemberName(members, extract.userId),
+    };
+  });
+
+  return {
+    generatedAt: format(new Date(), 'yyyy-MM-dd HH:mm:ss'),
+    dateRange: formatDateRange(dateRange),
+    totalExtracts: filteredExtracts.length,
+    totalInputGrams,
+    totalOutputMl,
+    totalOutputGrams,
+    byType,
+    byMember: countByMember(filteredExtracts, members),
+    extracts: extractItems,
+  };
+};
+
+const buildDistributionReport = (
+  distributions: Distribution[],
+  patients: Patient[],
+  members: Map<string, Member>,
   dateRange?: DateRange,
   anonymize: boolean = true
-): Promise<DistributionReportData> => {
-  const distributions = await getUserDistributions(userId);
-  const patients = await getUserPatients(userId);
-  
+): DistributionReportData => {
   // Create patient lookup map
   const patientMap = new Map(patients.map(p => [p.id, p]));
   
   // Filter by date range if provided
-  let filteredDistributions = distributions;
-  if (dateRange) {
-    filteredDistributions = distributions.filter(
-      d => d.distributionDate >= dateRange.startDate && d.distributionDate <= dateRange.endDate
-    );
-  }
+  const filteredDistributions = distributions.filter(d => isInRange(d.distributionDate, dateRange));
 
   // Aggregate statistics
   let totalQuantityGrams = 0;
@@ -456,39 +720,36 @@ export const generateDistributionReport = async (
       date: format(new Date(dist.distributionDate), 'yyyy-MM-dd'),
       patientId: anonymize ? `P-${dist.patientId.substring(0, 6)}` : dist.patientId,
       patientInitials: anonymize ? patientInitials : undefined,
+      patientName: anonymize ? undefined : patient?.name || dist.patientName,
       productType: dist.productType,
       productDescription: dist.productDescription,
       quantityGrams: dist.quantityGrams,
       quantityMl: dist.quantityMl,
+      quantityUnits: dist.quantityUnits,
       batchNumber: dist.batchNumber,
       sourceControlNumber: dist.harvestControlNumber || dist.extractControlNumber,
       receivedBy: dist.receivedBy,
       signatureConfirmed: dist.signatureConfirmation || false,
+      distributedBy: getMemberName(members, dist.userId),
     };
   });
 
   return {
     generatedAt: format(new Date(), 'yyyy-MM-dd HH:mm:ss'),
-    dateRange: dateRange ? {
-      start: format(new Date(dateRange.startDate), 'yyyy-MM-dd'),
-      end: format(new Date(dateRange.endDate), 'yyyy-MM-dd'),
-    } : { start: 'All time', end: 'All time' },
+    dateRange: formatDateRange(dateRange),
     totalDistributions: filteredDistributions.length,
     totalQuantityGrams,
     totalQuantityMl,
     byProductType,
+    byMember: countByMember(filteredDistributions, members),
     distributions: distributionItems,
   };
 };
 
-/**
- * Generate a patient report (anonymized by default)
- */
-export const generatePatientReport = async (
-  userId: string
-): Promise<PatientReportData> => {
-  const patients = await getUserPatients(userId);
-  
+const buildPatientReport = (
+  patients: Patient[],
+  members: Map<string, Member>
+): PatientReportData => {
   const byStatus: Record<string, number> = {};
   
   const patientItems: PatientReportItem[] = patients.map(patient => {
@@ -519,6 +780,7 @@ export const generatePatientReport = async (
         ? format(new Date(patient.prescriptionExpirationDate), 'yyyy-MM-dd')
         : undefined,
       medicalCondition: patient.medicalCondition,
+      registeredBy: getMemberName(members, patient.userId),
     };
   });
 
@@ -526,131 +788,349 @@ export const generatePatientReport = async (
     generatedAt: format(new Date(), 'yyyy-MM-dd HH:mm:ss'),
     totalPatients: patients.length,
     byStatus,
+    byMember: countByMember(patients, members),
     patients: patientItems,
   };
 };
 
+const buildWasteReport = (
+  disposals: WasteDisposal[],
+  members: Map<string, Member>,
+  dateRange?: DateRange
+): WasteReportData => {
+  // Filter by date range if provided
+  const filteredDisposals = disposals.filter(d => isInRange(d.disposalDate, dateRange));
+
+  let totalWeightGrams = 0;
+  const byMaterialType: Record<string, { count: number; weightGrams: number }> = {};
+  const byMethod: Record<string, { count: number; weightGrams: number }> = {};
+
+  const wasteItems: WasteReportItem[] = filteredDisposals.map(disposal => {
+    totalWeightGrams += disposal.quantityGrams;
+
+    // By material type
+    if (!byMaterialType[disposal.materialType]) {
+      byMaterialType[disposal.materialType] = { count: 0, weightGrams: 0 };
+    }
+    byMaterialType[disposal.materialType].count++;
+    byMaterialType[disposal.materialType].weightGrams += disposal.quantityGrams;
+
+    // By method
+    if (!byMethod[disposal.disposalMethod]) {
+      byMethod[disposal.disposalMethod] = { count: 0, weightGrams: 0 };
+    }
+    byMethod[disposal.disposalMethod].count++;
+    byMethod[disposal.disposalMethod].weightGrams += disposal.quantityGrams;
+
+    return {
+      disposalDate: format(new Date(disposal.disposalDate), 'yyyy-MM-dd'),
+      materialType: disposal.materialType,
+      description: disposal.description,
+      quantityGrams: disposal.quantityGrams,
+      disposalMethod: disposal.disposalMethod,
+      disposalCompany: disposal.disposalCompany,
+      manifestNumber: disposal.manifestNumber,
+      witnessName: disposal.witnessName,
+      hasWitnessSignature: disposal.witnessSignature || false,
+      sourceControlNumber: disposal.sourceControlNumber,
+      recordedBy: getMemberName(members, disposal.userId),
+    };
+  });
+
+  return {
+    generatedAt: format(new Date(), 'yyyy-MM-dd HH:mm:ss'),
+    dateRange: formatDateRange(dateRange),
+    totalRecords: filteredDisposals.length,
+    totalWeightGrams,
+    byMaterialType,
+    byMethod,
+    byMember: countByMember(filteredDisposals, members),
+    disposals: wasteItems,
+  };
+};
+
+/**
+ * Generate a comprehensive plant report
+ */
+export const generatePlantReport = async (
+  context: ReportContext,
+  dateRange?: DateRange
+): Promise<PlantReportData> => {
+  const { userId, associationId } = context;
+  const [plants, harvests, environments, members] = await Promise.all([
+    getPlantsForContext(userId, associationId),
+    getHarvestsForContext(userId, associationId),
+    getEnvironmentsForContext(userId, associationId),
+    getMembersById(context),
+  ]);
+
+  return buildPlantReport(plants, harvests, environments, members, dateRange);
+};
+
+/**
+ * Generate a comprehensive harvest report
+ */
+export const generateHarvestReport = async (
+  context: ReportContext,
+  dateRange?: DateRange
+): Promise<HarvestReportData> => {
+  const { userId, associationId } = context;
+  const [harvests, plants, members] = await Promise.all([
+    getHarvestsForContext(userId, associationId),
+    getPlantsForContext(userId, associationId),
+    getMembersById(context),
+  ]);
+
+  return buildHarvestReport(harvests, plants, members, dateRange);
+};
+
+/**
+ * Generate a distribution report with optional anonymization
+ */
+export const generateDistributionReport = async (
+  context: ReportContext,
+  dateRange?: DateRange,
+  anonymize: boolean = true
+): Promise<DistributionReportData> => {
+  const { userId, associationId } = context;
+  const [distributions, patients, members] = await Promise.all([
+    getDistributionsForContext(userId, associationId),
+    getContextPatients(context),
+    getMembersById(context),
+  ]);
+
+  return buildDistributionReport(distributions, patients, members, dateRange, anonymize);
+};
+
+/**
+ * Generate a patient report (anonymized by default)
+ */
+export const generatePatientReport = async (
+  context: ReportContext
+): Promise<PatientReportData> => {
+  const [patients, members] = await Promise.all([
+    getContextPatients(context),
+    getMembersById(context),
+  ]);
+
+  return buildPatientReport(patients, members);
+};
+
 /**
  * Generate a waste disposal report
  */
 export const generateWasteReport = async (
-  userId: string,
+  context: ReportContext,
   dateRange?: DateRange
 ): Promise<WasteReportData> => {
-  const disposals = await getUserWasteDisposals(userId);
-  
-  // Filter by date range if provided
-  let filteredDisposals = disposals;
-  if (dateRange) {
-    filteredDisposals = disposals.filter(
-      d => d.disposalDate >= dateRange.startDate && d.disposalDate <= dateRange.endDate
-    );
-  }
+  const [disposals, members] = await Promise.all([
+    getWasteDisposalsForContext(context.userId, context.associationId),
+    getMembersById(context),
+  ]);
+
+  return buildWasteReport(disposals, members, dateRange);
+};
 
-  // Get stats
-  const stats = await getWasteDisposalStats(
-    userId,
-    dateRange?.startDate,
-    dateRange?.endDate
-  );
-
-  const wasteItems: WasteReportItem[] = filteredDisposals.map(disposal => ({
-    disposalDate: format(new Date(disposal.disposalDate), 'yyyy-MM-dd'),
-    materialType: disposal.materialType,
-    description: disposal.description,
-    quantityGrams: disposal.quantityGrams,
-    disposalMethod: disposal.disposalMethod,
-    disposalCompany: disposal.disposalCompany,
-    manifestNumber: disposal.manifestNumber,
-    witnessName: disposal.witnessName,
-    hasWitnessSignature: disposal.witnessSignature || false,
-    sourceControlNumber: disposal.sourceControlNumber,
+/**
+ * Generate a recall report listing every affected patient and their contact status
+ */
+export const generateRecallReport = (recall: Recall): RecallReportData => {
+  const byContactStatus: Record<string, number> = {};
+  recall.patients.forEach(patient => {
+    byContactStatus[patient.contactStatus] = (byContactStatus[patient.contactStatus] || 0) + 1;
+  });
+
+  const patientItems: RecallReportItem[] = recall.patients.map(patient => ({
+    patientId: patient.patientId,
+    patientName: patient.patientName,
+    phone: patient.phone,
+    email: patient.email,
+    distributionNumbers: patient.distributionNumbers.join('; '),
+    lastDistributionDate: format(new Date(patient.lastDistributionDate), 'yyyy-MM-dd'),
+    quantityGrams: patient.quantityGrams,
+    quantityMl: patient.quantityMl,
+    quantityUnits: patient.quantityUnits,
+    contactStatus: patient.contactStatus,
+    contactedAt: patient.contactedAt ? format(new Date(patient.contactedAt), 'yyyy-MM-dd HH:mm') : undefined,
+    contactNotes: patient.contactNotes,
   }));
 
   return {
     generatedAt: format(new Date(), 'yyyy-MM-dd HH:mm:ss'),
-    dateRange: dateRange ? {
-      start: format(new Date(dateRange.startDate), 'yyyy-MM-dd'),
-      end: format(new Date(dateRange.endDate), 'yyyy-MM-dd'),
-    } : { start: 'All time', end: 'All time' },
-    totalRecords: stats.totalRecords,
-    totalWeightGrams: stats.totalWeightGrams,
-    byMaterialType: stats.byMaterialType,
-    byMethod: stats.byMethod,
-    disposals: wasteItems,
+    controlNumber: recall.controlNumber,
+    sourceType: recall.sourceType,
+    reason: recall.reason,
+    status: recall.status,
+    openedAt: format(new Date(recall.openedAt), 'yyyy-MM-dd HH:mm'),
+    closedAt: recall.closedAt ? format(new Date(recall.closedAt), 'yyyy-MM-dd HH:mm') : undefined,
+    affectedBatches: recall.batches.map(batch => batch.controlNumber),
+    frozenGrams: recall.batches.reduce((sum, batch) => sum + (batch.frozenGrams || 0), 0),
+    frozenMl: recall.batches.reduce((sum, batch) => sum + (batch.frozenMl || 0), 0),
+    totalPatients: recall.patients.length,
+    totalDistributedGrams: recall.totalDistributedGrams,
+    totalDistributedMl: recall.totalDistributedMl,
+    byContactStatus,
+    patients: patientItems,
   };
 };
 
 /**
- * Generate a complete compliance report
+ * Generate a complete compliance report for the association (or the user's
+ * personal records outside an association), broken down by member.
+ * Pass anonymize = false only for reports that must identify patients
+ * (see utils/regulatoryReports.ts).
  */
 export const generateComplianceReport = async (
-  userId: string,
-  dateRange?: DateRange
+  context: ReportContext,
+  dateRange?: DateRange,
+  anonymize: boolean = true
 ): Promise<FullComplianceReport> => {
-  // Generate all sub-reports
-  const [plants, harvests, distributions, patients, waste, auditLogs] = await Promise.all([
-    generatePlantReport(userId, dateRange),
-    generateHarvestReport(userId, dateRange),
-    generateDistributionReport(userId, dateRange),
-    generatePatientReport(userId),
-    generateWasteReport(userId, dateRange),
-    getRecentAuditLogs(100),
+  const { userId, associationId } = context;
+
+  // Load every collection once and build all sub-reports from it
+  const [
+    plants,
+    harvests,
+    environments,
+    distributions,
+    patients,
+    extracts,
+    disposals,
+    members,
+    auditLogs,
+  ] = await Promise.all([
+    getPlantsForContext(userId, associationId),
+    getHarvestsForContext(userId, associationId),
+    getEnvironmentsForContext(userId, associationId),
+    getDistributionsForContext(userId, associationId),
+    getContextPatients(context),
+    getExtractsForContext(userId, associationId),
+    getWasteDisposalsForContext(userId, associationId),
+    getMembersById(context),
+    getAuditLogsInRange(userId, associationId, dateRange?.startDate, dateRange?.endDate),
   ]);
 
-  // Get extracts count
-  const extracts = await getUserExtracts(userId);
-  let filteredExtracts = extracts;
-  if (dateRange) {
-    filteredExtracts = extracts.filter(
-      e => e.extractionDate >= dateRange.startDate && e.extractionDate <= dateRange.endDate
-    );
-  }
+  const plantReport = buildPlantReport(plants, harvests, environments, members, dateRange);
+  const harvestReport = buildHarvestReport(harvests, plants, members, dateRange);
+  const extractReport = buildExtractReport(extracts, members, dateRange);
+  const distributionReport = buildDistributionReport(distributions, patients, members, dateRange, anonymize);
+  const patientReport = buildPatientReport(patients, members);
+  const wasteReport = buildWasteReport(disposals, members, dateRange);
 
-  // Process audit log summary
+  const filteredPlants = plants.filter(p => isInRange(p.startDate, dateRange));
+  const filteredHarvests = harvests.filter(h => isInRange(h.harvestDate, dateRange));
+  const filteredExtracts = extracts.filter(e => isInRange(e.extractionDate, dateRange));
+  const filteredDistributions = distributions.filter(d => isInRange(d.distributionDate, dateRange));
+  const filteredDisposals = disposals.filter(d => isInRange(d.disposalDate, dateRange));
+
+  // Process audit log summary over the whole period
   const auditByAction: Record<string, number> = {};
   const auditByEntityType: Record<string, number> = {};
+  const auditByMember: Record<string, number> = {};
   
   auditLogs.forEach(log => {
+    const memberName = getMemberName(members, log.userId, log.userEmail);
     auditByAction[log.action] = (auditByAction[log.action] || 0) + 1;
     auditByEntityType[log.entityType] = (auditByEntityType[log.entityType] || 0) + 1;
+    auditByMember[memberName] = (auditByMember[memberName] || 0) + 1;
   });
 
+  // Per-member activity, including everyone who recorded something in the period
+  const memberItems = new Map<string, MemberReportItem>();
+  const getMemberItem = (memberId: string, fallbackName?: string): MemberReportItem => {
+    let item = memberItems.get(memberId);
+    if (!item) {
+      const member = members.get(memberId);
+      item = {
+        userId: memberId,
+        name: getMemberName(members, memberId, fallbackName),
+        role: member?.role,
+        isActive: member ? member.isActive : undefined,
+        plants: 0,
+        harvests: 0,
+        harvestedGrams: 0,
+        extracts: 0,
+        distributions: 0,
+        distributedGrams: 0,
+        distributedMl: 0,
+        wasteDisposals: 0,
+        wasteWeightGrams: 0,
+        auditEntries: 0,
+      };
+      memberItems.set(memberId, item);
+    }
+    return item;
+  };
+
+  members.forEach(member => {
+    if (member.isActive) getMemberItem(member.userId);
+  });
+  filteredPlants.forEach(p => {
+    getMemberItem(p.userId).plants++;
+  });
+  filteredHarvests.forEach(h => {
+    const item = getMemberItem(h.userId);
+    item.harvests++;
+    item.harvestedGrams += h.finalWeightGrams || h.dryWeightGrams || h.wetWeightGrams;
+  });
+  filteredExtracts.forEach(e => {
+    getMemberItem(e.userId).extracts++;
+  });
+  filteredDistributions.forEach(d => {
+    const item = getMemberItem(d.userId);
+    item.distributions++;
+    item.distributedGrams += d.quantityGrams || 0;
+    item.distributedMl += d.quantityMl || 0;
+  });
+  filteredDisposals.forEach(d => {
+    const item = getMemberItem(d.userId);
+    item.wasteDisposals++;
+    item.wasteWeightGrams += d.quantityGrams;
+  });
+  auditLogs.forEach(log => {
+    getMemberItem(log.userId, log.userEmail).auditEntries++;
+  });
+
+  const memberList = Array.from(memberItems.values())
+    .sort((a, b) => a.name.localeCompare(b.name));
+
   // Calculate total distributed and extracted
   let totalDistributedGrams = 0;
   let totalExtractedGrams = 0;
   
-  harvests.harvests.forEach(h => {
+  harvestReport.harvests.forEach(h => {
     totalDistributedGrams += h.distributedGrams;
     totalExtractedGrams += h.extractedGrams;
   });
 
   return {
     generatedAt: format(new Date(), 'yyyy-MM-dd HH:mm:ss'),
-    dateRange: dateRange ? {
-      start: format(new Date(dateRange.startDate), 'yyyy-MM-dd'),
-      end: format(new Date(dateRange.endDate), 'yyyy-MM-dd'),
-    } : { start: 'All time', end: 'All time' },
+    dateRange: formatDateRange(dateRange),
+    scope: associationId ? 'association' : 'personal',
     summary: {
-      totalPlants: plants.totalPlants,
-      totalHarvests: harvests.totalHarvests,
-      totalDistributions: distributions.totalDistributions,
-      totalPatients: patients.totalPatients,
-      totalExtracts: filteredExtracts.length,
-      totalWasteDisposals: waste.totalRecords,
-      totalWasteWeightGrams: waste.totalWeightGrams,
+      totalPlants: plantReport.totalPlants,
+      totalHarvests: harvestReport.totalHarvests,
+      totalDistributions: distributionReport.totalDistributions,
+      totalPatients: patientReport.totalPatients,
+      totalExtracts: extractReport.totalExtracts,
+      totalWasteDisposals: wasteReport.totalRecords,
+      totalWasteWeightGrams: wasteReport.totalWeightGrams,
       totalDistributedGrams,
       totalExtractedGrams,
+      totalMembers: memberList.length,
     },
-    plants,
-    harvests,
-    distributions,
-    patients,
-    waste,
+    plants: plantReport,
+    harvests: harvestReport,
+    extracts: extractReport,
+    distributions: distributionReport,
+    patients: patientReport,
+    waste: wasteReport,
+    members: memberList,
     auditLogSummary: {
-      recentActions: auditLogs.length,
+      totalActions: auditLogs.length,
       byAction: auditByAction,
       byEntityType: auditByEntityType,
+      byMember: auditByMember,
     },
   };
 };
@@ -0,0 +1,180 @@
+/**
+ * Feed Schedule Utilities
+ *
+ * Pure helpers for nutrient schedules:
+ * - Finding the schedule week that applies to a plant's current stage
+ * - Turning a schedule week into pre-filled nutrient_feed log fields
+ * - Comparing logged pH/EC against the plan the log was pre-filled from
+ */
+
+import {
+  FeedDriftEntry,
+  FeedDriftSummary,
+  FeedPlanReference,
+  NutrientEntry,
+  NutrientSchedule,
+  NutrientScheduleWeek,
+  Plant,
+  PlantLog,
+  StageName,
+  TargetRange,
+} from '../types';
+
+// Stages a feed schedule can have weeks for (drying and curing plants aren't fed)
+export const SCHEDULE_STAGES: StageName[] = ['Seedling', 'Veg', 'Flower'];
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * 1-based week of a stage that a date falls into
+ */
+export const getStageWeek = (stageStartDate: number, date: number = Date.now()): number => {
+  return Math.max(Math.floor((date - stageStartDate) / WEEK_MS), 0) + 1;
+};
+
+/**
+ * Sorts weeks by stage order, then week number
+ */
+export const sortScheduleWeeks = (weeks: NutrientScheduleWeek[]): NutrientScheduleWeek[] => {
+  return [...weeks].sort((a, b) =>
+    SCHEDULE_STAGES.indexOf(a.stage) - SCHEDULE_STAGES.indexOf(b.stage) || a.week - b.week
+  );
+};
+
+/**
+ * Schedule week for a stage week. Past the last planned week of the stage,
+ * the last week keeps applying; before the first, the first one does.
+ * Returns null when the schedule has no weeks for the stage.
+ */
+export const getScheduleWeek = (
+  schedule: NutrientSchedule,
+  stage: StageName,
+  week: number
+): NutrientScheduleWeek | null => {
+  const stageWeeks = sortScheduleWeeks(schedule.weeks.filter(entry => entry.stage === stage));
+
+  if (stageWeeks.length === 0) {
+    return null;
+  }
+
+  const reached = stageWeeks.filter(entry => entry.week <= week);
+  return reached.length > 0 ? reached[reached.length - 1] : stageWeeks[0];
+};
+
+/**
+ * Schedule that applies to a plant: one attached to its genetic takes precedence
+ * over one attached to its environment
+ */
+export const selectScheduleForPlant = (
+  schedules: NutrientSchedule[],
+  plant: Plant
+): NutrientSchedule | null => {
+  const seedGeneticId = plant.genetics?.seedGeneticId;
+
+  return (seedGeneticId && schedules.find(schedule => schedule.seedGeneticId === seedGeneticId))
+    || schedules.find(schedule => schedule.environmentId === plant.environmentId)
+    || null;
+};
+
+export const buildFeedPlanReference = (
+  schedule: NutrientSchedule,
+  week: NutrientScheduleWeek
+): FeedPlanReference => ({
+  scheduleId: schedule.id,
+  scheduleName: schedule.name,
+  stage: week.stage,
+  week: week.week,
+  ...(week.targetPh && { targetPh: week.targetPh }),
+  ...(week.targetEcPpm && { targetEcPpm: week.targetEcPpm }),
+});
+
+export const getRangeMidpoint = (range: TargetRange): number => (range.min + range.max) / 2;
+
+/**
+ * Nutrients for a log from a schedule week. Schedule doses are ml per liter,
+ * so they're scaled to the water amount when one is known.
+ */
+export const scaleScheduleNutrients = (
+  nutrients: NutrientEntry[],
+  waterAmountMl?: number
+): NutrientEntry[] => {
+  const liters = waterAmountMl && waterAmountMl > 0 ? waterAmountMl / 1000 : 1;
+
+  return nutrients.map(nutrient => ({
+    ...nutrient,
+    ...(nutrient.amountMl !== undefined && {
+      amountMl: Math.round(nutrient.amountMl * liters * 10) / 10,
+    }),
+  }));
+};
+
+const getDrift = (
+  actual: number | undefined,
+  target: TargetRange | undefined
+): { drift?: number; inRange?: boolean } => {
+  if (actual === undefined || !target) {
+    return {};
+  }
+  return {
+    drift: actual - getRangeMidpoint(target),
+    inRange: actual >= target.min && actual <= target.max,
+  };
+};
+
+/**
+ * Planned vs actual pH/EC for feed logs that were pre-filled from a schedule, newest first
+ */
+export const getFeedDrift = (logs: PlantLog[]): FeedDriftEntry[] => {
+  return logs
+    .filter(log => log.feedPlan)
+    .map(log => {
+      const plan = log.feedPlan!;
+      const ph = getDrift(log.phLevel, plan.targetPh);
+      const ec = getDrift(log.ecPpm, plan.targetEcPpm);
+
+      return {
+        logId: log.id,
+        plantId: log.plantId,
+        date: log.date,
+        stage: plan.stage,
+        week: plan.week,
+        phLevel: log.phLevel,
+        targetPh: plan.targetPh,
+        phDrift: ph.drift,
+        phInRange: ph.inRange,
+        ecPpm: log.ecPpm,
+        targetEcPpm: plan.targetEcPpm,
+        ecDrift: ec.drift,
+        ecInRange: ec.inRange,
+      };
+    })
+    .sort((a, b) => b.date - a.date);
+};
+
+const averageOf = (values: number[]): number | undefined => {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : undefined;
+};
+
+const percentTrue = (values: boolean[]): number | undefined => {
+  return values.length > 0
+    ? Math.round((values.filter(Boolean).length / values.length) * 100)
+    : undefined;
+};
+
+/**
+ * Average drift and share of feeds within the target band
+ */
+export const summarizeFeedDrift = (entries: FeedDriftEntry[]): FeedDriftSummary => {
+  const phEntries = entries.filter(entry => entry.phDrift !== undefined);
+  const ecEntries = entries.filter(entry => entry.ecDrift !== undefined);
+
+  return {
+    feeds: entries.length,
+    avgPhDrift: averageOf(phEntries.map(entry => entry.phDrift!)),
+    avgEcDrift: averageOf(ecEntries.map(entry => entry.ecDrift!)),
+    phInRangePercent: percentTrue(phEntries.map(entry => entry.phInRange!)),
+    ecInRangePercent: percentTrue(ecEntries.map(entry => entry.ecInRange!)),
+  };
+};
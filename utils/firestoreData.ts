@@ -0,0 +1,44 @@
+/**
+ * Firestore Data Helpers
+ *
+ * Shared by the firebase/ modules when writing and querying documents.
+ *
+ * Security rules don't filter query results: a query is only allowed when its
+ * filters guarantee every matching document is readable. Association records
+ * are readable through their associationId and personal records through their
+ * userId, so queries on a foreign key (patientId, harvestId, ...) must also
+ * filter on one of those.
+ */
+
+import type firebase from 'firebase/compat/app';
+
+/**
+ * Removes undefined values from an object.
+ * Firebase doesn't accept undefined values in write operations.
+ */
+export const removeUndefinedValues = <T extends Record<string, any>>(obj: T): Partial<T> => {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([_, value]) => value !== undefined)
+  ) as Partial<T>;
+};
+
+/**
+ * Owner of a set of records: the association when there is one, otherwise the user
+ */
+export interface RecordScope {
+  userId: string;
+  associationId?: string;
+}
+
+/**
+ * Restricts a query to the records of a scope.
+ * Pass the parent record (patient, harvest, ...) so its children are found in the same scope.
+ */
+export const whereInScope = (
+  query: firebase.firestore.Query,
+  scope: RecordScope
+): firebase.firestore.Query => {
+  return scope.associationId
+    ? query.where('associationId', '==', scope.associationId)
+    : query.where('userId', '==', scope.userId);
+};
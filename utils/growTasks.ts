@@ -0,0 +1,72 @@
+/**
+ * Grow Task Utilities
+ *
+ * Pure helpers for the task subsystem:
+ * - Task templates and the plant log each one completes into
+ * - Recurrence (next due date after a completion)
+ * - Grouping open tasks into overdue / today / upcoming
+ */
+
+import { addDays, endOfDay, startOfDay } from 'date-fns';
+import { GrowTask, GrowTaskType, PlantLogType } from '../types';
+
+export interface GrowTaskPreset {
+  logType: PlantLogType;
+  intervalDays?: number;
+  icon: string;
+  color: string;
+}
+
+export const GROW_TASK_TYPES: GrowTaskType[] = [
+  'watering',
+  'runoff_check',
+  'flip_to_flower',
+  'ipm_spray',
+  'custom',
+];
+
+/**
+ * Defaults for each task type. Flipping to flower also moves the plants to the Flower stage.
+ */
+export const GROW_TASK_PRESETS: Record<GrowTaskType, GrowTaskPreset> = {
+  watering: { logType: 'watering', intervalDays: 2, icon: 'water', color: '#2196F3' },
+  runoff_check: { logType: 'observation', intervalDays: 7, icon: 'beaker', color: '#00BCD4' },
+  flip_to_flower: { logType: 'other', icon: 'flower', color: '#E91E63' },
+  ipm_spray: { logType: 'pest_treatment', intervalDays: 7, icon: 'bug', color: '#FF5722' },
+  custom: { logType: 'other', icon: 'checkbox', color: '#607D8B' },
+};
+
+/**
+ * Due date after a completion: intervalDays after the completion day,
+ * keeping the task's time of day. Returns null for one-off tasks.
+ */
+export const getNextDueDate = (task: GrowTask, completedAt: number): number | null => {
+  if (!task.intervalDays || task.intervalDays <= 0) {
+    return null;
+  }
+  const timeOfDay = task.dueDate - startOfDay(task.dueDate).getTime();
+  return addDays(startOfDay(completedAt), task.intervalDays).getTime() + timeOfDay;
+};
+
+export const isTaskOverdue = (task: GrowTask, now: number = Date.now()): boolean => {
+  return task.status === 'open' && task.dueDate < now;
+};
+
+/**
+ * Splits open tasks into overdue, due later today and upcoming, each sorted by due date
+ */
+export const groupTasksByDue = (
+  tasks: GrowTask[],
+  now: number = Date.now()
+): { overdue: GrowTask[]; today: GrowTask[]; upcoming: GrowTask[] } => {
+  const todayEnd = endOfDay(now).getTime();
+  const open = tasks
+    .filter(task => task.status === 'open')
+    .sort((a, b) => a.dueDate - b.dueDate);
+
+  return {
+    overdue: open.filter(task => task.dueDate < now),
+    today: open.filter(task => task.dueDate >= now && task.dueDate <= todayEnd),
+    upcoming: open.filter(task => task.dueDate > todayEnd),
+  };
+};
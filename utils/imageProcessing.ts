@@ -0,0 +1,62 @@
+/**
+ * Image Processing Utilities
+ *
+ * Client-side resizing for photos before upload: a full-size image capped
+ * at MAX_IMAGE_DIMENSION and a small thumbnail for lists and timelines.
+ */
+
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+
+export const MAX_IMAGE_DIMENSION = 1600;
+export const THUMBNAIL_DIMENSION = 320;
+
+const IMAGE_QUALITY = 0.8;
+const THUMBNAIL_QUALITY = 0.7;
+
+export interface ProcessedImage {
+  imageUri: string;
+  thumbnailUri: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Resizes an image so its longest side is at most maxDimension, keeping the aspect ratio.
+ * Images already smaller are only re-encoded.
+ * @returns The local URI and dimensions of the resized JPEG
+ */
+export const resizeImage = async (
+  uri: string,
+  maxDimension: number,
+  quality: number
+): Promise<{ uri: string; width: number; height: number }> => {
+  const context = ImageManipulator.manipulate(uri);
+  const original = await context.renderAsync();
+
+  if (Math.max(original.width, original.height) > maxDimension) {
+    context.resize(original.width >= original.height
+      ? { width: maxDimension }
+      : { height: maxDimension });
+  }
+
+  const rendered = await context.renderAsync();
+  const result = await rendered.saveAsync({ compress: quality, format: SaveFormat.JPEG });
+
+  return { uri: result.uri, width: result.width, height: result.height };
+};
+
+/**
+ * Produces the full-size image and thumbnail for a picked photo
+ * @param uri - Local URI from the camera or gallery
+ */
+export const processImage = async (uri: string): Promise<ProcessedImage> => {
+  const image = await resizeImage(uri, MAX_IMAGE_DIMENSION, IMAGE_QUALITY);
+  const thumbnail = await resizeImage(image.uri, THUMBNAIL_DIMENSION, THUMBNAIL_QUALITY);
+
+  return {
+    imageUri: image.uri,
+    thumbnailUri: thumbnail.uri,
+    width: image.width,
+    height: image.height,
+  };
+};
@@ -0,0 +1,88 @@
+/**
+ * Inventory Balances
+ *
+ * Harvest and extract balances and ledger totals, computed from records
+ * already loaded. firebase/inventory.ts keeps them in step transactionally.
+ */
+
+import { Harvest, Extract, InventoryMovement, InventoryMovementType } from '../types';
+
+// Harvest field that accumulates each movement type
+export const HARVEST_BALANCE_FIELDS: Record<InventoryMovementType, 'distributedGrams' | 'extractedGrams' | 'wastedGrams' | 'adjustedGrams'> = {
+  distribution: 'distributedGrams',
+  extraction: 'extractedGrams',
+  waste: 'wastedGrams',
+  adjustment: 'adjustedGrams',
+};
+
+/**
+ * Gets the best available weight of a harvest
+ * Priority: finalWeightGrams > dryWeightGrams > wetWeightGrams
+ */
+export const getHarvestTotalWeight = (harvest: Harvest): number => {
+  if (harvest.finalWeightGrams && harvest.finalWeightGrams > 0) {
+    return harvest.finalWeightGrams;
+  }
+  if (harvest.dryWeightGrams && harvest.dryWeightGrams > 0) {
+    return harvest.dryWeightGrams;
+  }
+  if (harvest.wetWeightGrams && harvest.wetWeightGrams > 0) {
+    return harvest.wetWeightGrams;
+  }
+  return 0;
+};
+
+/**
+ * Gets the grams of a harvest still available for distribution, extraction or disposal
+ */
+export const getHarvestAvailableGrams = (harvest: Harvest): number => {
+  const used =
+    (harvest.distributedGrams || 0) +
+    (harvest.extractedGrams || 0) +
+    (harvest.wastedGrams || 0) +
+    (harvest.adjustedGrams || 0);
+  return getHarvestTotalWeight(harvest) - used;
+};
+
+/**
+ * Gets what is left of an extract's output.
+ * A dimension is undefined when the extract output was not recorded in that unit.
+ */
+export const getExtractAvailable = (extract: Extract): { grams?: number; ml?: number } => {
+  return {
+    grams: extract.outputWeightGrams ? extract.outputWeightGrams - (extract.distributedGrams || 0) : undefined,
+    ml: extract.outputVolumeMl ? extract.outputVolumeMl - (extract.distributedMl || 0) : undefined,
+  };
+};
+
+export interface InventoryLedgerTotals {
+  distributedGrams: number;
+  extractedGrams: number;
+  wastedGrams: number;
+  adjustedGrams: number;
+  distributedMl: number;
+  movementCount: number;
+}
+
+/**
+ * Sums ledger entries per movement type
+ */
+export const summarizeMovements = (movements: InventoryMovement[]): InventoryLedgerTotals => {
+  const totals: InventoryLedgerTotals = {
+    distributedGrams: 0,
+    extractedGrams: 0,
+    wastedGrams: 0,
+    adjustedGrams: 0,
+    distributedMl: 0,
+    movementCount: movements.length,
+  };
+
+  for (const movement of movements) {
+    totals[HARVEST_BALANCE_FIELDS[movement.movementType]] += movement.quantityGrams;
+    if (movement.movementType === 'distribution') {
+      totals.distributedMl += movement.quantityMl || 0;
+    }
+  }
+
+  return totals;
+};
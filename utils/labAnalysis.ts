@@ -0,0 +1,109 @@
+/**
+ * Lab Analysis Utilities
+ *
+ * Pure helpers for certificates of analysis (COA):
+ * - Safety panel status from the individual analyte results
+ * - Overall pass/fail of an analysis
+ * - COA status of a harvest or extract batch for distribution gating
+ */
+
+import {
+  BatchCoaStatus,
+  ContaminantPanel,
+  ContaminantResult,
+  LabAnalysis,
+  LabAnalysisResult,
+  LabTestStatus,
+} from '../types';
+
+export const SAFETY_PANELS = ['microbials', 'heavyMetals', 'pesticides', 'residualSolvents'] as const;
+
+export type SafetyPanelKey = typeof SAFETY_PANELS[number];
+
+export const COA_STATUS_COLORS: Record<BatchCoaStatus, string> = {
+  pass: '#2E7D32',
+  fail: '#C62828',
+  pending: '#F57C00',
+  expired: '#6D4C41',
+  missing: '#757575',
+};
+
+export const TEST_STATUS_COLORS: Record<LabTestStatus, string> = {
+  pass: '#2E7D32',
+  fail: '#C62828',
+  not_tested: '#9E9E9E',
+};
+
+/**
+ * Status of one analyte. A measured value is compared to its limit;
+ * otherwise the status reported by the lab (e.g. "absent in 1g") is kept.
+ */
+export const getContaminantStatus = (result: ContaminantResult): LabTestStatus => {
+  if (result.value === undefined || result.limit === undefined) {
+    return result.status;
+  }
+  return result.value <= result.limit ? 'pass' : 'fail';
+};
+
+/**
+ * Derives a panel status from its results. Any failing analyte fails the panel.
+ */
+export const getPanelStatus = (results: ContaminantResult[]): LabTestStatus => {
+  const statuses = results.map(getContaminantStatus);
+  if (statuses.includes('fail')) {
+    return 'fail';
+  }
+  return statuses.includes('pass') ? 'pass' : 'not_tested';
+};
+
+/**
+ * Builds a panel from its analytes and the overall result reported by the lab.
+ * A failing analyte or a failing reported result fails the panel.
+ */
+export const buildPanel = (
+  results: ContaminantResult[],
+  reportedStatus: LabTestStatus = 'not_tested'
+): ContaminantPanel => {
+  const derivedStatus = getPanelStatus(results);
+  const statuses = [derivedStatus, reportedStatus];
+
+  return {
+    status: statuses.includes('fail') ? 'fail' : statuses.includes('pass') ? 'pass' : 'not_tested',
+    results: results.map(result => ({ ...result, status: getContaminantStatus(result) })),
+  };
+};
+
+/**
+ * Overall result of an analysis. A failing safety panel fails the analysis;
+ * it only passes once every safety panel has been tested and passed.
+ */
+export const getAnalysisResult = (
+  analysis: Pick<LabAnalysis, SafetyPanelKey>
+): LabAnalysisResult => {
+  const statuses = SAFETY_PANELS.map(panel => analysis[panel].status);
+  if (statuses.includes('fail')) {
+    return 'fail';
+  }
+  return statuses.every(status => status === 'pass') ? 'pass' : 'pending';
+};
+
+export interface BatchCoa {
+  status: BatchCoaStatus;
+  analysis?: LabAnalysis; // The analysis the status comes from
+}
+
+/**
+ * COA status of a batch from the analyses linked to it.
+ * The most recent analysis decides, so a retest supersedes a failed result.
+ */
+export const getBatchCoaStatus = (analyses: LabAnalysis[], now: number = Date.now()): BatchCoa => {
+  if (analyses.length === 0) {
+    return { status: 'missing' };
+  }
+
+  const latest = [...analyses].sort((a, b) => b.analysisDate - a.analysisDate)[0];
+  if (latest.result === 'pass' && latest.expirationDate && latest.expirationDate < now) {
+    return { status: 'expired', analysis: latest };
+  }
+  return { status: latest.result, analysis: latest };
+};
@@ -0,0 +1,417 @@
+// PDF (HTML) renderers for compliance and regulatory reports, distribution receipts and patient dispensation history
+import { format } from 'date-fns';
+import { getAssociation } from '../firebase/associations';
+import { Association, CapturedSignature, Distribution, Patient } from '../types';
+import { FullComplianceReport } from './exportData';
+import { REGULATORY_HEADER_COLUMNS, RegulatoryReport } from './regulatoryTemplates';
+import { renderSignatureSvg } from './signature';
+
+// ==================== BRANDING ====================
+
+/**
+ * Association identity printed in the header of every document
+ */
+export interface PdfBranding {
+  name: string;
+  legalName?: string;
+  cnpj?: string;
+  anvisaAuthorization?: string;
+  address?: string;
+  contact?: string;
+  logoDataUri?: string; // Inlined - expo-print can't load remote images on iOS
+}
+
+/**
+ * Downloads an image and returns it as a base64 data URI
+ */
+const loadImageDataUri = async (url: string): Promise<string | undefined> => {
+  try {
+    const response = await fetch(url);
+    const blob = await response.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+  } catch (error) {
+    console.warn('[PdfReports] Could not load logo, printing without it:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Builds the document branding of an association.
+ * Personal accounts get a plain header with the app name.
+ */
+export const getPdfBranding = async (association?: Association | null): Promise<PdfBranding> => {
+  if (!association) {
+    return { name: 'GrowControl' };
+  }
+
+  return {
+    name: association.name,
+    legalName: association.legalName,
+    cnpj: association.cnpj,
+    anvisaAuthorization: association.anvisaAuthorization,
+    address: [association.address, `${association.city} - ${association.state}`, association.postalCode]
+      .filter(Boolean)
+      .join(', '),
+    contact: [association.contactPhone, association.contactEmail].filter(Boolean).join(' · '),
+    logoDataUri: association.logoUrl ? await loadImageDataUri(association.logoUrl) : undefined,
+  };
+};
+
+/**
+ * Builds the branding of the association a record belongs to
+ */
+export const getPdfBrandingForRecord = async (associationId?: string): Promise<PdfBranding> => {
+  return getPdfBranding(associationId ? await getAssociation(associationId) : null);
+};
+
+// ==================== HTML HELPERS ====================
+
+const escapeHtml = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const formatDate = (timestamp?: number, pattern: string = 'dd/MM/yyyy'): string => {
+  return timestamp ? format(new Date(timestamp), pattern) : '—';
+};
+
+const formatQuantity = (item: Pick<Distribution, 'quantityGrams' | 'quantityMl' | 'quantityUnits'>): string => {
+  const parts: string[] = [];
+  if (item.quantityGrams) parts.push(`${item.quantityGrams} g`);
+  if (item.quantityMl) parts.push(`${item.quantityMl} ml`);
+  if (item.quantityUnits) parts.push(`${item.quantityUnits} un`);
+  return parts.join(' + ') || '—';
+};
+
+const table = (headers: string[], rows: unknown[][]): string => {
+  if (rows.length === 0) {
+    return '<p class="empty">No records in this period</p>';
+  }
+  return `
+    <table>
+      <thead><tr>${headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+      <tbody>
+        ${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}
+      </tbody>
+    </table>`;
+};
+
+const fields = (entries: [string, unknown][]): string => `
+  <div class="fields">
+    ${entries.map(([label, value]) => `
+      <div class="field">
+        <div class="field-label">${escapeHtml(label)}</div>
+        <div class="field-value">${escapeHtml(value)}</div>
+      </div>`).join('')}
+  </div>`;
+
+const signatureLine = (label: string, signature?: CapturedSignature): string => `
+  <div class="signature">
+    ${signature ? renderSignatureSvg(signature) : ''}
+    <div class="signature-line"></div>
+    <div class="signature-label">${escapeHtml(label)}</div>
+  </div>`;
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #333; font-size: 11px; margin: 24px; }
+  header { display: flex; align-items: center; gap: 16px; border-bottom: 2px solid #4CAF50; padding-bottom: 12px; margin-bottom: 16px; }
+  header img { width: 64px; height: 64px; object-fit: contain; }
+  .org-name { font-size: 16px; font-weight: bold; }
+  .org-meta { font-size: 10px; color: #666; margin-top: 2px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 13px; margin: 20px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #ddd; }
+  .subtitle { color: #666; margin-bottom: 12px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 8px; }
+  th, td { border: 1px solid #ddd; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f5f5f5; font-weight: 600; }
+  tr { page-break-inside: avoid; }
+  .fields { display: flex; flex-wrap: wrap; gap: 8px 16px; }
+  .field { width: 46%; }
+  .field-label { font-size: 9px; color: #999; text-transform: uppercase; }
+  .field-value { font-size: 12px; font-weight: 600; }
+  .summary { display: flex; flex-wrap: wrap; gap: 8px; }
+  .summary-item { border: 1px solid #ddd; border-radius: 6px; padding: 8px 12px; min-width: 110px; }
+  .summary-value { font-size: 16px; font-weight: bold; color: #2E7D32; }
+  .summary-label { font-size: 9px; color: #666; }
+  .signatures { display: flex; gap: 32px; margin-top: 48px; }
+  .signature { flex: 1; text-align: center; }
+  .signature svg { display: block; margin: 0 auto; }
+  .signature-line { border-top: 1px solid #333; margin-bottom: 4px; }
+  .signature-label { font-size: 10px; color: #666; }
+  .empty { color: #999; font-style: italic; }
+  footer { margin-top: 24px; font-size: 9px; color: #999; text-align: center; }
+`;
+
+const renderHeader = (branding: PdfBranding): string => {
+  const meta = [
+    branding.legalName && branding.legalName !== branding.name ? branding.legalName : undefined,
+    branding.cnpj ? `CNPJ ${branding.cnpj}` : undefined,
+    branding.anvisaAuthorization ? `ANVISA ${branding.anvisaAuthorization}` : undefined,
+  ].filter(Boolean);
+
+  return `
+    <header>
+      ${branding.logoDataUri ? `<img src="${branding.logoDataUri}" />` : ''}
+      <div>
+        <div class="org-name">${escapeHtml(branding.name)}</div>
+        ${meta.length > 0 ? `<div class="org-meta">${meta.map(escapeHtml).join(' · ')}</div>` : ''}
+        ${branding.address ? `<div class="org-meta">${escapeHtml(branding.address)}</div>` : ''}
+        ${branding.contact ? `<div class="org-meta">${escapeHtml(branding.contact)}</div>` : ''}
+      </div>
+    </header>`;
+};
+
+const renderDocument = (title: string, branding: PdfBranding, body: string): string => `
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <meta charset="utf-8" />
+      <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+      <title>${escapeHtml(title)}</title>
+      <style>${STYLES}</style>
+    </head>
+    <body>
+      ${renderHeader(branding)}
+      ${body}
+      <footer>Generated ${format(new Date(), 'dd/MM/yyyy HH:mm')} · ${escapeHtml(branding.name)}</footer>
+    </body>
+  </html>`;
+
+// ==================== DOCUMENTS ====================
+
+/**
+ * Renders the full compliance report. Patient data stays anonymized, as in the CSV/JSON export.
+ */
+export const renderComplianceReportHtml = (report: FullComplianceReport, branding: PdfBranding): string => {
+  const { summary } = report;
+  const summaryItems: [string, string | number][] = [
+    ['Plants', summary.totalPlants],
+    ['Harvests', summary.totalHarvests],
+    ['Extracts', summary.totalExtracts],
+    ['Distributions', summary.totalDistributions],
+    ['Patients', summary.totalPatients],
+    ['Members', summary.totalMembers],
+    ['Distributed', `${summary.totalDistributedGrams.toFixed(1)} g`],
+    ['Extracted', `${summary.totalExtractedGrams.toFixed(1)} g`],
+    ['Waste records', summary.totalWasteDisposals],
+    ['Waste weight', `${summary.totalWasteWeightGrams.toFixed(1)} g`],
+  ];
+
+  const body = `
+    <h1>Compliance Report</h1>
+    <div class="subtitle">Period: ${escapeHtml(report.dateRange.start)} to ${escapeHtml(report.dateRange.end)}</div>
+
+    <div class="summary">
+      ${summaryItems.map(([label, value]) => `
+        <div class="summary-item">
+          <div class="summary-value">${escapeHtml(value)}</div>
+          <div class="summary-label">${escapeHtml(label)}</div>
+        </div>`).join('')}
+    </div>
+
+    <h2>Plants (${report.plants.totalPlants})</h2>
+    ${table(
+      ['Control #', 'Strain', 'Start', 'Stage', 'Environment', 'Harvested'],
+      report.plants.plants.map(p => [p.controlNumber, p.strain, p.startDate, p.currentStage, p.environment, p.hasHarvest ? 'Yes' : 'No'])
+    )}
+
+    <h2>Harvests (${report.harvests.totalHarvests})</h2>
+    ${table(
+      ['Control #', 'Plant', 'Date', 'Wet (g)', 'Dry (g)', 'Distributed (g)', 'Extracted (g)', 'Available (g)', 'Status'],
+      report.harvests.harvests.map(h => [
+        h.controlNumber, h.sourcePlantControlNumber, h.harvestDate, h.wetWeightGrams, h.dryWeightGrams,
+        h.distributedGrams, h.extractedGrams, h.availableGrams, h.status,
+      ])
+    )}
+
+    <h2>Extracts (${report.extracts.totalExtracts})</h2>
+    ${table(
+      ['Control #', 'Batch', 'Date', 'Type', 'Method', 'Sources', 'Input (g)', 'Output (ml)', 'Output (g)'],
+      report.extracts.extracts.map(e => [
+        e.controlNumber, e.batchNumber, e.extractionDate, e.extractType, e.extractionMethod,
+        e.sourceControlNumbers, e.inputWeightGrams, e.outputVolumeMl, e.outputWeightGrams,
+      ])
+    )}
+
+    <h2>Distributions (${report.distributions.totalDistributions})</h2>
+    ${table(
+      ['Number', 'Date', 'Patient', 'Product', 'Quantity', 'Batch', 'Received by', 'Signed', 'Distributed by'],
+      report.distributions.distributions.map(d => [
+        d.distributionNumber, d.date, d.patientInitials || d.patientId, d.productType,
+        formatQuantity(d), d.sourceControlNumber || d.batchNumber, d.receivedBy, d.signatureConfirmed ? 'Yes' : 'No',
+        d.distributedBy,
+      ])
+    )}
+
+    <h2>Patients (${report.patients.totalPatients})</h2>
+    ${table(
+      ['ID', 'Initials', 'Document', 'Joined', 'Status', 'Valid prescription', 'Prescription expiry'],
+      report.patients.patients.map(p => [
+        p.id, p.initials, p.documentType, p.joinDate, p.status, p.hasValidPrescription ? 'Yes' : 'No', p.prescriptionExpiry,
+      ])
+    )}
+
+    <h2>Waste Disposal (${report.waste.totalRecords})</h2>
+    ${table(
+      ['Date', 'Material', 'Quantity (g)', 'Method', 'Manifest', 'Witness', 'Source'],
+      report.waste.disposals.map(w => [
+        w.disposalDate, w.materialType, w.quantityGrams, w.disposalMethod, w.manifestNumber, w.witnessName, w.sourceControlNumber,
+      ])
+    )}
+
+    <h2>Members (${report.members.length})</h2>
+    ${table(
+      ['Member', 'Role', 'Plants', 'Harvests', 'Harvested (g)', 'Extracts', 'Distributions', 'Distributed', 'Waste (g)', 'Audit entries'],
+      report.members.map(m => [
+        m.name, m.role ? `${m.role}${m.isActive === false ? ' (inactive)' : ''}` : 'Former member', m.plants, m.harvests,
+        m.harvestedGrams.toFixed(1), m.extracts, m.distributions,
+        formatQuantity({ quantityGrams: m.distributedGrams, quantityMl: m.distributedMl }),
+        m.wasteWeightGrams.toFixed(1), m.auditEntries,
+      ])
+    )}
+
+    <h2>Audit Log (${report.auditLogSummary.totalActions} entries)</h2>
+    ${table(
+      ['Action', 'Entries'],
+      Object.entries(report.auditLogSummary.byAction)
+    )}
+    ${table(
+      ['Entity', 'Entries'],
+      Object.entries(report.auditLogSummary.byEntityType)
+    )}
+    ${table(
+      ['Member', 'Entries'],
+      Object.entries(report.auditLogSummary.byMember)
+    )}
+
+    <div class="signatures">
+      ${signatureLine('Technical responsible')}
+      ${signatureLine('Legal representative')}
+    </div>`;
+
+  return renderDocument('Compliance Report', branding, body);
+};
+
+/**
+ * Renders the receipt handed to the patient (or whoever picked up) for one distribution
+ */
+export const renderDistributionReceiptHtml = (
+  distribution: Distribution,
+  patient: Patient | null,
+  branding: PdfBranding
+): string => {
+  const body = `
+    <h1>Dispensation Receipt</h1>
+    <div class="subtitle">No. ${escapeHtml(distribution.distributionNumber)} · ${formatDate(distribution.distributionDate, 'dd/MM/yyyy HH:mm')}</div>
+
+    <h2>Patient</h2>
+    ${fields([
+      ['Name', patient?.name || distribution.patientName],
+      ['Document', patient ? `${patient.documentType.toUpperCase()} ${patient.documentNumber}` : undefined],
+      ['Prescribing doctor', patient?.prescribingDoctor ? `${patient.prescribingDoctor}${patient.doctorCrm ? ` (CRM ${patient.doctorCrm})` : ''}` : undefined],
+      ['Prescription valid until', formatDate(patient?.prescriptionExpirationDate)],
+    ])}
+
+    <h2>Product</h2>
+    ${fields([
+      ['Product', distribution.productDescription],
+      ['Type', distribution.productType],
+      ['Batch', distribution.harvestControlNumber || distribution.extractControlNumber || distribution.batchNumber],
+      ['Quantity', formatQuantity(distribution)],
+    ])}
+
+    <h2>Pickup</h2>
+    ${fields([
+      ['Received by', distribution.receivedBy],
+      ['Signature', distribution.recipientSignature
+        ? `Captured ${formatDate(distribution.recipientSignature.signedAt, 'dd/MM/yyyy HH:mm')}`
+        : distribution.signatureConfirmation ? 'Confirmed' : 'Not signed'],
+    ])}
+    ${distribution.notes ? `<p>${escapeHtml(distribution.notes)}</p>` : ''}
+
+    <div class="signatures">
+      ${signatureLine(`Received by: ${distribution.receivedBy}`, distribution.recipientSignature)}
+      ${signatureLine(`For ${branding.name}`)}
+    </div>`;
+
+  return renderDocument(`Receipt ${distribution.distributionNumber}`, branding, body);
+};
+
+/**
+ * Renders every dispensation a patient received, most recent first
+ */
+export const renderPatientHistoryHtml = (
+  patient: Patient,
+  distributions: Distribution[],
+  branding: PdfBranding
+): string => {
+  const sorted = [...distributions].sort((a, b) => b.distributionDate - a.distributionDate);
+  const totalGrams = sorted.reduce((sum, d) => sum + (d.quantityGrams || 0), 0);
+  const totalMl = sorted.reduce((sum, d) => sum + (d.quantityMl || 0), 0);
+
+  const body = `
+    <h1>Dispensation History</h1>
+    <div class="subtitle">${sorted.length} dispensation(s) · ${totalGrams.toFixed(1)} g · ${totalMl.toFixed(1)} ml</div>
+
+    <h2>Patient</h2>
+    ${fields([
+      ['Name', patient.name],
+      ['Document', `${patient.documentType.toUpperCase()} ${patient.documentNumber}`],
+      ['Member since', formatDate(patient.joinDate)],
+      ['Status', patient.status],
+      ['Prescribing doctor', patient.prescribingDoctor ? `${patient.prescribingDoctor}${patient.doctorCrm ? ` (CRM ${patient.doctorCrm})` : ''}` : undefined],
+      ['Prescription valid until', formatDate(patient.prescriptionExpirationDate)],
+    ])}
+
+    <h2>Dispensations</h2>
+    ${table(
+      ['Number', 'Date', 'Product', 'Batch', 'Quantity', 'Received by', 'Signed'],
+      sorted.map(d => [
+        d.distributionNumber,
+        formatDate(d.distributionDate),
+        d.productDescription,
+        d.harvestControlNumber || d.extractControlNumber || d.batchNumber,
+        formatQuantity(d),
+        d.receivedBy,
+        d.signatureConfirmation ? 'Yes' : 'No',
+      ])
+    )}`;
+
+  return renderDocument(`Dispensation History - ${patient.name}`, branding, body);
+};
+
+/**
+ * Renders a regulatory report in its template layout. Patients are identified.
+ */
+export const renderRegulatoryReportHtml = (report: RegulatoryReport, branding: PdfBranding): string => {
+  const body = `
+    <h1>${escapeHtml(report.templateName)}</h1>
+    <div class="subtitle">Period: ${escapeHtml(report.periodLabel)} (${escapeHtml(report.dateRange.start)} to ${escapeHtml(report.dateRange.end)})</div>
+
+    <h2>Identification</h2>
+    ${fields(REGULATORY_HEADER_COLUMNS.map(column => [column.label, report.header[column.key]]))}
+
+    ${report.sections.map(section => `
+      <h2>${escapeHtml(section.title)} (${section.rows.length})</h2>
+      ${table(
+        section.columns.map(column => column.label),
+        section.rows.map(row => section.columns.map(column => row[column.key]))
+      )}`).join('')}
+
+    <div class="signatures">
+      ${signatureLine('Technical responsible')}
+      ${signatureLine(`Legal representative${report.header.responsiblePerson ? `: ${report.header.responsiblePerson}` : ''}`)}
+    </div>`;
+
+  return renderDocument(`${report.templateName} - ${report.periodLabel}`, branding, body);
+};
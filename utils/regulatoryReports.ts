@@ -0,0 +1,73 @@
+/**
+ * Regulatory Report Templates
+ *
+ * Fixed-layout periodic reports that associations holding an ANVISA
+ * authorization submit, built on top of the association-wide compliance report:
+ * - Each template has a period (monthly/quarterly) and a column schema per section
+ * - Plants by stage, harvested mass, extracted volume, dispensation per patient
+ *   with prescription data and destroyed mass
+ * - Rows are validated against the schema; errors block the export
+ * - Reports flatten to CSV rows and XLSX sheets (the PDF layout is in utils/pdfReports.ts)
+ *
+ * Schemas, validation and layouts are in utils/regulatoryTemplates.ts; this loads the data.
+ */
+
+import { format, eachMonthOfInterval } from 'date-fns';
+import { getAssociationPatients, getPlantsForContext, getUserPatients } from '../firebase/firestore';
+import { Association } from '../types';
+import { ReportContext, generateComplianceReport } from './exportData';
+import {
+  RegulatoryReport,
+  RegulatoryRow,
+  RegulatorySource,
+  buildRegulatoryReport,
+  getRegulatoryPeriodRange,
+  getRegulatoryTemplate,
+} from './regulatoryTemplates';
+
+// ==================== GENERATION ====================
+
+/**
+ * Generates a regulatory report for the month or quarter containing the reference date.
+ * Patients are identified, so only export it for submission to the regulator.
+ */
+export const generateRegulatoryReport = async (
+  context: ReportContext,
+  templateId: string,
+  referenceDate: Date,
+  association?: Association | null
+): Promise<RegulatoryReport> => {
+  const template = getRegulatoryTemplate(templateId);
+  if (!template) {
+    throw new Error(`Unknown regulatory template: ${templateId}`);
+  }
+
+  const dateRange = getRegulatoryPeriodRange(template.period, referenceDate);
+  const [compliance, patients, plants] = await Promise.all([
+    generateComplianceReport(context, dateRange, false),
+    context.associationId
+      ? getAssociationPatients(context.associationId)
+      : getUserPatients(context.userId),
+    getPlantsForContext(context.userId, context.associationId),
+  ]);
+
+  const source: RegulatorySource = {
+    compliance,
+    patients: new Map(patients.map(p => [p.id, p])),
+    plants: plants.filter(p => p.startDate <= dateRange.endDate),
+    months: eachMonthOfInterval({ start: dateRange.startDate, end: dateRange.endDate })
+      .map(month => format(month, 'yyyy-MM')),
+  };
+
+  const header: RegulatoryRow = {
+    associationName: association?.name,
+    legalName: association?.legalName,
+    cnpj: association?.cnpj,
+    anvisaAuthorization: association?.anvisaAuthorization,
+    responsiblePerson: association?.responsiblePersonName,
+    periodStart: compliance.dateRange.start,
+    periodEnd: compliance.dateRange.end,
+  };
+
+  return buildRegulatoryReport(template, source, header, referenceDate);
+};
@@ -0,0 +1,521 @@
+/**
+ * Regulatory Report Schemas
+ *
+ * Templates, validation and export layouts of the regulatory reports. Everything here
+ * works on data already loaded; utils/regulatoryReports.ts loads it from Firestore.
+ */
+
+import {
+  format,
+  startOfMonth,
+  endOfMonth,
+  startOfQuarter,
+  endOfQuarter,
+  getQuarter,
+} from 'date-fns';
+import { Patient, Plant } from '../types';
+import { DateRange, FullComplianceReport } from './exportData';
+import { XlsxSheet } from './xlsx';
+
+// ==================== TYPES ====================
+
+export type RegulatoryPeriod = 'monthly' | 'quarterly';
+
+export type RegulatoryFieldType = 'text' | 'number' | 'date';
+
+export type RegulatoryValue = string | number | undefined;
+
+export type RegulatoryRow = Record<string, RegulatoryValue>;
+
+export interface RegulatoryColumn {
+  key: string;
+  label: string;
+  type: RegulatoryFieldType;
+  required?: boolean;
+  pattern?: RegExp;
+  patternHint?: string; // Message when the value does not match the pattern
+}
+
+export interface RegulatoryIssue {
+  severity: 'error' | 'warning';
+  sectionId: string; // 'header' for the identification block
+  row?: number; // 1-based, as numbered in the exported table
+  column?: string;
+  message: string;
+}
+
+/**
+ * Data every section is built from
+ */
+export interface RegulatorySource {
+  compliance: FullComplianceReport; // Not anonymized - dispensation rows identify patients
+  patients: Map<string, Patient>;
+  plants: Plant[]; // Every non-deleted plant alive at the end of the period, wherever it started
+  months: string[]; // yyyy-MM of every month in the period
+}
+
+interface RegulatorySection {
+  id: string;
+  title: string;
+  columns: RegulatoryColumn[];
+  build: (source: RegulatorySource) => RegulatoryRow[];
+  // Rules spanning several columns of a row
+  validateRow?: (row: RegulatoryRow) => Omit<RegulatoryIssue, 'sectionId' | 'row'>[];
+}
+
+export interface RegulatoryTemplate {
+  id: string;
+  name: string;
+  description: string;
+  period: RegulatoryPeriod;
+  sections: RegulatorySection[];
+}
+
+export interface RegulatoryReportSection {
+  id: string;
+  title: string;
+  columns: RegulatoryColumn[];
+  rows: RegulatoryRow[];
+}
+
+export interface RegulatoryReport {
+  templateId: string;
+  templateName: string;
+  period: RegulatoryPeriod;
+  periodLabel: string;
+  dateRange: { start: string; end: string };
+  generatedAt: string;
+  header: RegulatoryRow;
+  sections: RegulatoryReportSection[];
+  issues: RegulatoryIssue[];
+}
+
+// ==================== SCHEMAS ====================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Identification block printed at the top of every template
+export const REGULATORY_HEADER_COLUMNS: RegulatoryColumn[] = [
+  { key: 'associationName', label: 'Association', type: 'text', required: true },
+  { key: 'legalName', label: 'Legal name', type: 'text', required: true },
+  {
+    key: 'cnpj',
+    label: 'CNPJ',
+    type: 'text',
+    required: true,
+    pattern: /^\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}$/,
+    patternHint: 'CNPJ must have 14 digits (00.000.000/0000-00)',
+  },
+  { key: 'anvisaAuthorization', label: 'ANVISA authorization', type: 'text', required: true },
+  { key: 'responsiblePerson', label: 'Responsible person', type: 'text', required: true },
+  { key: 'periodStart', label: 'Period start', type: 'date', required: true },
+  { key: 'periodEnd', label: 'Period end', type: 'date', required: true },
+];
+
+const sumBy = <T>(items: T[], getValue: (item: T) => number | undefined): number =>
+  items.reduce((sum, item) => sum + (getValue(item) || 0), 0);
+
+const CULTIVATION_SECTION: RegulatorySection = {
+  id: 'cultivation',
+  title: 'Plants by stage',
+  columns: [
+    { key: 'stage', label: 'Stage', type: 'text', required: true },
+    { key: 'plants', label: 'Plants', type: 'number', required: true },
+  ],
+  // A stock count, not the plants started in the period (that is compliance.plants.byStage)
+  build: ({ plants }) => {
+    const byStage: Record<string, number> = {};
+    plants.forEach(plant => {
+      const stage = plant.currentStage || 'Unknown';
+      byStage[stage] = (byStage[stage] || 0) + 1;
+    });
+    return Object.entries(byStage)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([stage, count]) => ({ stage, plants: count }));
+  },
+};
+
+const HARVEST_SECTION: RegulatorySection = {
+  id: 'harvests',
+  title: 'Harvested mass',
+  columns: [
+    { key: 'controlNumber', label: 'Harvest control #', type: 'text', required: true },
+    { key: 'plantControlNumber', label: 'Plant control #', type: 'text', required: true },
+    { key: 'harvestDate', label: 'Harvest date', type: 'date', required: true },
+    { key: 'wetWeightGrams', label: 'Wet mass (g)', type: 'number', required: true },
+    { key: 'dryWeightGrams', label: 'Dry mass (g)', type: 'number' },
+    { key: 'finalWeightGrams', label: 'Final mass (g)', type: 'number' },
+    { key: 'purpose', label: 'Purpose', type: 'text', required: true },
+    { key: 'recordedBy', label: 'Recorded by', type: 'text' },
+  ],
+  build: ({ compliance }) =>
+    compliance.harvests.harvests.map(h => ({
+      controlNumber: h.controlNumber,
+      plantControlNumber: h.sourcePlantControlNumber,
+      harvestDate: h.harvestDate,
+      wetWeightGrams: h.wetWeightGrams,
+      dryWeightGrams: h.dryWeightGrams,
+      finalWeightGrams: h.finalWeightGrams,
+      purpose: h.purpose,
+      recordedBy: h.recordedBy,
+    })),
+  validateRow: row => {
+    if (row.dryWeightGrams === undefined) {
+      return [{ severity: 'warning', column: 'dryWeightGrams', message: 'Dry mass not recorded yet' }];
+    }
+    if (Number(row.dryWeightGrams) > Number(row.wetWeightGrams)) {
+      return [{ severity: 'error', column: 'dryWeightGrams', message: 'Dry mass exceeds wet mass' }];
+    }
+    return [];
+  },
+};
+
+const EXTRACTION_SECTION: RegulatorySection = {
+  id: 'extraction',
+  title: 'Extracted volume',
+  columns: [
+    { key: 'controlNumber', label: 'Extract control #', type: 'text', required: true },
+    { key: 'batchNumber', label: 'Batch', type: 'text', required: true },
+    { key: 'extractionDate', label: 'Extraction date', type: 'date', required: true },
+    { key: 'extractType', label: 'Type', type: 'text', required: true },
+    { key: 'extractionMethod', label: 'Method', type: 'text', required: true },
+    { key: 'sourceControlNumbers', label: 'Source harvests', type: 'text', required: true },
+    { key: 'inputWeightGrams', label: 'Input mass (g)', type: 'number', required: true },
+    { key: 'outputVolumeMl', label: 'Output volume (ml)', type: 'number' },
+    { key: 'outputWeightGrams', label: 'Output mass (g)', type: 'number' },
+  ],
+  build: ({ compliance }) =>
+    compliance.extracts.extracts.map(e => ({
+      controlNumber: e.controlNumber,
+      batchNumber: e.batchNumber,
+      extractionDate: e.extractionDate,
+      extractType: e.extractType,
+      extractionMethod: e.extractionMethod,
+      sourceControlNumbers: e.sourceControlNumbers,
+      inputWeightGrams: e.inputWeightGrams,
+      outputVolumeMl: e.outputVolumeMl,
+      outputWeightGrams: e.outputWeightGrams,
+    })),
+  validateRow: row =>
+    row.outputVolumeMl === undefined && row.outputWeightGrams === undefined
+      ? [{ severity: 'warning', column: 'outputVolumeMl', message: 'No output volume or mass recorded' }]
+      : [],
+};
+
+const DISPENSATION_SECTION: RegulatorySection = {
+  id: 'dispensation',
+  title: 'Dispensation per patient',
+  columns: [
+    { key: 'patientName', label: 'Patient', type: 'text', required: true },
+    { key: 'documentType', label: 'Document type', type: 'text', required: true },
+    { key: 'documentNumber', label: 'Document #', type: 'text', required: true },
+    { key: 'medicalCondition', label: 'Condition', type: 'text' },
+    { key: 'prescribingDoctor', label: 'Prescribing doctor', type: 'text', required: true },
+    {
+      key: 'doctorCrm',
+      label: 'CRM',
+      type: 'text',
+      required: true,
+      pattern: /\d{4,}/,
+      patternHint: 'CRM must include the registration number',
+    },
+    { key: 'prescriptionDate', label: 'Prescription date', type: 'date' },
+    { key: 'prescriptionExpiry', label: 'Prescription expiry', type: 'date', required: true },
+    { key: 'dispensations', label: 'Dispensations', type: 'number', required: true },
+    { key: 'firstDispensation', label: 'First dispensation', type: 'date', required: true },
+    { key: 'lastDispensation', label: 'Last dispensation', type: 'date', required: true },
+    { key: 'quantityGrams', label: 'Quantity (g)', type: 'number' },
+    { key: 'quantityMl', label: 'Quantity (ml)', type: 'number' },
+    { key: 'quantityUnits', label: 'Quantity (un)', type: 'number' },
+    { key: 'batches', label: 'Batches', type: 'text', required: true },
+  ],
+  build: ({ compliance, patients }) => {
+    const byPatient = new Map<string, typeof compliance.distributions.distributions>();
+    compliance.distributions.distributions.forEach(d => {
+      byPatient.set(d.patientId, [...(byPatient.get(d.patientId) || []), d]);
+    });
+
+    return Array.from(byPatient.entries())
+      .map(([patientId, distributions]) => {
+        const patient = patients.get(patientId);
+        const dates = distributions.map(d => d.date).sort();
+        const batches = new Set(distributions.map(d => d.sourceControlNumber || d.batchNumber));
+        return {
+          patientName: patient?.name || distributions[0].patientName,
+          documentType: patient?.documentType.toUpperCase(),
+          documentNumber: patient?.documentNumber,
+          medicalCondition: patient?.medicalCondition,
+          prescribingDoctor: patient?.prescribingDoctor,
+          doctorCrm: patient?.doctorCrm,
+          prescriptionDate: patient?.prescriptionDate
+            ? format(new Date(patient.prescriptionDate), 'yyyy-MM-dd')
+            : undefined,
+          prescriptionExpiry: patient?.prescriptionExpirationDate
+            ? format(new Date(patient.prescriptionExpirationDate), 'yyyy-MM-dd')
+            : undefined,
+          dispensations: distributions.length,
+          firstDispensation: dates[0],
+          lastDispensation: dates[dates.length - 1],
+          quantityGrams: sumBy(distributions, d => d.quantityGrams),
+          quantityMl: sumBy(distributions, d => d.quantityMl),
+          quantityUnits: sumBy(distributions, d => d.quantityUnits),
+          batches: Array.from(batches).join('; '),
+        };
+      })
+      .sort((a, b) => String(a.patientName || '').localeCompare(String(b.patientName || '')));
+  },
+  validateRow: row => {
+    const issues: Omit<RegulatoryIssue, 'sectionId' | 'row'>[] = [];
+    // Dates are yyyy-MM-dd, so they compare as strings
+    if (row.prescriptionExpiry && row.lastDispensation && String(row.lastDispensation) > String(row.prescriptionExpiry)) {
+      issues.push({
+        severity: 'error',
+        column: 'lastDispensation',
+        message: `Dispensed on ${row.lastDispensation}, after the prescription expired on ${row.prescriptionExpiry}`,
+      });
+    }
+    // A renewed prescription moves the date forward, so earlier dispensations are only flagged
+    if (row.prescriptionDate && row.firstDispensation && String(row.firstDispensation) < String(row.prescriptionDate)) {
+      issues.push({
+        severity: 'warning',
+        column: 'firstDispensation',
+        message: `Dispensed on ${row.firstDispensation}, before the current prescription of ${row.prescriptionDate}`,
+      });
+    }
+    return issues;
+  },
+};
+
+const DESTRUCTION_SECTION: RegulatorySection = {
+  id: 'destruction',
+  title: 'Destroyed mass',
+  columns: [
+    { key: 'disposalDate', label: 'Date', type: 'date', required: true },
+    { key: 'materialType', label: 'Material', type: 'text', required: true },
+    { key: 'description', label: 'Description', type: 'text' },
+    { key: 'quantityGrams', label: 'Mass (g)', type: 'number', required: true },
+    { key: 'disposalMethod', label: 'Method', type: 'text', required: true },
+    { key: 'manifestNumber', label: 'Manifest #', type: 'text' },
+    { key: 'witnessName', label: 'Witness', type: 'text' },
+    { key: 'sourceControlNumber', label: 'Source', type: 'text' },
+  ],
+  build: ({ compliance }) =>
+    compliance.waste.disposals.map(w => ({
+      disposalDate: w.disposalDate,
+      materialType: w.materialType,
+      description: w.description,
+      quantityGrams: w.quantityGrams,
+      disposalMethod: w.disposalMethod,
+      manifestNumber: w.manifestNumber,
+      witnessName: w.witnessName,
+      sourceControlNumber: w.sourceControlNumber,
+    })),
+  validateRow: row =>
+    row.witnessName
+      ? []
+      : [{ severity: 'warning', column: 'witnessName', message: 'No witness recorded for the destruction' }],
+};
+
+const MONTHLY_TOTALS_SECTION: RegulatorySection = {
+  id: 'monthlyTotals',
+  title: 'Monthly totals',
+  columns: [
+    { key: 'month', label: 'Month', type: 'text', required: true },
+    { key: 'harvestedGrams', label: 'Harvested (g)', type: 'number', required: true },
+    { key: 'extractedMl', label: 'Extracted (ml)', type: 'number', required: true },
+    { key: 'dispensedGrams', label: 'Dispensed (g)', type: 'number', required: true },
+    { key: 'dispensedMl', label: 'Dispensed (ml)', type: 'number', required: true },
+    { key: 'destroyedGrams', label: 'Destroyed (g)', type: 'number', required: true },
+  ],
+  build: ({ compliance, months }) => {
+    // Report dates are yyyy-MM-dd, so the month is their first 7 characters
+    const inMonth = (month: string) => (date: string) => date.substring(0, 7) === month;
+
+    return months.map(month => {
+      const matches = inMonth(month);
+      const harvests = compliance.harvests.harvests.filter(h => matches(h.harvestDate));
+      const extracts = compliance.extracts.extracts.filter(e => matches(e.extractionDate));
+      const distributions = compliance.distributions.distributions.filter(d => matches(d.date));
+      const disposals = compliance.waste.disposals.filter(w => matches(w.disposalDate));
+      return {
+        month,
+        harvestedGrams: sumBy(harvests, h => h.finalWeightGrams || h.dryWeightGrams || h.wetWeightGrams),
+        extractedMl: sumBy(extracts, e => e.outputVolumeMl),
+        dispensedGrams: sumBy(distributions, d => d.quantityGrams),
+        dispensedMl: sumBy(distributions, d => d.quantityMl),
+        destroyedGrams: sumBy(disposals, w => w.quantityGrams),
+      };
+    });
+  },
+};
+
+// ==================== TEMPLATES ====================
+
+export const REGULATORY_TEMPLATES: RegulatoryTemplate[] = [
+  {
+    id: 'anvisa_monthly',
+    name: 'Monthly cultivation and dispensation report',
+    description: 'Plants by stage, harvests, extractions, dispensation per patient and destruction for one month',
+    period: 'monthly',
+    sections: [CULTIVATION_SECTION, HARVEST_SECTION, EXTRACTION_SECTION, DISPENSATION_SECTION, DESTRUCTION_SECTION],
+  },
+  {
+    id: 'anvisa_quarterly',
+    name: 'Quarterly consolidated report',
+    description: 'Month-by-month totals followed by the detailed sections for one quarter',
+    period: 'quarterly',
+    sections: [
+      MONTHLY_TOTALS_SECTION,
+      CULTIVATION_SECTION,
+      HARVEST_SECTION,
+      EXTRACTION_SECTION,
+      DISPENSATION_SECTION,
+      DESTRUCTION_SECTION,
+    ],
+  },
+];
+
+export const getRegulatoryTemplate = (templateId: string): RegulatoryTemplate | undefined =>
+  REGULATORY_TEMPLATES.find(template => template.id === templateId);
+
+/**
+ * Date range of the month or quarter containing the reference date
+ */
+export const getRegulatoryPeriodRange = (period: RegulatoryPeriod, referenceDate: Date): DateRange => {
+  const start = period === 'monthly' ? startOfMonth(referenceDate) : startOfQuarter(referenceDate);
+  const end = period === 'monthly' ? endOfMonth(referenceDate) : endOfQuarter(referenceDate);
+  return { startDate: start.getTime(), endDate: end.getTime() };
+};
+
+export const getRegulatoryPeriodLabel = (period: RegulatoryPeriod, referenceDate: Date): string =>
+  period === 'monthly'
+    ? format(referenceDate, 'MMMM yyyy')
+    : `Q${getQuarter(referenceDate)} ${format(referenceDate, 'yyyy')}`;
+
+// ==================== VALIDATION ====================
+
+const validateValue = (column: RegulatoryColumn, value: RegulatoryValue): string | undefined => {
+  if (value === undefined || value === '') {
+    return column.required ? `${column.label} is required` : undefined;
+  }
+  if (column.type === 'number' && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+    return `${column.label} must be a non-negative number`;
+  }
+  if (column.type === 'date' && !DATE_PATTERN.test(String(value))) {
+    return `${column.label} must be a date (yyyy-MM-dd)`;
+  }
+  if (column.pattern && !column.pattern.test(String(value))) {
+    return column.patternHint || `${column.label} has an invalid format`;
+  }
+  return undefined;
+};
+
+const validateRows = (
+  sectionId: string,
+  columns: RegulatoryColumn[],
+  rows: RegulatoryRow[],
+  validateRow?: RegulatorySection['validateRow']
+): RegulatoryIssue[] => {
+  const issues: RegulatoryIssue[] = [];
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    columns.forEach(column => {
+      const message = validateValue(column, row[column.key]);
+      if (message) {
+        issues.push({ severity: 'error', sectionId, row: rowNumber, column: column.key, message });
+      }
+    });
+    validateRow?.(row).forEach(issue => issues.push({ ...issue, sectionId, row: rowNumber }));
+  });
+  return issues;
+};
+
+/**
+ * Checks the identification block and every section row against the template schema
+ */
+export const validateRegulatoryReport = (
+  template: RegulatoryTemplate,
+  header: RegulatoryRow,
+  sections: RegulatoryReportSection[]
+): RegulatoryIssue[] => {
+  const issues = validateRows('header', REGULATORY_HEADER_COLUMNS, [header])
+    .map(({ row, ...issue }) => issue);
+
+  template.sections.forEach(schema => {
+    const section = sections.find(s => s.id === schema.id);
+    issues.push(...validateRows(schema.id, schema.columns, section?.rows || [], schema.validateRow));
+  });
+
+  return issues;
+};
+
+export const hasBlockingIssues = (report: RegulatoryReport): boolean =>
+  report.issues.some(issue => issue.severity === 'error');
+
+// ==================== ASSEMBLY ====================
+
+/**
+ * Builds every section of a template from the loaded data and validates the result
+ */
+export const buildRegulatoryReport = (
+  template: RegulatoryTemplate,
+  source: RegulatorySource,
+  header: RegulatoryRow,
+  referenceDate: Date
+): RegulatoryReport => {
+  const sections: RegulatoryReportSection[] = template.sections.map(schema => ({
+    id: schema.id,
+    title: schema.title,
+    columns: schema.columns,
+    rows: schema.build(source),
+  }));
+
+  return {
+    templateId: template.id,
+    templateName: template.name,
+    period: template.period,
+    periodLabel: getRegulatoryPeriodLabel(template.period, referenceDate),
+    dateRange: source.compliance.dateRange,
+    generatedAt: format(new Date(), 'yyyy-MM-dd HH:mm:ss'),
+    header,
+    sections,
+    issues: validateRegulatoryReport(template, header, sections),
+  };
+};
+
+// ==================== EXPORT LAYOUTS ====================
+
+const toHeaderRows = (report: RegulatoryReport): RegulatoryValue[][] => [
+  ['Report', report.templateName],
+  ['Period', report.periodLabel],
+  ...REGULATORY_HEADER_COLUMNS.map(column => [column.label, report.header[column.key]]),
+  ['Generated', report.generatedAt],
+];
+
+/**
+ * Single-file CSV layout: the identification block, then each section as its own table
+ */
+export const toRegulatoryCsvRows = (report: RegulatoryReport): RegulatoryValue[][] => {
+  const rows: RegulatoryValue[][] = toHeaderRows(report);
+  report.sections.forEach(section => {
+    rows.push([]);
+    rows.push([section.title]);
+    rows.push(section.columns.map(column => column.label));
+    section.rows.forEach(row => rows.push(section.columns.map(column => row[column.key])));
+  });
+  return rows;
+};
+
+/**
+ * Workbook layout: an identification sheet, then one sheet per section
+ */
+export const toRegulatoryXlsxSheets = (report: RegulatoryReport): XlsxSheet[] => [
+  { name: 'Identification', rows: [['Field', 'Value'], ...toHeaderRows(report)] },
+  ...report.sections.map(section => ({
+    name: section.title,
+    rows: [
+      section.columns.map(column => column.label),
+      ...section.rows.map(row => section.columns.map(column => row[column.key])),
+    ],
+  })),
+];
@@ -0,0 +1,247 @@
+/**
+ * Sensor Reading Utilities
+ *
+ * Pure helpers for the sensor ingestion pipeline:
+ * - Parsing bridge payloads (MQTT messages or HTTP bodies) into readings
+ * - Validating readings against physical ranges and clock skew
+ * - Deduplicating redelivered readings
+ * - Downsampling a window of readings into a single EnvironmentRecord
+ *
+ * Accepted payload shapes (JSON), single object or array:
+ *   { "sensorId": "tent1-temp", "value": 24.3, "timestamp": 1718000000 }
+ *   { "id": "tent1-temp", "type": "temp", "value": "24.3", "ts": 1718000000000 }
+ * A bare number is also accepted when the sensor id comes from the MQTT topic.
+ * Timestamps may be in seconds or milliseconds; missing timestamps mean "now".
+ */
+
+import {
+  EnvironmentRecord,
+  Sensor,
+  SensorReading,
+  SensorReadingRejection,
+  SensorType,
+  TargetRange,
+} from '../types';
+
+export const SENSOR_TYPES: SensorType[] = [
+  'temp',
+  'humidity',
+  'co2',
+  'ppfd',
+  'substrateMoisture',
+  'reservoirPh',
+  'reservoirEc',
+];
+
+/**
+ * Physically plausible ranges. Readings outside are treated as sensor faults.
+ */
+export const SENSOR_VALUE_RANGES: Record<SensorType, TargetRange> = {
+  temp: { min: -20, max: 60 }, // °C
+  humidity: { min: 0, max: 100 }, // %
+  co2: { min: 0, max: 10000 }, // ppm
+  ppfd: { min: 0, max: 3000 }, // µmol/m²/s
+  substrateMoisture: { min: 0, max: 100 }, // %
+  reservoirPh: { min: 0, max: 14 },
+  reservoirEc: { min: 0, max: 20 }, // mS/cm
+};
+
+export const SENSOR_UNITS: Record<SensorType, string> = {
+  temp: '°C',
+  humidity: '%',
+  co2: 'ppm',
+  ppfd: 'µmol/m²/s',
+  substrateMoisture: '%',
+  reservoirPh: 'pH',
+  reservoirEc: 'mS/cm',
+};
+
+// Readings older than this are not ingested (e.g. a bridge replaying a long backlog)
+export const MAX_READING_AGE_MS = 24 * 60 * 60 * 1000;
+// Tolerated clock difference between the bridge and this device
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+// PPFD above this counts as lights on when estimating the photoperiod
+export const LIGHTS_ON_PPFD = 50;
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    return Number(value);
+  }
+  return NaN;
+};
+
+const toTimestamp = (value: unknown, now: number): number => {
+  if (value === undefined || value === null || value === '') {
+    return now;
+  }
+  const numeric = toNumber(value);
+  if (!isNaN(numeric)) {
+    // Unix seconds are below 1e12 until the year 33658
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  return typeof value === 'string' ? Date.parse(value) : NaN;
+};
+
+/**
+ * Parses a bridge payload into readings.
+ * Entries that can't be parsed at all are counted as invalid rather than thrown.
+ * @param payload - Decoded JSON (object, array or number)
+ * @param fallbackSensorId - Sensor id to use when an entry has none (the MQTT topic suffix)
+ */
+export const parseSensorPayload = (
+  payload: unknown,
+  fallbackSensorId?: string,
+  now: number = Date.now()
+): { readings: SensorReading[]; invalid: number } => {
+  const entries = Array.isArray(payload) ? payload : [payload];
+  const readings: SensorReading[] = [];
+  let invalid = 0;
+
+  entries.forEach(entry => {
+    const data: Record<string, unknown> = typeof entry === 'object' && entry !== null
+      ? entry as Record<string, unknown>
+      : { value: entry };
+
+    const sensorId = String(data.sensorId ?? data.id ?? fallbackSensorId ?? '').trim();
+    const value = toNumber(data.value);
+    const timestamp = toTimestamp(data.timestamp ?? data.ts, now);
+    const type = SENSOR_TYPES.includes(data.type as SensorType) ? data.type as SensorType : undefined;
+
+    if (!sensorId || !isFinite(value) || !isFinite(timestamp)) {
+      invalid++;
+      return;
+    }
+
+    readings.push({ sensorId, type, value, timestamp });
+  });
+
+  return { readings, invalid };
+};
+
+/**
+ * Checks a reading against its sensor type's range and the allowed time window.
+ * Returns the rejection reason, or null when the reading is valid.
+ */
+export const validateSensorReading = (
+  reading: SensorReading,
+  type: SensorType,
+  now: number = Date.now()
+): SensorReadingRejection | null => {
+  if (!isFinite(reading.value) || !isFinite(reading.timestamp)) {
+    return 'invalid';
+  }
+
+  const range = SENSOR_VALUE_RANGES[type];
+  if (reading.value < range.min || reading.value > range.max) {
+    return 'out_of_range';
+  }
+
+  if (reading.timestamp > now + MAX_CLOCK_SKEW_MS || reading.timestamp < now - MAX_READING_AGE_MS) {
+    return 'stale';
+  }
+
+  return null;
+};
+
+/**
+ * Remembers recently seen readings so redelivered messages (MQTT QoS 1, HTTP retries)
+ * are only counted once. Only the most recent maxEntries keys are kept.
+ */
+export const createReadingDeduper = (maxEntries: number = 5000) => {
+  const seen = new Set<string>();
+
+  return {
+    isDuplicate: (reading: SensorReading): boolean => {
+      const key = `${reading.sensorId}|${reading.timestamp}`;
+      if (seen.has(key)) {
+        return true;
+      }
+
+      seen.add(key);
+      if (seen.size > maxEntries) {
+        // Sets iterate in insertion order, so the first key is the oldest
+        seen.delete(seen.values().next().value as string);
+      }
+      return false;
+    },
+    clear: () => seen.clear(),
+  };
+};
+
+/**
+ * Start of the downsampling window a timestamp falls into
+ */
+export const getWindowStart = (timestamp: number, windowMinutes: number): number => {
+  const windowMs = windowMinutes * 60 * 1000;
+  return Math.floor(timestamp / windowMs) * windowMs;
+};
+
+/**
+ * Estimates the photoperiod from which recent windows had the lights on,
+ * scaled to 24 hours and rounded to the nearest half hour
+ */
+export const estimateLightHours = (lightsOnWindows: boolean[]): number => {
+  if (lightsOnWindows.length === 0) {
+    return 0;
+  }
+  const onFraction = lightsOnWindows.filter(Boolean).length / lightsOnWindows.length;
+  return Math.round(onFraction * 24 * 2) / 2;
+};
+
+const average = (values: number[]): number | undefined => {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const avg = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.round(avg * 100) / 100;
+};
+
+/**
+ * Averages one window of readings from an environment's sensors into an EnvironmentRecord.
+ * Returns null when the window has no temperature or humidity, which every record needs.
+ */
+export const buildSensorEnvironmentRecord = (
+  environmentId: string,
+  readings: { sensor: Sensor; reading: SensorReading }[],
+  windowStart: number,
+  windowMinutes: number,
+  lightHours: number,
+  associationId?: string
+): Omit<EnvironmentRecord, 'id'> | null => {
+  const valuesOf = (type: SensorType) => readings
+    .filter(({ sensor }) => sensor.type === type)
+    .map(({ reading }) => reading.value);
+
+  const temp = average(valuesOf('temp'));
+  const humidity = average(valuesOf('humidity'));
+
+  if (temp === undefined || humidity === undefined) {
+    return null;
+  }
+
+  const windowEnd = windowStart + windowMinutes * 60 * 1000;
+
+  return {
+    environmentId,
+    associationId,
+    date: windowEnd,
+    temp,
+    humidity,
+    lightHours,
+    // Canopy PPFD while lit, so DLI (PPFD × photoperiod) isn't diluted by dark readings
+    ppfd: average(valuesOf('ppfd').filter(value => value > LIGHTS_ON_PPFD)),
+    co2: average(valuesOf('co2')),
+    substrateMoisture: average(valuesOf('substrateMoisture')),
+    reservoirPh: average(valuesOf('reservoirPh')),
+    reservoirEc: average(valuesOf('reservoirEc')),
+    notes: '',
+    source: 'sensor',
+    sampleCount: readings.length,
+    sensorIds: Array.from(new Set(readings.map(({ sensor }) => sensor.sensorId))),
+    windowStart,
+    windowEnd,
+  };
+};
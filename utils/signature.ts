@@ -0,0 +1,111 @@
+// Helpers for handwritten signatures captured on the signature pad
+import * as Crypto from 'expo-crypto';
+import { format } from 'date-fns';
+import { CapturedSignature, Distribution } from '../types';
+
+/**
+ * Raw strokes from the signature pad, before they are signed off
+ */
+export interface SignatureStrokes {
+  paths: string[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Fields of the signed record that the signature vouches for
+ */
+export type SignedContent = Record<string, string | number | undefined>;
+
+/**
+ * What a recipient signs for when picking up a distribution
+ */
+export const getDistributionSignedContent = (
+  distribution: Pick<
+    Distribution,
+    'distributionNumber' | 'patientId' | 'harvestId' | 'extractId' | 'batchNumber' | 'quantityGrams' | 'quantityMl' | 'quantityUnits'
+  >
+): SignedContent => ({
+  distributionNumber: distribution.distributionNumber,
+  patientId: distribution.patientId,
+  harvestId: distribution.harvestId,
+  extractId: distribution.extractId,
+  batchNumber: distribution.batchNumber,
+  quantityGrams: distribution.quantityGrams,
+  quantityMl: distribution.quantityMl,
+  quantityUnits: distribution.quantityUnits,
+});
+
+/**
+ * Hashes the strokes together with the signer, timestamp and signed content,
+ * so any later change to one of them is detectable
+ */
+const hashSignature = (
+  paths: string[],
+  signerName: string,
+  signedAt: number,
+  signedContent: SignedContent
+): Promise<string> => {
+  return Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    JSON.stringify({ paths, signerName, signedAt, ...signedContent })
+  );
+};
+
+/**
+ * Seals the strokes drawn on the pad into a timestamped, hashed signature
+ */
+export const createSignature = async (
+  strokes: SignatureStrokes,
+  signerName: string,
+  signedContent: SignedContent = {}
+): Promise<CapturedSignature> => {
+  if (strokes.paths.length === 0) {
+    throw new Error('The signature is empty');
+  }
+
+  const signedAt = Date.now();
+  const name = signerName.trim();
+
+  return {
+    paths: strokes.paths,
+    width: Math.round(strokes.width),
+    height: Math.round(strokes.height),
+    signerName: name,
+    signedAt,
+    hash: await hashSignature(strokes.paths, name, signedAt, signedContent),
+  };
+};
+
+/**
+ * Checks that a stored signature still matches its hash and the content it was signed for
+ */
+export const verifySignature = async (
+  signature: CapturedSignature,
+  signedContent: SignedContent = {}
+): Promise<boolean> => {
+  const hash = await hashSignature(signature.paths, signature.signerName, signature.signedAt, signedContent);
+  return hash === signature.hash;
+};
+
+/**
+ * Short form of the hash for display (first 12 hex characters)
+ */
+export const getShortHash = (signature: CapturedSignature): string => signature.hash.substring(0, 12);
+
+/**
+ * Renders a signature as inline SVG markup for HTML/PDF documents
+ */
+export const renderSignatureSvg = (signature: CapturedSignature, maxHeight: number = 80): string => {
+  const paths = signature.paths
+    .map(path => `<path d="${path}" fill="none" stroke="#1a237e" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round" />`)
+    .join('');
+
+  return `
+    <svg viewBox="0 0 ${signature.width} ${signature.height}" style="max-height: ${maxHeight}px; max-width: 100%;" xmlns="http://www.w3.org/2000/svg">
+      ${paths}
+    </svg>
+    <div style="font-size: 8px; color: #999;">
+      Signed ${format(new Date(signature.signedAt), 'dd/MM/yyyy HH:mm:ss')} · SHA-256 ${getShortHash(signature)}
+    </div>`;
+};
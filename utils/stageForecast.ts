@@ -0,0 +1,263 @@
+/**
+ * Stage Forecast Utilities
+ *
+ * Pure helpers for projecting a plant's stage timeline:
+ * - Parsing breeder flowering times ("8-10 weeks", "60 days")
+ * - Measuring stage durations of past plants of the same strain
+ * - Projecting flip and harvest dates from recorded stages, strain history,
+ *   the genetic's flowering time and defaults, in that order of preference
+ */
+
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import {
+  FloweringType,
+  ForecastBasis,
+  PlantForecast,
+  Plant,
+  SeedGenetic,
+  Stage,
+  StageDurationStats,
+  StageForecastEntry,
+  StageHistory,
+  StageName,
+} from '../types';
+
+// Growth stages that lead up to harvest, in order
+export const GROWTH_STAGES: StageName[] = ['Seedling', 'Veg', 'Flower'];
+
+// Stages a plant only reaches after being harvested
+const POST_HARVEST_STAGES: StageName[] = ['Drying', 'Curing'];
+
+const DEFAULT_STAGE_DAYS: Record<FloweringType, Record<string, number>> = {
+  photoperiod: { Seedling: 14, Veg: 35, Flower: 63 },
+  // Autoflowers switch on their own after a short veg
+  autoflower: { Seedling: 14, Veg: 21, Flower: 49 },
+};
+
+// Spread around a single-value estimate when no range is known
+const DEFAULT_WINDOW_DAYS = 7;
+
+/**
+ * Parses a free-text flowering time into a day range.
+ * Numbers are read as weeks unless the text mentions days.
+ */
+export const parseFloweringTime = (text?: string): { minDays: number; maxDays: number } | null => {
+  if (!text) {
+    return null;
+  }
+
+  const numbers = (text.match(/\d+(?:[.,]\d+)?/g) || [])
+    .map(value => parseFloat(value.replace(',', '.')))
+    .filter(value => value > 0);
+  if (numbers.length === 0) {
+    return null;
+  }
+
+  const factor = /d(ay|ia)/i.test(text) ? 1 : 7;
+  const min = Math.min(...numbers.slice(0, 2)) * factor;
+  const max = Math.max(...numbers.slice(0, 2)) * factor;
+  return { minDays: Math.round(min), maxDays: Math.round(max) };
+};
+
+const sortStages = (stages: Stage[]): Stage[] => {
+  return [...stages].sort((a, b) => a.startDate - b.startDate);
+};
+
+/**
+ * Days spent in each completed growth stage. Flower ends at the first
+ * harvest, or at the start of Drying when no harvest date is known.
+ */
+export const getStageDurations = (
+  stages: Stage[],
+  harvestDate?: number
+): Partial<Record<StageName, number>> => {
+  const sorted = sortStages(stages);
+  const durations: Partial<Record<StageName, number>> = {};
+
+  sorted.forEach((stage, index) => {
+    if (!GROWTH_STAGES.includes(stage.name)) return;
+
+    const next = sorted[index + 1];
+    const endDate = stage.name === 'Flower' && harvestDate ? harvestDate : next?.startDate;
+    if (!endDate || endDate <= stage.startDate) return;
+
+    durations[stage.name] = differenceInCalendarDays(endDate, stage.startDate);
+  });
+
+  return durations;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+    : sorted[middle];
+};
+
+/**
+ * Combines the stage durations of several past plants into per-stage stats
+ */
+export const summarizeStageHistory = (
+  plantDurations: Partial<Record<StageName, number>>[]
+): StageHistory => {
+  const history: StageHistory = {};
+
+  GROWTH_STAGES.forEach(stage => {
+    const values = plantDurations
+      .map(durations => durations[stage])
+      .filter((value): value is number => value !== undefined);
+    if (values.length === 0) return;
+
+    const stats: StageDurationStats = {
+      medianDays: median(values),
+      minDays: Math.min(...values),
+      maxDays: Math.max(...values),
+      sampleSize: values.length,
+    };
+    history[stage] = stats;
+  });
+
+  return history;
+};
+
+/**
+ * Whether a past plant counts as the same strain for history purposes
+ */
+export const isSameStrain = (plant: Plant, other: Plant): boolean => {
+  const geneticId = plant.genetics?.seedGeneticId;
+  if (geneticId && other.genetics?.seedGeneticId) {
+    return geneticId === other.genetics.seedGeneticId;
+  }
+  return plant.strain.trim().toLowerCase() === other.strain.trim().toLowerCase();
+};
+
+interface StageEstimate {
+  days: number;
+  minDays: number;
+  maxDays: number;
+  basis: ForecastBasis;
+}
+
+const estimateStage = (
+  stage: StageName,
+  floweringType: FloweringType,
+  history: StageHistory,
+  genetic?: SeedGenetic | null
+): StageEstimate => {
+  const past = history[stage];
+  if (past) {
+    return { days: past.medianDays, minDays: past.minDays, maxDays: past.maxDays, basis: 'history' };
+  }
+
+  if (stage === 'Flower') {
+    const flowering = parseFloweringTime(genetic?.floweringTime);
+    if (flowering) {
+      return {
+        days: Math.round((flowering.minDays + flowering.maxDays) / 2),
+        minDays: flowering.minDays,
+        maxDays: flowering.maxDays,
+        basis: 'genetic',
+      };
+    }
+  }
+
+  const days = DEFAULT_STAGE_DAYS[floweringType][stage];
+  return { days, minDays: days - DEFAULT_WINDOW_DAYS, maxDays: days + DEFAULT_WINDOW_DAYS, basis: 'default' };
+};
+
+/**
+ * Projects a plant's timeline from its recorded stages. The current stage is
+ * assumed to last its estimated duration but never to end before now.
+ * @param harvestDate - First harvest of the plant, if it was already harvested
+ */
+export const forecastPlant = (
+  plant: Plant,
+  stages: Stage[],
+  options: {
+    genetic?: SeedGenetic | null;
+    history?: StageHistory;
+    harvestDate?: number;
+    now?: number;
+  } = {}
+): PlantForecast => {
+  const { genetic, history = {}, now = Date.now() } = options;
+  const floweringType: FloweringType = genetic?.floweringType || 'photoperiod';
+  const sorted = sortStages(stages);
+  const recorded = sorted.filter(stage => GROWTH_STAGES.includes(stage.name));
+
+  // Plants created before stage records existed only have a current stage
+  if (recorded.length === 0) {
+    const stage = plant.currentStage && GROWTH_STAGES.includes(plant.currentStage) ? plant.currentStage : 'Seedling';
+    recorded.push({ id: '', plantId: plant.id, name: stage, startDate: plant.startDate });
+  }
+
+  const postHarvestStart = sorted.find(stage => POST_HARVEST_STAGES.includes(stage.name))?.startDate;
+  const harvestedAt = options.harvestDate ?? postHarvestStart;
+
+  const entries: StageForecastEntry[] = [];
+  const flowerEstimate = estimateStage('Flower', floweringType, history, genetic);
+
+  // Recorded stages, the last of which is the current one unless the plant was harvested
+  recorded.forEach((stage, index) => {
+    const next = recorded[index + 1];
+    const estimate = estimateStage(stage.name, floweringType, history, genetic);
+
+    let endDate: number;
+    let basis: ForecastBasis = 'actual';
+    if (next) {
+      endDate = next.startDate;
+    } else if (harvestedAt) {
+      endDate = harvestedAt;
+    } else {
+      endDate = Math.max(addDays(stage.startDate, estimate.days).getTime(), now);
+      basis = estimate.basis;
+    }
+
+    entries.push({ stage: stage.name, startDate: stage.startDate, endDate, basis, projected: false });
+  });
+
+  // Remaining growth stages after the current one
+  if (!harvestedAt) {
+    const lastStage = recorded[recorded.length - 1].name;
+    GROWTH_STAGES.slice(GROWTH_STAGES.indexOf(lastStage) + 1).forEach(stage => {
+      const estimate = estimateStage(stage, floweringType, history, genetic);
+      const startDate = entries[entries.length - 1].endDate;
+      entries.push({
+        stage,
+        startDate,
+        endDate: addDays(startDate, estimate.days).getTime(),
+        basis: estimate.basis,
+        projected: true,
+      });
+    });
+  }
+
+  const flowerEntry = entries.find(entry => entry.stage === 'Flower');
+  const lastEntry = entries[entries.length - 1];
+  const harvestDate = harvestedAt ?? lastEntry.endDate;
+
+  let harvestWindow = { earliest: harvestDate, latest: harvestDate };
+  if (!harvestedAt && flowerEntry) {
+    harvestWindow = {
+      earliest: Math.max(addDays(flowerEntry.startDate, flowerEstimate.minDays).getTime(), now),
+      latest: Math.max(addDays(flowerEntry.startDate, flowerEstimate.maxDays).getTime(), harvestDate),
+    };
+  }
+
+  // The flip is only forecast when the plant went (or will go) through Veg first
+  const flipRecorded = recorded.some(stage => stage.name === 'Flower') && recorded[0].name !== 'Flower';
+  const flipProjected = flowerEntry?.projected;
+
+  return {
+    plantId: plant.id,
+    isAutoflower: floweringType === 'autoflower',
+    entries,
+    flipDate: flipRecorded || flipProjected ? flowerEntry?.startDate : undefined,
+    flipBasis: flipRecorded ? 'actual' : flipProjected ? entries[entries.indexOf(flowerEntry!) - 1]?.basis : undefined,
+    harvestDate,
+    harvestBasis: harvestedAt ? 'actual' : lastEntry.basis,
+    harvestWindow,
+    harvested: !!harvestedAt,
+  };
+};
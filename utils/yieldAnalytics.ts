@@ -0,0 +1,203 @@
+/**
+ * Yield Analytics Utilities
+ *
+ * Pure helpers for comparing harvest yields:
+ * - Per-plant totals across all of a plant's harvests
+ * - Canopy footprint of a plant as its share of the environment's floor area
+ * - Grams per plant / per m², dry-to-wet and trim ratios, days from start to harvest
+ * - Breakdowns by genetic, environment or grower against breeder yield claims
+ */
+
+import { differenceInCalendarDays } from 'date-fns';
+import {
+  Environment,
+  Harvest,
+  Plant,
+  PlantYield,
+  SeedGenetic,
+  YieldExpectation,
+  YieldGroupBy,
+  YieldStats,
+} from '../types';
+
+const SQ_FT_TO_M2 = 0.09290304;
+const GRAMS_PER_OUNCE = 28.3495;
+
+// Plants of an environment harvested this close together count as one run sharing the floor
+const RUN_WINDOW_DAYS = 30;
+
+/**
+ * Floor area of an environment in m², or undefined when it has no dimensions
+ */
+export const getEnvironmentAreaM2 = (environment?: Environment | null): number | undefined => {
+  const dimensions = environment?.dimensions;
+  if (!dimensions || !dimensions.width || !dimensions.length) {
+    return undefined;
+  }
+  const area = dimensions.width * dimensions.length;
+  return dimensions.unit === 'ft' ? area * SQ_FT_TO_M2 : area;
+};
+
+/**
+ * Parses a free-text yield claim such as "400-500g/m²", "1.2 kg/m2" or "14 oz/plant"
+ */
+export const parseYieldExpectation = (text?: string): YieldExpectation | null => {
+  if (!text) {
+    return null;
+  }
+
+  const numbers = (text.match(/\d+(?:[.,]\d+)?/g) || [])
+    .map(value => parseFloat(value.replace(',', '.')))
+    .filter(value => value > 0);
+  // "m²"/"m2" contributes a 2 that isn't part of the amount
+  const amounts = /m\s*²|m2/i.test(text) && numbers[numbers.length - 1] === 2 ? numbers.slice(0, -1) : numbers;
+  if (amounts.length === 0) {
+    return null;
+  }
+
+  const factor = /kg/i.test(text) ? 1000 : /oz/i.test(text) ? GRAMS_PER_OUNCE : 1;
+  const per: YieldExpectation['per'] = /plant|planta/i.test(text) ? 'plant' : 'm2';
+
+  return {
+    minGrams: Math.min(...amounts.slice(0, 2)) * factor,
+    maxGrams: Math.max(...amounts.slice(0, 2)) * factor,
+    per,
+  };
+};
+
+/**
+ * Totals the harvests of each harvested plant and works out its floor footprint
+ */
+export const buildPlantYields = (
+  plants: Plant[],
+  harvests: Harvest[],
+  environments: Environment[]
+): PlantYield[] => {
+  const harvestsByPlant = new Map<string, Harvest[]>();
+  harvests.forEach(harvest => {
+    harvestsByPlant.set(harvest.plantId, [...(harvestsByPlant.get(harvest.plantId) || []), harvest]);
+  });
+
+  const yields: PlantYield[] = [];
+  plants.forEach(plant => {
+    const plantHarvests = harvestsByPlant.get(plant.id);
+    if (!plantHarvests || plantHarvests.length === 0) return;
+
+    const dried = plantHarvests.filter(harvest => harvest.finalWeightGrams || harvest.dryWeightGrams);
+    const firstHarvestDate = Math.min(...plantHarvests.map(harvest => harvest.harvestDate));
+
+    yields.push({
+      plant,
+      environmentId: plant.environmentId,
+      harvestCount: plantHarvests.length,
+      firstHarvestDate,
+      wetGrams: plantHarvests.reduce((sum, harvest) => sum + (harvest.wetWeightGrams || 0), 0),
+      dryGrams: dried.length > 0
+        ? dried.reduce((sum, harvest) => sum + (harvest.finalWeightGrams || harvest.dryWeightGrams || 0), 0)
+        : undefined,
+      dryWetGrams: dried.length > 0
+        ? dried.reduce((sum, harvest) => sum + (harvest.wetWeightGrams || 0), 0)
+        : undefined,
+      trimGrams: dried.reduce((sum, harvest) => sum + (harvest.trimWeightGrams || 0), 0),
+      daysToHarvest: Math.max(differenceInCalendarDays(firstHarvestDate, plant.startDate), 0),
+    });
+  });
+
+  // Split each environment's area between the plants harvested in the same run
+  yields.forEach(plantYield => {
+    const area = getEnvironmentAreaM2(environments.find(env => env.id === plantYield.environmentId));
+    if (!area) return;
+
+    const runSize = yields.filter(other =>
+      other.environmentId === plantYield.environmentId &&
+      Math.abs(differenceInCalendarDays(other.firstHarvestDate, plantYield.firstHarvestDate)) <= RUN_WINDOW_DAYS
+    ).length;
+    plantYield.footprintM2 = area / runSize;
+  });
+
+  return yields;
+};
+
+const getGroupKey = (plantYield: PlantYield, groupBy: YieldGroupBy): string => {
+  switch (groupBy) {
+    case 'genetic':
+      return plantYield.plant.genetics?.seedGeneticId || `strain:${plantYield.plant.strain.trim().toLowerCase()}`;
+    case 'environment':
+      return plantYield.environmentId;
+    case 'grower':
+      return plantYield.plant.userId;
+  }
+};
+
+/**
+ * Yield stats of a set of plants. Weights per plant and per m² only count dried harvests.
+ */
+export const computeYieldStats = (
+  key: string,
+  label: string,
+  items: PlantYield[],
+  expectation?: YieldExpectation | null
+): YieldStats => {
+  const dried = items.filter(item => item.dryGrams !== undefined);
+  const dryGrams = dried.reduce((sum, item) => sum + (item.dryGrams || 0), 0);
+  const dryWetGrams = dried.reduce((sum, item) => sum + (item.dryWetGrams || 0), 0);
+  const trimGrams = dried.reduce((sum, item) => sum + item.trimGrams, 0);
+  const withFootprint = dried.filter(item => item.footprintM2);
+  const footprint = withFootprint.reduce((sum, item) => sum + (item.footprintM2 || 0), 0);
+
+  const stats: YieldStats = {
+    key,
+    label,
+    plantCount: items.length,
+    harvestCount: items.reduce((sum, item) => sum + item.harvestCount, 0),
+    wetGrams: items.reduce((sum, item) => sum + item.wetGrams, 0),
+    dryGrams,
+    gramsPerPlant: dried.length > 0 ? dryGrams / dried.length : undefined,
+    gramsPerM2: footprint > 0
+      ? withFootprint.reduce((sum, item) => sum + (item.dryGrams || 0), 0) / footprint
+      : undefined,
+    dryWetRatio: dryWetGrams > 0 ? dryGrams / dryWetGrams : undefined,
+    trimRatio: dryGrams > 0 ? trimGrams / dryGrams : undefined,
+    avgDaysToHarvest: items.length > 0
+      ? items.reduce((sum, item) => sum + item.daysToHarvest, 0) / items.length
+      : undefined,
+  };
+
+  if (expectation) {
+    const actual = expectation.per === 'plant' ? stats.gramsPerPlant : stats.gramsPerM2;
+    stats.expectation = expectation;
+    if (actual !== undefined) {
+      stats.expectationPercent = (actual / ((expectation.minGrams + expectation.maxGrams) / 2)) * 100;
+    }
+  }
+
+  return stats;
+};
+
+/**
+ * Yield stats per genetic, environment or grower, best grams per plant first.
+ * Genetics are compared against their indoor yield claim.
+ * @param getLabel - Display name for an environment or grower key
+ */
+export const summarizeYields = (
+  plantYields: PlantYield[],
+  groupBy: YieldGroupBy,
+  genetics: SeedGenetic[],
+  getLabel: (key: string) => string
+): YieldStats[] => {
+  const groups = new Map<string, PlantYield[]>();
+  plantYields.forEach(plantYield => {
+    const key = getGroupKey(plantYield, groupBy);
+    groups.set(key, [...(groups.get(key) || []), plantYield]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, items]) => {
+      if (groupBy !== 'genetic') {
+        return computeYieldStats(key, getLabel(key), items);
+      }
+      const genetic = genetics.find(g => g.id === key);
+      return computeYieldStats(key, genetic?.name || items[0].plant.strain, items, parseYieldExpectation(genetic?.yieldIndoor));
+    })
+    .sort((a, b) => (b.gramsPerPlant ?? -1) - (a.gramsPerPlant ?? -1));
+};